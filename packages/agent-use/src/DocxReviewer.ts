@@ -11,8 +11,8 @@
  * ```
  */
 
-import type { Document, DocumentBody } from '@eigenpal/docx-core/headless';
-import { parseDocx } from '@eigenpal/docx-core/headless';
+import type { CompareOptions, Document, DocumentBody } from '@eigenpal/docx-core/headless';
+import { compareDocx, parseDocx } from '@eigenpal/docx-core/headless';
 import type {
   ContentBlock,
   GetContentOptions,
@@ -72,6 +72,25 @@ export class DocxReviewer {
     return new DocxReviewer(doc, author, buffer);
   }
 
+  /**
+   * Compare two versions of a document. The reviewer holds the revised
+   * version with every difference expressed as a tracked change by `author`,
+   * ready to inspect with getChanges() or resolve with acceptChange()/rejectChange().
+   * @param original - ArrayBuffer of the baseline DOCX
+   * @param revised - ArrayBuffer of the DOCX to compare against it
+   * @param author - Author for the tracked changes, and the reviewer's default author. (default: 'AI')
+   * @param options - Change date and move detection
+   */
+  static async compare(
+    original: ArrayBuffer,
+    revised: ArrayBuffer,
+    author = 'AI',
+    options: Omit<CompareOptions, 'author'> = {}
+  ): Promise<DocxReviewer> {
+    const doc = await compareDocx(original, revised, { ...options, author });
+    return new DocxReviewer(doc, author, revised);
+  }
+
   private get body(): DocumentBody {
     return this.doc.package.document;
   }
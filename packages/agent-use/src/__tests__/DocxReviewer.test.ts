@@ -12,6 +12,7 @@ import type {
   CommentRangeEnd,
   ParagraphContent,
 } from '@eigenpal/docx-core/headless';
+import { createDocx, createEmptyDocument } from '@eigenpal/docx-core/headless';
 import { DocxReviewer } from '../DocxReviewer';
 import { TextNotFoundError, ChangeNotFoundError, CommentNotFoundError } from '../errors';
 
@@ -459,6 +460,47 @@ describe('acceptChange', () => {
     expect(textOf(content[0])).toBe('Keep ');
   });
 
+  test('resolves both halves of a move by either ID', () => {
+    const info = (id: number) => ({ id, author: 'Alice', date: '2024-01-01T00:00:00Z' });
+    const makeMoveDoc = () => [
+      {
+        type: 'paragraph',
+        content: [
+          makeRun('Stay '),
+          { type: 'moveFromRangeStart', id: 10, name: 'move1' },
+          { type: 'moveFrom', info: info(1), moveName: 'move1', content: [makeRun('moved')] },
+          { type: 'moveFromRangeEnd', id: 10 },
+        ],
+        formatting: {},
+      } as Paragraph,
+      {
+        type: 'paragraph',
+        content: [
+          makeRun('Here '),
+          { type: 'moveToRangeStart', id: 11, name: 'move1' },
+          { type: 'moveTo', info: info(2), moveName: 'move1', content: [makeRun('moved')] },
+          { type: 'moveToRangeEnd', id: 11 },
+        ],
+        formatting: {},
+      } as Paragraph,
+    ];
+
+    const accepted = makeReviewer(makeMoveDoc());
+    expect(accepted.getChanges().map((c) => c.moveName)).toEqual(['move1', 'move1']);
+    accepted.acceptChange(2);
+    expect(accepted.getChanges()).toHaveLength(0);
+    const acceptedText = accepted.getContent({ includeTrackedChanges: false });
+    expect(acceptedText.map(textOf)).toEqual(['Stay ', 'Here moved']);
+    const [source] = accepted.toDocument().package.document.content as Paragraph[];
+    expect(source.content.map((c) => c.type)).toEqual(['run']);
+
+    const rejected = makeReviewer(makeMoveDoc());
+    rejected.rejectChange(1);
+    expect(rejected.getChanges()).toHaveLength(0);
+    const rejectedText = rejected.getContent({ includeTrackedChanges: false });
+    expect(rejectedText.map(textOf)).toEqual(['Stay moved', 'Here ']);
+  });
+
   test('throws ChangeNotFoundError for invalid ID', () => {
     const reviewer = makeReviewer([makeParagraph('text')]);
     expect(() => reviewer.acceptChange(999)).toThrow(ChangeNotFoundError);
@@ -511,6 +553,64 @@ describe('acceptAll / rejectAll', () => {
   });
 });
 
+describe('formatting changes', () => {
+  function makeFormattedParagraph(): Paragraph {
+    const bolded: Run = {
+      ...makeRun('bold'),
+      formatting: { bold: true },
+      propertyChanges: [
+        {
+          type: 'runPropertyChange',
+          info: { id: 7, author: 'Alice', date: '2024-01-01T00:00:00Z' },
+          previousFormatting: {},
+        },
+      ],
+    };
+    return {
+      type: 'paragraph',
+      content: [makeRun('Make this '), bolded] as ParagraphContent[],
+      formatting: { alignment: 'center' },
+      propertyChanges: [
+        {
+          type: 'paragraphPropertyChange',
+          info: { id: 8, author: 'Bob', date: '2024-01-01T00:00:00Z' },
+          previousFormatting: { alignment: 'left' },
+        },
+      ],
+    } as Paragraph;
+  }
+
+  test('getChanges lists run and paragraph formatting changes', () => {
+    const reviewer = makeReviewer([makeFormattedParagraph()]);
+    const changes = reviewer.getChanges({ type: 'formatting' });
+    expect(changes.map((c) => [c.id, c.author, c.text])).toEqual([
+      [8, 'Bob', 'Make this bold'],
+      [7, 'Alice', 'bold'],
+    ]);
+  });
+
+  test('rejectChange restores the previous formatting', () => {
+    const reviewer = makeReviewer([makeFormattedParagraph()]);
+    reviewer.rejectChange(7);
+    reviewer.rejectChange(8);
+    const para = reviewer.toDocument().package.document.content[0] as Paragraph;
+    const run = para.content[1] as Run;
+    expect(run.formatting).toBeUndefined();
+    expect(run.propertyChanges).toBeUndefined();
+    expect(para.formatting).toEqual({ alignment: 'left' });
+    expect(reviewer.getChanges()).toHaveLength(0);
+  });
+
+  test('acceptAll keeps the new formatting', () => {
+    const reviewer = makeReviewer([makeFormattedParagraph()]);
+    expect(reviewer.acceptAll()).toBe(2);
+    const para = reviewer.toDocument().package.document.content[0] as Paragraph;
+    expect((para.content[1] as Run).formatting).toEqual({ bold: true });
+    expect(para.formatting).toEqual({ alignment: 'center' });
+    expect(para.propertyChanges).toBeUndefined();
+  });
+});
+
 // ============================================================================
 // applyReview (batch)
 // ============================================================================
@@ -748,3 +848,32 @@ describe('toDocument', () => {
     expect(original.package.document.comments).toBeUndefined();
   });
 });
+
+// ============================================================================
+// compare
+// ============================================================================
+
+describe('compare', () => {
+  async function makeBuffer(paragraphs: string[]): Promise<ArrayBuffer> {
+    const doc = createEmptyDocument();
+    doc.package.document.content = paragraphs.map((text) => makeParagraph(text));
+    return createDocx(doc);
+  }
+
+  test('exposes differences as tracked changes by the given author', async () => {
+    const original = await makeBuffer(['Liability is capped at $50k.', 'Unchanged clause.']);
+    const revised = await makeBuffer(['Liability is capped at $500k.', 'Unchanged clause.']);
+
+    const reviewer = await DocxReviewer.compare(original, revised, 'Counterparty');
+    const changes = reviewer.getChanges();
+    expect(changes.map((c) => [c.type, c.text])).toEqual([
+      ['deletion', '50k'],
+      ['insertion', '500k'],
+    ]);
+    expect(changes.every((c) => c.author === 'Counterparty')).toBe(true);
+
+    reviewer.acceptAll();
+    expect(reviewer.getContentAsText()).toContain('Liability is capped at $500k.');
+    expect(await reviewer.toBuffer()).toBeInstanceOf(ArrayBuffer);
+  });
+});
@@ -21,6 +21,9 @@ import {
   isTrackedChange,
   getParagraphAtIndex,
   forEachParagraph,
+  getFormatChangeTargets,
+  getFormatChangeInfo,
+  resolveFormatChange,
   type TrackedChangeItem,
 } from './utils';
 
@@ -32,6 +35,8 @@ import {
  * Accept a tracked change by ID.
  * Insertion: keep text, remove wrapper.
  * Deletion: remove text and wrapper.
+ * Formatting: keep the new formatting.
+ * Move: either half's ID accepts the whole move.
  */
 export function acceptChange(body: DocumentBody, id: number): void {
   if (!processChangeById(body, id, 'accept')) {
@@ -43,6 +48,8 @@ export function acceptChange(body: DocumentBody, id: number): void {
  * Reject a tracked change by ID.
  * Insertion: remove text and wrapper.
  * Deletion: keep text, remove wrapper.
+ * Formatting: restore the previous formatting.
+ * Move: either half's ID rejects the whole move.
  */
 export function rejectChange(body: DocumentBody, id: number): void {
   if (!processChangeById(body, id, 'reject')) {
@@ -71,6 +78,10 @@ export function rejectAll(body: DocumentBody): number {
 function processAllChanges(body: DocumentBody, mode: 'accept' | 'reject'): number {
   let count = 0;
   forEachParagraph(body, (para) => {
+    for (const target of getFormatChangeTargets(para)) {
+      resolveFormatChange(target, mode);
+      count++;
+    }
     for (let i = para.content.length - 1; i >= 0; i--) {
       const item = para.content[i];
       if (isTrackedChange(item)) {
@@ -79,26 +90,42 @@ function processAllChanges(body: DocumentBody, mode: 'accept' | 'reject'): numbe
       }
     }
   });
+  removeMoveRanges(body);
   return count;
 }
 
 /**
  * Find and process a tracked change by revision ID.
- * Processes ALL content items with matching ID (a revision can span multiple items).
+ * Processes ALL content items with matching ID (a revision can span multiple items),
+ * and for a move, the items of the other half.
  */
 function processChangeById(body: DocumentBody, id: number, mode: 'accept' | 'reject'): boolean {
+  const moveName = findMoveName(body, id);
+  const matches = (item: TrackedChangeItem) =>
+    item.info.id === id ||
+    (!!moveName &&
+      (item.type === 'moveFrom' || item.type === 'moveTo') &&
+      item.moveName === moveName);
   let found = false;
   forEachParagraph(body, (para) => {
+    for (const target of getFormatChangeTargets(para)) {
+      if (getFormatChangeInfo(target).id === id) {
+        resolveFormatChange(target, mode);
+        found = true;
+      }
+    }
     for (let i = para.content.length - 1; i >= 0; i--) {
       const item = para.content[i];
-      if (isTrackedChange(item) && item.info.id === id) {
+      if (isTrackedChange(item) && matches(item)) {
         applyChangeAtIndex(para, i, item, mode);
         found = true;
       }
     }
-    // Stop traversal once we've found and processed the change
-    if (found) return false;
+    // Stop traversal once we've found and processed the change; the halves
+    // of a move can be paragraphs apart
+    if (found && !moveName) return false;
   });
+  if (moveName) removeMoveRanges(body, moveName);
   return found;
 }
 
@@ -213,6 +240,52 @@ export function proposeDeletion(body: DocumentBody, options: ProposeDeletionOpti
 // HELPERS
 // ============================================================================
 
+/**
+ * The name of the move a revision ID belongs to, if any
+ */
+function findMoveName(body: DocumentBody, id: number): string | undefined {
+  let moveName: string | undefined;
+  forEachParagraph(body, (para) => {
+    for (const item of para.content) {
+      if ((item.type === 'moveFrom' || item.type === 'moveTo') && item.info.id === id) {
+        moveName = item.moveName;
+        return false;
+      }
+    }
+  });
+  return moveName;
+}
+
+/**
+ * Remove the range markers of a resolved move, or of all moves
+ */
+function removeMoveRanges(body: DocumentBody, moveName?: string): void {
+  const ids = new Set<string>();
+  forEachParagraph(body, (para) => {
+    for (const item of para.content) {
+      if (
+        (item.type === 'moveFromRangeStart' || item.type === 'moveToRangeStart') &&
+        (moveName === undefined || item.name === moveName)
+      ) {
+        ids.add(`${item.type === 'moveFromRangeStart' ? 'from' : 'to'}:${item.id}`);
+      }
+    }
+  });
+  if (ids.size === 0) return;
+
+  forEachParagraph(body, (para) => {
+    para.content = para.content.filter((item) => {
+      if (item.type === 'moveFromRangeStart' || item.type === 'moveFromRangeEnd') {
+        return !ids.has(`from:${item.id}`);
+      }
+      if (item.type === 'moveToRangeStart' || item.type === 'moveToRangeEnd') {
+        return !ids.has(`to:${item.id}`);
+      }
+      return true;
+    });
+  });
+}
+
 /** Cached max revision ID per body — avoids O(N) scan on every proposal. */
 const revisionIdCache = new WeakMap<DocumentBody, number>();
 
@@ -226,6 +299,9 @@ function nextRevisionId(body: DocumentBody): number {
           maxId = Math.max(maxId!, item.info.id);
         }
       }
+      for (const target of getFormatChangeTargets(para)) {
+        maxId = Math.max(maxId!, getFormatChangeInfo(target).id);
+      }
     });
   }
   const next = maxId + 1;
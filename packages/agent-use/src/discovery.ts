@@ -5,7 +5,14 @@
 import type { DocumentBody, Run, Comment } from '@eigenpal/docx-core/headless';
 import type { ReviewChange, ReviewComment, ChangeFilter, CommentFilter } from './types';
 import { getParagraphPlainText } from './textSearch';
-import { getRunText, getTrackedChangeText, isTrackedChange, forEachParagraph } from './utils';
+import {
+  getRunText,
+  getTrackedChangeText,
+  isTrackedChange,
+  forEachParagraph,
+  getFormatChangeTargets,
+  getFormatChangeInfo,
+} from './utils';
 
 /**
  * Collect all tracked changes from the document body.
@@ -34,10 +41,35 @@ export function getChanges(body: DocumentBody, filter?: ChangeFilter): ReviewCha
             text,
             context,
             paragraphIndex,
+            ...((item.type === 'moveFrom' || item.type === 'moveTo') && item.moveName
+              ? { moveName: item.moveName }
+              : {}),
           });
         }
       }
     }
+
+    // Formatting changes of the paragraph and its runs
+    for (const target of getFormatChangeTargets(para)) {
+      if (context === null) context = getParagraphPlainText(para);
+      const info = getFormatChangeInfo(target);
+      const text = target.type === 'run' ? getRunText(target) : context;
+
+      const existing = grouped.get(info.id);
+      if (existing && existing.paragraphIndex === paragraphIndex) {
+        if (target.type === 'run') existing.text += text;
+      } else {
+        grouped.set(info.id, {
+          id: info.id,
+          type: 'formatting',
+          author: info.author,
+          date: info.date ?? null,
+          text,
+          context,
+          paragraphIndex,
+        });
+      }
+    }
   });
 
   const changes = Array.from(grouped.values());
@@ -50,12 +50,15 @@ export interface GetContentOptions {
 
 export interface ReviewChange {
   id: number;
-  type: 'insertion' | 'deletion' | 'moveFrom' | 'moveTo';
+  /** 'formatting' is a tracked run or paragraph property change (w:rPrChange / w:pPrChange) */
+  type: 'insertion' | 'deletion' | 'moveFrom' | 'moveTo' | 'formatting';
   author: string;
   date: string | null;
   text: string;
   context: string;
   paragraphIndex: number;
+  /** For moves: the name linking the moveFrom and moveTo halves, which resolve together */
+  moveName?: string;
 }
 
 export interface ReviewCommentReply {
@@ -78,7 +81,7 @@ export interface ReviewComment {
 
 export interface ChangeFilter {
   author?: string;
-  type?: 'insertion' | 'deletion' | 'moveFrom' | 'moveTo';
+  type?: 'insertion' | 'deletion' | 'moveFrom' | 'moveTo' | 'formatting';
 }
 
 export interface CommentFilter {
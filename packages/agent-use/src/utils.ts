@@ -12,6 +12,7 @@ import type {
   Deletion,
   MoveFrom,
   MoveTo,
+  PropertyChangeInfo,
 } from '@eigenpal/docx-core/headless';
 import {
   getRunText,
@@ -50,6 +51,56 @@ export function getTrackedChangeText(content: (Run | Hyperlink)[]): string {
   return parts.join('');
 }
 
+// ============================================================================
+// FORMAT CHANGE HELPERS
+// ============================================================================
+
+/** Paragraph or run with a tracked property change (w:pPrChange / w:rPrChange) */
+export type FormatChangeTarget = Paragraph | Run;
+
+/**
+ * Collect the paragraph and runs of a paragraph that carry tracked property
+ * changes, including runs in hyperlinks and tracked change wrappers.
+ */
+export function getFormatChangeTargets(para: Paragraph): FormatChangeTarget[] {
+  const targets: FormatChangeTarget[] = [];
+  if (para.propertyChanges?.length) targets.push(para);
+
+  const visit = (items: readonly ParagraphContent[]) => {
+    for (const item of items) {
+      if (item.type === 'run') {
+        if (item.propertyChanges?.length) targets.push(item);
+      } else if (item.type === 'hyperlink') {
+        visit(item.children);
+      } else if (isTrackedChange(item)) {
+        visit(item.content);
+      }
+    }
+  };
+  visit(para.content);
+  return targets;
+}
+
+export function getFormatChangeInfo(target: FormatChangeTarget): PropertyChangeInfo {
+  return target.propertyChanges![0].info;
+}
+
+/**
+ * Resolve a tracked property change.
+ * Accept keeps the current formatting; reject restores the previous one.
+ */
+export function resolveFormatChange(target: FormatChangeTarget, mode: 'accept' | 'reject'): void {
+  if (mode === 'reject') {
+    if (target.type === 'paragraph') {
+      target.formatting = target.propertyChanges![0].previousFormatting;
+    } else {
+      const previous = target.propertyChanges![0].previousFormatting;
+      target.formatting = previous && Object.keys(previous).length > 0 ? previous : undefined;
+    }
+  }
+  delete target.propertyChanges;
+}
+
 // ============================================================================
 // DOCUMENT TRAVERSAL
 // ============================================================================
@@ -4,7 +4,7 @@
  * Provides a convenient interface for:
  * - Reading document content and metadata
  * - Editing text with formatting
- * - Inserting tables, images, and hyperlinks
+ * - Inserting tables, images, equations, and hyperlinks
  * - Managing template variables
  * - Exporting to DOCX buffer
  *
@@ -31,6 +31,7 @@ import type {
   StyleInfo,
   ParagraphOutline,
   SectionInfo,
+  DocumentLayoutInfo,
 } from '../types/agentApi';
 
 import { executeCommand, executeCommands } from './executor';
@@ -39,7 +40,25 @@ import { repackDocx, createDocx } from '../docx/rezip';
 import { attemptSelectiveSave, type SelectiveSaveOptions } from '../docx/selectiveSave';
 import { detectVariables } from '../utils/variableDetector';
 import { parseDocx } from '../docx/parser';
+import {
+  serializeDocumentToHtml,
+  type HtmlExportOptions,
+  type HtmlExportResult,
+} from '../docx/serializer/htmlSerializer';
+import {
+  serializeDocumentToMarkdown,
+  type MarkdownExportOptions,
+  type MarkdownExportResult,
+} from '../docx/serializer/markdownSerializer';
+import { updateFields, type UpdateFieldsOptions } from '../docx/fields';
+import { applyBoundData, replaceCustomXmlPart } from '../docx/dataBinding';
 import type { DocxInput } from '../utils/docxInput';
+import type { PdfExportOptions } from '../pdf';
+import { getDocumentLayout } from './layout';
+import {
+  getMeasurementBackend,
+  type TextMeasurementBackend,
+} from '../layout-bridge/measuring/measureContainer';
 
 // ============================================================================
 // TYPES
@@ -75,6 +94,14 @@ export interface InsertImageOptions {
   alt?: string;
 }
 
+/**
+ * Options for inserting an equation
+ */
+export interface InsertEquationOptions {
+  /** Inline (within the text) or block (own paragraph); default inline */
+  display?: 'inline' | 'block';
+}
+
 /**
  * Options for inserting hyperlink
  */
@@ -127,6 +154,9 @@ export interface FormattedTextSegment {
 export class DocumentAgent {
   private _document: Document;
   private _pendingVariables: Record<string, string>;
+  /** Last layout, with the measurement backend it was computed with */
+  private _layout: { backend: TextMeasurementBackend | null; info: DocumentLayoutInfo } | null =
+    null;
 
   /**
    * Create a new DocumentAgent
@@ -246,17 +276,45 @@ export class DocumentAgent {
   }
 
   /**
-   * Get approximate page count
+   * Get page count
    *
-   * Note: This is an estimate based on content length.
-   * Actual page count requires full layout computation.
+   * The first call lays out the whole document (see `layout()`), which takes
+   * about as long as opening it in the editor; later calls reuse that layout.
    *
-   * @returns Estimated page count
+   * @returns Number of pages the document lays out to
    */
   getPageCount(): number {
-    // Estimate: ~500 words per page
-    const wordCount = this.getWordCount();
-    return Math.max(1, Math.ceil(wordCount / 500));
+    return this.layout().pageCount;
+  }
+
+  /**
+   * Lay the document out into pages the way the editor paginates it
+   *
+   * Text is measured with the backend set by `setMeasurementBackend` (in Node,
+   * `createFontMetricsBackend` reads font files), else a canvas, else an
+   * estimate. The result is cached until the backend changes. Edits return a
+   * new agent, which lays out afresh; changes made directly to the object
+   * from `getDocument()` are not picked up.
+   *
+   * @returns Page count and, per page, its paragraphs and text
+   */
+  layout(): DocumentLayoutInfo {
+    const backend = getMeasurementBackend();
+    if (!this._layout || this._layout.backend !== backend) {
+      this._layout = { backend, info: getDocumentLayout(this._document) };
+    }
+    return this._layout.info;
+  }
+
+  /**
+   * Get the page a paragraph starts on
+   *
+   * @param paragraphIndex - Index of the paragraph (0-indexed)
+   * @returns Page number (1-indexed), or null if there is no such paragraph
+   */
+  getPageForParagraph(paragraphIndex: number): number | null {
+    const page = this.layout().pages.find((p) => p.paragraphIndices.includes(paragraphIndex));
+    return page ? page.number : null;
   }
 
   /**
@@ -514,6 +572,28 @@ export class DocumentAgent {
     return this._executeCommand(command);
   }
 
+  /**
+   * Insert a math equation
+   *
+   * @param position - Where to insert the equation
+   * @param latex - Equation in the LaTeX-like linear format (e.g. `\frac{a}{b}`)
+   * @param options - Equation options
+   * @returns New DocumentAgent with equation inserted
+   */
+  insertEquation(
+    position: Position,
+    latex: string,
+    options: InsertEquationOptions = {}
+  ): DocumentAgent {
+    const command: AgentCommand = {
+      type: 'insertEquation',
+      position,
+      latex,
+      display: options.display,
+    };
+    return this._executeCommand(command);
+  }
+
   /**
    * Insert a hyperlink
    *
@@ -577,6 +657,58 @@ export class DocumentAgent {
     return this._executeCommand(command);
   }
 
+  // ==========================================================================
+  // FIELD METHODS
+  // ==========================================================================
+
+  /**
+   * Update all fields (cross-references, SEQ numbers, dates, formulas, ...)
+   *
+   * Locked fields keep their results. PAGEREF fields take their page numbers
+   * from `layout()` unless `options.resolvePage` is given; bookmarks outside
+   * top-level paragraphs (e.g. in tables) keep their current result.
+   *
+   * @param options - Current time, extra properties and page resolution
+   * @returns New DocumentAgent with field results rewritten
+   */
+  updateFields(options?: UpdateFieldsOptions): DocumentAgent {
+    const { originalBuffer, ...rest } = this._document;
+    const document: Document = { ...structuredClone(rest), originalBuffer };
+    updateFields(document, {
+      ...options,
+      resolvePage: options?.resolvePage ?? ((name) => this._getPageForBookmark(name)),
+    });
+
+    const newAgent = new DocumentAgent(document);
+    newAgent._pendingVariables = { ...this._pendingVariables };
+    return newAgent;
+  }
+
+  // ==========================================================================
+  // DATA BINDING
+  // ==========================================================================
+
+  /**
+   * Replace the data of a custom XML part and show it in the content
+   * controls bound to it
+   *
+   * @param xml - New content of the custom XML part
+   * @param storeItemId - Store item ID of the part; by default the part with
+   *   the same root element, or the only part controls are bound to
+   * @returns New DocumentAgent with bound controls repopulated
+   * @throws Error when the XML is malformed or no part matches
+   */
+  setBoundData(xml: string, storeItemId?: string): DocumentAgent {
+    const { originalBuffer, ...rest } = this._document;
+    const document: Document = { ...structuredClone(rest), originalBuffer };
+    replaceCustomXmlPart(document, xml, storeItemId);
+    applyBoundData(document);
+
+    const newAgent = new DocumentAgent(document);
+    newAgent._pendingVariables = { ...this._pendingVariables };
+    return newAgent;
+  }
+
   // ==========================================================================
   // TEMPLATE VARIABLE METHODS
   // ==========================================================================
@@ -708,6 +840,41 @@ export class DocumentAgent {
     return new Blob([buffer], { type: mimeType });
   }
 
+  /**
+   * Export document to semantic HTML
+   *
+   * @param options - Image handling, notes and page wrapping
+   * @returns HTML markup and any extracted image files
+   */
+  toHtml(options?: HtmlExportOptions): HtmlExportResult {
+    return serializeDocumentToHtml(this._document, options);
+  }
+
+  /**
+   * Export document to GitHub-flavored Markdown
+   *
+   * @param options - Image handling and notes
+   * @returns Markdown text and any extracted image files
+   */
+  toMarkdown(options?: MarkdownExportOptions): MarkdownExportResult {
+    return serializeDocumentToMarkdown(this._document, options);
+  }
+
+  /**
+   * Export document to PDF
+   *
+   * Lays the document out the way the editor paginates it and draws the
+   * pages into a PDF with embedded fonts, links and a heading outline.
+   * Text is measured as in `layout()`.
+   *
+   * @param options - Fonts, text measurer and document information
+   * @returns Promise resolving to the PDF file bytes
+   */
+  async toPdf(options?: Omit<PdfExportOptions, 'doc'>): Promise<Uint8Array> {
+    const { exportDocumentToPdf } = await import('../pdf');
+    return exportDocumentToPdf(this._document, options);
+  }
+
   /**
    * Execute multiple commands in sequence
    *
@@ -722,6 +889,24 @@ export class DocumentAgent {
   // PRIVATE HELPERS
   // ==========================================================================
 
+  /**
+   * Page of the top-level paragraph holding a bookmark's start, laid out lazily
+   */
+  private _getPageForBookmark(name: string): number | undefined {
+    const paragraphs = this._document.package.document.content.filter(
+      (block): block is Paragraph => block.type === 'paragraph'
+    );
+    const index = paragraphs.findIndex((paragraph) =>
+      paragraph.content.some(
+        (item) =>
+          (item.type === 'bookmarkStart' && item.name === name) ||
+          (item.type === 'hyperlink' &&
+            item.children.some((child) => child.type === 'bookmarkStart' && child.name === name))
+      )
+    );
+    return index === -1 ? undefined : (this.getPageForParagraph(index) ?? undefined);
+  }
+
   /**
    * Execute a single command and return new agent
    */
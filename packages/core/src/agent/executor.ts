@@ -21,6 +21,7 @@ import type {
   TextFormatting,
   Image,
   Hyperlink,
+  MathEquation,
 } from '../types/document';
 
 import type {
@@ -33,6 +34,7 @@ import type {
   ApplyStyleCommand,
   InsertTableCommand,
   InsertImageCommand,
+  InsertEquationCommand,
   InsertHyperlinkCommand,
   RemoveHyperlinkCommand,
   InsertParagraphBreakCommand,
@@ -43,6 +45,7 @@ import type {
 } from '../types/agentApi';
 
 import { pluginRegistry } from '../core-plugins/registry';
+import { createEquationOmml } from '../math/linearMath';
 
 // ============================================================================
 // MAIN EXECUTOR
@@ -86,6 +89,8 @@ export function executeCommand(doc: Document, command: AgentCommand): Document {
       return executeInsertTable(doc, command);
     case 'insertImage':
       return executeInsertImage(doc, command);
+    case 'insertEquation':
+      return executeInsertEquation(doc, command);
     case 'insertHyperlink':
       return executeInsertHyperlink(doc, command);
     case 'removeHyperlink':
@@ -772,6 +777,93 @@ function executeInsertImage(doc: Document, command: InsertImageCommand): Documen
   return newDoc;
 }
 
+/**
+ * Insert a math equation
+ *
+ * Inline equations go into the paragraph at the offset; block equations get
+ * a paragraph of their own, splitting the target paragraph when needed.
+ */
+function executeInsertEquation(doc: Document, command: InsertEquationCommand): Document {
+  const display = command.display ?? 'inline';
+  const { ommlXml, plainText } = createEquationOmml(command, display);
+  if (!ommlXml) {
+    throw new Error('insertEquation requires either latex or ommlXml');
+  }
+
+  const newDoc = cloneDocument(doc);
+  const body = newDoc.package.document;
+
+  const blockIndex = getBlockIndexForParagraph(body, command.position.paragraphIndex);
+  if (blockIndex === -1) {
+    throw new Error(`Paragraph index ${command.position.paragraphIndex} not found`);
+  }
+
+  const paragraph = body.content[blockIndex] as Paragraph;
+  const equation: MathEquation = { type: 'mathEquation', display, ommlXml, plainText };
+  const { offset } = command.position;
+
+  if (display === 'block') {
+    const paragraphText = getParagraphText(paragraph);
+    const equationParagraph: Paragraph = { type: 'paragraph', content: [equation] };
+
+    if (paragraph.content.length === 0) {
+      paragraph.content = [equation];
+    } else if (offset <= 0) {
+      body.content.splice(blockIndex, 0, equationParagraph);
+    } else if (offset >= paragraphText.length) {
+      body.content.splice(blockIndex + 1, 0, equationParagraph);
+    } else {
+      const afterParagraph: Paragraph = {
+        type: 'paragraph',
+        formatting: paragraph.formatting,
+        content: deleteTextInParagraph(
+          { ...paragraph, content: [...paragraph.content] },
+          0,
+          offset
+        ),
+      };
+      paragraph.content = deleteTextInParagraph(
+        { ...paragraph, content: [...paragraph.content] },
+        offset,
+        paragraphText.length
+      );
+      body.content.splice(blockIndex + 1, 0, equationParagraph, afterParagraph);
+    }
+    return newDoc;
+  }
+
+  // Split the runs at the offset, then swap the empty placeholder run for the equation
+  const newContent = insertTextAtOffset(paragraph, offset, '', undefined);
+  const runTexts = newContent.map((item) =>
+    item.type === 'run'
+      ? item.content
+          .filter((c): c is TextContent => c.type === 'text')
+          .map((c) => c.text)
+          .join('')
+      : null
+  );
+  // Offsets past the end append the placeholder after the last run
+  const target = Math.min(
+    offset,
+    runTexts.reduce((length, text) => length + (text?.length ?? 0), 0)
+  );
+  let currentOffset = 0;
+
+  for (let i = 0; i < newContent.length; i++) {
+    const runText = runTexts[i];
+    if (runText === null) continue;
+    if (runText === '' && currentOffset === target) {
+      newContent.splice(i, 1, equation);
+      break;
+    }
+    currentOffset += runText.length;
+  }
+
+  paragraph.content = newContent;
+
+  return newDoc;
+}
+
 /**
  * Insert a hyperlink at a range
  */
@@ -0,0 +1,133 @@
+/**
+ * Tests for headless document layout
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import type { Document, Paragraph } from '../types/document';
+import type { McpToolContext } from '../core-plugins/types';
+import { createEmptyDocument } from '../utils/createDocument';
+import {
+  setMeasurementBackend,
+  type TextMeasurementBackend,
+} from '../layout-bridge/measuring/measureContainer';
+import { getLayoutTool } from '../mcp/core-tools';
+import { DocumentAgent } from './DocumentAgent';
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+/** Every character is 8px wide */
+const fixedWidthBackend: TextMeasurementBackend = {
+  measureTextWidth: (text) => [...text].length * 8,
+  getFontMetrics: () => ({ ascent: 12, descent: 4 }),
+};
+
+function paragraph(text: string): Paragraph {
+  return { type: 'paragraph', content: [{ type: 'run', content: [{ type: 'text', text }] }] };
+}
+
+function documentWith(texts: string[]): Document {
+  const document = createEmptyDocument();
+  document.package.document.content = texts.map(paragraph);
+  return document;
+}
+
+const texts = Array.from({ length: 120 }, (_, i) => `Paragraph ${i}`);
+
+beforeEach(() => setMeasurementBackend(fixedWidthBackend));
+afterEach(() => setMeasurementBackend(null));
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('DocumentAgent layout', () => {
+  test('counts the pages the paragraphs lay out to', () => {
+    const agent = new DocumentAgent(documentWith(texts));
+    const layout = agent.layout();
+
+    expect(layout.pageCount).toBeGreaterThan(1);
+    expect(agent.getPageCount()).toBe(layout.pageCount);
+    expect(new DocumentAgent(documentWith(texts.slice(0, 3))).getPageCount()).toBe(1);
+
+    // Every paragraph is on a page, in order
+    const indices = layout.pages.flatMap((page) => page.paragraphIndices);
+    expect(indices).toEqual(texts.map((_, i) => i));
+  });
+
+  test('finds the page of a paragraph and the text of each page', () => {
+    const agent = new DocumentAgent(documentWith(texts));
+    const { pages, pageCount } = agent.layout();
+
+    expect(agent.getPageForParagraph(0)).toBe(1);
+    expect(agent.getPageForParagraph(texts.length - 1)).toBe(pageCount);
+    expect(agent.getPageForParagraph(texts.length)).toBeNull();
+
+    const second = pages[1];
+    expect(agent.getPageForParagraph(second.paragraphIndices[0])).toBe(2);
+    expect(second.text.split('\n')).toEqual(second.paragraphIndices.map((i) => texts[i]));
+  });
+
+  test('line breaks follow the measured widths', () => {
+    const long = 'word '.repeat(2000).trim();
+    const narrow = new DocumentAgent(documentWith([long])).layout();
+    setMeasurementBackend({ ...fixedWidthBackend, measureTextWidth: (text) => text.length * 2 });
+    const wide = new DocumentAgent(documentWith([long])).layout();
+
+    expect(narrow.pageCount).toBeGreaterThan(wide.pageCount);
+    // A paragraph split across pages keeps all its text
+    expect(narrow.pages.map((page) => page.text).join('')).toBe(long);
+    expect(narrow.pages.every((page) => page.paragraphIndices[0] === 0)).toBe(true);
+  });
+
+  test('updates PAGEREF fields from the layout', () => {
+    const document = documentWith(texts);
+    const content = document.package.document.content as Paragraph[];
+    content[0].content.push({
+      type: 'complexField',
+      instruction: 'PAGEREF Last',
+      fieldType: 'PAGEREF',
+      fieldCode: [{ type: 'run', content: [{ type: 'text', text: 'PAGEREF Last' }] }],
+      fieldResult: [{ type: 'run', content: [{ type: 'text', text: '1' }] }],
+    });
+    content[texts.length - 1].content.unshift({ type: 'bookmarkStart', id: 1, name: 'Last' });
+    const agent = new DocumentAgent(document);
+
+    const pageRef = (updated: DocumentAgent) => {
+      const [first] = updated.getDocument().package.document.content as Paragraph[];
+      const field = first.content[1];
+      return field.type === 'complexField' ? JSON.stringify(field.fieldResult) : '';
+    };
+    expect(pageRef(agent.updateFields())).toContain(`"text":"${agent.getPageCount()}"`);
+    expect(pageRef(agent.updateFields({ resolvePage: () => 42 }))).toContain('"text":"42"');
+  });
+
+  test('docx_get_layout reports pages and a paragraph lookup', async () => {
+    const context: McpToolContext = {
+      session: {
+        id: 'session',
+        documents: new Map([
+          ['doc', { id: 'doc', document: documentWith(texts), lastModified: 0 }],
+        ]),
+        data: new Map(),
+      },
+      log: () => {},
+    };
+
+    const result = await getLayoutTool.handler(
+      { documentId: 'doc', paragraphIndex: texts.length - 1, includeText: false },
+      context
+    );
+    const output = JSON.parse((result.content[0] as { text: string }).text);
+
+    expect(output.pageCount).toBeGreaterThan(1);
+    expect(output.pages).toHaveLength(output.pageCount);
+    expect(output.pages[0].text).toBeUndefined();
+    expect(output.paragraphPage).toBe(output.pageCount);
+
+    const missing = await getLayoutTool.handler({ documentId: 'nope' }, context);
+    expect(missing.isError).toBe(true);
+  });
+});
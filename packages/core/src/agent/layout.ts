@@ -0,0 +1,179 @@
+/**
+ * Document Layout for Agents
+ *
+ * Runs the editor's layout pipeline on a document and summarizes the pages:
+ * which paragraphs each page holds and the text on it. Paragraph indices
+ * count top-level body paragraphs, as Position.paragraphIndex does.
+ *
+ * Text is measured the way the layout measures it: canvas in the browser,
+ * the backend set by `setMeasurementBackend` in Node (font metrics read from
+ * font files), or an estimate when neither is available.
+ */
+
+import type { Node as PMNode } from 'prosemirror-model';
+import type { Document, Paragraph } from '../types/document';
+import type { DocumentLayoutInfo, PageLayoutInfo } from '../types/agentApi';
+import type { FlowBlock, Measure, ParagraphBlock, Run, TableBlock } from '../layout-engine/types';
+import { buildDocumentLayout, getSectionHeaderFooters } from '../layout-bridge/layoutPipeline';
+import { sliceRunsForLine } from '../layout-painter/renderParagraph';
+import { toProseDoc } from '../prosemirror/conversion/toProseDoc';
+
+/** PM range of a top-level body paragraph */
+interface ParagraphRange {
+  index: number;
+  from: number;
+  to: number;
+}
+
+/**
+ * Lay out a document and summarize its pages
+ */
+export function getDocumentLayout(document: Document): DocumentLayoutInfo {
+  const doc = toProseDoc(document, { styles: document.package.styles ?? undefined });
+  const { layout, blocks, measures } = buildDocumentLayout(doc, {
+    document,
+    theme: document.package.theme ?? null,
+    sectionProperties: document.package.document?.finalSectionProperties ?? null,
+    ...getSectionHeaderFooters(document),
+  });
+
+  const blockIndex = new Map<FlowBlock['id'], number>();
+  blocks.forEach((block, index) => blockIndex.set(block.id, index));
+  const ranges = getParagraphRanges(document, doc);
+
+  const pages: PageLayoutInfo[] = layout.pages.map((page) => {
+    const paragraphIndices = new Set<number>();
+    const lines: string[] = [];
+
+    for (const fragment of page.fragments) {
+      const range = fragment.pmStart !== undefined ? findRange(ranges, fragment.pmStart) : null;
+      if (range) paragraphIndices.add(range.index);
+
+      const index = blockIndex.get(fragment.blockId);
+      if (index === undefined) continue;
+      const block = blocks[index];
+      const measure = measures[index];
+      if (fragment.kind === 'paragraph' && block.kind === 'paragraph') {
+        lines.push(paragraphLinesText(block, measure, fragment.fromLine, fragment.toLine));
+      } else if (fragment.kind === 'table' && block.kind === 'table') {
+        lines.push(...tableRowsText(block, fragment.fromRow, fragment.toRow));
+      }
+    }
+
+    return {
+      number: page.number,
+      paragraphIndices: [...paragraphIndices].sort((a, b) => a - b),
+      text: lines.join('\n'),
+    };
+  });
+
+  return { pageCount: pages.length, pages };
+}
+
+// ============================================================================
+// PARAGRAPH POSITIONS
+// ============================================================================
+
+/**
+ * Find the PM range of each top-level body paragraph. A paragraph converts
+ * to a paragraph node (dropped when it holds nothing but text boxes), a
+ * textBox node per text box, and a pageBreak node when it has a page break.
+ */
+function getParagraphRanges(document: Document, doc: PMNode): ParagraphRange[] {
+  const nodes: { node: PMNode; pos: number }[] = [];
+  doc.forEach((node, pos) => nodes.push({ node, pos }));
+  const isType = (index: number, name: string) => nodes[index]?.node.type.name === name;
+
+  const ranges: ParagraphRange[] = [];
+  let paragraphIndex = 0;
+  let next = 0;
+  for (const block of document.package.document.content) {
+    if (block.type === 'table') {
+      while (next < nodes.length && !isType(next, 'table')) next++;
+      next++;
+    } else if (block.type === 'paragraph') {
+      const start = next;
+      if (isType(next, 'paragraph')) next++;
+      for (let i = countTextBoxes(block); i > 0 && isType(next, 'textBox'); i--) next++;
+      if (isType(next, 'pageBreak')) next++;
+      if (next > start) {
+        const last = nodes[next - 1];
+        ranges.push({
+          index: paragraphIndex,
+          from: nodes[start].pos,
+          to: last.pos + last.node.nodeSize,
+        });
+      }
+      paragraphIndex++;
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Count the shapes with text that convert to text boxes
+ */
+function countTextBoxes(paragraph: Paragraph): number {
+  let count = 0;
+  for (const item of paragraph.content) {
+    if (item.type !== 'run') continue;
+    for (const content of item.content) {
+      if (content.type === 'shape' && content.shape.textBody?.content.length) count++;
+    }
+  }
+  return count;
+}
+
+function findRange(ranges: ParagraphRange[], pos: number): ParagraphRange | null {
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (pos < ranges[mid].from) high = mid - 1;
+    else if (pos >= ranges[mid].to) low = mid + 1;
+    else return ranges[mid];
+  }
+  return null;
+}
+
+// ============================================================================
+// PAGE TEXT
+// ============================================================================
+
+function paragraphLinesText(
+  block: ParagraphBlock,
+  measure: Measure,
+  fromLine: number,
+  toLine: number
+): string {
+  if (measure.kind !== 'paragraph') return '';
+  return measure.lines
+    .slice(fromLine, toLine)
+    .map((line) => runsText(sliceRunsForLine(block, line)))
+    .join('');
+}
+
+function tableRowsText(block: TableBlock, fromRow: number, toRow: number): string[] {
+  return block.rows
+    .slice(fromRow, toRow)
+    .map((row) =>
+      row.cells
+        .map((cell) =>
+          cell.blocks
+            .map((cellBlock) => (cellBlock.kind === 'paragraph' ? runsText(cellBlock.runs) : ''))
+            .join('\n')
+        )
+        .join('\t')
+    );
+}
+
+function runsText(runs: Run[]): string {
+  return runs
+    .map((run) => {
+      if (run.kind === 'text') return run.text;
+      if (run.kind === 'tab') return '\t';
+      if (run.kind === 'lineBreak') return '\n';
+      return '';
+    })
+    .join('');
+}
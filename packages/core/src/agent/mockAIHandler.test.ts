@@ -0,0 +1,109 @@
+/**
+ * Tests for the mock AI handler and the editor side of an AI request
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import type { Paragraph } from '../types/document';
+import { createEmptyDocument } from '../utils/createDocument';
+import { toProseDoc } from '../prosemirror/conversion/toProseDoc';
+import {
+  createSelectionTrackerPlugin,
+  getAISelectionContext,
+} from '../prosemirror/plugins/selectionTracker';
+import { replaceAsSuggestion } from '../prosemirror/plugins/suggestionMode';
+import { createMockAIHandler } from './mockAIHandler';
+
+function paragraph(text: string): Paragraph {
+  return { type: 'paragraph', content: [{ type: 'run', content: [{ type: 'text', text }] }] };
+}
+
+function createState(texts: string[], from: number, to: number): EditorState {
+  const document = createEmptyDocument();
+  document.package.document.content = texts.map(paragraph);
+  const state = EditorState.create({
+    doc: toProseDoc(document),
+    plugins: [createSelectionTrackerPlugin()],
+  });
+  return state.apply(state.tr.setSelection(TextSelection.create(state.doc, from, to)));
+}
+
+describe('AI requests', () => {
+  test('selection context covers the selected text and its surroundings', () => {
+    const state = createState(['Intro.', 'The fee is due now.'], 13, 16);
+    const context = getAISelectionContext(state)!;
+
+    expect(context.selectedText).toBe('fee');
+    expect(context.textBefore).toBe('The ');
+    expect(context.textAfter).toBe(' is due now.');
+    expect(context.range.start).toEqual({ paragraphIndex: 1, offset: 4 });
+    expect(context.paragraph).toMatchObject({
+      index: 1,
+      fullText: 'The fee is due now.',
+      wordCount: 5,
+    });
+    expect(getAISelectionContext(createState(['Intro.'], 2, 2))).toBeNull();
+  });
+
+  test('the mock handler streams its answer and records requests', async () => {
+    const handler = createMockAIHandler({
+      respond: (request) => request.context.selectedText.toUpperCase(),
+      chunkSize: 2,
+    });
+    const context = getAISelectionContext(createState(['The fee is due.'], 5, 8))!;
+    const chunks: string[] = [];
+
+    const response = await handler(
+      { action: 'rewrite', context },
+      { onChunk: (chunk) => chunks.push(chunk) }
+    );
+    expect(chunks).toEqual(['FE', 'E']);
+    expect(response).toEqual({ success: true, newText: 'FEE' });
+    expect(handler.requests.map((request) => request.action)).toEqual(['rewrite']);
+
+    const failing = createMockAIHandler({ error: 'Model unavailable' });
+    expect(await failing({ action: 'rewrite', context })).toEqual({
+      success: false,
+      error: 'Model unavailable',
+    });
+  });
+
+  test('aborting stops a slow answer', async () => {
+    const handler = createMockAIHandler({ respond: 'slow answer', delay: 50 });
+    const context = getAISelectionContext(createState(['The fee is due.'], 5, 8))!;
+    const controller = new AbortController();
+    const pending = handler({ action: 'expand', context }, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toThrow('Request aborted');
+  });
+
+  test('accepted answers become tracked changes by the AI', async () => {
+    let state = createState(['The fee is due.'], 5, 8);
+    const handler = createMockAIHandler({ respond: 'payment' });
+    const context = getAISelectionContext(state)!;
+    const response = await handler({ action: 'rewrite', context });
+    const { from, to } = state.selection;
+
+    replaceAsSuggestion(
+      from,
+      to,
+      response.newText!,
+      'AI'
+    )(state, (tr) => {
+      state = state.apply(tr);
+    });
+
+    const changes: { text: string; type: string; author: string }[] = [];
+    state.doc.descendants((node) => {
+      const mark = node.marks.find(
+        (m) => m.type.name === 'insertion' || m.type.name === 'deletion'
+      );
+      if (node.isText && mark)
+        changes.push({ text: node.text!, type: mark.type.name, author: mark.attrs.author });
+    });
+    expect(changes).toEqual([
+      { text: 'fee', type: 'deletion', author: 'AI' },
+      { text: 'payment', type: 'insertion', author: 'AI' },
+    ]);
+  });
+});
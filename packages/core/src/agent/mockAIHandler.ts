@@ -0,0 +1,86 @@
+/**
+ * Mock AI Request Handler
+ *
+ * A deterministic stand-in for a model-backed `AIRequestHandler`, for tests
+ * and demos. It streams its answer in chunks like a real model would and
+ * records every request it receives.
+ */
+
+import type {
+  AIActionRequest,
+  AIRequestHandler,
+  AIRequestOptions,
+  AgentResponse,
+} from '../types/agentApi';
+import { getActionLabel } from '../types/agentApi';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MockAIHandlerOptions {
+  /** Answer text, or a function building it from the request */
+  respond?: string | ((request: AIActionRequest) => string);
+  /** Characters per streamed chunk (default: 8) */
+  chunkSize?: number;
+  /** Delay between chunks in ms (default: 0) */
+  delay?: number;
+  /** Answer with this error instead of text */
+  error?: string;
+}
+
+/**
+ * Mock handler with the requests it has received
+ */
+export interface MockAIHandler extends AIRequestHandler {
+  requests: AIActionRequest[];
+}
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+function defaultAnswer(request: AIActionRequest): string {
+  return `${getActionLabel(request.action)}: ${request.context.selectedText}`;
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Request aborted'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Request aborted'));
+    });
+  });
+}
+
+/**
+ * Create a mock AI handler
+ */
+export function createMockAIHandler(options: MockAIHandlerOptions = {}): MockAIHandler {
+  const { respond = defaultAnswer, chunkSize = 8, delay = 0, error } = options;
+  const requests: AIActionRequest[] = [];
+
+  const handler = async (
+    request: AIActionRequest,
+    requestOptions: AIRequestOptions = {}
+  ): Promise<AgentResponse> => {
+    requests.push(request);
+    const { onChunk, signal } = requestOptions;
+    await wait(delay, signal);
+    if (error) return { success: false, error };
+
+    const text = typeof respond === 'function' ? respond(request) : respond;
+    for (let i = 0; i < text.length; i += chunkSize) {
+      onChunk?.(text.slice(i, i + chunkSize));
+      if (i + chunkSize < text.length) await wait(delay, signal);
+    }
+    return { success: true, newText: text };
+  };
+
+  return Object.assign(handler, { requests });
+}
@@ -50,6 +50,7 @@ export type {
   McpToolAnnotations,
   McpToolExample,
   McpSession,
+  McpFileSystem,
   LoadedDocument,
 
   // Schema types
@@ -183,6 +183,29 @@ export interface McpToolContext {
 
   /** Logger for debugging */
   log: (message: string, data?: unknown) => void;
+
+  /** Files tools may read and write by path (unset = base64 only) */
+  fileSystem?: McpFileSystem;
+
+  /** Largest DOCX accepted or produced, in bytes (unset = no limit) */
+  maxDocumentSize?: number;
+}
+
+/**
+ * File access granted to MCP tools
+ *
+ * Paths are relative to a root chosen by whoever starts the server; reaching
+ * outside it must fail.
+ */
+export interface McpFileSystem {
+  /** Read a file */
+  readFile(path: string): Promise<Uint8Array>;
+
+  /** Write a file, creating parent directories */
+  writeFile(path: string, data: Uint8Array): Promise<void>;
+
+  /** Size of a file in bytes */
+  fileSize(path: string): Promise<number>;
 }
 
 /**
@@ -26,7 +26,68 @@ export {
   serializeDocumentBody,
   serializeSectionProperties,
 } from './docx/serializer/documentSerializer';
+export {
+  serializeDocumentToHtml,
+  type HtmlExportOptions,
+  type HtmlExportResult,
+} from './docx/serializer/htmlSerializer';
+export {
+  serializeDocumentToMarkdown,
+  type MarkdownExportOptions,
+  type MarkdownExportResult,
+} from './docx/serializer/markdownSerializer';
+export type { ExportedFile, SemanticImageMode } from './docx/serializer/semanticContent';
+export {
+  importHtml,
+  importMarkdown,
+  markdownToHtml,
+  type DocumentImportOptions,
+  type ImageResolver,
+  type ImportedImage,
+} from './docx/importer';
 export { repackDocx, createDocx, updateMultipleFiles } from './docx/rezip';
+export { compareDocuments, compareDocx, type CompareOptions } from './docx/compare';
+export {
+  updateFields,
+  setFieldResult,
+  formatDateTime,
+  buildTocInstruction,
+  parseTocInstruction,
+  type UpdateFieldsOptions,
+  type FieldUpdate,
+  type FieldPart,
+  type TocFieldOptions,
+} from './docx/fields';
+export { parseDocumentSettings } from './docx/settingsParser';
+export { parseCustomXmlParts } from './docx/customXmlParser';
+export { applyBoundData, writeBoundData, replaceCustomXmlPart } from './docx/dataBinding';
+export {
+  createDocumentProtectionPlugin,
+  setDocumentProtection,
+  isProtectionEnforced,
+  canEditRegion,
+  isEditableAt,
+  documentProtectionKey,
+  type DocumentProtectionState,
+} from './prosemirror/plugins/documentProtection';
+export {
+  createFormFillingPlugin,
+  setFormFilling,
+  isFormFillingActive,
+  formFillingKey,
+  findFormControls,
+  formControlAt,
+  isFormControlEditable,
+  getFormControlValue,
+  getFormControlItems,
+  getFormValues,
+  setFormControlValue,
+  setFormValues,
+  moveToFormControl,
+  type FormFillingState,
+  type FormControl,
+  type FormValue,
+} from './prosemirror/plugins/formFilling';
 export { attemptSelectiveSave } from './docx/selectiveSave';
 export { buildPatchedDocumentXml, validatePatchSafety } from './docx/selectiveXmlPatch';
 
@@ -54,6 +115,143 @@ export {
   type CreateEmptyDocumentOptions,
 } from './utils/createDocument';
 
+// ============================================================================
+// MATH RENDERING
+// ============================================================================
+
+export {
+  parseOmml,
+  layoutMath,
+  layoutOmml,
+  renderMathSvg,
+  clearMathLayoutCache,
+  parseLinearMath,
+  mathToOmml,
+  mathToLinear,
+  linearMathToOmml,
+  ommlToLinearMath,
+  createEquationOmml,
+  getMathPlainText,
+  type MathNode,
+  type MathBox,
+  type MathItem,
+  type MathLayoutOptions,
+  type MathTextMeasurer,
+  type MathSvgOptions,
+} from './math';
+
+// ============================================================================
+// HYPHENATION
+// ============================================================================
+
+export {
+  createHyphenator,
+  registerHyphenationDictionary,
+  unregisterHyphenationDictionary,
+  getHyphenator,
+  type HyphenationDictionary,
+  type Hyphenator,
+} from './layout-bridge/measuring/hyphenation';
+
+// ============================================================================
+// TEXT MEASUREMENT
+// ============================================================================
+
+export {
+  setMeasurementBackend,
+  getMeasurementBackend,
+  type TextMeasurementBackend,
+} from './layout-bridge/measuring/measureContainer';
+
+// ============================================================================
+// SPELL CHECKING
+// ============================================================================
+
+export {
+  createSpellChecker,
+  registerSpellingDictionary,
+  unregisterSpellingDictionary,
+  getSpellChecker,
+  onSpellingDictionaryChange,
+  type SpellingDictionary,
+  type SpellChecker,
+} from './utils/hunspell';
+export {
+  createSpellCheckPlugin,
+  spellCheckKey,
+  tokenizeTextblock,
+  getSpellingErrors,
+  getSpellingErrorAt,
+  getSpellingSuggestions,
+  replaceSpellingError,
+  ignoreSpellingAll,
+  addWordToDictionary,
+  recheckSpelling,
+  type SpellCheckOptions,
+  type SpellCheckState,
+  type SpellingError,
+  type SpellingToken,
+  type CustomDictionary,
+} from './prosemirror/plugins/spellCheck';
+
+// ============================================================================
+// PROOFING
+// ============================================================================
+
+export {
+  createProofingPlugin,
+  proofingKey,
+  runProofing,
+  getProofingIssues,
+  getProofingIssueAt,
+  getProofingIssueColor,
+  applyProofingReplacement,
+  dismissProofingIssue,
+  type ProofingProvider,
+  type ProofingParagraph,
+  type ProofingMatch,
+  type ProofingIssue,
+  type ProofingCategory,
+  type ProofingOptions,
+  type ProofingState,
+} from './prosemirror/plugins/proofing';
+export {
+  createRuleBasedProofingProvider,
+  repeatedWordRule,
+  passiveVoiceRule,
+  bannedTermsRule,
+  type ProofingRule,
+  type ProofingRuleMatch,
+  type BannedTerm,
+  type RuleBasedProofingOptions,
+} from './prosemirror/plugins/proofingRules';
+
+// ============================================================================
+// PDF EXPORT
+// ============================================================================
+
+export {
+  exportLayoutToPdf,
+  exportDocumentToPdf,
+  loadedFontSource,
+  type PdfExportOptions,
+  type PdfFontRequest,
+  type PdfFontSource,
+  type PdfTextMeasurer,
+} from './pdf';
+
+// ============================================================================
+// PAGE IMAGES
+// ============================================================================
+
+export {
+  renderLayoutToSvg,
+  renderDocumentToSvg,
+  renderPageImageToPng,
+  type PageImage,
+  type PageImageOptions,
+} from './svg';
+
 // ============================================================================
 // AGENT API
 // ============================================================================
@@ -67,6 +265,11 @@ export {
   type SelectionContextOptions,
   type ExtendedSelectionContext,
 } from './agent/selectionContext';
+export {
+  createMockAIHandler,
+  type MockAIHandler,
+  type MockAIHandlerOptions,
+} from './agent/mockAIHandler';
 
 // ============================================================================
 // UTILITIES
@@ -135,6 +338,7 @@ export {
   loadFont,
   loadFonts,
   loadFontFromBuffer,
+  getLoadedFontData,
   isFontLoaded,
   isLoading as isFontsLoading,
   getLoadedFonts,
@@ -205,11 +409,20 @@ export type {
   ListLevel,
   NumberingDefinitions,
   Relationship,
+  DocumentSettings,
+  DocumentProtection,
+  PermissionStart,
+  PermissionEnd,
+  EditPermission,
+  CustomXmlPart,
+  SdtDataBinding,
 } from './types/document';
 
 export type {
   AIAction,
   AIActionRequest,
+  AIRequestHandler,
+  AIRequestOptions,
   AgentResponse,
   AgentContext,
   SelectionContext,
@@ -224,6 +437,7 @@ export type {
   FormatTextCommand,
   InsertTableCommand,
   InsertImageCommand,
+  InsertEquationCommand,
   InsertHyperlinkCommand,
   SetVariableCommand,
   ApplyStyleCommand,
@@ -0,0 +1,269 @@
+/**
+ * Tests for document comparison
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type {
+  BlockContent,
+  Document,
+  Paragraph,
+  ParagraphContent,
+  Run,
+  Table,
+} from '../../types/document';
+import { createEmptyDocument } from '../../utils/createDocument';
+import { createDocx } from '../rezip';
+import { parseDocx } from '../parser';
+import { diffSequences } from './diff';
+import { compareDocuments, compareDocx } from './index';
+
+const OPTIONS = { author: 'Legal', date: '2026-01-01T00:00:00Z' };
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function run(text: string, formatting?: Run['formatting']): Run {
+  return { type: 'run', formatting, content: [{ type: 'text', text }] };
+}
+
+function paragraph(...runs: Run[]): Paragraph {
+  return { type: 'paragraph', content: runs };
+}
+
+function makeDocument(content: BlockContent[]): Document {
+  const document = createEmptyDocument();
+  document.package.document.content = content;
+  return document;
+}
+
+function table(rows: string[][]): Table {
+  return {
+    type: 'table',
+    rows: rows.map((cells) => ({
+      type: 'tableRow',
+      cells: cells.map((text) => ({ type: 'tableCell', content: [paragraph(run(text))] })),
+    })),
+  };
+}
+
+/** Render a paragraph as text with [+inserted+], [-deleted-], [>moved to<] and [<moved from>] */
+function describeParagraph(block: BlockContent): string {
+  const text = (items: ParagraphContent[]): string =>
+    items
+      .map((item) => {
+        switch (item.type) {
+          case 'run':
+            return item.content.map((c) => (c.type === 'text' ? c.text : '')).join('');
+          case 'hyperlink':
+            return text(item.children as ParagraphContent[]);
+          case 'insertion':
+            return `[+${text(item.content)}+]`;
+          case 'deletion':
+            return `[-${text(item.content)}-]`;
+          case 'moveTo':
+            return `[>${text(item.content)}<]`;
+          case 'moveFrom':
+            return `[<${text(item.content)}>]`;
+          default:
+            return '';
+        }
+      })
+      .join('');
+  return block.type === 'paragraph' ? text(block.content) : `<${block.type}>`;
+}
+
+function describeDocument(document: Document): string[] {
+  return document.package.document.content.map(describeParagraph);
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+describe('diffSequences', () => {
+  test('finds a minimal edit script', () => {
+    expect(diffSequences(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual([
+      { type: 'equal', count: 1 },
+      { type: 'delete', count: 1 },
+      { type: 'insert', count: 1 },
+      { type: 'equal', count: 2 },
+      { type: 'insert', count: 1 },
+    ]);
+  });
+
+  test('handles empty sequences', () => {
+    expect(diffSequences([], ['a'])).toEqual([{ type: 'insert', count: 1 }]);
+    expect(diffSequences(['a'], [])).toEqual([{ type: 'delete', count: 1 }]);
+    expect(diffSequences([], [])).toEqual([]);
+  });
+
+  test('falls back to replace-all past the edit limit', () => {
+    expect(diffSequences(['a', 'b', 'c'], ['x', 'y', 'z'], 2)).toEqual([
+      { type: 'delete', count: 3 },
+      { type: 'insert', count: 3 },
+    ]);
+  });
+});
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+describe('compareDocuments', () => {
+  test('marks word-level edits inside a changed paragraph', () => {
+    const original = makeDocument([paragraph(run('The fee is fifty dollars per month.'))]);
+    const revised = makeDocument([paragraph(run('The fee is five hundred dollars per month.'))]);
+
+    const result = compareDocuments(original, revised, OPTIONS);
+    expect(describeDocument(result)).toEqual([
+      'The fee is [-fifty-][+five hundred+] dollars per month.',
+    ]);
+  });
+
+  test('keeps identical paragraphs untouched and adds whole-paragraph changes', () => {
+    const original = makeDocument([
+      paragraph(run('Intro')),
+      paragraph(run('Removed clause entirely')),
+      paragraph(run('Outro')),
+    ]);
+    const revised = makeDocument([
+      paragraph(run('Intro')),
+      paragraph(run('Outro')),
+      paragraph(run('Brand new closing remark')),
+    ]);
+
+    expect(describeDocument(compareDocuments(original, revised, OPTIONS))).toEqual([
+      'Intro',
+      '[-Removed clause entirely-]',
+      'Outro',
+      '[+Brand new closing remark+]',
+    ]);
+  });
+
+  test('turns moved paragraphs into MoveFrom/MoveTo with matching range names', () => {
+    const original = makeDocument([
+      paragraph(run('Governing law is New York.')),
+      paragraph(run('Payment is due in 30 days.')),
+      paragraph(run('Notices go to the address above.')),
+    ]);
+    const revised = makeDocument([
+      paragraph(run('Payment is due in 30 days.')),
+      paragraph(run('Notices go to the address above.')),
+      paragraph(run('Governing law is New York.')),
+    ]);
+
+    const result = compareDocuments(original, revised, OPTIONS);
+    expect(describeDocument(result)).toEqual([
+      '[<Governing law is New York.>]',
+      'Payment is due in 30 days.',
+      'Notices go to the address above.',
+      '[>Governing law is New York.<]',
+    ]);
+
+    const [from] = result.package.document.content as Paragraph[];
+    const to = result.package.document.content[3] as Paragraph;
+    const fromStart = from.content.find((c) => c.type === 'moveFromRangeStart');
+    const toStart = to.content.find((c) => c.type === 'moveToRangeStart');
+    expect(fromStart?.type === 'moveFromRangeStart' && fromStart.name).toBe('move1');
+    expect(toStart?.type === 'moveToRangeStart' && toStart.name).toBe('move1');
+  });
+
+  test('reports moves as deletion plus insertion when move detection is off', () => {
+    const original = makeDocument([
+      paragraph(run('A paragraph that moves')),
+      paragraph(run('Anchor')),
+    ]);
+    const revised = makeDocument([
+      paragraph(run('Anchor')),
+      paragraph(run('A paragraph that moves')),
+    ]);
+
+    expect(
+      describeDocument(compareDocuments(original, revised, { ...OPTIONS, detectMoves: false }))
+    ).toEqual(['[-A paragraph that moves-]', 'Anchor', '[+A paragraph that moves+]']);
+  });
+
+  test('records run and paragraph formatting changes', () => {
+    const original = makeDocument([paragraph(run('Term '), run('bold'))]);
+    const revised = makeDocument([
+      {
+        type: 'paragraph',
+        formatting: { alignment: 'center' },
+        content: [run('Term '), run('bold', { bold: true })],
+      },
+    ]);
+
+    const [result] = compareDocuments(original, revised, OPTIONS).package.document
+      .content as Paragraph[];
+    expect(result.propertyChanges?.[0]).toMatchObject({
+      type: 'paragraphPropertyChange',
+      info: { author: 'Legal' },
+      previousFormatting: {},
+      currentFormatting: { alignment: 'center' },
+    });
+
+    const boldRun = result.content[1] as Run;
+    expect(boldRun.formatting?.bold).toBe(true);
+    expect(boldRun.propertyChanges?.[0]).toMatchObject({
+      type: 'runPropertyChange',
+      previousFormatting: {},
+    });
+    expect((result.content[0] as Run).propertyChanges).toBeUndefined();
+  });
+
+  test('compares table cells in place', () => {
+    const original = makeDocument([
+      table([
+        ['Item', 'Price'],
+        ['Pen', '2'],
+      ]),
+    ]);
+    const revised = makeDocument([
+      table([
+        ['Item', 'Price'],
+        ['Pen', '3'],
+      ]),
+    ]);
+
+    const [result] = compareDocuments(original, revised, OPTIONS).package.document.content;
+    expect(result.type).toBe('table');
+    const cell = (result as Table).rows[1].cells[1].content[0];
+    expect(describeParagraph(cell)).toBe('[-2-][+3+]');
+  });
+
+  test('gives every change a unique revision id', () => {
+    const original = makeDocument([paragraph(run('one two three')), paragraph(run('gone'))]);
+    const revised = makeDocument([paragraph(run('one 2 three four'))]);
+
+    const ids: number[] = [];
+    for (const block of compareDocuments(original, revised, OPTIONS).package.document.content) {
+      for (const item of (block as Paragraph).content) {
+        if ('info' in item) ids.push(item.info.id);
+      }
+    }
+    expect(ids.length).toBeGreaterThan(2);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('compareDocx', () => {
+  test('compares two DOCX buffers and survives a save round trip', async () => {
+    const original = await createDocx(
+      makeDocument([paragraph(run('Liability is capped at $50k.'))])
+    );
+    const revised = await createDocx(
+      makeDocument([paragraph(run('Liability is capped at $500k.'))])
+    );
+
+    const result = await compareDocx(original, revised, OPTIONS);
+    expect(describeDocument(result)).toEqual(['Liability is capped at $[-50k-][+500k+].']);
+
+    const { repackDocx } = await import('../rezip');
+    const reparsed = await parseDocx(await repackDocx(result), { preloadFonts: false });
+    const [reparsedParagraph] = reparsed.package.document.content as Paragraph[];
+    const deletion = reparsedParagraph.content.find((c) => c.type === 'deletion');
+    expect(deletion?.type === 'deletion' && deletion.info.author).toBe('Legal');
+    expect(describeParagraph(reparsedParagraph)).toBe('Liability is capped at $[-50k-][+500k+].');
+  });
+});
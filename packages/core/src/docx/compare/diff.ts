@@ -0,0 +1,150 @@
+/**
+ * Sequence diff (Myers' O(ND) algorithm)
+ *
+ * Compares two sequences of string keys and returns the edit script as runs of
+ * equal, deleted and inserted items. Used for both block-level alignment
+ * (paragraph keys) and word-level alignment (token keys).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DiffOpType = 'equal' | 'delete' | 'insert';
+
+/**
+ * A run of `count` items. Equal runs consume both sequences, deletions only
+ * the first, insertions only the second.
+ */
+export interface DiffOp {
+  type: DiffOpType;
+  count: number;
+}
+
+/**
+ * Edit distance above which the diff gives up and reports the differing
+ * middle section as one deletion plus one insertion
+ */
+const DEFAULT_MAX_EDITS = 4000;
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Diff two key sequences
+ */
+export function diffSequences(a: string[], b: string[], maxEdits = DEFAULT_MAX_EDITS): DiffOp[] {
+  // Common prefix and suffix are cheap and usually make up most of a document
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: DiffOp[] = [];
+  push(ops, 'equal', prefix);
+  const middle = myers(a, b, prefix, a.length - suffix, prefix, b.length - suffix, maxEdits);
+  for (const op of middle) push(ops, op.type, op.count);
+  push(ops, 'equal', suffix);
+  return ops;
+}
+
+function push(ops: DiffOp[], type: DiffOpType, count: number): void {
+  if (count <= 0) return;
+  const last = ops[ops.length - 1];
+  if (last?.type === type) last.count += count;
+  else ops.push({ type, count });
+}
+
+/**
+ * Myers' greedy forward search with backtracking over saved diagonals
+ */
+function myers(
+  a: string[],
+  b: string[],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number,
+  maxEdits: number
+): DiffOp[] {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  if (n === 0 || m === 0) {
+    const ops: DiffOp[] = [];
+    push(ops, 'delete', n);
+    push(ops, 'insert', m);
+    return ops;
+  }
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds diagonals -d..d after round d
+  const trace: Int32Array[] = [];
+  let found = -1;
+
+  for (let d = 0; d <= max && d <= maxEdits; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = d;
+        break;
+      }
+    }
+    trace.push(v.slice(offset - d, offset + d + 1));
+    if (found !== -1) break;
+  }
+
+  if (found === -1) {
+    return [
+      { type: 'delete', count: n },
+      { type: 'insert', count: m },
+    ];
+  }
+
+  // Walk back from the end, collecting ops in reverse
+  const reversed: DiffOpType[] = [];
+  let x = n;
+  let y = m;
+  for (let d = found; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      reversed.push('equal');
+      x--;
+      y--;
+    }
+    if (x === previousX) {
+      reversed.push('insert');
+      y--;
+    } else {
+      reversed.push('delete');
+      x--;
+    }
+  }
+  for (; x > 0; x--) reversed.push('equal');
+
+  const ops: DiffOp[] = [];
+  for (let i = reversed.length - 1; i >= 0; i--) push(ops, reversed[i], 1);
+  return ops;
+}
@@ -0,0 +1,443 @@
+/**
+ * Document Comparison - Express the differences between two documents as
+ * tracked changes
+ *
+ * Produces a third document: the revised version, with everything removed
+ * from the original restored as deletions, new content marked as insertions,
+ * and formatting differences recorded as run/paragraph property changes —
+ * what Word's Compare produces, so the result can be reviewed and
+ * accepted/rejected like any redline.
+ *
+ * Alignment works in two passes:
+ * - paragraphs (and tables) are aligned on their text; paragraphs that only
+ *   exist on one side and have an identical counterpart elsewhere become
+ *   MoveFrom/MoveTo pairs
+ * - remaining paragraphs in each gap are paired by word overlap and compared
+ *   word by word
+ *
+ * Paragraph marks are not tracked in the document model, so a fully deleted
+ * paragraph keeps an empty paragraph behind once its deletion is accepted.
+ *
+ * @example
+ * ```ts
+ * const redline = await compareDocx(ours, theirs, { author: 'Legal' });
+ * const buffer = await repackDocx(redline);
+ * ```
+ */
+
+import type {
+  BlockContent,
+  Document,
+  Paragraph,
+  StyleDefinitions,
+  Table,
+} from '../../types/document';
+import type { NumberingDefinitions } from '../../types/lists';
+import type { DocxInput } from '../../utils/docxInput';
+import { parseDocx } from '../parser';
+import { resolveMoveNames } from '../moveRanges';
+import { diffSequences } from './diff';
+import {
+  Revisions,
+  addedParagraph,
+  compareParagraphs,
+  flattenParagraph,
+  paragraphKey,
+  paragraphWords,
+  removedParagraph,
+} from './paragraphDiff';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CompareOptions {
+  /** Author recorded on every change (default: 'Unknown') */
+  author?: string;
+  /** Change date as an ISO 8601 string (default: now) */
+  date?: string;
+  /**
+   * Mark paragraphs that moved as MoveFrom/MoveTo instead of a deletion plus
+   * an insertion (default: true)
+   */
+  detectMoves?: boolean;
+}
+
+interface CompareContext {
+  revisions: Revisions;
+  detectMoves: boolean;
+  moveCount: number;
+  styles?: StyleDefinitions;
+  numbering?: NumberingDefinitions;
+}
+
+/** Paragraphs sharing fewer words than this are treated as unrelated */
+const PAIR_SIMILARITY = 0.4;
+/** How far ahead in the revised gap to look for a paragraph's counterpart */
+const PAIR_LOOKAHEAD = 50;
+/** Shortest paragraph text considered for move detection */
+const MIN_MOVE_LENGTH = 12;
+
+// ============================================================================
+// BLOCK KEYS
+// ============================================================================
+
+function blockKey(block: BlockContent): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `p\u0000${paragraphKey(flattenParagraph(block))}`;
+    case 'table':
+      return `t\u0000${block.rows
+        .map((row) =>
+          row.cells.map((cell) => cell.content.map(blockKey).join('\u0001')).join('\u0002')
+        )
+        .join('\u0003')}`;
+    case 'blockSdt':
+      return `s\u0000${block.content.map(blockKey).join('\u0001')}`;
+  }
+}
+
+function tableShape(table: Table): string {
+  return table.rows.map((row) => row.cells.length).join(',');
+}
+
+/**
+ * Dice coefficient over words, for pairing changed paragraphs
+ */
+function similarity(a: BlockContent, b: BlockContent): number {
+  if (a.type === 'table' && b.type === 'table') return tableShape(a) === tableShape(b) ? 1 : 0;
+  if (a.type !== 'paragraph' || b.type !== 'paragraph') return 0;
+
+  const wordsA = paragraphWords(flattenParagraph(a));
+  const wordsB = paragraphWords(flattenParagraph(b));
+  if (wordsA.length === 0 || wordsB.length === 0) return wordsA.length === wordsB.length ? 1 : 0;
+
+  const counts = new Map<string, number>();
+  for (const word of wordsA) counts.set(word, (counts.get(word) ?? 0) + 1);
+  let shared = 0;
+  for (const word of wordsB) {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(word, count - 1);
+    }
+  }
+  return (2 * shared) / (wordsA.length + wordsB.length);
+}
+
+// ============================================================================
+// BLOCK OUTPUT
+// ============================================================================
+
+/**
+ * Make an original-document paragraph safe to place in the revised package:
+ * drop section breaks, paragraph IDs, and style/numbering references the
+ * revised document doesn't define
+ */
+function adoptParagraph(paragraph: Paragraph, ctx: CompareContext): Paragraph {
+  const { sectionProperties: _section, paraId: _paraId, textId: _textId, ...rest } = paragraph;
+  const adopted: Paragraph = { ...rest };
+  if (adopted.formatting) {
+    const formatting = { ...adopted.formatting };
+    const styleId = formatting.styleId;
+    if (styleId && !ctx.styles?.styles.some((style) => style.styleId === styleId)) {
+      delete formatting.styleId;
+    }
+    const numId = formatting.numPr?.numId;
+    if (numId !== undefined && numId !== 0 && !ctx.numbering?.nums.some((n) => n.numId === numId)) {
+      delete formatting.numPr;
+      delete adopted.listRendering;
+    }
+    adopted.formatting = formatting;
+  }
+  return adopted;
+}
+
+/**
+ * Apply `fn` to every paragraph in a block, recursing into tables and controls
+ */
+function mapParagraphs<T extends BlockContent>(
+  block: T,
+  fn: (paragraph: Paragraph) => Paragraph
+): T {
+  switch (block.type) {
+    case 'paragraph':
+      return fn(block) as T;
+    case 'table':
+      return {
+        ...block,
+        rows: block.rows.map((row) => ({
+          ...row,
+          cells: row.cells.map((cell) => ({
+            ...cell,
+            content: cell.content.map((inner) => mapParagraphs(inner, fn)),
+          })),
+        })),
+      };
+    default:
+      return {
+        ...block,
+        content: (block as Extract<BlockContent, { type: 'blockSdt' }>).content.map((inner) =>
+          mapParagraphs(inner, fn)
+        ),
+      };
+  }
+}
+
+function removedBlock(block: BlockContent, ctx: CompareContext, moveName?: string): BlockContent {
+  return mapParagraphs(block, (paragraph) =>
+    removedParagraph(adoptParagraph(paragraph, ctx), ctx.revisions, moveName)
+  );
+}
+
+function addedBlock(block: BlockContent, ctx: CompareContext, moveName?: string): BlockContent {
+  return mapParagraphs(block, (paragraph) => addedParagraph(paragraph, ctx.revisions, moveName));
+}
+
+/**
+ * Compare two blocks that occupy the same place in both documents
+ */
+function pairedBlock(
+  original: BlockContent,
+  revised: BlockContent,
+  ctx: CompareContext
+): BlockContent {
+  if (original.type === 'paragraph' && revised.type === 'paragraph') {
+    return compareParagraphs(original, revised, ctx.revisions);
+  }
+  if (original.type === 'table' && revised.type === 'table') {
+    return {
+      ...revised,
+      rows: revised.rows.map((row, rowIndex) => ({
+        ...row,
+        cells: row.cells.map((cell, cellIndex) => ({
+          ...cell,
+          content: compareBlocks(
+            original.rows[rowIndex].cells[cellIndex].content,
+            cell.content,
+            ctx
+          ) as (Paragraph | Table)[],
+        })),
+      })),
+    };
+  }
+  if (original.type === 'blockSdt' && revised.type === 'blockSdt') {
+    return {
+      ...revised,
+      content: compareBlocks(original.content, revised.content, ctx) as (Paragraph | Table)[],
+    };
+  }
+  return revised;
+}
+
+// ============================================================================
+// ALIGNMENT
+// ============================================================================
+
+interface Gap {
+  original: BlockContent[];
+  revised: BlockContent[];
+}
+
+type Segment =
+  | { type: 'equal'; original: BlockContent; revised: BlockContent }
+  | (Gap & { type: 'gap' });
+
+/**
+ * Compare two block lists, returning the merged list with tracked changes
+ */
+function compareBlocks(
+  original: BlockContent[],
+  revised: BlockContent[],
+  ctx: CompareContext
+): BlockContent[] {
+  const keysA = original.map(blockKey);
+  const keysB = revised.map(blockKey);
+
+  // Split into equal blocks and gaps of unmatched blocks
+  const segments: Segment[] = [];
+  let i = 0;
+  let j = 0;
+  for (const op of diffSequences(keysA, keysB)) {
+    if (op.type === 'equal') {
+      for (let n = 0; n < op.count; n++) {
+        segments.push({ type: 'equal', original: original[i++], revised: revised[j++] });
+      }
+      continue;
+    }
+    let gap = segments[segments.length - 1];
+    if (gap?.type !== 'gap') {
+      gap = { type: 'gap', original: [], revised: [] };
+      segments.push(gap);
+    }
+    if (op.type === 'delete') gap.original.push(...original.slice(i, (i += op.count)));
+    else gap.revised.push(...revised.slice(j, (j += op.count)));
+  }
+
+  const moves = ctx.detectMoves ? detectMoves(segments, ctx) : new Map<BlockContent, string>();
+
+  const result: BlockContent[] = [];
+  for (const segment of segments) {
+    if (segment.type === 'equal') result.push(pairedBlock(segment.original, segment.revised, ctx));
+    else result.push(...compareGap(segment, moves, ctx));
+  }
+  return result;
+}
+
+/**
+ * Find paragraphs deleted in one place and inserted unchanged in another.
+ * Returns the move name for both halves of each move.
+ */
+function detectMoves(segments: Segment[], ctx: CompareContext): Map<BlockContent, string> {
+  const moves = new Map<BlockContent, string>();
+  const candidates = new Map<string, BlockContent[]>();
+
+  for (const segment of segments) {
+    if (segment.type !== 'gap') continue;
+    for (const block of segment.revised) {
+      if (block.type !== 'paragraph') continue;
+      if (paragraphKey(flattenParagraph(block)).trim().length < MIN_MOVE_LENGTH) continue;
+      const key = blockKey(block);
+      const list = candidates.get(key) ?? [];
+      list.push(block);
+      candidates.set(key, list);
+    }
+  }
+
+  for (const segment of segments) {
+    if (segment.type !== 'gap') continue;
+    for (const block of segment.original) {
+      if (block.type !== 'paragraph') continue;
+      const target = candidates.get(blockKey(block))?.shift();
+      if (!target) continue;
+      const name = `move${++ctx.moveCount}`;
+      moves.set(block, name);
+      moves.set(target, name);
+    }
+  }
+  return moves;
+}
+
+/**
+ * Pair blocks within a gap and emit deletions, insertions, moves and
+ * word-level comparisons in document order
+ */
+function compareGap(
+  gap: Gap,
+  moves: Map<BlockContent, string>,
+  ctx: CompareContext
+): BlockContent[] {
+  const pairs: Array<[number, number]> = [];
+  let next = 0;
+  gap.original.forEach((block, index) => {
+    if (moves.has(block)) return;
+    let best = -1;
+    let bestScore = PAIR_SIMILARITY;
+    const limit = Math.min(gap.revised.length, next + PAIR_LOOKAHEAD);
+    for (let k = next; k < limit; k++) {
+      if (moves.has(gap.revised[k])) continue;
+      const score = similarity(block, gap.revised[k]);
+      if (score >= bestScore && (best === -1 || score > bestScore)) {
+        best = k;
+        bestScore = score;
+      }
+    }
+    if (best !== -1) {
+      pairs.push([index, best]);
+      next = best + 1;
+    }
+  });
+
+  const result: BlockContent[] = [];
+  let a = 0;
+  let b = 0;
+  // Emit the unpaired blocks before the next pair. Equal-sized stretches of
+  // paragraphs are compared one-to-one, so a rewritten paragraph reads as a
+  // replacement inside it instead of a deleted and an inserted paragraph.
+  const flush = (untilA: number, untilB: number) => {
+    const stretchA = gap.original.slice(a, untilA);
+    const stretchB = gap.revised.slice(b, untilB);
+    const replace =
+      stretchA.length === stretchB.length &&
+      stretchA.every(
+        (block, index) =>
+          block.type === 'paragraph' &&
+          stretchB[index].type === 'paragraph' &&
+          !moves.has(block) &&
+          !moves.has(stretchB[index])
+      );
+    if (replace) {
+      stretchA.forEach((block, index) => result.push(pairedBlock(block, stretchB[index], ctx)));
+    } else {
+      for (const block of stretchA) result.push(removedBlock(block, ctx, moves.get(block)));
+      for (const block of stretchB) result.push(addedBlock(block, ctx, moves.get(block)));
+    }
+    a = untilA;
+    b = untilB;
+  };
+
+  for (const [pairA, pairB] of pairs) {
+    flush(pairA, pairB);
+    result.push(pairedBlock(gap.original[a++], gap.revised[b++], ctx));
+  }
+  flush(gap.original.length, gap.revised.length);
+  return result;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Compare two parsed documents
+ *
+ * The result is based on `revised` — its styles, numbering, headers and
+ * original buffer — so it saves with repackDocx like the revised file.
+ */
+export function compareDocuments(
+  original: Document,
+  revised: Document,
+  options: CompareOptions = {}
+): Document {
+  const ctx: CompareContext = {
+    revisions: new Revisions(options.author ?? 'Unknown', options.date ?? new Date().toISOString()),
+    detectMoves: options.detectMoves ?? true,
+    moveCount: 0,
+    styles: revised.package.styles,
+    numbering: revised.package.numbering,
+  };
+
+  const content = compareBlocks(
+    original.package.document.content,
+    revised.package.document.content,
+    ctx
+  );
+  resolveMoveNames(content);
+
+  return {
+    ...revised,
+    package: {
+      ...revised.package,
+      document: { ...revised.package.document, content },
+    },
+  };
+}
+
+/**
+ * Compare two DOCX files
+ *
+ * @param original - The baseline version (e.g. our draft)
+ * @param revised - The version to compare against it (e.g. the counterparty's redline)
+ * @returns The comparison document, ready for DocxEditor or repackDocx
+ */
+export async function compareDocx(
+  original: DocxInput,
+  revised: DocxInput,
+  options: CompareOptions = {}
+): Promise<Document> {
+  const [originalDocument, revisedDocument] = await Promise.all([
+    parseDocx(original, { preloadFonts: false }),
+    parseDocx(revised, { preloadFonts: false }),
+  ]);
+  return compareDocuments(originalDocument, revisedDocument, options);
+}
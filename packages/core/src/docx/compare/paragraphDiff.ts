@@ -0,0 +1,531 @@
+/**
+ * Paragraph Diff - Word-level comparison of two paragraphs
+ *
+ * Paragraphs are flattened to units (one per character or non-text run item)
+ * carrying their run formatting and enclosing hyperlink, then grouped into
+ * word, whitespace and punctuation tokens for the diff. The result is written
+ * back as runs, with changed spans wrapped in Insertion/Deletion (or
+ * MoveFrom/MoveTo) and formatting differences recorded as RunPropertyChange.
+ *
+ * Both sides are read in their "accepted" view: existing insertions are kept
+ * as plain content and existing deletions are ignored.
+ */
+
+import type {
+  Deletion,
+  Hyperlink,
+  Insertion,
+  MoveFrom,
+  MoveTo,
+  Paragraph,
+  ParagraphContent,
+  ParagraphPropertyChange,
+  Run,
+  RunContent,
+  TrackedChangeInfo,
+} from '../../types/document';
+import type { TextFormatting } from '../../types/formatting';
+import { diffSequences, type DiffOp } from './diff';
+
+// ============================================================================
+// REVISIONS
+// ============================================================================
+
+/**
+ * Hands out revision IDs and metadata for every change the comparison emits
+ */
+export class Revisions {
+  private nextId = 1;
+
+  constructor(
+    readonly author: string,
+    readonly date: string
+  ) {}
+
+  id(): number {
+    return this.nextId++;
+  }
+
+  info(): TrackedChangeInfo {
+    return { id: this.id(), author: this.author, date: this.date };
+  }
+}
+
+/**
+ * Deterministic JSON for structural comparison (object keys sorted)
+ */
+export function stableKey(value: unknown): string {
+  if (value === undefined) return '';
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (!v || typeof v !== 'object' || Array.isArray(v)) return v;
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(v).sort()) sorted[key] = (v as Record<string, unknown>)[key];
+    return sorted;
+  });
+}
+
+// ============================================================================
+// FLATTENING
+// ============================================================================
+
+interface Unit {
+  /** Comparison key: the character itself, or a tagged key for other content */
+  key: string;
+  content: RunContent;
+  formatting?: TextFormatting;
+  /** Enclosing hyperlink (compared by identity when grouping runs) */
+  link?: Hyperlink;
+}
+
+/** Non-compared paragraph content (bookmarks, comments, fields) and its position */
+interface Marker {
+  at: number;
+  item: ParagraphContent;
+}
+
+export interface FlatParagraph {
+  units: Unit[];
+  markers: Marker[];
+}
+
+function contentKey(content: RunContent): string {
+  switch (content.type) {
+    case 'tab':
+      return '\u0000tab';
+    case 'drawing': {
+      const { width, height } = content.image.size;
+      return `\u0000drawing:${width}x${height}`;
+    }
+    case 'shape':
+      return '\u0000shape';
+    case 'footnoteRef':
+    case 'endnoteRef':
+      // Note IDs differ between files; only the position is comparable
+      return `\u0000${content.type}`;
+    default:
+      return `\u0000${stableKey(content)}`;
+  }
+}
+
+/**
+ * Flatten a paragraph into comparable units
+ *
+ * Content from the original document is `foreign`: its hyperlinks lose their
+ * relationship IDs (repackDocx recreates them from the href) and note
+ * references, which point into the other file, are dropped.
+ */
+export function flattenParagraph(paragraph: Paragraph, foreign = false): FlatParagraph {
+  const units: Unit[] = [];
+  const markers: Marker[] = [];
+
+  const addRun = (run: Run, link?: Hyperlink) => {
+    for (const content of run.content) {
+      if (content.type === 'text') {
+        for (const char of Array.from(content.text)) {
+          units.push({
+            key: char,
+            content: { type: 'text', text: char },
+            formatting: run.formatting,
+            link,
+          });
+        }
+      } else if (foreign && (content.type === 'footnoteRef' || content.type === 'endnoteRef')) {
+        continue;
+      } else {
+        units.push({ key: contentKey(content), content, formatting: run.formatting, link });
+      }
+    }
+  };
+
+  const addLink = (hyperlink: Hyperlink) => {
+    const link: Hyperlink = { ...hyperlink, children: [] };
+    if (foreign) delete link.rId;
+    for (const child of hyperlink.children) {
+      if (child.type === 'run') addRun(child, link);
+      else if (!foreign) markers.push({ at: units.length, item: child });
+    }
+  };
+
+  const addItems = (items: ParagraphContent[]) => {
+    for (const item of items) {
+      switch (item.type) {
+        case 'run':
+          addRun(item);
+          break;
+        case 'hyperlink':
+          addLink(item);
+          break;
+        case 'insertion':
+        case 'moveTo':
+          addItems(item.content);
+          break;
+        case 'deletion':
+        case 'moveFrom':
+        case 'moveFromRangeStart':
+        case 'moveFromRangeEnd':
+        case 'moveToRangeStart':
+        case 'moveToRangeEnd':
+          break;
+        default:
+          if (!foreign) markers.push({ at: units.length, item });
+      }
+    }
+  };
+
+  addItems(paragraph.content);
+  return { units, markers };
+}
+
+/**
+ * Comparison key for a whole paragraph
+ */
+export function paragraphKey(flat: FlatParagraph): string {
+  return flat.units.map((unit) => unit.key).join('');
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+interface Token {
+  key: string;
+  start: number;
+  end: number;
+}
+
+const WORD_CHAR = /[\p{L}\p{N}\p{M}_]/u;
+const SPACE_CHAR = /\s/u;
+
+function charClass(unit: Unit): 'word' | 'space' | 'other' {
+  if (unit.content.type !== 'text') return 'other';
+  if (WORD_CHAR.test(unit.key)) return 'word';
+  if (SPACE_CHAR.test(unit.key)) return 'space';
+  return 'other';
+}
+
+/**
+ * Group units into words, whitespace runs and single punctuation/objects
+ */
+function tokenize(units: Unit[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < units.length) {
+    const kind = charClass(units[i]);
+    let end = i + 1;
+    if (kind !== 'other') {
+      while (end < units.length && charClass(units[end]) === kind) end++;
+    }
+    tokens.push({
+      key: units
+        .slice(i, end)
+        .map((unit) => unit.key)
+        .join(''),
+      start: i,
+      end,
+    });
+    i = end;
+  }
+  return tokens;
+}
+
+/**
+ * Words of a flattened paragraph, for similarity scoring
+ */
+export function paragraphWords(flat: FlatParagraph): string[] {
+  return tokenize(flat.units)
+    .filter((token) => WORD_CHAR.test(token.key))
+    .map((token) => token.key.toLowerCase());
+}
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+type ChangeKind = 'none' | 'insertion' | 'deletion' | 'moveFrom' | 'moveTo';
+
+/**
+ * Rebuilds paragraph content from units, opening a new tracked change wrapper,
+ * hyperlink or run whenever the change kind, link or formatting changes
+ */
+class ParagraphWriter {
+  readonly content: ParagraphContent[] = [];
+  private wrapper: Insertion | Deletion | MoveFrom | MoveTo | null = null;
+  private link: { source: Hyperlink; node: Hyperlink } | null = null;
+  private run: Run | null = null;
+  private runKey = '';
+
+  constructor(private readonly revisions: Revisions) {}
+
+  /**
+   * Write one unit. `previous` is set for unchanged text whose run formatting
+   * differs from the original.
+   */
+  write(unit: Unit, change: ChangeKind, previous?: { formatting?: TextFormatting }): void {
+    const wrapperType = change === 'none' ? null : change;
+    if ((this.wrapper?.type ?? null) !== wrapperType) {
+      this.wrapper = wrapperType
+        ? { type: wrapperType, info: this.revisions.info(), content: [] }
+        : null;
+      if (this.wrapper) this.content.push(this.wrapper);
+      this.link = null;
+      this.run = null;
+    }
+
+    const source = unit.link ?? null;
+    if ((this.link?.source ?? null) !== source) {
+      this.run = null;
+      this.link = null;
+      if (source) {
+        this.link = { source, node: { ...source, children: [] } };
+        this.container().push(this.link.node);
+      }
+    }
+
+    const runKey = `${stableKey(unit.formatting)}|${previous ? stableKey(previous.formatting ?? {}) : ''}`;
+    if (!this.run || this.runKey !== runKey) {
+      const run: Run = { type: 'run', content: [] };
+      if (unit.formatting) run.formatting = { ...unit.formatting };
+      if (previous) {
+        run.propertyChanges = [
+          {
+            type: 'runPropertyChange',
+            info: this.revisions.info(),
+            previousFormatting: previous.formatting ? { ...previous.formatting } : {},
+            currentFormatting: unit.formatting,
+          },
+        ];
+      }
+      if (this.link) this.link.node.children.push(run);
+      else this.container().push(run);
+      this.run = run;
+      this.runKey = runKey;
+    }
+
+    const last = this.run.content[this.run.content.length - 1];
+    if (unit.content.type === 'text' && last?.type === 'text') {
+      last.text += unit.content.text;
+    } else {
+      this.run.content.push(unit.content.type === 'text' ? { ...unit.content } : unit.content);
+    }
+  }
+
+  marker(item: ParagraphContent): void {
+    this.close();
+    this.content.push(item);
+  }
+
+  close(): void {
+    this.wrapper = null;
+    this.link = null;
+    this.run = null;
+  }
+
+  private container(): (Run | Hyperlink)[] | ParagraphContent[] {
+    return this.wrapper ? this.wrapper.content : this.content;
+  }
+}
+
+/**
+ * Writes units from the revised side, emitting its markers in place
+ */
+function writeRevised(
+  writer: ParagraphWriter,
+  flat: FlatParagraph,
+  from: number,
+  to: number,
+  change: ChangeKind,
+  markerIndex: { value: number }
+): void {
+  for (let i = from; i < to; i++) {
+    flushMarkers(writer, flat, i, markerIndex);
+    writer.write(flat.units[i], change);
+  }
+}
+
+function flushMarkers(
+  writer: ParagraphWriter,
+  flat: FlatParagraph,
+  position: number,
+  markerIndex: { value: number }
+): void {
+  while (
+    markerIndex.value < flat.markers.length &&
+    flat.markers[markerIndex.value].at <= position
+  ) {
+    writer.marker(flat.markers[markerIndex.value].item);
+    markerIndex.value++;
+  }
+}
+
+// ============================================================================
+// PARAGRAPH COMPARISON
+// ============================================================================
+
+/**
+ * Paragraph shell for output: formatting and identity from `source`, no content
+ */
+function paragraphShell(source: Paragraph): Paragraph {
+  const { content: _content, propertyChanges: _changes, ...rest } = source;
+  return { ...rest, content: [] };
+}
+
+/**
+ * Compare two paragraphs word by word. The result is the revised paragraph
+ * with deleted words restored inside Deletion wrappers, inserted words inside
+ * Insertion wrappers, and property changes for formatting differences.
+ */
+export function compareParagraphs(
+  original: Paragraph,
+  revised: Paragraph,
+  revisions: Revisions
+): Paragraph {
+  const a = flattenParagraph(original, true);
+  const b = flattenParagraph(revised);
+  const tokensA = tokenize(a.units);
+  const tokensB = tokenize(b.units);
+  const ops = diffSequences(
+    tokensA.map((token) => token.key),
+    tokensB.map((token) => token.key)
+  );
+
+  const writer = new ParagraphWriter(revisions);
+  const markerIndex = { value: 0 };
+  let ta = 0;
+  let tb = 0;
+
+  // Unit range covered by `count` tokens starting at `index`
+  const span = (tokens: Token[], index: number, count: number) =>
+    count === 0
+      ? { start: 0, end: 0 }
+      : { start: tokens[index].start, end: tokens[index + count - 1].end };
+
+  for (const hunk of mergeHunks(ops, tokensA)) {
+    if (hunk.type === 'equal') {
+      const unitsA = span(tokensA, ta, hunk.count);
+      const unitsB = span(tokensB, tb, hunk.count);
+      for (let offset = 0; offset < unitsB.end - unitsB.start; offset++) {
+        const unitA = a.units[unitsA.start + offset];
+        const unitB = b.units[unitsB.start + offset];
+        flushMarkers(writer, b, unitsB.start + offset, markerIndex);
+        const formattingChanged =
+          stableKey(unitA.formatting ?? {}) !== stableKey(unitB.formatting ?? {});
+        writer.write(
+          unitB,
+          'none',
+          formattingChanged ? { formatting: unitA.formatting } : undefined
+        );
+      }
+      ta += hunk.count;
+      tb += hunk.count;
+    } else {
+      const removed = span(tokensA, ta, hunk.deleted);
+      for (let i = removed.start; i < removed.end; i++) writer.write(a.units[i], 'deletion');
+      const added = span(tokensB, tb, hunk.inserted);
+      writeRevised(writer, b, added.start, added.end, 'insertion', markerIndex);
+      ta += hunk.deleted;
+      tb += hunk.inserted;
+    }
+  }
+  flushMarkers(writer, b, Infinity, markerIndex);
+
+  const paragraph = paragraphShell(revised);
+  paragraph.content = writer.content;
+  if (stableKey(original.formatting ?? {}) !== stableKey(revised.formatting ?? {})) {
+    const change: ParagraphPropertyChange = {
+      type: 'paragraphPropertyChange',
+      info: revisions.info(),
+      previousFormatting: original.formatting ? { ...original.formatting } : {},
+      currentFormatting: revised.formatting,
+    };
+    paragraph.propertyChanges = [change];
+  }
+  return paragraph;
+}
+
+type Hunk =
+  | { type: 'equal'; count: number }
+  | { type: 'change'; deleted: number; inserted: number };
+
+/**
+ * Merge delete/insert ops into change hunks, absorbing whitespace-only
+ * equalities between two changes so "a b c" → "x y z" reads as one
+ * replacement rather than three
+ */
+function mergeHunks(ops: DiffOp[], tokensA: Token[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let position = 0;
+  const change = () => {
+    const last = hunks[hunks.length - 1];
+    if (last?.type === 'change') return last;
+    const hunk: Hunk = { type: 'change', deleted: 0, inserted: 0 };
+    hunks.push(hunk);
+    return hunk;
+  };
+
+  ops.forEach((op, index) => {
+    if (op.type === 'equal') {
+      const between = index > 0 && index < ops.length - 1;
+      const whitespaceOnly = tokensA
+        .slice(position, position + op.count)
+        .every((token) => SPACE_CHAR.test(token.key[0] ?? ''));
+      if (between && whitespaceOnly && op.count === 1) {
+        const hunk = change();
+        hunk.deleted += op.count;
+        hunk.inserted += op.count;
+      } else {
+        hunks.push({ type: 'equal', count: op.count });
+      }
+      position += op.count;
+    } else if (op.type === 'delete') {
+      change().deleted += op.count;
+      position += op.count;
+    } else {
+      change().inserted += op.count;
+    }
+  });
+  return hunks;
+}
+
+/**
+ * A paragraph that exists only in the original: all of its content is
+ * wrapped as deleted (or moved away, with range markers named `moveName`)
+ */
+export function removedParagraph(
+  original: Paragraph,
+  revisions: Revisions,
+  moveName?: string
+): Paragraph {
+  const flat = flattenParagraph(original, true);
+  const writer = new ParagraphWriter(revisions);
+  const rangeId = moveName ? revisions.id() : 0;
+  if (moveName) writer.marker({ type: 'moveFromRangeStart', id: rangeId, name: moveName });
+  for (const unit of flat.units) writer.write(unit, moveName ? 'moveFrom' : 'deletion');
+  if (moveName) writer.marker({ type: 'moveFromRangeEnd', id: rangeId });
+
+  const paragraph = paragraphShell(original);
+  paragraph.content = writer.content;
+  return paragraph;
+}
+
+/**
+ * A paragraph that exists only in the revision: all of its content is
+ * wrapped as inserted (or moved here, with range markers named `moveName`)
+ */
+export function addedParagraph(
+  revised: Paragraph,
+  revisions: Revisions,
+  moveName?: string
+): Paragraph {
+  const flat = flattenParagraph(revised);
+  const writer = new ParagraphWriter(revisions);
+  const rangeId = moveName ? revisions.id() : 0;
+  if (moveName) writer.marker({ type: 'moveToRangeStart', id: rangeId, name: moveName });
+  const markerIndex = { value: 0 };
+  writeRevised(writer, flat, 0, flat.units.length, moveName ? 'moveTo' : 'insertion', markerIndex);
+  flushMarkers(writer, flat, Infinity, markerIndex);
+  if (moveName) writer.marker({ type: 'moveToRangeEnd', id: rangeId });
+
+  const paragraph = paragraphShell(revised);
+  paragraph.content = writer.content;
+  return paragraph;
+}
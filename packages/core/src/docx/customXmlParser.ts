@@ -0,0 +1,88 @@
+/**
+ * Custom XML Parser - Find the custom XML data parts of a package
+ *
+ * Custom XML parts (customXml/itemN.xml) hold data that content controls
+ * bind to. The main document links them with customXml relationships; each
+ * part has its own relationship to an itemProps part carrying the store item
+ * ID that w:dataBinding/@w:storeItemID refers to.
+ *
+ * OOXML Reference:
+ * - word/_rels/document.xml.rels: Type=".../relationships/customXml"
+ * - customXml/_rels/itemN.xml.rels: Type=".../relationships/customXmlProps"
+ * - customXml/itemPropsN.xml: ds:datastoreItem/@ds:itemID
+ */
+
+import type { CustomXmlPart, RelationshipMap } from '../types/document';
+import { RELATIONSHIP_TYPES, parseRelationships, resolveRelativePath } from './relsParser';
+import { parseXmlDocument, getAttribute } from './xmlParser';
+
+const CUSTOM_XML_PROPS_TYPE =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships/customXmlProps';
+
+/** Fallback for packages whose document rels don't list the parts */
+const ITEM_PATH = /^customXml\/item\d+\.xml$/i;
+
+/**
+ * Collect the custom XML data parts
+ *
+ * @param allXml - Every XML file in the package by path
+ * @param rels - Main document relationships
+ * @returns Parts in package order; empty when there are none
+ */
+export function parseCustomXmlParts(
+  allXml: Map<string, string>,
+  rels: RelationshipMap
+): CustomXmlPart[] {
+  const paths: string[] = [];
+  for (const rel of rels.values()) {
+    if (rel.type !== RELATIONSHIP_TYPES.customXml || rel.targetMode === 'External') continue;
+    paths.push(resolveRelativePath('word/_rels/document.xml.rels', rel.target));
+  }
+  for (const path of allXml.keys()) {
+    if (ITEM_PATH.test(path)) paths.push(path);
+  }
+
+  const parts: CustomXmlPart[] = [];
+  const seen = new Set<string>();
+  for (const target of paths) {
+    const path = findPath(allXml, target);
+    if (!path || seen.has(path.toLowerCase())) continue;
+    seen.add(path.toLowerCase());
+
+    const part: CustomXmlPart = { path, xml: allXml.get(path)! };
+    const itemId = parseItemId(allXml, path);
+    if (itemId) part.itemId = itemId;
+    parts.push(part);
+  }
+  return parts;
+}
+
+/**
+ * Read the store item ID from the part's itemProps
+ */
+function parseItemId(allXml: Map<string, string>, itemPath: string): string | undefined {
+  const slash = itemPath.lastIndexOf('/');
+  const relsPath = `${itemPath.slice(0, slash)}/_rels/${itemPath.slice(slash + 1)}.rels`;
+  const relsXml = allXml.get(findPath(allXml, relsPath) ?? '');
+
+  let propsPath: string | undefined;
+  if (relsXml) {
+    for (const rel of parseRelationships(relsXml).values()) {
+      if (rel.type === CUSTOM_XML_PROPS_TYPE) propsPath = resolveRelativePath(relsPath, rel.target);
+    }
+  }
+  if (!propsPath) propsPath = itemPath.replace(/item(\d+)\.xml$/i, 'itemProps$1.xml');
+
+  const propsXml = allXml.get(findPath(allXml, propsPath) ?? '');
+  const root = propsXml ? parseXmlDocument(propsXml) : null;
+  return getAttribute(root, 'ds', 'itemID') ?? undefined;
+}
+
+function findPath(allXml: Map<string, string>, path: string): string | undefined {
+  if (allXml.has(path)) return path;
+  const lower = path.toLowerCase();
+  for (const key of allXml.keys()) {
+    if (key.toLowerCase() === lower) return key;
+  }
+  return undefined;
+}
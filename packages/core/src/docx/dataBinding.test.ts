@@ -0,0 +1,191 @@
+/**
+ * Tests for content controls bound to custom XML parts
+ */
+
+import { describe, expect, test } from 'bun:test';
+import JSZip from 'jszip';
+import { EditorState } from 'prosemirror-state';
+import type { Document, InlineSdt, Paragraph } from '../types/document';
+import { DocumentAgent } from '../agent/DocumentAgent';
+import { toProseDoc } from '../prosemirror/conversion/toProseDoc';
+import { refreshBoundControls } from '../prosemirror/commands/dataBinding';
+import { parseDocx } from './parser';
+import { repackDocx } from './rezip';
+import { serializeDocumentBody } from './serializer/documentSerializer';
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DATA_NS = 'urn:example:contract';
+const ITEM_ID = '{6B1D2C3E-0000-4A5B-9C8D-0123456789AB}';
+const MAPPINGS = `xmlns:ns0='${DATA_NS}'`;
+
+function control(alias: string, xpath: string, type: string, text: string): string {
+  return (
+    `<w:sdt><w:sdtPr><w:alias w:val="${alias}"/>` +
+    `<w:dataBinding w:prefixMappings="${MAPPINGS}" w:xpath="${xpath}" w:storeItemID="${ITEM_ID}"/>` +
+    `${type}</w:sdtPr><w:sdtContent><w:r><w:rPr><w:b/></w:rPr><w:t>${text}</w:t></w:r></w:sdtContent></w:sdt>`
+  );
+}
+
+function contractXml(party: string, term: string, signed: string): string {
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n' +
+    `<contract xmlns="${DATA_NS}" id="C-1"><party>${party}</party>` +
+    `<term>${term}</term><signed>${signed}</signed><date>2026-03-01T00:00:00</date></contract>`
+  );
+}
+
+async function buildDocx(): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      '<Override PartName="/customXml/itemProps1.xml" ContentType="application/vnd.openxmlformats-officedocument.customXmlProperties+xml"/>' +
+      '</Types>'
+  );
+  zip.file(
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'word/_rels/document.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/customXml" Target="../customXml/item1.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'word/document.xml',
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="${W}"><w:body><w:p>` +
+      control('Party', '/ns0:contract[1]/ns0:party[1]', '<w:text/>', 'Old name') +
+      control(
+        'Term',
+        '/ns0:contract[1]/ns0:term[1]',
+        '<w:dropDownList><w:listItem w:displayText="One year" w:value="P1Y"/><w:listItem w:displayText="Two years" w:value="P2Y"/></w:dropDownList>',
+        'One year'
+      ) +
+      control('Signed', '/ns0:contract[1]/ns0:signed[1]', '<w14:checkbox/>', '☐') +
+      control('Date', '/ns0:contract[1]/ns0:date[1]', '<w:date/>', '') +
+      control('Id', '/ns0:contract[1]/@id', '<w:text/>', '') +
+      '</w:p></w:body></w:document>'
+  );
+  zip.file('customXml/item1.xml', contractXml('Acme &amp; Co', 'P1Y', 'false'));
+  zip.file(
+    'customXml/_rels/item1.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/customXmlProps" Target="itemProps1.xml"/>' +
+      '</Relationships>'
+  );
+  zip.file(
+    'customXml/itemProps1.xml',
+    '<?xml version="1.0" encoding="UTF-8"?><ds:datastoreItem ds:itemID="' +
+      ITEM_ID +
+      '" xmlns:ds="http://schemas.openxmlformats.org/officeDocument/2006/customXml"/>'
+  );
+  return zip.generateAsync({ type: 'arraybuffer' });
+}
+
+function controls(document: Document): InlineSdt[] {
+  const paragraph = document.package.document.content[0] as Paragraph;
+  return paragraph.content.filter((item): item is InlineSdt => item.type === 'inlineSdt');
+}
+
+function texts(document: Document): string[] {
+  return controls(document).map((sdt) =>
+    sdt.content
+      .map((run) =>
+        run.type === 'run' && run.content[0]?.type === 'text' ? run.content[0].text : ''
+      )
+      .join('')
+  );
+}
+
+describe('data binding', () => {
+  test('parses the part and shows bound values in the controls', async () => {
+    const document = await parseDocx(await buildDocx(), { preloadFonts: false });
+
+    expect(document.package.customXmlParts).toHaveLength(1);
+    expect(document.package.customXmlParts![0]).toMatchObject({
+      path: 'customXml/item1.xml',
+      itemId: ITEM_ID,
+    });
+    expect(texts(document)).toEqual(['Acme & Co', 'One year', '☐', '2026-03-01', 'C-1']);
+
+    const [party, , , date] = controls(document);
+    expect(party.properties.dataBinding).toEqual({
+      xpath: '/ns0:contract[1]/ns0:party[1]',
+      prefixMappings: MAPPINGS,
+      storeItemId: ITEM_ID,
+    });
+    expect(party.content[0].type === 'run' && party.content[0].formatting?.bold).toBe(true);
+    expect(date.properties.dateFormat).toBe('2026-03-01T00:00:00');
+    expect(serializeDocumentBody(document.package.document)).toContain(
+      `w:xpath="/ns0:contract[1]/ns0:party[1]" w:storeItemID="${ITEM_ID}"/>`
+    );
+  });
+
+  test('writes edited controls back into the part on save', async () => {
+    const document = await parseDocx(await buildDocx(), { preloadFonts: false });
+    const [party, term, signed] = controls(document);
+    party.content = [{ type: 'run', content: [{ type: 'text', text: 'Globex <EU>' }] }];
+    term.content = [{ type: 'run', content: [{ type: 'text', text: 'Two years' }] }];
+    signed.properties.checked = true;
+
+    const zip = await JSZip.loadAsync(await repackDocx(document));
+    const xml = await zip.file('customXml/item1.xml')!.async('text');
+    expect(xml).toContain('<party>Globex &lt;EU&gt;</party>');
+    expect(xml).toContain('<term>P2Y</term>');
+    expect(xml).toContain('<signed>true</signed>');
+    // Values shown differently from how they are stored are kept
+    expect(xml).toContain('<date>2026-03-01T00:00:00</date>');
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8" standalone="no"?>')).toBe(true);
+  });
+
+  test('setBoundData repopulates the form in one call', async () => {
+    const agent = await DocumentAgent.fromBuffer(await buildDocx());
+    const updated = agent.setBoundData(contractXml('Initech', 'P2Y', '1'));
+
+    expect(texts(updated.getDocument())).toEqual([
+      'Initech',
+      'Two years',
+      '☒',
+      '2026-03-01',
+      'C-1',
+    ]);
+    expect(controls(updated.getDocument())[2].properties.checked).toBe(true);
+    // The original agent is unchanged
+    expect(texts(agent.getDocument())[0]).toBe('Acme & Co');
+
+    const zip = await JSZip.loadAsync(await updated.toBuffer());
+    expect(await zip.file('customXml/item1.xml')!.async('text')).toContain(
+      '<party>Initech</party>'
+    );
+
+    expect(() =>
+      agent.setBoundData('<other/>', '{00000000-0000-0000-0000-000000000000}')
+    ).toThrow();
+  });
+
+  test('refreshBoundControls updates the editor in place', async () => {
+    const document = await parseDocx(await buildDocx(), { preloadFonts: false });
+    let state = EditorState.create({ doc: toProseDoc(document) });
+    const updated: Document = {
+      ...document,
+      package: {
+        ...document.package,
+        customXmlParts: [
+          { ...document.package.customXmlParts![0], xml: contractXml('Initech', 'P1Y', 'true') },
+        ],
+      },
+    };
+
+    const applied = refreshBoundControls({ document: updated })(state, (tr) => {
+      state = state.apply(tr);
+    });
+    expect(applied).toBe(true);
+    expect(state.doc.textContent).toBe('InitechOne year☒2026-03-01C-1');
+  });
+});
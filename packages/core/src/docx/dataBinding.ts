@@ -0,0 +1,432 @@
+/**
+ * Data binding - content controls mapped to custom XML parts
+ *
+ * A content control with w:dataBinding shows the value of a node in a custom
+ * XML part, addressed by an XPath. Word keeps the two in sync; here bound
+ * values are pulled into the controls when a document is parsed or new data
+ * is set, and the controls' text is pushed back into the parts on save.
+ *
+ * Supported XPath: absolute paths of element steps with optional positional
+ * predicates, optionally ending in an attribute step
+ * (`/ns0:contract[1]/ns0:party[2]/@id`). Controls whose XPath is outside that
+ * subset, or doesn't resolve, are left unchanged.
+ */
+
+import type {
+  BlockContent,
+  CustomXmlPart,
+  Document,
+  InlineSdt,
+  Run,
+  SdtDataBinding,
+  SdtProperties,
+} from '../types/document';
+import { contentText } from './fields/documentIndex';
+import { textToRunContent } from './fields';
+import {
+  elementToXml,
+  getChildElements,
+  getLocalName,
+  getNamespacePrefix,
+  getTextContent,
+  parseXmlDocument,
+  type XmlElement,
+} from './xmlParser';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface XPathStep {
+  prefix?: string;
+  name: string;
+  /** 1-based position among matching siblings */
+  position: number;
+  attribute: boolean;
+}
+
+/** Node an XPath resolved to: an element, or one of its attributes */
+interface BoundNode {
+  element: XmlElement;
+  attribute?: string;
+}
+
+// ============================================================================
+// READ
+// ============================================================================
+
+/**
+ * Fill bound content controls with the values in the document's custom XML
+ * parts, in place
+ *
+ * @param document - Document to update
+ * @returns Number of controls whose content changed
+ */
+export function applyBoundData(document: Document): number {
+  const parts = (document.package.customXmlParts ?? []).map((part) => ({
+    part,
+    root: parseXmlDocument(part.xml),
+  }));
+  if (parts.length === 0) return 0;
+
+  let changed = 0;
+  for (const sdt of collectBoundControls(document)) {
+    const binding = sdt.properties.dataBinding!;
+    for (const { part, root } of parts) {
+      if (!root || !matchesStoreItem(part, binding)) continue;
+      const node = resolveXPath(root, binding);
+      if (!node) continue;
+      if (setControlValue(sdt, readNode(node))) changed++;
+      break;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Write the text of bound content controls into the custom XML parts
+ *
+ * The document is not modified; parts with new values are returned as new
+ * objects, the others as they are.
+ *
+ * @param document - Document whose controls hold the values
+ * @returns The document's custom XML parts with the values written in
+ */
+export function writeBoundData(document: Document): CustomXmlPart[] {
+  const parts = document.package.customXmlParts ?? [];
+  if (parts.length === 0) return parts;
+
+  const roots = parts.map((part) => parseXmlDocument(part.xml));
+  const dirty = new Set<number>();
+  for (const sdt of collectBoundControls(document)) {
+    const binding = sdt.properties.dataBinding!;
+    const index = parts.findIndex(
+      (part, i) => roots[i] && matchesStoreItem(part, binding) && resolveXPath(roots[i]!, binding)
+    );
+    if (index < 0) continue;
+
+    const node = resolveXPath(roots[index]!, binding)!;
+    const current = readNode(node);
+    const text = sdt.properties.showingPlaceholder ? '' : controlText(sdt);
+    if (isUnchanged(sdt.properties, current, text)) continue;
+    if (writeNode(node, storedValue(sdt, text))) dirty.add(index);
+  }
+
+  return parts.map((part, i) => {
+    if (!dirty.has(i)) return part;
+    const declaration = /^\s*<\?xml[^?]*\?>\s*/.exec(part.xml)?.[0] ?? '';
+    escapeAttributes(roots[i]!);
+    return { ...part, xml: declaration + elementToXml(roots[i]!) };
+  });
+}
+
+/**
+ * Replace the content of a custom XML part, in place
+ *
+ * The part is picked by store item ID when given, else by the new content's
+ * root element, else the only part bound controls refer to.
+ *
+ * @param document - Document to update
+ * @param xml - New part content
+ * @param storeItemId - Store item ID of the part to replace
+ * @throws Error when the XML is malformed or no part matches
+ */
+export function replaceCustomXmlPart(document: Document, xml: string, storeItemId?: string): void {
+  const root = parseXmlDocument(xml);
+  if (!root?.name) throw new Error('Bound data is not well-formed XML');
+  const parts = document.package.customXmlParts ?? [];
+
+  let part: CustomXmlPart | undefined;
+  if (storeItemId) {
+    part = parts.find((p) => sameItemId(p.itemId, storeItemId));
+  } else {
+    part = parts.find((p) => sameRootElement(parseXmlDocument(p.xml), root));
+    if (!part) {
+      const bound = parts.filter((p) =>
+        collectBoundControls(document).some((sdt) =>
+          matchesStoreItem(p, sdt.properties.dataBinding!)
+        )
+      );
+      if (bound.length === 1) part = bound[0];
+    }
+  }
+  if (!part) {
+    throw new Error(
+      storeItemId
+        ? `No custom XML part with store item ID ${storeItemId}`
+        : 'No custom XML part matches the bound data'
+    );
+  }
+  part.xml = xml;
+}
+
+// ============================================================================
+// CONTROLS
+// ============================================================================
+
+function collectBoundControls(document: Document): InlineSdt[] {
+  const pkg = document.package;
+  const controls: InlineSdt[] = [];
+  const visit = (blocks: BlockContent[]): void => {
+    for (const block of blocks) {
+      if (block.type === 'paragraph') {
+        for (const item of block.content) {
+          if (item.type === 'inlineSdt' && item.properties.dataBinding) controls.push(item);
+        }
+      } else if (block.type === 'table') {
+        for (const row of block.rows) {
+          for (const cell of row.cells) visit(cell.content);
+        }
+      } else {
+        visit(block.content);
+      }
+    }
+  };
+
+  visit(pkg.document.content);
+  for (const map of [pkg.headers, pkg.footers]) {
+    for (const headerFooter of map?.values() ?? []) visit(headerFooter.content);
+  }
+  for (const note of [...(pkg.footnotes ?? []), ...(pkg.endnotes ?? [])]) visit(note.content);
+  return controls;
+}
+
+function controlText(sdt: InlineSdt): string {
+  return sdt.content.map(contentText).join('');
+}
+
+/**
+ * Show a bound value in a control; returns whether anything changed
+ */
+function setControlValue(sdt: InlineSdt, value: string): boolean {
+  const props = sdt.properties;
+  const text = displayValue(props, value);
+  let changed = false;
+
+  if (props.sdtType === 'checkbox' && props.checked !== isTrue(value)) {
+    props.checked = isTrue(value);
+    changed = true;
+  }
+  if (props.sdtType === 'date' && value && props.dateFormat !== value) {
+    props.dateFormat = value;
+    changed = true;
+  }
+  if (props.showingPlaceholder && !value) return changed;
+  if (props.showingPlaceholder) {
+    delete props.showingPlaceholder;
+  } else if (controlText(sdt) === text) {
+    return changed;
+  }
+
+  // Keep the formatting of the first run
+  const firstRun = sdt.content.find((item): item is Run => item.type === 'run');
+  sdt.content = [
+    {
+      type: 'run',
+      ...(firstRun?.formatting ? { formatting: firstRun.formatting } : {}),
+      content: textToRunContent(text),
+    },
+  ];
+  return true;
+}
+
+/**
+ * Text a control shows for a stored value
+ */
+function displayValue(props: SdtProperties, value: string): string {
+  switch (props.sdtType) {
+    case 'checkbox':
+      return isTrue(value) ? '☒' : '☐';
+    case 'dropdown':
+    case 'comboBox':
+      return props.listItems?.find((item) => item.value === value)?.displayText ?? value;
+    case 'date':
+      // xsd:dateTime values show as their date
+      return /^\d{4}-\d{2}-\d{2}T/.test(value) ? value.slice(0, 10) : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Whether a control still shows the stored value. Comparing what is shown
+ * keeps values displayed differently (a date without its time, a list item's
+ * text) as they are stored.
+ */
+function isUnchanged(props: SdtProperties, current: string, text: string): boolean {
+  if (props.sdtType === 'checkbox') return isTrue(current) === !!props.checked;
+  return displayValue(props, current) === text;
+}
+
+/**
+ * Value stored in the XML for a control's text
+ */
+function storedValue(sdt: InlineSdt, text: string): string {
+  const props = sdt.properties;
+  switch (props.sdtType) {
+    case 'checkbox':
+      return props.checked ? 'true' : 'false';
+    case 'dropdown':
+    case 'comboBox':
+      return props.listItems?.find((item) => item.displayText === text)?.value ?? text;
+    default:
+      return text;
+  }
+}
+
+function isTrue(value: string): boolean {
+  const v = value.trim().toLowerCase();
+  return v === 'true' || v === '1';
+}
+
+// ============================================================================
+// XPATH
+// ============================================================================
+
+function matchesStoreItem(part: CustomXmlPart, binding: SdtDataBinding): boolean {
+  return !binding.storeItemId || !part.itemId || sameItemId(part.itemId, binding.storeItemId);
+}
+
+function sameItemId(a: string | undefined, b: string): boolean {
+  const normalize = (id: string) => id.replace(/[{}]/g, '').toLowerCase();
+  return a !== undefined && normalize(a) === normalize(b);
+}
+
+function sameRootElement(a: XmlElement | null, b: XmlElement): boolean {
+  if (!a?.name || !b.name) return false;
+  return (
+    getLocalName(a.name) === getLocalName(b.name) &&
+    namespaceOf(a.name, collectNamespaces(a, {})) === namespaceOf(b.name, collectNamespaces(b, {}))
+  );
+}
+
+function parseXPath(xpath: string): XPathStep[] | null {
+  const parts = xpath.trim().split('/');
+  if (parts.length < 2 || parts[0] !== '') return null;
+
+  const steps: XPathStep[] = [];
+  for (const [i, part] of parts.slice(1).entries()) {
+    const match = /^(@)?(?:([\w.-]+):)?([\w.-]+)(?:\[(\d+)\])?$/.exec(part);
+    // Attributes only as the last step
+    if (!match || (match[1] && i !== parts.length - 2)) return null;
+    steps.push({
+      ...(match[2] ? { prefix: match[2] } : {}),
+      name: match[3],
+      position: match[4] ? Number(match[4]) : 1,
+      attribute: !!match[1],
+    });
+  }
+  return steps;
+}
+
+/**
+ * Parse w:prefixMappings (`xmlns:ns0='uri' xmlns:ns1='uri'`)
+ */
+function parsePrefixMappings(mappings: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  const pattern = /xmlns:([\w.-]+)\s*=\s*(['"])(.*?)\2/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(mappings ?? ''))) result[match[1]] = match[3];
+  return result;
+}
+
+/**
+ * Namespace declarations in scope at an element, keyed by prefix ('' for the default)
+ */
+function collectNamespaces(
+  element: XmlElement,
+  inherited: Record<string, string>
+): Record<string, string> {
+  let scope = inherited;
+  for (const [name, value] of Object.entries(element.attributes ?? {})) {
+    if (name === 'xmlns' || name.startsWith('xmlns:')) {
+      if (scope === inherited) scope = { ...inherited };
+      scope[name === 'xmlns' ? '' : name.slice(6)] = String(value);
+    }
+  }
+  return scope;
+}
+
+function namespaceOf(name: string, scope: Record<string, string>): string {
+  return scope[getNamespacePrefix(name) ?? ''] ?? '';
+}
+
+function matchesStep(
+  name: string,
+  step: XPathStep,
+  scope: Record<string, string>,
+  prefixes: Record<string, string>
+): boolean {
+  if (getLocalName(name) !== step.name) return false;
+  if (!step.prefix) return namespaceOf(name, scope) === '';
+  const uri = prefixes[step.prefix];
+  // Unmapped prefixes fall back to the prefix written in the part
+  return uri !== undefined
+    ? namespaceOf(name, scope) === uri
+    : getNamespacePrefix(name) === step.prefix;
+}
+
+function resolveXPath(root: XmlElement, binding: SdtDataBinding): BoundNode | null {
+  const steps = parseXPath(binding.xpath);
+  if (!steps) return null;
+  const prefixes = parsePrefixMappings(binding.prefixMappings);
+
+  let element: XmlElement | null = null;
+  let scope: Record<string, string> = {};
+  for (const step of steps) {
+    if (step.attribute) {
+      if (!element) return null;
+      const wanted = step.prefix ? `${step.prefix}:${step.name}` : step.name;
+      const attribute = Object.keys(element.attributes ?? {}).find((name) => name === wanted);
+      // A missing unprefixed attribute can still be written
+      if (!attribute && step.prefix) return null;
+      return { element, attribute: attribute ?? step.name };
+    }
+
+    const candidates: XmlElement[] = element ? getChildElements(element) : [root];
+    let seen = 0;
+    let next: XmlElement | null = null;
+    for (const candidate of candidates) {
+      const candidateScope = collectNamespaces(candidate, scope);
+      if (!matchesStep(candidate.name ?? '', step, candidateScope, prefixes)) continue;
+      if (++seen === step.position) {
+        next = candidate;
+        scope = candidateScope;
+        break;
+      }
+    }
+    if (!next) return null;
+    element = next;
+  }
+  return element ? { element } : null;
+}
+
+function readNode(node: BoundNode): string {
+  if (node.attribute) return String(node.element.attributes?.[node.attribute] ?? '');
+  return getTextContent(node.element);
+}
+
+/**
+ * Set a node's value; elements with child elements are left alone
+ */
+function writeNode(node: BoundNode, value: string): boolean {
+  if (node.attribute) {
+    node.element.attributes = { ...node.element.attributes, [node.attribute]: value };
+    return true;
+  }
+  if (getChildElements(node.element).length > 0) return false;
+  node.element.elements = value ? [{ type: 'text', text: value }] : [];
+  return true;
+}
+
+/**
+ * xml-js writes attribute values with only quotes escaped
+ */
+function escapeAttributes(element: XmlElement): void {
+  if (element.attributes) {
+    for (const [name, value] of Object.entries(element.attributes)) {
+      element.attributes[name] = String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;');
+    }
+  }
+  for (const child of getChildElements(element)) escapeAttributes(child);
+}
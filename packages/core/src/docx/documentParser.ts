@@ -16,6 +16,7 @@ import type {
   BlockContent,
   Section,
   Paragraph,
+  ParagraphContent,
   Table,
   SectionProperties,
   Shape,
@@ -30,12 +31,16 @@ import {
   parseXml,
   findChild,
   findDeep,
+  getAttribute,
   getChildElements,
   getLocalName,
   type XmlElement,
 } from './xmlParser';
-import { parseParagraph, getParagraphText } from './paragraphParser';
+import { parseParagraph, parsePermissionStart, getParagraphText } from './paragraphParser';
 import { parseTable } from './tableParser';
+import { isTableOfContentsSdt, markTableOfContents } from './tableOfContentsParser';
+import { firstParagraphOf, splitPermissionRanges } from './permissionRanges';
+import { resolveMoveNames } from './moveRanges';
 import { parseSectionProperties, getDefaultSectionProperties } from './sectionParser';
 import {
   isTextBoxDrawing,
@@ -408,6 +413,7 @@ function enrichParagraphTextBoxes(
             textBody: {
               content: textBox.content,
               margins: textBox.margins,
+              vert: textBox.vert,
             },
           };
           if (textBox.id) shape.id = textBox.id;
@@ -459,8 +465,18 @@ function parseBlockContent(
   // Map: numId -> array of counters for each level
   const listCounters = new Map<number, number[]>();
 
+  // Block-level w:permStart markers wait for the block they precede
+  let pendingPermissions: ParagraphContent[] = [];
+  const attachPendingPermissions = (block: BlockContent) => {
+    const paragraph = pendingPermissions.length > 0 ? firstParagraphOf(block) : undefined;
+    if (!paragraph) return;
+    paragraph.content = [...pendingPermissions, ...paragraph.content];
+    pendingPermissions = [];
+  };
+
   for (const child of children) {
     const name = child.name ?? '';
+    const blockCount = content.length;
 
     // Paragraph (w:p)
     if (name === 'w:p' || name.endsWith(':p')) {
@@ -493,11 +509,35 @@ function parseBlockContent(
           rels,
           media
         );
+        if (isTableOfContentsSdt(child)) markTableOfContents(sdtBlockContent, true);
         content.push(...sdtBlockContent);
       }
     }
+    // Editable region markers between blocks (w:permStart/w:permEnd)
+    else if (name === 'w:permStart' || name.endsWith(':permStart')) {
+      pendingPermissions.push(parsePermissionStart(child));
+    } else if (name === 'w:permEnd' || name.endsWith(':permEnd')) {
+      const permEnd: ParagraphContent = {
+        type: 'permEnd',
+        id: getAttribute(child, 'w', 'id') ?? '',
+      };
+      const previous = content[content.length - 1];
+      if (previous?.type === 'paragraph' && pendingPermissions.length === 0) {
+        previous.content.push(permEnd);
+      } else {
+        pendingPermissions.push(permEnd);
+      }
+    }
     // Section properties (w:sectPr) - handled separately at body level
     // Skip here as we handle it after content parsing
+
+    if (content.length > blockCount) attachPendingPermissions(content[blockCount]);
+  }
+
+  // Markers after the last block close in the last paragraph
+  const last = content[content.length - 1];
+  if (pendingPermissions.length > 0 && last?.type === 'paragraph') {
+    last.content.push(...pendingPermissions);
   }
 
   return content;
@@ -606,6 +646,10 @@ export function parseDocumentBody(
 
   // Parse all block content (paragraphs, tables)
   result.content = parseBlockContent(bodyEl, styles, theme, numbering, rels, media);
+  // TOC fields outside a docPart content control
+  markTableOfContents(result.content);
+  splitPermissionRanges(result.content);
+  resolveMoveNames(result.content);
 
   // Parse final section properties (w:body/w:sectPr)
   const finalSectPr = findChild(bodyEl, 'w', 'sectPr');
@@ -11,6 +11,7 @@ import type {
   ShapeFill,
   ShapeOutline,
   ColorValue,
+  TextBodyVertical,
 } from '../types/document';
 import {
   getChildElements,
@@ -202,6 +203,24 @@ export function parseOutline(spPr: XmlElement | null): ShapeOutline | undefined
   return outline;
 }
 
+const TEXT_BODY_VERTICAL_VALUES: readonly TextBodyVertical[] = [
+  'horz',
+  'vert',
+  'vert270',
+  'wordArtVert',
+  'eaVert',
+  'mongolianVert',
+  'wordArtVertRtl',
+];
+
+/**
+ * Parse the text flow of a text body (a:bodyPr/@vert).
+ */
+export function parseTextBodyVertical(bodyPr: XmlElement | null): TextBodyVertical | undefined {
+  const vert = bodyPr ? getAttribute(bodyPr, null, 'vert') : null;
+  return TEXT_BODY_VERTICAL_VALUES.find((value) => value === vert);
+}
+
 // ============================================================================
 // POSITION PARSING
 // ============================================================================
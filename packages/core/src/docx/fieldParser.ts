@@ -35,6 +35,7 @@ import type { StyleMap } from './styleParser';
 import type { Theme } from '../types/document';
 import { parseRun } from './runParser';
 import { getAttribute, findChildren, type XmlElement } from './xmlParser';
+import { formatDateTime } from './fields/format';
 
 // ============================================================================
 // FIELD TYPE DETECTION
@@ -616,80 +617,7 @@ function toLetter(num: number): string {
  * @returns Formatted date string
  */
 export function formatDate(date: Date, format: string): string {
-  const months = [
-    'January',
-    'February',
-    'March',
-    'April',
-    'May',
-    'June',
-    'July',
-    'August',
-    'September',
-    'October',
-    'November',
-    'December',
-  ];
-  const shortMonths = [
-    'Jan',
-    'Feb',
-    'Mar',
-    'Apr',
-    'May',
-    'Jun',
-    'Jul',
-    'Aug',
-    'Sep',
-    'Oct',
-    'Nov',
-    'Dec',
-  ];
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const shortDays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
-  const pad = (n: number) => n.toString().padStart(2, '0');
-
-  let result = format;
-
-  // Year
-  result = result.replace(/yyyy/g, date.getFullYear().toString());
-  result = result.replace(/yy/g, (date.getFullYear() % 100).toString().padStart(2, '0'));
-
-  // Month - do longer patterns first
-  result = result.replace(/MMMM/g, months[date.getMonth()]);
-  result = result.replace(/MMM/g, shortMonths[date.getMonth()]);
-  result = result.replace(/MM/g, pad(date.getMonth() + 1));
-  result = result.replace(/M/g, (date.getMonth() + 1).toString());
-
-  // Day - do longer patterns first
-  result = result.replace(/dddd/g, days[date.getDay()]);
-  result = result.replace(/ddd/g, shortDays[date.getDay()]);
-  result = result.replace(/dd/g, pad(date.getDate()));
-  result = result.replace(/d/g, date.getDate().toString());
-
-  // Hour (12-hour)
-  const hour12 = date.getHours() % 12 || 12;
-  result = result.replace(/hh/g, pad(hour12));
-  result = result.replace(/h/g, hour12.toString());
-
-  // Hour (24-hour)
-  result = result.replace(/HH/g, pad(date.getHours()));
-  result = result.replace(/H/g, date.getHours().toString());
-
-  // Minute (use lowercase m for minutes - distinguished by context)
-  // This is simplified - in OOXML, 'm' in date context is month, in time context is minute
-  result = result.replace(/mm/g, pad(date.getMinutes()));
-
-  // Second
-  result = result.replace(/ss/g, pad(date.getSeconds()));
-  result = result.replace(/s/g, date.getSeconds().toString());
-
-  // AM/PM
-  const ampm = date.getHours() >= 12 ? 'PM' : 'AM';
-  result = result.replace(/AM\/PM/g, ampm);
-  result = result.replace(/am\/pm/g, ampm.toLowerCase());
-
-  return result;
+  return formatDateTime(date, format);
 }
 
 // ============================================================================
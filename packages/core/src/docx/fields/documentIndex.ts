@@ -0,0 +1,299 @@
+/**
+ * Document index for field evaluation
+ *
+ * Walks every part of a document once and records what field evaluation
+ * needs to look up: paragraphs in order with their section, table cell and
+ * heading level, the fields they contain, bookmark texts, and which section
+ * each header/footer belongs to.
+ */
+
+import type {
+  BlockContent,
+  Document,
+  Field,
+  Paragraph,
+  ParagraphContent,
+  Run,
+  SectionProperties,
+  Style,
+  Table,
+} from '../../types/document';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Document part a field lives in
+ */
+export type FieldPart = 'body' | 'header' | 'footer' | 'footnote' | 'endnote';
+
+/**
+ * Position of a paragraph inside a table
+ */
+export interface CellPosition {
+  table: Table;
+  row: number;
+  column: number;
+}
+
+/**
+ * A paragraph with the context fields need about it
+ */
+export interface ParagraphEntry {
+  paragraph: Paragraph;
+  part: FieldPart;
+  /** Relationship ID of the header/footer part */
+  partId?: string;
+  /** Position among the body paragraphs (body only) */
+  order: number;
+  /** Body section index; for headers/footers, the first section using them */
+  section: number;
+  cell?: CellPosition;
+}
+
+/**
+ * A field and the paragraph it sits in
+ */
+export interface FieldSlot {
+  field: Field;
+  entry: ParagraphEntry;
+}
+
+/**
+ * Bookmarked content
+ */
+export interface BookmarkEntry {
+  text: string;
+  /** Paragraph the bookmark starts in */
+  entry: ParagraphEntry;
+}
+
+export interface DocumentIndex {
+  /** Body paragraphs in document order */
+  body: ParagraphEntry[];
+  /** Fields of every part: body first, then notes, headers and footers */
+  fields: FieldSlot[];
+  styles: Style[];
+}
+
+// ============================================================================
+// INDEXING
+// ============================================================================
+
+/**
+ * Index a document for field evaluation
+ */
+export function indexDocument(document: Document): DocumentIndex {
+  const pkg = document.package;
+  const body: ParagraphEntry[] = [];
+  const other: ParagraphEntry[] = [];
+
+  let section = 0;
+  walkBlocks(pkg.document.content, (paragraph, cell) => {
+    body.push({ paragraph, part: 'body', order: body.length, section, cell });
+    if (paragraph.sectionProperties && !cell) section++;
+  });
+
+  for (const [part, notes] of [
+    ['footnote', pkg.footnotes],
+    ['endnote', pkg.endnotes],
+  ] as const) {
+    for (const note of notes ?? []) {
+      walkBlocks(note.content, (paragraph, cell) => {
+        other.push({ paragraph, part, order: -1, section: 0, cell });
+      });
+    }
+  }
+
+  const sections = headerFooterSections(document);
+  for (const [part, map] of [
+    ['header', pkg.headers],
+    ['footer', pkg.footers],
+  ] as const) {
+    for (const [rId, headerFooter] of map ?? []) {
+      walkBlocks(headerFooter.content, (paragraph, cell) => {
+        other.push({
+          paragraph,
+          part,
+          partId: rId,
+          order: -1,
+          section: sections.get(rId) ?? 0,
+          cell,
+        });
+      });
+    }
+  }
+
+  const fields: FieldSlot[] = [];
+  for (const entry of [...body, ...other]) {
+    for (const item of entry.paragraph.content) {
+      if (item.type === 'simpleField' || item.type === 'complexField') {
+        fields.push({ field: item, entry });
+      }
+    }
+  }
+
+  return { body, fields, styles: pkg.styles?.styles ?? [] };
+}
+
+function walkBlocks(
+  blocks: BlockContent[],
+  visit: (paragraph: Paragraph, cell?: CellPosition) => void,
+  cell?: CellPosition
+): void {
+  for (const block of blocks) {
+    if (block.type === 'paragraph') {
+      visit(block, cell);
+    } else if (block.type === 'table') {
+      block.rows.forEach((row, rowIndex) => {
+        row.cells.forEach((tableCell, column) => {
+          walkBlocks(tableCell.content, visit, { table: block, row: rowIndex, column });
+        });
+      });
+    } else {
+      walkBlocks(block.content, visit, cell);
+    }
+  }
+}
+
+/**
+ * Map each header/footer relationship ID to the first section that shows it.
+ * Sections without a reference of some type inherit the previous section's.
+ */
+function headerFooterSections(document: Document): Map<string, number> {
+  const body = document.package.document;
+  const sectionProperties: (SectionProperties | undefined)[] = [];
+  for (const block of body.content) {
+    if (block.type === 'paragraph' && block.sectionProperties) {
+      sectionProperties.push(block.sectionProperties);
+    }
+  }
+  sectionProperties.push(body.finalSectionProperties);
+
+  const result = new Map<string, number>();
+  const inherited = new Map<string, string>();
+  sectionProperties.forEach((props, index) => {
+    for (const ref of [
+      ...(props?.headerReferences ?? []).map((r) => ({ key: `header:${r.type}`, rId: r.rId })),
+      ...(props?.footerReferences ?? []).map((r) => ({ key: `footer:${r.type}`, rId: r.rId })),
+    ]) {
+      inherited.set(ref.key, ref.rId);
+    }
+    for (const rId of inherited.values()) {
+      if (!result.has(rId)) result.set(rId, index);
+    }
+  });
+  return result;
+}
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+/**
+ * Text of a paragraph as displayed: field results, insertions and moved-to
+ * text included, deletions and moved-from text left out
+ */
+export function paragraphText(paragraph: Paragraph): string {
+  return paragraph.content.map(contentText).join('');
+}
+
+/**
+ * Displayed text of one paragraph content item
+ */
+export function contentText(item: ParagraphContent): string {
+  switch (item.type) {
+    case 'run':
+      return runText(item);
+    case 'hyperlink':
+      return item.children.map((child) => (child.type === 'run' ? runText(child) : '')).join('');
+    case 'simpleField':
+    case 'insertion':
+    case 'moveTo':
+    case 'inlineSdt':
+      return item.content.map((child) => contentText(child)).join('');
+    case 'complexField':
+      return item.fieldResult.map(runText).join('');
+    default:
+      return '';
+  }
+}
+
+function runText(run: Run): string {
+  return run.content
+    .map((content) => {
+      switch (content.type) {
+        case 'text':
+          return content.text;
+        case 'tab':
+          return '\t';
+        case 'break':
+          return content.breakType === 'page' || content.breakType === 'column' ? '' : '\n';
+        case 'noBreakHyphen':
+          return '-';
+        default:
+          return '';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Collect the text of every body bookmark. Bookmarks may span paragraphs;
+ * paragraph ends inside them become line breaks.
+ */
+export function collectBookmarks(body: ParagraphEntry[]): Map<string, BookmarkEntry> {
+  const bookmarks = new Map<string, BookmarkEntry>();
+  const open = new Map<number, { name: string; text: string }>();
+
+  const append = (text: string) => {
+    for (const bookmark of open.values()) bookmark.text += text;
+  };
+  const close = (id: number) => {
+    const bookmark = open.get(id);
+    const entry = bookmark && bookmarks.get(bookmark.name);
+    if (bookmark && entry) entry.text = bookmark.text.replace(/\n+$/, '');
+    open.delete(id);
+  };
+  const visit = (item: ParagraphContent, entry: ParagraphEntry) => {
+    if (item.type === 'bookmarkStart') {
+      if (!item.name || bookmarks.has(item.name)) return;
+      bookmarks.set(item.name, { text: '', entry });
+      open.set(item.id, { name: item.name, text: '' });
+    } else if (item.type === 'bookmarkEnd') {
+      close(item.id);
+    } else if (item.type === 'hyperlink') {
+      for (const child of item.children) visit(child, entry);
+    } else {
+      append(contentText(item));
+    }
+  };
+
+  for (const entry of body) {
+    for (const item of entry.paragraph.content) visit(item, entry);
+    append('\n');
+  }
+  for (const id of [...open.keys()]) close(id);
+
+  return bookmarks;
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+/**
+ * Heading level (1-9) of a paragraph, from its outline level or style
+ */
+export function headingLevel(paragraph: Paragraph, styles: Style[]): number | undefined {
+  const styleId = paragraph.formatting?.styleId;
+  const outlineLevel =
+    paragraph.formatting?.outlineLevel ??
+    styles.find((s) => s.styleId === styleId)?.pPr?.outlineLevel;
+  if (outlineLevel !== undefined && outlineLevel >= 0 && outlineLevel < 9) {
+    return outlineLevel + 1;
+  }
+  const match = styleId?.match(/^heading\s*(\d)$/i);
+  return match ? parseInt(match[1], 10) : undefined;
+}
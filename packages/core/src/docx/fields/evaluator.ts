@@ -0,0 +1,553 @@
+/**
+ * Field evaluator
+ *
+ * Computes the result text of a field from its instruction and the indexed
+ * document. Returns undefined for fields it can't or shouldn't compute here
+ * (PAGE, TOC, MERGEFIELD, PAGEREF without page information, ...) so callers
+ * keep their current result.
+ *
+ * Evaluation runs in two passes over the fields in document order. The first
+ * computes fields that only depend on their position (SEQ, dates, document
+ * properties); the second computes fields that read other content
+ * (REF, PAGEREF, STYLEREF, IF, `=`), so that a cross-reference to a caption
+ * picks up the caption's freshly numbered SEQ field.
+ */
+
+import type { Document, Paragraph, Table } from '../../types/document';
+import {
+  collectBookmarks,
+  headingLevel,
+  paragraphText,
+  type BookmarkEntry,
+  type DocumentIndex,
+  type FieldSlot,
+  type ParagraphEntry,
+} from './documentIndex';
+import { applyGeneralFormat, formatDateTime, formatNumberPicture } from './format';
+import { evaluateFormula, FormulaError, type FormulaContext } from './formula';
+import { findSwitch, parseFieldCode, type FieldCode } from './instruction';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for evaluating fields
+ */
+export interface FieldEvaluationOptions {
+  /** Date used for DATE and TIME fields (default: now) */
+  now?: Date;
+  /** Document properties that override or extend the document's own (DOCPROPERTY) */
+  properties?: Record<string, string>;
+  /**
+   * Page number a bookmark is on, for PAGEREF. Without it PAGEREF fields
+   * keep their current result.
+   */
+  resolvePage?: (bookmarkName: string) => number | undefined;
+}
+
+export type EvaluationPass = 'position' | 'reference';
+
+const DEFAULT_DATE_PICTURE = 'M/d/yyyy';
+const DEFAULT_TIME_PICTURE = 'h:mm AM/PM';
+const DEFAULT_DATE_TIME_PICTURE = 'M/d/yyyy h:mm:ss AM/PM';
+
+/**
+ * Word's error texts
+ */
+const REFERENCE_NOT_FOUND = 'Error! Reference source not found.';
+const BOOKMARK_NOT_DEFINED = 'Error! Bookmark not defined.';
+const NO_STYLE_TEXT = 'Error! No text of specified style in document.';
+const UNKNOWN_PROPERTY = 'Error! Unknown document property name.';
+
+const POSITION_FIELDS = new Set([
+  'SEQ',
+  'DATE',
+  'TIME',
+  'CREATEDATE',
+  'SAVEDATE',
+  'DOCPROPERTY',
+  'AUTHOR',
+  'TITLE',
+  'SUBJECT',
+  'KEYWORDS',
+  'COMMENTS',
+  'LASTSAVEDBY',
+  'REVNUM',
+  'QUOTE',
+  'SET',
+]);
+
+/**
+ * DOCPROPERTY names of the built-in properties, with the field names that
+ * show the same value
+ */
+const BUILT_IN_PROPERTIES: Record<string, (properties: PackageProperties) => string | undefined> = {
+  TITLE: (p) => p.title,
+  SUBJECT: (p) => p.subject,
+  AUTHOR: (p) => p.creator,
+  KEYWORDS: (p) => p.keywords,
+  COMMENTS: (p) => p.description,
+  LASTSAVEDBY: (p) => p.lastModifiedBy,
+  REVISIONNUMBER: (p) => (p.revision !== undefined ? String(p.revision) : undefined),
+  REVNUM: (p) => (p.revision !== undefined ? String(p.revision) : undefined),
+};
+
+type PackageProperties = NonNullable<Document['package']['properties']>;
+
+// ============================================================================
+// EVALUATOR
+// ============================================================================
+
+/**
+ * Stateful evaluator for one update run. Call `evaluate` for every field in
+ * document order, first with the 'position' pass and then the 'reference' pass.
+ */
+export class FieldEvaluator {
+  private sequences = new Map<string, { value: number; headings: string }>();
+  private headingCounts: number[] = [];
+  /** Next body paragraph to scan for headings */
+  private headingScan = 0;
+  private setValues = new Map<string, string>();
+  private bookmarks: Map<string, BookmarkEntry> | null = null;
+
+  constructor(
+    private document: Document,
+    private index: DocumentIndex,
+    private options: FieldEvaluationOptions = {}
+  ) {}
+
+  /**
+   * Compute a field's result, or undefined to leave it as is
+   */
+  evaluate(slot: FieldSlot, pass: EvaluationPass): string | undefined {
+    const code = parseFieldCode(slot.field.instruction);
+    const isPositionField = POSITION_FIELDS.has(code.name);
+    if ((pass === 'position') !== isPositionField) return undefined;
+
+    let result: string | undefined;
+    if (pass === 'position') {
+      if (slot.entry.part === 'body') this.trackHeadings(slot.entry);
+      result = this.evaluatePositionField(code, slot);
+    } else if (slot.field.fieldType === 'UNKNOWN' && code.args.length === 0 && code.name) {
+      // Fields named after a bookmark ({ Intro }) behave like REF
+      const name = this.findBookmarkName(code.name);
+      result = name !== undefined ? this.bookmarkText(name) : undefined;
+    } else {
+      result = this.evaluateReferenceField(code, slot);
+    }
+    return result === undefined ? undefined : this.format(result, code);
+  }
+
+  // ==========================================================================
+  // POSITION FIELDS
+  // ==========================================================================
+
+  private evaluatePositionField(code: FieldCode, slot: FieldSlot): string | undefined {
+    const properties = this.document.package.properties ?? {};
+    const arg = code.args[0]?.text;
+
+    switch (code.name) {
+      case 'SEQ':
+        return slot.entry.part === 'body' ? this.sequence(code) : undefined;
+      case 'DATE':
+        return this.formatDate(this.options.now ?? new Date(), code, DEFAULT_DATE_PICTURE);
+      case 'TIME':
+        return this.formatDate(this.options.now ?? new Date(), code, DEFAULT_TIME_PICTURE);
+      case 'CREATEDATE':
+        return properties.created
+          ? this.formatDate(new Date(properties.created), code, DEFAULT_DATE_TIME_PICTURE)
+          : undefined;
+      case 'SAVEDATE':
+        return properties.modified
+          ? this.formatDate(new Date(properties.modified), code, DEFAULT_DATE_TIME_PICTURE)
+          : undefined;
+      case 'DOCPROPERTY':
+        return arg ? (this.property(arg, code) ?? UNKNOWN_PROPERTY) : UNKNOWN_PROPERTY;
+      case 'QUOTE':
+        return code.args.map((token) => token.text).join(' ');
+      case 'SET':
+        if (arg) this.setValues.set(arg, code.args[1]?.text ?? '');
+        return '';
+      default:
+        // AUTHOR, TITLE, ... show the property, or the new value they set
+        return arg ?? this.property(code.name, code) ?? '';
+    }
+  }
+
+  private formatDate(date: Date, code: FieldCode, defaultPicture: string): string {
+    return formatDateTime(date, findSwitch(code, '@')?.value ?? defaultPicture);
+  }
+
+  private property(name: string, code: FieldCode): string | undefined {
+    const overrides = this.options.properties ?? {};
+    const override = Object.keys(overrides).find((key) => key.toUpperCase() === name.toUpperCase());
+    if (override !== undefined) return overrides[override];
+
+    const properties = this.document.package.properties ?? {};
+    const key = name.toUpperCase();
+    if (key === 'CREATETIME' && properties.created) {
+      return this.formatDate(new Date(properties.created), code, DEFAULT_DATE_TIME_PICTURE);
+    }
+    if (key === 'LASTSAVETIME' && properties.modified) {
+      return this.formatDate(new Date(properties.modified), code, DEFAULT_DATE_TIME_PICTURE);
+    }
+    const builtIn = BUILT_IN_PROPERTIES[key]?.(properties);
+    if (builtIn !== undefined) return builtIn;
+
+    const custom = properties.custom ?? {};
+    const customKey = Object.keys(custom).find((k) => k.toUpperCase() === key);
+    return customKey !== undefined ? custom[customKey] : undefined;
+  }
+
+  /**
+   * Record headings passed since the previous field, for SEQ \s resets
+   */
+  private trackHeadings(entry: ParagraphEntry): void {
+    for (; this.headingScan <= entry.order; this.headingScan++) {
+      const paragraph = this.index.body[this.headingScan].paragraph;
+      const level = headingLevel(paragraph, this.index.styles);
+      if (level === undefined) continue;
+      this.headingCounts[level - 1] = (this.headingCounts[level - 1] ?? 0) + 1;
+      this.headingCounts.length = level;
+    }
+  }
+
+  private sequence(code: FieldCode): string {
+    const name = code.args[0]?.text ?? '';
+    const state = this.sequences.get(name) ?? { value: 0, headings: '' };
+
+    const resetLevel = parseInt(findSwitch(code, 's')?.value ?? '', 10);
+    if (!isNaN(resetLevel)) {
+      const headings = this.headingCounts.slice(0, resetLevel).join('.');
+      if (headings !== state.headings) state.value = 0;
+      state.headings = headings;
+    }
+
+    const reset = parseInt(findSwitch(code, 'r')?.value ?? '', 10);
+    if (!isNaN(reset)) state.value = reset;
+    else if (!findSwitch(code, 'c')) state.value++;
+
+    this.sequences.set(name, state);
+    return findSwitch(code, 'h') ? '' : String(state.value);
+  }
+
+  // ==========================================================================
+  // REFERENCE FIELDS
+  // ==========================================================================
+
+  private evaluateReferenceField(code: FieldCode, slot: FieldSlot): string | undefined {
+    const arg = code.args[0]?.text;
+
+    switch (code.name) {
+      case 'REF':
+        return arg ? this.reference(arg, code, slot) : REFERENCE_NOT_FOUND;
+      case 'PAGEREF':
+        return arg ? this.pageReference(arg, code) : BOOKMARK_NOT_DEFINED;
+      case 'STYLEREF':
+        return arg ? this.styleReference(arg, code, slot) : NO_STYLE_TEXT;
+      case 'IF':
+        return this.condition(code);
+      case '=':
+        return this.formula(code, slot);
+      default:
+        return undefined;
+    }
+  }
+
+  private getBookmarks(): Map<string, BookmarkEntry> {
+    if (!this.bookmarks) this.bookmarks = collectBookmarks(this.index.body);
+    return this.bookmarks;
+  }
+
+  /**
+   * Bookmark names are case-insensitive in Word
+   */
+  private findBookmarkName(name: string): string | undefined {
+    const upper = name.toUpperCase();
+    for (const key of this.setValues.keys()) if (key.toUpperCase() === upper) return key;
+    for (const key of this.getBookmarks().keys()) if (key.toUpperCase() === upper) return key;
+    return undefined;
+  }
+
+  private bookmarkText(name: string): string | undefined {
+    return this.setValues.get(name) ?? this.getBookmarks().get(name)?.text;
+  }
+
+  private reference(arg: string, code: FieldCode, slot: FieldSlot): string {
+    const name = this.findBookmarkName(arg);
+    if (name === undefined) return REFERENCE_NOT_FOUND;
+    const bookmark = this.getBookmarks().get(name);
+
+    const numbered = ['n', 'r', 'w'].some((s) => findSwitch(code, s));
+    let result = numbered
+      ? paragraphNumber(bookmark?.entry.paragraph)
+      : (this.bookmarkText(name) ?? '');
+
+    if (findSwitch(code, 'p') && bookmark) {
+      const position = relativePosition(bookmark.entry, slot.entry);
+      result = numbered ? `${result} ${position}` : position;
+    }
+    return result;
+  }
+
+  private pageReference(arg: string, code: FieldCode): string | undefined {
+    const name = this.findBookmarkName(arg);
+    if (name === undefined || !this.getBookmarks().has(name)) return BOOKMARK_NOT_DEFINED;
+    const page = this.options.resolvePage?.(name);
+    if (page === undefined) return undefined;
+    return findSwitch(code, 'p') ? `on page ${page}` : String(page);
+  }
+
+  /**
+   * STYLEREF in the body searches back from the field, then forward. In
+   * headers and footers it searches the section the part belongs to (first
+   * match, or last with \l), then earlier sections, then later ones.
+   */
+  private styleReference(arg: string, code: FieldCode, slot: FieldSlot): string {
+    const matches = this.styleMatcher(arg);
+    const body = this.index.body;
+    const fromBottom = !!findSwitch(code, 'l');
+    let found: ParagraphEntry | undefined;
+
+    if (slot.entry.part === 'body') {
+      for (let i = slot.entry.order; i >= 0 && !found; i--) {
+        if (matches(body[i].paragraph)) found = body[i];
+      }
+      if (!found) found = body.slice(slot.entry.order + 1).find((e) => matches(e.paragraph));
+    } else {
+      const section = slot.entry.section;
+      const inSection = body.filter((e) => e.section === section && matches(e.paragraph));
+      found = fromBottom ? inSection[inSection.length - 1] : inSection[0];
+      if (!found) {
+        const before = body.filter((e) => e.section < section && matches(e.paragraph));
+        found = before[before.length - 1];
+      }
+      if (!found) found = body.find((e) => e.section > section && matches(e.paragraph));
+    }
+
+    if (!found) return NO_STYLE_TEXT;
+    if (['n', 'r', 'w'].some((s) => findSwitch(code, s))) {
+      return paragraphNumber(found.paragraph);
+    }
+    let text = paragraphText(found.paragraph).replace(/\n+$/, '');
+    if (findSwitch(code, 'p') && slot.entry.part === 'body') {
+      text = relativePosition(found, slot.entry);
+    }
+    return text;
+  }
+
+  /**
+   * Match a paragraph by style name or ID, or by heading level for `STYLEREF 1`
+   */
+  private styleMatcher(arg: string): (paragraph: Paragraph) => boolean {
+    if (/^\d$/.test(arg)) {
+      const level = parseInt(arg, 10);
+      return (paragraph) => headingLevel(paragraph, this.index.styles) === level;
+    }
+    const lower = arg.toLowerCase();
+    const ids = new Set(
+      this.index.styles
+        .filter((s) => s.styleId.toLowerCase() === lower || s.name?.toLowerCase() === lower)
+        .map((s) => s.styleId)
+    );
+    // Documents without style definitions still use the conventional IDs
+    if (ids.size === 0) ids.add(arg.replace(/\s+/g, ''));
+    return (paragraph) => {
+      const styleId = paragraph.formatting?.styleId;
+      return !!styleId && (ids.has(styleId) || styleId.toLowerCase() === lower);
+    };
+  }
+
+  /**
+   * IF expression1 operator expression2 "true text" "false text"
+   */
+  private condition(code: FieldCode): string {
+    const [left, operator, right, whenTrue, whenFalse] = code.args;
+    const comparison = ['=', '<>', '<', '<=', '>', '>='];
+
+    if (!operator || !comparison.includes(operator.text) || !right) {
+      // IF expression "true text" "false text"
+      const value = left ? this.formulaValue(left.text) : 0;
+      return (value ? operator?.text : right?.text) ?? '';
+    }
+
+    const leftValue = left.quoted ? left.text : (this.bookmarkText(left.text) ?? left.text);
+    const rightValue = right.quoted ? right.text : (this.bookmarkText(right.text) ?? right.text);
+    const result = compare(leftValue, operator.text, rightValue, right.quoted);
+    return (result ? whenTrue?.text : whenFalse?.text) ?? '';
+  }
+
+  private formula(code: FieldCode, slot: FieldSlot): string {
+    try {
+      const value = evaluateFormula(code.expression ?? '', this.formulaContext(slot));
+      if (findSwitch(code, '#')) return String(value);
+      return String(Number.isInteger(value) ? value : Math.round(value * 100) / 100);
+    } catch (error) {
+      if (error instanceof FormulaError) return error.message;
+      throw error;
+    }
+  }
+
+  private formulaValue(expression: string): number {
+    try {
+      return evaluateFormula(expression, this.formulaContext());
+    } catch {
+      return 0;
+    }
+  }
+
+  private formulaContext(slot?: FieldSlot): FormulaContext {
+    return {
+      bookmark: (name) => {
+        const bookmark = this.findBookmarkName(name);
+        return bookmark === undefined ? undefined : (parseNumber(this.bookmarkText(bookmark)) ?? 0);
+      },
+      cells: (reference) => (slot?.entry.cell ? cellValues(slot.entry, reference) : undefined),
+    };
+  }
+
+  // ==========================================================================
+  // FORMATTING
+  // ==========================================================================
+
+  /**
+   * Apply the \# numeric picture and \* formats to a result
+   */
+  private format(result: string, code: FieldCode): string {
+    let text = result;
+    const picture = findSwitch(code, '#')?.value;
+    const number = picture !== undefined ? parseNumber(text) : undefined;
+    if (picture !== undefined && number !== undefined) {
+      text = formatNumberPicture(number, picture);
+    }
+    for (const s of code.switches) {
+      if (s.name === '*' && s.value) text = applyGeneralFormat(text, s.value);
+    }
+    return text;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * List number of a paragraph without its trailing punctuation ("2.1." → "2.1")
+ */
+function paragraphNumber(paragraph: Paragraph | undefined): string {
+  return paragraph?.listRendering?.marker.replace(/[.)]+$/, '') ?? '';
+}
+
+function relativePosition(target: ParagraphEntry, from: ParagraphEntry): string {
+  return target.order <= from.order ? 'above' : 'below';
+}
+
+/**
+ * Read a number the way Word does from result text: currency signs, grouping
+ * and surrounding spaces are ignored, parentheses mean negative
+ */
+function parseNumber(text: string | undefined): number | undefined {
+  if (text === undefined) return undefined;
+  let cleaned = text.trim().replace(/[,$€£¥\s]/g, '');
+  let sign = 1;
+  if (/^\(.*\)$/.test(cleaned)) {
+    sign = -1;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)%?$/.test(cleaned)) return undefined;
+  const value = parseFloat(cleaned);
+  return sign * (cleaned.endsWith('%') ? value / 100 : value);
+}
+
+function compare(left: string, operator: string, right: string, rightQuoted: boolean): boolean {
+  const leftNumber = parseNumber(left);
+  const rightNumber = parseNumber(right);
+
+  let order: number;
+  if (leftNumber !== undefined && rightNumber !== undefined) {
+    order = Math.sign(leftNumber - rightNumber);
+  } else if ((operator === '=' || operator === '<>') && rightQuoted && /[?*]/.test(right)) {
+    // Wildcards: ? matches one character, * any run
+    const pattern = right
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\?/g, '.')
+      .replace(/\*/g, '.*');
+    order = new RegExp(`^${pattern}$`, 'i').test(left) ? 0 : 1;
+  } else {
+    order = left.localeCompare(right, undefined, { sensitivity: 'accent' });
+  }
+
+  switch (operator) {
+    case '=':
+      return order === 0;
+    case '<>':
+      return order !== 0;
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
+
+/**
+ * Numbers in a table reference, relative to the cell holding the field.
+ * Directions collect cells in the same row or column up to the first cell
+ * without a number.
+ */
+function cellValues(entry: ParagraphEntry, reference: string): number[] | undefined {
+  const cell = entry.cell;
+  if (!cell) return undefined;
+  const { table, row, column } = cell;
+  const valueAt = (r: number, c: number): number | undefined => {
+    const target = table.rows[r]?.cells[c];
+    return target ? parseNumber(target.content.map(blockText).join(' ')) : undefined;
+  };
+
+  const direction: Record<string, [number, number]> = {
+    ABOVE: [-1, 0],
+    BELOW: [1, 0],
+    LEFT: [0, -1],
+    RIGHT: [0, 1],
+  };
+  if (direction[reference]) {
+    const [dr, dc] = direction[reference];
+    const values: number[] = [];
+    for (let r = row + dr, c = column + dc; r >= 0 && c >= 0; r += dr, c += dc) {
+      const value = valueAt(r, c);
+      if (value === undefined) break;
+      values.push(value);
+    }
+    return values;
+  }
+
+  const [start, end = start] = reference.split(':').map(parseCellName);
+  if (!start || !end) return undefined;
+  const values: number[] = [];
+  for (let r = Math.min(start.row, end.row); r <= Math.max(start.row, end.row); r++) {
+    for (let c = Math.min(start.column, end.column); c <= Math.max(start.column, end.column); c++) {
+      const value = valueAt(r, c);
+      if (value !== undefined) values.push(value);
+    }
+  }
+  return values;
+}
+
+function blockText(block: Paragraph | Table): string {
+  return block.type === 'paragraph' ? paragraphText(block) : '';
+}
+
+/**
+ * "B3" → row 2, column 1
+ */
+function parseCellName(name: string): { row: number; column: number } | undefined {
+  const match = name.match(/^([A-Z]{1,2})(\d+)$/);
+  if (!match) return undefined;
+  let column = 0;
+  for (const letter of match[1]) column = column * 26 + (letter.charCodeAt(0) - 64);
+  return { row: parseInt(match[2], 10) - 1, column: column - 1 };
+}
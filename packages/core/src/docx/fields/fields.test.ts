@@ -0,0 +1,300 @@
+/**
+ * Tests for field evaluation and updates
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type {
+  BlockContent,
+  ComplexField,
+  Document,
+  HeaderFooter,
+  Paragraph,
+  ParagraphContent,
+  Run,
+  SimpleField,
+} from '../../types/document';
+import { createEmptyDocument } from '../../utils/createDocument';
+import { parseDocumentProperties } from '../propertiesParser';
+import { formatDateTime, formatNumberPicture, applyGeneralFormat } from './format';
+import { evaluateFormula } from './formula';
+import { parseFieldCode } from './instruction';
+import { updateFields } from './index';
+
+const NOW = new Date(2026, 2, 5, 14, 7, 9);
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function run(text: string): Run {
+  return { type: 'run', content: [{ type: 'text', text }] };
+}
+
+function field(
+  instruction: string,
+  result = 'old',
+  extra: Partial<ComplexField> = {}
+): ComplexField {
+  return {
+    type: 'complexField',
+    instruction,
+    fieldType: (instruction.trim().split(/\s+/)[0] || 'UNKNOWN').toUpperCase() as never,
+    fieldCode: [run(instruction)],
+    fieldResult: [run(result)],
+    ...extra,
+  };
+}
+
+function paragraph(content: ParagraphContent[], styleId?: string): Paragraph {
+  return { type: 'paragraph', content, ...(styleId ? { formatting: { styleId } } : {}) };
+}
+
+function bookmarked(name: string, content: ParagraphContent[]): ParagraphContent[] {
+  return [
+    { type: 'bookmarkStart', id: name.length, name },
+    ...content,
+    { type: 'bookmarkEnd', id: name.length },
+  ];
+}
+
+function makeDocument(content: BlockContent[]): Document {
+  const document = createEmptyDocument();
+  document.package.document.content = content;
+  return document;
+}
+
+function resultText(item: ParagraphContent): string {
+  const runs = item.type === 'complexField' ? item.fieldResult : (item as SimpleField).content;
+  return runs
+    .map((r) =>
+      r.type === 'run'
+        ? r.content.map((c) => (c.type === 'text' ? c.text : c.type === 'tab' ? '\t' : '')).join('')
+        : ''
+    )
+    .join('');
+}
+
+function update(content: BlockContent[]): string[] {
+  const document = makeDocument(content);
+  return updateFields(document, { now: NOW }).map((u) => u.result ?? '<unchanged>');
+}
+
+// ============================================================================
+// INSTRUCTIONS AND FORMATS
+// ============================================================================
+
+describe('parseFieldCode', () => {
+  test('splits arguments and switches', () => {
+    const code = parseFieldCode(' REF  "My Mark" \\h \\* MERGEFORMAT ');
+    expect(code.name).toBe('REF');
+    expect(code.args.map((a) => a.text)).toEqual(['My Mark']);
+    expect(code.switches).toEqual([{ name: 'h' }, { name: '*', value: 'MERGEFORMAT' }]);
+  });
+
+  test('keeps formula expressions whole', () => {
+    const code = parseFieldCode('= SUM(ABOVE) * 2 \\# "0.00"');
+    expect(code.name).toBe('=');
+    expect(code.expression).toBe('SUM(ABOVE) * 2');
+    expect(code.switches).toEqual([{ name: '#', value: '0.00' }]);
+  });
+});
+
+describe('formats', () => {
+  test('date pictures', () => {
+    expect(formatDateTime(NOW, 'dddd, MMMM d, yyyy')).toBe('Thursday, March 5, 2026');
+    expect(formatDateTime(NOW, 'MM/dd/yy h:mm am/pm')).toBe('03/05/26 2:07 pm');
+    expect(formatDateTime(NOW, "HH:mm:ss 'at' d")).toBe('14:07:09 at 5');
+  });
+
+  test('numeric pictures', () => {
+    expect(formatNumberPicture(1234.5, '#,##0.00')).toBe('1,234.50');
+    expect(formatNumberPicture(-3, '0;(0)')).toBe('(3)');
+    expect(formatNumberPicture(7, '$#,##0')).toBe('$7');
+  });
+
+  test('general formats', () => {
+    expect(applyGeneralFormat('14', 'roman')).toBe('xiv');
+    expect(applyGeneralFormat('28', 'ALPHABETIC')).toBe('BB');
+    expect(applyGeneralFormat('3', 'Ordinal')).toBe('3rd');
+    expect(applyGeneralFormat('21', 'CardText')).toBe('twenty-one');
+    expect(applyGeneralFormat('the quick fox', 'Caps')).toBe('The Quick Fox');
+  });
+
+  test('formulas', () => {
+    const context = {
+      bookmark: (name: string) => (name === 'Price' ? 40 : undefined),
+      cells: () => undefined,
+    };
+    expect(evaluateFormula('(2 + 3) * 4 ^ 2 / 10', context)).toBe(8);
+    expect(evaluateFormula('Price * 15%', context)).toBe(6);
+    expect(evaluateFormula('IF(Price > 30, 1, 2) + MAX(4, 9, 2)', context)).toBe(10);
+    expect(() => evaluateFormula('1 / 0', context)).toThrow('!Zero Divide');
+    expect(() => evaluateFormula('Missing + 1', context)).toThrow('!Undefined Bookmark, Missing');
+  });
+});
+
+// ============================================================================
+// UPDATES
+// ============================================================================
+
+describe('updateFields', () => {
+  test('numbers captions and resolves cross-references to them', () => {
+    const results = update([
+      paragraph([run('See '), field('REF Fig2 \\h'), run(' and '), field('REF Intro')]),
+      paragraph(bookmarked('Intro', [run('Introduction')])),
+      paragraph([run('Figure '), field('SEQ Figure \\* ARABIC')]),
+      paragraph(bookmarked('Fig2', [run('Figure '), field('SEQ Figure')])),
+      paragraph([run('Table '), field('SEQ Table \\* ROMAN')]),
+    ]);
+
+    expect(results).toEqual(['Figure 2', 'Introduction', '1', '2', 'I']);
+  });
+
+  test('restarts SEQ numbering at headings with \\s', () => {
+    const results = update([
+      paragraph([run('One')], 'Heading1'),
+      paragraph([field('SEQ Figure \\s 1')]),
+      paragraph([field('SEQ Figure \\s 1')]),
+      paragraph([run('Two')], 'Heading1'),
+      paragraph([field('SEQ Figure \\s 1')]),
+    ]);
+
+    expect(results).toEqual(['1', '2', '1']);
+  });
+
+  test('reports missing bookmarks the way Word does', () => {
+    expect(update([paragraph([field('REF Nowhere')])])).toEqual([
+      'Error! Reference source not found.',
+    ]);
+  });
+
+  test('evaluates dates, properties and conditions', () => {
+    const document = makeDocument([
+      paragraph([field('DATE \\@ "d MMM yyyy"')]),
+      paragraph([field('DOCPROPERTY Client')]),
+      paragraph([field('TITLE \\* Upper')]),
+      paragraph([field('IF "Acme Inc." = "Acme*" "Dear Acme" "Dear customer"')]),
+    ]);
+    document.package.properties = { title: 'Quarterly report', custom: { Client: 'Acme Inc.' } };
+
+    const results = updateFields(document, { now: NOW }).map((u) => u.result);
+    expect(results).toEqual(['5 Mar 2026', 'Acme Inc.', 'QUARTERLY REPORT', 'Dear Acme']);
+
+    const condition = makeDocument([paragraph([field('IF 5 > 3 "yes" "no"')])]);
+    expect(updateFields(condition).map((u) => u.result)).toEqual(['yes']);
+  });
+
+  test('totals table columns with formula fields', () => {
+    const cell = (content: ParagraphContent[]) => ({
+      type: 'tableCell' as const,
+      content: [paragraph(content)],
+    });
+    const results = update([
+      {
+        type: 'table',
+        rows: [
+          { type: 'tableRow', cells: [cell([run('Item')]), cell([run('Cost')])] },
+          { type: 'tableRow', cells: [cell([run('Paper')]), cell([run('1,200.50')])] },
+          { type: 'tableRow', cells: [cell([run('Ink')]), cell([run('99.5')])] },
+          {
+            type: 'tableRow',
+            cells: [cell([run('Total')]), cell([field('= SUM(ABOVE) \\# "#,##0.00"')])],
+          },
+        ],
+      },
+      paragraph([field('= 10 / 4')]),
+    ]);
+
+    expect(results).toEqual(['1,300.00', '2.5']);
+  });
+
+  test('leaves locked fields and fields that need a layout alone', () => {
+    const document = makeDocument([
+      paragraph([field('SEQ Figure', 'kept', { fldLock: true })]),
+      paragraph([field('SEQ Figure')]),
+      paragraph([field('PAGE', '4'), field('PAGEREF Intro', '9')]),
+      paragraph(bookmarked('Intro', [run('Intro')])),
+    ]);
+    const content = document.package.document.content as Paragraph[];
+
+    const results = updateFields(document).map((u) => u.result);
+    expect(results).toEqual([undefined, '1', undefined, undefined]);
+    expect(resultText(content[0].content[0])).toBe('kept');
+
+    updateFields(document, { resolvePage: (name) => (name === 'Intro' ? 3 : undefined) });
+    expect(resultText(content[2].content[1])).toBe('3');
+  });
+
+  test('fills STYLEREF in headers from the section they belong to', () => {
+    const header: HeaderFooter = {
+      type: 'header',
+      hdrFtrType: 'default',
+      content: [paragraph([field('STYLEREF "Heading 1"'), run(' '), field('DATE \\@ yyyy')])],
+    };
+    const document = makeDocument([
+      paragraph([run('Preface')], 'Heading1'),
+      paragraph([run('Body text')]),
+    ]);
+    document.package.styles = {
+      styles: [{ styleId: 'Heading1', type: 'paragraph', name: 'heading 1' }],
+    };
+    document.package.headers = new Map([['rIdHeader', header]]);
+    document.package.document.finalSectionProperties = {
+      headerReferences: [{ type: 'default', rId: 'rIdHeader' }],
+    };
+
+    const updates = updateFields(document, { now: NOW, parts: ['header'] });
+    expect(updates.map((u) => [u.part, u.result])).toEqual([
+      ['header', 'Preface'],
+      ['header', '2026'],
+    ]);
+  });
+
+  test('writes results back into the result runs, keeping their formatting', () => {
+    const styled = field('SEQ Figure', 'old');
+    styled.fieldResult = [{ ...run('old'), formatting: { bold: true } }];
+    const simple: SimpleField = {
+      type: 'simpleField',
+      instruction: 'QUOTE "a\tb"',
+      fieldType: 'QUOTE',
+      content: [run('x')],
+      dirty: true,
+    };
+    updateFields(makeDocument([paragraph([styled, simple])]));
+
+    expect(styled.fieldResult).toEqual([
+      { type: 'run', formatting: { bold: true }, content: [{ type: 'text', text: '1' }] },
+    ]);
+    expect(resultText(simple)).toBe('a\tb');
+    expect(simple.dirty).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// DOCUMENT PROPERTIES
+// ============================================================================
+
+describe('parseDocumentProperties', () => {
+  test('reads core and custom properties', () => {
+    const core = `<?xml version="1.0"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/">
+  <dc:title>Plan</dc:title>
+  <dc:creator>Sam</dc:creator>
+  <cp:revision>7</cp:revision>
+  <dcterms:created>2025-01-02T03:04:05Z</dcterms:created>
+</cp:coreProperties>`;
+    const custom = `<?xml version="1.0"?>
+<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">
+  <property fmtid="{D5CDD505-2E9C-101B-9397-08002B2CF9AE}" pid="2" name="Client"><vt:lpwstr>Acme</vt:lpwstr></property>
+</Properties>`;
+
+    expect(parseDocumentProperties(core, custom)).toEqual({
+      title: 'Plan',
+      creator: 'Sam',
+      revision: 7,
+      created: new Date('2025-01-02T03:04:05Z'),
+      custom: { Client: 'Acme' },
+    });
+    expect(parseDocumentProperties(null, null)).toBeUndefined();
+  });
+});
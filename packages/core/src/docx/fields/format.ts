@@ -0,0 +1,362 @@
+/**
+ * Field result formatting
+ *
+ * Implements the three general formatting switches Word applies to field
+ * results:
+ * - `\@` date-time pictures (`dddd, MMMM d, yyyy`, `h:mm AM/PM`, ...)
+ * - `\#` numeric pictures (`#,##0.00`, `$#,##0;($#,##0)`, ...)
+ * - `\*` text and number formats (Upper, Caps, roman, Ordinal, CardText, ...)
+ */
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// ============================================================================
+// DATE-TIME PICTURES (\@)
+// ============================================================================
+
+/**
+ * Format a date with a Word date-time picture.
+ *
+ * `M` is the month and `m` the minute; text in single quotes is literal.
+ * Runs of the same letter are read as one code, so `MMMM` is never re-read as
+ * four `M`s.
+ */
+export function formatDateTime(date: Date, picture: string): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  let result = '';
+  let i = 0;
+
+  while (i < picture.length) {
+    const char = picture[i];
+
+    if (char === "'") {
+      const end = picture.indexOf("'", i + 1);
+      result += picture.slice(i + 1, end === -1 ? picture.length : end);
+      i = end === -1 ? picture.length : end + 1;
+      continue;
+    }
+
+    const rest = picture.slice(i);
+    const ampm = rest.match(/^(AM\/PM|am\/pm|A\/P|a\/p)/);
+    if (ampm) {
+      const pm = date.getHours() >= 12;
+      const marker = ampm[1].length === 5 ? (pm ? 'PM' : 'AM') : pm ? 'P' : 'A';
+      result += ampm[1][0] === 'a' ? marker.toLowerCase() : marker;
+      i += ampm[1].length;
+      continue;
+    }
+
+    if (!'MdyhHms'.includes(char)) {
+      result += char;
+      i++;
+      continue;
+    }
+
+    let count = 1;
+    while (picture[i + count] === char) count++;
+    i += count;
+
+    switch (char) {
+      case 'M': {
+        const month = date.getMonth();
+        if (count >= 4) result += MONTHS[month];
+        else if (count === 3) result += MONTHS[month].slice(0, 3);
+        else result += count === 2 ? pad(month + 1) : String(month + 1);
+        break;
+      }
+      case 'd':
+        if (count >= 4) result += DAYS[date.getDay()];
+        else if (count === 3) result += DAYS[date.getDay()].slice(0, 3);
+        else result += count === 2 ? pad(date.getDate()) : String(date.getDate());
+        break;
+      case 'y':
+        result += count >= 3 ? String(date.getFullYear()) : pad(date.getFullYear() % 100);
+        break;
+      case 'h': {
+        const hour = date.getHours() % 12 || 12;
+        result += count >= 2 ? pad(hour) : String(hour);
+        break;
+      }
+      case 'H':
+        result += count >= 2 ? pad(date.getHours()) : String(date.getHours());
+        break;
+      case 'm':
+        result += count >= 2 ? pad(date.getMinutes()) : String(date.getMinutes());
+        break;
+      case 's':
+        result += count >= 2 ? pad(date.getSeconds()) : String(date.getSeconds());
+        break;
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// NUMERIC PICTURES (\#)
+// ============================================================================
+
+/**
+ * Format a number with a Word numeric picture.
+ *
+ * Supports `0` (required digit), `#` (optional digit), `,` grouping, `.`
+ * decimal point, literal text around the number, quoted literals, and up to
+ * three `;`-separated sections for positive, negative and zero values.
+ */
+export function formatNumberPicture(value: number, picture: string): string {
+  const sections = splitSections(picture);
+  let section = sections[0];
+  let sign = value < 0 ? '-' : '';
+  if (value < 0 && sections[1] !== undefined) {
+    section = sections[1];
+    sign = '';
+  } else if (value === 0 && sections[2] !== undefined) {
+    section = sections[2];
+  }
+  // A section that writes its own minus sign takes over from the default one
+  if (sign && /-/.test(section.replace(/'[^']*'/g, ''))) sign = '';
+
+  const first = section.search(/[0#]/);
+  if (first === -1) return unquote(section);
+  let last = first;
+  for (let i = first; i < section.length; i++) {
+    if ('0#,.'.includes(section[i])) last = i;
+    else break;
+  }
+
+  const pattern = section.slice(first, last + 1);
+  const [integerPattern, decimalPattern = ''] = pattern.split('.');
+  const decimals = decimalPattern.replace(/[^0#]/g, '').length;
+  const requiredDecimals = decimalPattern.replace(/[^0]/g, '').length;
+  const requiredDigits = integerPattern.replace(/[^0]/g, '').length;
+
+  const [integerDigits, decimalDigits = ''] = Math.abs(value).toFixed(decimals).split('.');
+  let integerPart = integerDigits.replace(/^0+/, '').padStart(requiredDigits, '0');
+  if (integerPattern.includes(',')) {
+    integerPart = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+  let decimalPart = decimalDigits;
+  while (decimalPart.length > requiredDecimals && decimalPart.endsWith('0')) {
+    decimalPart = decimalPart.slice(0, -1);
+  }
+
+  const number = decimalPart ? `${integerPart}.${decimalPart}` : integerPart || '0';
+  const prefix = unquote(section.slice(0, first));
+  const suffix = unquote(section.slice(last + 1));
+  return sign + prefix + number + suffix;
+}
+
+function splitSections(picture: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (const char of picture) {
+    if (char === "'") quoted = !quoted;
+    if (char === ';' && !quoted) {
+      sections.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  sections.push(current);
+  return sections;
+}
+
+function unquote(text: string): string {
+  return text.replace(/'([^']*)'/g, '$1');
+}
+
+// ============================================================================
+// GENERAL FORMATS (\*)
+// ============================================================================
+
+/**
+ * Apply a `\*` format. Text formats apply to any result; number formats only
+ * when the result is numeric (and round it to a whole number). MERGEFORMAT and CHARFORMAT only affect
+ * run formatting and leave the text alone.
+ */
+export function applyGeneralFormat(text: string, format: string): string {
+  switch (format.toUpperCase()) {
+    case 'UPPER':
+      return text.toUpperCase();
+    case 'LOWER':
+      return text.toLowerCase();
+    case 'FIRSTCAP':
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    case 'CAPS':
+      return text.replace(/(^|\s)(\S)/g, (_, space: string, letter: string) => {
+        return space + letter.toUpperCase();
+      });
+  }
+
+  const value = Number(text.trim().replace(/,/g, ''));
+  if (!text.trim() || !Number.isFinite(value)) return text;
+  const whole = Math.round(value);
+
+  // Roman and alphabetic take their case from the switch: roman → xii, ROMAN → XII
+  const lowerCase = format[0] === format[0].toLowerCase();
+
+  switch (format.toUpperCase()) {
+    case 'ROMAN':
+      return lowerCase ? toRoman(whole).toLowerCase() : toRoman(whole);
+    case 'ALPHABETIC':
+      return lowerCase ? toAlphabetic(whole).toLowerCase() : toAlphabetic(whole);
+    case 'ARABIC':
+      return String(whole);
+    case 'ARABICDASH':
+      return `- ${whole} -`;
+    case 'ORDINAL':
+      return `${whole}${ordinalSuffix(whole)}`;
+    case 'CARDTEXT':
+      return cardinalText(whole);
+    case 'ORDTEXT':
+      return ordinalText(whole);
+    case 'HEX':
+      return whole.toString(16).toUpperCase();
+    case 'DOLLARTEXT': {
+      const cents = Math.round(Math.abs(value) * 100) % 100;
+      return `${cardinalText(Math.trunc(value))} and ${String(cents).padStart(2, '0')}/100`;
+    }
+    default:
+      return text;
+  }
+}
+
+function toRoman(num: number): string {
+  if (num <= 0 || num > 3999) return String(num);
+  const numerals: [number, string][] = [
+    [1000, 'M'],
+    [900, 'CM'],
+    [500, 'D'],
+    [400, 'CD'],
+    [100, 'C'],
+    [90, 'XC'],
+    [50, 'L'],
+    [40, 'XL'],
+    [10, 'X'],
+    [9, 'IX'],
+    [5, 'V'],
+    [4, 'IV'],
+    [1, 'I'],
+  ];
+  let result = '';
+  for (const [value, symbol] of numerals) {
+    while (num >= value) {
+      result += symbol;
+      num -= value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Word's alphabetic numbering repeats the letter past Z: 27 → AA, 28 → BB
+ */
+function toAlphabetic(num: number): string {
+  if (num <= 0) return String(num);
+  const letter = String.fromCharCode(65 + ((num - 1) % 26));
+  return letter.repeat(Math.floor((num - 1) / 26) + 1);
+}
+
+function ordinalSuffix(num: number): string {
+  const lastTwo = Math.abs(num) % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return 'th';
+  switch (Math.abs(num) % 10) {
+    case 1:
+      return 'st';
+    case 2:
+      return 'nd';
+    case 3:
+      return 'rd';
+    default:
+      return 'th';
+  }
+}
+
+const ONES = [
+  'zero',
+  'one',
+  'two',
+  'three',
+  'four',
+  'five',
+  'six',
+  'seven',
+  'eight',
+  'nine',
+  'ten',
+  'eleven',
+  'twelve',
+  'thirteen',
+  'fourteen',
+  'fifteen',
+  'sixteen',
+  'seventeen',
+  'eighteen',
+  'nineteen',
+];
+
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+const SCALES: [number, string][] = [
+  [1000000000, 'billion'],
+  [1000000, 'million'],
+  [1000, 'thousand'],
+  [100, 'hundred'],
+];
+
+/**
+ * Spell out a whole number: 123 → "one hundred twenty-three"
+ */
+function cardinalText(num: number): string {
+  if (num < 0) return `minus ${cardinalText(-num)}`;
+  if (num < 20) return ONES[num];
+  if (num < 100) {
+    const tens = TENS[Math.floor(num / 10)];
+    return num % 10 ? `${tens}-${ONES[num % 10]}` : tens;
+  }
+  for (const [scale, word] of SCALES) {
+    if (num >= scale) {
+      const head = `${cardinalText(Math.floor(num / scale))} ${word}`;
+      return num % scale ? `${head} ${cardinalText(num % scale)}` : head;
+    }
+  }
+  return String(num);
+}
+
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+/**
+ * Spell out an ordinal: 21 → "twenty-first"
+ */
+function ordinalText(num: number): string {
+  return cardinalText(num).replace(/([a-z]+)$/, (word) => {
+    if (IRREGULAR_ORDINALS[word]) return IRREGULAR_ORDINALS[word];
+    if (word.endsWith('y')) return `${word.slice(0, -1)}ieth`;
+    return `${word}th`;
+  });
+}
@@ -0,0 +1,320 @@
+/**
+ * Formula field (`=`) evaluation
+ *
+ * Evaluates Word's formula expressions: arithmetic (`+ - * / ^ %`),
+ * comparisons (`= <> < <= > >=`, yielding 1 or 0), bookmark names, table
+ * references (`ABOVE`, `LEFT`, `A1`, `A1:B3`) and Word's built-in functions.
+ * Errors carry the text Word shows in place of the result.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Lookups a formula needs from the document around the field
+ */
+export interface FormulaContext {
+  /** Numeric value of a bookmark; undefined when there is no such bookmark */
+  bookmark(name: string): number | undefined;
+  /**
+   * Numbers in a table reference relative to the field's cell (`ABOVE`,
+   * `LEFT`, `BELOW`, `RIGHT`, `A1`, `A1:B3`); undefined outside a table
+   */
+  cells(reference: string): number[] | undefined;
+}
+
+/**
+ * A formula that can't be evaluated; the message is Word's error text
+ */
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FormulaError';
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'name'; value: string }
+  | { kind: 'op'; value: string };
+
+const DIRECTIONS = ['ABOVE', 'BELOW', 'LEFT', 'RIGHT'];
+const CELL_REFERENCE = /^[A-Z]{1,2}\d+(:[A-Z]{1,2}\d+)?$/i;
+
+/**
+ * Functions over a list of values; IF, DEFINED, TRUE and FALSE are handled
+ * by the parser because their arguments aren't plain lists
+ */
+const FUNCTIONS: Record<string, (values: number[]) => number> = {
+  ABS: (v) => Math.abs(first(v)),
+  AND: (v) => (v.every((x) => x !== 0) ? 1 : 0),
+  AVERAGE: (v) => (v.length ? v.reduce((a, b) => a + b, 0) / v.length : 0),
+  COUNT: (v) => v.length,
+  INT: (v) => Math.trunc(first(v)),
+  MAX: (v) => (v.length ? Math.max(...v) : 0),
+  MIN: (v) => (v.length ? Math.min(...v) : 0),
+  MOD: (v) => {
+    if (v[1] === 0) throw new FormulaError('!Zero Divide');
+    return first(v) % v[1];
+  },
+  NOT: (v) => (first(v) === 0 ? 1 : 0),
+  OR: (v) => (v.some((x) => x !== 0) ? 1 : 0),
+  PRODUCT: (v) => v.reduce((a, b) => a * b, 1),
+  ROUND: (v) => {
+    const factor = Math.pow(10, v[1] ?? 0);
+    return Math.round(first(v) * factor) / factor;
+  },
+  SIGN: (v) => Math.sign(first(v)),
+  SUM: (v) => v.reduce((a, b) => a + b, 0),
+};
+
+function first(values: number[]): number {
+  return values[0] ?? 0;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Evaluate a formula expression (the text after `=`)
+ *
+ * @throws FormulaError with Word's error text when the formula is invalid
+ */
+export function evaluateFormula(expression: string, context: FormulaContext): number {
+  const parser = new FormulaParser(tokenize(expression), context);
+  return parser.parse();
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[\d.]/.test(char)) {
+      const match = expression.slice(i).match(/^(\d+(\.\d*)?|\.\d+)/);
+      if (!match) throw new FormulaError(`!Syntax Error, ${char}`);
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = expression
+        .slice(i)
+        .match(/^[A-Za-z_]\w*(:[A-Za-z]{1,2}\d+)?/) as RegExpMatchArray;
+      tokens.push({ kind: 'name', value: match[0] });
+      i += match[0].length;
+    } else {
+      const two = expression.slice(i, i + 2);
+      const op = ['<>', '<=', '>='].includes(two) ? two : char;
+      if (!'+-*/^%=<>(),'.includes(op[0])) throw new FormulaError(`!Syntax Error, ${char}`);
+      tokens.push({ kind: 'op', value: op });
+      i += op.length;
+    }
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Recursive-descent evaluator, lowest precedence first:
+ * comparison → additive → multiplicative → power → unary → percent → primary
+ */
+class FormulaParser {
+  private position = 0;
+
+  constructor(
+    private tokens: Token[],
+    private context: FormulaContext
+  ) {}
+
+  parse(): number {
+    if (this.tokens.length === 0) throw new FormulaError('!Unexpected End of Formula');
+    const value = this.comparison();
+    const extra = this.peek();
+    if (extra) throw new FormulaError(`!Syntax Error, ${String(extra.value)}`);
+    return value;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.position++];
+    if (!token) throw new FormulaError('!Unexpected End of Formula');
+    return token;
+  }
+
+  private acceptOp(...ops: string[]): string | undefined {
+    const token = this.peek();
+    if (token?.kind === 'op' && ops.includes(token.value)) {
+      this.position++;
+      return token.value;
+    }
+    return undefined;
+  }
+
+  private expectOp(op: string): void {
+    const token = this.next();
+    if (token.kind !== 'op' || token.value !== op) {
+      throw new FormulaError(`!Syntax Error, ${String(token.value)}`);
+    }
+  }
+
+  private comparison(): number {
+    const left = this.additive();
+    const op = this.acceptOp('=', '<>', '<', '<=', '>', '>=');
+    if (!op) return left;
+    const right = this.additive();
+    switch (op) {
+      case '=':
+        return left === right ? 1 : 0;
+      case '<>':
+        return left !== right ? 1 : 0;
+      case '<':
+        return left < right ? 1 : 0;
+      case '<=':
+        return left <= right ? 1 : 0;
+      case '>':
+        return left > right ? 1 : 0;
+      default:
+        return left >= right ? 1 : 0;
+    }
+  }
+
+  private additive(): number {
+    let value = this.multiplicative();
+    let op: string | undefined;
+    while ((op = this.acceptOp('+', '-'))) {
+      const right = this.multiplicative();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  }
+
+  private multiplicative(): number {
+    let value = this.power();
+    let op: string | undefined;
+    while ((op = this.acceptOp('*', '/'))) {
+      const right = this.power();
+      if (op === '/' && right === 0) throw new FormulaError('!Zero Divide');
+      value = op === '*' ? value * right : value / right;
+    }
+    return value;
+  }
+
+  private power(): number {
+    const base = this.unary();
+    if (!this.acceptOp('^')) return base;
+    return Math.pow(base, this.power());
+  }
+
+  private unary(): number {
+    if (this.acceptOp('-')) return -this.unary();
+    if (this.acceptOp('+')) return this.unary();
+    return this.percent();
+  }
+
+  private percent(): number {
+    const value = this.primary();
+    return this.acceptOp('%') ? value / 100 : value;
+  }
+
+  private primary(): number {
+    const token = this.next();
+
+    if (token.kind === 'number') return token.value;
+
+    if (token.kind === 'op') {
+      if (token.value !== '(') throw new FormulaError(`!Syntax Error, ${token.value}`);
+      const value = this.comparison();
+      this.expectOp(')');
+      return value;
+    }
+
+    const name = token.value.toUpperCase();
+    if (this.acceptOp('(')) return this.call(name);
+    if (name === 'TRUE') return 1;
+    if (name === 'FALSE') return 0;
+
+    const values = this.reference(token.value);
+    if (values) return first(values);
+    throw new FormulaError(`!Undefined Bookmark, ${token.value}`);
+  }
+
+  /**
+   * Resolve a name to table cells or a bookmark value
+   */
+  private reference(name: string): number[] | undefined {
+    if (DIRECTIONS.includes(name.toUpperCase()) || CELL_REFERENCE.test(name)) {
+      const cells = this.context.cells(name.toUpperCase());
+      if (cells) return cells;
+    }
+    const bookmark = this.context.bookmark(name);
+    return bookmark === undefined ? undefined : [bookmark];
+  }
+
+  private call(name: string): number {
+    if (name === 'IF') {
+      const [condition, whenTrue, whenFalse] = this.arguments().map(first);
+      return condition !== 0 ? whenTrue : whenFalse;
+    }
+    if (name === 'DEFINED') {
+      const token = this.next();
+      this.expectOp(')');
+      return token.kind === 'name' && this.reference(token.value) ? 1 : 0;
+    }
+    if (name === 'TRUE' || name === 'FALSE') {
+      this.expectOp(')');
+      return name === 'TRUE' ? 1 : 0;
+    }
+
+    const fn = FUNCTIONS[name];
+    if (!fn) throw new FormulaError(`!Syntax Error, ${name}`);
+    return fn(this.arguments().flat());
+  }
+
+  /**
+   * Parse a parenthesised argument list (the opening paren is consumed).
+   * Bare table references expand to all their numbers.
+   */
+  private arguments(): number[][] {
+    const args: number[][] = [];
+    if (this.acceptOp(')')) return args;
+
+    do {
+      const token = this.peek();
+      const following = this.tokens[this.position + 1];
+      const isBareReference =
+        token?.kind === 'name' &&
+        (following === undefined ||
+          (following.kind === 'op' && (following.value === ',' || following.value === ')')));
+      const cells =
+        isBareReference &&
+        (DIRECTIONS.includes(token.value.toUpperCase()) || CELL_REFERENCE.test(token.value))
+          ? this.context.cells(token.value.toUpperCase())
+          : undefined;
+
+      if (cells) {
+        this.position++;
+        args.push(cells);
+      } else {
+        args.push([this.comparison()]);
+      }
+    } while (this.acceptOp(','));
+
+    this.expectOp(')');
+    return args;
+  }
+}
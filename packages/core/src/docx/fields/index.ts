@@ -0,0 +1,131 @@
+/**
+ * Field updates
+ *
+ * Recomputes field results the way Word's "Update Field" does and writes them
+ * back into the field result runs:
+ * - REF / PAGEREF and bookmark-named fields from bookmarked text
+ * - SEQ numbering (with \r, \c, \h and heading-based \s resets)
+ * - STYLEREF, including in headers and footers
+ * - DATE, TIME, CREATEDATE, SAVEDATE with `\@` pictures
+ * - DOCPROPERTY and the AUTHOR / TITLE / ... property fields
+ * - IF and formula (`=`) fields
+ *
+ * Locked fields (fldLock) are left alone, as are fields that depend on
+ * pagination or external data (PAGE, NUMPAGES, TOC, MERGEFIELD, ...). PAGEREF
+ * needs a `resolvePage` callback from a layout to produce page numbers.
+ */
+
+import type { Document, Field, Run, RunContent } from '../../types/document';
+import { indexDocument, type FieldPart } from './documentIndex';
+import { FieldEvaluator, type FieldEvaluationOptions } from './evaluator';
+import { parseFieldCode } from './instruction';
+
+export type { FieldPart } from './documentIndex';
+export type { FieldEvaluationOptions } from './evaluator';
+export { formatDateTime, formatNumberPicture, applyGeneralFormat } from './format';
+export { evaluateFormula } from './formula';
+export {
+  parseTocInstruction,
+  buildTocInstruction,
+  DEFAULT_TOC_OPTIONS,
+  type TocFieldOptions,
+} from './toc';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options for updating fields
+ */
+export interface UpdateFieldsOptions extends FieldEvaluationOptions {
+  /** Parts whose fields get new results (default: all). Other parts still provide context. */
+  parts?: FieldPart[];
+}
+
+/**
+ * Outcome for one field, in document order (body, notes, headers, footers)
+ */
+export interface FieldUpdate {
+  field: Field;
+  part: FieldPart;
+  /** New result text; undefined when the field was left as is */
+  result?: string;
+}
+
+// ============================================================================
+// UPDATE
+// ============================================================================
+
+/**
+ * Update all fields in a document in place
+ *
+ * @param document - Document to update; field results are rewritten in place
+ * @param options - Evaluation options
+ * @returns One entry per field, in document order
+ */
+export function updateFields(document: Document, options: UpdateFieldsOptions = {}): FieldUpdate[] {
+  const index = indexDocument(document);
+  const evaluator = new FieldEvaluator(document, index, options);
+  const results = new Map<Field, string>();
+
+  // Position-dependent fields first so references see their new results
+  for (const pass of ['position', 'reference'] as const) {
+    for (const slot of index.fields) {
+      if (slot.field.fldLock) continue;
+      // Fields outside the requested parts still run so SEQ counters advance
+      const result = evaluator.evaluate(slot, pass);
+      if (result === undefined || (options.parts && !options.parts.includes(slot.entry.part))) {
+        continue;
+      }
+      results.set(slot.field, result);
+      setFieldResult(slot.field, result);
+    }
+  }
+
+  return index.fields.map(({ field, entry }) => {
+    const result = results.get(field);
+    return result === undefined ? { field, part: entry.part } : { field, part: entry.part, result };
+  });
+}
+
+/**
+ * Replace a field's result runs with new text. The result keeps the
+ * formatting of its first run, or of the field code with `\* CHARFORMAT`.
+ */
+export function setFieldResult(field: Field, text: string): void {
+  const current = field.type === 'simpleField' ? field.content : field.fieldResult;
+  const firstRun = current.find((item): item is Run => item.type === 'run');
+  const charFormat = parseFieldCode(field.instruction).switches.some(
+    (s) => s.name === '*' && s.value?.toUpperCase() === 'CHARFORMAT'
+  );
+  const formatting =
+    charFormat && field.type === 'complexField'
+      ? (field.fieldCode[0]?.formatting ?? firstRun?.formatting)
+      : firstRun?.formatting;
+
+  const run: Run = {
+    type: 'run',
+    ...(formatting ? { formatting } : {}),
+    content: textToRunContent(text),
+  };
+
+  if (field.type === 'simpleField') field.content = [run];
+  else field.fieldResult = [run];
+  if (field.dirty) delete field.dirty;
+}
+
+/**
+ * Run content for text, with tabs and line breaks as their own elements
+ */
+export function textToRunContent(text: string): RunContent[] {
+  const content: RunContent[] = [];
+  const parts = text.split(/(\t|\n)/);
+  for (const part of parts) {
+    if (part === '\t') content.push({ type: 'tab' });
+    else if (part === '\n') content.push({ type: 'break' });
+    else if (/^\s|\s$/.test(part)) content.push({ type: 'text', text: part, preserveSpace: true });
+    else if (part) content.push({ type: 'text', text: part });
+  }
+  return content.length > 0 ? content : [{ type: 'text', text: '' }];
+}
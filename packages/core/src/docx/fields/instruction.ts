@@ -0,0 +1,190 @@
+/**
+ * Field code tokenizer
+ *
+ * Splits a field instruction into its name, positional arguments and
+ * switches the way Word reads them: whitespace separates tokens, double
+ * quotes group text (with `\"` as an escaped quote), and a backslash starts a
+ * switch. Whether a switch consumes the following token depends on the field,
+ * e.g. `SEQ Figure \r 3` versus `REF Intro \h`.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One token of a field code
+ */
+export interface FieldToken {
+  text: string;
+  /** Token was written in double quotes */
+  quoted: boolean;
+}
+
+/**
+ * A switch with its argument, if it takes one
+ */
+export interface FieldCodeSwitch {
+  /** Switch character without the backslash, e.g. `*`, `@`, `r` */
+  name: string;
+  value?: string;
+}
+
+/**
+ * Parsed field code
+ */
+export interface FieldCode {
+  /** Upper-case field name; `=` for formula fields */
+  name: string;
+  /** Positional arguments in order */
+  args: FieldToken[];
+  switches: FieldCodeSwitch[];
+  /** Formula fields: the expression text before any switch */
+  expression?: string;
+}
+
+/**
+ * Switches that take an argument on every field type
+ */
+const GENERAL_ARGUMENT_SWITCHES = ['*', '@', '#'];
+
+/**
+ * Field-specific switches that take an argument
+ */
+const ARGUMENT_SWITCHES: Record<string, string[]> = {
+  SEQ: ['r', 's'],
+  REF: ['d'],
+  NOTEREF: ['d'],
+  TOC: ['a', 'b', 'c', 'd', 'f', 'l', 'n', 'o', 'p', 's', 't'],
+};
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+/**
+ * Split a field instruction into tokens. Switches come back as unquoted
+ * tokens starting with a backslash.
+ */
+export function tokenizeFieldCode(instruction: string): FieldToken[] {
+  const tokens: FieldToken[] = [];
+  let i = 0;
+
+  while (i < instruction.length) {
+    const char = instruction[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      let text = '';
+      i++;
+      while (i < instruction.length && instruction[i] !== '"') {
+        if (instruction[i] === '\\' && instruction[i + 1] === '"') {
+          text += '"';
+          i += 2;
+        } else {
+          text += instruction[i++];
+        }
+      }
+      i++; // closing quote
+      tokens.push({ text, quoted: true });
+      continue;
+    }
+
+    if (char === '\\' && i + 1 < instruction.length) {
+      tokens.push({ text: instruction.slice(i, i + 2), quoted: false });
+      i += 2;
+      continue;
+    }
+
+    let text = '';
+    while (i < instruction.length && !/\s/.test(instruction[i]) && instruction[i] !== '"') {
+      if (instruction[i] === '\\' && text) break;
+      text += instruction[i++];
+    }
+    tokens.push({ text, quoted: false });
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/**
+ * Parse a field instruction into name, arguments and switches
+ */
+export function parseFieldCode(instruction: string): FieldCode {
+  const trimmed = instruction.trim();
+
+  // Formula fields: everything up to the first switch is the expression
+  if (trimmed.startsWith('=')) {
+    const switchStart = trimmed.search(/\\[#*]/);
+    const expression = (switchStart === -1 ? trimmed.slice(1) : trimmed.slice(1, switchStart))
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+    const rest = switchStart === -1 ? '' : trimmed.slice(switchStart);
+    return {
+      name: '=',
+      args: [],
+      switches: parseSwitches(tokenizeFieldCode(rest), '='),
+      expression,
+    };
+  }
+
+  const tokens = tokenizeFieldCode(trimmed);
+  const name = tokens.length > 0 && !tokens[0].quoted ? tokens[0].text.toUpperCase() : '';
+  const rest = tokens.slice(name ? 1 : 0);
+
+  const args: FieldToken[] = [];
+  const switchTokens: FieldToken[] = [];
+  for (let i = 0; i < rest.length; i++) {
+    const token = rest[i];
+    if (isSwitch(token)) {
+      switchTokens.push(token);
+      if (takesArgument(token.text.slice(1), name) && i + 1 < rest.length) {
+        switchTokens.push(rest[++i]);
+      }
+    } else if (switchTokens.length === 0) {
+      args.push(token);
+    }
+  }
+
+  return { name, args, switches: parseSwitches(switchTokens, name) };
+}
+
+/**
+ * Find a switch by name (case-sensitive for letters, as Word treats them)
+ */
+export function findSwitch(code: FieldCode, name: string): FieldCodeSwitch | undefined {
+  return code.switches.find((s) => s.name === name);
+}
+
+function parseSwitches(tokens: FieldToken[], fieldName: string): FieldCodeSwitch[] {
+  const switches: FieldCodeSwitch[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isSwitch(tokens[i])) continue;
+    const name = tokens[i].text.slice(1);
+    const next = tokens[i + 1];
+    if (takesArgument(name, fieldName) && next && !isSwitch(next)) {
+      switches.push({ name, value: next.text });
+      i++;
+    } else {
+      switches.push({ name });
+    }
+  }
+  return switches;
+}
+
+function isSwitch(token: FieldToken): boolean {
+  return !token.quoted && token.text.length === 2 && token.text[0] === '\\';
+}
+
+function takesArgument(switchName: string, fieldName: string): boolean {
+  if (GENERAL_ARGUMENT_SWITCHES.includes(switchName)) return true;
+  return ARGUMENT_SWITCHES[fieldName]?.includes(switchName.toLowerCase()) ?? false;
+}
@@ -0,0 +1,76 @@
+/**
+ * TOC field instructions
+ *
+ * Reads and writes the switches of a table of contents field:
+ * - `\o "1-3"` - heading levels to include
+ * - `\h` - entries are hyperlinks to their headings
+ * - `\n` - omit page numbers
+ * - `\z` - hide tab leaders and page numbers in Web layout
+ * - `\u` - use paragraph outline levels
+ */
+
+import { findSwitch, parseFieldCode } from './instruction';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Options of a TOC field
+ */
+export interface TocFieldOptions {
+  /** First heading level included (1-9) */
+  fromLevel: number;
+  /** Last heading level included (1-9) */
+  toLevel: number;
+  /** Entries link to their headings */
+  hyperlinks: boolean;
+  /** Entries end with the heading's page number */
+  pageNumbers: boolean;
+}
+
+export const DEFAULT_TOC_OPTIONS: TocFieldOptions = {
+  fromLevel: 1,
+  toLevel: 3,
+  hyperlinks: true,
+  pageNumbers: true,
+};
+
+// ============================================================================
+// INSTRUCTIONS
+// ============================================================================
+
+/**
+ * Read the options of a TOC field instruction
+ */
+export function parseTocInstruction(instruction: string): TocFieldOptions {
+  const code = parseFieldCode(instruction);
+  const outline = findSwitch(code, 'o');
+  const range = outline?.value?.match(/^\s*(\d)\s*-\s*(\d)\s*$/);
+
+  return {
+    // A bare \o includes every level
+    fromLevel: range ? parseInt(range[1], 10) : 1,
+    toLevel: range ? parseInt(range[2], 10) : outline ? 9 : DEFAULT_TOC_OPTIONS.toLevel,
+    hyperlinks: !!findSwitch(code, 'h'),
+    pageNumbers: !findSwitch(code, 'n'),
+  };
+}
+
+/**
+ * Write a TOC field instruction, e.g. `TOC \o "1-3" \h \z \u`
+ */
+export function buildTocInstruction(options: Partial<TocFieldOptions> = {}): string {
+  const { fromLevel, toLevel, hyperlinks, pageNumbers } = { ...DEFAULT_TOC_OPTIONS, ...options };
+  const levels = `"${fromLevel}-${toLevel}"`;
+  return [
+    'TOC',
+    `\\o ${levels}`,
+    hyperlinks ? '\\h' : '',
+    pageNumbers ? '' : `\\n ${levels}`,
+    '\\z',
+    '\\u',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
@@ -0,0 +1,1102 @@
+/**
+ * Document Builder - Turn an HTML element tree into a Document
+ *
+ * Starts from createEmptyDocument (default styles and page setup) and maps
+ * markup onto the DOCX model the way Word's own HTML import does:
+ * - h1-h6 → Heading 1-6, blockquote → Quote, pre → Code (monospace)
+ * - ul/ol → real numbering definitions, one w:num per list so each restarts
+ * - tables → w:tbl with gridSpan/vMerge for colspan/rowspan
+ * - b/i/u/s/sup/sub/mark/code and common inline CSS → run formatting
+ * - a href → hyperlinks; links to #id become bookmark links
+ * - img → inline drawings (sources must already be data URLs)
+ */
+
+import type {
+  BlockContent,
+  BookmarkEnd,
+  BookmarkStart,
+  Document,
+  Hyperlink,
+  Image,
+  Paragraph,
+  ParagraphContent,
+  Run,
+  RunContent,
+  Table,
+  TableCell,
+  TableRow,
+} from '../../types/document';
+import type { BorderSpec } from '../../types/colors';
+import type { ParagraphFormatting, TableBorders, TextFormatting } from '../../types/formatting';
+import type {
+  AbstractNumbering,
+  ListLevel,
+  NumberFormat,
+  NumberingDefinitions,
+} from '../../types/lists';
+import type { Style } from '../../types/styles';
+import { createEmptyDocument, type CreateEmptyDocumentOptions } from '../../utils/createDocument';
+import { sanitizeHref } from '../../utils/safeUrl';
+import { pixelsToEmu, twipsToPixels } from '../../utils/units';
+import type { HtmlElement, HtmlNode } from './htmlParser';
+import { decodeDataUrl, readImageSize } from './importImages';
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const MONOSPACE_FONT = { ascii: 'Courier New', hAnsi: 'Courier New', cs: 'Courier New' };
+
+/**
+ * Styles the importers rely on beyond the createEmptyDocument defaults
+ */
+const IMPORT_STYLES: Style[] = [
+  {
+    styleId: 'Heading5',
+    type: 'paragraph',
+    name: 'Heading 5',
+    basedOn: 'Normal',
+    next: 'Normal',
+    qFormat: true,
+    uiPriority: 9,
+    rPr: { fontSize: 22, bold: true }, // 11pt
+    pPr: { spaceBefore: 240, spaceAfter: 80, lineSpacing: 240 },
+  },
+  {
+    styleId: 'Heading6',
+    type: 'paragraph',
+    name: 'Heading 6',
+    basedOn: 'Normal',
+    next: 'Normal',
+    qFormat: true,
+    uiPriority: 9,
+    rPr: { fontSize: 22, italic: true }, // 11pt
+    pPr: { spaceBefore: 240, spaceAfter: 80, lineSpacing: 240 },
+  },
+  {
+    styleId: 'Quote',
+    type: 'paragraph',
+    name: 'Quote',
+    basedOn: 'Normal',
+    next: 'Normal',
+    qFormat: true,
+    uiPriority: 29,
+    rPr: { italic: true, color: { rgb: '595959' } },
+    pPr: { indentLeft: 720, indentRight: 720, spaceBefore: 120, spaceAfter: 120 },
+  },
+  {
+    styleId: 'Code',
+    type: 'paragraph',
+    name: 'Code',
+    basedOn: 'Normal',
+    link: 'CodeChar',
+    qFormat: true,
+    uiPriority: 39,
+    rPr: { fontFamily: MONOSPACE_FONT, fontSize: 20 }, // 10pt
+    pPr: {
+      lineSpacing: 240,
+      spaceBefore: 0,
+      spaceAfter: 0,
+      shading: { fill: { rgb: 'F2F2F2' }, pattern: 'clear' },
+    },
+  },
+  {
+    styleId: 'CodeChar',
+    type: 'character',
+    name: 'Code Char',
+    link: 'Code',
+    uiPriority: 39,
+    rPr: { fontFamily: MONOSPACE_FONT, fontSize: 20 },
+  },
+  {
+    styleId: 'Hyperlink',
+    type: 'character',
+    name: 'Hyperlink',
+    uiPriority: 99,
+    unhideWhenUsed: true,
+    rPr: { color: { rgb: '0563C1' }, underline: { style: 'single' } },
+  },
+];
+
+const HEADING_TAGS: Record<string, number> = { h1: 1, h2: 2, h3: 3, h4: 4, h5: 5, h6: 6 };
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'center',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'legend',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'summary',
+  'table',
+  'ul',
+]);
+
+/** Elements whose content never belongs in the document */
+const IGNORED_TAGS = new Set([
+  'head',
+  'title',
+  'template',
+  'svg',
+  'math',
+  'iframe',
+  'object',
+  'embed',
+  'video',
+  'audio',
+  'canvas',
+  'select',
+  'textarea',
+  'map',
+  'colgroup',
+]);
+
+// ============================================================================
+// CSS AND ATTRIBUTE HELPERS
+// ============================================================================
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'FFFFFF',
+  red: 'FF0000',
+  green: '008000',
+  blue: '0000FF',
+  yellow: 'FFFF00',
+  orange: 'FFA500',
+  purple: '800080',
+  gray: '808080',
+  grey: '808080',
+  silver: 'C0C0C0',
+  maroon: '800000',
+  navy: '000080',
+  teal: '008080',
+};
+
+function parseInlineStyle(style: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!style) return result;
+  for (const declaration of style.split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    const property = declaration.slice(0, colon).trim().toLowerCase();
+    const value = declaration
+      .slice(colon + 1)
+      .replace(/!important/i, '')
+      .trim();
+    if (property && value) result[property] = value;
+  }
+  return result;
+}
+
+/**
+ * CSS color → RGB hex without '#', or null for transparent/unknown values
+ */
+function parseColor(value: string): string | null {
+  const color = value.trim().toLowerCase();
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(color);
+  if (hex) {
+    const digits = hex[1].length === 3 ? [...hex[1]].map((d) => d + d).join('') : hex[1];
+    return digits.toUpperCase();
+  }
+  const rgb = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+%?))?\s*\)$/.exec(color);
+  if (rgb) {
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) return null;
+    return [rgb[1], rgb[2], rgb[3]]
+      .map((channel) => Math.min(255, Number(channel)).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+  }
+  return NAMED_COLORS[color] ?? null;
+}
+
+/**
+ * CSS font-size → half-points, for absolute units only
+ */
+function parseFontSize(value: string): number | null {
+  const match = /^([\d.]+)(pt|px)$/.exec(value.trim().toLowerCase());
+  if (!match) return null;
+  const points = match[2] === 'pt' ? parseFloat(match[1]) : parseFloat(match[1]) * 0.75;
+  return points > 0 ? Math.round(points * 2) : null;
+}
+
+function parseFontFamily(value: string): string | null {
+  const first = value
+    .split(',')[0]
+    ?.trim()
+    .replace(/^["']|["']$/g, '');
+  if (!first) return null;
+  if (first === 'monospace') return 'Courier New';
+  if (first === 'serif') return 'Times New Roman';
+  if (first === 'sans-serif') return 'Arial';
+  return first;
+}
+
+function parseAlignment(value: string | undefined): ParagraphFormatting['alignment'] | undefined {
+  switch (value?.trim().toLowerCase()) {
+    case 'left':
+    case 'start':
+      return 'left';
+    case 'center':
+      return 'center';
+    case 'right':
+    case 'end':
+      return 'right';
+    case 'justify':
+      return 'both';
+    default:
+      return undefined;
+  }
+}
+
+function parseSpan(value: string | undefined): number {
+  const span = parseInt(value ?? '', 10);
+  return Number.isFinite(span) && span > 1 ? Math.min(span, 1000) : 1;
+}
+
+/**
+ * Word bookmark names: letters, digits and underscores, at most 40 characters.
+ * Links and targets go through the same mapping so they still match.
+ */
+export function toBookmarkName(id: string): string {
+  const name = id.replace(/[^A-Za-z0-9_]/g, '_');
+  return (/^[A-Za-z_]/.test(name) ? name : `_${name}`).slice(0, 40);
+}
+
+/**
+ * Run formatting contributed by an element's tag and inline style
+ */
+function inlineFormatting(element: HtmlElement, base: TextFormatting): TextFormatting {
+  const next: TextFormatting = { ...base };
+  switch (element.tag) {
+    case 'b':
+    case 'strong':
+      next.bold = true;
+      break;
+    case 'i':
+    case 'em':
+    case 'cite':
+    case 'dfn':
+    case 'var':
+      next.italic = true;
+      break;
+    case 'u':
+    case 'ins':
+      next.underline = { style: 'single' };
+      break;
+    case 's':
+    case 'strike':
+    case 'del':
+      next.strike = true;
+      break;
+    case 'sup':
+      next.vertAlign = 'superscript';
+      break;
+    case 'sub':
+      next.vertAlign = 'subscript';
+      break;
+    case 'mark':
+      next.highlight = 'yellow';
+      break;
+    case 'th':
+      next.bold = true;
+      break;
+    case 'font': {
+      const color = element.attrs.color ? parseColor(element.attrs.color) : null;
+      if (color) next.color = { rgb: color };
+      const face = element.attrs.face ? parseFontFamily(element.attrs.face) : null;
+      if (face) next.fontFamily = { ascii: face, hAnsi: face };
+      break;
+    }
+  }
+
+  const css = parseInlineStyle(element.attrs.style);
+  const weight = css['font-weight'];
+  if (weight) {
+    const numeric = parseInt(weight, 10);
+    const bold = weight === 'bold' || weight === 'bolder' || numeric >= 600;
+    if (bold) next.bold = true;
+    else delete next.bold;
+  }
+  const fontStyle = css['font-style'];
+  if (fontStyle) {
+    if (/italic|oblique/.test(fontStyle)) next.italic = true;
+    else delete next.italic;
+  }
+  const decoration = css['text-decoration-line'] ?? css['text-decoration'];
+  if (decoration) {
+    if (decoration.includes('underline')) next.underline = { style: 'single' };
+    if (decoration.includes('line-through')) next.strike = true;
+    if (decoration.includes('none')) {
+      delete next.underline;
+      delete next.strike;
+    }
+  }
+  const verticalAlign = css['vertical-align'];
+  if (verticalAlign === 'super') next.vertAlign = 'superscript';
+  if (verticalAlign === 'sub') next.vertAlign = 'subscript';
+  const color = css.color ? parseColor(css.color) : null;
+  if (color) next.color = { rgb: color };
+  const background = css['background-color'] ?? css.background;
+  const fill = background ? parseColor(background) : null;
+  if (fill && fill !== 'FFFFFF') next.shading = { fill: { rgb: fill }, pattern: 'clear' };
+  const size = css['font-size'] ? parseFontSize(css['font-size']) : null;
+  if (size) next.fontSize = size;
+  const family = css['font-family'] ? parseFontFamily(css['font-family']) : null;
+  if (family) next.fontFamily = { ascii: family, hAnsi: family };
+
+  return next;
+}
+
+function isEmptyFormatting(formatting: TextFormatting): boolean {
+  return Object.keys(formatting).length === 0;
+}
+
+function sameFormatting(a: TextFormatting | undefined, b: TextFormatting | undefined): boolean {
+  return JSON.stringify(a ?? {}) === JSON.stringify(b ?? {});
+}
+
+// ============================================================================
+// NUMBERING
+// ============================================================================
+
+const BULLETS = ['•', '◦', '▪'];
+const ORDERED_FORMATS: NumberFormat[] = ['decimal', 'lowerLetter', 'lowerRoman'];
+const LIST_TYPE_FORMATS: Record<string, NumberFormat> = {
+  '1': 'decimal',
+  a: 'lowerLetter',
+  A: 'upperLetter',
+  i: 'lowerRoman',
+  I: 'upperRoman',
+};
+
+function listLevel(ilvl: number, numFmt: NumberFormat, lvlText: string): ListLevel {
+  return {
+    ilvl,
+    start: 1,
+    numFmt,
+    lvlText,
+    lvlJc: 'left',
+    pPr: { indentLeft: 720 * (ilvl + 1), indentFirstLine: -360, hangingIndent: true },
+  };
+}
+
+/**
+ * Numbering definitions built up while importing. Lists of the same kind
+ * share an abstract definition; every list gets its own instance so its
+ * numbering restarts.
+ */
+class ListNumbering {
+  readonly definitions: NumberingDefinitions = { abstractNums: [], nums: [] };
+  private abstractIds = new Map<string, number>();
+
+  createList(ordered: boolean, level: number, format?: NumberFormat, start = 1): number {
+    const key = ordered ? `ordered:${format ?? 'default'}` : 'bullet';
+    let abstractNumId = this.abstractIds.get(key);
+    if (abstractNumId === undefined) {
+      abstractNumId = this.definitions.abstractNums.length;
+      this.abstractIds.set(key, abstractNumId);
+      const abstractNum: AbstractNumbering = {
+        abstractNumId,
+        multiLevelType: 'hybridMultilevel',
+        levels: Array.from({ length: 9 }, (_, ilvl) =>
+          ordered
+            ? listLevel(ilvl, format ?? ORDERED_FORMATS[ilvl % 3], `%${ilvl + 1}.`)
+            : listLevel(ilvl, 'bullet', BULLETS[ilvl % 3])
+        ),
+      };
+      this.definitions.abstractNums.push(abstractNum);
+    }
+
+    const numId = this.definitions.nums.length + 1;
+    this.definitions.nums.push({
+      numId,
+      abstractNumId,
+      levelOverrides: ordered ? [{ ilvl: level, startOverride: start }] : undefined,
+    });
+    return numId;
+  }
+}
+
+// ============================================================================
+// BUILDER
+// ============================================================================
+
+/** Where paragraphs and tables are appended, and the paragraph being filled */
+interface Container {
+  blocks: BlockContent[];
+  paragraph: Paragraph | null;
+}
+
+/** Open list item: its first paragraph carries the number */
+interface ListItemState {
+  numId: number;
+  level: number;
+  numbered: boolean;
+}
+
+interface BuildContext {
+  container: Container;
+  /** Formatting for paragraphs started in this context */
+  paragraph: ParagraphFormatting;
+  run: TextFormatting;
+  link: { href: string; hyperlink: Hyperlink | null; paragraph: Paragraph | null } | null;
+  listItem: ListItemState | null;
+  listDepth: number;
+  quoteDepth: number;
+  preformatted: boolean;
+}
+
+export type BuildDocumentOptions = Omit<CreateEmptyDocumentOptions, 'initialText'>;
+
+class DocumentBuilder {
+  private readonly document: Document;
+  private readonly numbering = new ListNumbering();
+  private readonly linkTargets = new Set<string>();
+  private readonly contentWidth: number;
+  private bookmarkId = 0;
+
+  constructor(options: BuildDocumentOptions) {
+    this.document = createEmptyDocument(options);
+    const styles = this.document.package.styles!;
+    for (const style of IMPORT_STYLES) {
+      if (!styles.styles.some((s) => s.styleId === style.styleId)) styles.styles.push(style);
+    }
+    const section = this.document.package.document.finalSectionProperties!;
+    this.contentWidth =
+      (section.pageWidth ?? 12240) - (section.marginLeft ?? 1440) - (section.marginRight ?? 1440);
+  }
+
+  build(nodes: HtmlNode[]): Document {
+    this.collectLinkTargets(nodes);
+
+    const body = this.document.package.document;
+    const container: Container = { blocks: [], paragraph: null };
+    this.walk(nodes, {
+      container,
+      paragraph: {},
+      run: {},
+      link: null,
+      listItem: null,
+      listDepth: -1,
+      quoteDepth: 0,
+      preformatted: false,
+    });
+    this.closeParagraph(container);
+
+    body.content =
+      container.blocks.length > 0 ? container.blocks : [{ type: 'paragraph', content: [] }];
+    if (this.numbering.definitions.nums.length > 0) {
+      this.document.package.numbering = this.numbering.definitions;
+    }
+    return this.document;
+  }
+
+  /** Bookmarks are only created for ids that something links to */
+  private collectLinkTargets(nodes: HtmlNode[]): void {
+    for (const node of nodes) {
+      if (node.type !== 'element') continue;
+      const href = node.attrs.href;
+      if (node.tag === 'a' && href?.startsWith('#') && href.length > 1) {
+        this.linkTargets.add(toBookmarkName(decodeURIComponent(href.slice(1))));
+      }
+      this.collectLinkTargets(node.children);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Tree walking
+  // --------------------------------------------------------------------------
+
+  private walk(nodes: HtmlNode[], ctx: BuildContext): void {
+    for (const node of nodes) {
+      if (node.type === 'text') this.text(node.text, ctx);
+      else this.element(node, ctx);
+    }
+  }
+
+  private element(element: HtmlElement, ctx: BuildContext): void {
+    const { tag } = element;
+    if (IGNORED_TAGS.has(tag)) return;
+
+    const anchor = element.attrs.id ?? (tag === 'a' ? element.attrs.name : undefined);
+    const bookmark = anchor ? this.linkTargets.has(toBookmarkName(anchor)) : false;
+
+    if (BLOCK_TAGS.has(tag)) {
+      this.closeParagraph(ctx.container);
+      const blockCtx = this.blockContext(element, ctx);
+      if (bookmark) this.startBookmark(anchor!, blockCtx);
+      this.block(element, blockCtx);
+      if (bookmark) this.endBookmark(ctx.container);
+      this.closeParagraph(ctx.container);
+      return;
+    }
+
+    if (bookmark) this.startBookmark(anchor!, ctx);
+    this.inline(element, ctx);
+    if (bookmark) this.endBookmark(ctx.container);
+  }
+
+  /**
+   * Paragraph and run formatting for a block element
+   */
+  private blockContext(element: HtmlElement, ctx: BuildContext): BuildContext {
+    const css = parseInlineStyle(element.attrs.style);
+    const alignment = parseAlignment(css['text-align'] ?? element.attrs.align);
+    const paragraph: ParagraphFormatting = { ...ctx.paragraph };
+    if (alignment) paragraph.alignment = alignment;
+    if (element.tag === 'center') paragraph.alignment = 'center';
+    return { ...ctx, paragraph, run: inlineFormatting(element, ctx.run) };
+  }
+
+  private block(element: HtmlElement, ctx: BuildContext): void {
+    const { tag } = element;
+
+    const headingLevel = HEADING_TAGS[tag];
+    if (headingLevel) {
+      this.walk(element.children, {
+        ...ctx,
+        paragraph: { ...ctx.paragraph, styleId: `Heading${headingLevel}` },
+        listItem: null,
+      });
+      return;
+    }
+
+    switch (tag) {
+      case 'ul':
+      case 'ol':
+        this.list(element, ctx);
+        return;
+      case 'li':
+        // A list item outside any list is treated as a bullet list of one
+        this.list({ ...element, tag: 'ul', children: [element] }, ctx);
+        return;
+      case 'table':
+        this.table(element, ctx);
+        return;
+      case 'pre':
+        this.walk(element.children, {
+          ...ctx,
+          paragraph: { ...ctx.paragraph, styleId: 'Code' },
+          listItem: null,
+          preformatted: true,
+        });
+        return;
+      case 'blockquote': {
+        const quoteDepth = ctx.quoteDepth + 1;
+        const paragraph: ParagraphFormatting = { ...ctx.paragraph, styleId: 'Quote' };
+        if (quoteDepth > 1) paragraph.indentLeft = 720 * quoteDepth;
+        this.walk(element.children, { ...ctx, paragraph, quoteDepth, listItem: null });
+        return;
+      }
+      case 'hr':
+        ctx.container.blocks.push({
+          type: 'paragraph',
+          formatting: {
+            borders: { bottom: { style: 'single', size: 6, space: 1, color: { auto: true } } },
+          },
+          content: [],
+        });
+        return;
+      case 'dt':
+        this.walk(element.children, { ...ctx, run: { ...ctx.run, bold: true } });
+        return;
+      case 'dd':
+        this.walk(element.children, {
+          ...ctx,
+          paragraph: { ...ctx.paragraph, indentLeft: (ctx.paragraph.indentLeft ?? 0) + 720 },
+        });
+        return;
+      default:
+        this.walk(element.children, ctx);
+    }
+  }
+
+  private inline(element: HtmlElement, ctx: BuildContext): void {
+    switch (element.tag) {
+      case 'br':
+        if (ctx.preformatted) this.closeParagraph(ctx.container);
+        else this.append({ type: 'break' }, ctx);
+        return;
+      case 'img':
+        this.image(element, ctx);
+        return;
+      case 'input':
+        if (element.attrs.type === 'checkbox') {
+          this.append({ type: 'text', text: 'checked' in element.attrs ? '☒ ' : '☐ ' }, ctx);
+        }
+        return;
+      case 'a': {
+        const href = sanitizeHref(element.attrs.href);
+        if (href) {
+          this.walk(element.children, {
+            ...ctx,
+            run: { ...inlineFormatting(element, ctx.run), styleId: 'Hyperlink' },
+            link: { href, hyperlink: null, paragraph: null },
+          });
+          return;
+        }
+        break;
+      }
+      case 'code':
+      case 'kbd':
+      case 'samp':
+      case 'tt':
+        if (!ctx.preformatted) {
+          this.walk(element.children, {
+            ...ctx,
+            run: { ...inlineFormatting(element, ctx.run), styleId: 'CodeChar' },
+          });
+          return;
+        }
+        break;
+    }
+    this.walk(element.children, { ...ctx, run: inlineFormatting(element, ctx.run) });
+  }
+
+  // --------------------------------------------------------------------------
+  // Text and runs
+  // --------------------------------------------------------------------------
+
+  private text(raw: string, ctx: BuildContext): void {
+    if (ctx.preformatted) {
+      this.preformattedText(raw, ctx);
+      return;
+    }
+
+    let text = raw.replace(/[ \t\n\r\f]+/g, ' ');
+    const paragraph = ctx.container.paragraph;
+    // Drop spaces at the start of a paragraph or after a space or break
+    if (text.startsWith(' ') && (!paragraph || this.endsWithSpace(paragraph))) {
+      text = text.slice(1);
+    }
+    if (!text) return;
+    this.append({ type: 'text', text }, ctx);
+  }
+
+  private preformattedText(raw: string, ctx: BuildContext): void {
+    // Like browsers, ignore one newline right after <pre> and before </pre>
+    let text = raw.replace(/\r\n?/g, '\n');
+    if (!ctx.container.paragraph && text.startsWith('\n')) text = text.slice(1);
+    if (text.endsWith('\n')) text = text.slice(0, -1);
+
+    text.split('\n').forEach((line, index) => {
+      if (index > 0) {
+        if (!ctx.container.paragraph) this.openParagraph(ctx);
+        this.closeParagraph(ctx.container);
+      }
+      line.split('\t').forEach((segment, tabIndex) => {
+        if (tabIndex > 0) this.append({ type: 'tab' }, ctx);
+        if (segment) this.append({ type: 'text', text: segment }, ctx);
+      });
+    });
+  }
+
+  private endsWithSpace(paragraph: Paragraph): boolean {
+    const last = this.lastRun(paragraph.content);
+    if (!last) return true;
+    const content = last.content[last.content.length - 1];
+    if (!content) return true;
+    if (content.type === 'text') return content.text.endsWith(' ');
+    return content.type === 'break';
+  }
+
+  private lastRun(content: ParagraphContent[]): Run | null {
+    for (let i = content.length - 1; i >= 0; i--) {
+      const item = content[i];
+      if (item.type === 'run') return item;
+      if (item.type === 'hyperlink') {
+        const runs = item.children.filter((child): child is Run => child.type === 'run');
+        if (runs.length > 0) return runs[runs.length - 1];
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Append run content, merging into the previous run when formatting matches
+   */
+  private append(content: RunContent, ctx: BuildContext, allowLink = true): void {
+    const paragraph = ctx.container.paragraph ?? this.openParagraph(ctx);
+    const formatting = isEmptyFormatting(ctx.run) ? undefined : ctx.run;
+
+    let target: (Run | BookmarkStart | BookmarkEnd)[] | ParagraphContent[] = paragraph.content;
+    if (ctx.link && allowLink) {
+      const link = ctx.link;
+      if (!link.hyperlink || link.paragraph !== paragraph) {
+        const href = link.href;
+        link.hyperlink = href.startsWith('#')
+          ? {
+              type: 'hyperlink',
+              anchor: toBookmarkName(decodeURIComponent(href.slice(1))),
+              href: `#${toBookmarkName(decodeURIComponent(href.slice(1)))}`,
+              children: [],
+            }
+          : { type: 'hyperlink', href, children: [] };
+        link.paragraph = paragraph;
+        paragraph.content.push(link.hyperlink);
+      }
+      target = link.hyperlink.children;
+    }
+
+    const last = target[target.length - 1];
+    if (last?.type === 'run' && sameFormatting(last.formatting, formatting)) {
+      const previous = last.content[last.content.length - 1];
+      if (content.type === 'text' && previous?.type === 'text') previous.text += content.text;
+      else last.content.push(content);
+      return;
+    }
+    const run: Run = { type: 'run', content: [content] };
+    if (formatting) run.formatting = { ...formatting };
+    (target as Run[]).push(run);
+  }
+
+  private image(element: HtmlElement, ctx: BuildContext): void {
+    const src = element.attrs.src ?? '';
+    const decoded = decodeDataUrl(src);
+    const natural = decoded ? readImageSize(decoded.data) : null;
+    if (!decoded || !natural) return;
+
+    // Explicit size from attributes or CSS, keeping the aspect ratio when only one is set
+    const css = parseInlineStyle(element.attrs.style);
+    const pixels = (value: string | undefined) => {
+      const match = /^([\d.]+)(px)?$/.exec(value?.trim() ?? '');
+      return match ? parseFloat(match[1]) : undefined;
+    };
+    let width = pixels(css.width) ?? pixels(element.attrs.width);
+    let height = pixels(css.height) ?? pixels(element.attrs.height);
+    if (width && !height) height = (width * natural.height) / natural.width;
+    if (height && !width) width = (height * natural.width) / natural.height;
+    width = width || natural.width || 1;
+    height = height || natural.height || 1;
+
+    const maxWidth = twipsToPixels(this.contentWidth);
+    if (width > maxWidth) {
+      height = (height * maxWidth) / width;
+      width = maxWidth;
+    }
+
+    const image: Image = {
+      type: 'image',
+      rId: '',
+      src,
+      mimeType: decoded.mimeType,
+      alt: element.attrs.alt || undefined,
+      title: element.attrs.title || undefined,
+      size: { width: pixelsToEmu(width), height: pixelsToEmu(height) },
+      wrap: { type: 'inline' },
+    };
+    // Drawings go in plain runs; repackDocx only embeds images found there
+    this.append({ type: 'drawing', image }, ctx, false);
+  }
+
+  // --------------------------------------------------------------------------
+  // Paragraphs and bookmarks
+  // --------------------------------------------------------------------------
+
+  private openParagraph(ctx: BuildContext): Paragraph {
+    const formatting: ParagraphFormatting = { ...ctx.paragraph };
+    const item = ctx.listItem;
+    if (item) {
+      if (!item.numbered) {
+        formatting.numPr = { numId: item.numId, ilvl: item.level };
+        item.numbered = true;
+      } else {
+        // Later paragraphs of an item line up with its text
+        formatting.indentLeft = 720 * (item.level + 1);
+      }
+    }
+    const paragraph: Paragraph = { type: 'paragraph', content: [] };
+    if (Object.keys(formatting).length > 0) paragraph.formatting = formatting;
+    ctx.container.paragraph = paragraph;
+    ctx.container.blocks.push(paragraph);
+    return paragraph;
+  }
+
+  private closeParagraph(container: Container): void {
+    const paragraph = container.paragraph;
+    if (!paragraph) return;
+    container.paragraph = null;
+
+    // Trim trailing whitespace from the last text run
+    const run = this.lastRun(paragraph.content);
+    const last = run?.content[run.content.length - 1];
+    if (last?.type === 'text' && !paragraph.formatting?.styleId?.startsWith('Code')) {
+      last.text = last.text.replace(/ +$/, '');
+      if (!last.text) run!.content.pop();
+    }
+  }
+
+  private startBookmark(anchor: string, ctx: BuildContext): void {
+    const paragraph = ctx.container.paragraph ?? this.openParagraph(ctx);
+    paragraph.content.push({
+      type: 'bookmarkStart',
+      id: this.bookmarkId,
+      name: toBookmarkName(anchor),
+    });
+    this.bookmarkId++;
+  }
+
+  private endBookmark(container: Container): void {
+    const id = this.bookmarkId - 1;
+    let paragraph = container.paragraph;
+    if (!paragraph) {
+      // The block already closed: end the bookmark in the last paragraph written
+      for (let i = container.blocks.length - 1; i >= 0 && !paragraph; i--) {
+        const block = container.blocks[i];
+        if (block.type === 'paragraph') paragraph = block;
+      }
+    }
+    paragraph?.content.push({ type: 'bookmarkEnd', id });
+  }
+
+  // --------------------------------------------------------------------------
+  // Lists
+  // --------------------------------------------------------------------------
+
+  private list(element: HtmlElement, ctx: BuildContext): void {
+    const ordered = element.tag === 'ol';
+    const level = Math.min(ctx.listDepth + 1, 8);
+    const start = parseInt(element.attrs.start ?? '', 10);
+    const numId = this.numbering.createList(
+      ordered,
+      level,
+      LIST_TYPE_FORMATS[element.attrs.type ?? ''],
+      Number.isFinite(start) ? start : 1
+    );
+
+    const itemContext = (): BuildContext => {
+      const paragraph: ParagraphFormatting = { ...ctx.paragraph };
+      delete paragraph.styleId;
+      if (ctx.quoteDepth > 0) paragraph.styleId = 'Quote';
+      return {
+        ...ctx,
+        paragraph,
+        listItem: { numId, level, numbered: false },
+        listDepth: level,
+      };
+    };
+
+    // Stray content between items becomes its own item
+    let loose: HtmlNode[] = [];
+    const flushLoose = () => {
+      if (loose.some((node) => node.type === 'element' || node.text.trim())) {
+        this.listItem(loose, itemContext());
+      }
+      loose = [];
+    };
+    for (const child of element.children) {
+      if (child.type === 'element' && child.tag === 'li') {
+        flushLoose();
+        const liCtx = this.blockContext(child, itemContext());
+        const anchor = child.attrs.id;
+        if (anchor && this.linkTargets.has(toBookmarkName(anchor))) {
+          this.startBookmark(anchor, liCtx);
+          this.listItem(child.children, liCtx);
+          this.endBookmark(liCtx.container);
+        } else {
+          this.listItem(child.children, liCtx);
+        }
+      } else {
+        loose.push(child);
+      }
+    }
+    flushLoose();
+  }
+
+  private listItem(children: HtmlNode[], ctx: BuildContext): void {
+    this.walk(children, ctx);
+    // An empty item still gets its numbered paragraph
+    if (!ctx.listItem!.numbered) this.openParagraph(ctx);
+    this.closeParagraph(ctx.container);
+  }
+
+  // --------------------------------------------------------------------------
+  // Tables
+  // --------------------------------------------------------------------------
+
+  private table(element: HtmlElement, ctx: BuildContext): void {
+    const rowElements: Array<{ row: HtmlElement; header: boolean }> = [];
+    const collectRows = (nodes: HtmlNode[], header: boolean) => {
+      for (const node of nodes) {
+        if (node.type !== 'element') continue;
+        if (node.tag === 'tr') rowElements.push({ row: node, header });
+        else if (node.tag === 'thead') collectRows(node.children, true);
+        else if (node.tag === 'tbody' || node.tag === 'tfoot') collectRows(node.children, false);
+        else if (node.tag === 'caption') this.walk(node.children, { ...ctx, listItem: null });
+      }
+    };
+    collectRows(element.children, false);
+    this.closeParagraph(ctx.container);
+    if (rowElements.length === 0) return;
+
+    // Lay out cells on a grid, adding vMerge continuation cells under row spans
+    const spans = new Map<number, { remaining: number; colSpan: number }>();
+    const rows: TableRow[] = [];
+    let leadingHeader = true;
+    for (const { row, header } of rowElements) {
+      const cells: TableCell[] = [];
+      let column = 0;
+      const fillSpans = () => {
+        let span = spans.get(column);
+        while (span) {
+          cells.push({
+            type: 'tableCell',
+            formatting: {
+              vMerge: 'continue',
+              gridSpan: span.colSpan > 1 ? span.colSpan : undefined,
+            },
+            content: [{ type: 'paragraph', content: [] }],
+          });
+          if (--span.remaining === 0) spans.delete(column);
+          column += span.colSpan;
+          span = spans.get(column);
+        }
+      };
+
+      const cellElements = row.children.filter(
+        (child): child is HtmlElement =>
+          child.type === 'element' && (child.tag === 'td' || child.tag === 'th')
+      );
+      for (const cellElement of cellElements) {
+        fillSpans();
+        const colSpan = parseSpan(cellElement.attrs.colspan);
+        const rowSpan = parseSpan(cellElement.attrs.rowspan);
+        const cell = this.tableCell(cellElement, ctx);
+        if (colSpan > 1) cell.formatting = { ...cell.formatting, gridSpan: colSpan };
+        if (rowSpan > 1) {
+          cell.formatting = { ...cell.formatting, vMerge: 'restart' };
+          spans.set(column, { remaining: rowSpan - 1, colSpan });
+        }
+        cells.push(cell);
+        column += colSpan;
+      }
+      fillSpans();
+
+      const isHeader: boolean =
+        leadingHeader &&
+        (header || (cellElements.length > 0 && cellElements.every((cell) => cell.tag === 'th')));
+      leadingHeader = isHeader;
+      const tableRow: TableRow = { type: 'tableRow', cells };
+      if (isHeader) tableRow.formatting = { header: true };
+      rows.push(tableRow);
+    }
+
+    // Pad short rows so every row covers the full grid
+    const columnCount = Math.max(
+      1,
+      ...rows.map((row) =>
+        row.cells.reduce((sum, cell) => sum + (cell.formatting?.gridSpan ?? 1), 0)
+      )
+    );
+    for (const row of rows) {
+      let covered = row.cells.reduce((sum, cell) => sum + (cell.formatting?.gridSpan ?? 1), 0);
+      while (covered < columnCount) {
+        row.cells.push({ type: 'tableCell', content: [{ type: 'paragraph', content: [] }] });
+        covered++;
+      }
+    }
+
+    const availableWidth = this.contentWidth - 720 * Math.max(0, ctx.listDepth + 1);
+    const columnWidth = Math.floor(availableWidth / columnCount);
+    for (const row of rows) {
+      for (const cell of row.cells) {
+        const span = cell.formatting?.gridSpan ?? 1;
+        cell.formatting = { ...cell.formatting, width: { value: columnWidth * span, type: 'dxa' } };
+      }
+    }
+
+    const border: BorderSpec = { style: 'single', size: 4, space: 0, color: { auto: true } };
+    const borders: TableBorders = {
+      top: border,
+      left: border,
+      bottom: border,
+      right: border,
+      insideH: border,
+      insideV: border,
+    };
+    const table: Table = {
+      type: 'table',
+      formatting: {
+        width: { value: columnWidth * columnCount, type: 'dxa' },
+        borders,
+        layout: 'fixed',
+      },
+      columnWidths: Array.from({ length: columnCount }, () => columnWidth),
+      rows,
+    };
+    ctx.container.blocks.push(table);
+  }
+
+  private tableCell(element: HtmlElement, ctx: BuildContext): TableCell {
+    const container: Container = { blocks: [], paragraph: null };
+    const cellCtx = this.blockContext(element, {
+      ...ctx,
+      container,
+      paragraph: {},
+      link: null,
+      listItem: null,
+      listDepth: -1,
+      quoteDepth: 0,
+      preformatted: false,
+    });
+    this.walk(element.children, cellCtx);
+    this.closeParagraph(container);
+
+    const cell: TableCell = {
+      type: 'tableCell',
+      content: (container.blocks as (Paragraph | Table)[]).filter(
+        (block) => block.type === 'paragraph' || block.type === 'table'
+      ),
+    };
+    // Word requires a paragraph at the end of every cell
+    if (cell.content[cell.content.length - 1]?.type !== 'paragraph') {
+      cell.content.push({ type: 'paragraph', content: [] });
+    }
+
+    const css = parseInlineStyle(element.attrs.style);
+    const valign = (css['vertical-align'] ?? element.attrs.valign)?.toLowerCase();
+    if (valign === 'middle' || valign === 'center') cell.formatting = { verticalAlign: 'center' };
+    if (valign === 'bottom') cell.formatting = { verticalAlign: 'bottom' };
+    const fill = css['background-color'] ? parseColor(css['background-color']) : null;
+    if (fill)
+      cell.formatting = { ...cell.formatting, shading: { fill: { rgb: fill }, pattern: 'clear' } };
+    return cell;
+  }
+}
+
+/**
+ * Build a Document from parsed HTML nodes
+ *
+ * Images must already be data URLs (see inlineImages); others are skipped.
+ */
+export function buildDocumentFromHtml(
+  nodes: HtmlNode[],
+  options: BuildDocumentOptions = {}
+): Document {
+  return new DocumentBuilder(options).build(nodes);
+}
@@ -0,0 +1,358 @@
+/**
+ * HTML Parser - Forgiving HTML tokenizer for the importers
+ *
+ * Builds a small element tree from arbitrary HTML without needing a DOM, so
+ * import works the same in the browser and in Node. It follows the parts of
+ * the HTML parsing rules that matter for document content:
+ * - void elements (br, img, hr, ...) never take children
+ * - p, li, td/th, tr, dt/dd and option close implicitly
+ * - stray end tags are ignored, and an end tag closes any open descendants
+ * - script, style and other raw-text elements are skipped or kept as text
+ * - named and numeric character references are decoded
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HtmlElement {
+  type: 'element';
+  /** Lowercase tag name */
+  tag: string;
+  /** Attributes with lowercase names and decoded values */
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+export type HtmlNode = HtmlElement | HtmlText;
+
+// ============================================================================
+// ELEMENT CATEGORIES
+// ============================================================================
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/** Elements whose content is not markup. Skipped ones are dropped entirely. */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style', 'textarea', 'title', 'xmp', 'noscript']);
+const SKIPPED_RAW_ELEMENTS = new Set(['script', 'style', 'noscript']);
+
+/** Block elements that close an open <p> when they start */
+const CLOSES_PARAGRAPH = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'fieldset',
+  'figcaption',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'ul',
+]);
+
+/**
+ * Implicitly closed elements: opening `tag` closes an open element from
+ * `closes`, but only within the nearest element from `scope`.
+ */
+const IMPLICIT_CLOSE: Record<string, { closes: string[]; scope: string[] }> = {
+  li: { closes: ['li'], scope: ['ul', 'ol', 'menu'] },
+  dt: { closes: ['dt', 'dd'], scope: ['dl'] },
+  dd: { closes: ['dt', 'dd'], scope: ['dl'] },
+  tr: { closes: ['tr', 'td', 'th'], scope: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { closes: ['td', 'th'], scope: ['tr', 'table'] },
+  th: { closes: ['td', 'th'], scope: ['tr', 'table'] },
+  thead: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], scope: ['table'] },
+  tbody: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], scope: ['table'] },
+  tfoot: { closes: ['thead', 'tbody', 'tfoot', 'tr', 'td', 'th'], scope: ['table'] },
+  option: { closes: ['option'], scope: ['select', 'datalist', 'optgroup'] },
+};
+
+/** Elements that stop the search for an open <p> to close */
+const PARAGRAPH_SCOPE = new Set(['table', 'td', 'th', 'li', 'blockquote', 'div', 'button']);
+
+// ============================================================================
+// CHARACTER REFERENCES
+// ============================================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ensp: ' ',
+  emsp: ' ',
+  thinsp: ' ',
+  zwnj: '‌',
+  zwj: '‍',
+  shy: '­',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  sbquo: '‚',
+  ldquo: '“',
+  rdquo: '”',
+  bdquo: '„',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  deg: '°',
+  plusmn: '±',
+  times: '×',
+  divide: '÷',
+  minus: '−',
+  le: '≤',
+  ge: '≥',
+  ne: '≠',
+  larr: '←',
+  rarr: '→',
+  uarr: '↑',
+  darr: '↓',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  cent: '¢',
+  sect: '§',
+  para: '¶',
+  dagger: '†',
+  Dagger: '‡',
+  permil: '‰',
+  frac12: '½',
+  frac14: '¼',
+  frac34: '¾',
+  sup2: '²',
+  sup3: '³',
+  iexcl: '¡',
+  iquest: '¿',
+  check: '✓',
+};
+
+/**
+ * Decode HTML character references in text or attribute values
+ */
+export function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);?/gi, (match, ref: string) => {
+    if (ref[0] === '#') {
+      const code =
+        ref[1] === 'x' || ref[1] === 'X' ? parseInt(ref.slice(2), 16) : parseInt(ref.slice(1), 10);
+      if (!Number.isFinite(code) || code <= 0 || code > 0x10ffff) return '�';
+      return String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[ref] ?? match;
+  });
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+const ATTRIBUTE_PATTERN = /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTRIBUTE_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = ATTRIBUTE_PATTERN.exec(source))) {
+    const name = match[1].toLowerCase();
+    if (name in attrs) continue;
+    attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+class TreeBuilder {
+  readonly root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  private stack: HtmlElement[] = [this.root];
+
+  private get current(): HtmlElement {
+    return this.stack[this.stack.length - 1];
+  }
+
+  text(text: string): void {
+    if (!text) return;
+    const children = this.current.children;
+    const last = children[children.length - 1];
+    if (last?.type === 'text') last.text += text;
+    else children.push({ type: 'text', text });
+  }
+
+  open(tag: string, attrs: Record<string, string>, selfClosing: boolean): void {
+    if (CLOSES_PARAGRAPH.has(tag)) this.closeInScope(['p'], PARAGRAPH_SCOPE);
+    const rule = IMPLICIT_CLOSE[tag];
+    if (rule) this.closeInScope(rule.closes, new Set(rule.scope));
+
+    const element: HtmlElement = { type: 'element', tag, attrs, children: [] };
+    this.current.children.push(element);
+    if (!VOID_ELEMENTS.has(tag) && !selfClosing) this.stack.push(element);
+  }
+
+  close(tag: string): void {
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      if (this.stack[i].tag === tag) {
+        this.stack.length = i;
+        return;
+      }
+    }
+    // </p> without an open <p> produces an empty paragraph in browsers
+    if (tag === 'p') this.current.children.push({ type: 'element', tag, attrs: {}, children: [] });
+  }
+
+  /**
+   * Close the innermost open element named in `tags`, unless a scope
+   * boundary is reached first.
+   */
+  private closeInScope(tags: string[], scope: Set<string>): void {
+    for (let i = this.stack.length - 1; i > 0; i--) {
+      const tag = this.stack[i].tag;
+      if (tags.includes(tag)) {
+        this.stack.length = i;
+        return;
+      }
+      if (scope.has(tag)) return;
+    }
+  }
+}
+
+/**
+ * Parse an HTML string (fragment or full page) into a node list
+ *
+ * For full pages only the body content is returned.
+ */
+export function parseHtml(html: string): HtmlNode[] {
+  const builder = new TreeBuilder();
+  let index = 0;
+
+  while (index < html.length) {
+    const lt = html.indexOf('<', index);
+    if (lt === -1) {
+      builder.text(decodeEntities(html.slice(index)));
+      break;
+    }
+    if (lt > index) builder.text(decodeEntities(html.slice(index, lt)));
+
+    // Comments, doctype, CDATA and processing instructions
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html.startsWith('<![CDATA[', lt)) {
+      const end = html.indexOf(']]>', lt + 9);
+      builder.text(html.slice(lt + 9, end === -1 ? html.length : end));
+      index = end === -1 ? html.length : end + 3;
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      index = end === -1 ? html.length : end + 1;
+      continue;
+    }
+
+    const tagMatch = /^<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/.exec(
+      html.slice(lt)
+    );
+    if (!tagMatch) {
+      // A lone '<' is text
+      builder.text('<');
+      index = lt + 1;
+      continue;
+    }
+    index = lt + tagMatch[0].length;
+
+    const [, slash, rawTag, rawAttrs] = tagMatch;
+    const tag = rawTag.toLowerCase();
+    if (slash) {
+      builder.close(tag);
+      continue;
+    }
+
+    const selfClosing = /\/\s*$/.test(rawAttrs);
+    const attrs = parseAttributes(rawAttrs.replace(/\/\s*$/, ''));
+
+    if (RAW_TEXT_ELEMENTS.has(tag) && !selfClosing) {
+      const endMatch = new RegExp(`</${tag}\\s*>`, 'i').exec(html.slice(index));
+      const rawEnd = endMatch ? index + endMatch.index : html.length;
+      if (!SKIPPED_RAW_ELEMENTS.has(tag)) {
+        builder.open(tag, attrs, false);
+        builder.text(decodeEntities(html.slice(index, rawEnd)));
+        builder.close(tag);
+      }
+      index = endMatch ? rawEnd + endMatch[0].length : html.length;
+      continue;
+    }
+
+    builder.open(tag, attrs, selfClosing);
+  }
+
+  return extractBody(builder.root.children);
+}
+
+/**
+ * Unwrap html/body and drop head, so full pages and fragments look the same
+ */
+function extractBody(nodes: HtmlNode[]): HtmlNode[] {
+  const result: HtmlNode[] = [];
+  for (const node of nodes) {
+    if (node.type === 'element' && (node.tag === 'html' || node.tag === 'body')) {
+      result.push(...extractBody(node.children));
+    } else if (node.type !== 'element' || node.tag !== 'head') {
+      result.push(node);
+    }
+  }
+  return result;
+}
+
+/**
+ * Text content of a node, ignoring markup
+ */
+export function textContent(node: HtmlNode): string {
+  return node.type === 'text' ? node.text : node.children.map(textContent).join('');
+}
@@ -0,0 +1,181 @@
+/**
+ * Image handling for the importers
+ *
+ * Images are embedded as base64 data URLs, which repackDocx turns into media
+ * parts on save. Sources that aren't data URLs (remote or relative paths) are
+ * only kept when the caller supplies a resolver, since the importers don't
+ * fetch anything on their own.
+ */
+
+import { mediaToDataUrl } from '../unzip';
+import type { HtmlElement, HtmlNode } from './htmlParser';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ImportedImage {
+  /** Raw image bytes */
+  data: ArrayBuffer | Uint8Array;
+  /** MIME type, e.g. 'image/png' */
+  mimeType: string;
+}
+
+/**
+ * Load an image referenced by URL or path. Return null to drop the image.
+ */
+export type ImageResolver = (src: string) => Promise<ImportedImage | null>;
+
+// ============================================================================
+// DATA URLS
+// ============================================================================
+
+const DATA_URL = /^data:([^;,]+)((?:;[^;,]+)*?)(;base64)?,(.*)$/s;
+
+function toArrayBuffer(data: ArrayBuffer | Uint8Array): ArrayBuffer {
+  if (data instanceof ArrayBuffer) return data;
+  const copy = new Uint8Array(data.byteLength);
+  copy.set(data);
+  return copy.buffer;
+}
+
+/**
+ * Decode a data URL (base64 or percent-encoded) to bytes
+ */
+export function decodeDataUrl(src: string): ImportedImage | null {
+  const match = DATA_URL.exec(src.trim());
+  if (!match) return null;
+  const [, mimeType, , base64, payload] = match;
+  try {
+    if (base64) {
+      const binary = atob(payload.replace(/\s/g, ''));
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+      return { data: bytes, mimeType: mimeType.toLowerCase() };
+    }
+    return {
+      data: new TextEncoder().encode(decodeURIComponent(payload)),
+      mimeType: mimeType.toLowerCase(),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace every <img> src with a base64 data URL, resolving other sources
+ * through `resolve`. Images that can't be loaded are removed from the tree.
+ */
+export async function inlineImages(nodes: HtmlNode[], resolve?: ImageResolver): Promise<void> {
+  const images: Array<{ parent: HtmlNode[]; element: HtmlElement }> = [];
+  const collect = (list: HtmlNode[]) => {
+    for (const node of list) {
+      if (node.type !== 'element') continue;
+      if (node.tag === 'img') images.push({ parent: list, element: node });
+      else collect(node.children);
+    }
+  };
+  collect(nodes);
+
+  for (const { parent, element } of images) {
+    const src = element.attrs.src ?? '';
+    let image = src.startsWith('data:') ? decodeDataUrl(src) : null;
+    if (!image && src && !src.startsWith('data:') && resolve) {
+      image = await resolve(src).catch(() => null);
+    }
+    if (image && readImageSize(image.data) !== null) {
+      element.attrs.src = mediaToDataUrl(toArrayBuffer(image.data), image.mimeType);
+    } else {
+      parent.splice(parent.indexOf(element), 1);
+    }
+  }
+}
+
+// ============================================================================
+// INTRINSIC SIZE
+// ============================================================================
+
+/**
+ * Read the pixel size of a PNG, JPEG, GIF, BMP, WebP or SVG image.
+ * Returns null when the format isn't recognized.
+ */
+export function readImageSize(
+  data: ArrayBuffer | Uint8Array
+): { width: number; height: number } | null {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+  // PNG: IHDR is always the first chunk
+  if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(1, 3) === 'PNG') {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // GIF: logical screen size
+  if (bytes.length >= 10 && ascii(0, 3) === 'GIF') {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  // BMP: BITMAPINFOHEADER
+  if (bytes.length >= 26 && ascii(0, 2) === 'BM') {
+    return { width: Math.abs(view.getInt32(18, true)), height: Math.abs(view.getInt32(22, true)) };
+  }
+
+  // JPEG: scan for a start-of-frame marker
+  if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      const isFrame = marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker);
+      if (isFrame) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+    return null;
+  }
+
+  // WebP: lossy, lossless and extended variants
+  if (bytes.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+    const format = ascii(12, 4);
+    if (format === 'VP8 ') {
+      return {
+        width: view.getUint16(26, true) & 0x3fff,
+        height: view.getUint16(28, true) & 0x3fff,
+      };
+    }
+    if (format === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (format === 'VP8X') {
+      const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+      const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+      return { width, height };
+    }
+    return null;
+  }
+
+  // SVG: width/height attributes, falling back to the viewBox
+  const head = new TextDecoder().decode(bytes.subarray(0, 2048));
+  const svg = /<svg\b[^>]*>/i.exec(head);
+  if (svg) {
+    const attr = (name: string) =>
+      new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(svg[0])?.[1];
+    const width = parseFloat(attr('width') ?? '');
+    const height = parseFloat(attr('height') ?? '');
+    if (width > 0 && height > 0) return { width, height };
+    const viewBox = attr('viewBox')
+      ?.split(/[\s,]+/)
+      .map(Number);
+    if (viewBox && viewBox[2] > 0 && viewBox[3] > 0) {
+      return { width: viewBox[2], height: viewBox[3] };
+    }
+    return { width: 300, height: 150 };
+  }
+
+  return null;
+}
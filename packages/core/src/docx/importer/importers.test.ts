@@ -0,0 +1,244 @@
+/**
+ * Tests for the Markdown and HTML importers
+ */
+
+import { describe, expect, test } from 'bun:test';
+import JSZip from 'jszip';
+import type { Document, Paragraph, Run, Table } from '../../types/document';
+import { repackDocx } from '../rezip';
+import { parseDocx } from '../parser';
+import { importHtml, importMarkdown } from './index';
+import { parseHtml } from './htmlParser';
+import { markdownToHtml } from './markdownParser';
+
+// 1x1 transparent PNG
+const PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function paragraphs(doc: Document): Paragraph[] {
+  return doc.package.document.content.filter((b): b is Paragraph => b.type === 'paragraph');
+}
+
+function tables(doc: Document): Table[] {
+  return doc.package.document.content.filter((b): b is Table => b.type === 'table');
+}
+
+function runs(paragraph: Paragraph): Run[] {
+  return paragraph.content.flatMap((item) => {
+    if (item.type === 'run') return [item];
+    if (item.type === 'hyperlink') return item.children.filter((c): c is Run => c.type === 'run');
+    return [];
+  });
+}
+
+function text(paragraph: Paragraph): string {
+  return runs(paragraph)
+    .flatMap((run) => run.content)
+    .map((content) => (content.type === 'text' ? content.text : content.type === 'tab' ? '\t' : ''))
+    .join('');
+}
+
+function find(doc: Document, needle: string): Paragraph {
+  const match = paragraphs(doc).find((p) => text(p).includes(needle));
+  if (!match) throw new Error(`No paragraph containing "${needle}"`);
+  return match;
+}
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+describe('markdownToHtml', () => {
+  test('renders block structure', () => {
+    const html = markdownToHtml('# Title\n\nSome *em* and **strong**.\n\n```ts\nconst a = 1;\n```');
+    expect(html).toContain('<h1 id="title">Title</h1>');
+    expect(html).toContain('<em>em</em>');
+    expect(html).toContain('<strong>strong</strong>');
+    expect(html).toContain('<pre><code class="language-ts">const a = 1;\n</code></pre>');
+  });
+
+  test('renders GFM tables and task lists', () => {
+    const html = markdownToHtml('| a | b |\n|:-|-:|\n| 1 | 2 |\n\n- [x] done\n- [ ] todo');
+    expect(html).toContain('<th style="text-align: left">a</th>');
+    expect(html).toContain('<td style="text-align: right">2</td>');
+    expect(html).toContain('checked');
+  });
+});
+
+describe('importMarkdown', () => {
+  test('maps headings and code blocks to styles', async () => {
+    const doc = await importMarkdown('# One\n\n###### Six\n\n```\nline 1\n\tline 2\n```\n');
+    expect(find(doc, 'One').formatting?.styleId).toBe('Heading1');
+    expect(find(doc, 'Six').formatting?.styleId).toBe('Heading6');
+
+    const code = paragraphs(doc).filter((p) => p.formatting?.styleId === 'Code');
+    expect(code.map(text)).toEqual(['line 1', '\tline 2']);
+
+    const styles = doc.package.styles!.styles;
+    const codeStyle = styles.find((s) => s.styleId === 'Code');
+    expect(codeStyle?.rPr?.fontFamily?.ascii).toBe('Courier New');
+    expect(styles.some((s) => s.styleId === 'Heading6')).toBe(true);
+  });
+
+  test('creates real numbering for lists', async () => {
+    const doc = await importMarkdown('- apple\n  - seed\n- pear\n\n3. three\n4. four\n');
+    const apple = find(doc, 'apple');
+    const seed = find(doc, 'seed');
+    const three = find(doc, 'three');
+
+    expect(apple.formatting?.numPr?.ilvl).toBe(0);
+    expect(seed.formatting?.numPr?.ilvl).toBe(1);
+    expect(apple.listRendering?.isBullet).toBe(true);
+    expect(three.listRendering?.isBullet).toBe(false);
+    expect(three.formatting?.numPr?.numId).not.toBe(apple.formatting?.numPr?.numId);
+
+    const numbering = doc.package.numbering!;
+    const num = numbering.nums.find((n) => n.numId === three.formatting?.numPr?.numId);
+    expect(num?.levelOverrides?.[0]?.startOverride).toBe(3);
+  });
+
+  test('keeps inline formatting and links', async () => {
+    const doc = await importMarkdown(
+      '## Intro\n\nSee [the intro](#intro), `code` and [site](https://example.com).'
+    );
+    const paragraph = find(doc, 'See');
+    const link = paragraph.content.find((c) => c.type === 'hyperlink' && c.anchor);
+    expect(link?.type === 'hyperlink' && link.anchor).toBe('intro');
+
+    const external = paragraph.content.find((c) => c.type === 'hyperlink' && !c.anchor);
+    expect(external?.type === 'hyperlink' && external.href).toBe('https://example.com');
+
+    const codeRun = runs(paragraph).find((r) => r.formatting?.styleId === 'CodeChar');
+    expect(codeRun).toBeDefined();
+
+    const heading = find(doc, 'Intro');
+    expect(heading.content.some((c) => c.type === 'bookmarkStart' && c.name === 'intro')).toBe(
+      true
+    );
+  });
+
+  test('imports tables with a header row', async () => {
+    const doc = await importMarkdown('| Name | Qty |\n| --- | ---: |\n| Pen | 2 |\n');
+    const [table] = tables(doc);
+    expect(table.rows).toHaveLength(2);
+    expect(table.rows[0].formatting?.header).toBe(true);
+    expect(table.columnWidths).toHaveLength(2);
+    const qty = table.rows[1].cells[1].content[0] as Paragraph;
+    expect(qty.formatting?.alignment).toBe('right');
+  });
+
+  test('embeds data URL images', async () => {
+    const doc = await importMarkdown(`![dot](${PNG_DATA_URL})`);
+    const drawing = runs(paragraphs(doc)[0])
+      .flatMap((r) => r.content)
+      .find((c) => c.type === 'drawing');
+    expect(drawing?.type === 'drawing' && drawing.image.alt).toBe('dot');
+  });
+
+  test('drops images that cannot be loaded unless resolved', async () => {
+    const dropped = await importMarkdown('![x](https://example.com/x.png) text');
+    expect(JSON.stringify(dropped.package.document.content)).not.toContain('drawing');
+
+    const resolved = await importMarkdown('![x](https://example.com/x.png)', {
+      resolveImage: async () => {
+        const base64 = PNG_DATA_URL.split(',')[1];
+        return {
+          data: Uint8Array.from(atob(base64), (c) => c.charCodeAt(0)),
+          mimeType: 'image/png',
+        };
+      },
+    });
+    expect(JSON.stringify(resolved.package.document.content)).toContain('drawing');
+  });
+});
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+describe('parseHtml', () => {
+  test('closes paragraphs, list items and cells implicitly', () => {
+    const nodes = parseHtml('<p>one<p>two<ul><li>a<li>b</ul><table><tr><td>1<td>2</table>');
+    const tags = nodes.map((n) => (n.type === 'element' ? n.tag : '#text'));
+    expect(tags).toEqual(['p', 'p', 'ul', 'table']);
+
+    const list = nodes[2];
+    expect(list.type === 'element' && list.children.length).toBe(2);
+  });
+
+  test('skips scripts and unwraps full pages', () => {
+    const nodes = parseHtml(
+      '<!doctype html><html><head><title>x</title></head><body><script>alert(1)</script><p>hi &amp; bye</p></body></html>'
+    );
+    expect(nodes).toHaveLength(1);
+    const [p] = nodes;
+    expect(p.type === 'element' && p.children[0]).toEqual({ type: 'text', text: 'hi & bye' });
+  });
+});
+
+describe('importHtml', () => {
+  test('maps inline CSS and tags to run formatting', async () => {
+    const doc = await importHtml(
+      '<p style="text-align: center"><b>bold</b> <span style="color: #f00; font-size: 14pt">red</span> <mark>hi</mark></p>'
+    );
+    const paragraph = find(doc, 'bold');
+    expect(paragraph.formatting?.alignment).toBe('center');
+    const [bold, , red, , mark] = runs(paragraph);
+    expect(bold.formatting?.bold).toBe(true);
+    expect(red.formatting?.color?.rgb).toBe('FF0000');
+    expect(red.formatting?.fontSize).toBe(28);
+    expect(mark.formatting?.highlight).toBe('yellow');
+  });
+
+  test('turns colspan and rowspan into gridSpan and vMerge', async () => {
+    const doc = await importHtml(
+      '<table><tr><th colspan="2">head</th><th rowspan="2">side</th></tr><tr><td>a</td><td>b</td></tr></table>'
+    );
+    const [table] = tables(doc);
+    expect(table.columnWidths).toHaveLength(3);
+    expect(table.rows[0].cells[0].formatting?.gridSpan).toBe(2);
+    expect(table.rows[0].cells[1].formatting?.vMerge).toBe('restart');
+    expect(table.rows[1].cells).toHaveLength(3);
+    expect(table.rows[1].cells[2].formatting?.vMerge).toBe('continue');
+  });
+
+  test('keeps the text of links that are not web, mail or anchor links', async () => {
+    const doc = await importHtml(
+      '<p><a href=" java&#9;script:alert(1)">a</a> <a href="data:text/html,x">b</a> <a href="mailto:x@example.com">c</a></p>'
+    );
+    const paragraph = find(doc, 'a');
+    expect(text(paragraph)).toBe('a b c');
+    const links = paragraph.content.filter((c) => c.type === 'hyperlink');
+    expect(links.map((link) => link.type === 'hyperlink' && link.href)).toEqual([
+      'mailto:x@example.com',
+    ]);
+  });
+
+  test('collapses whitespace outside pre', async () => {
+    const doc = await importHtml('<div>\n  some   spaced\n  text  </div><pre>a  b\nc</pre>');
+    expect(paragraphs(doc).map(text)).toEqual(['some spaced text', 'a  b', 'c']);
+  });
+
+  test('round-trips through repackDocx', async () => {
+    const doc = await importHtml(
+      `<h1>Report</h1><ol><li>first</li><li>second</li></ol><p><img src="${PNG_DATA_URL}" alt="dot"> <a href="https://example.com">link</a></p>`
+    );
+    const buffer = await repackDocx(doc);
+
+    const zip = await JSZip.loadAsync(buffer);
+    expect(zip.file('word/numbering.xml')).not.toBeNull();
+    expect(Object.keys(zip.files).some((name) => name.startsWith('word/media/'))).toBe(true);
+
+    const reparsed = await parseDocx(buffer, { preloadFonts: false });
+    expect(find(reparsed, 'Report').formatting?.styleId).toBe('Heading1');
+    expect(find(reparsed, 'second').listRendering?.isBullet).toBe(false);
+    const linkParagraph = find(reparsed, 'link');
+    expect(
+      linkParagraph.content.some((c) => c.type === 'hyperlink' && c.href === 'https://example.com')
+    ).toBe(true);
+  });
+});
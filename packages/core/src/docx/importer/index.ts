@@ -0,0 +1,63 @@
+/**
+ * Importers - Build a Document from Markdown or HTML
+ *
+ * The inverse of the semantic exporters. Markdown is rendered to HTML first,
+ * so both formats go through the same builder. The result is written out with
+ * createDocx and parsed back, so it carries an originalBuffer, real styles.xml
+ * and numbering.xml parts, and list rendering info — it opens in DocxEditor
+ * and saves with repackDocx like any other DOCX.
+ *
+ * @example
+ * ```ts
+ * const doc = await importMarkdown('# Draft\n\n- first\n- second');
+ * const buffer = await repackDocx(doc);
+ * ```
+ */
+
+import type { Document } from '../../types/document';
+import { parseDocx } from '../parser';
+import { createDocx } from '../rezip';
+import { buildDocumentFromHtml, type BuildDocumentOptions } from './documentBuilder';
+import { parseHtml } from './htmlParser';
+import { inlineImages, type ImageResolver } from './importImages';
+import { markdownToHtml } from './markdownParser';
+
+export type { ImageResolver, ImportedImage } from './importImages';
+export { markdownToHtml } from './markdownParser';
+
+export interface DocumentImportOptions extends BuildDocumentOptions {
+  /**
+   * Load images whose src is not a data URL (remote URLs, relative paths).
+   * Without a resolver such images are dropped.
+   */
+  resolveImage?: ImageResolver;
+  /** Whether to preload fonts when parsing the result (default: false) */
+  preloadFonts?: boolean;
+}
+
+/**
+ * Build a Document from an HTML string (fragment or full page)
+ */
+export async function importHtml(
+  html: string,
+  options: DocumentImportOptions = {}
+): Promise<Document> {
+  const { resolveImage, preloadFonts = false, ...documentOptions } = options;
+  const nodes = parseHtml(html);
+  await inlineImages(nodes, resolveImage);
+
+  const document = buildDocumentFromHtml(nodes, documentOptions);
+  const buffer = await createDocx(document);
+  return parseDocx(buffer, { preloadFonts });
+}
+
+/**
+ * Build a Document from Markdown (CommonMark with GitHub tables, task lists
+ * and autolinks)
+ */
+export async function importMarkdown(
+  markdown: string,
+  options: DocumentImportOptions = {}
+): Promise<Document> {
+  return importHtml(markdownToHtml(markdown), options);
+}
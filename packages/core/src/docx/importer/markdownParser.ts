@@ -0,0 +1,874 @@
+/**
+ * Markdown Parser - GitHub-flavored Markdown to HTML
+ *
+ * The Markdown importer renders to HTML and then reuses the HTML importer, so
+ * raw HTML embedded in Markdown is handled the same way as in HTML input.
+ *
+ * Supported syntax (CommonMark plus the GFM extensions LLMs tend to emit):
+ * - ATX and setext headings (headings get GitHub-style slug ids)
+ * - paragraphs, hard breaks, block quotes, thematic breaks
+ * - bullet, ordered and task lists with nesting
+ * - fenced and indented code blocks
+ * - pipe tables with column alignment
+ * - emphasis, strong, strikethrough, code spans
+ * - inline and reference links and images, autolinks and bare URLs
+ * - inline and block HTML (passed through)
+ */
+
+import { escapeHtml } from '../serializer/htmlSerializer';
+
+// ============================================================================
+// BLOCK STRUCTURE
+// ============================================================================
+
+interface ListItem {
+  blocks: MdBlock[];
+  checked?: boolean;
+}
+
+type MdBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'code'; info: string; text: string }
+  | { kind: 'quote'; blocks: MdBlock[] }
+  | { kind: 'list'; ordered: boolean; start: number; tight: boolean; items: ListItem[] }
+  | { kind: 'hr' }
+  | { kind: 'html'; html: string }
+  | { kind: 'table'; align: Array<'left' | 'center' | 'right' | null>; rows: string[][] };
+
+interface LinkReference {
+  href: string;
+  title?: string;
+}
+
+const ATX_HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`]*?)[ \t]*$/;
+const BLOCKQUOTE = /^ {0,3}>/;
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])(?=[ \t]|$)([ \t]*)(.*)$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)[ \t]*$/;
+const TABLE_DELIMITER = /^ {0,3}\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LINK_DEFINITION =
+  /^ {0,3}\[([^\]]+)\]:[ \t]*<?([^\s>]+)>?(?:[ \t]+(?:"([^"]*)"|'([^']*)'|\(([^)]*)\)))?[ \t]*$/;
+
+const HTML_BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'details',
+  'div',
+  'dl',
+  'figure',
+  'footer',
+  'form',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'hr',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'ul',
+]);
+
+function isBlank(line: string): boolean {
+  return /^[ \t]*$/.test(line);
+}
+
+/** Column width of leading whitespace (tabs count to the next multiple of 4) */
+function indentWidth(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === ' ') width++;
+    else if (char === '\t') width += 4 - (width % 4);
+    else break;
+  }
+  return width;
+}
+
+/** Remove up to `width` columns of leading whitespace */
+function dedent(line: string, width: number): string {
+  let removed = 0;
+  let index = 0;
+  while (index < line.length && removed < width) {
+    if (line[index] === ' ') removed++;
+    else if (line[index] === '\t') removed += 4 - (removed % 4);
+    else break;
+    index++;
+  }
+  return line.slice(index);
+}
+
+function isHtmlBlockStart(line: string): boolean {
+  if (/^ {0,3}<!--/.test(line)) return true;
+  const match = /^ {0,3}<\/?([a-zA-Z][a-zA-Z0-9-]*)(?=[\s/>]|$)/.exec(line);
+  return !!match && HTML_BLOCK_TAGS.has(match[1].toLowerCase());
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += row[i];
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Does this line interrupt a paragraph?
+ */
+function interruptsParagraph(line: string): boolean {
+  if (ATX_HEADING.test(line) || THEMATIC_BREAK.test(line) || FENCE_OPEN.test(line)) return true;
+  if (BLOCKQUOTE.test(line) || isHtmlBlockStart(line)) return true;
+  const item = LIST_ITEM.exec(line);
+  // Only non-empty bullet items and ordered items starting at 1 interrupt
+  return !!item && !!item[4] && (/^[-+*]$/.test(item[2]) || /^1[.)]$/.test(item[2]));
+}
+
+class BlockParser {
+  constructor(private references: Map<string, LinkReference>) {}
+
+  parse(lines: string[]): MdBlock[] {
+    const blocks: MdBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+      const line = lines[i];
+
+      if (isBlank(line)) {
+        i++;
+        continue;
+      }
+
+      // Fenced code
+      const fence = FENCE_OPEN.exec(line);
+      if (fence) {
+        const [, indent, marker, info] = fence;
+        const body: string[] = [];
+        i++;
+        while (i < lines.length) {
+          const closing = new RegExp(
+            `^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}[ \\t]*$`
+          );
+          if (closing.test(lines[i])) {
+            i++;
+            break;
+          }
+          body.push(dedent(lines[i], indent.length));
+          i++;
+        }
+        blocks.push({ kind: 'code', info: info.split(/\s+/)[0] ?? '', text: body.join('\n') });
+        continue;
+      }
+
+      // Indented code
+      if (indentWidth(line) >= 4) {
+        const body: string[] = [];
+        while (i < lines.length && (isBlank(lines[i]) || indentWidth(lines[i]) >= 4)) {
+          body.push(dedent(lines[i], 4));
+          i++;
+        }
+        while (body.length > 0 && isBlank(body[body.length - 1])) body.pop();
+        blocks.push({ kind: 'code', info: '', text: body.join('\n') });
+        continue;
+      }
+
+      const heading = ATX_HEADING.exec(line);
+      if (heading) {
+        blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] ?? '' });
+        i++;
+        continue;
+      }
+
+      if (THEMATIC_BREAK.test(line)) {
+        blocks.push({ kind: 'hr' });
+        i++;
+        continue;
+      }
+
+      if (BLOCKQUOTE.test(line)) {
+        const inner: string[] = [];
+        while (i < lines.length && !isBlank(lines[i])) {
+          if (BLOCKQUOTE.test(lines[i])) {
+            inner.push(lines[i].replace(/^ {0,3}> ?/, ''));
+          } else if (inner.length > 0 && !interruptsParagraph(lines[i])) {
+            // Lazy continuation of a quoted paragraph
+            inner.push(lines[i]);
+          } else {
+            break;
+          }
+          i++;
+        }
+        blocks.push({ kind: 'quote', blocks: this.parse(inner) });
+        continue;
+      }
+
+      if (LIST_ITEM.test(line)) {
+        i = this.parseList(lines, i, blocks);
+        continue;
+      }
+
+      if (isHtmlBlockStart(line)) {
+        const html: string[] = [];
+        while (i < lines.length && !isBlank(lines[i])) html.push(lines[i++]);
+        blocks.push({ kind: 'html', html: html.join('\n') });
+        continue;
+      }
+
+      // Table: header row followed by a delimiter row
+      if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1])) {
+        const header = splitTableRow(line);
+        const align = splitTableRow(lines[i + 1]).map((cell) => {
+          const left = cell.startsWith(':');
+          const right = cell.endsWith(':');
+          return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+        });
+        if (align.length === header.length) {
+          const rows = [header];
+          i += 2;
+          while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+            rows.push(splitTableRow(lines[i]));
+            i++;
+          }
+          blocks.push({ kind: 'table', align, rows });
+          continue;
+        }
+      }
+
+      const definition = LINK_DEFINITION.exec(line);
+      if (definition) {
+        const label = normalizeLabel(definition[1]);
+        if (!this.references.has(label)) {
+          this.references.set(label, {
+            href: definition[2],
+            title: definition[3] ?? definition[4] ?? definition[5],
+          });
+        }
+        i++;
+        continue;
+      }
+
+      // Paragraph, possibly turned into a setext heading
+      const text: string[] = [line];
+      i++;
+      let setextLevel = 0;
+      while (i < lines.length && !isBlank(lines[i])) {
+        const underline = SETEXT_UNDERLINE.exec(lines[i]);
+        if (underline) {
+          setextLevel = underline[1][0] === '=' ? 1 : 2;
+          i++;
+          break;
+        }
+        if (interruptsParagraph(lines[i])) break;
+        text.push(lines[i]);
+        i++;
+      }
+      const content = text.map((t) => t.replace(/^[ \t]+/, '')).join('\n');
+      blocks.push(
+        setextLevel
+          ? { kind: 'heading', level: setextLevel, text: content.trim() }
+          : { kind: 'paragraph', text: content.replace(/[ \t]+$/, '') }
+      );
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Parse consecutive items of one list starting at `start`
+   *
+   * @returns Index of the first line after the list
+   */
+  private parseList(lines: string[], start: number, blocks: MdBlock[]): number {
+    const first = LIST_ITEM.exec(lines[start])!;
+    const ordered = /\d/.test(first[2]);
+    const delimiter = first[2][first[2].length - 1];
+    const list: Extract<MdBlock, { kind: 'list' }> = {
+      kind: 'list',
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      tight: true,
+      items: [],
+    };
+
+    let i = start;
+    let sawBlankBetweenItems = false;
+    while (i < lines.length) {
+      const match = LIST_ITEM.exec(lines[i]);
+      if (!match || /\d/.test(match[2]) !== ordered) break;
+      if (match[2][match[2].length - 1] !== delimiter) break;
+      if (THEMATIC_BREAK.test(lines[i])) break;
+
+      const [, indent, marker, spacing, rest] = match;
+      // Content starts after the marker and 1-4 spaces (5+ means indented code)
+      const spaceWidth = rest ? Math.min(spacing.length, 4) || 1 : 1;
+      const contentIndent = indent.length + marker.length + (spacing.length > 4 ? 1 : spaceWidth);
+      const itemLines = [spacing.length > 4 ? ' '.repeat(spacing.length - 1) + rest : rest];
+      i++;
+
+      let previousBlank = false;
+      while (i < lines.length) {
+        const line = lines[i];
+        if (isBlank(line)) {
+          itemLines.push('');
+          previousBlank = true;
+          i++;
+          continue;
+        }
+        if (indentWidth(line) >= contentIndent) {
+          itemLines.push(dedent(line, contentIndent));
+        } else if (!previousBlank && !interruptsParagraph(line) && !LIST_ITEM.test(line)) {
+          // Lazy paragraph continuation
+          itemLines.push(line.trim());
+        } else {
+          break;
+        }
+        previousBlank = false;
+        i++;
+      }
+
+      // Trailing blank lines belong between items, not to this one
+      while (itemLines.length > 0 && isBlank(itemLines[itemLines.length - 1])) {
+        itemLines.pop();
+        sawBlankBetweenItems = true;
+      }
+      if (itemLines.slice(1).some(isBlank)) list.tight = false;
+
+      const item: ListItem = { blocks: [] };
+      const task = /^\[([ xX])\](?=[ \t]|$)[ \t]?/.exec(itemLines[0]);
+      if (task) {
+        item.checked = task[1] !== ' ';
+        itemLines[0] = itemLines[0].slice(task[0].length);
+      }
+      item.blocks = this.parse(itemLines);
+      list.items.push(item);
+
+      const next = i < lines.length ? LIST_ITEM.exec(lines[i]) : null;
+      if (!next) break;
+      if (sawBlankBetweenItems) list.tight = false;
+    }
+
+    blocks.push(list);
+    return i;
+  }
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// ============================================================================
+// INLINE CONTENT
+// ============================================================================
+
+interface Delimiter {
+  kind: 'delim';
+  char: '*' | '_' | '~';
+  /** Remaining unmatched length */
+  count: number;
+  /** Original run length (for the "multiple of 3" rule) */
+  length: number;
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+type InlineNode = { kind: 'html'; html: string } | { kind: 'text'; text: string } | Delimiter;
+
+interface Bracket {
+  index: number;
+  image: boolean;
+  active: boolean;
+  /** Source position right after the opening bracket */
+  sourceStart: number;
+}
+
+const ASCII_PUNCTUATION = /[!-/:-@[-`{-~]/;
+const PUNCTUATION = /[!-/:-@[-`{-~¡-¿‐-‧‰-⁞　-〿]/;
+const BARE_URL = /^(?:https?:\/\/|www\.)[^\s<]*[^\s<?!.,:*_~'")\]]/;
+
+function isWhitespace(char: string | undefined): boolean {
+  return char === undefined || /\s/.test(char);
+}
+
+function isPunctuation(char: string | undefined): boolean {
+  return char !== undefined && PUNCTUATION.test(char);
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([!-/:-@[-`{-~])/g, '$1');
+}
+
+function attrValue(text: string): string {
+  return escapeHtml(text);
+}
+
+/**
+ * Parse `(destination "title")` after a link's closing bracket
+ */
+function parseInlineLinkTail(
+  source: string,
+  position: number
+): { href: string; title?: string; end: number } | null {
+  if (source[position] !== '(') return null;
+  let i = position + 1;
+  while (/\s/.test(source[i] ?? '')) i++;
+
+  let href = '';
+  if (source[i] === '<') {
+    const close = source.indexOf('>', i);
+    if (close === -1) return null;
+    href = source.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    const start = i;
+    while (i < source.length) {
+      const char = source[i];
+      if (char === '\\' && ASCII_PUNCTUATION.test(source[i + 1] ?? '')) {
+        i += 2;
+        continue;
+      }
+      if (/\s/.test(char)) break;
+      if (char === '(') depth++;
+      if (char === ')') {
+        if (depth === 0) break;
+        depth--;
+      }
+      i++;
+    }
+    href = source.slice(start, i);
+  }
+
+  while (/\s/.test(source[i] ?? '')) i++;
+  let title: string | undefined;
+  const quote = source[i];
+  if (quote === '"' || quote === "'" || quote === '(') {
+    const closeChar = quote === '(' ? ')' : quote;
+    const close = source.indexOf(closeChar, i + 1);
+    if (close === -1) return null;
+    title = unescapeText(source.slice(i + 1, close));
+    i = close + 1;
+    while (/\s/.test(source[i] ?? '')) i++;
+  }
+  if (source[i] !== ')') return null;
+  return { href: unescapeText(href), title, end: i + 1 };
+}
+
+class InlineRenderer {
+  constructor(private references: Map<string, LinkReference>) {}
+
+  render(source: string): string {
+    const nodes: InlineNode[] = [];
+    const brackets: Bracket[] = [];
+    let text = '';
+    const flush = () => {
+      if (text) nodes.push({ kind: 'text', text });
+      text = '';
+    };
+
+    let i = 0;
+    while (i < source.length) {
+      const char = source[i];
+
+      if (char === '\\') {
+        const next = source[i + 1];
+        if (next === '\n') {
+          flush();
+          nodes.push({ kind: 'html', html: '<br>\n' });
+          i += 2;
+          continue;
+        }
+        if (next !== undefined && ASCII_PUNCTUATION.test(next)) {
+          text += next;
+          i += 2;
+          continue;
+        }
+        text += char;
+        i++;
+        continue;
+      }
+
+      if (char === '`') {
+        const run = /^`+/.exec(source.slice(i))![0];
+        const close = this.findClosingBackticks(source, i + run.length, run.length);
+        if (close === -1) {
+          text += run;
+          i += run.length;
+          continue;
+        }
+        let code = source.slice(i + run.length, close).replace(/\n/g, ' ');
+        if (/^ .*[^ ].* $/.test(code)) code = code.slice(1, -1);
+        flush();
+        nodes.push({ kind: 'html', html: `<code>${escapeHtml(code)}</code>` });
+        i = close + run.length;
+        continue;
+      }
+
+      if (char === '<') {
+        const autolink = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/.exec(source.slice(i));
+        const email =
+          /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)*)>/.exec(
+            source.slice(i)
+          );
+        const tag =
+          /^<(?:\/?[a-zA-Z][a-zA-Z0-9-]*(?:\s+[a-zA-Z_:][\w.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|!--[\s\S]*?-->)/.exec(
+            source.slice(i)
+          );
+        if (autolink || email) {
+          const target = (autolink ?? email)![1];
+          const href = email ? `mailto:${target}` : target;
+          flush();
+          nodes.push({
+            kind: 'html',
+            html: `<a href="${attrValue(href)}">${escapeHtml(target)}</a>`,
+          });
+          i += (autolink ?? email)![0].length;
+          continue;
+        }
+        if (tag) {
+          flush();
+          nodes.push({ kind: 'html', html: tag[0] });
+          i += tag[0].length;
+          continue;
+        }
+      }
+
+      if (char === '&') {
+        const entity = /^&(?:#x[0-9a-f]{1,6}|#\d{1,7}|[a-z][a-z0-9]{1,31});/i.exec(source.slice(i));
+        if (entity) {
+          flush();
+          nodes.push({ kind: 'html', html: entity[0] });
+          i += entity[0].length;
+          continue;
+        }
+      }
+
+      if (char === '*' || char === '_' || char === '~') {
+        const run = new RegExp(`^\\${char}+`).exec(source.slice(i))![0];
+        const before = source[i - 1];
+        const after = source[i + run.length];
+        const leftFlanking =
+          !isWhitespace(after) &&
+          (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+        const rightFlanking =
+          !isWhitespace(before) &&
+          (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+        let canOpen = leftFlanking;
+        let canClose = rightFlanking;
+        if (char === '_') {
+          canOpen = leftFlanking && (!rightFlanking || isPunctuation(before));
+          canClose = rightFlanking && (!leftFlanking || isPunctuation(after));
+        }
+        if (char === '~' && run.length > 2) {
+          canOpen = false;
+          canClose = false;
+        }
+        flush();
+        nodes.push({
+          kind: 'delim',
+          char,
+          count: run.length,
+          length: run.length,
+          canOpen,
+          canClose,
+        });
+        i += run.length;
+        continue;
+      }
+
+      if (char === '[' || (char === '!' && source[i + 1] === '[')) {
+        const image = char === '!';
+        flush();
+        nodes.push({ kind: 'text', text: image ? '![' : '[' });
+        brackets.push({
+          index: nodes.length - 1,
+          image,
+          active: true,
+          sourceStart: i + (image ? 2 : 1),
+        });
+        i += image ? 2 : 1;
+        continue;
+      }
+
+      if (char === ']') {
+        const opener = brackets.pop();
+        if (!opener || !opener.active) {
+          text += ']';
+          i++;
+          continue;
+        }
+        const label = source.slice(opener.sourceStart, i);
+        let target: LinkReference | null = null;
+        let end = i + 1;
+
+        const inline = parseInlineLinkTail(source, i + 1);
+        if (inline) {
+          target = { href: inline.href, title: inline.title };
+          end = inline.end;
+        } else {
+          const full = /^\[([^\]]*)\]/.exec(source.slice(i + 1));
+          const refLabel = full && full[1] ? full[1] : label;
+          const reference = this.references.get(normalizeLabel(refLabel));
+          if (reference) {
+            target = reference;
+            end = full ? i + 1 + full[0].length : i + 1;
+          }
+        }
+
+        if (!target) {
+          text += ']';
+          i++;
+          continue;
+        }
+
+        flush();
+        const inner = nodes.splice(opener.index);
+        inner.shift();
+        processEmphasis(inner);
+        const content = serializeNodes(inner);
+        if (opener.image) {
+          const alt = content.replace(/<[^>]*>/g, '');
+          nodes.push({
+            kind: 'html',
+            html: `<img src="${attrValue(target.href)}" alt="${alt}"${target.title ? ` title="${attrValue(target.title)}"` : ''}>`,
+          });
+        } else {
+          nodes.push({
+            kind: 'html',
+            html: `<a href="${attrValue(target.href)}"${target.title ? ` title="${attrValue(target.title)}"` : ''}>${content}</a>`,
+          });
+          // No links inside links
+          for (const bracket of brackets) if (!bracket.image) bracket.active = false;
+        }
+        i = end;
+        continue;
+      }
+
+      if (char === '\n') {
+        const trailing = /( {2,})$/.exec(text);
+        if (trailing) {
+          text = text.slice(0, -trailing[1].length);
+          flush();
+          nodes.push({ kind: 'html', html: '<br>\n' });
+        } else {
+          text = text.replace(/ +$/, '') + '\n';
+        }
+        i++;
+        continue;
+      }
+
+      // GFM bare URLs
+      if ((char === 'h' || char === 'w') && (i === 0 || /[\s(*_~]/.test(source[i - 1]))) {
+        const url = BARE_URL.exec(source.slice(i));
+        if (url) {
+          const href = url[0].startsWith('www.') ? `http://${url[0]}` : url[0];
+          flush();
+          nodes.push({
+            kind: 'html',
+            html: `<a href="${attrValue(href)}">${escapeHtml(url[0])}</a>`,
+          });
+          i += url[0].length;
+          continue;
+        }
+      }
+
+      text += char;
+      i++;
+    }
+
+    flush();
+    processEmphasis(nodes);
+    return serializeNodes(nodes);
+  }
+
+  private findClosingBackticks(source: string, from: number, length: number): number {
+    const pattern = /`+/g;
+    pattern.lastIndex = from;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source))) {
+      if (match[0].length === length) return match.index;
+    }
+    return -1;
+  }
+}
+
+/**
+ * Match emphasis delimiters in place (CommonMark "process emphasis")
+ */
+function processEmphasis(nodes: InlineNode[]): void {
+  let i = 0;
+  while (i < nodes.length) {
+    const closer = nodes[i];
+    if (closer.kind !== 'delim' || !closer.canClose || closer.count === 0) {
+      i++;
+      continue;
+    }
+
+    let openerIndex = -1;
+    for (let j = i - 1; j >= 0; j--) {
+      const opener = nodes[j];
+      if (opener.kind !== 'delim' || opener.char !== closer.char || !opener.canOpen) continue;
+      if (opener.count === 0) continue;
+      if (closer.char === '~') {
+        if (opener.count !== closer.count) continue;
+      } else if (
+        (opener.canClose || closer.canOpen) &&
+        (opener.length + closer.length) % 3 === 0 &&
+        !(opener.length % 3 === 0 && closer.length % 3 === 0)
+      ) {
+        continue;
+      }
+      openerIndex = j;
+      break;
+    }
+
+    if (openerIndex === -1) {
+      i++;
+      continue;
+    }
+
+    const opener = nodes[openerIndex] as Delimiter;
+    const use = closer.char === '~' ? closer.count : opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+    const tag = closer.char === '~' ? 's' : use === 2 ? 'strong' : 'em';
+    opener.count -= use;
+    closer.count -= use;
+
+    // Delimiters between the pair can no longer match anything outside it
+    for (let k = openerIndex + 1; k < i; k++) {
+      const node = nodes[k];
+      if (node.kind === 'delim') {
+        nodes[k] = { kind: 'text', text: node.char.repeat(node.count) };
+      }
+    }
+
+    nodes.splice(i, 0, { kind: 'html', html: `</${tag}>` });
+    nodes.splice(openerIndex + 1, 0, { kind: 'html', html: `<${tag}>` });
+    i += 2;
+    if (closer.count === 0) i++;
+  }
+}
+
+function serializeNodes(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.kind === 'html') return node.html;
+      if (node.kind === 'text') return escapeHtml(node.text);
+      return node.char.repeat(node.count);
+    })
+    .join('');
+}
+
+// ============================================================================
+// HTML OUTPUT
+// ============================================================================
+
+/**
+ * GitHub's heading anchor slug
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, '')
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .trim()
+    .replace(/\s/g, '-');
+}
+
+class HtmlWriter {
+  private slugs = new Map<string, number>();
+
+  constructor(private inline: InlineRenderer) {}
+
+  write(blocks: MdBlock[], tight = false): string {
+    return blocks.map((block) => this.writeBlock(block, tight)).join('\n');
+  }
+
+  private writeBlock(block: MdBlock, tight: boolean): string {
+    switch (block.kind) {
+      case 'heading': {
+        const content = this.inline.render(block.text);
+        const id = this.uniqueSlug(slugify(content.replace(/&[^;]+;/g, '')));
+        return `<h${block.level} id="${attrValue(id)}">${content}</h${block.level}>`;
+      }
+      case 'paragraph': {
+        const content = this.inline.render(block.text);
+        return tight ? content : `<p>${content}</p>`;
+      }
+      case 'code': {
+        const lang = block.info ? ` class="language-${attrValue(block.info)}"` : '';
+        return `<pre><code${lang}>${block.text ? `${escapeHtml(block.text)}\n` : ''}</code></pre>`;
+      }
+      case 'quote':
+        return `<blockquote>\n${this.write(block.blocks)}\n</blockquote>`;
+      case 'hr':
+        return '<hr>';
+      case 'html':
+        return block.html;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+        const items = block.items.map((item) => {
+          const checkbox =
+            item.checked === undefined
+              ? ''
+              : `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+          return `<li>${checkbox}${this.write(item.blocks, block.tight)}</li>`;
+        });
+        return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>`;
+      }
+      case 'table': {
+        const cell = (tag: string, text: string, column: number) => {
+          const align = block.align[column];
+          const style = align ? ` style="text-align: ${align}"` : '';
+          return `<${tag}${style}>${this.inline.render(text)}</${tag}>`;
+        };
+        const [header, ...body] = block.rows;
+        const columns = block.align.length;
+        const row = (cells: string[], tag: string) =>
+          `<tr>${Array.from({ length: columns }, (_, c) => cell(tag, cells[c] ?? '', c)).join('')}</tr>`;
+        const parts = ['<table>', `<thead>\n${row(header, 'th')}\n</thead>`];
+        if (body.length > 0)
+          parts.push(`<tbody>\n${body.map((r) => row(r, 'td')).join('\n')}\n</tbody>`);
+        parts.push('</table>');
+        return parts.join('\n');
+      }
+    }
+  }
+
+  private uniqueSlug(slug: string): string {
+    const count = this.slugs.get(slug) ?? 0;
+    this.slugs.set(slug, count + 1);
+    return count === 0 ? slug : `${slug}-${count}`;
+  }
+}
+
+/**
+ * Render GitHub-flavored Markdown to an HTML fragment
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const references = new Map<string, LinkReference>();
+  const blocks = new BlockParser(references).parse(lines);
+  return new HtmlWriter(new InlineRenderer(references)).write(blocks);
+}
@@ -0,0 +1,134 @@
+/**
+ * Move Ranges - Link the two halves of a tracked move
+ *
+ * Word records a move as w:moveFrom content at the source and w:moveTo
+ * content at the destination, each with its own revision ID. The halves are
+ * linked by range markers that share a name:
+ *
+ *   <w:moveFromRangeStart w:id="1" w:name="move1"/>
+ *   <w:moveFrom w:id="2">…</w:moveFrom>
+ *   <w:moveFromRangeEnd w:id="1"/>
+ *   …
+ *   <w:moveToRangeStart w:id="3" w:name="move1"/>
+ *   <w:moveTo w:id="4">…</w:moveTo>
+ *   <w:moveToRangeEnd w:id="3"/>
+ *
+ * A range may span paragraphs. After parsing, every MoveFrom/MoveTo gets the
+ * name of the range around it; before saving, the ranges are written back
+ * around the named content of each paragraph.
+ */
+
+import type {
+  BlockContent,
+  MoveFromRangeStart,
+  MoveToRangeStart,
+  ParagraphContent,
+} from '../types/document';
+import { forEachParagraph } from './permissionRanges';
+
+/**
+ * Give each MoveFrom and MoveTo the name of the move range it sits in
+ */
+export function resolveMoveNames(blocks: BlockContent[]): void {
+  const openFrom = new Map<number, string>();
+  const openTo = new Map<number, string>();
+  // The innermost open range wins
+  const current = (open: Map<number, string>) => [...open.values()].pop();
+
+  forEachParagraph(blocks, (paragraph) => {
+    for (const item of paragraph.content) {
+      if (item.type === 'moveFromRangeStart' && item.name) openFrom.set(item.id, item.name);
+      else if (item.type === 'moveFromRangeEnd') openFrom.delete(item.id);
+      else if (item.type === 'moveToRangeStart' && item.name) openTo.set(item.id, item.name);
+      else if (item.type === 'moveToRangeEnd') openTo.delete(item.id);
+      else if (item.type === 'moveFrom' || item.type === 'moveTo') {
+        const name = current(item.type === 'moveFrom' ? openFrom : openTo);
+        if (name) item.moveName = name;
+      }
+    }
+  });
+}
+
+/**
+ * Wrap the named MoveFrom and MoveTo content of each paragraph in move range
+ * markers. Paragraphs that already have the range keep it.
+ */
+export function addMoveRanges(blocks: BlockContent[]): void {
+  // Range IDs must not collide with the revision and range IDs in use
+  let nextId = 1;
+  forEachParagraph(blocks, (paragraph) => {
+    for (const item of paragraph.content) {
+      if ('info' in item && item.info && typeof item.info.id === 'number') {
+        nextId = Math.max(nextId, item.info.id + 1);
+      } else if (isMoveRangeMarker(item)) {
+        nextId = Math.max(nextId, item.id + 1);
+      }
+    }
+  });
+
+  forEachParagraph(blocks, (paragraph) => {
+    const existing = new Set(
+      paragraph.content
+        .filter((item) => item.type === 'moveFromRangeStart' || item.type === 'moveToRangeStart')
+        .map((item) => `${item.type}:${(item as MoveFromRangeStart | MoveToRangeStart).name}`)
+    );
+
+    // First and last index of each move half in the paragraph
+    const ranges = new Map<
+      string,
+      { start: MoveFromRangeStart | MoveToRangeStart; last: number }
+    >();
+    const starts = new Map<number, (MoveFromRangeStart | MoveToRangeStart)[]>();
+    paragraph.content.forEach((item, index) => {
+      if ((item.type !== 'moveFrom' && item.type !== 'moveTo') || !item.moveName) return;
+      const type = item.type === 'moveFrom' ? 'moveFromRangeStart' : 'moveToRangeStart';
+      const key = `${type}:${item.moveName}`;
+      if (existing.has(key)) return;
+
+      const range = ranges.get(key);
+      if (range) {
+        range.last = index;
+        return;
+      }
+      const start: MoveFromRangeStart | MoveToRangeStart = {
+        type,
+        id: nextId++,
+        name: item.moveName,
+        author: item.info.author,
+        ...(item.info.date ? { date: item.info.date } : {}),
+      };
+      ranges.set(key, { start, last: index });
+      starts.set(index, [...(starts.get(index) ?? []), start]);
+    });
+    if (ranges.size === 0) return;
+
+    const content: ParagraphContent[] = [];
+    paragraph.content.forEach((item, index) => {
+      content.push(...(starts.get(index) ?? []));
+      content.push(item);
+      for (const { start, last } of ranges.values()) {
+        if (last !== index) continue;
+        content.push(
+          start.type === 'moveFromRangeStart'
+            ? { type: 'moveFromRangeEnd', id: start.id }
+            : { type: 'moveToRangeEnd', id: start.id }
+        );
+      }
+    });
+    paragraph.content = content;
+  });
+}
+
+function isMoveRangeMarker(
+  item: ParagraphContent
+): item is Extract<
+  ParagraphContent,
+  { type: 'moveFromRangeStart' | 'moveFromRangeEnd' | 'moveToRangeStart' | 'moveToRangeEnd' }
+> {
+  return (
+    item.type === 'moveFromRangeStart' ||
+    item.type === 'moveFromRangeEnd' ||
+    item.type === 'moveToRangeStart' ||
+    item.type === 'moveToRangeEnd'
+  );
+}
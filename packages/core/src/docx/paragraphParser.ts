@@ -18,6 +18,7 @@ import type {
   Hyperlink,
   BookmarkStart,
   BookmarkEnd,
+  PermissionStart,
   SimpleField,
   ComplexField,
   FieldType,
@@ -99,6 +100,17 @@ function parseSdtProperties(sdtPr: XmlElement | null): SdtProperties {
       case 'showingPlcHdr':
         props.showingPlaceholder = true;
         break;
+      case 'dataBinding': {
+        const xpath = getAttribute(el, 'w', 'xpath');
+        if (xpath) {
+          props.dataBinding = { xpath };
+          const prefixMappings = getAttribute(el, 'w', 'prefixMappings');
+          if (prefixMappings) props.dataBinding.prefixMappings = prefixMappings;
+          const storeItemId = getAttribute(el, 'w', 'storeItemID');
+          if (storeItemId) props.dataBinding.storeItemId = storeItemId;
+        }
+        break;
+      }
       case 'text':
         props.sdtType = 'plainText';
         break;
@@ -114,7 +126,8 @@ function parseSdtProperties(sdtPr: XmlElement | null): SdtProperties {
         props.sdtType = 'comboBox';
         props.listItems = parseListItems(el);
         break;
-      case 'checkbox': {
+      case 'checkbox':
+      case 'w14:checkbox': {
         props.sdtType = 'checkbox';
         const checked = findChild(el, 'w14', 'checked') ?? findChild(el, 'w', 'checked');
         props.checked = checked
@@ -674,6 +687,22 @@ function parseTrackedChangeInfo(node: XmlElement): TrackedChangeInfo {
   };
 }
 
+/**
+ * Parse the attributes of a move range start (w:moveFromRangeStart / w:moveToRangeStart)
+ */
+function parseMoveRangeStart(node: XmlElement): {
+  id: number;
+  name: string;
+  author?: string;
+  date?: string;
+} {
+  const id = parseInt(getAttribute(node, 'w', 'id') ?? '0', 10);
+  const name = getAttribute(node, 'w', 'name') ?? '';
+  const author = getAttribute(node, 'w', 'author')?.trim();
+  const date = getAttribute(node, 'w', 'date')?.trim();
+  return { id, name, ...(author ? { author } : {}), ...(date ? { date } : {}) };
+}
+
 function parsePropertyChangeInfo(node: XmlElement): ParagraphPropertyChange['info'] {
   const base = parseTrackedChangeInfo(node);
   const rsid = (getAttribute(node, 'w', 'rsid') ?? '').trim();
@@ -734,6 +763,21 @@ function parseBookmarkEnd(node: XmlElement): BookmarkEnd {
   return parseBookmarkEndFromModule(node);
 }
 
+/**
+ * Parse the start of an editable region (w:permStart)
+ */
+export function parsePermissionStart(node: XmlElement): PermissionStart {
+  const permission: PermissionStart = {
+    type: 'permStart',
+    id: getAttribute(node, 'w', 'id') ?? '',
+  };
+  const ed = getAttribute(node, 'w', 'ed');
+  const edGrp = getAttribute(node, 'w', 'edGrp');
+  if (ed) permission.ed = ed;
+  if (edGrp) permission.edGrp = edGrp;
+  return permission;
+}
+
 /**
  * Parse field type from instruction string
  */
@@ -872,6 +916,34 @@ function parseParagraphContents(
   let afterSeparator = false;
   let complexFieldLock = false;
   let complexFieldDirty = false;
+  let complexFieldStart = 0;
+  let complexFieldResultPositions: number[] = [];
+
+  /**
+   * Keep a field that doesn't end in this paragraph (e.g. a TOC spanning
+   * paragraphs) as raw field-character runs so its result isn't lost
+   */
+  const keepOpenField = () => {
+    const marker: Run = {
+      type: 'run',
+      content: [
+        {
+          type: 'fieldChar',
+          charType: 'begin',
+          ...(complexFieldLock ? { fldLock: true } : {}),
+          ...(complexFieldDirty ? { dirty: true } : {}),
+        },
+        { type: 'instrText', text: complexFieldInstr },
+        ...(afterSeparator ? [{ type: 'fieldChar' as const, charType: 'separate' as const }] : []),
+      ],
+    };
+    // Insert from the back so earlier positions stay valid
+    for (let i = complexFieldResultRuns.length - 1; i >= 0; i--) {
+      contents.splice(complexFieldResultPositions[i], 0, complexFieldResultRuns[i]);
+    }
+    contents.splice(complexFieldStart, 0, marker);
+    inComplexField = false;
+  };
 
   for (const child of children) {
     const localName = getLocalName(child.name);
@@ -887,14 +959,16 @@ function parseParagraphContents(
         let hasFieldBegin = false;
         let hasFieldSeparate = false;
         let hasFieldEnd = false;
+        let beginLock = false;
+        let beginDirty = false;
         let instrText = '';
 
         for (const content of run.content) {
           if (content.type === 'fieldChar') {
             if (content.charType === 'begin') {
               hasFieldBegin = true;
-              if (content.fldLock) complexFieldLock = true;
-              if (content.dirty) complexFieldDirty = true;
+              beginLock = !!content.fldLock;
+              beginDirty = !!content.dirty;
             } else if (content.charType === 'separate') {
               hasFieldSeparate = true;
             } else if (content.charType === 'end') {
@@ -906,14 +980,18 @@ function parseParagraphContents(
         }
 
         if (hasFieldBegin) {
+          // A field nested in another field's result: keep the outer one as raw runs
+          if (inComplexField && afterSeparator) keepOpenField();
           // Starting a new complex field
           inComplexField = true;
+          complexFieldStart = contents.length;
+          complexFieldResultPositions = [];
           afterSeparator = false;
           complexFieldInstr = '';
           complexFieldCodeRuns = [];
           complexFieldResultRuns = [];
-          complexFieldLock = false;
-          complexFieldDirty = false;
+          complexFieldLock = beginLock;
+          complexFieldDirty = beginDirty;
         }
 
         if (inComplexField) {
@@ -929,6 +1007,7 @@ function parseParagraphContents(
             // Add to result runs (excluding the separator run itself)
             if (!hasFieldSeparate) {
               complexFieldResultRuns.push(run);
+              complexFieldResultPositions.push(contents.length);
             }
           } else if (!afterSeparator && !hasFieldBegin) {
             // Add to code runs
@@ -978,9 +1057,15 @@ function parseParagraphContents(
         // Already handled separately
         break;
 
-      case 'proofErr':
       case 'permStart':
+        contents.push(parsePermissionStart(child));
+        break;
+
       case 'permEnd':
+        contents.push({ type: 'permEnd', id: getAttribute(child, 'w', 'id') ?? '' });
+        break;
+
+      case 'proofErr':
       case 'customXml':
         // Skip these elements
         break;
@@ -1095,9 +1180,7 @@ function parseParagraphContents(
         break;
 
       case 'moveFromRangeStart': {
-        const id = parseInt(getAttribute(child, 'w', 'id') ?? '0', 10);
-        const name = getAttribute(child, 'w', 'name') ?? '';
-        contents.push({ type: 'moveFromRangeStart', id, name });
+        contents.push({ type: 'moveFromRangeStart', ...parseMoveRangeStart(child) });
         break;
       }
       case 'moveFromRangeEnd': {
@@ -1106,9 +1189,7 @@ function parseParagraphContents(
         break;
       }
       case 'moveToRangeStart': {
-        const id = parseInt(getAttribute(child, 'w', 'id') ?? '0', 10);
-        const name = getAttribute(child, 'w', 'name') ?? '';
-        contents.push({ type: 'moveToRangeStart', id, name });
+        contents.push({ type: 'moveToRangeStart', ...parseMoveRangeStart(child) });
         break;
       }
       case 'moveToRangeEnd': {
@@ -1150,6 +1231,8 @@ function parseParagraphContents(
     }
   }
 
+  if (inComplexField) keepOpenField();
+
   return contents;
 }
 
@@ -39,6 +39,10 @@ import { parseDocumentBody, extractAllTemplateVariables } from './documentParser
 import { parseHeader, parseFooter } from './headerFooterParser';
 import { parseFootnotes, parseEndnotes } from './footnoteParser';
 import { parseComments } from './commentParser';
+import { parseDocumentProperties } from './propertiesParser';
+import { parseDocumentSettings } from './settingsParser';
+import { parseCustomXmlParts } from './customXmlParser';
+import { applyBoundData } from './dataBinding';
 import { loadFontsWithMapping } from '../utils/fontLoader';
 import { type DocxInput, toArrayBuffer } from '../utils/docxInput';
 
@@ -282,7 +286,11 @@ export async function parseDocx(input: DocxInput, options: ParseOptions = {}): P
       endnotes,
       relationships: rels,
       media,
+      properties: parseDocumentProperties(raw.corePropsXml, raw.customPropsXml),
+      settings: parseDocumentSettings(raw.settingsXml),
     };
+    const customXmlParts = parseCustomXmlParts(raw.allXml, rels);
+    if (customXmlParts.length > 0) pkg.customXmlParts = customXmlParts;
 
     const document: Document = {
       package: pkg,
@@ -290,6 +298,8 @@ export async function parseDocx(input: DocxInput, options: ParseOptions = {}): P
       templateVariables,
       warnings: warnings.length > 0 ? warnings : undefined,
     };
+    // Bound content controls show the data in their custom XML part, as in Word
+    applyBoundData(document);
 
     const totalTime = performance.now() - parseStart;
     if (totalTime > 2000) {
@@ -0,0 +1,149 @@
+/**
+ * Permission Ranges - Editable regions of a protected document
+ *
+ * Word marks the regions that stay editable under document protection with
+ * w:permStart/w:permEnd pairs. A pair may sit between paragraphs or span
+ * several of them, e.g.
+ *
+ *   <w:permStart w:id="1" w:edGrp="everyone"/>
+ *   <w:p>…</w:p>
+ *   <w:p>…<w:permEnd w:id="1"/></w:p>
+ *
+ * The editor works per paragraph, so ranges are split into one pair per
+ * paragraph after parsing and merged back into single ranges before saving.
+ */
+
+import type {
+  BlockContent,
+  Paragraph,
+  ParagraphContent,
+  PermissionEnd,
+  PermissionStart,
+} from '../types/document';
+
+// ============================================================================
+// PARAGRAPH TRAVERSAL
+// ============================================================================
+
+/**
+ * Visit paragraphs in document order, including those in tables and
+ * block content controls
+ */
+export function forEachParagraph(
+  blocks: BlockContent[],
+  visit: (paragraph: Paragraph) => void
+): void {
+  for (const block of blocks) {
+    if (block.type === 'paragraph') {
+      visit(block);
+    } else if (block.type === 'table') {
+      for (const row of block.rows) {
+        for (const cell of row.cells) forEachParagraph(cell.content, visit);
+      }
+    } else if (block.type === 'blockSdt') {
+      forEachParagraph(block.content, visit);
+    }
+  }
+}
+
+/**
+ * First paragraph of a block, where block-level markers before it belong
+ */
+export function firstParagraphOf(block: BlockContent): Paragraph | undefined {
+  let first: Paragraph | undefined;
+  forEachParagraph([block], (paragraph) => {
+    if (!first) first = paragraph;
+  });
+  return first;
+}
+
+// ============================================================================
+// SPLIT AND MERGE
+// ============================================================================
+
+/**
+ * Split ranges that span paragraphs into one permStart/permEnd pair per
+ * paragraph, so each paragraph's markers are balanced
+ */
+export function splitPermissionRanges(blocks: BlockContent[]): void {
+  const open = new Map<string, PermissionStart>();
+
+  forEachParagraph(blocks, (paragraph) => {
+    const continued = [...open.values()].map((start) => ({ ...start }));
+    for (const item of paragraph.content) {
+      if (item.type === 'permStart') open.set(item.id, item);
+      else if (item.type === 'permEnd') open.delete(item.id);
+    }
+    const unclosed: PermissionEnd[] = [...open.keys()].map((id) => ({ type: 'permEnd', id }));
+    if (continued.length > 0 || unclosed.length > 0) {
+      paragraph.content = [...continued, ...paragraph.content, ...unclosed];
+    }
+  });
+}
+
+/**
+ * Join the per-paragraph pairs of a range back into one range: a paragraph
+ * ending a range and the next paragraph with content starting it again
+ */
+export function mergePermissionRanges(blocks: BlockContent[]): void {
+  let pending: { paragraph: Paragraph; end: PermissionEnd } | null = null;
+
+  forEachParagraph(blocks, (paragraph) => {
+    const hasContent = paragraph.content.some((item) => !isMarker(item));
+    if (!hasContent && !paragraph.content.some(isPermission)) return;
+
+    const start = edgePermission(paragraph.content, 'start');
+    if (pending && start?.type === 'permStart' && start.id === pending.end.id) {
+      const { end } = pending;
+      pending.paragraph.content = pending.paragraph.content.filter((c) => c !== end);
+      paragraph.content = paragraph.content.filter((c) => c !== start);
+    }
+
+    const end = edgePermission(paragraph.content, 'end');
+    pending = end?.type === 'permEnd' ? { paragraph, end } : null;
+  });
+}
+
+/**
+ * The range covering a whole paragraph: one that starts and ends at its edges
+ */
+export function paragraphPermission(paragraph: Paragraph): PermissionStart | undefined {
+  const start = edgePermission(paragraph.content, 'start');
+  const end = edgePermission(paragraph.content, 'end');
+  if (start?.type !== 'permStart' || end?.type !== 'permEnd' || start.id !== end.id) {
+    return undefined;
+  }
+  // The range mustn't close and reopen in between
+  const ends = paragraph.content.filter((c) => c.type === 'permEnd' && c.id === start.id);
+  return ends.length === 1 ? start : undefined;
+}
+
+/**
+ * The permission marker at the start or end of a paragraph, looking past
+ * bookmarks
+ */
+function edgePermission(
+  content: ParagraphContent[],
+  edge: 'start' | 'end'
+): PermissionStart | PermissionEnd | undefined {
+  const items = edge === 'start' ? content : [...content].reverse();
+  for (const item of items) {
+    if (item.type === 'bookmarkStart' || item.type === 'bookmarkEnd') continue;
+    return isPermission(item) ? item : undefined;
+  }
+  return undefined;
+}
+
+function isPermission(item: ParagraphContent): item is PermissionStart | PermissionEnd {
+  return item.type === 'permStart' || item.type === 'permEnd';
+}
+
+function isMarker(item: ParagraphContent): boolean {
+  return (
+    isPermission(item) ||
+    item.type === 'bookmarkStart' ||
+    item.type === 'bookmarkEnd' ||
+    item.type === 'commentRangeStart' ||
+    item.type === 'commentRangeEnd'
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * Properties Parser - Parse docProps/core.xml and docProps/custom.xml
+ *
+ * Core properties hold the built-in metadata (title, author, dates); custom
+ * properties are the name/value pairs users add under File > Properties.
+ * Both feed DOCPROPERTY and the AUTHOR/TITLE/... fields.
+ *
+ * OOXML Reference:
+ * - Core: cp:coreProperties with dc:title, dc:creator, cp:lastModifiedBy,
+ *   cp:revision, dcterms:created, dcterms:modified, ...
+ * - Custom: Properties/property (name) with one vt:* value child
+ */
+
+import type { DocxPackage } from '../types/document';
+import { parseXmlDocument, getChildElements, getLocalName, getTextContent } from './xmlParser';
+
+export type DocumentProperties = NonNullable<DocxPackage['properties']>;
+
+/**
+ * Parse the core and custom property parts
+ *
+ * @param corePropsXml - docProps/core.xml content
+ * @param customPropsXml - docProps/custom.xml content
+ * @returns Parsed properties, or undefined when neither part has any
+ */
+export function parseDocumentProperties(
+  corePropsXml: string | null,
+  customPropsXml: string | null
+): DocumentProperties | undefined {
+  const properties: DocumentProperties = {};
+
+  const core = corePropsXml ? parseXmlDocument(corePropsXml) : null;
+  for (const child of getChildElements(core)) {
+    const value = getTextContent(child).trim();
+    if (!value) continue;
+
+    switch (getLocalName(child.name ?? '')) {
+      case 'title':
+        properties.title = value;
+        break;
+      case 'subject':
+        properties.subject = value;
+        break;
+      case 'creator':
+        properties.creator = value;
+        break;
+      case 'keywords':
+        properties.keywords = value;
+        break;
+      case 'description':
+        properties.description = value;
+        break;
+      case 'lastModifiedBy':
+        properties.lastModifiedBy = value;
+        break;
+      case 'revision': {
+        const revision = parseInt(value, 10);
+        if (!isNaN(revision)) properties.revision = revision;
+        break;
+      }
+      case 'created': {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) properties.created = date;
+        break;
+      }
+      case 'modified': {
+        const date = new Date(value);
+        if (!isNaN(date.getTime())) properties.modified = date;
+        break;
+      }
+    }
+  }
+
+  const custom = customPropsXml ? parseXmlDocument(customPropsXml) : null;
+  for (const property of getChildElements(custom)) {
+    const name = property.attributes?.name;
+    if (getLocalName(property.name ?? '') !== 'property' || typeof name !== 'string') continue;
+    if (!properties.custom) properties.custom = {};
+    properties.custom[name] = getTextContent(getChildElements(property)[0]);
+  }
+
+  return Object.keys(properties).length > 0 ? properties : undefined;
+}
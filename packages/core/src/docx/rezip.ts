@@ -43,6 +43,10 @@ import {
 import { RELATIONSHIP_TYPES } from './relsParser';
 import { type RawDocxContent } from './unzip';
 import { escapeXml } from './serializer/xmlUtils';
+import { serializeStyles } from './serializer/stylesSerializer';
+import { serializeNumbering } from './serializer/numberingSerializer';
+import { serializeSettings, updateSettingsXml } from './serializer/settingsSerializer';
+import { writeBoundData } from './dataBinding';
 
 /**
  * Find the highest rId number in a relationships XML string.
@@ -413,6 +417,12 @@ export async function repackDocx(doc: Document, options: RepackOptions = {}): Pr
   // Serialize comments
   await serializeCommentsToZip(exportDocument, newZip, compressionLevel);
 
+  // Write document protection and other editor-owned settings
+  await serializeSettingsToZip(exportDocument, newZip, compressionLevel);
+
+  // Write bound content control values back into their custom XML parts
+  await serializeCustomXmlToZip(exportDocument, newZip, compressionLevel);
+
   // Optionally update modification date in docProps/core.xml
   if (updateModifiedDate) {
     const corePropsPath = 'docProps/core.xml';
@@ -498,6 +508,12 @@ export async function repackDocxFromRaw(
   // Serialize comments
   await serializeCommentsToZip(exportDocument, newZip, compressionLevel);
 
+  // Write document protection and other editor-owned settings
+  await serializeSettingsToZip(exportDocument, newZip, compressionLevel);
+
+  // Write bound content control values back into their custom XML parts
+  await serializeCustomXmlToZip(exportDocument, newZip, compressionLevel);
+
   // Optionally update core properties
   if (updateModifiedDate && rawContent.corePropsXml) {
     const updatedCoreProps = updateCoreProperties(rawContent.corePropsXml, {
@@ -895,6 +911,93 @@ function serializeHeadersFootersToZip(doc: Document, zip: JSZip, compressionLeve
   }
 }
 
+// ============================================================================
+// SETTINGS SERIALIZATION
+// ============================================================================
+
+export const SETTINGS_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.settings+xml';
+
+/**
+ * Write the document's settings into word/settings.xml. The part, its
+ * content type and relationship are created when the package has none and
+ * there is something to write.
+ */
+async function serializeSettingsToZip(
+  doc: Document,
+  zip: JSZip,
+  compressionLevel: number
+): Promise<void> {
+  const settings = doc.package.settings;
+  if (!settings) return;
+  const fileOptions = {
+    compression: 'DEFLATE' as const,
+    compressionOptions: { level: compressionLevel },
+  };
+
+  const settingsFile = zip.file('word/settings.xml');
+  if (settingsFile) {
+    const originalXml = await settingsFile.async('text');
+    const updatedXml = updateSettingsXml(originalXml, settings);
+    if (updatedXml !== originalXml) zip.file('word/settings.xml', updatedXml, fileOptions);
+    return;
+  }
+  if (!settings.protection) return;
+
+  zip.file('word/settings.xml', serializeSettings(settings), fileOptions);
+
+  const ctFile = zip.file('[Content_Types].xml');
+  if (ctFile) {
+    const ctXml = await ctFile.async('text');
+    if (!ctXml.includes('/word/settings.xml')) {
+      zip.file(
+        '[Content_Types].xml',
+        ctXml.replace(
+          '</Types>',
+          `<Override PartName="/word/settings.xml" ContentType="${SETTINGS_CONTENT_TYPE}"/></Types>`
+        ),
+        fileOptions
+      );
+    }
+  }
+
+  const relsPath = 'word/_rels/document.xml.rels';
+  const relsFile = zip.file(relsPath);
+  if (relsFile) {
+    const relsXml = await relsFile.async('text');
+    if (!relsXml.includes('settings.xml')) {
+      const newRId = `rId${findMaxRId(relsXml) + 1}`;
+      zip.file(
+        relsPath,
+        relsXml.replace(
+          '</Relationships>',
+          `<Relationship Id="${newRId}" Type="${RELATIONSHIP_TYPES.settings}" Target="settings.xml"/></Relationships>`
+        ),
+        fileOptions
+      );
+    }
+  }
+}
+
+/**
+ * Write custom XML parts whose content changed, either through edits to
+ * bound content controls or new bound data
+ */
+async function serializeCustomXmlToZip(
+  doc: Document,
+  zip: JSZip,
+  compressionLevel: number
+): Promise<void> {
+  for (const part of writeBoundData(doc)) {
+    const file = zip.file(part.path);
+    if (!file || (await file.async('text')) === part.xml) continue;
+    zip.file(part.path, part.xml, {
+      compression: 'DEFLATE',
+      compressionOptions: { level: compressionLevel },
+    });
+  }
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -1187,6 +1290,54 @@ export async function createEmptyDocx(): Promise<ArrayBuffer> {
   });
 }
 
+export const NUMBERING_CONTENT_TYPE =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml';
+
+/**
+ * Write styles.xml and numbering.xml from an in-memory document into an empty
+ * package. Without them, headings and lists built in memory would lose their
+ * definitions once the file is opened elsewhere.
+ */
+async function addDefinitionParts(buffer: ArrayBuffer, doc: Document): Promise<ArrayBuffer> {
+  const { styles, numbering } = doc.package;
+  const hasNumbering = !!numbering && numbering.nums.length > 0;
+  if (!styles && !hasNumbering) return buffer;
+
+  const zip = await JSZip.loadAsync(buffer);
+  if (styles) {
+    zip.file('word/styles.xml', serializeStyles(styles));
+  }
+  if (hasNumbering) {
+    zip.file('word/numbering.xml', serializeNumbering(numbering));
+
+    const ctXml = await zip.file('[Content_Types].xml')!.async('text');
+    zip.file(
+      '[Content_Types].xml',
+      ctXml.replace(
+        '</Types>',
+        `<Override PartName="/word/numbering.xml" ContentType="${NUMBERING_CONTENT_TYPE}"/></Types>`
+      )
+    );
+
+    const relsPath = 'word/_rels/document.xml.rels';
+    const relsXml = await zip.file(relsPath)!.async('text');
+    const rId = `rId${findMaxRId(relsXml) + 1}`;
+    zip.file(
+      relsPath,
+      relsXml.replace(
+        '</Relationships>',
+        `<Relationship Id="${rId}" Type="${RELATIONSHIP_TYPES.numbering}" Target="numbering.xml"/></Relationships>`
+      )
+    );
+  }
+
+  return zip.generateAsync({
+    type: 'arraybuffer',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+  });
+}
+
 /**
  * Create a new DOCX from a Document (without requiring original buffer)
  *
@@ -1194,13 +1345,14 @@ export async function createEmptyDocx(): Promise<ArrayBuffer> {
  * @returns Promise resolving to DOCX as ArrayBuffer
  */
 export async function createDocx(doc: Document): Promise<ArrayBuffer> {
-  // Start with an empty DOCX
+  // Start with an empty DOCX, carrying the document's own styles and numbering
   const emptyBuffer = await createEmptyDocx();
+  const baseBuffer = await addDefinitionParts(emptyBuffer, doc);
 
   // Add document as original buffer
   const docWithBuffer: Document = {
     ...doc,
-    originalBuffer: emptyBuffer,
+    originalBuffer: baseBuffer,
   };
 
   // Repack with the document content
@@ -372,6 +372,24 @@ export function parseRunProperties(
   const cs = findChild(rPr, 'w', 'cs');
   if (cs) formatting.cs = parseBooleanElement(cs);
 
+  // Language (w:lang)
+  const lang = findChild(rPr, 'w', 'lang');
+  if (lang) {
+    const val = getAttribute(lang, 'w', 'val');
+    const eastAsia = getAttribute(lang, 'w', 'eastAsia');
+    const bidi = getAttribute(lang, 'w', 'bidi');
+    if (val || eastAsia || bidi) {
+      formatting.lang = {};
+      if (val) formatting.lang.val = val;
+      if (eastAsia) formatting.lang.eastAsia = eastAsia;
+      if (bidi) formatting.lang.bidi = bidi;
+    }
+  }
+
+  // No proofing (w:noProof)
+  const noProof = findChild(rPr, 'w', 'noProof');
+  if (noProof) formatting.noProof = parseBooleanElement(noProof);
+
   // Character style reference (w:rStyle)
   const rStyle = findChild(rPr, 'w', 'rStyle');
   if (rStyle) {
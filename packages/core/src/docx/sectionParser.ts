@@ -12,6 +12,7 @@
  * - w:cols: Column definitions
  * - w:type: Section start type
  * - w:vAlign: Vertical alignment
+ * - w:textDirection: Text flow of the section body
  * - w:headerReference, w:footerReference: Header/footer references
  * - w:titlePg: Different first page
  * - w:lnNumType: Line numbering
@@ -25,6 +26,7 @@ import type {
   PageOrientation,
   SectionStart,
   VerticalAlign,
+  TextDirection,
   LineNumberRestart,
   Column,
   BorderSpec,
@@ -179,6 +181,26 @@ function parseVerticalAlign(align: string | null): VerticalAlign | undefined {
   }
 }
 
+/**
+ * Parse text direction
+ */
+function parseTextDirection(direction: string | null): TextDirection | undefined {
+  switch (direction) {
+    case 'lr':
+    case 'lrV':
+    case 'rl':
+    case 'rlV':
+    case 'tb':
+    case 'tbV':
+    case 'tbRl':
+    case 'tbRlV':
+    case 'btLr':
+      return direction;
+    default:
+      return undefined;
+  }
+}
+
 /**
  * Parse line number restart type
  */
@@ -369,6 +391,17 @@ export function parseSectionProperties(
     }
   }
 
+  // ============================================================================
+  // TEXT DIRECTION (w:textDirection)
+  // ============================================================================
+  const textDirectionEl = findChild(sectPr, 'w', 'textDirection');
+  if (textDirectionEl) {
+    const textDirection = parseTextDirection(getAttribute(textDirectionEl, 'w', 'val'));
+    if (textDirection) {
+      props.textDirection = textDirection;
+    }
+  }
+
   // ============================================================================
   // BIDIRECTIONAL (w:bidi)
   // ============================================================================
@@ -780,6 +813,7 @@ export function mergeSectionProperties(
   if (override.sectionStart !== undefined) result.sectionStart = override.sectionStart;
   if (override.verticalAlign !== undefined) result.verticalAlign = override.verticalAlign;
   if (override.bidi !== undefined) result.bidi = override.bidi;
+  if (override.textDirection !== undefined) result.textDirection = override.textDirection;
   if (override.headerReferences !== undefined) result.headerReferences = override.headerReferences;
   if (override.footerReferences !== undefined) result.footerReferences = override.footerReferences;
   if (override.titlePg !== undefined) result.titlePg = override.titlePg;
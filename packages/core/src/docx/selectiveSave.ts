@@ -17,6 +17,8 @@ import {
   serializeCommentsExtensible,
 } from './serializer/commentSerializer';
 import { buildPatchedDocumentXml } from './selectiveXmlPatch';
+import { updateSettingsXml } from './serializer/settingsSerializer';
+import { writeBoundData } from './dataBinding';
 import {
   applyUpdatesToZip,
   findMaxRId,
@@ -194,6 +196,27 @@ export async function attemptSelectiveSave(
       updates.set(path, xml);
     }
 
+    // Patch settings.xml (document protection); a missing part needs a full repack
+    const settings = doc.package.settings;
+    if (settings) {
+      const settingsFile = zip.file('word/settings.xml');
+      if (settingsFile) {
+        const settingsXml = await settingsFile.async('text');
+        const updatedSettingsXml = updateSettingsXml(settingsXml, settings);
+        if (updatedSettingsXml !== settingsXml) {
+          updates.set('word/settings.xml', updatedSettingsXml);
+        }
+      } else if (settings.protection) {
+        return null;
+      }
+    }
+
+    // Write bound content control values back into their custom XML parts
+    for (const part of writeBoundData(doc)) {
+      const file = zip.file(part.path);
+      if (file && (await file.async('text')) !== part.xml) updates.set(part.path, part.xml);
+    }
+
     // Update modification date in docProps/core.xml
     const corePropsFile = zip.file('docProps/core.xml');
     if (corePropsFile) {
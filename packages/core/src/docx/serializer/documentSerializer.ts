@@ -21,6 +21,9 @@ import type {
   FootnoteProperties,
   EndnoteProperties,
   BorderSpec,
+  Paragraph,
+  Run,
+  TableOfContentsInfo,
 } from '../../types/document';
 
 import { serializeParagraph } from './paragraphSerializer';
@@ -539,6 +542,11 @@ export function serializeSectionProperties(props: SectionProperties | undefined)
     parts.push(`<w:vAlign w:val="${props.verticalAlign}"/>`);
   }
 
+  // Text direction
+  if (props.textDirection) {
+    parts.push(`<w:textDirection w:val="${props.textDirection}"/>`);
+  }
+
   // Bidirectional
   if (props.bidi) {
     parts.push('<w:bidi/>');
@@ -587,7 +595,90 @@ function serializeBlockContent(block: BlockContent): string {
  * Serialize document body content
  */
 function serializeBodyContent(content: BlockContent[]): string {
-  return content.map((block) => serializeBlockContent(block)).join('');
+  const parts: string[] = [];
+  let index = 0;
+  while (index < content.length) {
+    const block = content[index];
+    if (block.type === 'paragraph' && block.tableOfContents) {
+      const group = collectTableOfContents(content, index);
+      parts.push(serializeTableOfContents(group));
+      index += group.length;
+      continue;
+    }
+    parts.push(serializeBlockContent(block));
+    index++;
+  }
+  return parts.join('');
+}
+
+// ============================================================================
+// TABLE OF CONTENTS
+// ============================================================================
+
+/**
+ * Collect the consecutive paragraphs of one table of contents
+ */
+function collectTableOfContents(content: BlockContent[], start: number): Paragraph[] {
+  const first = (content[start] as Paragraph).tableOfContents!;
+  const group: Paragraph[] = [];
+  let seenEntry = false;
+  for (let i = start; i < content.length; i++) {
+    const block = content[i];
+    const info = block.type === 'paragraph' ? block.tableOfContents : undefined;
+    if (!info || info.instruction !== first.instruction || !info.docPart !== !first.docPart) break;
+    // A title after entries starts the next TOC
+    if (info.title && seenEntry) break;
+    if (!info.title) seenEntry = true;
+    group.push(block as Paragraph);
+  }
+  return group;
+}
+
+/**
+ * Serialize a table of contents as one TOC field spanning its paragraphs,
+ * inside a "Table of Contents" docPart content control when it had one
+ */
+function serializeTableOfContents(paragraphs: Paragraph[]): string {
+  const info = paragraphs[0].tableOfContents!;
+  let firstEntry = paragraphs.findIndex((p) => !p.tableOfContents?.title);
+  // A TOC that lost all its entries still needs somewhere to hold the field
+  if (firstEntry < 0) firstEntry = paragraphs.length - 1;
+  const lastIndex = paragraphs.length - 1;
+
+  const xml = paragraphs
+    .map((paragraph, i) => {
+      let content = paragraph.content;
+      if (i === firstEntry) content = [tocFieldBegin(info), ...content];
+      if (i === lastIndex) content = [...content, tocFieldEnd()];
+      return serializeParagraph({ ...paragraph, content });
+    })
+    .join('');
+
+  if (!info.docPart) return xml;
+  return (
+    '<w:sdt><w:sdtPr><w:docPartObj><w:docPartGallery w:val="Table of Contents"/>' +
+    `<w:docPartUnique/></w:docPartObj></w:sdtPr><w:sdtContent>${xml}</w:sdtContent></w:sdt>`
+  );
+}
+
+function tocFieldBegin(info: TableOfContentsInfo): Run {
+  return {
+    type: 'run',
+    content: [
+      {
+        type: 'fieldChar',
+        charType: 'begin',
+        ...(info.fldLock ? { fldLock: true } : {}),
+        ...(info.dirty ? { dirty: true } : {}),
+      },
+      { type: 'instrText', text: ` ${info.instruction} ` },
+      { type: 'fieldChar', charType: 'separate' },
+    ],
+  };
+}
+
+function tocFieldEnd(): Run {
+  return { type: 'run', content: [{ type: 'fieldChar', charType: 'end' }] };
 }
 
 // ============================================================================
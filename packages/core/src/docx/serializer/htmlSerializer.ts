@@ -0,0 +1,231 @@
+/**
+ * HTML Serializer - Export a Document as semantic HTML
+ *
+ * Produces clean, style-free markup for publishing:
+ * - h1-h6 from outline levels, p, blockquote, pre/code
+ * - ol/ul from numbering definitions (start and type carried over)
+ * - tables with thead/th for header rows and colspan/rowspan for merges
+ * - footnotes and endnotes as numbered links to a notes section
+ * - images as data URIs or references to extracted files
+ */
+
+import type { Document } from '../../types/document';
+import { sanitizeHref } from '../../utils/safeUrl';
+import {
+  buildSemanticDocument,
+  type ExportedFile,
+  type SemanticBlock,
+  type SemanticExportOptions,
+  type SemanticInline,
+  type SemanticNote,
+  type SemanticTextStyle,
+} from './semanticContent';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HtmlExportOptions extends SemanticExportOptions {
+  /** Wrap the body in a complete HTML page (default: false) */
+  fullDocument?: boolean;
+}
+
+export interface HtmlExportResult {
+  html: string;
+  /** Extracted images (only when `images` is 'files') */
+  files: ExportedFile[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const LIST_TYPES: Record<string, string> = {
+  lowerLetter: 'a',
+  upperLetter: 'A',
+  lowerRoman: 'i',
+  upperRoman: 'I',
+};
+
+/**
+ * Escape text for HTML content and attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function attrs(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeHtml(String(value))}"`)
+    .join('');
+}
+
+function noteId(note: { noteType: string; number: number }): string {
+  return `${note.noteType === 'footnote' ? 'fn' : 'en'}-${note.number}`;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+class HtmlRenderer {
+  /** Notes whose first reference has been written (gets the backlink id) */
+  private referencedNotes = new Set<string>();
+
+  renderBlocks(blocks: SemanticBlock[]): string {
+    return blocks.map((block) => this.renderBlock(block)).join('\n');
+  }
+
+  private renderBlock(block: SemanticBlock): string {
+    switch (block.kind) {
+      case 'heading':
+      case 'paragraph': {
+        const tag = block.kind === 'heading' ? `h${block.level}` : 'p';
+        const [id, ...extra] = block.anchors;
+        const anchors = extra.map((name) => `<a${attrs({ id: name })}></a>`).join('');
+        return `<${tag}${attrs({ id })}>${anchors}${this.renderInlines(block.content)}</${tag}>`;
+      }
+      case 'quote':
+        return `<blockquote>\n${this.renderBlocks(block.blocks)}\n</blockquote>`;
+      case 'code':
+        return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const listAttrs = block.ordered
+          ? attrs({
+              start: block.start !== 1 ? block.start : undefined,
+              type: block.numFmt ? LIST_TYPES[block.numFmt] : undefined,
+            })
+          : '';
+        const items = block.items.map((item) => {
+          const [id, ...extra] = item.anchors;
+          const anchors = extra.map((name) => `<a${attrs({ id: name })}></a>`).join('');
+          const children =
+            item.children.length > 0 ? `\n${this.renderBlocks(item.children)}\n` : '';
+          return `<li${attrs({ id })}>${anchors}${this.renderInlines(item.content)}${children}</li>`;
+        });
+        return `<${tag}${listAttrs}>\n${items.join('\n')}\n</${tag}>`;
+      }
+      case 'table': {
+        const renderRow = (cells: (typeof block.rows)[number]) =>
+          `<tr>${cells
+            .map((cell) => {
+              const tag = cell.header ? 'th' : 'td';
+              const cellAttrs = attrs({
+                colspan: cell.colSpan > 1 ? cell.colSpan : undefined,
+                rowspan: cell.rowSpan > 1 ? cell.rowSpan : undefined,
+              });
+              return `<${tag}${cellAttrs}>${this.renderCellContent(cell.blocks)}</${tag}>`;
+            })
+            .join('')}</tr>`;
+        const head = block.rows.slice(0, block.headerRows).map(renderRow);
+        const body = block.rows.slice(block.headerRows).map(renderRow);
+        const parts = ['<table>'];
+        if (head.length > 0) parts.push(`<thead>\n${head.join('\n')}\n</thead>`);
+        if (body.length > 0) parts.push(`<tbody>\n${body.join('\n')}\n</tbody>`);
+        parts.push('</table>');
+        return parts.join('\n');
+      }
+    }
+  }
+
+  /** A cell holding one plain paragraph renders without the wrapping <p> */
+  private renderCellContent(blocks: SemanticBlock[]): string {
+    const [only] = blocks;
+    if (blocks.length === 1 && only.kind === 'paragraph' && only.anchors.length === 0) {
+      return this.renderInlines(only.content);
+    }
+    return blocks.length > 0 ? this.renderBlocks(blocks) : '';
+  }
+
+  renderInlines(inlines: SemanticInline[]): string {
+    return inlines.map((inline) => this.renderInline(inline)).join('');
+  }
+
+  private renderInline(inline: SemanticInline): string {
+    switch (inline.kind) {
+      case 'text':
+        return wrapStyle(escapeHtml(inline.text), inline.style);
+      case 'link':
+        // Unsafe targets (javascript: and the like) keep the text, not the link
+        return `<a${attrs({ href: sanitizeHref(inline.href) ?? undefined, title: inline.title })}>${this.renderInlines(inline.children)}</a>`;
+      case 'image':
+        return `<img${attrs({
+          src: inline.src,
+          alt: inline.alt,
+          width: inline.width || undefined,
+          height: inline.height || undefined,
+        })}>`;
+      case 'break':
+        return '<br>';
+      case 'math':
+        return `<span${attrs({ class: inline.display === 'block' ? 'math math-display' : 'math' })}>${escapeHtml(inline.text)}</span>`;
+      case 'noteRef': {
+        const id = noteId(inline);
+        const first = !this.referencedNotes.has(id);
+        this.referencedNotes.add(id);
+        return `<sup${attrs({ id: first ? `${id}-ref` : undefined })}><a${attrs({ href: `#${id}` })}>${inline.number}</a></sup>`;
+      }
+    }
+  }
+
+  renderNotes(notes: SemanticNote[]): string {
+    if (notes.length === 0) return '';
+    const items = notes.map((note) => {
+      const id = noteId(note);
+      const backlink = `<a${attrs({ href: `#${id}-ref` })}>↩</a>`;
+      const content = this.renderBlocks(note.blocks);
+      // Put the backlink inside the last paragraph when there is one
+      const withBacklink = content.endsWith('</p>')
+        ? `${content.slice(0, -'</p>'.length)} ${backlink}</p>`
+        : `${content}\n${backlink}`;
+      return `<li${attrs({ id })}>${withBacklink}</li>`;
+    });
+    return `<section class="footnotes">\n<hr>\n<ol>\n${items.join('\n')}\n</ol>\n</section>`;
+  }
+}
+
+function wrapStyle(html: string, style: SemanticTextStyle): string {
+  let result = html;
+  if (style.code) result = `<code>${result}</code>`;
+  if (style.superscript) result = `<sup>${result}</sup>`;
+  if (style.subscript) result = `<sub>${result}</sub>`;
+  if (style.strike) result = `<s>${result}</s>`;
+  if (style.underline) result = `<u>${result}</u>`;
+  if (style.italic) result = `<em>${result}</em>`;
+  if (style.bold) result = `<strong>${result}</strong>`;
+  return result;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Serialize a document to semantic HTML
+ */
+export function serializeDocumentToHtml(
+  doc: Document,
+  options: HtmlExportOptions = {}
+): HtmlExportResult {
+  const semantic = buildSemanticDocument(doc, options);
+  const renderer = new HtmlRenderer();
+  const body = [renderer.renderBlocks(semantic.blocks), renderer.renderNotes(semantic.notes)]
+    .filter(Boolean)
+    .join('\n');
+
+  if (!options.fullDocument) {
+    return { html: body, files: semantic.files };
+  }
+
+  const title = semantic.title ? `\n<title>${escapeHtml(semantic.title)}</title>` : '';
+  const html =
+    `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">${title}\n</head>\n` +
+    `<body>\n${body}\n</body>\n</html>`;
+  return { html, files: semantic.files };
+}
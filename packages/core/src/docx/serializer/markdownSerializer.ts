@@ -0,0 +1,262 @@
+/**
+ * Markdown Serializer - Export a Document as GitHub-flavored Markdown
+ *
+ * Same structure as the HTML export, in GFM syntax:
+ * - ATX headings, nested `-` / `1.` lists, fenced code, `>` quotes
+ * - pipe tables (merged cells become empty cells, since GFM can't span)
+ * - footnotes and endnotes as `[^n]` references with definitions at the end
+ * - superscript/subscript and bookmark anchors as inline HTML
+ */
+
+import type { Document } from '../../types/document';
+import { sanitizeHref } from '../../utils/safeUrl';
+import {
+  buildSemanticDocument,
+  inlinesToPlainText,
+  type ExportedFile,
+  type SemanticBlock,
+  type SemanticExportOptions,
+  type SemanticInline,
+  type SemanticNote,
+  type SemanticTableCell,
+} from './semanticContent';
+import { escapeHtml } from './htmlSerializer';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MarkdownExportOptions = SemanticExportOptions;
+
+export interface MarkdownExportResult {
+  markdown: string;
+  /** Extracted images (only when `images` is 'files') */
+  files: ExportedFile[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Escape characters Markdown would read as syntax
+ */
+function escapeMarkdown(text: string): string {
+  return (
+    text
+      .replace(/[\\`*_[\]<>~|]/g, (char) => `\\${char}`)
+      // Block syntax at the start of a line: headings, quotes, list markers
+      .replace(/^(\s*)([#>+-])/gm, '$1\\$2')
+      .replace(/^(\s*\d+)([.)])/gm, '$1\\$2')
+  );
+}
+
+function anchorTags(anchors: string[]): string {
+  return anchors.map((name) => `<a id="${escapeHtml(name)}"></a>`).join('');
+}
+
+function linkDestination(href: string): string {
+  return /[\s()<>]/.test(href) ? `<${href.replace(/>/g, '%3E')}>` : href;
+}
+
+function noteLabel(note: { noteType: string; number: number }): string {
+  return note.noteType === 'footnote' ? `^${note.number}` : `^e${note.number}`;
+}
+
+/**
+ * Indent every line after the first (continuation lines of a list item or note)
+ */
+function indentContinuation(text: string, indent: string): string {
+  return text.replace(/\n(?=.)/g, `\n${indent}`);
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+function renderInlines(inlines: SemanticInline[]): string {
+  return inlines.map(renderInline).join('');
+}
+
+function renderInline(inline: SemanticInline): string {
+  switch (inline.kind) {
+    case 'text': {
+      const { style } = inline;
+      if (style.code) {
+        const fence = inline.text.includes('`') ? '``' : '`';
+        return `${fence}${inline.text}${fence}`;
+      }
+      // Keep surrounding whitespace outside the emphasis markers
+      const [, lead, core, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(inline.text)!;
+      if (!core) return inline.text;
+      let text = escapeMarkdown(core);
+      if (style.superscript) text = `<sup>${text}</sup>`;
+      if (style.subscript) text = `<sub>${text}</sub>`;
+      if (style.strike) text = `~~${text}~~`;
+      if (style.italic) text = `*${text}*`;
+      if (style.bold) text = `**${text}**`;
+      return `${lead}${text}${trail}`;
+    }
+    case 'link': {
+      // Unsafe targets (javascript: and the like) keep the text, not the link
+      const href = sanitizeHref(inline.href);
+      if (!href) return renderInlines(inline.children);
+      const title = inline.title ? ` "${inline.title.replace(/"/g, '\\"')}"` : '';
+      return `[${renderInlines(inline.children)}](${linkDestination(href)}${title})`;
+    }
+    case 'image':
+      return `![${escapeMarkdown(inline.alt)}](${linkDestination(inline.src)})`;
+    case 'break':
+      return '\\\n';
+    case 'math':
+      return inline.display === 'block' ? `$$${inline.text}$$` : `$${inline.text}$`;
+    case 'noteRef':
+      return `[${noteLabel(inline)}]`;
+  }
+}
+
+function renderBlocks(blocks: SemanticBlock[]): string {
+  return blocks.map(renderBlock).join('\n\n');
+}
+
+function renderBlock(block: SemanticBlock): string {
+  switch (block.kind) {
+    case 'heading':
+      return `${'#'.repeat(block.level)} ${anchorTags(block.anchors)}${renderInlines(block.content).replace(/\\\n/g, ' ')}`;
+    case 'paragraph':
+      return `${anchorTags(block.anchors)}${renderInlines(block.content)}`;
+    case 'quote':
+      return renderBlocks(block.blocks).replace(/^/gm, '> ').replace(/^> $/gm, '>');
+    case 'code': {
+      const fence = block.text.includes('```') ? '````' : '```';
+      return `${fence}\n${block.text}\n${fence}`;
+    }
+    case 'list':
+      return block.items
+        .map((item, index) => {
+          const marker = block.ordered ? `${block.start + index}.` : '-';
+          const indent = ' '.repeat(marker.length + 1);
+          let text = `${marker} ${anchorTags(item.anchors)}${renderInlines(item.content)}`;
+          if (item.children.length > 0) text += `\n${renderBlocks(item.children)}`;
+          return indentContinuation(text, indent);
+        })
+        .join('\n');
+    case 'table':
+      return renderTable(block.rows, block.headerRows);
+  }
+}
+
+/**
+ * Pipe table. Spanned grid positions are filled with empty cells.
+ */
+function renderTable(rows: SemanticTableCell[][], headerRows: number): string {
+  const grid: string[][] = [];
+  // Grid columns still covered by a row span: column → rows remaining
+  const covered = new Map<number, number>();
+  for (const row of rows) {
+    const line: string[] = [];
+    let column = 0;
+    const skipCovered = () => {
+      while ((covered.get(column) ?? 0) > 0) {
+        covered.set(column, covered.get(column)! - 1);
+        line.push('');
+        column++;
+      }
+    };
+    for (const cell of row) {
+      skipCovered();
+      line.push(renderCell(cell.blocks));
+      for (let c = 0; c < cell.colSpan; c++) {
+        if (c > 0) line.push('');
+        if (cell.rowSpan > 1) covered.set(column + c, cell.rowSpan - 1);
+      }
+      column += cell.colSpan;
+    }
+    skipCovered();
+    grid.push(line);
+  }
+
+  const columns = Math.max(1, ...grid.map((line) => line.length));
+  const format = (line: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => line[i] ?? '').join(' | ')} |`;
+
+  // GFM needs a header row: use the first row when the table has none
+  const headerCount = Math.max(1, headerRows);
+  const header = grid.slice(0, headerCount);
+  const lines = [format(header[0] ?? [])];
+  lines.push(`| ${Array.from({ length: columns }, () => '---').join(' | ')} |`);
+  for (const line of [...header.slice(1), ...grid.slice(headerCount)]) lines.push(format(line));
+  return lines.join('\n');
+}
+
+/**
+ * Cell content on a single line: paragraphs joined with <br>
+ */
+function renderCell(blocks: SemanticBlock[]): string {
+  const parts: string[] = [];
+  const visit = (items: SemanticBlock[]) => {
+    for (const block of items) {
+      if (block.kind === 'heading' || block.kind === 'paragraph') {
+        parts.push(renderInlines(block.content));
+      } else if (block.kind === 'list') {
+        block.items.forEach((item, index) => {
+          const marker = block.ordered ? `${block.start + index}.` : '•';
+          parts.push(`${marker} ${renderInlines(item.content)}`);
+          visit(item.children);
+        });
+      } else if (block.kind === 'quote') {
+        visit(block.blocks);
+      } else if (block.kind === 'code') {
+        parts.push(`\`${block.text.replace(/\n/g, ' ')}\``);
+      } else if (block.kind === 'table') {
+        for (const row of block.rows) {
+          parts.push(row.map((cell) => inlinesToPlainTextOf(cell.blocks)).join(' / '));
+        }
+      }
+    }
+  };
+  visit(blocks);
+  return parts
+    .join('<br>')
+    .replace(/\\\n/g, '<br>')
+    .replace(/\n/g, ' ')
+    .replace(/(?<!\\)\|/g, '\\|');
+}
+
+function inlinesToPlainTextOf(blocks: SemanticBlock[]): string {
+  return blocks
+    .map((block) =>
+      block.kind === 'paragraph' || block.kind === 'heading'
+        ? escapeMarkdown(inlinesToPlainText(block.content))
+        : ''
+    )
+    .filter(Boolean)
+    .join(' ');
+}
+
+function renderNotes(notes: SemanticNote[]): string {
+  return notes
+    .map((note) => {
+      const label = `[${noteLabel(note)}]: `;
+      return indentContinuation(`${label}${renderBlocks(note.blocks)}`, '    ');
+    })
+    .join('\n');
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Serialize a document to GitHub-flavored Markdown
+ */
+export function serializeDocumentToMarkdown(
+  doc: Document,
+  options: MarkdownExportOptions = {}
+): MarkdownExportResult {
+  const semantic = buildSemanticDocument(doc, options);
+  const parts = [renderBlocks(semantic.blocks)];
+  if (semantic.notes.length > 0) parts.push(renderNotes(semantic.notes));
+  const markdown = parts.filter(Boolean).join('\n\n');
+  return { markdown: markdown ? `${markdown}\n` : '', files: semantic.files };
+}
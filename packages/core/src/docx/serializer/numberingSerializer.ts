@@ -0,0 +1,79 @@
+/**
+ * Numbering Serializer - Serialize NumberingDefinitions to numbering.xml
+ *
+ * Counterpart of numberingParser for documents built in memory. Abstract
+ * definitions come first, followed by the w:num instances that reference them,
+ * as the schema requires.
+ */
+
+import type { ListLevel, NumberingDefinitions } from '../../types/lists';
+import { serializeTextFormatting } from './runSerializer';
+import { serializeParagraphFormatting } from './paragraphSerializer';
+import { escapeXml } from './xmlUtils';
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Serialize a single w:lvl element
+ */
+export function serializeListLevel(level: ListLevel): string {
+  const parts: string[] = [];
+  if (level.start !== undefined) parts.push(`<w:start w:val="${level.start}"/>`);
+  parts.push(`<w:numFmt w:val="${level.numFmt}"/>`);
+  if (level.lvlRestart !== undefined) {
+    parts.push(`<w:lvlRestart w:val="${level.lvlRestart}"/>`);
+  }
+  if (level.isLgl) parts.push('<w:isLgl/>');
+  if (level.suffix) parts.push(`<w:suff w:val="${level.suffix}"/>`);
+  parts.push(`<w:lvlText w:val="${escapeXml(level.lvlText)}"/>`);
+  if (level.lvlJc) parts.push(`<w:lvlJc w:val="${level.lvlJc}"/>`);
+  parts.push(serializeParagraphFormatting(level.pPr));
+  parts.push(serializeTextFormatting(level.rPr));
+
+  return `<w:lvl w:ilvl="${level.ilvl}">${parts.join('')}</w:lvl>`;
+}
+
+/**
+ * Serialize numbering definitions to a complete numbering.xml
+ */
+export function serializeNumbering(definitions: NumberingDefinitions): string {
+  const parts: string[] = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:numbering xmlns:w="${W_NAMESPACE}">`,
+  ];
+
+  for (const abstractNum of definitions.abstractNums) {
+    parts.push(`<w:abstractNum w:abstractNumId="${abstractNum.abstractNumId}">`);
+    if (abstractNum.multiLevelType) {
+      parts.push(`<w:multiLevelType w:val="${abstractNum.multiLevelType}"/>`);
+    }
+    if (abstractNum.name) parts.push(`<w:name w:val="${escapeXml(abstractNum.name)}"/>`);
+    if (abstractNum.styleLink) {
+      parts.push(`<w:styleLink w:val="${escapeXml(abstractNum.styleLink)}"/>`);
+    }
+    if (abstractNum.numStyleLink) {
+      parts.push(`<w:numStyleLink w:val="${escapeXml(abstractNum.numStyleLink)}"/>`);
+    }
+    for (const level of abstractNum.levels) {
+      parts.push(serializeListLevel(level));
+    }
+    parts.push('</w:abstractNum>');
+  }
+
+  for (const num of definitions.nums) {
+    parts.push(`<w:num w:numId="${num.numId}">`);
+    parts.push(`<w:abstractNumId w:val="${num.abstractNumId}"/>`);
+    for (const override of num.levelOverrides ?? []) {
+      parts.push(`<w:lvlOverride w:ilvl="${override.ilvl}">`);
+      if (override.startOverride !== undefined) {
+        parts.push(`<w:startOverride w:val="${override.startOverride}"/>`);
+      }
+      if (override.lvl) parts.push(serializeListLevel(override.lvl));
+      parts.push('</w:lvlOverride>');
+    }
+    parts.push('</w:num>');
+  }
+
+  parts.push('</w:numbering>');
+  return parts.join('');
+}
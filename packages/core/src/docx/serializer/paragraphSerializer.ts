@@ -18,6 +18,7 @@ import type {
   Hyperlink,
   BookmarkStart,
   BookmarkEnd,
+  PermissionStart,
   SimpleField,
   ComplexField,
   InlineSdt,
@@ -590,6 +591,16 @@ function serializeBookmarkEnd(bookmark: BookmarkEnd): string {
   return `<w:bookmarkEnd w:id="${bookmark.id}"/>`;
 }
 
+/**
+ * Serialize the start of an editable region (w:permStart)
+ */
+function serializePermissionStart(permission: PermissionStart): string {
+  const attrs: string[] = [`w:id="${escapeXml(permission.id)}"`];
+  if (permission.edGrp) attrs.push(`w:edGrp="${escapeXml(permission.edGrp)}"`);
+  if (permission.ed) attrs.push(`w:ed="${escapeXml(permission.ed)}"`);
+  return `<w:permStart ${attrs.join(' ')}/>`;
+}
+
 /**
  * Serialize a simple field as a complex field (fldChar begin/separate/end).
  * Complex field format is more widely supported by OOXML consumers
@@ -695,6 +706,15 @@ function serializeInlineSdt(sdt: InlineSdt): string {
   if (props.tag) prParts.push(`<w:tag w:val="${escapeXml(props.tag)}"/>`);
   if (props.lock && props.lock !== 'unlocked') prParts.push(`<w:lock w:val="${props.lock}"/>`);
   if (props.showingPlaceholder) prParts.push('<w:showingPlcHdr/>');
+  if (props.dataBinding) {
+    const binding = props.dataBinding;
+    const attrs = [`w:xpath="${escapeXml(binding.xpath)}"`];
+    if (binding.prefixMappings) {
+      attrs.unshift(`w:prefixMappings="${escapeXml(binding.prefixMappings)}"`);
+    }
+    if (binding.storeItemId) attrs.push(`w:storeItemID="${escapeXml(binding.storeItemId)}"`);
+    prParts.push(`<w:dataBinding ${attrs.join(' ')}/>`);
+  }
 
   // Type-specific properties
   switch (props.sdtType) {
@@ -754,6 +774,8 @@ function serializeMoveRangeStart(
   marker: MoveFromRangeStart | MoveToRangeStart
 ): string {
   const attrs = [`w:id="${marker.id}"`, `w:name="${escapeXml(marker.name)}"`];
+  if (marker.author) attrs.push(`w:author="${escapeXml(marker.author)}"`);
+  if (marker.date) attrs.push(`w:date="${escapeXml(marker.date)}"`);
   return `<w:${tag} ${attrs.join(' ')}/>`;
 }
 
@@ -772,19 +794,23 @@ function serializeTrackedChange(
   const attrs = [`w:id="${normalizedId}"`, `w:author="${escapeXml(normalizedAuthor)}"`];
   if (normalizedDate) attrs.push(`w:date="${escapeXml(normalizedDate)}"`);
 
+  const removed = tag === 'del' || tag === 'moveFrom';
+  const toDeletedText = (xml: string) =>
+    xml
+      .replace(/<w:t\b/g, '<w:delText')
+      .replace(/<\/w:t>/g, '</w:delText>')
+      .replace(/<w:instrText\b/g, '<w:delInstrText')
+      .replace(/<\/w:instrText>/g, '</w:delInstrText>');
+
   const contentXml = change.content
     .map((item) => {
       if (item.type === 'run') {
-        if (tag === 'del' || tag === 'moveFrom') {
-          return serializeRun(item)
-            .replace(/<w:t\b/g, '<w:delText')
-            .replace(/<\/w:t>/g, '</w:delText>')
-            .replace(/<w:instrText\b/g, '<w:delInstrText')
-            .replace(/<\/w:instrText>/g, '</w:delInstrText>');
-        }
-        return serializeRun(item);
+        return removed ? toDeletedText(serializeRun(item)) : serializeRun(item);
+      }
+      if (item.type === 'hyperlink') {
+        // Removed text inside a hyperlink is still w:delText
+        return removed ? toDeletedText(serializeHyperlink(item)) : serializeHyperlink(item);
       }
-      if (item.type === 'hyperlink') return serializeHyperlink(item);
       return '';
     })
     .join('');
@@ -811,6 +837,10 @@ function serializeParagraphContent(content: ParagraphContent): string {
       return serializeComplexField(content);
     case 'inlineSdt':
       return serializeInlineSdt(content);
+    case 'permStart':
+      return serializePermissionStart(content);
+    case 'permEnd':
+      return `<w:permEnd w:id="${escapeXml(content.id)}"/>`;
     case 'commentRangeStart':
       return `<w:commentRangeStart w:id="${content.id}"/>`;
     case 'commentRangeEnd':
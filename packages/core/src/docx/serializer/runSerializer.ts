@@ -284,6 +284,11 @@ export function serializeTextFormatting(formatting: TextFormatting | undefined):
     parts.push('<w:imprint/>');
   }
 
+  // No proofing
+  if (formatting.noProof) {
+    parts.push('<w:noProof/>');
+  }
+
   // Hidden
   if (formatting.hidden) {
     parts.push('<w:vanish/>');
@@ -389,6 +394,17 @@ export function serializeTextFormatting(formatting: TextFormatting | undefined):
     parts.push('<w:cs/>');
   }
 
+  // Language
+  if (formatting.lang) {
+    const langAttrs: string[] = [];
+    if (formatting.lang.val) langAttrs.push(`w:val="${escapeXml(formatting.lang.val)}"`);
+    if (formatting.lang.eastAsia) {
+      langAttrs.push(`w:eastAsia="${escapeXml(formatting.lang.eastAsia)}"`);
+    }
+    if (formatting.lang.bidi) langAttrs.push(`w:bidi="${escapeXml(formatting.lang.bidi)}"`);
+    if (langAttrs.length > 0) parts.push(`<w:lang ${langAttrs.join(' ')}/>`);
+  }
+
   if (parts.length === 0) return '';
 
   return `<w:rPr>${parts.join('')}</w:rPr>`;
@@ -807,7 +823,7 @@ function serializeShapeContent(content: ShapeContent): string {
   let textBody = '';
   if (shape.textBody) {
     const tb = shape.textBody;
-    const bpAttrs: string[] = ['rot="0"', 'vert="horz"'];
+    const bpAttrs: string[] = ['rot="0"', `vert="${tb.vert ?? 'horz'}"`];
     if (tb.anchor) bpAttrs.push(`anchor="${tb.anchor === 'middle' ? 'ctr' : tb.anchor}"`);
     if (tb.anchorCenter) bpAttrs.push('anchorCtr="1"');
     if (tb.margins) {
@@ -0,0 +1,680 @@
+/**
+ * Semantic Content - Document model → semantic block tree
+ *
+ * Shared front half of the HTML and Markdown serializers. Reduces the
+ * OOXML-shaped Document model to the structure a reader sees:
+ * - headings from outline levels (direct, or via the paragraph style chain)
+ * - lists grouped and nested from numbering definitions
+ * - tables as a cell grid with resolved row/column spans
+ * - footnotes/endnotes numbered in reference order
+ * - images as data URIs or extracted files
+ *
+ * Tracked changes are resolved as if accepted: insertions and moved-to text
+ * are kept, deletions and moved-from text are dropped.
+ */
+
+import type {
+  BlockContent,
+  Document,
+  Image,
+  ListLevel,
+  NumberingDefinitions,
+  Paragraph,
+  ParagraphContent,
+  Run,
+  Hyperlink,
+  Style,
+  Table,
+  TextFormatting,
+} from '../../types/document';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * How images are written out
+ * - `inline`: embedded as data URIs
+ * - `files`: referenced by path, with the bytes returned in `files`
+ * - `omit`: left out
+ */
+export type SemanticImageMode = 'inline' | 'files' | 'omit';
+
+export interface SemanticExportOptions {
+  /** How images are written out (default: 'inline') */
+  images?: SemanticImageMode;
+  /** Directory for extracted image paths when `images` is 'files' (default: 'media') */
+  imageDirectory?: string;
+  /** Include footnotes and endnotes (default: true) */
+  includeNotes?: boolean;
+}
+
+/**
+ * A file extracted during export (images in 'files' mode)
+ */
+export interface ExportedFile {
+  /** Relative path referenced from the output */
+  path: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface SemanticTextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  superscript?: boolean;
+  subscript?: boolean;
+  /** Monospace font — rendered as code */
+  code?: boolean;
+}
+
+export type SemanticInline =
+  | { kind: 'text'; text: string; style: SemanticTextStyle }
+  | { kind: 'link'; href: string; title?: string; children: SemanticInline[] }
+  | { kind: 'image'; src: string; alt: string; width: number; height: number }
+  | { kind: 'break' }
+  | { kind: 'noteRef'; noteType: 'footnote' | 'endnote'; number: number }
+  | { kind: 'math'; text: string; display: 'inline' | 'block' };
+
+export interface SemanticListItem {
+  /** Bookmark names anchored in the item's paragraph */
+  anchors: string[];
+  content: SemanticInline[];
+  /** Nested lists */
+  children: SemanticBlock[];
+}
+
+export interface SemanticTableCell {
+  header: boolean;
+  colSpan: number;
+  rowSpan: number;
+  blocks: SemanticBlock[];
+}
+
+export type SemanticBlock =
+  | { kind: 'heading'; level: number; anchors: string[]; content: SemanticInline[] }
+  | { kind: 'paragraph'; anchors: string[]; content: SemanticInline[] }
+  | { kind: 'quote'; blocks: SemanticBlock[] }
+  | { kind: 'code'; text: string }
+  | { kind: 'list'; ordered: boolean; start: number; numFmt?: string; items: SemanticListItem[] }
+  | { kind: 'table'; rows: SemanticTableCell[][]; headerRows: number };
+
+export interface SemanticNote {
+  noteType: 'footnote' | 'endnote';
+  number: number;
+  blocks: SemanticBlock[];
+}
+
+export interface SemanticDocument {
+  title?: string;
+  blocks: SemanticBlock[];
+  /** Referenced notes in reference order */
+  notes: SemanticNote[];
+  files: ExportedFile[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const MONOSPACE_FONT = /courier|consolas|mono|menlo|monaco/i;
+const HEADING_STYLE = /^heading\s*(\d)$/i;
+const QUOTE_STYLE = /^(intense)?\s*quote$/i;
+const CODE_STYLE = /^(code|html\s*preformatted|source\s*code|plain\s*text)$/i;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/tiff': 'tiff',
+  'image/svg+xml': 'svg',
+  'image/webp': 'webp',
+  'image/x-emf': 'emf',
+  'image/x-wmf': 'wmf',
+};
+
+/** EMU → CSS pixels */
+function emuToPixels(emu: number): number {
+  return Math.round(emu / 9525);
+}
+
+function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Look up a list level, applying the instance's level overrides.
+ */
+export function findListLevel(
+  numbering: NumberingDefinitions | undefined,
+  numId: number,
+  ilvl: number
+): ListLevel | null {
+  const instance = numbering?.nums.find((num) => num.numId === numId);
+  if (!instance) return null;
+  const override = instance.levelOverrides?.find((o) => o.ilvl === ilvl);
+  const abstract = numbering?.abstractNums.find((a) => a.abstractNumId === instance.abstractNumId);
+  const level = override?.lvl ?? abstract?.levels.find((l) => l.ilvl === ilvl) ?? null;
+  if (level && override?.startOverride !== undefined) {
+    return { ...level, start: override.startOverride };
+  }
+  return level;
+}
+
+// ============================================================================
+// BUILDER
+// ============================================================================
+
+interface ListFrame {
+  list: Extract<SemanticBlock, { kind: 'list' }>;
+  level: number;
+  numId: number;
+}
+
+/**
+ * Walks a Document and builds the semantic tree.
+ */
+class SemanticBuilder {
+  private styles = new Map<string, Style>();
+  private noteNumbers = new Map<string, number>();
+  private notes: SemanticNote[] = [];
+  private files: ExportedFile[] = [];
+  private imagePaths = new Map<string, string>();
+  /** Bookmarks that internal links point to */
+  private linkTargets = new Set<string>();
+
+  constructor(
+    private doc: Document,
+    private options: Required<SemanticExportOptions>
+  ) {
+    for (const style of doc.package.styles?.styles ?? []) {
+      this.styles.set(style.styleId, style);
+    }
+  }
+
+  build(): SemanticDocument {
+    const blocks = this.convertBlocks(this.doc.package.document.content);
+    // Only keep anchors something links to (skips e.g. unused _Toc bookmarks)
+    const filterAnchors = (items: SemanticBlock[]) => {
+      for (const block of items) {
+        if (block.kind === 'heading' || block.kind === 'paragraph') {
+          block.anchors = block.anchors.filter((name) => this.linkTargets.has(name));
+        } else if (block.kind === 'quote') {
+          filterAnchors(block.blocks);
+        } else if (block.kind === 'list') {
+          for (const item of block.items) {
+            item.anchors = item.anchors.filter((name) => this.linkTargets.has(name));
+            filterAnchors(item.children);
+          }
+        } else if (block.kind === 'table') {
+          for (const row of block.rows) for (const cell of row) filterAnchors(cell.blocks);
+        }
+      }
+    };
+    filterAnchors(blocks);
+    for (const note of this.notes) filterAnchors(note.blocks);
+    return {
+      title: this.doc.package.properties?.title || undefined,
+      blocks,
+      notes: this.notes,
+      files: this.files,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Blocks
+  // --------------------------------------------------------------------------
+
+  convertBlocks(content: BlockContent[]): SemanticBlock[] {
+    const blocks: SemanticBlock[] = [];
+    let listStack: ListFrame[] = [];
+    let quote: Extract<SemanticBlock, { kind: 'quote' }> | null = null;
+    let code: Extract<SemanticBlock, { kind: 'code' }> | null = null;
+
+    const push = (block: SemanticBlock) => {
+      if (quote) quote.blocks.push(block);
+      else blocks.push(block);
+    };
+
+    for (const block of content) {
+      if (block.type === 'blockSdt') {
+        listStack = [];
+        quote = null;
+        code = null;
+        blocks.push(...this.convertBlocks(block.content));
+        continue;
+      }
+      if (block.type === 'table') {
+        listStack = [];
+        quote = null;
+        code = null;
+        blocks.push(this.convertTable(block));
+        continue;
+      }
+
+      const styleName = this.styleName(block.formatting?.styleId);
+
+      // Preformatted paragraphs merge into one code block
+      if (styleName && CODE_STYLE.test(styleName)) {
+        listStack = [];
+        quote = null;
+        const text = this.plainText(block.content);
+        if (code) {
+          code.text += `\n${text}`;
+        } else {
+          code = { kind: 'code', text };
+          push(code);
+        }
+        continue;
+      }
+      code = null;
+
+      const list = block.listRendering;
+      if (list && !list.markerHidden) {
+        quote = null;
+        this.addListItem(block, listStack, push);
+        continue;
+      }
+
+      listStack = [];
+      const content = this.convertInlines(block.content);
+      const anchors = this.bookmarkNames(block.content);
+
+      if (styleName && QUOTE_STYLE.test(styleName)) {
+        if (!quote) {
+          quote = { kind: 'quote', blocks: [] };
+          blocks.push(quote);
+        }
+      } else {
+        quote = null;
+      }
+
+      const level = this.headingLevel(block);
+      if (level !== null) {
+        push({ kind: 'heading', level, anchors, content });
+      } else if (content.length > 0 || anchors.length > 0) {
+        push({ kind: 'paragraph', anchors, content });
+      }
+    }
+    return blocks;
+  }
+
+  /**
+   * Add a list paragraph to the open lists, opening or closing nested lists
+   * as its level and numbering change.
+   */
+  private addListItem(
+    paragraph: Paragraph,
+    stack: ListFrame[],
+    push: (block: SemanticBlock) => void
+  ): void {
+    const rendering = paragraph.listRendering!;
+    const level = rendering.level;
+
+    while (stack.length > 0 && stack[stack.length - 1].level > level) stack.pop();
+    const top = stack[stack.length - 1];
+    if (top && top.level === level && top.numId !== rendering.numId) {
+      // Same level, different list: close it and start a sibling list
+      stack.pop();
+    }
+
+    if (stack.length === 0 || stack[stack.length - 1].level < level) {
+      const definition = findListLevel(this.doc.package.numbering, rendering.numId, level);
+      const list: ListFrame['list'] = {
+        kind: 'list',
+        ordered: !rendering.isBullet,
+        start: definition?.start ?? 1,
+        numFmt: rendering.numFmt ?? definition?.numFmt,
+        items: [],
+      };
+      const parent = stack[stack.length - 1];
+      const parentItem = parent?.list.items[parent.list.items.length - 1];
+      if (parentItem) parentItem.children.push(list);
+      else push(list);
+      stack.push({ list, level, numId: rendering.numId });
+    }
+
+    stack[stack.length - 1].list.items.push({
+      anchors: this.bookmarkNames(paragraph.content),
+      content: this.convertInlines(paragraph.content),
+      children: [],
+    });
+  }
+
+  private convertTable(table: Table): SemanticBlock {
+    const rows: SemanticTableCell[][] = [];
+    // Grid column → the cell that started a vertical merge there
+    const mergeOrigins = new Map<number, SemanticTableCell>();
+    let headerRows = 0;
+    let inHeader = true;
+
+    for (const row of table.rows) {
+      const isHeader = inHeader && !!row.formatting?.header;
+      if (isHeader) headerRows++;
+      else inHeader = false;
+
+      const cells: SemanticTableCell[] = [];
+      let column = 0;
+      for (const cell of row.cells) {
+        const colSpan = Math.max(1, cell.formatting?.gridSpan ?? 1);
+        const vMerge = cell.formatting?.vMerge;
+        if (vMerge === 'continue') {
+          const origin = mergeOrigins.get(column);
+          if (origin) origin.rowSpan++;
+        } else {
+          const semanticCell: SemanticTableCell = {
+            header: isHeader,
+            colSpan,
+            rowSpan: 1,
+            blocks: this.convertBlocks(cell.content),
+          };
+          cells.push(semanticCell);
+          if (vMerge === 'restart') mergeOrigins.set(column, semanticCell);
+          else mergeOrigins.delete(column);
+        }
+        column += colSpan;
+      }
+      rows.push(cells);
+    }
+    return { kind: 'table', rows, headerRows };
+  }
+
+  // --------------------------------------------------------------------------
+  // Styles
+  // --------------------------------------------------------------------------
+
+  private styleName(styleId: string | undefined): string | undefined {
+    if (!styleId) return undefined;
+    return this.styles.get(styleId)?.name ?? styleId;
+  }
+
+  /**
+   * Heading level (1-6) from the paragraph's outline level, its style chain,
+   * or a built-in heading/title style name.
+   */
+  private headingLevel(paragraph: Paragraph): number | null {
+    let outline = paragraph.formatting?.outlineLevel;
+    let styleId = paragraph.formatting?.styleId;
+    const seen = new Set<string>();
+    while (outline === undefined && styleId && !seen.has(styleId)) {
+      seen.add(styleId);
+      const style = this.styles.get(styleId);
+      outline = style?.pPr?.outlineLevel;
+      if (outline === undefined) {
+        const match = HEADING_STYLE.exec(style?.name ?? styleId);
+        if (match) outline = parseInt(match[1], 10) - 1;
+        else if (/^title$/i.test(style?.name ?? styleId)) outline = 0;
+      }
+      styleId = style?.basedOn;
+    }
+    // Level 9 is "body text"
+    if (outline === undefined || outline < 0 || outline > 8) return null;
+    return Math.min(6, outline + 1);
+  }
+
+  /**
+   * Effective text style: direct formatting over the character style chain.
+   */
+  private textStyle(formatting: TextFormatting | undefined): SemanticTextStyle {
+    const chain: TextFormatting[] = [];
+    if (formatting) chain.push(formatting);
+    let styleId = formatting?.styleId;
+    const seen = new Set<string>();
+    while (styleId && !seen.has(styleId)) {
+      seen.add(styleId);
+      const style = this.styles.get(styleId);
+      if (style?.rPr) chain.push(style.rPr);
+      styleId = style?.basedOn;
+    }
+    const pick = <K extends keyof TextFormatting>(key: K): TextFormatting[K] | undefined =>
+      chain.find((f) => f[key] !== undefined)?.[key];
+
+    const underline = pick('underline');
+    const vertAlign = pick('vertAlign');
+    const font = pick('fontFamily');
+    return {
+      bold: pick('bold') || undefined,
+      italic: pick('italic') || undefined,
+      underline: (!!underline && underline.style !== 'none') || undefined,
+      strike: pick('strike') || pick('doubleStrike') || undefined,
+      superscript: vertAlign === 'superscript' || undefined,
+      subscript: vertAlign === 'subscript' || undefined,
+      code: (!!font?.ascii && MONOSPACE_FONT.test(font.ascii)) || undefined,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Inlines
+  // --------------------------------------------------------------------------
+
+  private bookmarkNames(content: ParagraphContent[]): string[] {
+    const names: string[] = [];
+    for (const item of content) {
+      if (item.type === 'bookmarkStart' && item.name !== '_GoBack') names.push(item.name);
+    }
+    return names;
+  }
+
+  convertInlines(content: ParagraphContent[]): SemanticInline[] {
+    const inlines: SemanticInline[] = [];
+    for (const item of content) {
+      switch (item.type) {
+        case 'run':
+          this.convertRun(item, inlines);
+          break;
+        case 'hyperlink':
+          this.convertHyperlink(item, inlines);
+          break;
+        case 'simpleField':
+          inlines.push(...this.convertInlines(item.content));
+          break;
+        case 'complexField':
+          for (const run of item.fieldResult) this.convertRun(run, inlines);
+          break;
+        case 'inlineSdt':
+        case 'insertion':
+        case 'moveTo':
+          inlines.push(...this.convertInlines(item.content));
+          break;
+        case 'mathEquation':
+          if (item.plainText) {
+            inlines.push({ kind: 'math', text: item.plainText, display: item.display });
+          }
+          break;
+        default:
+          // Deletions, moved-from text, comments and range markers produce no output
+          break;
+      }
+    }
+    return mergeTextInlines(inlines);
+  }
+
+  private convertHyperlink(link: Hyperlink, inlines: SemanticInline[]): void {
+    const children: SemanticInline[] = [];
+    for (const child of link.children) {
+      if (child.type === 'run') this.convertRun(child, children);
+    }
+    const href = link.href ?? (link.anchor ? `#${link.anchor}` : undefined);
+    if (href?.startsWith('#')) this.linkTargets.add(href.slice(1));
+    if (!href) {
+      inlines.push(...children);
+      return;
+    }
+    inlines.push({
+      kind: 'link',
+      href,
+      title: link.tooltip,
+      children: mergeTextInlines(children),
+    });
+  }
+
+  private convertRun(run: Run, inlines: SemanticInline[]): void {
+    if (run.formatting?.hidden) return;
+    const style = this.textStyle(run.formatting);
+    const text = (value: string) => inlines.push({ kind: 'text', text: value, style });
+
+    for (const item of run.content) {
+      switch (item.type) {
+        case 'text':
+          text(item.text);
+          break;
+        case 'tab':
+          text('\t');
+          break;
+        case 'break':
+          if (!item.breakType || item.breakType === 'textWrapping') inlines.push({ kind: 'break' });
+          break;
+        case 'softHyphen':
+          text('­');
+          break;
+        case 'noBreakHyphen':
+          text('‑');
+          break;
+        case 'symbol': {
+          const code = parseInt(item.char, 16);
+          // Symbol fonts map into the private use area; strip that offset
+          if (Number.isFinite(code))
+            text(String.fromCharCode(code >= 0xf000 ? code - 0xf000 : code));
+          break;
+        }
+        case 'footnoteRef':
+        case 'endnoteRef':
+          this.convertNoteRef(
+            item.type === 'footnoteRef' ? 'footnote' : 'endnote',
+            item.id,
+            inlines
+          );
+          break;
+        case 'drawing':
+          this.convertImage(item.image, inlines);
+          break;
+        default:
+          break;
+      }
+    }
+  }
+
+  private convertNoteRef(
+    noteType: 'footnote' | 'endnote',
+    id: number,
+    inlines: SemanticInline[]
+  ): void {
+    if (!this.options.includeNotes) return;
+    const key = `${noteType}:${id}`;
+    let number = this.noteNumbers.get(key);
+    if (number === undefined) {
+      const notes =
+        noteType === 'footnote' ? this.doc.package.footnotes : this.doc.package.endnotes;
+      const note = notes?.find((n) => n.id === id);
+      if (!note) return;
+      number = this.notes.length + 1;
+      this.noteNumbers.set(key, number);
+      const entry: SemanticNote = { noteType, number, blocks: [] };
+      this.notes.push(entry);
+      // Converted after registering so nested references get later numbers
+      entry.blocks = this.convertBlocks(note.content);
+    }
+    inlines.push({ kind: 'noteRef', noteType, number });
+  }
+
+  private convertImage(image: Image, inlines: SemanticInline[]): void {
+    if (this.options.images === 'omit' || !image.src) return;
+    const alt = image.alt || image.title || '';
+    const width = emuToPixels(image.size.width);
+    const height = emuToPixels(image.size.height);
+    let src = image.src;
+
+    if (this.options.images === 'files') {
+      const existing = this.imagePaths.get(image.src);
+      if (existing) {
+        src = existing;
+      } else {
+        const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(image.src);
+        if (!match) {
+          // Already a URL — reference it as-is
+          inlines.push({ kind: 'image', src, alt, width, height });
+          return;
+        }
+        const mimeType = match[1] || image.mimeType || 'application/octet-stream';
+        const data = match[2]
+          ? decodeBase64(match[3])
+          : new TextEncoder().encode(decodeURIComponent(match[3]));
+        const extension = MIME_EXTENSIONS[mimeType] ?? 'bin';
+        const name = `image${this.files.length + 1}.${extension}`;
+        src = this.options.imageDirectory ? `${this.options.imageDirectory}/${name}` : name;
+        this.files.push({ path: src, mimeType, data });
+        this.imagePaths.set(image.src, src);
+      }
+    }
+    inlines.push({ kind: 'image', src, alt, width, height });
+  }
+
+  private plainText(content: ParagraphContent[]): string {
+    return inlinesToPlainText(this.convertInlines(content));
+  }
+}
+
+/**
+ * Merge adjacent text inlines with the same style.
+ */
+function mergeTextInlines(inlines: SemanticInline[]): SemanticInline[] {
+  const merged: SemanticInline[] = [];
+  for (const inline of inlines) {
+    const last = merged[merged.length - 1];
+    if (
+      inline.kind === 'text' &&
+      last?.kind === 'text' &&
+      JSON.stringify(last.style) === JSON.stringify(inline.style)
+    ) {
+      merged[merged.length - 1] = { ...last, text: last.text + inline.text };
+    } else if (inline.kind !== 'text' || inline.text) {
+      merged.push(inline);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Plain text of inline content (breaks become newlines).
+ */
+export function inlinesToPlainText(inlines: SemanticInline[]): string {
+  return inlines
+    .map((inline) => {
+      switch (inline.kind) {
+        case 'text':
+        case 'math':
+          return inline.text;
+        case 'link':
+          return inlinesToPlainText(inline.children);
+        case 'break':
+          return '\n';
+        default:
+          return '';
+      }
+    })
+    .join('');
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Build the semantic tree for a document.
+ */
+export function buildSemanticDocument(
+  doc: Document,
+  options: SemanticExportOptions = {}
+): SemanticDocument {
+  return new SemanticBuilder(doc, {
+    images: options.images ?? 'inline',
+    imageDirectory: options.imageDirectory ?? 'media',
+    includeNotes: options.includeNotes ?? true,
+  }).build();
+}
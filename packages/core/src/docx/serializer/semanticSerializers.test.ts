@@ -0,0 +1,300 @@
+/**
+ * Tests for semantic HTML and Markdown export
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type {
+  Document,
+  Paragraph,
+  Run,
+  Table,
+  TableCell,
+  BlockContent,
+} from '../../types/document';
+import { serializeDocumentToHtml } from './htmlSerializer';
+import { serializeDocumentToMarkdown } from './markdownSerializer';
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function run(text: string, formatting?: Run['formatting']): Run {
+  return { type: 'run', formatting, content: [{ type: 'text', text }] };
+}
+
+function paragraph(content: Paragraph['content'], formatting?: Paragraph['formatting']): Paragraph {
+  return { type: 'paragraph', formatting, content };
+}
+
+function listItem(text: string, numId: number, level: number, isBullet: boolean): Paragraph {
+  return {
+    type: 'paragraph',
+    formatting: { numPr: { numId, ilvl: level } },
+    content: [run(text)],
+    listRendering: { marker: isBullet ? '•' : '%1.', level, numId, isBullet },
+  };
+}
+
+function cell(text: string, formatting?: TableCell['formatting']): TableCell {
+  return { type: 'tableCell', formatting, content: [paragraph([run(text)])] };
+}
+
+function makeDocument(content: BlockContent[], extra: Partial<Document['package']> = {}): Document {
+  return {
+    package: {
+      document: { content },
+      styles: {
+        styles: [
+          { styleId: 'Heading1', type: 'paragraph', name: 'heading 1', pPr: { outlineLevel: 0 } },
+          { styleId: 'Heading2', type: 'paragraph', name: 'heading 2', pPr: { outlineLevel: 1 } },
+          { styleId: 'Quote', type: 'paragraph', name: 'Quote' },
+          { styleId: 'Strong', type: 'character', name: 'Strong', rPr: { bold: true } },
+        ],
+      },
+      numbering: {
+        abstractNums: [
+          {
+            abstractNumId: 1,
+            levels: [{ ilvl: 0, start: 3, numFmt: 'lowerLetter', lvlText: '%1)' }],
+          },
+        ],
+        nums: [{ numId: 2, abstractNumId: 1 }],
+      },
+      ...extra,
+    },
+  };
+}
+
+const mergedTable: Table = {
+  type: 'table',
+  rows: [
+    {
+      type: 'tableRow',
+      formatting: { header: true },
+      cells: [cell('Name', { gridSpan: 2 }), cell('Total')],
+    },
+    {
+      type: 'tableRow',
+      cells: [cell('A', { vMerge: 'restart' }), cell('x'), cell('1')],
+    },
+    {
+      type: 'tableRow',
+      cells: [cell('', { vMerge: 'continue' }), cell('y'), cell('2 | 3')],
+    },
+  ],
+};
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+describe('serializeDocumentToHtml', () => {
+  test('maps outline levels and style chains to headings', () => {
+    const doc = makeDocument([
+      paragraph([run('Title')], { styleId: 'Heading1' }),
+      paragraph([run('Sub')], { outlineLevel: 2 }),
+      paragraph([run('Body & <text>')]),
+    ]);
+
+    const { html } = serializeDocumentToHtml(doc);
+
+    expect(html).toBe('<h1>Title</h1>\n<h3>Sub</h3>\n<p>Body &amp; &lt;text&gt;</p>');
+  });
+
+  test('builds nested ordered and bullet lists from numbering', () => {
+    const doc = makeDocument([
+      listItem('First', 2, 0, false),
+      listItem('Nested', 5, 1, true),
+      listItem('Second', 2, 0, false),
+    ]);
+
+    const { html } = serializeDocumentToHtml(doc);
+
+    expect(html).toBe(
+      '<ol start="3" type="a">\n' +
+        '<li>First\n<ul>\n<li>Nested</li>\n</ul>\n</li>\n' +
+        '<li>Second</li>\n' +
+        '</ol>'
+    );
+  });
+
+  test('writes header rows and merged cells with spans', () => {
+    const { html } = serializeDocumentToHtml(makeDocument([mergedTable]));
+
+    expect(html).toContain('<thead>\n<tr><th colspan="2">Name</th><th>Total</th></tr>\n</thead>');
+    expect(html).toContain('<tr><td rowspan="2">A</td><td>x</td><td>1</td></tr>');
+    expect(html).toContain('<tr><td>y</td><td>2 | 3</td></tr>');
+  });
+
+  test('links footnote references to a notes section', () => {
+    const doc = makeDocument(
+      [
+        paragraph([
+          run('Claim'),
+          { type: 'run', content: [{ type: 'footnoteRef', id: 7 }] },
+          run('.'),
+        ]),
+      ],
+      { footnotes: [{ type: 'footnote', id: 7, content: [paragraph([run('Source')])] }] }
+    );
+
+    const { html } = serializeDocumentToHtml(doc);
+
+    expect(html).toContain('Claim<sup id="fn-1-ref"><a href="#fn-1">1</a></sup>.');
+    expect(html).toContain('<li id="fn-1"><p>Source <a href="#fn-1-ref">↩</a></p></li>');
+  });
+
+  test('keeps anchors that internal links point to', () => {
+    const doc = makeDocument([
+      paragraph(
+        [
+          { type: 'bookmarkStart', id: 1, name: 'terms' },
+          run('Terms'),
+          { type: 'bookmarkEnd', id: 1 },
+        ],
+        { styleId: 'Heading2' }
+      ),
+      paragraph([
+        { type: 'bookmarkStart', id: 2, name: '_Toc123' },
+        {
+          type: 'hyperlink',
+          anchor: 'terms',
+          href: '#terms',
+          children: [run('see terms', { styleId: 'Strong' })],
+        },
+      ]),
+    ]);
+
+    const { html } = serializeDocumentToHtml(doc);
+
+    expect(html).toBe(
+      '<h2 id="terms">Terms</h2>\n<p><a href="#terms"><strong>see terms</strong></a></p>'
+    );
+  });
+
+  test('drops link targets that are not web, mail or anchor links', () => {
+    const doc = makeDocument([
+      paragraph([
+        { type: 'hyperlink', href: ' java\tscript:alert(1)', children: [run('click')] },
+        { type: 'hyperlink', href: 'mailto:a@example.com', children: [run('mail')] },
+      ]),
+    ]);
+
+    expect(serializeDocumentToHtml(doc).html).toBe(
+      '<p><a>click</a><a href="mailto:a@example.com">mail</a></p>'
+    );
+    expect(serializeDocumentToMarkdown(doc).markdown).toBe('click[mail](mailto:a@example.com)\n');
+  });
+
+  test('extracts images to files on request', () => {
+    const image = {
+      type: 'image' as const,
+      rId: 'rId5',
+      src: 'data:image/png;base64,iVBORw0KGgo=',
+      alt: 'Logo',
+      size: { width: 952500, height: 476250 },
+      wrap: { type: 'inline' as const },
+    };
+    const doc = makeDocument([paragraph([{ type: 'run', content: [{ type: 'drawing', image }] }])]);
+
+    const inline = serializeDocumentToHtml(doc);
+    expect(inline.html).toBe(
+      '<p><img src="data:image/png;base64,iVBORw0KGgo=" alt="Logo" width="100" height="50"></p>'
+    );
+
+    const extracted = serializeDocumentToHtml(doc, { images: 'files' });
+    expect(extracted.html).toContain('src="media/image1.png"');
+    expect(extracted.files).toHaveLength(1);
+    expect(extracted.files[0].data.slice(0, 4)).toEqual(new Uint8Array([0x89, 0x50, 0x4e, 0x47]));
+  });
+
+  test('drops deleted text and keeps insertions', () => {
+    const info = { id: 1, author: 'Reviewer' };
+    const doc = makeDocument([
+      paragraph([
+        run('Keep '),
+        { type: 'deletion', info, content: [run('old')] },
+        { type: 'insertion', info, content: [run('new')] },
+      ]),
+    ]);
+
+    expect(serializeDocumentToHtml(doc).html).toBe('<p>Keep new</p>');
+  });
+});
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+describe('serializeDocumentToMarkdown', () => {
+  test('writes headings, emphasis and escaped text', () => {
+    const doc = makeDocument([
+      paragraph([run('Overview')], { styleId: 'Heading1' }),
+      paragraph([run('Plain *stars* and '), run('bold ', { bold: true }), run('end')]),
+      paragraph([run('# not a heading')]),
+    ]);
+
+    const { markdown } = serializeDocumentToMarkdown(doc);
+
+    expect(markdown).toBe(
+      '# Overview\n\nPlain \\*stars\\* and **bold** end\n\n\\# not a heading\n'
+    );
+  });
+
+  test('numbers ordered lists from the definition start and indents nesting', () => {
+    const doc = makeDocument([
+      listItem('First', 2, 0, false),
+      listItem('Nested', 5, 1, true),
+      listItem('Second', 2, 0, false),
+    ]);
+
+    const { markdown } = serializeDocumentToMarkdown(doc);
+
+    expect(markdown).toBe('3. First\n   - Nested\n4. Second\n');
+  });
+
+  test('writes pipe tables with empty cells for merges', () => {
+    const { markdown } = serializeDocumentToMarkdown(makeDocument([mergedTable]));
+
+    expect(markdown).toBe(
+      '| Name |  | Total |\n' + '| --- | --- | --- |\n' + '| A | x | 1 |\n' + '|  | y | 2 \\| 3 |\n'
+    );
+  });
+
+  test('writes GFM footnotes', () => {
+    const doc = makeDocument(
+      [paragraph([run('Claim'), { type: 'run', content: [{ type: 'footnoteRef', id: 7 }] }])],
+      {
+        footnotes: [
+          {
+            type: 'footnote',
+            id: 7,
+            content: [paragraph([run('Source one')]), paragraph([run('More')])],
+          },
+        ],
+      }
+    );
+
+    const { markdown } = serializeDocumentToMarkdown(doc);
+
+    expect(markdown).toBe('Claim[^1]\n\n[^1]: Source one\n\n    More\n');
+  });
+
+  test('groups quote paragraphs and resolves links', () => {
+    const doc = makeDocument([
+      paragraph([run('Quoted')], { styleId: 'Quote' }),
+      paragraph([run('Again')], { styleId: 'Quote' }),
+      paragraph([
+        {
+          type: 'hyperlink',
+          href: 'https://example.com/a b',
+          children: [run('site')],
+        },
+      ]),
+    ]);
+
+    const { markdown } = serializeDocumentToMarkdown(doc);
+
+    expect(markdown).toBe('> Quoted\n>\n> Again\n\n[site](<https://example.com/a b>)\n');
+  });
+});
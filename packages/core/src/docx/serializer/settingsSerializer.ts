@@ -0,0 +1,112 @@
+/**
+ * Settings Serializer - Write editor-owned settings into word/settings.xml
+ *
+ * Counterpart of settingsParser. The original part carries many settings the
+ * editor doesn't model, so it is patched in place rather than regenerated;
+ * a minimal part is created only when the package has none.
+ */
+
+import type { DocumentProtection, DocumentSettings } from '../../types/document';
+import { escapeXml } from './xmlUtils';
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Elements that precede w:documentProtection in CT_Settings, in schema order
+ */
+const BEFORE_PROTECTION = [
+  'writeProtection',
+  'view',
+  'zoom',
+  'removePersonalInformation',
+  'removeDateAndTime',
+  'doNotDisplayPageBoundaries',
+  'displayBackgroundShape',
+  'printPostScriptOverText',
+  'printFractionalCharacterWidth',
+  'printFormsData',
+  'embedTrueTypeFonts',
+  'embedSystemFonts',
+  'saveSubsetFonts',
+  'saveFormsData',
+  'mirrorMargins',
+  'alignBordersAndEdges',
+  'bordersDoNotSurroundHeader',
+  'bordersDoNotSurroundFooter',
+  'gutterAtTop',
+  'hideSpellingErrors',
+  'hideGrammaticalErrors',
+  'activeWritingStyle',
+  'proofState',
+  'formsDesign',
+  'attachedTemplate',
+  'linkStyles',
+  'stylePaneFormatFilter',
+  'stylePaneSortMethod',
+  'documentType',
+  'mailMerge',
+  'revisionView',
+  'trackRevisions',
+  'doNotTrackMoves',
+  'doNotTrackFormatting',
+];
+
+/**
+ * Serialize a w:documentProtection element
+ */
+export function serializeDocumentProtection(protection: DocumentProtection): string {
+  const attrs = [`w:edit="${protection.edit}"`];
+  if (protection.formatting !== undefined) {
+    attrs.push(`w:formatting="${protection.formatting ? 1 : 0}"`);
+  }
+  attrs.push(`w:enforcement="${protection.enforcement ? 1 : 0}"`);
+  for (const [name, value] of Object.entries(protection.passwordHash ?? {})) {
+    attrs.push(`w:${name}="${escapeXml(value)}"`);
+  }
+  return `<w:documentProtection ${attrs.join(' ')}/>`;
+}
+
+/**
+ * Apply settings to an existing settings.xml
+ *
+ * @param settingsXml - Original word/settings.xml content
+ * @param settings - Settings to write
+ * @returns Updated settings.xml content
+ */
+export function updateSettingsXml(settingsXml: string, settings: DocumentSettings): string {
+  const protectionPattern =
+    /<w:documentProtection\b[^>]*?(?:\/>|>[\s\S]*?<\/w:documentProtection>)/;
+  const protection = settings.protection ? serializeDocumentProtection(settings.protection) : '';
+
+  if (protectionPattern.test(settingsXml)) {
+    return settingsXml.replace(protectionPattern, protection);
+  }
+  if (!protection) return settingsXml;
+
+  // Insert after the last element that must come before it
+  let insertAt = -1;
+  for (const name of BEFORE_PROTECTION) {
+    const pattern = new RegExp(`<w:${name}\\b[^>]*?(?:\\/>|>[\\s\\S]*?<\\/w:${name}>)`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(settingsXml))) {
+      insertAt = Math.max(insertAt, match.index + match[0].length);
+    }
+  }
+  if (insertAt < 0) {
+    const open = /<w:settings\b[^>]*>/.exec(settingsXml);
+    if (!open) return settingsXml;
+    insertAt = open.index + open[0].length;
+  }
+  return settingsXml.slice(0, insertAt) + protection + settingsXml.slice(insertAt);
+}
+
+/**
+ * Serialize a minimal settings.xml for packages that have none
+ */
+export function serializeSettings(settings: DocumentSettings): string {
+  const protection = settings.protection ? serializeDocumentProtection(settings.protection) : '';
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    `<w:settings xmlns:w="${W_NAMESPACE}">${protection}</w:settings>`
+  );
+}
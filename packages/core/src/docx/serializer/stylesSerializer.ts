@@ -0,0 +1,77 @@
+/**
+ * Styles Serializer - Serialize StyleDefinitions to styles.xml
+ *
+ * Used when a document is built in memory (createDocx, importers) and has no
+ * original styles.xml to preserve. Round-tripped documents keep their original
+ * part untouched, so this only needs to cover what the model can express.
+ */
+
+import type { Style, StyleDefinitions } from '../../types/styles';
+import { serializeTextFormatting } from './runSerializer';
+import { serializeParagraphFormatting } from './paragraphSerializer';
+import {
+  serializeTableFormatting,
+  serializeTableRowFormatting,
+  serializeTableCellFormatting,
+} from './tableSerializer';
+import { escapeXml } from './xmlUtils';
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function onOff(name: string, value: boolean | undefined): string {
+  if (value === undefined) return '';
+  return value ? `<w:${name}/>` : `<w:${name} w:val="0"/>`;
+}
+
+/**
+ * Serialize a single w:style element
+ */
+export function serializeStyle(style: Style): string {
+  const attrs = [`w:type="${style.type}"`];
+  if (style.default) attrs.push('w:default="1"');
+  attrs.push(`w:styleId="${escapeXml(style.styleId)}"`);
+
+  const parts: string[] = [];
+  if (style.name) parts.push(`<w:name w:val="${escapeXml(style.name)}"/>`);
+  if (style.basedOn) parts.push(`<w:basedOn w:val="${escapeXml(style.basedOn)}"/>`);
+  if (style.next) parts.push(`<w:next w:val="${escapeXml(style.next)}"/>`);
+  if (style.link) parts.push(`<w:link w:val="${escapeXml(style.link)}"/>`);
+  parts.push(onOff('hidden', style.hidden));
+  if (style.uiPriority !== undefined) parts.push(`<w:uiPriority w:val="${style.uiPriority}"/>`);
+  parts.push(onOff('semiHidden', style.semiHidden));
+  parts.push(onOff('unhideWhenUsed', style.unhideWhenUsed));
+  parts.push(onOff('qFormat', style.qFormat));
+  parts.push(onOff('personal', style.personal));
+  parts.push(serializeParagraphFormatting(style.pPr));
+  parts.push(serializeTextFormatting(style.rPr));
+  parts.push(serializeTableFormatting(style.tblPr));
+  parts.push(serializeTableRowFormatting(style.trPr));
+  parts.push(serializeTableCellFormatting(style.tcPr));
+
+  return `<w:style ${attrs.join(' ')}>${parts.join('')}</w:style>`;
+}
+
+/**
+ * Serialize style definitions to a complete styles.xml
+ */
+export function serializeStyles(definitions: StyleDefinitions): string {
+  const parts: string[] = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    `<w:styles xmlns:w="${W_NAMESPACE}">`,
+  ];
+
+  const { docDefaults } = definitions;
+  if (docDefaults) {
+    parts.push('<w:docDefaults>');
+    parts.push(`<w:rPrDefault>${serializeTextFormatting(docDefaults.rPr)}</w:rPrDefault>`);
+    parts.push(`<w:pPrDefault>${serializeParagraphFormatting(docDefaults.pPr)}</w:pPrDefault>`);
+    parts.push('</w:docDefaults>');
+  }
+
+  for (const style of definitions.styles) {
+    parts.push(serializeStyle(style));
+  }
+
+  parts.push('</w:styles>');
+  return parts.join('');
+}
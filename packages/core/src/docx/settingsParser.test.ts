@@ -0,0 +1,107 @@
+/**
+ * Tests for document protection and hyphenation in settings.xml, and editable regions
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { Paragraph } from '../types/document';
+import { parseDocumentSettings } from './settingsParser';
+import { updateSettingsXml } from './serializer/settingsSerializer';
+import { parseDocumentBody } from './documentParser';
+import { serializeDocumentBody } from './serializer/documentSerializer';
+import { mergePermissionRanges } from './permissionRanges';
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function settingsXml(inner: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:settings xmlns:w="${W}"><w:zoom w:percent="100"/>${inner}<w:defaultTabStop w:val="720"/></w:settings>`;
+}
+
+describe('document protection settings', () => {
+  test('reads the restriction and keeps the password verifier', () => {
+    const settings = parseDocumentSettings(
+      settingsXml(
+        '<w:documentProtection w:edit="readOnly" w:enforcement="1" w:cryptSpinCount="100000" w:hash="abc=" w:salt="xyz="/>'
+      )
+    );
+    expect(settings).toEqual({
+      protection: {
+        edit: 'readOnly',
+        enforcement: true,
+        passwordHash: { cryptSpinCount: '100000', hash: 'abc=', salt: 'xyz=' },
+      },
+    });
+    expect(parseDocumentSettings(settingsXml(''))).toEqual({});
+    expect(parseDocumentSettings(null)).toBeUndefined();
+  });
+
+  test('writes protection in schema order, and removes it', () => {
+    const xml = settingsXml('');
+    const protectedXml = updateSettingsXml(xml, {
+      protection: { edit: 'trackedChanges', enforcement: true },
+    });
+    expect(protectedXml).toContain(
+      '<w:zoom w:percent="100"/><w:documentProtection w:edit="trackedChanges" w:enforcement="1"/><w:defaultTabStop'
+    );
+    expect(parseDocumentSettings(protectedXml)?.protection?.edit).toBe('trackedChanges');
+
+    const changed = updateSettingsXml(protectedXml, {
+      protection: { edit: 'comments', enforcement: false },
+    });
+    expect(changed.match(/documentProtection/g)).toHaveLength(1);
+    expect(parseDocumentSettings(changed)?.protection).toEqual({
+      edit: 'comments',
+      enforcement: false,
+    });
+
+    expect(updateSettingsXml(changed, {})).toBe(xml);
+  });
+});
+
+describe('hyphenation settings', () => {
+  test('reads automatic hyphenation, caps handling and the zone', () => {
+    expect(
+      parseDocumentSettings(
+        settingsXml(
+          '<w:autoHyphenation/><w:doNotHyphenateCaps w:val="0"/><w:hyphenationZone w:val="425"/>'
+        )
+      )
+    ).toEqual({ autoHyphenation: true, doNotHyphenateCaps: false, hyphenationZone: 425 });
+    expect(
+      parseDocumentSettings(settingsXml('<w:autoHyphenation w:val="false"/>'))?.autoHyphenation
+    ).toBe(false);
+  });
+});
+
+describe('editable regions', () => {
+  const body = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W}"><w:body>
+<w:p><w:r><w:t>Locked</w:t></w:r></w:p>
+<w:permStart w:id="7" w:edGrp="everyone"/>
+<w:p><w:r><w:t>One</w:t></w:r></w:p>
+<w:p><w:r><w:t>Two</w:t></w:r><w:permEnd w:id="7"/></w:p>
+</w:body></w:document>`;
+
+  test('splits ranges spanning paragraphs into one per paragraph', () => {
+    const content = parseDocumentBody(body).content as Paragraph[];
+    expect(content.map((p) => p.content.map((c) => c.type))).toEqual([
+      ['run'],
+      ['permStart', 'run', 'permEnd'],
+      ['permStart', 'run', 'permEnd'],
+    ]);
+    expect(content[2].content[0]).toEqual({ type: 'permStart', id: '7', edGrp: 'everyone' });
+  });
+
+  test('merges them back into one range on save', () => {
+    const parsed = parseDocumentBody(body);
+    mergePermissionRanges(parsed.content);
+    const xml = serializeDocumentBody(parsed);
+
+    expect(xml.match(/<w:permStart /g)).toHaveLength(1);
+    expect(xml.match(/<w:permEnd /g)).toHaveLength(1);
+    expect(xml.indexOf('<w:permStart w:id="7" w:edGrp="everyone"/>')).toBeLessThan(
+      xml.indexOf('One')
+    );
+    expect(xml.indexOf('<w:permEnd w:id="7"/>')).toBeGreaterThan(xml.indexOf('Two'));
+  });
+});
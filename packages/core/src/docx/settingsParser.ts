@@ -0,0 +1,82 @@
+/**
+ * Settings Parser - Parse word/settings.xml
+ *
+ * Only the settings the editor acts on are read; the part itself is kept
+ * as-is on save and patched where those settings changed.
+ *
+ * OOXML Reference:
+ * - w:settings/w:documentProtection (w:edit, w:enforcement, w:formatting,
+ *   plus the password verifier attributes)
+ * - w:settings/w:autoHyphenation, w:doNotHyphenateCaps (CT_OnOff)
+ * - w:settings/w:hyphenationZone (w:val, twips)
+ */
+
+import type { DocumentProtection, DocumentSettings } from '../types/document';
+import {
+  parseXmlDocument,
+  findChild,
+  getLocalName,
+  parseBooleanElement,
+  parseNumericAttribute,
+  type XmlElement,
+} from './xmlParser';
+
+const EDIT_VALUES: DocumentProtection['edit'][] = [
+  'none',
+  'readOnly',
+  'comments',
+  'trackedChanges',
+  'forms',
+];
+
+/** Attributes of w:documentProtection that aren't part of the password verifier */
+const PROTECTION_ATTRIBUTES = new Set(['edit', 'enforcement', 'formatting']);
+
+/**
+ * Parse the settings part
+ *
+ * @param settingsXml - word/settings.xml content
+ * @returns Parsed settings, or undefined when the part is missing
+ */
+export function parseDocumentSettings(settingsXml: string | null): DocumentSettings | undefined {
+  const root = settingsXml ? parseXmlDocument(settingsXml) : null;
+  if (!root) return undefined;
+
+  const settings: DocumentSettings = {};
+  const protection = parseDocumentProtection(findChild(root, 'w', 'documentProtection'));
+  if (protection) settings.protection = protection;
+
+  const autoHyphenation = findChild(root, 'w', 'autoHyphenation');
+  if (autoHyphenation) settings.autoHyphenation = parseBooleanElement(autoHyphenation);
+  const doNotHyphenateCaps = findChild(root, 'w', 'doNotHyphenateCaps');
+  if (doNotHyphenateCaps) settings.doNotHyphenateCaps = parseBooleanElement(doNotHyphenateCaps);
+  const zone = parseNumericAttribute(findChild(root, 'w', 'hyphenationZone'), 'w', 'val');
+  if (zone !== undefined) settings.hyphenationZone = zone;
+  return settings;
+}
+
+function parseDocumentProtection(element: XmlElement | null): DocumentProtection | undefined {
+  if (!element) return undefined;
+
+  const protection: DocumentProtection = { edit: 'none', enforcement: false };
+  for (const [name, value] of Object.entries(element.attributes ?? {})) {
+    const local = getLocalName(name);
+    const text = String(value);
+    if (local === 'edit') {
+      const edit = EDIT_VALUES.find((v) => v === text);
+      if (edit) protection.edit = edit;
+    } else if (local === 'enforcement') {
+      protection.enforcement = isOn(text);
+    } else if (local === 'formatting') {
+      protection.formatting = isOn(text);
+    } else if (!PROTECTION_ATTRIBUTES.has(local)) {
+      if (!protection.passwordHash) protection.passwordHash = {};
+      protection.passwordHash[local] = text;
+    }
+  }
+  return protection;
+}
+
+function isOn(value: string): boolean {
+  return value === '1' || value === 'true' || value === 'on';
+}
@@ -48,6 +48,7 @@ import {
   parseFill as parseSpPrFill,
   parseAnchorPosition,
   parseAnchorWrap,
+  parseTextBodyVertical,
   resolveColorValueToHex,
 } from './drawingUtils';
 import { emuToPixels } from '../utils/units';
@@ -397,6 +398,7 @@ function parseShapeType(spPr: XmlElement | null): ShapeType {
  */
 function parseBodyProperties(bodyPr: XmlElement | null): {
   vertical?: boolean;
+  vert?: ShapeTextBody['vert'];
   rotation?: number;
   anchor?: ShapeTextBody['anchor'];
   anchorCenter?: boolean;
@@ -414,6 +416,8 @@ function parseBodyProperties(bodyPr: XmlElement | null): {
   if (vert === 'vert' || vert === 'vert270' || vert === 'wordArtVert') {
     result.vertical = true;
   }
+  const textFlow = parseTextBodyVertical(bodyPr);
+  if (textFlow) result.vert = textFlow;
 
   // Rotation
   const rot = getAttribute(bodyPr, null, 'rot');
@@ -272,6 +272,23 @@ function parseRunProperties(
   const cs = findChild(rPr, 'w', 'cs');
   if (cs) formatting.cs = parseBooleanElement(cs);
 
+  // Proofing
+  const lang = findChild(rPr, 'w', 'lang');
+  if (lang) {
+    const val = getAttribute(lang, 'w', 'val');
+    const eastAsia = getAttribute(lang, 'w', 'eastAsia');
+    const bidi = getAttribute(lang, 'w', 'bidi');
+    if (val || eastAsia || bidi) {
+      formatting.lang = {};
+      if (val) formatting.lang.val = val;
+      if (eastAsia) formatting.lang.eastAsia = eastAsia;
+      if (bidi) formatting.lang.bidi = bidi;
+    }
+  }
+
+  const noProof = findChild(rPr, 'w', 'noProof');
+  if (noProof) formatting.noProof = parseBooleanElement(noProof);
+
   // Character style reference
   const rStyle = findChild(rPr, 'w', 'rStyle');
   if (rStyle) {
@@ -0,0 +1,125 @@
+/**
+ * Tests for reading and writing table of contents fields
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { Paragraph } from '../types/document';
+import { parseDocumentBody } from './documentParser';
+import { serializeDocumentBody } from './serializer/documentSerializer';
+import { buildTocInstruction, parseTocInstruction } from './fields/toc';
+
+const W = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+function documentXml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W}"><w:body>${body}</w:body></w:document>`;
+}
+
+function text(paragraph: Paragraph): string {
+  return paragraph.content
+    .map((item) =>
+      item.type === 'run' ? item.content.map((c) => (c.type === 'text' ? c.text : '')).join('') : ''
+    )
+    .join('');
+}
+
+const WORD_TOC = `
+<w:sdt>
+  <w:sdtPr><w:docPartObj><w:docPartGallery w:val="Table of Contents"/><w:docPartUnique/></w:docPartObj></w:sdtPr>
+  <w:sdtContent>
+    <w:p><w:pPr><w:pStyle w:val="TOCHeading"/></w:pPr><w:r><w:t>Contents</w:t></w:r></w:p>
+    <w:p>
+      <w:r><w:fldChar w:fldCharType="begin"/></w:r>
+      <w:r><w:instrText xml:space="preserve"> TOC \\o "1-3" \\h \\z \\u </w:instrText></w:r>
+      <w:r><w:fldChar w:fldCharType="separate"/></w:r>
+      <w:r><w:t>Introduction</w:t></w:r>
+      <w:r><w:tab/></w:r>
+      <w:r><w:fldChar w:fldCharType="begin"/></w:r>
+      <w:r><w:instrText xml:space="preserve"> PAGEREF _Toc1 \\h </w:instrText></w:r>
+      <w:r><w:fldChar w:fldCharType="separate"/></w:r>
+      <w:r><w:t>1</w:t></w:r>
+      <w:r><w:fldChar w:fldCharType="end"/></w:r>
+    </w:p>
+    <w:p><w:r><w:t>Results</w:t></w:r></w:p>
+    <w:p><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>
+  </w:sdtContent>
+</w:sdt>
+<w:p><w:r><w:t>Body</w:t></w:r></w:p>`;
+
+describe('TOC instructions', () => {
+  test('reads levels, hyperlinks and page numbers', () => {
+    expect(parseTocInstruction('TOC \\o "2-4" \\h \\z \\u')).toEqual({
+      fromLevel: 2,
+      toLevel: 4,
+      hyperlinks: true,
+      pageNumbers: true,
+    });
+    expect(parseTocInstruction('TOC \\o \\n "1-9"')).toMatchObject({
+      fromLevel: 1,
+      toLevel: 9,
+      hyperlinks: false,
+      pageNumbers: false,
+    });
+  });
+
+  test('writes the instruction Word uses', () => {
+    expect(buildTocInstruction()).toBe('TOC \\o "1-3" \\h \\z \\u');
+    expect(buildTocInstruction({ toLevel: 2, hyperlinks: false, pageNumbers: false })).toBe(
+      'TOC \\o "1-2" \\n "1-2" \\z \\u'
+    );
+  });
+});
+
+describe('TOC fields', () => {
+  test('marks the paragraphs of a TOC docPart', () => {
+    const content = parseDocumentBody(documentXml(WORD_TOC)).content as Paragraph[];
+
+    expect(content.map(text)).toEqual(['Contents', 'Introduction', 'Results', '', 'Body']);
+    expect(content[0].tableOfContents).toEqual({
+      instruction: 'TOC \\o "1-3" \\h \\z \\u',
+      docPart: true,
+      title: true,
+    });
+    expect(content.slice(1, 4).every((p) => p.tableOfContents && !p.tableOfContents.title)).toBe(
+      true
+    );
+    expect(content[4].tableOfContents).toBeUndefined();
+
+    // The PAGEREF field inside the TOC survives as a field
+    const pageRef = content[1].content.find((item) => item.type === 'complexField');
+    expect(pageRef).toMatchObject({ instruction: 'PAGEREF _Toc1 \\h' });
+  });
+
+  test('writes the TOC back as one field in a docPart content control', () => {
+    const body = parseDocumentBody(documentXml(WORD_TOC));
+    const xml = serializeDocumentBody(body);
+
+    expect(xml.startsWith('<w:sdt><w:sdtPr><w:docPartObj>')).toBe(true);
+    expect(xml).toContain('<w:docPartGallery w:val="Table of Contents"/>');
+    expect(xml.match(/w:fldCharType="begin"/g)).toHaveLength(2);
+    expect(xml.match(/w:fldCharType="end"/g)).toHaveLength(2);
+    expect(xml.indexOf('TOC \\o')).toBeGreaterThan(xml.indexOf('Contents'));
+
+    // And reads back the same
+    const reparsed = parseDocumentBody(documentXml(xml));
+    expect(reparsed.content.map((block) => (block as Paragraph).tableOfContents)).toEqual(
+      body.content.map((block) => (block as Paragraph).tableOfContents)
+    );
+  });
+
+  test('finds a TOC field outside a content control', () => {
+    const xml = documentXml(`
+<w:p><w:r><w:fldChar w:fldCharType="begin" w:fldLock="true"/></w:r><w:r><w:instrText>TOC \\o "1-2"</w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>One</w:t></w:r></w:p>
+<w:p><w:r><w:t>Two</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>
+<w:p><w:r><w:t>After</w:t></w:r></w:p>`);
+    const content = parseDocumentBody(xml).content as Paragraph[];
+
+    expect(content.map(text)).toEqual(['One', 'Two', 'After']);
+    expect(content.map((p) => p.tableOfContents)).toEqual([
+      { instruction: 'TOC \\o "1-2"', fldLock: true },
+      { instruction: 'TOC \\o "1-2"', fldLock: true },
+      undefined,
+    ]);
+    expect(serializeDocumentBody({ content })).not.toContain('<w:sdt>');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Table of Contents Parser - Recognize TOC fields that span paragraphs
+ *
+ * Word writes a table of contents as one TOC field whose result runs over
+ * several paragraphs, usually inside a content control:
+ *
+ *   <w:sdt>
+ *     <w:sdtPr><w:docPartObj><w:docPartGallery w:val="Table of Contents"/>…</w:sdtPr>
+ *     <w:sdtContent>
+ *       <w:p>Contents</w:p>                                  (title)
+ *       <w:p>[begin] TOC \o "1-3" \h [separate] entry 1</w:p>
+ *       <w:p>entry 2 [end]</w:p>
+ *     </w:sdtContent>
+ *   </w:sdt>
+ *
+ * The paragraph parser leaves a field that doesn't end in its paragraph as
+ * raw field-character runs. This pass strips those runs and marks the
+ * paragraphs with `tableOfContents` so the TOC can be edited, updated and
+ * written back as a proper field.
+ */
+
+import type {
+  BlockContent,
+  Paragraph,
+  ParagraphContent,
+  Run,
+  TableOfContentsInfo,
+} from '../types/document';
+import { findChild, getAttribute, type XmlElement } from './xmlParser';
+
+// ============================================================================
+// DOCPART DETECTION
+// ============================================================================
+
+/**
+ * Check whether a w:sdt element is a "Table of Contents" building block
+ */
+export function isTableOfContentsSdt(sdt: XmlElement): boolean {
+  const sdtPr = findChild(sdt, 'w', 'sdtPr');
+  const docPartObj = sdtPr ? findChild(sdtPr, 'w', 'docPartObj') : null;
+  const gallery = docPartObj ? findChild(docPartObj, 'w', 'docPartGallery') : null;
+  return gallery ? getAttribute(gallery, 'w', 'val') === 'Table of Contents' : false;
+}
+
+// ============================================================================
+// MARKING
+// ============================================================================
+
+/**
+ * Find TOC fields among top-level paragraphs and mark their paragraphs
+ *
+ * @param blocks - Parsed blocks; paragraphs are updated in place
+ * @param docPart - Blocks are the content of a TOC docPart content control
+ */
+export function markTableOfContents(blocks: BlockContent[], docPart = false): void {
+  const paragraphs = blocks.filter(
+    (block): block is Paragraph => block.type === 'paragraph' && !block.tableOfContents
+  );
+
+  let index = 0;
+  while (index < paragraphs.length) {
+    const begin = findOpenTocField(paragraphs[index]);
+    if (!begin) {
+      index++;
+      continue;
+    }
+
+    const info: TableOfContentsInfo = {
+      instruction: begin.instruction,
+      ...(docPart ? { docPart: true } : {}),
+      ...(begin.fldLock ? { fldLock: true } : {}),
+      ...(begin.dirty ? { dirty: true } : {}),
+    };
+
+    // Paragraphs before the field inside the content control are its title
+    if (docPart) {
+      for (let i = 0; i < index; i++) {
+        paragraphs[i].tableOfContents = { ...info, title: true };
+      }
+    }
+
+    removeContent(paragraphs[index], begin.run);
+    let depth = 1;
+    let last = index;
+    for (; last < paragraphs.length; last++) {
+      paragraphs[last].tableOfContents = { ...info };
+      depth = removeClosingFieldEnd(paragraphs[last], depth);
+      if (depth === 0) break;
+    }
+
+    // The rest of a TOC docPart (e.g. a trailing empty paragraph) stays with it
+    if (docPart) {
+      for (let i = last + 1; i < paragraphs.length; i++) {
+        paragraphs[i].tableOfContents = { ...info };
+      }
+      return;
+    }
+    index = last + 1;
+  }
+}
+
+interface OpenTocField {
+  run: Run;
+  instruction: string;
+  fldLock?: boolean;
+  dirty?: boolean;
+}
+
+/**
+ * Find a raw run that begins a TOC field left open by the paragraph parser
+ */
+function findOpenTocField(paragraph: Paragraph): OpenTocField | undefined {
+  for (const item of paragraph.content) {
+    if (item.type !== 'run') continue;
+    const begin = item.content.find((c) => c.type === 'fieldChar' && c.charType === 'begin');
+    if (!begin || begin.type !== 'fieldChar') continue;
+
+    const instruction = item.content
+      .map((c) => (c.type === 'instrText' ? c.text : ''))
+      .join('')
+      .trim();
+    if (/^TOC\b/i.test(instruction)) {
+      return { run: item, instruction, fldLock: begin.fldLock, dirty: begin.dirty };
+    }
+  }
+  return undefined;
+}
+
+function removeContent(paragraph: Paragraph, item: ParagraphContent): void {
+  paragraph.content = paragraph.content.filter((c) => c !== item);
+}
+
+/**
+ * Follow field nesting through a paragraph and remove the field end that
+ * closes the TOC
+ *
+ * @param depth - Open fields at the start of the paragraph, the TOC outermost
+ * @returns Open fields at the end of the paragraph; 0 once the TOC is closed
+ */
+function removeClosingFieldEnd(paragraph: Paragraph, depth: number): number {
+  for (const item of paragraph.content) {
+    if (item.type !== 'run') continue;
+    for (let i = 0; i < item.content.length; i++) {
+      const c = item.content[i];
+      if (c.type !== 'fieldChar' || c.charType === 'separate') continue;
+      depth += c.charType === 'begin' ? 1 : -1;
+      if (depth > 0) continue;
+
+      item.content.splice(i, 1);
+      if (item.content.length === 0) removeContent(paragraph, item);
+      return 0;
+    }
+  }
+  return depth;
+}
@@ -51,6 +51,7 @@ import {
   parseOutline,
   parseAnchorPosition,
   parseAnchorWrap,
+  parseTextBodyVertical,
   resolveColorValueToHex,
 } from './drawingUtils';
 import { emuToPixels } from '../utils/units';
@@ -71,16 +72,20 @@ const DEFAULT_MARGIN_EMU = 91440;
 
 /**
  * Parse text body properties from wps:bodyPr
- * Returns margins/insets for the text box
+ * Returns margins/insets and text flow for the text box
  */
 function parseBodyProperties(bodyPr: XmlElement | null): {
   margins?: TextBox['margins'];
+  vert?: TextBox['vert'];
 } {
   if (!bodyPr) {
     return {};
   }
 
-  const result: { margins?: TextBox['margins'] } = {};
+  const result: { margins?: TextBox['margins']; vert?: TextBox['vert'] } = {};
+
+  const vert = parseTextBodyVertical(bodyPr);
+  if (vert) result.vert = vert;
 
   // Margins (insets) in EMUs
   const lIns = parseNumericAttribute(bodyPr, null, 'lIns');
@@ -301,6 +306,7 @@ export function parseTextBox(drawingEl: XmlElement): TextBox | null {
   if (fill) textBox.fill = fill;
   if (outline) textBox.outline = outline;
   if (bodyProps.margins) textBox.margins = bodyProps.margins;
+  if (bodyProps.vert) textBox.vert = bodyProps.vert;
 
   // Parse position for anchored text boxes
   if (isAnchor) {
@@ -375,6 +381,7 @@ export function parseTextBoxFromShape(
   if (fill) textBox.fill = fill;
   if (outline) textBox.outline = outline;
   if (bodyProps.margins) textBox.margins = bodyProps.margins;
+  if (bodyProps.vert) textBox.vert = bodyProps.vert;
   if (position) textBox.position = position;
   if (wrap) textBox.wrap = wrap;
 
@@ -52,6 +52,7 @@ export type {
   InsertTextOptions,
   InsertTableOptions,
   InsertImageOptions,
+  InsertEquationOptions,
   InsertHyperlinkOptions,
   FormattedTextSegment,
 } from './agent/DocumentAgent';
@@ -83,6 +84,12 @@ export {
   type FormattingSummary,
 } from './agent/selectionContext';
 
+export {
+  createMockAIHandler,
+  type MockAIHandler,
+  type MockAIHandlerOptions,
+} from './agent/mockAIHandler';
+
 // ============================================================================
 // TEXT UTILITIES
 // ============================================================================
@@ -122,10 +129,187 @@ export {
   serializeDocumentBody,
   serializeSectionProperties,
 } from './docx/serializer/documentSerializer';
+export {
+  serializeDocumentToHtml,
+  type HtmlExportOptions,
+  type HtmlExportResult,
+} from './docx/serializer/htmlSerializer';
+export {
+  serializeDocumentToMarkdown,
+  type MarkdownExportOptions,
+  type MarkdownExportResult,
+} from './docx/serializer/markdownSerializer';
+export type { ExportedFile, SemanticImageMode } from './docx/serializer/semanticContent';
+export {
+  importHtml,
+  importMarkdown,
+  markdownToHtml,
+  type DocumentImportOptions,
+  type ImageResolver,
+  type ImportedImage,
+} from './docx/importer';
 export { repackDocx, createDocx, updateMultipleFiles } from './docx/rezip';
+export { compareDocuments, compareDocx, type CompareOptions } from './docx/compare';
+export {
+  updateFields,
+  setFieldResult,
+  formatDateTime,
+  buildTocInstruction,
+  parseTocInstruction,
+  type UpdateFieldsOptions,
+  type FieldUpdate,
+  type FieldPart,
+  type TocFieldOptions,
+} from './docx/fields';
+export { parseDocumentSettings } from './docx/settingsParser';
+export { parseCustomXmlParts } from './docx/customXmlParser';
+export { applyBoundData, writeBoundData, replaceCustomXmlPart } from './docx/dataBinding';
+export {
+  createDocumentProtectionPlugin,
+  setDocumentProtection,
+  isProtectionEnforced,
+  canEditRegion,
+  isEditableAt,
+  documentProtectionKey,
+  type DocumentProtectionState,
+} from './prosemirror/plugins/documentProtection';
+export {
+  createFormFillingPlugin,
+  setFormFilling,
+  isFormFillingActive,
+  formFillingKey,
+  findFormControls,
+  formControlAt,
+  isFormControlEditable,
+  getFormControlValue,
+  getFormControlItems,
+  getFormValues,
+  setFormControlValue,
+  setFormValues,
+  moveToFormControl,
+  type FormFillingState,
+  type FormControl,
+  type FormValue,
+} from './prosemirror/plugins/formFilling';
 export { attemptSelectiveSave } from './docx/selectiveSave';
 export { buildPatchedDocumentXml, validatePatchSafety } from './docx/selectiveXmlPatch';
 
+// ============================================================================
+// HYPHENATION
+// ============================================================================
+
+export {
+  createHyphenator,
+  registerHyphenationDictionary,
+  unregisterHyphenationDictionary,
+  getHyphenator,
+  type HyphenationDictionary,
+  type Hyphenator,
+} from './layout-bridge/measuring/hyphenation';
+
+// ============================================================================
+// TEXT MEASUREMENT
+// ============================================================================
+
+export {
+  setMeasurementBackend,
+  getMeasurementBackend,
+  type TextMeasurementBackend,
+} from './layout-bridge/measuring/measureContainer';
+export {
+  createFontMetricsBackend,
+  readFontFiles,
+  type FontFile,
+  type FontMetricsBackendOptions,
+} from './layout-bridge/measuring/fontMetricsBackend';
+
+// ============================================================================
+// SPELL CHECKING
+// ============================================================================
+
+export {
+  createSpellChecker,
+  registerSpellingDictionary,
+  unregisterSpellingDictionary,
+  getSpellChecker,
+  onSpellingDictionaryChange,
+  type SpellingDictionary,
+  type SpellChecker,
+} from './utils/hunspell';
+export {
+  createSpellCheckPlugin,
+  spellCheckKey,
+  tokenizeTextblock,
+  getSpellingErrors,
+  getSpellingErrorAt,
+  getSpellingSuggestions,
+  replaceSpellingError,
+  ignoreSpellingAll,
+  addWordToDictionary,
+  recheckSpelling,
+  type SpellCheckOptions,
+  type SpellCheckState,
+  type SpellingError,
+  type SpellingToken,
+  type CustomDictionary,
+} from './prosemirror/plugins/spellCheck';
+
+// ============================================================================
+// PROOFING
+// ============================================================================
+
+export {
+  createProofingPlugin,
+  proofingKey,
+  runProofing,
+  getProofingIssues,
+  getProofingIssueAt,
+  getProofingIssueColor,
+  applyProofingReplacement,
+  dismissProofingIssue,
+  type ProofingProvider,
+  type ProofingParagraph,
+  type ProofingMatch,
+  type ProofingIssue,
+  type ProofingCategory,
+  type ProofingOptions,
+  type ProofingState,
+} from './prosemirror/plugins/proofing';
+export {
+  createRuleBasedProofingProvider,
+  repeatedWordRule,
+  passiveVoiceRule,
+  bannedTermsRule,
+  type ProofingRule,
+  type ProofingRuleMatch,
+  type BannedTerm,
+  type RuleBasedProofingOptions,
+} from './prosemirror/plugins/proofingRules';
+
+// ============================================================================
+// PDF EXPORT
+// ============================================================================
+
+export {
+  exportLayoutToPdf,
+  exportDocumentToPdf,
+  type PdfExportOptions,
+  type PdfFontSource,
+  type PdfTextMeasurer,
+} from './pdf';
+
+// ============================================================================
+// PAGE IMAGES
+// ============================================================================
+
+export {
+  renderLayoutToSvg,
+  renderDocumentToSvg,
+  renderPageImageToPng,
+  type PageImage,
+  type PageImageOptions,
+} from './svg';
+
 // ============================================================================
 // TEMPLATE PROCESSING
 // ============================================================================
@@ -237,6 +421,7 @@ export {
   type McpToolContext,
   type McpToolAnnotations,
   type McpSession,
+  type McpFileSystem,
   type LoadedDocument,
   type JsonSchema,
   type ZodSchemaLike,
@@ -285,12 +470,26 @@ export type {
   Deletion,
   MoveFrom,
   MoveTo,
+  PropertyChangeInfo,
+  RunPropertyChange,
+  ParagraphPropertyChange,
+  // Document protection
+  DocumentSettings,
+  DocumentProtection,
+  PermissionStart,
+  PermissionEnd,
+  EditPermission,
+  // Data binding
+  CustomXmlPart,
+  SdtDataBinding,
 } from './types/document';
 
 // Agent API types
 export type {
   AIAction,
   AIActionRequest,
+  AIRequestHandler,
+  AIRequestOptions,
   AgentResponse,
   AgentContext,
   SelectionContext,
@@ -300,6 +499,8 @@ export type {
   ParagraphOutline,
   SectionInfo,
   StyleInfo,
+  DocumentLayoutInfo,
+  PageLayoutInfo,
   SuggestedAction,
   AgentCommand,
   InsertTextCommand,
@@ -309,6 +510,7 @@ export type {
   FormatParagraphCommand,
   InsertTableCommand,
   InsertImageCommand,
+  InsertEquationCommand,
   InsertHyperlinkCommand,
   SetVariableCommand,
   ApplyStyleCommand,
@@ -16,9 +16,12 @@ import type {
   Run,
   TextRun,
   TabRun,
+  ImageRun,
+  MathRun,
 } from '../layout-engine/types';
 
 import type { FragmentHit, TableCellHit } from './hitTest';
+import { layoutMathRun } from '../math';
 
 import {
   measureRun,
@@ -59,6 +62,13 @@ function runToFontStyle(run: TextRun | TabRun): FontStyle {
   };
 }
 
+/**
+ * Width of an atomic inline run (image or equation).
+ */
+function getAtomicRunWidth(run: ImageRun | MathRun): number {
+  return run.kind === 'image' ? run.width : layoutMathRun(run).width;
+}
+
 /**
  * Slice the runs that are part of a specific line.
  * Returns only the text portions that belong to the line.
@@ -75,7 +85,12 @@ function sliceRunsForLine(block: ParagraphBlock, line: MeasuredLine): Run[] {
     if (!run) continue;
 
     // Handle non-text runs as atomic units
-    if (run.kind === 'tab' || run.kind === 'image' || run.kind === 'lineBreak') {
+    if (
+      run.kind === 'tab' ||
+      run.kind === 'image' ||
+      run.kind === 'math' ||
+      run.kind === 'lineBreak'
+    ) {
       result.push(run);
       continue;
     }
@@ -133,7 +148,7 @@ function computeLinePmRange(
         charOffset += (run.text ?? '').length;
       } else if (run.kind === 'tab' || run.kind === 'lineBreak') {
         charOffset += 1;
-      } else if (run.kind === 'image') {
+      } else if (run.kind === 'image' || run.kind === 'math') {
         charOffset += 1;
       }
     } else if (runIndex === line.fromRun) {
@@ -166,7 +181,7 @@ function computeLinePmRange(
         lineLength += end - start;
       } else if (run.kind === 'tab' || run.kind === 'lineBreak') {
         lineLength += 1;
-      } else if (run.kind === 'image') {
+      } else if (run.kind === 'image' || run.kind === 'math') {
         lineLength += 1;
       }
     }
@@ -290,9 +305,9 @@ function findCharacterInLine(
       continue;
     }
 
-    // Handle image runs
-    if (run.kind === 'image') {
-      const imageWidth = run.width;
+    // Handle image and equation runs (atomic)
+    if (run.kind === 'image' || run.kind === 'math') {
+      const imageWidth = getAtomicRunWidth(run);
       const runEndX = currentX + imageWidth;
 
       if (adjustedX <= runEndX) {
@@ -535,12 +550,13 @@ export function positionToX(
           }
           x += run.width ?? 48;
           charsProcessed += 1;
-        } else if (run.kind === 'image') {
+        } else if (run.kind === 'image' || run.kind === 'math') {
+          const runWidth = getAtomicRunWidth(run);
           if (offsetInLine <= charsProcessed + 1) {
             if (offsetInLine <= charsProcessed) return { x, lineIndex };
-            return { x: x + run.width, lineIndex };
+            return { x: x + runWidth, lineIndex };
           }
-          x += run.width;
+          x += runWidth;
           charsProcessed += 1;
         } else if (run.kind === 'lineBreak') {
           if (offsetInLine <= charsProcessed) {
@@ -7,8 +7,104 @@
  *
  * DOM elements are tagged with data-pm-start and data-pm-end attributes,
  * enabling binary search to find exact character positions.
+ *
+ * Vertical text (inside an element with data-text-direction) is rotated, so
+ * positions along a line are compared on the screen's Y axis and lines are
+ * told apart by X.
  */
 
+import type { VerticalTextDirection } from '../layout-engine/types';
+
+// =============================================================================
+// TEXT DIRECTION
+// =============================================================================
+
+/**
+ * Vertical text direction of the rotated box an element is painted in, or
+ * null for horizontal text.
+ */
+export function getTextDirection(el: Element): VerticalTextDirection | null {
+  const box = el.closest('[data-text-direction]') as HTMLElement | null;
+  const direction = box?.dataset.textDirection;
+  return direction === 'tbRl' || direction === 'btLr' ? direction : null;
+}
+
+/**
+ * Position of a screen point along the reading direction of a line.
+ * Values grow towards the end of the line.
+ */
+export function getInlineCoordinate(
+  direction: VerticalTextDirection | null,
+  clientX: number,
+  clientY: number
+): number {
+  if (direction === 'tbRl') return clientY;
+  if (direction === 'btLr') return -clientY;
+  return clientX;
+}
+
+/**
+ * Start and end of a screen rect along the reading direction.
+ */
+export function getInlineExtent(
+  direction: VerticalTextDirection | null,
+  rect: DOMRect
+): { start: number; end: number } {
+  if (direction === 'tbRl') return { start: rect.top, end: rect.bottom };
+  if (direction === 'btLr') return { start: -rect.bottom, end: -rect.top };
+  return { start: rect.left, end: rect.right };
+}
+
+/**
+ * Distance from a screen point to the center line of a rendered line.
+ */
+function getLineDistance(lineEl: HTMLElement, clientX: number, clientY: number): number {
+  const rect = lineEl.getBoundingClientRect();
+  if (getTextDirection(lineEl)) return Math.abs(clientX - (rect.left + rect.right) / 2);
+  return Math.abs(clientY - (rect.top + rect.bottom) / 2);
+}
+
+/**
+ * Find the span position closest to a click among the spans of one line.
+ */
+function findPositionInLine(
+  lineSpans: HTMLElement[],
+  clientX: number,
+  clientY: number
+): number | null {
+  let closestSpan: HTMLElement | null = null;
+  let closestSpanDistance = Infinity;
+  let closestBefore = false;
+
+  for (const spanEl of lineSpans) {
+    const direction = getTextDirection(spanEl);
+    const click = getInlineCoordinate(direction, clientX, clientY);
+    const { start, end } = getInlineExtent(direction, spanEl.getBoundingClientRect());
+
+    // Check if click is within span bounds
+    if (click >= start && click <= end) {
+      return findPositionInSpan(spanEl, clientX, clientY);
+    }
+
+    // Calculate distance to span
+    const distance = click < start ? start - click : click - end;
+    if (distance < closestSpanDistance) {
+      closestSpanDistance = distance;
+      closestSpan = spanEl;
+      closestBefore = click < start;
+    }
+  }
+
+  if (!closestSpan) return null;
+
+  // If click is before the span, return start; if after, return end
+  return Number(closestBefore ? closestSpan.dataset.pmStart : closestSpan.dataset.pmEnd);
+}
+
+// =============================================================================
+// CLICK TO POSITION
+// =============================================================================
+
 /**
  * Find ProseMirror position from a click using DOM-based detection.
  *
@@ -88,17 +184,19 @@ export function clickToPositionDom(
 /**
  * Find exact position within a text span using binary search on character boundaries.
  */
-function findPositionInSpan(spanEl: HTMLElement, clientX: number, _clientY: number): number | null {
+function findPositionInSpan(spanEl: HTMLElement, clientX: number, clientY: number): number | null {
   const pmStart = Number(spanEl.dataset.pmStart);
   const pmEnd = Number(spanEl.dataset.pmEnd);
-
-  // Special handling for tab spans - they have a visual width but only contain NBSP
-  // Clicking anywhere on a tab should position cursor at start or end based on click position
-  if (spanEl.classList.contains('layout-run-tab')) {
-    const rect = spanEl.getBoundingClientRect();
-    const midpoint = (rect.left + rect.right) / 2;
+  const direction = getTextDirection(spanEl);
+  const click = getInlineCoordinate(direction, clientX, clientY);
+
+  // Special handling for tab and equation spans - they have a visual width but no text node.
+  // Clicking anywhere on one should position cursor at start or end based on click position
+  if (spanEl.classList.contains('layout-run-tab') || spanEl.classList.contains('layout-run-math')) {
+    const { start, end } = getInlineExtent(direction, spanEl.getBoundingClientRect());
+    const midpoint = (start + end) / 2;
     // Click in left half -> start of tab, right half -> end of tab
-    return clientX < midpoint ? pmStart : pmEnd;
+    return click < midpoint ? pmStart : pmEnd;
   }
 
   const textNode = spanEl.firstChild;
@@ -127,10 +225,9 @@ function findPositionInSpan(spanEl: HTMLElement, clientX: number, _clientY: numb
     range.setStart(text, mid);
     range.setEnd(text, mid);
 
-    const rect = range.getBoundingClientRect();
-    const charX = rect.left;
+    const charX = getInlineExtent(direction, range.getBoundingClientRect()).start;
 
-    if (clientX < charX) {
+    if (click < charX) {
       right = mid;
     } else {
       left = mid + 1;
@@ -152,8 +249,8 @@ function findPositionInSpan(spanEl: HTMLElement, clientX: number, _clientY: numb
     const rightRect = range.getBoundingClientRect();
 
     // Use the closer boundary
-    const distLeft = Math.abs(clientX - leftRect.left);
-    const distRight = Math.abs(clientX - rightRect.left);
+    const distLeft = Math.abs(click - getInlineExtent(direction, leftRect).start);
+    const distRight = Math.abs(click - getInlineExtent(direction, rightRect).start);
 
     if (distLeft < distRight) {
       return pmStart + (left - 1);
@@ -189,9 +286,7 @@ function findNearestSpanInElement(
 
   for (const line of Array.from(lines)) {
     const lineEl = line as HTMLElement;
-    const rect = lineEl.getBoundingClientRect();
-    const centerY = (rect.top + rect.bottom) / 2;
-    const distance = Math.abs(clientY - centerY);
+    const distance = getLineDistance(lineEl, clientX, clientY);
 
     if (distance < closestLineDistance) {
       closestLineDistance = distance;
@@ -224,32 +319,7 @@ function findNearestSpanInElement(
     return null;
   }
 
-  let closestSpan: HTMLElement | null = null;
-  let closestSpanDistance = Infinity;
-
-  for (const span of Array.from(lineSpans)) {
-    const spanEl = span as HTMLElement;
-    const rect = spanEl.getBoundingClientRect();
-
-    if (clientX >= rect.left && clientX <= rect.right) {
-      return findPositionInSpan(spanEl, clientX, clientY);
-    }
-
-    const distance = clientX < rect.left ? rect.left - clientX : clientX - rect.right;
-    if (distance < closestSpanDistance) {
-      closestSpanDistance = distance;
-      closestSpan = spanEl;
-    }
-  }
-
-  if (!closestSpan) return null;
-
-  const rect = closestSpan.getBoundingClientRect();
-  if (clientX < rect.left) {
-    return Number(closestSpan.dataset.pmStart);
-  } else {
-    return Number(closestSpan.dataset.pmEnd);
-  }
+  return findPositionInLine(Array.from(lineSpans) as HTMLElement[], clientX, clientY);
 }
 
 /**
@@ -282,9 +352,7 @@ function findNearestSpan(
 
   for (const line of Array.from(lines)) {
     const lineEl = line as HTMLElement;
-    const rect = lineEl.getBoundingClientRect();
-    const centerY = (rect.top + rect.bottom) / 2;
-    const distance = Math.abs(clientY - centerY);
+    const distance = getLineDistance(lineEl, clientX, clientY);
 
     if (distance < closestLineDistance) {
       closestLineDistance = distance;
@@ -306,37 +374,7 @@ function findNearestSpan(
   }
 
   // Find closest span in the line
-  let closestSpan: HTMLElement | null = null;
-  let closestSpanDistance = Infinity;
-
-  for (const span of Array.from(lineSpans)) {
-    const spanEl = span as HTMLElement;
-    const rect = spanEl.getBoundingClientRect();
-
-    // Check if click is within span bounds
-    if (clientX >= rect.left && clientX <= rect.right) {
-      return findPositionInSpan(spanEl, clientX, clientY);
-    }
-
-    // Calculate distance to span
-    const distance = clientX < rect.left ? rect.left - clientX : clientX - rect.right;
-
-    if (distance < closestSpanDistance) {
-      closestSpanDistance = distance;
-      closestSpan = spanEl;
-    }
-  }
-
-  if (!closestSpan) return null;
-
-  const rect = closestSpan.getBoundingClientRect();
-
-  // If click is to the left, return start; if right, return end
-  if (clientX < rect.left) {
-    return Number(closestSpan.dataset.pmStart);
-  } else {
-    return Number(closestSpan.dataset.pmEnd);
-  }
+  return findPositionInLine(Array.from(lineSpans) as HTMLElement[], clientX, clientY);
 }
 
 /**
@@ -427,6 +465,19 @@ export interface DomCaretPosition {
   y: number;
   height: number;
   pageIndex: number;
+  /** Caret in vertical text: it runs horizontally from (x, y), `height` long */
+  vertical?: boolean;
+}
+
+/**
+ * Turn a caret in vertical text across its line: it starts at the line's
+ * left edge at the position's Y.
+ */
+function orientCaret(el: Element, caret: DomCaretPosition, overlayRect: DOMRect): DomCaretPosition {
+  const lineEl = el.closest('.layout-line');
+  if (!lineEl || !getTextDirection(el)) return caret;
+  const lineRect = lineEl.getBoundingClientRect();
+  return { ...caret, x: lineRect.left - overlayRect.left, vertical: true };
 }
 
 export function getCaretPositionFromDom(
@@ -453,12 +504,16 @@ export function getCaretPositionFromDom(
         const lineHeight = lineEl ? (lineEl as HTMLElement).offsetHeight : 16;
 
         // Position caret at start of tab (only position within tab)
-        return {
-          x: spanRect.left - overlayRect.left,
-          y: spanRect.top - overlayRect.top,
-          height: lineHeight,
-          pageIndex,
-        };
+        return orientCaret(
+          spanEl,
+          {
+            x: spanRect.left - overlayRect.left,
+            y: spanRect.top - overlayRect.top,
+            height: lineHeight,
+            pageIndex,
+          },
+          overlayRect
+        );
       }
       continue; // Skip to next span
     }
@@ -474,12 +529,16 @@ export function getCaretPositionFromDom(
         const lineEl = spanEl.closest('.layout-line');
         const lineHeight = lineEl ? (lineEl as HTMLElement).offsetHeight : 16;
 
-        return {
-          x: spanRect.left - overlayRect.left,
-          y: spanRect.top - overlayRect.top,
-          height: lineHeight,
-          pageIndex,
-        };
+        return orientCaret(
+          spanEl,
+          {
+            x: spanRect.left - overlayRect.left,
+            y: spanRect.top - overlayRect.top,
+            height: lineHeight,
+            pageIndex,
+          },
+          overlayRect
+        );
       }
 
       const text = textNode as Text;
@@ -498,12 +557,16 @@ export function getCaretPositionFromDom(
       const lineEl = spanEl.closest('.layout-line');
       const lineHeight = lineEl ? (lineEl as HTMLElement).offsetHeight : 16;
 
-      return {
-        x: rangeRect.left - overlayRect.left,
-        y: rangeRect.top - overlayRect.top,
-        height: lineHeight,
-        pageIndex,
-      };
+      return orientCaret(
+        spanEl,
+        {
+          x: rangeRect.left - overlayRect.left,
+          y: rangeRect.top - overlayRect.top,
+          height: lineHeight,
+          pageIndex,
+        },
+        overlayRect
+      );
     }
   }
 
@@ -524,12 +587,16 @@ export function getCaretPositionFromDom(
       const lineEl = targetEl.closest('.layout-line') || targetEl;
       const lineHeight = (lineEl as HTMLElement).offsetHeight || 16;
 
-      return {
-        x: rect.left - overlayRect.left,
-        y: rect.top - overlayRect.top,
-        height: lineHeight,
-        pageIndex,
-      };
+      return orientCaret(
+        targetEl,
+        {
+          x: rect.left - overlayRect.left,
+          y: rect.top - overlayRect.top,
+          height: lineHeight,
+          pageIndex,
+        },
+        overlayRect
+      );
     }
   }
 
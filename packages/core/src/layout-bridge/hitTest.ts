@@ -19,7 +19,13 @@ import type {
   TableMeasure,
   BlockId,
 } from '../layout-engine/types';
-import { getHeaderRowsHeight } from '../layout-engine/index';
+import {
+  getCellLineOffset,
+  getFragmentRowHeight,
+  getHeaderRowsHeight,
+  getRowSlice,
+} from '../layout-engine/index';
+import { getLogicalMargins, getLogicalSize, toLogicalPoint } from '../layout-engine/text-direction';
 
 // =============================================================================
 // TYPES
@@ -206,6 +212,15 @@ function calculateParagraphFragmentHeight(
   return height;
 }
 
+/**
+ * Map a page-relative point into the coordinate space of the page's
+ * fragments. Pages with vertical text lay out their body in a rotated box.
+ */
+function toBodyPoint(page: Page, point: Point): Point {
+  if (!page.textDirection) return point;
+  return toLogicalPoint(page.textDirection, point, getLogicalSize(page.size));
+}
+
 /**
  * Hit-test fragments on a page to find which fragment contains a point.
  *
@@ -224,6 +239,8 @@ export function hitTestFragment(
   measures: Measure[],
   pagePoint: Point
 ): FragmentHit | null {
+  pagePoint = toBodyPoint(pageHit.page, pagePoint);
+
   // Sort fragments by Y, then X for consistent hit testing
   const sortedFragments = [...pageHit.page.fragments].sort((a, b) => {
     const dy = a.y - b.y;
@@ -281,6 +298,7 @@ export function hitTestImageFragment(
   measures: Measure[],
   pagePoint: Point
 ): FragmentHit | null {
+  pagePoint = toBodyPoint(pageHit.page, pagePoint);
   for (const fragment of pageHit.page.fragments) {
     if (fragment.kind !== 'image') continue;
 
@@ -328,6 +346,7 @@ export function hitTestTableCell(
   measures: Measure[],
   pagePoint: Point
 ): TableCellHit | null {
+  pagePoint = toBodyPoint(pageHit.page, pagePoint);
   for (const fragment of pageHit.page.fragments) {
     if (fragment.kind !== 'table') continue;
 
@@ -387,12 +406,12 @@ export function hitTestTableCell(
         r < tableFragment.toRow && r < tableMeasure.rows.length;
         r++
       ) {
-        const rowMeasure = tableMeasure.rows[r];
-        if (adjustedLocalY >= rowY && adjustedLocalY < rowY + rowMeasure.height) {
+        const rowHeight = getFragmentRowHeight(tableFragment, tableMeasure, r);
+        if (adjustedLocalY >= rowY && adjustedLocalY < rowY + rowHeight) {
           rowIndex = r;
           break;
         }
-        rowY += rowMeasure.height;
+        rowY += rowHeight;
       }
     }
 
@@ -444,7 +463,7 @@ export function hitTestTableCell(
       // Click on a content row — add header offset, then accumulate from fromRow
       rowTop = headerHeight;
       for (let r = tableFragment.fromRow; r < rowIndex; r++) {
-        rowTop += tableMeasure.rows[r]?.height ?? 0;
+        rowTop += getFragmentRowHeight(tableFragment, tableMeasure, r);
       }
     }
 
@@ -467,9 +486,29 @@ export function hitTestTableCell(
       }
     }
 
-    // Calculate position within cell (rough - doesn't account for padding)
-    const cellLocalX = localX - colLeft;
-    const cellLocalY = localY - rowTop;
+    // Calculate position within cell (rough - doesn't account for padding).
+    // Parts of a split row continue the cell content from where it broke.
+    const slice = isClickOnHeader ? undefined : getRowSlice(tableFragment, rowIndex);
+    let cellLocalX = localX - colLeft;
+    let cellLocalY =
+      localY -
+      rowTop +
+      (slice ? getCellLineOffset(cell, cellMeasure, slice.fromLines[colIndex] ?? 0) : 0);
+
+    // Vertical cells hold their content in a rotated box; rows with
+    // vertical text are never split
+    if (cell.textDirection) {
+      const rowHeight = isClickOnHeader
+        ? rowMeasure.height
+        : getFragmentRowHeight(tableFragment, tableMeasure, rowIndex);
+      const logical = toLogicalPoint(
+        cell.textDirection,
+        { x: cellLocalX, y: cellLocalY },
+        { w: rowHeight, h: cellMeasure.width }
+      );
+      cellLocalX = logical.x;
+      cellLocalY = logical.y;
+    }
 
     return {
       fragment: tableFragment,
@@ -606,12 +645,16 @@ export function getPageBounds(
  */
 export function isPointInContentArea(_layout: Layout, pageHit: PageHit, pagePoint: Point): boolean {
   const page = pageHit.page;
-  const margins = page.margins;
+  const margins = page.textDirection
+    ? getLogicalMargins(page.textDirection, page.margins)
+    : page.margins;
+  const size = page.textDirection ? getLogicalSize(page.size) : page.size;
+  pagePoint = toBodyPoint(page, pagePoint);
 
   const contentLeft = margins.left;
-  const contentRight = page.size.w - margins.right;
+  const contentRight = size.w - margins.right;
   const contentTop = margins.top;
-  const contentBottom = page.size.h - margins.bottom;
+  const contentBottom = size.h - margins.bottom;
 
   return (
     pagePoint.x >= contentLeft &&
@@ -631,6 +674,7 @@ export function findNearestFragment(
   measures: Measure[],
   pagePoint: Point
 ): FragmentHit | null {
+  pagePoint = toBodyPoint(pageHit.page, pagePoint);
   let nearestHit: FragmentHit | null = null;
   let nearestDistance = Infinity;
 
@@ -0,0 +1,1585 @@
+/**
+ * Layout Pipeline
+ *
+ * Runs a ProseMirror document through the full layout pipeline:
+ * 1. Convert the PM doc to flow blocks
+ * 2. Measure the blocks (with floating image/table exclusion zones)
+ * 3. Prepare header/footer content and grow margins that can't hold it
+ * 4. Lay blocks out onto pages (two passes when footnotes need reserved space)
+ *
+ * The result carries everything a renderer needs — the paged editor paints
+ * it to the DOM, the PDF exporter draws it to PDF pages.
+ */
+
+import type { Node as PMNode } from 'prosemirror-model';
+import { layoutDocument } from '../layout-engine';
+import {
+  getLogicalMargins,
+  getLogicalSize,
+  toVerticalTextDirection,
+} from '../layout-engine/text-direction';
+import type {
+  ColumnLayout,
+  Layout,
+  FlowBlock,
+  Measure,
+  ParagraphBlock,
+  TableBlock,
+  TableMeasure,
+  ImageBlock,
+  ImageRun,
+  PageMargins,
+  Run,
+  RunFormatting,
+  ParagraphAttrs,
+  ParagraphBorders,
+  ParagraphHyphenation,
+  ParagraphSpacing,
+  TextBoxBlock,
+  SectionBreakBlock,
+} from '../layout-engine/types';
+import { DEFAULT_TEXTBOX_MARGINS, DEFAULT_TEXTBOX_WIDTH } from '../layout-engine/types';
+import { toFlowBlocks, convertBorderSpecToLayout } from './toFlowBlocks';
+import {
+  measureParagraph,
+  getCachedParagraphMeasure,
+  setCachedParagraphMeasure,
+  type FloatingImageZone,
+} from './measuring';
+import {
+  collectFootnoteRefs,
+  mapFootnotesToPages,
+  buildFootnoteContentMap,
+  calculateFootnoteReservedHeights,
+} from './footnoteLayout';
+import {
+  emuToPixels,
+  isFloatingImageRun,
+  type HeaderFooterContent,
+  type FootnoteRenderItem,
+} from '../layout-painter/renderPage';
+import type {
+  Document,
+  DocumentSettings,
+  Theme,
+  SectionProperties,
+  HeaderFooter,
+} from '../types/document';
+import type { Footnote } from '../types/content';
+import { getFootnoteText } from '../docx/footnoteParser';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Inputs for a layout pass besides the PM document itself.
+ */
+export interface LayoutPipelineOptions {
+  /** Parsed document — supplies footnote content */
+  document?: Document | null;
+  /** Theme for resolving theme colors while converting blocks */
+  theme?: Theme | null;
+  /** Body section properties (page size, margins, columns, header/footer distances) */
+  sectionProperties?: SectionProperties | null;
+  /** Default header (all pages, or pages 2+ when titlePg is set) */
+  headerContent?: HeaderFooter | null;
+  /** Default footer (all pages, or pages 2+ when titlePg is set) */
+  footerContent?: HeaderFooter | null;
+  /** First page header (used when titlePg is set) */
+  firstPageHeaderContent?: HeaderFooter | null;
+  /** First page footer (used when titlePg is set) */
+  firstPageFooterContent?: HeaderFooter | null;
+  /** Gap between pages in pixels */
+  pageGap?: number;
+}
+
+/**
+ * Output of a layout pass.
+ */
+export interface LayoutPipelineResult {
+  layout: Layout;
+  blocks: FlowBlock[];
+  measures: Measure[];
+  /** Header/footer content measured for rendering */
+  headerContent?: HeaderFooterContent;
+  footerContent?: HeaderFooterContent;
+  firstPageHeaderContent?: HeaderFooterContent;
+  firstPageFooterContent?: HeaderFooterContent;
+  /** Whether the first page uses its own header/footer (w:titlePg) */
+  titlePg: boolean;
+  /** Distance from page top to header content */
+  headerDistance?: number;
+  /** Distance from page bottom to footer content */
+  footerDistance?: number;
+  /** OOXML page borders from section properties */
+  pageBorders?: SectionProperties['pageBorders'];
+  /** Footnotes to render at the bottom of each page, keyed by page number */
+  footnotesByPage?: Map<number, FootnoteRenderItem[]>;
+}
+
+/**
+ * The header/footer variants a section renders with.
+ */
+export interface SectionHeaderFooters {
+  headerContent: HeaderFooter | null;
+  footerContent: HeaderFooter | null;
+  firstPageHeaderContent: HeaderFooter | null;
+  firstPageFooterContent: HeaderFooter | null;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Default page width (US Letter at 96 DPI) */
+export const DEFAULT_PAGE_WIDTH = 816;
+/** Default page height (US Letter at 96 DPI) */
+export const DEFAULT_PAGE_HEIGHT = 1056;
+
+/** Default margins (1 inch at 96 DPI) */
+export const DEFAULT_MARGINS: PageMargins = {
+  top: 96,
+  right: 96,
+  bottom: 96,
+  left: 96,
+};
+
+/**
+ * Longest line of vertical cells and text boxes without a fixed height: a
+ * page of content, so short rotated headers stay on one line and the box
+ * grows to fit them.
+ */
+const MAX_VERTICAL_LINE_LENGTH = DEFAULT_PAGE_HEIGHT - DEFAULT_MARGINS.top - DEFAULT_MARGINS.bottom;
+
+// =============================================================================
+// PAGE GEOMETRY
+// =============================================================================
+
+/**
+ * Convert twips to pixels (1 twip = 1/20 point, 96 pixels per inch).
+ */
+export function twipsToPixels(twips: number): number {
+  return Math.round((twips / 1440) * 96);
+}
+
+/**
+ * Extract page size from section properties or use defaults.
+ */
+export function getPageSize(sectionProps: SectionProperties | null | undefined): {
+  w: number;
+  h: number;
+} {
+  return {
+    w: sectionProps?.pageWidth ? twipsToPixels(sectionProps.pageWidth) : DEFAULT_PAGE_WIDTH,
+    h: sectionProps?.pageHeight ? twipsToPixels(sectionProps.pageHeight) : DEFAULT_PAGE_HEIGHT,
+  };
+}
+
+/**
+ * Extract margins from section properties or use defaults.
+ */
+export function getMargins(sectionProps: SectionProperties | null | undefined): PageMargins {
+  const top = sectionProps?.marginTop ? twipsToPixels(sectionProps.marginTop) : DEFAULT_MARGINS.top;
+  const bottom = sectionProps?.marginBottom
+    ? twipsToPixels(sectionProps.marginBottom)
+    : DEFAULT_MARGINS.bottom;
+
+  return {
+    top,
+    right: sectionProps?.marginRight
+      ? twipsToPixels(sectionProps.marginRight)
+      : DEFAULT_MARGINS.right,
+    bottom,
+    left: sectionProps?.marginLeft ? twipsToPixels(sectionProps.marginLeft) : DEFAULT_MARGINS.left,
+    // Header/footer distances - where the header/footer content starts
+    // Default to 0.5 inch (48px at 96 DPI) if not specified
+    header: sectionProps?.headerDistance ? twipsToPixels(sectionProps.headerDistance) : 48,
+    footer: sectionProps?.footerDistance ? twipsToPixels(sectionProps.footerDistance) : 48,
+  };
+}
+
+/**
+ * Extract column layout from section properties.
+ * Returns undefined for single-column (default) to avoid unnecessary paginator overhead.
+ */
+export function getColumns(
+  sectionProps: SectionProperties | null | undefined
+): ColumnLayout | undefined {
+  const count = sectionProps?.columnCount ?? 1;
+  if (count <= 1) return undefined;
+  // Default column spacing: 720 twips (0.5 inch) per OOXML spec
+  const gap = twipsToPixels(sectionProps?.columnSpace ?? 720);
+  return {
+    count,
+    gap,
+    equalWidth: sectionProps?.equalWidth ?? true,
+    separator: sectionProps?.separator,
+  };
+}
+
+/**
+ * Extract automatic hyphenation from document settings.
+ * Returns undefined when w:autoHyphenation is off.
+ */
+export function getHyphenation(
+  settings: DocumentSettings | null | undefined
+): ParagraphHyphenation | undefined {
+  if (!settings?.autoHyphenation) return undefined;
+  // Default hyphenation zone: 360 twips (0.25 inch), as in Word
+  return {
+    zone: twipsToPixels(settings.hyphenationZone ?? 360),
+    doNotHyphenateCaps: settings.doNotHyphenateCaps,
+  };
+}
+
+/**
+ * Compute per-block measurement widths by scanning for section breaks.
+ * Blocks in multi-column sections must be measured at column width, not full content width.
+ *
+ * OOXML note: Each section break carries the CURRENT section's properties.
+ * Section N's blocks use config from sectionBreak[N].
+ * The final section (after all breaks) uses defaultColumns (body-level).
+ */
+export function computePerBlockWidths(
+  blocks: FlowBlock[],
+  defaultContentWidth: number,
+  defaultColumns: ColumnLayout | undefined
+): number[] {
+  function colWidth(cw: number, cols: ColumnLayout): number {
+    if (cols.count <= 1) return cw;
+    return Math.floor((cw - (cols.count - 1) * cols.gap) / cols.count);
+  }
+
+  // Collect section break indices and their column configs
+  const breakIndices: number[] = [];
+  const sectionConfigs: ColumnLayout[] = [];
+  for (let i = 0; i < blocks.length; i++) {
+    if (blocks[i].kind === 'sectionBreak') {
+      breakIndices.push(i);
+      const sb = blocks[i] as SectionBreakBlock;
+      sectionConfigs.push(sb.columns ?? { count: 1, gap: 0 });
+    }
+  }
+  // Final section uses body-level columns
+  sectionConfigs.push(defaultColumns ?? { count: 1, gap: 0 });
+
+  // Assign widths: section N's blocks use sectionConfigs[N]
+  let sectionIdx = 0;
+  const widths: number[] = [];
+
+  for (let i = 0; i < blocks.length; i++) {
+    const cols = sectionConfigs[sectionIdx];
+    widths.push(colWidth(defaultContentWidth, cols));
+
+    // After this section break, move to next section
+    if (sectionIdx < breakIndices.length && i === breakIndices[sectionIdx]) {
+      sectionIdx++;
+    }
+  }
+
+  return widths;
+}
+
+// =============================================================================
+// MEASUREMENT
+// =============================================================================
+
+function resolveTableWidthPx(
+  width: number | undefined,
+  widthType: string | undefined,
+  contentWidth: number
+): number | undefined {
+  if (!width) return undefined;
+  if (widthType === 'pct') {
+    // width is in 50ths of a percent (5000 = 100%)
+    return (contentWidth * width) / 5000;
+  }
+  if (widthType === 'dxa' || !widthType || widthType === 'auto') {
+    return Math.round((width / 20) * 1.333);
+  }
+  return undefined;
+}
+
+/**
+ * Extent of vertical content along its lines: the longest line of its
+ * paragraphs, including indents, or the width of nested tables.
+ */
+function getVerticalContentLength(blocks: FlowBlock[], measures: Measure[]): number {
+  let length = 0;
+  measures.forEach((measure, i) => {
+    const block = blocks[i];
+    if (measure.kind === 'paragraph') {
+      const indent = block?.kind === 'paragraph' ? block.attrs?.indent : undefined;
+      const indents = (indent?.left ?? 0) + (indent?.right ?? 0);
+      for (const line of measure.lines) length = Math.max(length, line.width + indents);
+    } else if (measure.kind === 'table') {
+      length = Math.max(length, measure.totalWidth);
+    }
+  });
+  return length;
+}
+
+function measureTableBlock(tableBlock: TableBlock, contentWidth: number): TableMeasure {
+  const DEFAULT_CELL_PADDING_X = 7; // Word default: 108 twips ≈ 7px
+  const DEFAULT_CELL_PADDING_Y = 0; // OOXML/TableNormal default: top=0, bottom=0
+
+  // columnWidths are already in pixels (converted in toFlowBlocks)
+  let columnWidths = tableBlock.columnWidths ?? [];
+  const explicitWidthPx = resolveTableWidthPx(tableBlock.width, tableBlock.widthType, contentWidth);
+
+  if (columnWidths.length === 0 && tableBlock.rows.length > 0) {
+    // Determine total columns from first row's colSpans
+    const colCount = tableBlock.rows[0].cells.reduce((sum, cell) => sum + (cell.colSpan ?? 1), 0);
+    const totalWidth = explicitWidthPx ?? contentWidth;
+    const equalWidth = totalWidth / Math.max(1, colCount);
+    columnWidths = Array(colCount).fill(equalWidth);
+  } else if (columnWidths.length > 0 && explicitWidthPx) {
+    const totalWidth = columnWidths.reduce((sum, w) => sum + w, 0);
+    if (totalWidth > 0 && Math.abs(totalWidth - explicitWidthPx) > 1) {
+      const scale = explicitWidthPx / totalWidth;
+      columnWidths = columnWidths.map((w) => w * scale);
+    }
+  }
+
+  // Build a map of columns occupied by spanning cells from previous rows.
+  // Without this, cells in rows with vertical merges get the wrong column width.
+  const occupiedColumnsPerRow = new Map<number, Set<number>>();
+  for (let rowIdx = 0; rowIdx < tableBlock.rows.length; rowIdx++) {
+    const row = tableBlock.rows[rowIdx];
+    if (!row) continue;
+    let colIdx = 0;
+    const occupied = occupiedColumnsPerRow.get(rowIdx) ?? new Set<number>();
+    while (occupied.has(colIdx)) colIdx++;
+
+    for (const cell of row.cells) {
+      const colSpan = cell.colSpan ?? 1;
+      const rowSpan = cell.rowSpan ?? 1;
+
+      if (rowSpan > 1) {
+        for (let r = rowIdx + 1; r < rowIdx + rowSpan; r++) {
+          if (!occupiedColumnsPerRow.has(r)) occupiedColumnsPerRow.set(r, new Set());
+          const occSet = occupiedColumnsPerRow.get(r)!;
+          for (let c = 0; c < colSpan; c++) {
+            occSet.add(colIdx + c);
+          }
+        }
+      }
+
+      colIdx += colSpan;
+      while (occupied.has(colIdx)) colIdx++;
+    }
+  }
+
+  // Calculate cell widths based on colSpan and columnWidths,
+  // skipping columns occupied by spanning cells from previous rows.
+  const rows = tableBlock.rows.map((row, rowIdx) => {
+    let columnIndex = 0;
+    const occupied = occupiedColumnsPerRow.get(rowIdx) ?? new Set<number>();
+    while (occupied.has(columnIndex)) columnIndex++;
+
+    return {
+      cells: row.cells.map((cell) => {
+        const colSpan = cell.colSpan ?? 1;
+        // Calculate cell width as sum of spanned columns
+        let cellWidth = 0;
+        for (let c = 0; c < colSpan && columnIndex + c < columnWidths.length; c++) {
+          cellWidth += columnWidths[columnIndex + c] ?? 0;
+        }
+        // Fallback to cell.width or default if columnWidths not available
+        if (cellWidth === 0) {
+          cellWidth = cell.width ?? 100;
+        }
+        columnIndex += colSpan;
+        while (occupied.has(columnIndex)) columnIndex++;
+
+        const padLeft = cell.padding?.left ?? DEFAULT_CELL_PADDING_X;
+        const padRight = cell.padding?.right ?? DEFAULT_CELL_PADDING_X;
+        let cellContentWidth = Math.max(1, cellWidth - padLeft - padRight);
+        if (cell.textDirection) {
+          // Vertical lines run along the row height, which grows to fit
+          // them unless it is exact
+          const padY =
+            (cell.padding?.top ?? DEFAULT_CELL_PADDING_Y) +
+            (cell.padding?.bottom ?? DEFAULT_CELL_PADDING_Y);
+          const rowLength =
+            row.heightRule === 'exact' && row.height
+              ? row.height - padY
+              : Math.max(MAX_VERTICAL_LINE_LENGTH, (row.height ?? 0) - padY);
+          cellContentWidth = Math.max(1, rowLength);
+        }
+        return {
+          blocks: cell.blocks.map((b) => measureBlock(b, cellContentWidth)),
+          width: cellWidth,
+          height: 0, // Calculated below
+          colSpan: cell.colSpan,
+          rowSpan: cell.rowSpan,
+        };
+      }),
+      height: 0,
+    };
+  });
+
+  // Calculate cell heights, respecting explicit row height rules
+  for (let rowIdx = 0; rowIdx < rows.length; rowIdx++) {
+    const row = rows[rowIdx];
+    const sourceRowCells = tableBlock.rows[rowIdx]?.cells;
+    let maxHeight = 0;
+    for (let cellIdx = 0; cellIdx < row.cells.length; cellIdx++) {
+      const cell = row.cells[cellIdx];
+      const sourceCell = sourceRowCells?.[cellIdx];
+      cell.height = sourceCell?.textDirection
+        ? getVerticalContentLength(sourceCell.blocks, cell.blocks)
+        : cell.blocks.reduce((h, m) => {
+            // Get height from any measure type (paragraph or table)
+            if ('totalHeight' in m) return h + m.totalHeight;
+            return h;
+          }, 0);
+      const padTop = sourceCell?.padding?.top ?? DEFAULT_CELL_PADDING_Y;
+      const padBottom = sourceCell?.padding?.bottom ?? DEFAULT_CELL_PADDING_Y;
+      cell.height += padTop + padBottom;
+      maxHeight = Math.max(maxHeight, cell.height);
+    }
+
+    // Apply heightRule from the source row
+    const sourceRow = tableBlock.rows[rowIdx];
+    const explicitHeight = sourceRow?.height;
+    const heightRule = sourceRow?.heightRule;
+
+    if (explicitHeight && heightRule === 'exact') {
+      row.height = explicitHeight;
+    } else if (explicitHeight) {
+      // Both 'atLeast' and 'auto' (OOXML default) treat the value as minimum height.
+      // ECMA-376 §17.4.81: when hRule is absent or "auto", val is the minimum row height.
+      row.height = Math.max(maxHeight, explicitHeight);
+    } else {
+      // No explicit height — use content height directly.
+      row.height = maxHeight;
+    }
+  }
+
+  const totalHeight = rows.reduce((h, r) => h + r.height, 0);
+  const totalWidth = columnWidths.reduce((w, cw) => w + cw, 0) || explicitWidthPx || contentWidth;
+
+  return {
+    kind: 'table',
+    rows,
+    columnWidths,
+    totalWidth,
+    totalHeight,
+  };
+}
+
+/**
+ * Extract floating image exclusion zones from all blocks.
+ * Called before measurement to determine line width reductions.
+ *
+ * For images with vertical align="top" relative to margin, they're at Y=0.
+ * The exclusion zones define the areas where text lines need reduced widths.
+ */
+/**
+ * Extended floating zone info that includes anchor block index
+ */
+interface FloatingZoneWithAnchor extends FloatingImageZone {
+  /** Block index where this floating image is anchored */
+  anchorBlockIndex: number;
+  /** If true, zone is positioned relative to margin/page and applies to all blocks */
+  isMarginRelative?: boolean;
+}
+
+function extractFloatingZones(blocks: FlowBlock[], contentWidth: number): FloatingZoneWithAnchor[] {
+  const zones: FloatingZoneWithAnchor[] = [];
+
+  for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
+    const block = blocks[blockIndex];
+    if (block.kind !== 'paragraph') continue;
+
+    const paragraphBlock = block as ParagraphBlock;
+
+    for (const run of paragraphBlock.runs) {
+      if (run.kind !== 'image') continue;
+      const imgRun = run as ImageRun;
+
+      if (!isFloatingImageRun(imgRun)) continue;
+
+      // Calculate Y position based on vertical alignment
+      let topY = 0;
+      const position = imgRun.position;
+      const distTop = imgRun.distTop ?? 0;
+      const distBottom = imgRun.distBottom ?? 0;
+      const distLeft = imgRun.distLeft ?? 12;
+      const distRight = imgRun.distRight ?? 12;
+
+      if (position?.vertical) {
+        const v = position.vertical;
+        if (v.align === 'top' && v.relativeTo === 'margin') {
+          // Image at top of content area
+          topY = 0;
+        } else if (v.posOffset !== undefined) {
+          topY = emuToPixels(v.posOffset);
+        }
+        // Other cases (paragraph-relative) are harder to handle without knowing paragraph positions
+      }
+
+      const bottomY = topY + imgRun.height;
+
+      // Calculate margins based on horizontal position
+      let leftMargin = 0;
+      let rightMargin = 0;
+
+      if (position?.horizontal) {
+        const h = position.horizontal;
+        if (h.align === 'left') {
+          // Image on left - text needs left margin
+          leftMargin = imgRun.width + distRight;
+        } else if (h.align === 'right') {
+          // Image on right - text needs right margin
+          rightMargin = imgRun.width + distLeft;
+        } else if (h.posOffset !== undefined) {
+          const x = emuToPixels(h.posOffset);
+          if (x < contentWidth / 2) {
+            leftMargin = x + imgRun.width + distRight;
+          } else {
+            rightMargin = contentWidth - x + distLeft;
+          }
+        }
+      } else if (imgRun.cssFloat === 'left') {
+        leftMargin = imgRun.width + distRight;
+      } else if (imgRun.cssFloat === 'right') {
+        rightMargin = imgRun.width + distLeft;
+      }
+
+      if (leftMargin > 0 || rightMargin > 0) {
+        // Images positioned relative to margin/page apply globally (before their anchor paragraph)
+        const isMarginRelative =
+          position?.vertical?.relativeTo === 'margin' || position?.vertical?.relativeTo === 'page';
+        zones.push({
+          leftMargin,
+          rightMargin,
+          topY: topY - distTop,
+          bottomY: bottomY + distBottom,
+          anchorBlockIndex: blockIndex,
+          isMarginRelative,
+        });
+      }
+    }
+  }
+
+  // Floating tables (block-level) - treat them as exclusion zones for subsequent text
+  for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
+    const block = blocks[blockIndex];
+    if (block.kind !== 'table') continue;
+
+    const tableBlock = block as TableBlock;
+    const floating = tableBlock.floating;
+    if (!floating) continue;
+
+    const tableMeasure = measureTableBlock(tableBlock, contentWidth);
+    const tableWidth = tableMeasure.totalWidth;
+    const tableHeight = tableMeasure.totalHeight;
+
+    const distLeft = floating.leftFromText ?? 12;
+    const distRight = floating.rightFromText ?? 12;
+    const distTop = floating.topFromText ?? 0;
+    const distBottom = floating.bottomFromText ?? 0;
+
+    let leftMargin = 0;
+    let rightMargin = 0;
+
+    // Determine horizontal position relative to content area
+    let x = 0;
+    if (floating.tblpX !== undefined) {
+      x = floating.tblpX;
+    } else if (floating.tblpXSpec) {
+      if (floating.tblpXSpec === 'left' || floating.tblpXSpec === 'inside') {
+        x = 0;
+      } else if (floating.tblpXSpec === 'right' || floating.tblpXSpec === 'outside') {
+        x = contentWidth - tableWidth;
+      } else if (floating.tblpXSpec === 'center') {
+        x = (contentWidth - tableWidth) / 2;
+      }
+    } else if (tableBlock.justification === 'center') {
+      x = (contentWidth - tableWidth) / 2;
+    } else if (tableBlock.justification === 'right') {
+      x = contentWidth - tableWidth;
+    }
+
+    if (x < contentWidth / 2) {
+      leftMargin = x + tableWidth + distRight;
+    } else {
+      rightMargin = contentWidth - x + distLeft;
+    }
+
+    const topY = floating.tblpY ?? 0;
+    const bottomY = topY + tableHeight;
+
+    zones.push({
+      leftMargin,
+      rightMargin,
+      topY: topY - distTop,
+      bottomY: bottomY + distBottom,
+      anchorBlockIndex: blockIndex,
+    });
+  }
+
+  return zones;
+}
+
+/**
+ * Measure a block based on its type.
+ */
+function measureBlock(
+  block: FlowBlock,
+  contentWidth: number,
+  floatingZones?: FloatingImageZone[],
+  cumulativeY?: number
+): Measure {
+  switch (block.kind) {
+    case 'paragraph': {
+      const pBlock = block as ParagraphBlock;
+
+      // Cache paragraph measurements when no floating zones affect this block.
+      // Safe because without floating zones the result depends only on content
+      // and contentWidth (both captured in the cache key). When floating zones
+      // ARE present, we always measure fresh since zones depend on inter-block
+      // layout context (cumulative Y, neighboring floating tables/images).
+      if (!floatingZones || floatingZones.length === 0) {
+        const cached = getCachedParagraphMeasure(pBlock, contentWidth);
+        if (cached) return cached;
+      }
+
+      const result = measureParagraph(pBlock, contentWidth, {
+        floatingZones,
+        paragraphYOffset: cumulativeY ?? 0,
+      });
+
+      if (!floatingZones || floatingZones.length === 0) {
+        setCachedParagraphMeasure(pBlock, contentWidth, result);
+      }
+
+      return result;
+    }
+
+    case 'table': {
+      return measureTableBlock(block as TableBlock, contentWidth);
+    }
+
+    case 'image': {
+      const imageBlock = block as ImageBlock;
+      return {
+        kind: 'image',
+        width: imageBlock.width ?? 100,
+        height: imageBlock.height ?? 100,
+      };
+    }
+
+    case 'textBox': {
+      const tb = block as TextBoxBlock;
+      const margins = tb.margins ?? DEFAULT_TEXTBOX_MARGINS;
+      const marginsY = margins.top + margins.bottom;
+      // Vertical text runs its lines along the box height
+      const innerWidth = tb.textDirection
+        ? (tb.height ?? MAX_VERTICAL_LINE_LENGTH + marginsY) - marginsY
+        : (tb.width ?? DEFAULT_TEXTBOX_WIDTH) - margins.left - margins.right;
+      const innerMeasures = tb.content.map((p) => measureParagraph(p, innerWidth));
+      const contentHeight = tb.textDirection
+        ? getVerticalContentLength(tb.content, innerMeasures)
+        : innerMeasures.reduce((sum, m) => sum + m.totalHeight, 0);
+      const totalHeight = tb.height ?? contentHeight + marginsY;
+      return {
+        kind: 'textBox' as const,
+        width: tb.width ?? DEFAULT_TEXTBOX_WIDTH,
+        height: totalHeight,
+        innerMeasures,
+      };
+    }
+
+    case 'pageBreak':
+      return { kind: 'pageBreak' };
+
+    case 'columnBreak':
+      return { kind: 'columnBreak' };
+
+    case 'sectionBreak':
+      return { kind: 'sectionBreak' };
+
+    default:
+      // Unknown block type - return empty paragraph measure
+      return {
+        kind: 'paragraph',
+        lines: [],
+        totalHeight: 0,
+      };
+  }
+}
+
+/**
+ * Measure all blocks with floating image support.
+ *
+ * Pre-scans all blocks to find floating images and creates exclusion zones.
+ * Then measures each block, passing the zones so paragraphs can calculate
+ * per-line widths based on vertical overlap with floating images.
+ */
+export function measureBlocks(blocks: FlowBlock[], contentWidth: number | number[]): Measure[] {
+  const defaultWidth = Array.isArray(contentWidth) ? (contentWidth[0] ?? 0) : contentWidth;
+  // Pre-extract floating image exclusion zones with anchor block indices
+  const floatingZonesWithAnchors = extractFloatingZones(blocks, defaultWidth);
+
+  // Margin-relative zones (positioned relative to page/margin) on the same vertical
+  // position are likely on the same page. Group them and activate all from the earliest
+  // anchor so text wraps around ALL images from the first paragraph onward.
+  // e.g. left-aligned and right-aligned images at margin top should both affect text
+  // starting from the first anchor paragraph, not just the one containing each image.
+  const marginRelative = floatingZonesWithAnchors.filter((z) => z.isMarginRelative);
+  const paragraphRelative = floatingZonesWithAnchors.filter((z) => !z.isMarginRelative);
+
+  // Group margin-relative zones by topY and move all to earliest anchor in group
+  const marginByTopY = new Map<number, FloatingZoneWithAnchor[]>();
+  for (const z of marginRelative) {
+    const group = marginByTopY.get(z.topY) ?? [];
+    group.push(z);
+    marginByTopY.set(z.topY, group);
+  }
+
+  const adjustedZones: FloatingZoneWithAnchor[] = [...paragraphRelative];
+  for (const group of marginByTopY.values()) {
+    const minAnchor = Math.min(...group.map((z) => z.anchorBlockIndex));
+    for (const z of group) {
+      adjustedZones.push({ ...z, anchorBlockIndex: minAnchor });
+    }
+  }
+
+  // Group zones by effective anchor block index
+  const zonesByAnchor = new Map<number, FloatingImageZone[]>();
+  for (const z of adjustedZones) {
+    const existing = zonesByAnchor.get(z.anchorBlockIndex) ?? [];
+    existing.push({
+      leftMargin: z.leftMargin,
+      rightMargin: z.rightMargin,
+      topY: z.topY,
+      bottomY: z.bottomY,
+    });
+    zonesByAnchor.set(z.anchorBlockIndex, existing);
+  }
+
+  const anchorIndices = new Set(adjustedZones.map((z) => z.anchorBlockIndex));
+
+  // Track cumulative Y position for floating zone overlap calculation
+  // Resets when we reach a block with floating images (establishing local page coords)
+  let cumulativeY = 0;
+  let activeZones: FloatingImageZone[] = [];
+
+  return blocks.map((block, blockIndex) => {
+    // Check if this block is an anchor for floating images
+    // If so, reset cumulative Y and replace active zones (old zones from previous
+    // anchors are invalid after the Y reset since their topY/bottomY are in the old
+    // coordinate system)
+    if (anchorIndices.has(blockIndex)) {
+      cumulativeY = 0;
+      activeZones = zonesByAnchor.get(blockIndex) ?? [];
+    }
+
+    const zones = activeZones.length > 0 ? activeZones : undefined;
+
+    try {
+      const blockStart = performance.now();
+      const blockWidth = Array.isArray(contentWidth)
+        ? (contentWidth[blockIndex] ?? defaultWidth)
+        : contentWidth;
+      const measure = measureBlock(block, blockWidth, zones, cumulativeY);
+      const blockTime = performance.now() - blockStart;
+      if (blockTime > 500) {
+        console.warn(
+          `[measureBlocks] Block ${blockIndex} (${block.kind}) took ${Math.round(blockTime)}ms`
+        );
+      }
+
+      // Update cumulative Y for next block
+      if ('totalHeight' in measure) {
+        if (!(block.kind === 'table' && (block as TableBlock).floating)) {
+          cumulativeY += measure.totalHeight;
+        }
+      }
+
+      return measure;
+    } catch (error) {
+      console.error(`[measureBlocks] Error measuring block ${blockIndex} (${block.kind}):`, error);
+      // Return a minimal measure so we don't crash the entire layout
+      return { totalHeight: 20 } as Measure;
+    }
+  });
+}
+
+// =============================================================================
+// HEADER/FOOTER CONTENT
+// =============================================================================
+
+/**
+ * Convert document Run content to FlowBlock runs.
+ * Handles text, tabs, fields (PAGE, NUMPAGES), etc.
+ *
+ * Fields like PAGE and NUMPAGES are converted to FieldRun which gets
+ * substituted with actual values at render time (in renderParagraph).
+ *
+ * @param content - Array of ParagraphContent from document
+ */
+function convertDocumentRunsToFlowRuns(content: unknown[]): Run[] {
+  const runs: Run[] = [];
+
+  for (const item of content) {
+    const itemObj = item as Record<string, unknown>;
+
+    // Handle Run type (from Document)
+    if (itemObj.type === 'run' && Array.isArray(itemObj.content)) {
+      const formatting = itemObj.formatting as Record<string, unknown> | undefined;
+      const runFormatting: RunFormatting = {};
+
+      if (formatting) {
+        if (formatting.bold) runFormatting.bold = true;
+        if (formatting.italic) runFormatting.italic = true;
+        if (formatting.underline) runFormatting.underline = true;
+        if (formatting.strike) runFormatting.strike = true;
+        if (formatting.color) {
+          const color = formatting.color as Record<string, unknown>;
+          if (color.val) runFormatting.color = `#${color.val}`;
+          else if (color.rgb) runFormatting.color = `#${color.rgb}`;
+        }
+        if (formatting.fontSize) {
+          runFormatting.fontSize = (formatting.fontSize as number) / 2; // half-points to points
+        }
+        if (formatting.fontFamily) {
+          const ff = formatting.fontFamily as Record<string, unknown>;
+          runFormatting.fontFamily = (ff.ascii || ff.hAnsi) as string;
+        }
+      }
+
+      // Process run content
+      for (const runContent of itemObj.content as unknown[]) {
+        const rc = runContent as Record<string, unknown>;
+
+        if (rc.type === 'text' && typeof rc.text === 'string') {
+          runs.push({
+            kind: 'text',
+            text: rc.text,
+            ...runFormatting,
+          });
+        } else if (rc.type === 'tab') {
+          runs.push({
+            kind: 'tab',
+            ...runFormatting,
+          });
+        } else if (rc.type === 'break') {
+          runs.push({
+            kind: 'lineBreak',
+          });
+        } else if (rc.type === 'drawing' && rc.image) {
+          // Handle images/drawings
+          const image = rc.image as Record<string, unknown>;
+          const size = image.size as { width: number; height: number } | undefined;
+          // EMU to pixels: 1 inch = 914400 EMU, 1 inch = 96 pixels
+          const emuToPixels = (emu: number) => Math.round((emu / 914400) * 96);
+          const widthPx = size?.width ? emuToPixels(size.width) : 100;
+          const heightPx = size?.height ? emuToPixels(size.height) : 100;
+
+          // Check for position (floating/anchored images)
+          const position = image.position as
+            | {
+                horizontal?: { relativeTo?: string; posOffset?: number; align?: string };
+                vertical?: { relativeTo?: string; posOffset?: number; align?: string };
+              }
+            | undefined;
+
+          runs.push({
+            kind: 'image',
+            src: (image.src as string) || '',
+            width: widthPx,
+            height: heightPx,
+            alt: (image.alt as string) || undefined,
+            // Include position for floating images
+            position: position
+              ? {
+                  horizontal: position.horizontal,
+                  vertical: position.vertical,
+                }
+              : undefined,
+          } as Run);
+        }
+      }
+    }
+
+    // Handle SimpleField (w:fldSimple) - PAGE, NUMPAGES, etc.
+    if (itemObj.type === 'simpleField') {
+      const fieldType = itemObj.fieldType as string;
+
+      // Extract formatting from content runs (same approach as ComplexField)
+      const fieldFormatting: RunFormatting = {};
+      if (Array.isArray(itemObj.content) && itemObj.content.length > 0) {
+        const firstRun = itemObj.content[0] as Record<string, unknown>;
+        if (firstRun?.type === 'run' && firstRun.formatting) {
+          const formatting = firstRun.formatting as Record<string, unknown>;
+          if (formatting.fontSize) {
+            fieldFormatting.fontSize = (formatting.fontSize as number) / 2;
+          }
+          if (formatting.fontFamily) {
+            const ff = formatting.fontFamily as Record<string, unknown>;
+            fieldFormatting.fontFamily = (ff.ascii || ff.hAnsi) as string;
+          }
+          if (formatting.bold) fieldFormatting.bold = true;
+          if (formatting.italic) fieldFormatting.italic = true;
+          if (formatting.color) {
+            const c = formatting.color as Record<string, unknown>;
+            const val = (c.rgb || c.val) as string | undefined;
+            if (val) fieldFormatting.color = val.startsWith('#') ? val : `#${val}`;
+          }
+        }
+      }
+
+      if (fieldType === 'PAGE') {
+        runs.push({
+          kind: 'field',
+          fieldType: 'PAGE',
+          fallback: '1',
+          ...fieldFormatting,
+        });
+      } else if (fieldType === 'NUMPAGES') {
+        runs.push({
+          kind: 'field',
+          fieldType: 'NUMPAGES',
+          fallback: '1',
+          ...fieldFormatting,
+        });
+      } else if (Array.isArray(itemObj.content)) {
+        // Use the display content for other fields
+        const displayRuns = convertDocumentRunsToFlowRuns(itemObj.content as unknown[]);
+        runs.push(...displayRuns);
+      }
+      continue;
+    }
+
+    // Handle ComplexField (fldChar sequence)
+    if (itemObj.type === 'complexField') {
+      const fieldType = itemObj.fieldType as string;
+
+      // Extract formatting from fieldResult runs if available
+      const fieldFormatting: RunFormatting = {};
+      if (Array.isArray(itemObj.fieldResult) && itemObj.fieldResult.length > 0) {
+        const firstRun = itemObj.fieldResult[0] as Record<string, unknown>;
+        if (firstRun?.type === 'run' && firstRun.formatting) {
+          const formatting = firstRun.formatting as Record<string, unknown>;
+          if (formatting.fontSize) {
+            fieldFormatting.fontSize = (formatting.fontSize as number) / 2;
+          }
+          if (formatting.fontFamily) {
+            const ff = formatting.fontFamily as Record<string, unknown>;
+            fieldFormatting.fontFamily = (ff.ascii || ff.hAnsi) as string;
+          }
+          if (formatting.bold) fieldFormatting.bold = true;
+          if (formatting.italic) fieldFormatting.italic = true;
+          if (formatting.color) {
+            const c = formatting.color as Record<string, unknown>;
+            const val = (c.rgb || c.val) as string | undefined;
+            if (val) fieldFormatting.color = val.startsWith('#') ? val : `#${val}`;
+          }
+        }
+      }
+
+      if (fieldType === 'PAGE') {
+        runs.push({
+          kind: 'field',
+          fieldType: 'PAGE',
+          fallback: '1',
+          ...fieldFormatting,
+        });
+      } else if (fieldType === 'NUMPAGES') {
+        runs.push({
+          kind: 'field',
+          fieldType: 'NUMPAGES',
+          fallback: '1',
+          ...fieldFormatting,
+        });
+      } else if (Array.isArray(itemObj.fieldResult)) {
+        // Use the fieldResult for other fields
+        const displayRuns = convertDocumentRunsToFlowRuns(itemObj.fieldResult as unknown[]);
+        runs.push(...displayRuns);
+      }
+    }
+
+    // Handle Hyperlink
+    if (itemObj.type === 'hyperlink' && Array.isArray(itemObj.children)) {
+      const childRuns = convertDocumentRunsToFlowRuns(itemObj.children as unknown[]);
+      runs.push(...childRuns);
+    }
+  }
+
+  return runs;
+}
+
+export type HeaderFooterMetrics = {
+  section: 'header' | 'footer';
+  pageSize: { w: number; h: number };
+  margins: PageMargins;
+};
+
+type PositionedAxis = {
+  relativeTo?: string;
+  posOffset?: number;
+  align?: string;
+  alignment?: string;
+};
+
+function getPositionAlignment(axis: PositionedAxis | undefined): string | undefined {
+  return axis?.align ?? axis?.alignment;
+}
+
+function resolveHeaderFooterVisualTop(
+  run: ImageRun,
+  paragraphY: number,
+  flowHeight: number,
+  metrics: HeaderFooterMetrics
+): number {
+  const flowTop =
+    metrics.section === 'header'
+      ? (metrics.margins.header ?? 48)
+      : metrics.pageSize.h - (metrics.margins.footer ?? 48) - flowHeight;
+  const vertical = run.position?.vertical;
+
+  if (!vertical) {
+    return paragraphY;
+  }
+
+  const align = getPositionAlignment(vertical);
+  const offsetPx = vertical.posOffset !== undefined ? emuToPixels(vertical.posOffset) : undefined;
+
+  if (vertical.relativeTo === 'page') {
+    if (offsetPx !== undefined) return offsetPx - flowTop;
+    if (align === 'top') return -flowTop;
+    if (align === 'bottom') return metrics.pageSize.h - run.height - flowTop;
+    if (align === 'center') return (metrics.pageSize.h - run.height) / 2 - flowTop;
+  }
+
+  if (vertical.relativeTo === 'margin') {
+    const marginTop = metrics.margins.top;
+    const marginHeight = metrics.pageSize.h - metrics.margins.top - metrics.margins.bottom;
+    if (offsetPx !== undefined) return marginTop + offsetPx - flowTop;
+    if (align === 'top') return marginTop - flowTop;
+    if (align === 'bottom') return marginTop + marginHeight - run.height - flowTop;
+    if (align === 'center') return marginTop + (marginHeight - run.height) / 2 - flowTop;
+  }
+
+  if (offsetPx !== undefined) {
+    return paragraphY + offsetPx;
+  }
+
+  return paragraphY;
+}
+
+function calculateHeaderFooterVisualBounds(
+  blocks: FlowBlock[],
+  measures: Measure[],
+  flowHeight: number,
+  metrics: HeaderFooterMetrics
+): { visualTop: number; visualBottom: number } {
+  let visualTop = 0;
+  let visualBottom = flowHeight;
+  let cursorY = 0;
+
+  for (let i = 0; i < blocks.length; i++) {
+    const block = blocks[i];
+    const measure = measures[i];
+    if (block?.kind !== 'paragraph' || measure?.kind !== 'paragraph') {
+      continue;
+    }
+
+    const paragraphBlock = block as ParagraphBlock;
+    const paragraphStartY = cursorY;
+    const paragraphBottomY = paragraphStartY + measure.totalHeight;
+    visualTop = Math.min(visualTop, paragraphStartY);
+    visualBottom = Math.max(visualBottom, paragraphBottomY);
+
+    for (const run of paragraphBlock.runs) {
+      if (run.kind !== 'image' || !run.position) continue;
+      const imageRun = run as ImageRun;
+      const runTop = resolveHeaderFooterVisualTop(imageRun, paragraphStartY, flowHeight, metrics);
+      visualTop = Math.min(visualTop, runTop);
+      visualBottom = Math.max(visualBottom, runTop + imageRun.height);
+    }
+
+    cursorY = paragraphBottomY;
+  }
+
+  return { visualTop, visualBottom };
+}
+
+/**
+ * Convert HeaderFooter (document type) to HeaderFooterContent (render type).
+ *
+ * This converts parsed header/footer content into FlowBlocks that can be
+ * rendered by the layout painter.
+ *
+ * Fields like PAGE and NUMPAGES are converted to FieldRun which gets
+ * substituted with actual values at render time.
+ *
+ * @param headerFooter - The header/footer document content
+ * @param contentWidth - Available width for content
+ */
+export function convertHeaderFooterToContent(
+  headerFooter: HeaderFooter | null | undefined,
+  contentWidth: number,
+  metrics: HeaderFooterMetrics
+): HeaderFooterContent | undefined {
+  if (!headerFooter || !headerFooter.content || headerFooter.content.length === 0) {
+    return undefined;
+  }
+
+  const blocks: FlowBlock[] = [];
+
+  for (const item of headerFooter.content) {
+    const itemObj = item as unknown as Record<string, unknown>;
+
+    // Check for Document Paragraph type
+    if (itemObj.type === 'paragraph' && Array.isArray(itemObj.content)) {
+      const formatting = itemObj.formatting as Record<string, unknown> | undefined;
+      const attrs: ParagraphAttrs = {};
+
+      if (formatting) {
+        if (formatting.alignment) {
+          const align = formatting.alignment as string;
+          if (align === 'both') attrs.alignment = 'justify';
+          else if (['left', 'center', 'right', 'justify'].includes(align)) {
+            attrs.alignment = align as 'left' | 'center' | 'right' | 'justify';
+          }
+        }
+        // Convert paragraph borders (e.g., header bottom line, footer top line)
+        if (formatting.borders) {
+          const borders = formatting.borders as Record<string, unknown>;
+          const converted: ParagraphBorders = {};
+          for (const side of ['top', 'bottom', 'left', 'right', 'between'] as const) {
+            const b = borders[side] as
+              | { style?: string; size?: number; color?: Record<string, string> }
+              | undefined;
+            if (b) {
+              const layoutBorder = convertBorderSpecToLayout(b);
+              if (layoutBorder) converted[side] = layoutBorder;
+            }
+          }
+          if (Object.keys(converted).length > 0) {
+            attrs.borders = converted;
+          }
+        }
+        // Convert spacing for measurement.
+        // NOTE: Only convert lineSpacing (affects line height). Skip spaceBefore/
+        // spaceAfter — these are typically style-resolved artifacts (e.g., from
+        // Normal style) inlined during the PM→document round-trip, not intentional
+        // header/footer formatting. The layout painter renders header/footer
+        // paragraphs without inter-paragraph margins, so measurement must match.
+        if (formatting.lineSpacing != null) {
+          const spacingAttrs: ParagraphSpacing = {};
+          const rule = formatting.lineSpacingRule as string | undefined;
+          if (rule === 'exact' || rule === 'atLeast') {
+            spacingAttrs.line = twipsToPixels(formatting.lineSpacing as number);
+            spacingAttrs.lineUnit = 'px';
+            spacingAttrs.lineRule = rule;
+          } else {
+            // Auto — line spacing is in 240ths of a line
+            spacingAttrs.line = (formatting.lineSpacing as number) / 240;
+            spacingAttrs.lineUnit = 'multiplier';
+            spacingAttrs.lineRule = 'auto';
+          }
+          attrs.spacing = spacingAttrs;
+        }
+        // Convert tab stops (needed for center/right tab alignment in headers/footers)
+        if (Array.isArray(formatting.tabs) && formatting.tabs.length > 0) {
+          attrs.tabs = (
+            formatting.tabs as Array<{
+              position: number;
+              alignment: string;
+              leader?: string;
+            }>
+          ).map((tab) => {
+            const align =
+              tab.alignment === 'left'
+                ? 'start'
+                : tab.alignment === 'right'
+                  ? 'end'
+                  : tab.alignment;
+            return {
+              val: align as 'start' | 'end' | 'center' | 'decimal' | 'bar' | 'clear',
+              pos: twipsToPixels(tab.position),
+              leader: tab.leader as
+                | 'none'
+                | 'dot'
+                | 'hyphen'
+                | 'underscore'
+                | 'heavy'
+                | 'middleDot'
+                | undefined,
+            };
+          });
+        }
+      }
+
+      const runs = convertDocumentRunsToFlowRuns(itemObj.content as unknown[]);
+
+      // Empty paragraphs (blank lines) should still measure — add empty text run
+      if (runs.length === 0) {
+        runs.push({ kind: 'text' as const, text: '' });
+      }
+      const paragraphBlock: ParagraphBlock = {
+        kind: 'paragraph',
+        id: String(blocks.length),
+        runs,
+        attrs: Object.keys(attrs).length > 0 ? attrs : undefined,
+      };
+      blocks.push(paragraphBlock);
+    }
+  }
+
+  if (blocks.length === 0) {
+    return undefined;
+  }
+
+  // Build blocks for measurement that exclude floating images
+  // (floating images are positioned absolutely, don't affect paragraph height)
+  const blocksForMeasure: FlowBlock[] = blocks.map((block) => {
+    if (block.kind !== 'paragraph') return block;
+    const pb = block as ParagraphBlock;
+    const hasFloating = pb.runs.some(
+      (r) => r.kind === 'image' && 'position' in r && (r as Record<string, unknown>).position
+    );
+    if (!hasFloating) return block;
+    const inlineRuns = pb.runs.filter(
+      (r) => !(r.kind === 'image' && 'position' in r && (r as Record<string, unknown>).position)
+    );
+    // If only floating images remain, add an empty text run so the paragraph still measures
+    if (inlineRuns.length === 0) {
+      inlineRuns.push({ kind: 'text' as const, text: '' });
+    }
+    return { ...pb, runs: inlineRuns };
+  });
+
+  const measures = measureBlocks(blocksForMeasure, contentWidth);
+  const totalHeight = measures.reduce((h, m) => {
+    if (m.kind === 'paragraph') {
+      return h + m.totalHeight;
+    }
+    return h;
+  }, 0);
+  const { visualTop, visualBottom } = calculateHeaderFooterVisualBounds(
+    blocks,
+    measures,
+    totalHeight,
+    metrics
+  );
+
+  return {
+    blocks,
+    measures,
+    height: totalHeight,
+    visualTop,
+    visualBottom,
+  };
+}
+
+// =============================================================================
+// FOOTNOTE HELPERS
+// =============================================================================
+
+/**
+ * Build per-page footnote render items from page footnote mapping.
+ */
+export function buildFootnoteRenderItems(
+  pageFootnoteMap: Map<number, number[]>,
+  footnoteContentMap: Map<number, { displayNumber: number }>,
+  doc: Document | null
+): Map<number, FootnoteRenderItem[]> {
+  const result = new Map<number, FootnoteRenderItem[]>();
+  if (!doc?.package?.footnotes) return result;
+
+  // Build lookup for footnote text
+  const fnLookup = new Map<number, Footnote>();
+  for (const fn of doc.package.footnotes) {
+    if (fn.noteType && fn.noteType !== 'normal') continue;
+    fnLookup.set(fn.id, fn);
+  }
+
+  for (const [pageNumber, footnoteIds] of pageFootnoteMap) {
+    const items: FootnoteRenderItem[] = [];
+
+    for (const fnId of footnoteIds) {
+      const fn = fnLookup.get(fnId);
+      if (!fn) continue;
+
+      const content = footnoteContentMap.get(fnId);
+      const displayNum = content?.displayNumber ?? 0;
+      const text = getFootnoteText(fn);
+
+      items.push({
+        displayNumber: String(displayNum),
+        text,
+      });
+    }
+
+    if (items.length > 0) {
+      result.set(pageNumber, items);
+    }
+  }
+
+  return result;
+}
+
+// =============================================================================
+// PIPELINE
+// =============================================================================
+
+/**
+ * Pick the header/footer variants the document's body section renders with.
+ * Falls back to the first-page variants when titlePg is off and only those exist.
+ */
+export function getSectionHeaderFooters(
+  document: Document | null | undefined
+): SectionHeaderFooters {
+  const result: SectionHeaderFooters = {
+    headerContent: null,
+    footerContent: null,
+    firstPageHeaderContent: null,
+    firstPageFooterContent: null,
+  };
+  const pkg = document?.package;
+  if (!pkg) return result;
+
+  const sectionProps = pkg.document?.finalSectionProperties;
+  const headers = pkg.headers;
+  const footers = pkg.footers;
+
+  if (headers && sectionProps?.headerReferences) {
+    const defaultRef = sectionProps.headerReferences.find((r) => r.type === 'default');
+    if (defaultRef?.rId) {
+      result.headerContent = headers.get(defaultRef.rId) ?? null;
+    }
+    const firstRef = sectionProps.headerReferences.find((r) => r.type === 'first');
+    if (firstRef?.rId) {
+      result.firstPageHeaderContent = headers.get(firstRef.rId) ?? null;
+    }
+  }
+
+  if (footers && sectionProps?.footerReferences) {
+    const defaultRef = sectionProps.footerReferences.find((r) => r.type === 'default');
+    if (defaultRef?.rId) {
+      result.footerContent = footers.get(defaultRef.rId) ?? null;
+    }
+    const firstRef = sectionProps.footerReferences.find((r) => r.type === 'first');
+    if (firstRef?.rId) {
+      result.firstPageFooterContent = footers.get(firstRef.rId) ?? null;
+    }
+  }
+
+  // When titlePg is not set but only 'first' headers exist, use them as default
+  if (!sectionProps?.titlePg) {
+    result.headerContent ??= result.firstPageHeaderContent;
+    result.footerContent ??= result.firstPageFooterContent;
+  }
+
+  return result;
+}
+
+/**
+ * Run the layout pipeline for a PM document: flow blocks, measures, header/
+ * footer content and the paginated layout.
+ *
+ * Text is measured with the canvas, or with the backend set by
+ * `setMeasurementBackend` (e.g. font file metrics in Node).
+ */
+export function buildDocumentLayout(
+  doc: PMNode,
+  options: LayoutPipelineOptions = {}
+): LayoutPipelineResult {
+  const { document, theme, sectionProperties, pageGap } = options;
+  const pageSize = getPageSize(sectionProperties);
+  const margins = getMargins(sectionProperties);
+  const columns = getColumns(sectionProperties);
+  const contentWidth = pageSize.w - margins.left - margins.right;
+
+  // A vertical section body is measured as horizontal text on the page
+  // turned a quarter; headers and footers keep the page upright.
+  const textDirection = toVerticalTextDirection(sectionProperties?.textDirection);
+  const bodySize = textDirection ? getLogicalSize(pageSize) : pageSize;
+  const bodyMargins = textDirection ? getLogicalMargins(textDirection, margins) : margins;
+  const bodyWidth = bodySize.w - bodyMargins.left - bodyMargins.right;
+
+  // Step 1: Convert PM doc to flow blocks
+  let stepStart = performance.now();
+  const pageContentHeight = bodySize.h - bodyMargins.top - bodyMargins.bottom;
+  const hyphenation = getHyphenation(document?.package?.settings);
+  const blocks = toFlowBlocks(doc, { theme, pageContentHeight, hyphenation });
+  let stepTime = performance.now() - stepStart;
+  if (stepTime > 500) {
+    console.warn(
+      `[layoutPipeline] toFlowBlocks took ${Math.round(stepTime)}ms (${blocks.length} blocks)`
+    );
+  }
+
+  // Step 2: Measure all blocks.
+  // Must use full measureBlocks() because measurements depend on
+  // inter-block context (floating zones, cumulative Y). Individual
+  // block measurements cannot be cached by PM node identity since
+  // floating tables/images create exclusion zones that affect
+  // neighboring paragraphs' line widths.
+  stepStart = performance.now();
+  // Compute per-block widths accounting for section breaks with different column configs
+  const blockWidths = computePerBlockWidths(blocks, bodyWidth, columns);
+  const measures = measureBlocks(blocks, blockWidths);
+  stepTime = performance.now() - stepStart;
+  if (stepTime > 1000) {
+    console.warn(
+      `[layoutPipeline] measureBlocks took ${Math.round(stepTime)}ms (${blocks.length} blocks)`
+    );
+  }
+
+  // Step 2.5: Collect footnote references from blocks
+  const footnoteRefs = collectFootnoteRefs(blocks);
+  const footnotes = footnoteRefs.length > 0 ? document?.package?.footnotes : undefined;
+
+  // Step 2.75: Prepare header/footer content for rendering (needed before layout
+  // to compute effective margins when header content exceeds available space)
+  const hfMetricsHeader = { section: 'header' as const, pageSize, margins };
+  const hfMetricsFooter = { section: 'footer' as const, pageSize, margins };
+  const headerContent = convertHeaderFooterToContent(
+    options.headerContent,
+    contentWidth,
+    hfMetricsHeader
+  );
+  const footerContent = convertHeaderFooterToContent(
+    options.footerContent,
+    contentWidth,
+    hfMetricsFooter
+  );
+  const titlePg = sectionProperties?.titlePg === true;
+  const firstPageHeaderContent = titlePg
+    ? convertHeaderFooterToContent(options.firstPageHeaderContent, contentWidth, hfMetricsHeader)
+    : undefined;
+  const firstPageFooterContent = titlePg
+    ? convertHeaderFooterToContent(options.firstPageFooterContent, contentWidth, hfMetricsFooter)
+    : undefined;
+
+  // Adjust margins if header/footer content exceeds available space
+  // (Word and Google Docs push body content down when header grows)
+  // Use the tallest header/footer across all variants for margin computation
+  const headerDistance = margins.header ?? 48;
+  const footerDistance = margins.footer ?? 48;
+  const availableHeaderSpace = margins.top - headerDistance;
+  const availableFooterSpace = margins.bottom - footerDistance;
+  const hfHeight = (hf: HeaderFooterContent | undefined) =>
+    hf ? (hf.visualBottom ?? hf.height) : 0;
+  const hfFooterHeight = (hf: HeaderFooterContent | undefined) =>
+    hf ? Math.max((hf.visualBottom ?? hf.height) - (hf.visualTop ?? 0), hf.height) : 0;
+  const headerContentHeight = Math.max(hfHeight(headerContent), hfHeight(firstPageHeaderContent));
+  const footerContentHeight = Math.max(
+    hfFooterHeight(footerContent),
+    hfFooterHeight(firstPageFooterContent)
+  );
+
+  let effectiveMargins = margins;
+  if (headerContentHeight > availableHeaderSpace || footerContentHeight > availableFooterSpace) {
+    effectiveMargins = { ...margins };
+    if (headerContentHeight > availableHeaderSpace) {
+      effectiveMargins.top = Math.max(margins.top, headerDistance + headerContentHeight);
+    }
+    if (footerContentHeight > availableFooterSpace) {
+      effectiveMargins.bottom = Math.max(margins.bottom, footerDistance + footerContentHeight);
+    }
+  }
+
+  // Step 3: Layout blocks onto pages (two-pass if footnotes exist)
+  stepStart = performance.now();
+  let layout: Layout;
+  let pageFootnoteMap = new Map<number, number[]>();
+  let footnoteContentMap = new Map<number, { displayNumber: number; height: number }>();
+
+  // Common layout options for all passes
+  const bodyBreakType = sectionProperties?.sectionStart as
+    | 'continuous'
+    | 'nextPage'
+    | 'evenPage'
+    | 'oddPage'
+    | undefined;
+  const layoutOpts = {
+    pageSize,
+    margins: effectiveMargins,
+    columns,
+    bodyBreakType,
+    pageGap,
+    textDirection,
+  };
+
+  if (footnotes) {
+    // Pass 1: Layout without footnote space to determine page assignments
+    const pass1Layout = layoutDocument(blocks, measures, layoutOpts);
+
+    // Map footnote refs to pages
+    pageFootnoteMap = mapFootnotesToPages(pass1Layout.pages, footnoteRefs);
+
+    // Build footnote content and measure heights
+    footnoteContentMap = buildFootnoteContentMap(footnotes, footnoteRefs, bodyWidth);
+
+    // Calculate per-page reserved heights
+    const footnoteReservedHeights = calculateFootnoteReservedHeights(
+      pageFootnoteMap,
+      footnoteContentMap
+    );
+
+    // Pass 2: Layout with reserved heights
+    if (footnoteReservedHeights.size > 0) {
+      layout = layoutDocument(blocks, measures, {
+        ...layoutOpts,
+        footnoteReservedHeights,
+      });
+
+      // Re-map footnotes to pages (assignments may have shifted)
+      pageFootnoteMap = mapFootnotesToPages(layout.pages, footnoteRefs);
+
+      // Store footnoteIds on each page for rendering
+      for (const [pageNum, fnIds] of pageFootnoteMap) {
+        const page = layout.pages.find((p) => p.number === pageNum);
+        if (page) {
+          page.footnoteIds = fnIds;
+        }
+      }
+    } else {
+      layout = pass1Layout;
+    }
+  } else {
+    // No footnotes — single pass
+    layout = layoutDocument(blocks, measures, layoutOpts);
+  }
+
+  stepTime = performance.now() - stepStart;
+  if (stepTime > 500) {
+    console.warn(
+      `[layoutPipeline] layoutDocument took ${Math.round(stepTime)}ms (${layout.pages.length} pages)`
+    );
+  }
+
+  // Build per-page footnote render items
+  const footnotesByPage = footnotes
+    ? buildFootnoteRenderItems(pageFootnoteMap, footnoteContentMap, document ?? null)
+    : undefined;
+
+  return {
+    layout,
+    blocks,
+    measures,
+    headerContent,
+    footerContent,
+    firstPageHeaderContent,
+    firstPageFooterContent,
+    titlePg,
+    headerDistance: sectionProperties?.headerDistance
+      ? twipsToPixels(sectionProperties.headerDistance)
+      : undefined,
+    footerDistance: sectionProperties?.footerDistance
+      ? twipsToPixels(sectionProperties.footerDistance)
+      : undefined,
+    pageBorders: sectionProperties?.pageBorders,
+    footnotesByPage: footnotesByPage?.size ? footnotesByPage : undefined,
+  };
+}
@@ -6,6 +6,7 @@
  */
 
 import type { ParagraphBlock, ParagraphMeasure } from '../../layout-engine/types';
+import { clearMathLayoutCache } from '../../math';
 
 // =============================================================================
 // TEXT WIDTH CACHE
@@ -274,6 +275,8 @@ export function hashParagraphBlock(block: ParagraphBlock): string {
       parts.push(`img:${run.width}x${run.height}`);
     } else if (run.kind === 'lineBreak') {
       parts.push('br');
+    } else if (run.kind === 'math') {
+      parts.push(`math:${run.display}|${run.fontSize}|${run.ommlXml}`);
     }
   }
 
@@ -291,6 +294,9 @@ export function hashParagraphBlock(block: ParagraphBlock): string {
         `spacing:${attrs.spacing.before}|${attrs.spacing.after}|${attrs.spacing.line}|${attrs.spacing.lineRule}`
       );
     }
+    if (attrs.hyphenation) {
+      parts.push(`hyph:${attrs.hyphenation.zone}|${attrs.hyphenation.doNotHyphenateCaps}`);
+    }
   }
 
   return parts.join('||');
@@ -377,6 +383,7 @@ export function clearAllCaches(): void {
   clearTextWidthCache();
   clearFontMetricsCache();
   clearParagraphMeasureCache();
+  clearMathLayoutCache();
 }
 
 /**
@@ -0,0 +1,147 @@
+/**
+ * Tests for measuring text with font file metrics
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+
+import { createFontMetricsBackend } from './fontMetricsBackend';
+import { measureTextWidth, setMeasurementBackend } from './measureContainer';
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+const UNITS_PER_EM = 1000;
+
+/**
+ * Build a TrueType font mapping printable ASCII to glyphs 1-95, each
+ * `advance` units wide (spaces half that)
+ */
+function buildFont(family: string, advance: number, bold = false): Uint8Array {
+  const numGlyphs = 96;
+
+  const head = new DataView(new ArrayBuffer(54));
+  head.setUint16(18, UNITS_PER_EM);
+  head.setUint16(44, bold ? 1 : 0); // macStyle
+
+  const hhea = new DataView(new ArrayBuffer(36));
+  hhea.setInt16(4, 800); // ascent
+  hhea.setInt16(6, -200); // descent
+  hhea.setUint16(34, numGlyphs);
+
+  const maxp = new DataView(new ArrayBuffer(6));
+  maxp.setUint16(4, numGlyphs);
+
+  const hmtx = new DataView(new ArrayBuffer(numGlyphs * 4));
+  for (let glyph = 0; glyph < numGlyphs; glyph++) {
+    hmtx.setUint16(glyph * 4, glyph === 1 ? advance / 2 : advance);
+  }
+
+  // Format 12 subtable: one group, U+0020-U+007E → glyphs 1-95
+  const cmap = new DataView(new ArrayBuffer(12 + 28));
+  cmap.setUint16(2, 1);
+  cmap.setUint16(4, 3);
+  cmap.setUint16(6, 10);
+  cmap.setUint32(8, 12);
+  cmap.setUint16(12, 12);
+  cmap.setUint32(16, 28);
+  cmap.setUint32(24, 1);
+  cmap.setUint32(28, 0x20);
+  cmap.setUint32(32, 0x7e);
+  cmap.setUint32(36, 1);
+
+  // Family name (ID 1) as UTF-16BE
+  const name = new DataView(new ArrayBuffer(18 + family.length * 2));
+  name.setUint16(2, 1);
+  name.setUint16(4, 18);
+  name.setUint16(6, 3);
+  name.setUint16(12, 1);
+  name.setUint16(14, family.length * 2);
+  [...family].forEach((char, i) => name.setUint16(18 + i * 2, char.charCodeAt(0)));
+
+  const tables: [string, DataView][] = [
+    ['cmap', cmap],
+    ['glyf', new DataView(new ArrayBuffer(0))],
+    ['head', head],
+    ['hhea', hhea],
+    ['hmtx', hmtx],
+    ['loca', new DataView(new ArrayBuffer((numGlyphs + 1) * 2))],
+    ['maxp', maxp],
+    ['name', name],
+  ];
+
+  let offset = 12 + tables.length * 16;
+  const size = tables.reduce((total, [, table]) => total + table.byteLength, offset);
+  const font = new Uint8Array(size);
+  const dv = new DataView(font.buffer);
+  dv.setUint32(0, 0x10000);
+  dv.setUint16(4, tables.length);
+  tables.forEach(([tag, table], i) => {
+    const record = 12 + i * 16;
+    for (let j = 0; j < 4; j++) dv.setUint8(record + j, tag.charCodeAt(j));
+    dv.setUint32(record + 8, offset);
+    dv.setUint32(record + 12, table.byteLength);
+    font.set(new Uint8Array(table.buffer), offset);
+    offset += table.byteLength;
+  });
+  return font;
+}
+
+afterEach(() => setMeasurementBackend(null));
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('createFontMetricsBackend', () => {
+  test('measures with the advance widths of the font named in the file', async () => {
+    const backend = await createFontMetricsBackend([{ data: buildFont('Test Sans', 500) }]);
+
+    // 12pt = 16px; three half-em glyphs and a quarter-em space
+    expect(backend.measureTextWidth('ab c', { fontFamily: 'Test Sans', fontSize: 12 })).toBe(28);
+    expect(backend.getFontMetrics({ fontFamily: 'Test Sans', fontSize: 12 })).toEqual({
+      ascent: 0.72 * 16,
+      descent: 0.2 * 16,
+    });
+  });
+
+  test('picks the face matching the style', async () => {
+    const backend = await createFontMetricsBackend([
+      { data: buildFont('Test Sans', 500) },
+      { data: buildFont('Test Sans', 600, true) },
+    ]);
+
+    expect(backend.measureTextWidth('ab', { fontFamily: 'Test Sans', fontSize: 12 })).toBe(16);
+    expect(
+      backend.measureTextWidth('ab', { fontFamily: 'Test Sans', fontSize: 12, bold: true })
+    ).toBeCloseTo(19.2);
+    // No italic face: the upright one stands in
+    expect(
+      backend.measureTextWidth('ab', { fontFamily: 'Test Sans', fontSize: 12, italic: true })
+    ).toBe(16);
+  });
+
+  test('falls back to the default family and estimates missing glyphs', async () => {
+    const backend = await createFontMetricsBackend([
+      { data: buildFont('Test Sans', 500) },
+      { data: buildFont('Test Serif', 400), family: 'Body' },
+    ]);
+
+    expect(backend.measureTextWidth('ab', { fontFamily: 'Body', fontSize: 12 })).toBe(12.8);
+    expect(backend.measureTextWidth('ab', { fontFamily: 'Missing', fontSize: 12 })).toBe(16);
+    // Not in any font: half an em
+    expect(backend.measureTextWidth('€', { fontFamily: 'Test Sans', fontSize: 12 })).toBe(8);
+    // Zero-width characters take no space
+    expect(backend.measureTextWidth('a\u00adb', { fontFamily: 'Test Sans', fontSize: 12 })).toBe(
+      16
+    );
+  });
+
+  test('replaces the canvas in layout measurement', async () => {
+    setMeasurementBackend(await createFontMetricsBackend([{ data: buildFont('Test Sans', 500) }]));
+
+    expect(
+      measureTextWidth('abc', { fontFamily: 'Test Sans', fontSize: 12, letterSpacing: 1 })
+    ).toBe(26);
+  });
+});
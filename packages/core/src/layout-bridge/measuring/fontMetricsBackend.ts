@@ -0,0 +1,218 @@
+/**
+ * Font Metrics Backend
+ *
+ * Measures text with the advance widths in TrueType/OpenType font files
+ * instead of a canvas, so the layout pipeline runs in Node and breaks lines
+ * the way a browser with the same fonts would (kerning and shaping aside).
+ *
+ * A font the document uses is looked up by family, then through the same
+ * fallback stack the renderer uses (Calibri → Carlito, …), then the default
+ * family. Characters no loaded font has are estimated at half an em.
+ *
+ * @example
+ * ```ts
+ * setMeasurementBackend(await createFontMetricsBackend(await readFontFiles('/usr/share/fonts')));
+ * const pages = agent.layout().pageCount;
+ * ```
+ */
+
+import { parseFontProgram, type FontProgram } from '../../pdf/fontProgram';
+import { resolveFontFamily } from '../../utils/fontResolver';
+import { ptToPx, type FontStyle, type TextMeasurementBackend } from './measureContainer';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A font file to measure with
+ */
+export interface FontFile {
+  /** TTF, OTF, TTC (first face) or WOFF file contents */
+  data: ArrayBuffer | Uint8Array;
+  /** Family the document refers to it by (default: the family in the file) */
+  family?: string;
+  /** Face style (default: the style in the file) */
+  bold?: boolean;
+  italic?: boolean;
+}
+
+export interface FontMetricsBackendOptions {
+  /** Family for fonts without a file (default: the first file's family) */
+  defaultFamily?: string;
+}
+
+interface Face {
+  program: FontProgram;
+  bold: boolean;
+  italic: boolean;
+  /** Advance widths in ems by code point (NaN when the font lacks the glyph) */
+  advances: Map<number, number>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_FONT_SIZE = 11;
+const GENERIC_FAMILIES = new Set([
+  'serif',
+  'sans-serif',
+  'monospace',
+  'cursive',
+  'fantasy',
+  'system-ui',
+]);
+/** Soft hyphen, zero-width spaces and joiners, direction marks, BOM */
+const ZERO_WIDTH = /[\u00ad\u200b-\u200f\ufeff]/;
+const FONT_FILE_PATTERN = /\.(ttf|otf|ttc|woff)$/i;
+
+// ============================================================================
+// BACKEND
+// ============================================================================
+
+/**
+ * Create a measurement backend from font files
+ *
+ * Files that can't be read (unknown format, WOFF2) are skipped.
+ */
+export async function createFontMetricsBackend(
+  files: FontFile[],
+  options: FontMetricsBackendOptions = {}
+): Promise<TextMeasurementBackend> {
+  const families = new Map<string, Face[]>();
+  let firstFamily: string | null = null;
+
+  for (const file of files) {
+    const program = await parseFontProgram(file.data);
+    const family = (file.family ?? program?.familyName)?.trim();
+    if (!program || !family) continue;
+
+    const key = family.toLowerCase();
+    families.set(key, [
+      ...(families.get(key) ?? []),
+      {
+        program,
+        bold: file.bold ?? program.bold,
+        italic: file.italic ?? program.italic,
+        advances: new Map(),
+      },
+    ]);
+    if (!firstFamily) firstFamily = key;
+  }
+
+  const defaultFamily = options.defaultFamily?.toLowerCase() ?? firstFamily;
+  const allFaces = [...families.values()].flat();
+  const resolved = new Map<string, Face | null>();
+
+  function faceFor(style: FontStyle): Face | null {
+    const family = style.fontFamily ?? 'Calibri';
+    const key = `${family}|${style.bold ? 1 : 0}|${style.italic ? 1 : 0}`;
+    let face = resolved.get(key);
+    if (face === undefined) {
+      face = null;
+      for (const candidate of candidateFamilies(family, defaultFamily)) {
+        const faces = families.get(candidate);
+        if (faces) {
+          face = pickFace(faces, !!style.bold, !!style.italic);
+          break;
+        }
+      }
+      resolved.set(key, face);
+    }
+    return face;
+  }
+
+  return {
+    measureTextWidth(text, style) {
+      const face = faceFor(style);
+      let ems = 0;
+      for (const char of text) {
+        if (ZERO_WIDTH.test(char)) continue;
+        const codePoint = char.codePointAt(0)!;
+        let advance = face ? advanceOf(face, codePoint) : NaN;
+        // Fall back to any loaded font with the glyph, as a browser would
+        for (let i = 0; Number.isNaN(advance) && i < allFaces.length; i++) {
+          advance = advanceOf(allFaces[i], codePoint);
+        }
+        ems += Number.isNaN(advance) ? (style.bold ? 0.55 : 0.5) : advance;
+      }
+      return ems * ptToPx(style.fontSize ?? DEFAULT_FONT_SIZE);
+    },
+
+    getFontMetrics(style) {
+      const fontSizePx = ptToPx(style.fontSize ?? DEFAULT_FONT_SIZE);
+      const face = faceFor(style);
+      if (!face) return { ascent: fontSizePx * 0.8, descent: fontSizePx * 0.2 };
+      // Cap height stands in for the ink top of "H", the descender for "g"
+      const { capHeight, descent, unitsPerEm } = face.program;
+      return {
+        ascent: (capHeight / unitsPerEm) * fontSizePx,
+        descent: (Math.abs(descent) / unitsPerEm) * fontSizePx,
+      };
+    },
+  };
+}
+
+/**
+ * Read the font files in a directory and its subdirectories (Node only)
+ */
+export async function readFontFiles(dir: string): Promise<FontFile[]> {
+  const [fs, path] = await Promise.all([import('fs/promises'), import('path')]);
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files: FontFile[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await readFontFiles(entryPath)));
+    } else if (FONT_FILE_PATTERN.test(entry.name)) {
+      files.push({ data: new Uint8Array(await fs.readFile(entryPath)) });
+    }
+  }
+  return files;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The family, the named fonts of its fallback stack, then the default family
+ */
+function candidateFamilies(family: string, defaultFamily: string | null): string[] {
+  const stack = resolveFontFamily(family)
+    .cssFallback.split(',')
+    .map((name) =>
+      name
+        .trim()
+        .replace(/^["']|["']$/g, '')
+        .toLowerCase()
+    )
+    .filter((name) => name && !GENERIC_FAMILIES.has(name));
+  const candidates = [family.trim().toLowerCase(), ...stack];
+  if (defaultFamily) candidates.push(defaultFamily);
+  return candidates;
+}
+
+/**
+ * The closest face: exact style, then matching slant, then matching weight
+ */
+function pickFace(faces: Face[], bold: boolean, italic: boolean): Face {
+  return (
+    faces.find((face) => face.bold === bold && face.italic === italic) ??
+    faces.find((face) => face.italic === italic && !face.bold) ??
+    faces.find((face) => face.bold === bold && !face.italic) ??
+    faces[0]
+  );
+}
+
+function advanceOf(face: Face, codePoint: number): number {
+  let advance = face.advances.get(codePoint);
+  if (advance === undefined) {
+    const { program } = face;
+    const glyph = program.glyphForCodePoint(codePoint);
+    advance = glyph ? program.advanceWidth(glyph) / program.unitsPerEm : NaN;
+    face.advances.set(codePoint, advance);
+  }
+  return advance;
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for Liang pattern hyphenation and the dictionary registry
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  createHyphenator,
+  getHyphenator,
+  registerHyphenationDictionary,
+  unregisterHyphenationDictionary,
+} from './hyphenation';
+
+// The patterns Liang's thesis uses to hyphenate "hyphenation"
+const PATTERNS = 'hy3ph he2n hena4 hen5at 1na n2at 1tio 2io o2n';
+
+function split(word: string, points: number[]): string {
+  let result = '';
+  let last = 0;
+  for (const point of points) {
+    result += word.slice(last, point) + '-';
+    last = point;
+  }
+  return result + word.slice(last);
+}
+
+describe('createHyphenator', () => {
+  test('finds break points from the highest digit of matching patterns', () => {
+    const hyphenator = createHyphenator({ lang: 'en', patterns: PATTERNS });
+    expect(split('hyphenation', hyphenator.hyphenate('hyphenation'))).toBe('hy-phen-ation');
+    // Case is ignored for matching but kept in the points
+    expect(split('Hyphenation', hyphenator.hyphenate('Hyphenation'))).toBe('Hy-phen-ation');
+  });
+
+  test('keeps the minimum letters before and after a hyphen', () => {
+    const hyphenator = createHyphenator({
+      lang: 'en',
+      patterns: PATTERNS,
+      leftMin: 3,
+      rightMin: 5,
+    });
+    expect(split('hyphenation', hyphenator.hyphenate('hyphenation'))).toBe('hyphen-ation');
+  });
+
+  test('exceptions override the patterns', () => {
+    const hyphenator = createHyphenator({
+      lang: 'en',
+      patterns: PATTERNS,
+      exceptions: ['hyphen-ation'],
+    });
+    expect(hyphenator.hyphenate('hyphenation')).toEqual([6]);
+  });
+
+  test('words with non-letters are left whole', () => {
+    const hyphenator = createHyphenator({ lang: 'en', patterns: PATTERNS });
+    expect(hyphenator.hyphenate('hyphenation2')).toEqual([]);
+    expect(hyphenator.hyphenate('hyphenation ')).toEqual([]);
+  });
+});
+
+describe('hyphenation dictionaries', () => {
+  afterEach(() => {
+    unregisterHyphenationDictionary('en-US');
+    unregisterHyphenationDictionary('de');
+  });
+
+  test('the first registered language is the default', () => {
+    expect(getHyphenator()).toBeNull();
+    registerHyphenationDictionary({ lang: 'en-US', patterns: PATTERNS });
+    registerHyphenationDictionary({ lang: 'de', patterns: '' });
+    expect(getHyphenator()?.lang).toBe('en-US');
+
+    registerHyphenationDictionary({ lang: 'de', patterns: '' }, { default: true });
+    expect(getHyphenator()?.lang).toBe('de');
+    unregisterHyphenationDictionary('de');
+    expect(getHyphenator()?.lang).toBe('en-US');
+  });
+
+  test('languages match by their primary subtag', () => {
+    registerHyphenationDictionary({ lang: 'en-US', patterns: PATTERNS });
+    expect(getHyphenator('en-US')?.lang).toBe('en-US');
+    expect(getHyphenator('en')?.lang).toBe('en-US');
+    expect(getHyphenator('en-GB')?.lang).toBe('en-US');
+    expect(getHyphenator('fr')).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Hyphenation - Liang's pattern-based word hyphenation
+ *
+ * Finds the points where a word may be broken with a hyphen, using the
+ * pattern format of TeX's hyphenation files (hyph-*.tex). No dictionary is
+ * bundled; hosts register the languages they need, so documents with
+ * w:autoHyphenation only hyphenate once a dictionary is available.
+ *
+ * Patterns are letter sequences with digits between them, e.g. "hy3ph". For
+ * every position in a word the highest digit of all matching patterns wins;
+ * odd values allow a break there, even values forbid one.
+ */
+
+import { clearParagraphMeasureCache } from './cache';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Hyphenation patterns and exceptions for one language
+ */
+export interface HyphenationDictionary {
+  /** BCP 47 language tag, e.g. "en-US" */
+  lang: string;
+  /** Liang patterns separated by whitespace, e.g. "hy3ph he2n .ach4" */
+  patterns: string | string[];
+  /** Words with explicit break points, e.g. "ta-ble" */
+  exceptions?: string | string[];
+  /** Minimum letters before the first hyphen (default 2) */
+  leftMin?: number;
+  /** Minimum letters after the last hyphen (default 3) */
+  rightMin?: number;
+}
+
+/**
+ * Hyphenator compiled from a dictionary
+ */
+export interface Hyphenator {
+  /** Language the dictionary was registered for */
+  lang: string;
+  /**
+   * Break points of a word, as the number of characters before each hyphen.
+   * Words containing non-letters yield no break points.
+   */
+  hyphenate(word: string): number[];
+}
+
+// =============================================================================
+// ENGINE
+// =============================================================================
+
+const DEFAULT_LEFT_MIN = 2;
+const DEFAULT_RIGHT_MIN = 3;
+
+function splitList(list: string | string[] | undefined): string[] {
+  if (!list) return [];
+  const items = typeof list === 'string' ? [list] : list;
+  return items.flatMap((item) => item.split(/\s+/)).filter(Boolean);
+}
+
+/**
+ * Compile a dictionary into a hyphenator
+ */
+export function createHyphenator(dictionary: HyphenationDictionary): Hyphenator {
+  const leftMin = dictionary.leftMin ?? DEFAULT_LEFT_MIN;
+  const rightMin = dictionary.rightMin ?? DEFAULT_RIGHT_MIN;
+
+  // Letters of each pattern mapped to the digits around them
+  const patterns = new Map<string, number[]>();
+  let maxPatternLength = 0;
+  for (const pattern of splitList(dictionary.patterns)) {
+    const letters = pattern.replace(/\d/g, '').toLowerCase();
+    const values = new Array<number>(letters.length + 1).fill(0);
+    let index = 0;
+    for (const char of pattern) {
+      if (char >= '0' && char <= '9') {
+        values[index] = Number(char);
+      } else {
+        index++;
+      }
+    }
+    patterns.set(letters, values);
+    maxPatternLength = Math.max(maxPatternLength, letters.length);
+  }
+
+  const exceptions = new Map<string, number[]>();
+  for (const exception of splitList(dictionary.exceptions)) {
+    const points: number[] = [];
+    let letters = '';
+    for (const char of exception) {
+      if (char === '-') {
+        points.push(letters.length);
+      } else {
+        letters += char;
+      }
+    }
+    exceptions.set(letters.toLowerCase(), points);
+  }
+
+  function hyphenate(word: string): number[] {
+    if (word.length < leftMin + rightMin || !/^\p{L}+$/u.test(word)) return [];
+    const lower = word.toLowerCase();
+
+    const exception = exceptions.get(lower);
+    if (exception) return exception.slice();
+
+    // Word boundaries take part in matching as "."
+    const text = `.${lower}.`;
+    const values = new Array<number>(text.length + 1).fill(0);
+    for (let start = 0; start < text.length; start++) {
+      const end = Math.min(text.length, start + maxPatternLength);
+      for (let stop = start + 1; stop <= end; stop++) {
+        const pattern = patterns.get(text.slice(start, stop));
+        if (!pattern) continue;
+        for (let i = 0; i < pattern.length; i++) {
+          values[start + i] = Math.max(values[start + i], pattern[i]);
+        }
+      }
+    }
+
+    // values[p + 1] sits between word[p - 1] and word[p]
+    const points: number[] = [];
+    for (let p = leftMin; p <= word.length - rightMin; p++) {
+      if (values[p + 1] % 2 === 1) points.push(p);
+    }
+    return points;
+  }
+
+  return { lang: dictionary.lang, hyphenate };
+}
+
+// =============================================================================
+// DICTIONARY REGISTRY
+// =============================================================================
+
+const hyphenators = new Map<string, Hyphenator>();
+let defaultLang: string | null = null;
+
+/**
+ * Register the hyphenation dictionary for a language. The first registered
+ * language is the default for text without a language.
+ *
+ * Cached paragraph measurements are dropped so that lines break again with
+ * the new patterns.
+ */
+export function registerHyphenationDictionary(
+  dictionary: HyphenationDictionary,
+  options: { default?: boolean } = {}
+): void {
+  const lang = dictionary.lang.toLowerCase();
+  hyphenators.set(lang, createHyphenator(dictionary));
+  if (options.default || defaultLang === null) defaultLang = lang;
+  clearParagraphMeasureCache();
+}
+
+/**
+ * Remove the hyphenation dictionary of a language
+ */
+export function unregisterHyphenationDictionary(lang: string): void {
+  const key = lang.toLowerCase();
+  if (!hyphenators.delete(key)) return;
+  if (defaultLang === key) {
+    defaultLang = hyphenators.keys().next().value ?? null;
+  }
+  clearParagraphMeasureCache();
+}
+
+/**
+ * Hyphenator for a language, matching "en-US" to "en" and the other way
+ * around. Without a language the default dictionary is used.
+ */
+export function getHyphenator(lang?: string): Hyphenator | null {
+  if (!lang) return defaultLang ? (hyphenators.get(defaultLang) ?? null) : null;
+
+  const key = lang.toLowerCase();
+  const exact = hyphenators.get(key);
+  if (exact) return exact;
+  const primary = key.split('-')[0];
+  for (const [registered, hyphenator] of hyphenators) {
+    if (registered === primary || registered.split('-')[0] === primary) return hyphenator;
+  }
+  return null;
+}
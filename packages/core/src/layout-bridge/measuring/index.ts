@@ -2,13 +2,16 @@
  * Text Measurement Module
  *
  * Provides text measurement utilities for the layout engine.
- * Uses Canvas API for accurate, cached measurements.
+ * Uses Canvas API for accurate, cached measurements, or a measurement
+ * backend where there is no canvas.
  */
 
 // Core measurement functions
 export {
   getCanvasContext,
   resetCanvasContext,
+  setMeasurementBackend,
+  getMeasurementBackend,
   buildFontString,
   getFontMetrics,
   measureTextWidth,
@@ -28,6 +31,7 @@ export {
   type FontMetrics,
   type TextMeasurement,
   type RunMeasurement,
+  type TextMeasurementBackend,
 } from './measureContainer';
 
 // Paragraph measurement
@@ -39,6 +43,16 @@ export {
   type MeasureParagraphOptions,
 } from './measureParagraph';
 
+// Hyphenation
+export {
+  createHyphenator,
+  registerHyphenationDictionary,
+  unregisterHyphenationDictionary,
+  getHyphenator,
+  type HyphenationDictionary,
+  type Hyphenator,
+} from './hyphenation';
+
 // Caching utilities
 export {
   // Text width cache
@@ -3,6 +3,8 @@
  *
  * Uses HTML5 Canvas API to measure text runs and calculate typography metrics.
  * Canvas-based measurement is more accurate and performant than DOM-based approaches.
+ * Outside a browser, a measurement backend (e.g. font metrics read from font
+ * files) takes the canvas's place; without one, widths are estimated.
  *
  * Typography conventions (matching Word behavior):
  * - ascent ≈ fontSize * 0.8 (baseline to top)
@@ -12,6 +14,7 @@
  */
 
 import { resolveFontFamily } from '../../utils/fontResolver';
+import { clearAllCaches } from './cache';
 
 // Constants for OOXML unit conversions
 const TWIPS_PER_INCH = 1440;
@@ -68,6 +71,60 @@ export interface RunMeasurement {
   metrics: FontMetrics;
 }
 
+/**
+ * Measures text without a canvas. Widths and metrics are in pixels.
+ */
+export interface TextMeasurementBackend {
+  /** Advance width of the text, without letter spacing */
+  measureTextWidth(text: string, style: FontStyle): number;
+  /** Ink ascent and descent, as the canvas reports them for "Hg" */
+  getFontMetrics(style: FontStyle): { ascent: number; descent: number };
+}
+
+/**
+ * Average glyph widths, for when there's neither a backend nor a canvas
+ * (e.g. plain Node)
+ */
+const estimatingBackend: TextMeasurementBackend = {
+  measureTextWidth(text, style) {
+    const fontSizePx = ptToPx(style.fontSize ?? DEFAULT_FONT_SIZE);
+    return [...text].length * fontSizePx * (style.bold ? 0.55 : 0.5);
+  },
+  getFontMetrics(style) {
+    const fontSizePx = ptToPx(style.fontSize ?? DEFAULT_FONT_SIZE);
+    return {
+      ascent: fontSizePx * DEFAULT_ASCENT_RATIO,
+      descent: fontSizePx * DEFAULT_DESCENT_RATIO,
+    };
+  },
+};
+
+let measurementBackend: TextMeasurementBackend | null = null;
+
+/**
+ * Measure text with a backend instead of the canvas (null restores the
+ * canvas). Clears the measurement caches.
+ */
+export function setMeasurementBackend(backend: TextMeasurementBackend | null): void {
+  measurementBackend = backend;
+  clearAllCaches();
+}
+
+/**
+ * Get the backend set with setMeasurementBackend
+ */
+export function getMeasurementBackend(): TextMeasurementBackend | null {
+  return measurementBackend;
+}
+
+/**
+ * The backend to measure with, or null to use the canvas
+ */
+function activeBackend(): TextMeasurementBackend | null {
+  if (measurementBackend) return measurementBackend;
+  return typeof document === 'undefined' ? estimatingBackend : null;
+}
+
 // Cached canvas context for text measurement
 let canvasContext: CanvasRenderingContext2D | null = null;
 
@@ -173,35 +230,40 @@ export function getFontMetrics(style: FontStyle): FontMetrics {
   // Convert font size from points to pixels
   const fontSizePx = ptToPx(fontSize);
 
-  // Try to get precise metrics from canvas
+  // Try to get precise metrics from the backend or canvas
   let ascent = fontSizePx * DEFAULT_ASCENT_RATIO;
   let descent = fontSizePx * DEFAULT_DESCENT_RATIO;
   let lineHeight = fontSizePx * DEFAULT_LINE_HEIGHT_MULTIPLIER;
 
-  try {
-    const ctx = getCanvasContext();
-    ctx.font = buildFontString(style);
-
-    // Measure a standard character to get metrics
-    const metrics = ctx.measureText('Hg');
-
-    // Use actual bounding box for ascent/descent (ink bounds for baseline positioning)
-    if (
-      typeof metrics.actualBoundingBoxAscent === 'number' &&
-      typeof metrics.actualBoundingBoxDescent === 'number'
-    ) {
-      ascent = metrics.actualBoundingBoxAscent;
-      descent = metrics.actualBoundingBoxDescent;
+  const backend = activeBackend();
+  if (backend) {
+    ({ ascent, descent } = backend.getFontMetrics(style));
+  } else {
+    try {
+      const ctx = getCanvasContext();
+      ctx.font = buildFontString(style);
+
+      // Measure a standard character to get metrics
+      const metrics = ctx.measureText('Hg');
+
+      // Use actual bounding box for ascent/descent (ink bounds for baseline positioning)
+      if (
+        typeof metrics.actualBoundingBoxAscent === 'number' &&
+        typeof metrics.actualBoundingBoxDescent === 'number'
+      ) {
+        ascent = metrics.actualBoundingBoxAscent;
+        descent = metrics.actualBoundingBoxDescent;
+      }
+
+      // Note: We intentionally do NOT use fontBoundingBoxAscent/Descent for lineHeight.
+      // When Google Font substitutes are used (e.g., EB Garamond for Garamond),
+      // their fontBoundingBox metrics are significantly larger than the original font's
+      // OS/2 metrics that Word uses (e.g., EB Garamond 12pt: 21px vs Garamond: 18px).
+      // Using fontSize * 1.0 (OOXML spec default) as the base provides correct
+      // single-line spacing when no explicit line spacing is specified.
+    } catch {
+      // Use fallback ratio-based values
     }
-
-    // Note: We intentionally do NOT use fontBoundingBoxAscent/Descent for lineHeight.
-    // When Google Font substitutes are used (e.g., EB Garamond for Garamond),
-    // their fontBoundingBox metrics are significantly larger than the original font's
-    // OS/2 metrics that Word uses (e.g., EB Garamond 12pt: 21px vs Garamond: 18px).
-    // Using fontSize * 1.0 (OOXML spec default) as the base provides correct
-    // single-line spacing when no explicit line spacing is specified.
-  } catch {
-    // Use fallback ratio-based values
   }
 
   // Ensure line height is never smaller than actual glyph bounds
@@ -230,15 +292,18 @@ export function getFontMetrics(style: FontStyle): FontMetrics {
 export function measureTextWidth(text: string, style: FontStyle): number {
   if (!text) return 0;
 
-  const ctx = getCanvasContext();
-  ctx.font = buildFontString(style);
-
-  const metrics = ctx.measureText(text);
-
   // Use advance width for line breaking — this is the standard metric for text flow.
   // Painted width (actualBoundingBox) includes glyph overhang which is visual only
   // and should not affect line breaking decisions.
-  let width = metrics.width;
+  let width: number;
+  const backend = activeBackend();
+  if (backend) {
+    width = backend.measureTextWidth(text, style);
+  } else {
+    const ctx = getCanvasContext();
+    ctx.font = buildFontString(style);
+    width = ctx.measureText(text).width;
+  }
 
   // Apply letter spacing if specified
   if (style.letterSpacing && text.length > 1) {
@@ -281,8 +346,9 @@ export function measureRun(text: string, style: FontStyle): RunMeasurement {
     };
   }
 
-  const ctx = getCanvasContext();
-  ctx.font = buildFontString(style);
+  const backend = activeBackend();
+  const ctx = backend ? null : getCanvasContext();
+  if (ctx) ctx.font = buildFontString(style);
 
   const letterSpacing = style.letterSpacing ?? 0;
   const charWidths: number[] = [];
@@ -291,10 +357,9 @@ export function measureRun(text: string, style: FontStyle): RunMeasurement {
   // Measure each character individually for click positioning
   for (let i = 0; i < text.length; i++) {
     const char = text[i];
-    const charMetrics = ctx.measureText(char);
 
     // Use advance width for individual characters
-    let charWidth = charMetrics.width;
+    let charWidth = ctx ? ctx.measureText(char).width : backend!.measureTextWidth(char, style);
 
     // Add letter spacing after each character except the last
     if (letterSpacing && i < text.length - 1) {
@@ -15,6 +15,8 @@ import type {
   ImageRun,
   LineBreakRun,
   FieldRun,
+  MathRun,
+  ParagraphHyphenation,
   ParagraphSpacing,
 } from '../../layout-engine/types';
 
@@ -28,7 +30,10 @@ import {
   type FontMetrics,
 } from './measureContainer';
 
+import { getHyphenator, type Hyphenator } from './hyphenation';
+
 import { DEFAULT_SINGLE_LINE_RATIO } from '../../utils/fontResolver';
+import { layoutMathRun } from '../../math';
 
 // Default values - match OOXML spec defaults
 const DEFAULT_FONT_SIZE = 11; // 11pt (Word 2007+ default)
@@ -84,6 +89,48 @@ function findMaxFittingLength(
   return forceMin && best === 0 ? 1 : best;
 }
 
+const SOFT_HYPHEN = '\u00AD';
+
+/**
+ * Find where to hyphenate a word that doesn't fit at the end of a line.
+ *
+ * Soft hyphens in the text are always break candidates, and a word that has
+ * them is only broken there. Other words are broken at the hyphenator's
+ * points when automatic hyphenation is on and the line would otherwise leave
+ * more than the hyphenation zone empty. Returns the number of characters to
+ * keep on the line, or 0 when the word moves to the next line whole.
+ */
+function findHyphenationPoint(
+  word: string,
+  style: FontStyle,
+  spaceLeft: number,
+  hyphenation: ParagraphHyphenation | undefined,
+  hyphenator: Hyphenator | null
+): number {
+  let points: number[] = [];
+  if (word.includes(SOFT_HYPHEN)) {
+    for (let i = 0; i < word.length - 1; i++) {
+      if (word[i] === SOFT_HYPHEN) points.push(i + 1);
+    }
+  } else if (hyphenation && hyphenator && spaceLeft >= hyphenation.zone) {
+    // Hyphenate the letters only, leaving out surrounding punctuation and spaces
+    const match = /^(\P{L}*)(\p{L}+)/u.exec(word);
+    if (!match) return 0;
+    const [, lead, letters] = match;
+    if (hyphenation.doNotHyphenateCaps && letters === letters.toUpperCase()) return 0;
+    points = hyphenator.hyphenate(letters).map((p) => lead.length + p);
+  }
+
+  const hyphenWidth = measureTextWidth('-', style);
+  for (let i = points.length - 1; i >= 0; i--) {
+    const prefix = word.slice(0, points[i]).split(SOFT_HYPHEN).join('');
+    if (measureTextWidth(prefix, style) + hyphenWidth <= spaceLeft + WIDTH_TOLERANCE) {
+      return points[i];
+    }
+  }
+  return 0;
+}
+
 /**
  * Floating image exclusion zone - describes an area where text cannot flow.
  * Used to calculate reduced line widths for text wrapping around floating images.
@@ -131,11 +178,16 @@ interface LineState {
   maxFontMetrics: FontMetrics | null;
   /** Maximum inline image height in pixels (already in px, not points) */
   maxImageHeightPx: number;
+  /** Maximum equation height above/below the baseline in pixels */
+  maxMathAscentPx: number;
+  maxMathDescentPx: number;
   availableWidth: number;
   /** Left offset from floating images (pixels from content left edge) */
   leftOffset: number;
   /** Right offset from floating images (pixels from content right edge) */
   rightOffset: number;
+  /** Line ends in a hyphenated word */
+  hyphenated?: boolean;
 }
 
 /**
@@ -242,6 +294,13 @@ function isImageRun(run: Run): run is ImageRun {
   return run.kind === 'image';
 }
 
+/**
+ * Check if a run is a math run
+ */
+function isMathRun(run: Run): run is MathRun {
+  return run.kind === 'math';
+}
+
 /**
  * Check if a run is a line break run
  */
@@ -369,6 +428,7 @@ export function measureParagraph(
   );
 
   const lines: MeasuredLine[] = [];
+  const hyphenator = attrs?.hyphenation ? getHyphenator() : null;
 
   // Handle empty paragraph
   if (runs.length === 0) {
@@ -424,6 +484,8 @@ export function measureParagraph(
     maxFontSize: DEFAULT_FONT_SIZE,
     maxFontMetrics: null,
     maxImageHeightPx: 0,
+    maxMathAscentPx: 0,
+    maxMathDescentPx: 0,
     availableWidth: firstLineWidth,
     leftOffset: firstLineFloatingMargins.leftMargin,
     rightOffset: firstLineFloatingMargins.rightMargin,
@@ -448,6 +510,15 @@ export function measureParagraph(
       finalTypography.descent = currentLine.maxImageHeightPx * 0.2;
     }
 
+    // Equations reaching above the text ascent or below the descent grow the line by the overflow
+    const mathOverflowTop = currentLine.maxMathAscentPx - finalTypography.ascent;
+    const mathOverflowBottom = currentLine.maxMathDescentPx - finalTypography.descent;
+    if (mathOverflowTop > 0 || mathOverflowBottom > 0) {
+      finalTypography.lineHeight += Math.max(0, mathOverflowTop) + Math.max(0, mathOverflowBottom);
+      finalTypography.ascent = Math.max(finalTypography.ascent, currentLine.maxMathAscentPx);
+      finalTypography.descent = Math.max(finalTypography.descent, currentLine.maxMathDescentPx);
+    }
+
     const line: MeasuredLine = {
       fromRun: currentLine.fromRun,
       fromChar: currentLine.fromChar,
@@ -464,6 +535,9 @@ export function measureParagraph(
     if (currentLine.rightOffset > 0) {
       line.rightOffset = currentLine.rightOffset;
     }
+    if (currentLine.hyphenated) {
+      line.hyphenated = true;
+    }
 
     lines.push(line);
 
@@ -502,6 +576,8 @@ export function measureParagraph(
       maxFontSize: DEFAULT_FONT_SIZE,
       maxFontMetrics: null,
       maxImageHeightPx: 0,
+      maxMathAscentPx: 0,
+      maxMathDescentPx: 0,
       availableWidth: adjustedWidth,
       leftOffset: floatingMargins.leftMargin,
       rightOffset: floatingMargins.rightMargin,
@@ -613,6 +689,31 @@ export function measureParagraph(
       continue;
     }
 
+    if (isMathRun(run)) {
+      const box = layoutMathRun(run);
+      const isBlock = run.display === 'block';
+
+      // Block equations (oMathPara) get their own line
+      if (
+        (isBlock && currentLine.width > 0) ||
+        (currentLine.width > 0 &&
+          currentLine.width + box.width > currentLine.availableWidth + WIDTH_TOLERANCE)
+      ) {
+        startNewLine(runIndex, 0);
+      }
+
+      currentLine.maxMathAscentPx = Math.max(currentLine.maxMathAscentPx, box.ascent);
+      currentLine.maxMathDescentPx = Math.max(currentLine.maxMathDescentPx, box.descent);
+      currentLine.width += box.width;
+      currentLine.toRun = runIndex;
+      currentLine.toChar = 1;
+
+      if (isBlock && runIndex < runs.length - 1) {
+        startNewLine(runIndex + 1, 0);
+      }
+      continue;
+    }
+
     if (isFieldRun(run)) {
       // Measure field using fallback text (actual value substituted at render time)
       const fallback = run.fallback || '1';
@@ -723,6 +824,26 @@ export function measureParagraph(
           currentLine.width > 0 &&
           currentLine.width + wordWidth > currentLine.availableWidth + WIDTH_TOLERANCE
         ) {
+          // Break the word with a hyphen if it allows, carrying the rest over
+          const split = findHyphenationPoint(
+            word,
+            style,
+            currentLine.availableWidth - currentLine.width,
+            attrs?.hyphenation,
+            hyphenator
+          );
+          if (split > 0) {
+            const prefix = word.slice(0, split).split(SOFT_HYPHEN).join('');
+            currentLine.width += measureTextWidth(prefix + '-', style);
+            currentLine.toRun = runIndex;
+            currentLine.toChar = charIndex + split;
+            currentLine.hyphenated = true;
+            startNewLine(runIndex, charIndex + split);
+            updateMaxFont(style);
+            charIndex += split;
+            continue;
+          }
+
           // Word doesn't fit, start new line
           startNewLine(runIndex, charIndex);
           // Re-apply font metrics to the new line (startNewLine resets maxFontSize)
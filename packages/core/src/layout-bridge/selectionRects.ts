@@ -10,6 +10,7 @@
 
 import type {
   Layout,
+  Page,
   FlowBlock,
   Measure,
   ParagraphBlock,
@@ -23,11 +24,19 @@ import type {
   TabRun,
   BlockId,
 } from '../layout-engine/types';
-import { getHeaderRowsHeight } from '../layout-engine/index';
+import {
+  getCellBlockRanges,
+  getCellLineOffset,
+  getFragmentRowHeight,
+  getHeaderRowsHeight,
+  getRowSlice,
+} from '../layout-engine/index';
+import { getLogicalSize, toPhysicalRect } from '../layout-engine/text-direction';
 
 import { measureRun, type FontStyle } from './measuring/measureContainer';
 
 import { getPageTop } from './hitTest';
+import { layoutMathRun } from '../math';
 
 // =============================================================================
 // TYPES
@@ -61,12 +70,31 @@ export type CaretPosition = {
   height: number;
   /** Page index (0-based). */
   pageIndex: number;
+  /**
+   * Whether the caret sits in vertical text. The caret then runs
+   * horizontally from (x, y) and `height` is its length.
+   */
+  vertical?: boolean;
 };
 
+/**
+ * Rectangle without a page.
+ */
+type Rect = Omit<SelectionRect, 'pageIndex'>;
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
 
+/**
+ * Map a rectangle in fragment coordinates to page coordinates. Pages with
+ * vertical text lay out their body in a rotated box.
+ */
+function toPageRect(page: Page, rect: Rect): Rect {
+  if (!page.textDirection) return rect;
+  return toPhysicalRect(page.textDirection, rect, getLogicalSize(page.size));
+}
+
 /**
  * Extract FontStyle from a run for measurement.
  */
@@ -218,8 +246,8 @@ function charOffsetToX(
       continue;
     }
 
-    if (run.kind === 'image') {
-      const imageWidth = run.width;
+    if (run.kind === 'image' || run.kind === 'math') {
+      const imageWidth = run.kind === 'image' ? run.width : layoutMathRun(run).width;
       if (charsProcessed + 1 >= charOffset) {
         if (charOffset <= charsProcessed) return x;
         return x + imageWidth;
@@ -381,13 +409,13 @@ export function selectionToRects(
           const rectWidth = Math.max(1, Math.abs(endX - startX));
           const rectY = fragment.y + lineOffset;
 
-          rects.push({
+          const pageRect = toPageRect(page, {
             x: rectX,
-            y: rectY + pageTopY,
+            y: rectY,
             width: rectWidth,
             height: line.lineHeight,
-            pageIndex,
           });
+          rects.push({ ...pageRect, y: pageRect.y + pageTopY, pageIndex });
         }
       }
 
@@ -422,6 +450,8 @@ export function selectionToRects(
           const row = tableBlock.rows[rowIndex];
           const rowMeasure = tableMeasure.rows[rowIndex];
           if (!row || !rowMeasure) continue;
+          const slice = getRowSlice(tableFragment, rowIndex);
+          const rowHeight = getFragmentRowHeight(tableFragment, tableMeasure, rowIndex);
 
           // Walk through cells
           let cellX = 0;
@@ -430,11 +460,29 @@ export function selectionToRects(
             const cellMeasure = rowMeasure.cells[cellIndex];
             if (!cell || !cellMeasure) continue;
 
+            // Split rows show only part of each cell's lines
+            const fromLine = slice?.fromLines[cellIndex] ?? 0;
+            const blockRanges = slice
+              ? getCellBlockRanges(cellMeasure, fromLine, slice.toLines[cellIndex] ?? 0)
+              : null;
+            const sliceOffset = slice ? getCellLineOffset(cell, cellMeasure, fromLine) : 0;
+
+            // Vertical cells lay out their lines in a rotated box
+            const cellSize = { w: rowHeight, h: cellMeasure.width };
+            const lineWidth = cell.textDirection ? cellSize.w : cellMeasure.width;
+
             // Check each paragraph in the cell
+            let blockY = 0;
             for (let blockIdx = 0; blockIdx < cell.blocks.length; blockIdx++) {
               const cellBlock = cell.blocks[blockIdx];
               const cellBlockMeasure = cellMeasure.blocks[blockIdx];
+              const range = blockRanges?.[blockIdx];
+              const blockTop = blockY;
+              if (cellBlockMeasure && 'totalHeight' in cellBlockMeasure) {
+                blockY += cellBlockMeasure.totalHeight;
+              }
 
+              if (range === null) continue;
               if (!cellBlock || cellBlock.kind !== 'paragraph') continue;
               if (!cellBlockMeasure || cellBlockMeasure.kind !== 'paragraph') continue;
 
@@ -449,44 +497,46 @@ export function selectionToRects(
                 selTo
               );
 
-              let blockY = 0;
               for (const { line, index } of intersectingLines) {
-                const range = computeLinePmRange(paragraphBlock, line);
-                if (range.pmStart === undefined || range.pmEnd === undefined) continue;
+                if (range && (index < range.fromLine || index >= range.toLine)) continue;
+
+                const lineRange = computeLinePmRange(paragraphBlock, line);
+                if (lineRange.pmStart === undefined || lineRange.pmEnd === undefined) continue;
 
-                const sliceFrom = Math.max(range.pmStart, selFrom);
-                const sliceTo = Math.min(range.pmEnd, selTo);
+                const sliceFrom = Math.max(lineRange.pmStart, selFrom);
+                const sliceTo = Math.min(lineRange.pmEnd, selTo);
                 if (sliceFrom >= sliceTo) continue;
 
                 const charOffsetFrom = pmPosToCharOffset(paragraphBlock, line, sliceFrom);
                 const charOffsetTo = pmPosToCharOffset(paragraphBlock, line, sliceTo);
 
-                const startX = charOffsetToX(
-                  paragraphBlock,
-                  line,
-                  charOffsetFrom,
-                  cellMeasure.width
-                );
-                const endX = charOffsetToX(paragraphBlock, line, charOffsetTo, cellMeasure.width);
+                const startX = charOffsetToX(paragraphBlock, line, charOffsetFrom, lineWidth);
+                const endX = charOffsetToX(paragraphBlock, line, charOffsetTo, lineWidth);
 
                 const lineY = lineHeightBefore(paragraphMeasure, index);
 
-                rects.push({
-                  x: tableFragment.x + cellX + Math.min(startX, endX),
-                  y: tableFragment.y + rowY + blockY + lineY + pageTopY,
+                let cellRect: Rect = {
+                  x: Math.min(startX, endX),
+                  y: blockTop + lineY - sliceOffset,
                   width: Math.max(1, Math.abs(endX - startX)),
                   height: line.lineHeight,
-                  pageIndex,
+                };
+                if (cell.textDirection) {
+                  cellRect = toPhysicalRect(cell.textDirection, cellRect, cellSize);
+                }
+                const pageRect = toPageRect(page, {
+                  ...cellRect,
+                  x: tableFragment.x + cellX + cellRect.x,
+                  y: tableFragment.y + rowY + cellRect.y,
                 });
+                rects.push({ ...pageRect, y: pageRect.y + pageTopY, pageIndex });
               }
-
-              blockY += paragraphMeasure.totalHeight;
             }
 
             cellX += cellMeasure.width;
           }
 
-          rowY += rowMeasure.height;
+          rowY += rowHeight;
         }
       }
 
@@ -497,11 +547,12 @@ export function selectionToRects(
 
         // Check if image overlaps with selection
         if (blockPmEnd > selFrom && blockPmStart < selTo) {
+          const pageRect = toPageRect(page, fragment);
           rects.push({
-            x: fragment.x,
-            y: fragment.y + pageTopY,
-            width: fragment.width,
-            height: fragment.height,
+            x: pageRect.x,
+            y: pageRect.y + pageTopY,
+            width: pageRect.width,
+            height: pageRect.height,
             pageIndex,
           });
         }
@@ -590,12 +641,16 @@ export function getCaretPosition(
               lineHeightBefore(paragraphMeasure, lineIndex) -
               lineHeightBefore(paragraphMeasure, paragraphFragment.fromLine);
 
-            return {
-              x: fragment.x + indentLeft + alignmentOffset + x,
-              y: fragment.y + lineOffset + pageTopY,
-              height: line.lineHeight,
-              pageIndex,
-            };
+            return toCaretPosition(
+              page,
+              {
+                x: fragment.x + indentLeft + alignmentOffset + x,
+                y: fragment.y + lineOffset,
+                height: line.lineHeight,
+                pageIndex,
+              },
+              pageTopY
+            );
           }
         }
       }
@@ -607,12 +662,11 @@ export function getCaretPosition(
 
         if (pmPosition >= fragPmStart && pmPosition <= fragPmEnd) {
           const xOffset = pmPosition === fragPmStart ? 0 : fragment.width;
-          return {
-            x: fragment.x + xOffset,
-            y: fragment.y + pageTopY,
-            height: fragment.height,
-            pageIndex,
-          };
+          return toCaretPosition(
+            page,
+            { x: fragment.x + xOffset, y: fragment.y, height: fragment.height, pageIndex },
+            pageTopY
+          );
         }
       }
     }
@@ -621,6 +675,22 @@ export function getCaretPosition(
   return null;
 }
 
+/**
+ * Move a caret from fragment coordinates into container space. On pages
+ * with vertical text the caret is rotated to run across the line.
+ */
+function toCaretPosition(page: Page, caret: CaretPosition, pageTopY: number): CaretPosition {
+  if (!page.textDirection) return { ...caret, y: caret.y + pageTopY };
+  const rect = toPageRect(page, { x: caret.x, y: caret.y, width: 0, height: caret.height });
+  return {
+    x: rect.x,
+    y: rect.y + pageTopY,
+    height: rect.width,
+    pageIndex: caret.pageIndex,
+    vertical: true,
+  };
+}
+
 /**
  * Check if a selection spans multiple pages.
  *
@@ -25,10 +25,13 @@ import type {
   ImageRun,
   LineBreakRun,
   FieldRun,
+  MathRun,
   RunFormatting,
   ParagraphAttrs,
+  ParagraphHyphenation,
 } from '../layout-engine/types';
 import { DEFAULT_TEXTBOX_MARGINS, DEFAULT_TEXTBOX_WIDTH } from '../layout-engine/types';
+import { toVerticalTextDirection } from '../layout-engine/text-direction';
 import type { ParagraphAttrs as PMParagraphAttrs } from '../prosemirror/schema/nodes';
 import type {
   TextColorAttrs,
@@ -37,6 +40,7 @@ import type {
   FontFamilyAttrs,
 } from '../prosemirror/schema/marks';
 import type { Theme, SectionProperties } from '../types/document';
+import type { TableStructuralChangeInfo } from '../types/content';
 import { resolveColor, resolveHighlightToCss } from '../utils/colorResolver';
 import { pointsToPixels } from '../utils/units';
 
@@ -52,6 +56,8 @@ export type ToFlowBlocksOptions = {
   theme?: Theme | null;
   /** Page content height in pixels (pageHeight - marginTop - marginBottom). Images taller than this are scaled down to fit. */
   pageContentHeight?: number;
+  /** Automatic hyphenation from the document settings; off when absent. */
+  hyphenation?: ParagraphHyphenation;
 };
 
 const DEFAULT_FONT = 'Calibri';
@@ -217,6 +223,7 @@ function extractRunFormatting(marks: readonly Mark[], theme?: Theme | null): Run
         formatting.changeAuthor = mark.attrs.author as string;
         formatting.changeDate = mark.attrs.date as string;
         formatting.changeRevisionId = mark.attrs.revisionId as number;
+        if (mark.attrs.moveName) formatting.moveName = mark.attrs.moveName as string;
         break;
 
       case 'deletion':
@@ -224,6 +231,12 @@ function extractRunFormatting(marks: readonly Mark[], theme?: Theme | null): Run
         formatting.changeAuthor = mark.attrs.author as string;
         formatting.changeDate = mark.attrs.date as string;
         formatting.changeRevisionId = mark.attrs.revisionId as number;
+        if (mark.attrs.moveName) formatting.moveName = mark.attrs.moveName as string;
+        break;
+
+      case 'formatChange':
+        formatting.isFormatChange = true;
+        formatting.formatChangeRevisionId = mark.attrs.revisionId as number;
         break;
     }
   }
@@ -238,6 +251,9 @@ function paragraphToRuns(node: PMNode, startPos: number, _options: ToFlowBlocksO
   const runs: Run[] = [];
   const offset = startPos + 1; // +1 for opening tag
   const theme = _options.theme;
+  // Equations without direct formatting use the paragraph's default size (half-points → points)
+  const defaultFontSizeHalfPts = (node.attrs as PMParagraphAttrs).defaultTextFormatting?.fontSize;
+  const paragraphFontSize = defaultFontSizeHalfPts != null ? defaultFontSizeHalfPts / 2 : undefined;
 
   node.forEach((child, childOffset) => {
     const childPos = offset + childOffset;
@@ -322,13 +338,15 @@ function paragraphToRuns(node: PMNode, startPos: number, _options: ToFlowBlocksO
       };
       runs.push(run);
     } else if (child.type.name === 'math') {
-      // Math node — render as plain text fallback in layout
-      const text = (child.attrs.plainText as string) || '[equation]';
-      const run: TextRun = {
-        kind: 'text',
-        text,
-        italic: true,
-        fontFamily: 'Cambria Math',
+      // Math node — laid out and painted by the math renderer from its OMML
+      const formatting = extractRunFormatting(child.marks, theme);
+      const run: MathRun = {
+        kind: 'math',
+        display: child.attrs.display === 'block' ? 'block' : 'inline',
+        ommlXml: (child.attrs.ommlXml as string) || '',
+        plainText: (child.attrs.plainText as string) || undefined,
+        fontSize: formatting.fontSize ?? paragraphFontSize,
+        color: formatting.color,
         pmStart: childPos,
         pmEnd: childPos + child.nodeSize,
       };
@@ -547,6 +565,9 @@ function convertParagraphAttrs(pmAttrs: PMParagraphAttrs, theme?: Theme | null):
   if (pmAttrs.keepLines) {
     attrs.keepLines = true;
   }
+  if (pmAttrs.widowControl === false) {
+    attrs.widowControl = false;
+  }
   if (pmAttrs.contextualSpacing) {
     attrs.contextualSpacing = true;
   }
@@ -636,6 +657,9 @@ function convertParagraph(
   const pmAttrs = node.attrs as PMParagraphAttrs;
   const runs = paragraphToRuns(node, startPos, options);
   const attrs = convertParagraphAttrs(pmAttrs, options.theme);
+  if (options.hyphenation && !pmAttrs.suppressAutoHyphens) {
+    attrs.hyphenation = options.hyphenation;
+  }
 
   return {
     kind: 'paragraph',
@@ -738,10 +762,35 @@ function extractCellBorders(
   return Object.keys(result).length > 0 ? result : undefined;
 }
 
+/**
+ * Tracked change fields of a table cell, from its own insertion or deletion
+ * or else its row's
+ */
+function tableCellChange(
+  cellChange: TableStructuralChangeInfo | null | undefined,
+  rowChange: TableStructuralChangeInfo | null | undefined
+): Partial<TableCell> | undefined {
+  const change = cellChange && cellChange.type !== 'tableCellMerge' ? cellChange : rowChange;
+  if (!change || change.type === 'tableCellMerge') return undefined;
+  const isInsertion = change.type === 'tableRowInsertion' || change.type === 'tableCellInsertion';
+  return {
+    isInsertion: isInsertion || undefined,
+    isDeletion: !isInsertion || undefined,
+    changeAuthor: change.info.author,
+    changeDate: change.info.date,
+    changeRevisionId: change.info.id,
+  };
+}
+
 /**
  * Convert a table cell node.
  */
-function convertTableCell(node: PMNode, startPos: number, options: ToFlowBlocksOptions): TableCell {
+function convertTableCell(
+  node: PMNode,
+  startPos: number,
+  options: ToFlowBlocksOptions,
+  rowChange?: TableStructuralChangeInfo | null
+): TableCell {
   const blocks: FlowBlock[] = [];
   let offset = startPos + 1; // +1 for opening tag
 
@@ -778,6 +827,8 @@ function convertTableCell(node: PMNode, startPos: number, options: ToFlowBlocksO
     background: attrs.backgroundColor ? `#${attrs.backgroundColor}` : undefined,
     borders: extractCellBorders(attrs as Record<string, unknown>, options.theme),
     padding,
+    textDirection: toVerticalTextDirection(attrs.textDirection as string | null),
+    ...tableCellChange(attrs.structuralChange as TableStructuralChangeInfo | null, rowChange),
   };
 }
 
@@ -790,7 +841,7 @@ function convertTableRow(node: PMNode, startPos: number, options: ToFlowBlocksOp
 
   node.forEach((child) => {
     if (child.type.name === 'tableCell' || child.type.name === 'tableHeader') {
-      cells.push(convertTableCell(child, offset, options));
+      cells.push(convertTableCell(child, offset, options, node.attrs.structuralChange));
     }
     offset += child.nodeSize;
   });
@@ -802,6 +853,7 @@ function convertTableRow(node: PMNode, startPos: number, options: ToFlowBlocksOp
     height: attrs.height ? twipsToPixels(attrs.height as number) : undefined,
     heightRule: (attrs.heightRule as 'auto' | 'atLeast' | 'exact') ?? undefined,
     isHeader: attrs.isHeader as boolean | undefined,
+    cantSplit: attrs.cantSplit as boolean | undefined,
   };
 }
 
@@ -973,6 +1025,7 @@ function convertTextBoxNode(
       left: (attrs.marginLeft as number) ?? DEFAULT_TEXTBOX_MARGINS.left,
       right: (attrs.marginRight as number) ?? DEFAULT_TEXTBOX_MARGINS.right,
     },
+    textDirection: toVerticalTextDirection(attrs.vert as string | null),
     content: contentBlocks,
     pmStart: startPos,
     pmEnd: startPos + node.nodeSize,
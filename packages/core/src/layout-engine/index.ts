@@ -17,6 +17,7 @@ import type {
   TableBlock,
   TableMeasure,
   TableFragment,
+  TableRowSlice,
   ImageBlock,
   ImageMeasure,
   ImageFragment,
@@ -31,8 +32,12 @@ import {
   computeKeepNextChains,
   calculateChainHeight,
   getMidChainIndices,
+  getMinLinesBeforeBreak,
   hasPageBreakBefore,
+  hasWidowControl,
 } from './keep-together';
+import { canSplitRow, getRemainingRowSlice, splitRow } from './table-rows';
+import { getLogicalMargins, getLogicalSize } from './text-direction';
 
 // Default page size (US Letter in pixels at 96 DPI)
 const DEFAULT_PAGE_SIZE = { w: 816, h: 1056 };
@@ -118,7 +123,7 @@ export function layoutDocument(
   }
 
   // Set up options with defaults
-  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const physicalPageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
   const baseMargins = {
     top: options.margins?.top ?? DEFAULT_MARGINS.top,
     right: options.margins?.right ?? DEFAULT_MARGINS.right,
@@ -137,7 +142,13 @@ export function layoutDocument(
   void options.titlePage;
   void options.evenAndOddHeaders;
 
-  const margins = { ...baseMargins };
+  // Vertical page bodies are laid out as horizontal text on the page turned
+  // a quarter; pages get their physical size and margins back at the end.
+  const textDirection = options.textDirection;
+  const pageSize = textDirection ? getLogicalSize(physicalPageSize) : physicalPageSize;
+  const margins = textDirection
+    ? getLogicalMargins(textDirection, baseMargins)
+    : { ...baseMargins };
 
   // Calculate content width
   const contentWidth = pageSize.w - margins.left - margins.right;
@@ -268,8 +279,16 @@ export function layoutDocument(
     paginator.getCurrentState();
   }
 
+  if (textDirection) {
+    for (const page of paginator.pages) {
+      page.size = { ...physicalPageSize };
+      page.margins = { ...baseMargins };
+      page.textDirection = textDirection;
+    }
+  }
+
   return {
-    pageSize,
+    pageSize: physicalPageSize,
     pages: paginator.pages,
     columns: options.columns,
     pageGap: options.pageGap,
@@ -346,6 +365,23 @@ function layoutParagraph(
       }
     }
 
+    // Keep lines together and avoid widows/orphans, unless the column is
+    // still empty (the lines couldn't fit anywhere else either)
+    const keptLines = adjustLinesBeforeBreak(block, lines.length, currentLineIndex, fittingLines);
+    if (keptLines !== fittingLines) {
+      if (keptLines === 0 && state.cursorY !== state.topMargin) {
+        paginator.forceColumnBreak();
+        continue;
+      }
+      if (keptLines > 0) {
+        fittingLines = keptLines;
+        linesHeight = 0;
+        for (let j = currentLineIndex; j < currentLineIndex + fittingLines; j++) {
+          linesHeight += lines[j].lineHeight;
+        }
+      }
+    }
+
     // Create fragment for these lines
     const isFirstFragment = currentLineIndex === 0;
     const isLastFragment = currentLineIndex + fittingLines >= lines.length;
@@ -384,6 +420,27 @@ function layoutParagraph(
   }
 }
 
+/**
+ * Number of lines to place before a break inside a paragraph, given how many
+ * fit. Returns 0 when the lines from `fromLine` on should move to the next
+ * column or page instead: keepLines and orphan control move the whole
+ * paragraph, widow control pulls a line along so no single line is left over.
+ */
+function adjustLinesBeforeBreak(
+  block: ParagraphBlock,
+  lineCount: number,
+  fromLine: number,
+  fittingLines: number
+): number {
+  const remaining = lineCount - fromLine;
+  if (fittingLines >= remaining) return fittingLines;
+
+  const minLines = fromLine === 0 ? getMinLinesBeforeBreak(block, lineCount) : 1;
+  let lines = fittingLines;
+  if (hasWidowControl(block) && remaining - lines === 1) lines--;
+  return lines < minLines ? 0 : lines;
+}
+
 /**
  * Count consecutive header rows at the start of a table.
  * Header rows are marked with isHeader: true in the block data.
@@ -413,6 +470,10 @@ export function getHeaderRowsHeight(measure: TableMeasure, headerRowCount: numbe
 
 /**
  * Layout a table block onto pages.
+ *
+ * Tables break between rows; a row that does not fit is split at line
+ * boundaries inside its cells unless it must stay whole (see canSplitRow).
+ * Header rows repeat at the top of every continuation fragment.
  */
 function layoutTable(
   block: TableBlock,
@@ -433,11 +494,14 @@ function layoutTable(
   const headerRowsHeight = getHeaderRowsHeight(measure, headerRowCount);
 
   let currentRowIndex = 0;
+  // Line units each cell of the current row resumes from, when the row was
+  // split on the previous page
+  let resumeLines: number[] | null = null;
 
   while (currentRowIndex < rows.length) {
     const state = paginator.getCurrentState();
     const rawAvailableHeight = paginator.getAvailableHeight();
-    const isFirstFragment = currentRowIndex === 0;
+    const isFirstFragment = currentRowIndex === 0 && !resumeLines;
 
     // Account for trailing spacing from previous block that addFragment will consume.
     // addFragment computes effectiveSpaceBefore = max(spaceBefore, trailingSpacing)
@@ -452,24 +516,54 @@ function layoutTable(
     // Calculate how many rows fit (excluding header rows which are prepended separately)
     let rowsHeight = 0;
     let fittingRows = 0;
+    const rowSlices: TableRowSlice[] = [];
+    let splitLines: number[] | null = null;
 
     for (let j = currentRowIndex; j < rows.length; j++) {
-      const rowHeight = rows[j].height;
-      const totalWithRow = rowsHeight + rowHeight + headerOverhead;
+      const fromLines: number[] | null = j === currentRowIndex ? resumeLines : null;
+      const remainder = fromLines ? getRemainingRowSlice(block, rows[j], j, fromLines) : null;
+      const rowHeight = remainder ? remainder.height : rows[j].height;
+      const spaceLeft: number = availableHeight - headerOverhead - rowsHeight;
 
-      if (totalWithRow <= availableHeight || fittingRows === 0) {
+      if (rowHeight <= spaceLeft) {
+        if (remainder) rowSlices.push(remainder);
+        rowsHeight += rowHeight;
+        fittingRows++;
+        continue;
+      }
+
+      // Break the row at line boundaries inside its cells
+      const slice: TableRowSlice | null = canSplitRow(block, j)
+        ? splitRow(block, rows[j], j, fromLines ?? rows[j].cells.map(() => 0), spaceLeft)
+        : null;
+      if (slice) {
+        rowSlices.push(slice);
+        rowsHeight += slice.height;
+        fittingRows++;
+        splitLines = slice.toLines;
+      } else if (fittingRows === 0) {
+        if (canSplitRow(block, j) && state.cursorY !== state.topMargin) {
+          // Not even one line fits here; start the row on the next page
+          break;
+        }
+        // Rows that must stay whole are placed anyway
+        if (remainder) rowSlices.push(remainder);
         rowsHeight += rowHeight;
         fittingRows++;
-      } else {
-        break;
       }
+      break;
+    }
+
+    if (fittingRows === 0) {
+      paginator.forceColumnBreak();
+      continue;
     }
 
     // Total fragment height includes header rows for continuation fragments
     const fragmentHeight = rowsHeight + headerOverhead;
 
     // Create fragment for these rows
-    const isLastFragment = currentRowIndex + fittingRows >= rows.length;
+    const isLastFragment = currentRowIndex + fittingRows >= rows.length && !splitLines;
 
     // Calculate x position based on table justification and indent
     let desiredX = paginator.getColumnX(state.columnIndex);
@@ -496,12 +590,24 @@ function layoutTable(
       continuesOnNext: !isLastFragment,
       headerRowCount: !isFirstFragment && headerRowCount > 0 ? headerRowCount : undefined,
     };
+    if (rowSlices.length > 0) {
+      fragment.rowSlices = rowSlices;
+    }
 
     const result = paginator.addFragment(fragment, fragmentHeight, 0, 0);
     fragment.y = result.y;
     fragment.x = desiredX;
 
+    if (splitLines) {
+      // The split row continues at the top of the next column/page
+      currentRowIndex += fittingRows - 1;
+      resumeLines = splitLines;
+      paginator.forceColumnBreak();
+      continue;
+    }
+
     currentRowIndex += fittingRows;
+    resumeLines = null;
 
     // If more rows remain, advance to next column/page
     if (currentRowIndex < rows.length) {
@@ -515,6 +621,7 @@ function layoutTable(
 
 /**
  * Layout a floating table (anchored) without advancing the cursor.
+ * Floating tables (w:tblpPr) are positioned as a whole and never split.
  */
 function layoutFloatingTable(
   block: TableBlock,
@@ -769,6 +876,15 @@ export {
   hasPageBreakBefore,
 } from './keep-together';
 export type { KeepNextChain } from './keep-together';
+export {
+  canSplitRow,
+  getCellBlockRanges,
+  getCellLineHeights,
+  getCellLineOffset,
+  getFragmentRowHeight,
+  getRowSlice,
+} from './table-rows';
+export type { CellBlockRange } from './table-rows';
 export {
   scheduleSectionBreak,
   applyPendingToActive,
@@ -778,3 +894,13 @@ export {
   getEffectiveColumns,
 } from './section-breaks';
 export type { SectionState, BreakDecision } from './section-breaks';
+export {
+  toVerticalTextDirection,
+  getLogicalSize,
+  getLogicalMargins,
+  getVerticalMatrix,
+  getVerticalTransform,
+  toLogicalPoint,
+  toPhysicalRect,
+} from './text-direction';
+export type { BoxSize } from './text-direction';
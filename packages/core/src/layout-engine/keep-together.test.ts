@@ -0,0 +1,111 @@
+/**
+ * Tests for widow/orphan control and keep-lines-together pagination
+ *
+ * Pages hold 36 lines of 24px (864px content area). Paragraphs are given as
+ * line counts, and the expected breaks follow the pagination rules of
+ * ECMA-376 (§17.3.1.14, §17.3.1.15, §17.3.1.44): two lines at least on each
+ * side of a break with widow control (the default), all lines together with
+ * keepLines, and a keepNext paragraph following its anchor's first lines.
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { PAGE, paragraph, paragraphMeasure } from '../../test/layoutFixtures';
+import { layoutDocument } from './index';
+import type { FlowBlock, Layout, ParagraphAttrs } from './types';
+
+/** Lay out paragraphs given as [line count, attrs]; block IDs are their indices */
+function layout(paragraphs: [number, ParagraphAttrs?][]): Layout {
+  const blocks: FlowBlock[] = paragraphs.map(([lineCount, attrs], i) =>
+    paragraph(String(i), lineCount, i * 100, attrs)
+  );
+  const measures = paragraphs.map(([lineCount]) => paragraphMeasure(lineCount));
+  return layoutDocument(blocks, measures, {
+    pageSize: PAGE,
+    margins: { top: 96, right: 96, bottom: 96, left: 96 },
+  });
+}
+
+/** Lines of a paragraph on each page, e.g. [[1, 2], [2, 2]] */
+function linesPerPage(result: Layout, blockId: number): [number, number][] {
+  const placed: [number, number][] = [];
+  for (const page of result.pages) {
+    for (const fragment of page.fragments) {
+      if (fragment.kind === 'paragraph' && fragment.blockId === String(blockId)) {
+        placed.push([page.number, fragment.toLine - fragment.fromLine]);
+      }
+    }
+  }
+  return placed;
+}
+
+describe('widow/orphan control', () => {
+  test('a break leaving two lines on each side is kept', () => {
+    expect(linesPerPage(layout([[34], [4]]), 1)).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  test('a single first line (orphan) moves to the next page', () => {
+    expect(linesPerPage(layout([[35], [4]]), 1)).toEqual([[2, 4]]);
+  });
+
+  test('a single last line (widow) takes a line along', () => {
+    expect(linesPerPage(layout([[32], [5]]), 1)).toEqual([
+      [1, 3],
+      [2, 2],
+    ]);
+  });
+
+  test('paragraphs of three lines or less never break', () => {
+    expect(linesPerPage(layout([[34], [3]]), 1)).toEqual([[2, 3]]);
+  });
+
+  test('widows are also avoided after the paragraph continues over pages', () => {
+    // 36 lines on page 1, 36 on page 2 would leave 1 for page 3
+    expect(linesPerPage(layout([[73]]), 0)).toEqual([
+      [1, 36],
+      [2, 35],
+      [3, 2],
+    ]);
+  });
+
+  test('widowControl off splits at the last fitting line', () => {
+    const result = layout([[35], [4, { widowControl: false }]]);
+    expect(linesPerPage(result, 1)).toEqual([
+      [1, 1],
+      [2, 3],
+    ]);
+  });
+});
+
+describe('keepLines', () => {
+  test('a paragraph that does not fit moves to the next page whole', () => {
+    expect(linesPerPage(layout([[30], [8, { keepLines: true }]]), 1)).toEqual([[2, 8]]);
+  });
+
+  test('a paragraph longer than a page still breaks', () => {
+    expect(linesPerPage(layout([[10], [40, { keepLines: true }]]), 1)).toEqual([
+      [2, 36],
+      [3, 4],
+    ]);
+  });
+});
+
+describe('keepNext with widow/orphan control', () => {
+  test('a heading moves along when only one line of its paragraph would follow it', () => {
+    const result = layout([[34], [1, { keepNext: true }], [6]]);
+    expect(linesPerPage(result, 1)).toEqual([[2, 1]]);
+    expect(linesPerPage(result, 2)).toEqual([[2, 6]]);
+  });
+
+  test('a heading stays when two lines of its paragraph fit below it', () => {
+    const result = layout([[33], [1, { keepNext: true }], [6]]);
+    expect(linesPerPage(result, 1)).toEqual([[1, 1]]);
+    expect(linesPerPage(result, 2)).toEqual([
+      [1, 2],
+      [2, 4],
+    ]);
+  });
+});
@@ -1,8 +1,9 @@
 /**
- * Keep Together Logic - Handle keepNext and keepLines paragraph properties
+ * Keep Together Logic - Handle keepNext, keepLines and widowControl paragraph properties
  *
  * DOCX paragraphs can have keepNext (keep with next paragraph) and keepLines
- * (keep all lines together) properties that affect pagination.
+ * (keep all lines together) properties that affect pagination. Widow/orphan
+ * control keeps at least two lines of a paragraph on each side of a break.
  */
 
 import type { FlowBlock, ParagraphBlock, Measure, ParagraphMeasure } from './types';
@@ -141,14 +142,15 @@ export function calculateChainHeight(
     totalHeight += spacingAfter;
   }
 
-  // Add first line height of anchor (if any)
+  // Add the anchor lines that can't be separated from its first line (if any)
   if (chain.anchorIndex !== -1) {
+    const anchorBlock = blocks[chain.anchorIndex];
     const anchorMeasure = measures[chain.anchorIndex];
     if (anchorMeasure?.kind === 'paragraph') {
       const anchorPara = anchorMeasure as ParagraphMeasure;
-      if (anchorPara.lines.length > 0) {
-        // Add just the first line height
-        totalHeight += anchorPara.lines[0].lineHeight;
+      const leadingLines = getMinLinesBeforeBreak(anchorBlock, anchorPara.lines.length);
+      for (let i = 0; i < leadingLines; i++) {
+        totalHeight += anchorPara.lines[i].lineHeight;
       }
     }
   }
@@ -182,6 +184,28 @@ export function hasKeepLines(block: FlowBlock): boolean {
   return para.attrs?.keepLines === true;
 }
 
+/**
+ * Check if a paragraph has widow/orphan control. Word turns it on by default,
+ * so only an explicit false turns it off.
+ */
+export function hasWidowControl(block: FlowBlock): boolean {
+  if (block.kind !== 'paragraph') return false;
+  const para = block as ParagraphBlock;
+  return para.attrs?.widowControl !== false;
+}
+
+/**
+ * Number of lines a paragraph must place before its first break.
+ *
+ * keepLines keeps every line together; widow/orphan control needs two lines
+ * on each side, so paragraphs of up to three lines can't break at all.
+ */
+export function getMinLinesBeforeBreak(block: FlowBlock, lineCount: number): number {
+  if (hasKeepLines(block)) return lineCount;
+  if (hasWidowControl(block)) return lineCount <= 3 ? lineCount : 2;
+  return Math.min(1, lineCount);
+}
+
 /**
  * Check if a paragraph should start on a new page (pageBreakBefore).
  */
@@ -0,0 +1,155 @@
+/**
+ * Tests for splitting table rows across pages
+ *
+ * Pages hold 36 lines of 24px (864px content area). Cells have no padding so
+ * row heights are plain line counts.
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { hitTestTableCell } from '../layout-bridge/hitTest';
+import { layoutDocument } from './index';
+import { LINE, PAGE, paragraph, paragraphMeasure } from '../../test/layoutFixtures';
+import type {
+  FlowBlock,
+  Layout,
+  Measure,
+  TableBlock,
+  TableFragment,
+  TableMeasure,
+  TableRow,
+} from './types';
+
+type RowSpec = { cells: number[] } & Partial<Pick<TableRow, 'isHeader' | 'cantSplit'>>;
+
+/** A table whose cells hold one paragraph of the given line count each */
+function table(rows: RowSpec[], floating = false): [TableBlock, TableMeasure] {
+  let pos = 1000;
+  const block: TableBlock = {
+    kind: 'table',
+    id: 'table',
+    rows: rows.map(({ cells, ...attrs }, r) => ({
+      id: `row-${r}`,
+      ...attrs,
+      cells: cells.map((lineCount, c) => {
+        const cell = { id: `cell-${r}-${c}`, blocks: [paragraph(`p-${r}-${c}`, lineCount, pos)] };
+        pos += lineCount + 10;
+        return cell;
+      }),
+    })),
+    floating: floating ? { tblpY: 0 } : undefined,
+  };
+  const measure: TableMeasure = {
+    kind: 'table',
+    rows: rows.map(({ cells }) => ({
+      cells: cells.map((lineCount) => ({
+        blocks: [paragraphMeasure(lineCount)],
+        width: 200,
+        height: lineCount * LINE,
+      })),
+      height: Math.max(...cells) * LINE,
+    })),
+    columnWidths: rows[0].cells.map(() => 200),
+    totalWidth: rows[0].cells.length * 200,
+    totalHeight: rows.reduce((sum, { cells }) => sum + Math.max(...cells) * LINE, 0),
+  };
+  return [block, measure];
+}
+
+/** Lay out a paragraph of the given line count followed by a table */
+function layout(leadingLines: number, rows: RowSpec[], floating = false) {
+  const [tableBlock, tableMeasure] = table(rows, floating);
+  const blocks: FlowBlock[] = [paragraph('lead', leadingLines), tableBlock];
+  const measures: Measure[] = [paragraphMeasure(leadingLines), tableMeasure];
+  const result = layoutDocument(blocks, measures, {
+    pageSize: PAGE,
+    margins: { top: 96, right: 96, bottom: 96, left: 96 },
+  });
+  return { result, blocks, measures };
+}
+
+function tableFragments(result: Layout): [number, TableFragment][] {
+  const placed: [number, TableFragment][] = [];
+  for (const page of result.pages) {
+    for (const fragment of page.fragments) {
+      if (fragment.kind === 'table') placed.push([page.number, fragment]);
+    }
+  }
+  return placed;
+}
+
+describe('table row splitting', () => {
+  test('a row that does not fit is split at line boundaries in each cell', () => {
+    const [[page1, first], [page2, second]] = tableFragments(
+      layout(30, [{ cells: [10, 4] }]).result
+    );
+
+    expect(page1).toBe(1);
+    expect(first.height).toBe(6 * LINE);
+    expect(first.continuesOnNext).toBe(true);
+    expect(first.rowSlices).toEqual([
+      { rowIndex: 0, fromLines: [0, 0], toLines: [6, 4], height: 6 * LINE },
+    ]);
+
+    expect(page2).toBe(2);
+    expect(second.fromRow).toBe(0);
+    expect(second.continuesFromPrev).toBe(true);
+    expect(second.continuesOnNext).toBe(false);
+    expect(second.rowSlices).toEqual([
+      { rowIndex: 0, fromLines: [6, 4], toLines: [10, 4], height: 4 * LINE },
+    ]);
+  });
+
+  test('a row longer than a page continues over several pages', () => {
+    const fragments = tableFragments(layout(1, [{ cells: [80] }, { cells: [2] }]).result);
+    expect(fragments.map(([page, f]) => [page, f.fromRow, f.toRow, f.height / LINE])).toEqual([
+      [1, 0, 1, 35],
+      [2, 0, 1, 36],
+      [3, 0, 2, 11],
+    ]);
+    expect(fragments[2][1].rowSlices).toEqual([
+      { rowIndex: 0, fromLines: [71], toLines: [80], height: 9 * LINE },
+    ]);
+  });
+
+  test('rows with cantSplit move to the next page whole', () => {
+    const fragments = tableFragments(layout(30, [{ cells: [10, 4], cantSplit: true }]).result);
+    expect(fragments).toHaveLength(1);
+    expect(fragments[0][0]).toBe(2);
+    expect(fragments[0][1].rowSlices).toBeUndefined();
+  });
+
+  test('header rows repeat above the continued part of a split row', () => {
+    const [[, first], [, second]] = tableFragments(
+      layout(20, [{ cells: [1], isHeader: true }, { cells: [30] }]).result
+    );
+    expect(first.rowSlices?.[0].toLines).toEqual([15]);
+    expect(second.headerRowCount).toBe(1);
+    expect(second.height).toBe(LINE + 15 * LINE);
+    expect(second.rowSlices?.[0]).toMatchObject({ rowIndex: 1, fromLines: [15], toLines: [30] });
+  });
+
+  test('floating tables are not split', () => {
+    const fragments = tableFragments(layout(30, [{ cells: [10] }], true).result);
+    expect(fragments).toHaveLength(1);
+    expect(fragments[0][1].isFloating).toBe(true);
+    expect(fragments[0][1].rowSlices).toBeUndefined();
+  });
+});
+
+describe('split rows in hit testing', () => {
+  test('clicks on a continued row map into the cell content after the break', () => {
+    const { result, blocks, measures } = layout(30, [{ cells: [10, 4] }]);
+    const page = result.pages[1];
+    const fragment = page.fragments.find((f) => f.kind === 'table')!;
+
+    const hit = hitTestTableCell({ pageIndex: 1, page, pageY: 0 }, blocks, measures, {
+      x: fragment.x + 10,
+      y: fragment.y + LINE + 5,
+    });
+    expect(hit?.rowIndex).toBe(0);
+    expect(hit?.colIndex).toBe(0);
+    // Six lines of the cell were placed on the previous page
+    expect(hit?.cellLocalY).toBe(7 * LINE + 5);
+  });
+});
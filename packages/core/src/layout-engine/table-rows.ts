@@ -0,0 +1,202 @@
+/**
+ * Table Row Splitting - Break table rows across pages at line boundaries
+ *
+ * A row that does not fit on the page is split inside its cells, the way
+ * Word does unless the row has w:cantSplit. Cell content is addressed as a
+ * list of line units: every line of a cell paragraph, and every nested table
+ * as a whole. Paragraph spacing is folded into its first and last line so the
+ * units of a cell add up to the measured cell content height.
+ */
+
+import type {
+  TableBlock,
+  TableCell,
+  TableCellMeasure,
+  TableFragment,
+  TableMeasure,
+  TableRowMeasure,
+  TableRowSlice,
+} from './types';
+
+/**
+ * Visible part of a cell block within a line unit range.
+ */
+export type CellBlockRange = {
+  /** First line (inclusive); 0 for nested tables. */
+  fromLine: number;
+  /** Last line (exclusive); 1 for nested tables. */
+  toLine: number;
+};
+
+/**
+ * Padding the measurer adds above and below cell content.
+ */
+function getCellPaddingY(cell: TableCell | undefined): number {
+  return (cell?.padding?.top ?? 0) + (cell?.padding?.bottom ?? 0);
+}
+
+/**
+ * Number of line units a measured cell block takes.
+ */
+function getUnitCount(measure: TableCellMeasure['blocks'][number]): number {
+  if (measure.kind === 'paragraph') return Math.max(1, measure.lines.length);
+  return measure.kind === 'table' ? 1 : 0;
+}
+
+/**
+ * Heights of the line units of a cell.
+ */
+export function getCellLineHeights(cell: TableCell, cellMeasure: TableCellMeasure): number[] {
+  const heights: number[] = [];
+  for (let i = 0; i < cellMeasure.blocks.length; i++) {
+    const measure = cellMeasure.blocks[i];
+    if (measure.kind === 'table') {
+      heights.push(measure.totalHeight);
+    } else if (measure.kind === 'paragraph') {
+      if (measure.lines.length === 0) {
+        heights.push(measure.totalHeight);
+        continue;
+      }
+      const block = cell.blocks[i];
+      const before = block?.kind === 'paragraph' ? (block.attrs?.spacing?.before ?? 0) : 0;
+      const linesHeight = measure.lines.reduce((sum, line) => sum + line.lineHeight, 0);
+      const start = heights.length;
+      for (const line of measure.lines) heights.push(line.lineHeight);
+      heights[start] += before;
+      heights[heights.length - 1] += measure.totalHeight - linesHeight - before;
+    }
+  }
+  return heights;
+}
+
+/**
+ * Height of the line units of a cell before the given unit.
+ */
+export function getCellLineOffset(
+  cell: TableCell,
+  cellMeasure: TableCellMeasure,
+  fromLine: number
+): number {
+  if (fromLine <= 0) return 0;
+  const heights = getCellLineHeights(cell, cellMeasure);
+  let offset = 0;
+  for (let i = 0; i < fromLine && i < heights.length; i++) offset += heights[i];
+  return offset;
+}
+
+/**
+ * Map a line unit range of a cell onto its blocks. Blocks outside the range
+ * map to null.
+ */
+export function getCellBlockRanges(
+  cellMeasure: TableCellMeasure,
+  fromLine: number,
+  toLine: number
+): (CellBlockRange | null)[] {
+  let unit = 0;
+  return cellMeasure.blocks.map((measure) => {
+    const count = getUnitCount(measure);
+    const from = Math.max(fromLine, unit) - unit;
+    const to = Math.min(toLine, unit + count) - unit;
+    unit += count;
+    return from < to ? { fromLine: from, toLine: to } : null;
+  });
+}
+
+/**
+ * Whether a row may be split across pages.
+ *
+ * Rows with w:cantSplit, header rows, rows with an exact height, rows with
+ * vertical text and rows taking part in a vertical merge are kept whole.
+ */
+export function canSplitRow(block: TableBlock, rowIndex: number): boolean {
+  const row = block.rows[rowIndex];
+  if (!row || row.cantSplit || row.isHeader || row.heightRule === 'exact') return false;
+  if (row.cells.some((cell) => cell.textDirection)) return false;
+  for (let r = 0; r <= rowIndex; r++) {
+    for (const cell of block.rows[r].cells) {
+      if ((cell.rowSpan ?? 1) > 1 && r + (cell.rowSpan ?? 1) > rowIndex) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Part of a row from the given per-cell line units to the end of the row.
+ */
+export function getRemainingRowSlice(
+  block: TableBlock,
+  rowMeasure: TableRowMeasure,
+  rowIndex: number,
+  fromLines: number[]
+): TableRowSlice {
+  const cells = block.rows[rowIndex].cells;
+  const toLines: number[] = [];
+  let height = 0;
+  rowMeasure.cells.forEach((cellMeasure, i) => {
+    const heights = getCellLineHeights(cells[i], cellMeasure);
+    const from = fromLines[i] ?? 0;
+    let cellHeight = getCellPaddingY(cells[i]);
+    for (let u = from; u < heights.length; u++) cellHeight += heights[u];
+    toLines.push(heights.length);
+    height = Math.max(height, cellHeight);
+  });
+  return { rowIndex, fromLines: [...fromLines], toLines, height };
+}
+
+/**
+ * Split a row so that its first part fits in the available height.
+ *
+ * Every cell takes as many of its remaining lines as fit. Returns null when
+ * no cell can place a line, or when nothing would be left for the next page.
+ */
+export function splitRow(
+  block: TableBlock,
+  rowMeasure: TableRowMeasure,
+  rowIndex: number,
+  fromLines: number[],
+  availableHeight: number
+): TableRowSlice | null {
+  const cells = block.rows[rowIndex].cells;
+  const toLines: number[] = [];
+  let height = 0;
+  let progress = false;
+  let remaining = false;
+
+  rowMeasure.cells.forEach((cellMeasure, i) => {
+    const heights = getCellLineHeights(cells[i], cellMeasure);
+    const from = fromLines[i] ?? 0;
+    let cellHeight = getCellPaddingY(cells[i]);
+    let to = from;
+    while (to < heights.length && cellHeight + heights[to] <= availableHeight) {
+      cellHeight += heights[to];
+      to++;
+    }
+    if (to > from) progress = true;
+    if (to < heights.length) remaining = true;
+    toLines.push(to);
+    height = Math.max(height, cellHeight);
+  });
+
+  if (!progress || !remaining) return null;
+  return { rowIndex, fromLines: [...fromLines], toLines, height };
+}
+
+/**
+ * Slice of a row shown in a fragment, if the row is split.
+ */
+export function getRowSlice(fragment: TableFragment, rowIndex: number): TableRowSlice | undefined {
+  return fragment.rowSlices?.find((slice) => slice.rowIndex === rowIndex);
+}
+
+/**
+ * Height a row takes in a fragment: its slice height when split, otherwise
+ * the measured row height.
+ */
+export function getFragmentRowHeight(
+  fragment: TableFragment,
+  measure: TableMeasure,
+  rowIndex: number
+): number {
+  return getRowSlice(fragment, rowIndex)?.height ?? measure.rows[rowIndex]?.height ?? 0;
+}
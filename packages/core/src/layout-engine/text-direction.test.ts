@@ -0,0 +1,140 @@
+/**
+ * Tests for vertical text geometry and vertical page layout
+ */
+
+import { describe, expect, test } from 'bun:test';
+
+import { hitTestFragment, hitTestTableCell } from '../layout-bridge/hitTest';
+import { layoutDocument } from './index';
+import { canSplitRow } from './table-rows';
+import {
+  getLogicalMargins,
+  getLogicalSize,
+  toLogicalPoint,
+  toPhysicalRect,
+  toVerticalTextDirection,
+} from './text-direction';
+import { LINE, PAGE, paragraph, paragraphMeasure } from '../../test/layoutFixtures';
+import type { FlowBlock, Measure, TableBlock, TableMeasure } from './types';
+
+const MARGINS = { top: 96, right: 72, bottom: 48, left: 24 };
+
+describe('toVerticalTextDirection', () => {
+  test('maps cell, section and text box values to a vertical flow', () => {
+    expect(toVerticalTextDirection('tbRl')).toBe('tbRl');
+    expect(toVerticalTextDirection('tbRlV')).toBe('tbRl');
+    expect(toVerticalTextDirection('eaVert')).toBe('tbRl');
+    expect(toVerticalTextDirection('btLr')).toBe('btLr');
+    expect(toVerticalTextDirection('vert270')).toBe('btLr');
+  });
+
+  test('horizontal values map to undefined', () => {
+    expect(toVerticalTextDirection('lrTb')).toBeUndefined();
+    expect(toVerticalTextDirection('horz')).toBeUndefined();
+    expect(toVerticalTextDirection(null)).toBeUndefined();
+  });
+});
+
+describe('vertical geometry', () => {
+  test('logical margins start lines at the top for tbRl and at the bottom for btLr', () => {
+    expect(getLogicalMargins('tbRl', MARGINS)).toEqual({
+      top: 72,
+      right: 48,
+      bottom: 24,
+      left: 96,
+    });
+    expect(getLogicalMargins('btLr', MARGINS)).toEqual({
+      top: 24,
+      right: 96,
+      bottom: 72,
+      left: 48,
+    });
+  });
+
+  test('points map into the logical box where rects map back out', () => {
+    const logical = getLogicalSize(PAGE);
+    for (const direction of ['tbRl', 'btLr'] as const) {
+      const rect = toPhysicalRect(direction, { x: 100, y: 30, width: 0, height: 0 }, logical);
+      expect(toLogicalPoint(direction, rect, logical)).toEqual({ x: 100, y: 30 });
+    }
+    // The first line of tbRl text sits at the right edge, running down
+    expect(toPhysicalRect('tbRl', { x: 0, y: 0, width: 200, height: LINE }, logical)).toEqual({
+      x: PAGE.w - LINE,
+      y: 0,
+      width: LINE,
+      height: 200,
+    });
+  });
+});
+
+describe('vertical page layout', () => {
+  const blocks: FlowBlock[] = [paragraph('p', 3)];
+  const measures: Measure[] = [paragraphMeasure(3)];
+  const layout = layoutDocument(blocks, measures, {
+    pageSize: PAGE,
+    margins: MARGINS,
+    textDirection: 'tbRl',
+  });
+
+  test('pages keep their physical size and fragments use the logical box', () => {
+    const [page] = layout.pages;
+    expect(layout.pageSize).toEqual(PAGE);
+    expect(page.size).toEqual(PAGE);
+    expect(page.margins).toMatchObject(MARGINS);
+    expect(page.textDirection).toBe('tbRl');
+
+    const [fragment] = page.fragments;
+    expect(fragment.x).toBe(96);
+    expect(fragment.y).toBe(72);
+    expect(fragment.width).toBe(PAGE.h - 96 - 48);
+  });
+
+  test('clicks on the page map into the rotated fragments', () => {
+    const [page] = layout.pages;
+    // Second line, 10px along it: x counts from the right page edge
+    const hit = hitTestFragment({ pageIndex: 0, page, pageY: 0 }, blocks, measures, {
+      x: PAGE.w - 72 - LINE - 5,
+      y: 96 + 10,
+    });
+    expect(hit?.localX).toBe(10);
+    expect(hit?.localY).toBe(LINE + 5);
+  });
+});
+
+describe('vertical table cells', () => {
+  const cellBlock = paragraph('cell-p', 2);
+  const block: TableBlock = {
+    kind: 'table',
+    id: 'table',
+    rows: [{ id: 'row', cells: [{ id: 'cell', blocks: [cellBlock], textDirection: 'btLr' }] }],
+  };
+  const measure: TableMeasure = {
+    kind: 'table',
+    rows: [
+      {
+        cells: [{ blocks: [paragraphMeasure(2)], width: 2 * LINE, height: 100 }],
+        height: 100,
+      },
+    ],
+    columnWidths: [2 * LINE],
+    totalWidth: 2 * LINE,
+    totalHeight: 100,
+  };
+
+  test('rows with vertical text are kept whole', () => {
+    expect(canSplitRow(block, 0)).toBe(false);
+  });
+
+  test('clicks map into the rotated cell content', () => {
+    const layout = layoutDocument([block], [measure], { pageSize: PAGE, margins: MARGINS });
+    const [page] = layout.pages;
+    const [fragment] = page.fragments;
+    // btLr lines run upwards from the bottom, the first one at the left
+    const hit = hitTestTableCell({ pageIndex: 0, page, pageY: 0 }, [block], [measure], {
+      x: fragment.x + LINE + 4,
+      y: fragment.y + 100 - 30,
+    });
+    expect(hit?.cellLocalX).toBe(30);
+    expect(hit?.cellLocalY).toBe(LINE + 4);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Text Direction - Geometry for vertical text flow
+ *
+ * Vertical content (table cells, text boxes and whole page bodies with
+ * w:textDirection or a:bodyPr/@vert) is measured and laid out as ordinary
+ * horizontal text in a logical box whose width and height are swapped. The
+ * painters then rotate that box into place, and hit testing maps points
+ * back into it.
+ *
+ * - tbRl: logical x runs down the page, logical y runs right to left
+ * - btLr: logical x runs up the page, logical y runs left to right
+ */
+
+import type { PageMargins, VerticalTextDirection } from './types';
+
+/**
+ * Width and height of a box.
+ */
+export type BoxSize = { w: number; h: number };
+
+/**
+ * Map a text direction value to the vertical flow it produces.
+ *
+ * Accepts w:textDirection values of cells and sections (tbRl, btLr and the
+ * transitional lr/tb names) and a:bodyPr/@vert values of text boxes.
+ * Returns undefined for horizontal text.
+ */
+export function toVerticalTextDirection(
+  value: string | null | undefined
+): VerticalTextDirection | undefined {
+  switch (value) {
+    case 'tbRl':
+    case 'tbRlV':
+    case 'tbLrV':
+    case 'rl':
+    case 'rlV':
+    case 'vert':
+    case 'eaVert':
+    case 'wordArtVert':
+    case 'wordArtVertRtl':
+    case 'mongolianVert':
+      return 'tbRl';
+    case 'btLr':
+    case 'lr':
+    case 'lrV':
+    case 'vert270':
+      return 'btLr';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Size of the logical (horizontal) box for a physical box.
+ */
+export function getLogicalSize(size: BoxSize): BoxSize {
+  return { w: size.h, h: size.w };
+}
+
+/**
+ * Page margins as seen from the logical box: the edge where lines start
+ * becomes the left margin and the edge where the first line sits the top.
+ */
+export function getLogicalMargins(
+  direction: VerticalTextDirection,
+  margins: PageMargins
+): PageMargins {
+  const { top, right, bottom, left } = margins;
+  const logical =
+    direction === 'tbRl'
+      ? { top: right, right: bottom, bottom: left, left: top }
+      : { top: left, right: top, bottom: right, left: bottom };
+  return { ...margins, ...logical };
+}
+
+/**
+ * Affine matrix [a, b, c, d, e, f] that maps logical coordinates into the
+ * physical box: x' = a*x + c*y + e, y' = b*x + d*y + f. The same values
+ * work for CSS matrix() with transform-origin 0 0 and for the PDF cm
+ * operator on a y-down canvas.
+ */
+export function getVerticalMatrix(
+  direction: VerticalTextDirection,
+  logicalSize: BoxSize
+): [number, number, number, number, number, number] {
+  return direction === 'tbRl' ? [0, 1, -1, 0, logicalSize.h, 0] : [0, -1, 1, 0, 0, logicalSize.w];
+}
+
+/**
+ * CSS transform that rotates a logical box of the given size into place.
+ * Use with transform-origin: 0 0.
+ */
+export function getVerticalTransform(
+  direction: VerticalTextDirection,
+  logicalSize: BoxSize
+): string {
+  return `matrix(${getVerticalMatrix(direction, logicalSize).join(', ')})`;
+}
+
+/**
+ * Map a point in the physical box to the logical box.
+ */
+export function toLogicalPoint(
+  direction: VerticalTextDirection,
+  point: { x: number; y: number },
+  logicalSize: BoxSize
+): { x: number; y: number } {
+  return direction === 'tbRl'
+    ? { x: point.y, y: logicalSize.h - point.x }
+    : { x: logicalSize.w - point.y, y: point.x };
+}
+
+/**
+ * Map a rectangle in the logical box to the physical box.
+ */
+export function toPhysicalRect(
+  direction: VerticalTextDirection,
+  rect: { x: number; y: number; width: number; height: number },
+  logicalSize: BoxSize
+): { x: number; y: number; width: number; height: number } {
+  return direction === 'tbRl'
+    ? {
+        x: logicalSize.h - rect.y - rect.height,
+        y: rect.x,
+        width: rect.height,
+        height: rect.width,
+      }
+    : {
+        x: rect.y,
+        y: logicalSize.w - rect.x - rect.width,
+        width: rect.height,
+        height: rect.width,
+      };
+}
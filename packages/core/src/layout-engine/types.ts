@@ -42,12 +42,18 @@ export type RunFormatting = {
   isInsertion?: boolean;
   /** Whether this run is a tracked deletion */
   isDeletion?: boolean;
+  /** Whether this run's formatting is a tracked change */
+  isFormatChange?: boolean;
+  /** Revision ID of the tracked format change (for sidebar matching) */
+  formatChangeRevisionId?: number;
   /** Author of the tracked change */
   changeAuthor?: string;
   /** Date of the tracked change */
   changeDate?: string;
   /** Revision ID of the tracked change (for sidebar matching) */
   changeRevisionId?: number;
+  /** Name of the move the tracked insertion or deletion belongs to */
+  moveName?: string;
 };
 
 /**
@@ -147,10 +153,29 @@ export type FieldRun = RunFormatting & {
   pmEnd?: number;
 };
 
+/**
+ * An OMML equation laid out as math (inline `m:oMath` or block `m:oMathPara`).
+ * Size and drawing come from the math renderer at measure/paint time.
+ */
+export type MathRun = {
+  kind: 'math';
+  /** Block equations get their own centered line */
+  display: 'inline' | 'block';
+  /** Raw OMML XML */
+  ommlXml: string;
+  /** Plain text fallback when the OMML can't be parsed */
+  plainText?: string;
+  /** Font size in points */
+  fontSize?: number;
+  color?: string;
+  pmStart?: number;
+  pmEnd?: number;
+};
+
 /**
  * Union of all run types.
  */
-export type Run = TextRun | TabRun | ImageRun | LineBreakRun | FieldRun;
+export type Run = TextRun | TabRun | ImageRun | LineBreakRun | FieldRun | MathRun;
 
 /**
  * Paragraph spacing configuration.
@@ -220,6 +245,16 @@ export type ListNumPr = {
   ilvl?: number;
 };
 
+/**
+ * Automatic hyphenation settings for a paragraph (w:autoHyphenation).
+ */
+export type ParagraphHyphenation = {
+  /** Space a word must leave at the line end before it's hyphenated, in pixels. */
+  zone: number;
+  /** Leave words in all capitals whole. */
+  doNotHyphenateCaps?: boolean;
+};
+
 /**
  * Paragraph block attributes.
  */
@@ -229,6 +264,10 @@ export type ParagraphAttrs = {
   indent?: ParagraphIndent;
   keepNext?: boolean;
   keepLines?: boolean;
+  /** Widow/orphan control; on unless explicitly false, like Word */
+  widowControl?: boolean;
+  /** Automatic hyphenation; absent when off for the document or the paragraph */
+  hyphenation?: ParagraphHyphenation;
   pageBreakBefore?: boolean;
   styleId?: string;
   contextualSpacing?: boolean;
@@ -282,6 +321,13 @@ export type CellBorders = {
   right?: CellBorderSpec;
 };
 
+/**
+ * Vertical text flow (w:textDirection, a:bodyPr/@vert).
+ * - tbRl: lines run top to bottom, stacked right to left
+ * - btLr: lines run bottom to top, stacked left to right
+ */
+export type VerticalTextDirection = 'tbRl' | 'btLr';
+
 /**
  * A table cell with content.
  */
@@ -296,6 +342,18 @@ export type TableCell = {
   borders?: CellBorders;
   /** Per-cell padding in pixels (from w:tcMar or table-level w:tblCellMar) */
   padding?: { top: number; right: number; bottom: number; left: number };
+  /** Vertical text flow of the cell content (absent for horizontal text). */
+  textDirection?: VerticalTextDirection;
+  /** Whether the cell (or its row) is a tracked insertion */
+  isInsertion?: boolean;
+  /** Whether the cell (or its row) is a tracked deletion */
+  isDeletion?: boolean;
+  /** Author of the tracked change */
+  changeAuthor?: string;
+  /** Date of the tracked change */
+  changeDate?: string;
+  /** Revision ID of the tracked change (for sidebar matching) */
+  changeRevisionId?: number;
 };
 
 /**
@@ -307,6 +365,8 @@ export type TableRow = {
   height?: number;
   heightRule?: 'auto' | 'atLeast' | 'exact';
   isHeader?: boolean;
+  /** Keep the row on one page (w:cantSplit). */
+  cantSplit?: boolean;
 };
 
 /**
@@ -430,6 +490,8 @@ export type TextBoxBlock = {
   outlineStyle?: string;
   /** Internal padding */
   margins?: { top: number; bottom: number; left: number; right: number };
+  /** Vertical text flow of the content (absent for horizontal text) */
+  textDirection?: VerticalTextDirection;
   /** Paragraph blocks inside the text box */
   content: ParagraphBlock[];
   pmStart?: number;
@@ -476,6 +538,8 @@ export type MeasuredLine = {
   leftOffset?: number;
   /** Right offset from floating images (pixels from content right edge). */
   rightOffset?: number;
+  /** The line ends inside a word that continues on the next line; a hyphen is drawn after it. */
+  hyphenated?: boolean;
 };
 
 /**
@@ -610,6 +674,22 @@ export type ParagraphFragment = FragmentBase & {
   continuesOnNext?: boolean;
 };
 
+/**
+ * Part of a table row shown in a fragment when the row is split across pages.
+ * Cell content is counted in line units: each paragraph line, and each nested
+ * table as a whole.
+ */
+export type TableRowSlice = {
+  /** Row index within the table. */
+  rowIndex: number;
+  /** First line unit of each cell (inclusive). */
+  fromLines: number[];
+  /** Last line unit of each cell (exclusive). */
+  toLines: number[];
+  /** Height of this part of the row. */
+  height: number;
+};
+
 /**
  * A table fragment positioned on a page.
  * May span only part of the table's rows if split across pages.
@@ -630,6 +710,8 @@ export type TableFragment = FragmentBase & {
   continuesOnNext?: boolean;
   /** Number of header rows prepended to this continuation fragment (0 or undefined for first fragment). */
   headerRowCount?: number;
+  /** Rows split across pages that are only partly shown in this fragment. */
+  rowSlices?: TableRowSlice[];
 };
 
 /**
@@ -708,6 +790,11 @@ export type Page = {
   footnoteReservedHeight?: number;
   /** Column layout for this page (if multi-column). */
   columns?: ColumnLayout;
+  /**
+   * Vertical text flow of the page body. Fragments are then positioned on
+   * the page rotated to horizontal text, with size and margins swapped.
+   */
+  textDirection?: VerticalTextDirection;
 };
 
 /**
@@ -800,6 +887,8 @@ export type LayoutOptions = {
   footnoteReservedHeights?: Map<number, number>;
   /** Section break type for the body-level (final) section (for section transition logic). */
   bodyBreakType?: 'continuous' | 'nextPage' | 'evenPage' | 'oddPage';
+  /** Vertical text flow of the page body (w:sectPr/w:textDirection). */
+  textDirection?: VerticalTextDirection;
 };
 
 // =============================================================================
@@ -24,7 +24,7 @@ import type {
   TextBoxMeasure,
   TextBoxFragment,
 } from '../layout-engine/types';
-import { renderPage, renderPages, type RenderContext } from './renderPage';
+import { renderPage, renderPages, type ProofingUnderline, type RenderContext } from './renderPage';
 import { renderParagraphFragment, sliceRunsForLine, renderLine } from './renderParagraph';
 import { renderFragment, FRAGMENT_CLASS_NAMES } from './renderFragment';
 import { renderTableFragment, TABLE_CLASS_NAMES } from './renderTable';
@@ -46,6 +46,7 @@ export {
   IMAGE_CLASS_NAMES,
   renderTextBoxFragment,
   TEXTBOX_CLASS_NAMES,
+  type ProofingUnderline,
   type RenderContext,
 };
 
@@ -102,6 +103,7 @@ export class LayoutPainter {
   private options: PainterOptions;
   private doc: Document;
   resolvedCommentIds: Set<number> = new Set();
+  proofingUnderlines: ProofingUnderline[] = [];
 
   constructor(options: PainterOptions = {}) {
     this.options = options;
@@ -174,6 +176,7 @@ export class LayoutPainter {
         totalPages: this.totalPages,
         section: 'body',
         resolvedCommentIds: this.resolvedCommentIds,
+        proofingUnderlines: this.proofingUnderlines,
       };
 
       const pageEl = this.renderPageWithLookup(page, context);
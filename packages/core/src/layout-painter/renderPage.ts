@@ -30,6 +30,11 @@ import { renderParagraphFragment } from './renderParagraph';
 import { renderTableFragment } from './renderTable';
 import { renderImageFragment } from './renderImage';
 import { renderTextBoxFragment } from './renderTextBox';
+import {
+  getLogicalMargins,
+  getLogicalSize,
+  getVerticalTransform,
+} from '../layout-engine/text-direction';
 import type { BlockLookup } from './index';
 import type { BorderSpec } from '../types/document';
 import { borderToStyle } from '../utils/formatToStyle';
@@ -40,7 +45,7 @@ import { measureParagraph, type FloatingImageZone } from '../layout-bridge/measu
  * Page-level floating image that has been extracted from paragraphs.
  * These are positioned absolutely within the page's content area.
  */
-interface PageFloatingImage {
+export interface PageFloatingImage {
   src: string;
   width: number;
   height: number;
@@ -97,10 +102,23 @@ interface FloatingExclusionRect {
 export const PAGE_CLASS_NAMES = {
   page: 'layout-page',
   content: 'layout-page-content',
+  verticalBody: 'layout-page-vertical-body',
   header: 'layout-page-header',
   footer: 'layout-page-footer',
 };
 
+/**
+ * Wavy underline under a document range, e.g. a spelling error
+ */
+export interface ProofingUnderline {
+  /** Start position in the ProseMirror document */
+  from: number;
+  /** End position in the ProseMirror document */
+  to: number;
+  /** CSS color of the underline */
+  color: string;
+}
+
 /**
  * Context passed to fragment renderers
  */
@@ -117,6 +135,8 @@ export interface RenderContext {
   insideTableCell?: boolean;
   /** Comment IDs that are resolved — skip highlight for these */
   resolvedCommentIds?: Set<number>;
+  /** Underlines for spelling and other proofing issues in the body, sorted by position */
+  proofingUnderlines?: ProofingUnderline[];
 }
 
 /**
@@ -189,9 +209,14 @@ export interface RenderPageOptions {
   footnoteArea?: FootnoteRenderItem[];
   /** Comment IDs that are resolved — skip highlight for these */
   resolvedCommentIds?: Set<number>;
+  /** Underlines for spelling and other proofing issues in the body, sorted by position */
+  proofingUnderlines?: ProofingUnderline[];
 }
 
-interface HeaderFooterLayoutInfo {
+/**
+ * Where a header/footer flows on the page (for positioning its floating images)
+ */
+export interface HeaderFooterLayoutInfo {
   flowTop: number;
   flowLeft: number;
   contentWidth: number;
@@ -273,7 +298,7 @@ function getPositionAlignment(
   return position?.align ?? position?.alignment;
 }
 
-function resolveHeaderFooterFloatTop(
+export function resolveHeaderFooterFloatTop(
   floatImg: {
     height: number;
     paragraphY: number;
@@ -330,8 +355,7 @@ function resolveHeaderFooterFloatTop(
   return floatImg.paragraphY;
 }
 
-function applyHeaderFooterFloatHorizontalPosition(
-  img: HTMLImageElement,
+export function resolveHeaderFooterFloatLeft(
   floatImg: {
     width: number;
     position: {
@@ -339,49 +363,41 @@ function applyHeaderFooterFloatHorizontalPosition(
     };
   },
   layout: HeaderFooterLayoutInfo
-): void {
+): number {
   const h = floatImg.position.horizontal;
   if (!h) {
-    img.style.left = '0';
-    return;
+    return 0;
   }
 
   const align = getPositionAlignment(h);
 
   if (h.relativeTo === 'page') {
     if (h.posOffset !== undefined) {
-      img.style.left = `${emuToPixels(h.posOffset) - layout.flowLeft}px`;
-      return;
+      return emuToPixels(h.posOffset) - layout.flowLeft;
     }
     if (align === 'right') {
-      img.style.left = `${layout.pageWidth - floatImg.width - layout.flowLeft}px`;
-      return;
+      return layout.pageWidth - floatImg.width - layout.flowLeft;
     }
     if (align === 'center') {
-      img.style.left = `${(layout.pageWidth - floatImg.width) / 2 - layout.flowLeft}px`;
-      return;
+      return (layout.pageWidth - floatImg.width) / 2 - layout.flowLeft;
     }
     if (align === 'left') {
-      img.style.left = `${-layout.flowLeft}px`;
-      return;
+      return -layout.flowLeft;
     }
   }
 
   if (h.posOffset !== undefined) {
-    img.style.left = `${emuToPixels(h.posOffset)}px`;
-    return;
+    return emuToPixels(h.posOffset);
   }
 
   if (align === 'right') {
-    img.style.left = `${layout.contentWidth - floatImg.width}px`;
-    return;
+    return layout.contentWidth - floatImg.width;
   }
   if (align === 'center') {
-    img.style.left = `${(layout.contentWidth - floatImg.width) / 2}px`;
-    return;
+    return (layout.contentWidth - floatImg.width) / 2;
   }
 
-  img.style.left = '0';
+  return 0;
 }
 
 /**
@@ -781,7 +797,7 @@ function renderHeaderFooterContent(
     img.style.maxWidth = 'none';
     img.style.maxHeight = 'none';
 
-    applyHeaderFooterFloatHorizontalPosition(img, floatImg, layout);
+    img.style.left = `${resolveHeaderFooterFloatLeft(floatImg, layout)}px`;
     img.style.top = `${resolveHeaderFooterFloatTop(floatImg, layout)}px`;
 
     containerEl.appendChild(img);
@@ -836,42 +852,20 @@ function renderFootnoteArea(
 }
 
 /**
- * Render a single page to DOM
- *
- * @param page - The page to render
- * @param context - Rendering context
- * @param options - Rendering options
- * @returns The page DOM element
+ * Extract a page's floating images (positioned relative to the content area)
+ * and the measurement zones that floating images and tables carve out of it.
  */
-export function renderPage(
+export function collectPageFloats(
   page: Page,
-  context: RenderContext,
-  options: RenderPageOptions = {}
-): HTMLElement {
-  const doc = options.document ?? document;
-
-  // Create page container
-  const pageEl = doc.createElement('div');
-  pageEl.className = options.pageClassName ?? PAGE_CLASS_NAMES.page;
-  pageEl.dataset.pageNumber = String(page.number);
-
-  applyPageStyles(pageEl, page.size.w, page.size.h, options);
-
-  // Create content area
-  const contentEl = doc.createElement('div');
-  contentEl.className = PAGE_CLASS_NAMES.content;
-  applyContentAreaStyles(contentEl, page);
-
-  // Calculate content width for justify alignment
+  blockLookup: BlockLookup | undefined
+): { floatingImages: PageFloatingImage[]; floatingZones: FloatingImageZone[] } {
   const contentWidth = page.size.w - page.margins.left - page.margins.right;
-
-  // PHASE 1: Extract all floating images from paragraphs on this page
   const allFloatingImages: PageFloatingImage[] = [];
   const floatingRects: FloatingExclusionRect[] = [];
 
   for (const fragment of page.fragments) {
-    if (fragment.kind === 'paragraph' && options.blockLookup) {
-      const blockData = options.blockLookup.get(String(fragment.blockId));
+    if (fragment.kind === 'paragraph' && blockLookup) {
+      const blockData = blockLookup.get(String(fragment.blockId));
       if (blockData?.block.kind === 'paragraph') {
         const paragraphBlock = blockData.block as ParagraphBlock;
         // Fragment Y is relative to page top, we need it relative to content area
@@ -907,10 +901,10 @@ export function renderPage(
   }
 
   // Collect floating table exclusion rectangles
-  if (options.blockLookup) {
+  if (blockLookup) {
     for (const fragment of page.fragments) {
       if (fragment.kind !== 'table') continue;
-      const blockData = options.blockLookup.get(String(fragment.blockId));
+      const blockData = blockLookup.get(String(fragment.blockId));
       if (blockData?.block.kind !== 'table') continue;
       const tableBlock = blockData.block as TableBlock;
       const floating = tableBlock.floating;
@@ -940,10 +934,59 @@ export function renderPage(
     }
   }
 
-  // PHASE 2: Convert floating rects to per-image measurement zones
+  // Convert floating rects to per-image measurement zones
   const floatingZones: FloatingImageZone[] =
     floatingRects.length > 0 ? rectsToFloatingZones(floatingRects, contentWidth) : [];
 
+  return { floatingImages: allFloatingImages, floatingZones };
+}
+
+/**
+ * Render a single page to DOM
+ *
+ * @param page - The page to render
+ * @param context - Rendering context
+ * @param options - Rendering options
+ * @returns The page DOM element
+ */
+export function renderPage(
+  page: Page,
+  context: RenderContext,
+  options: RenderPageOptions = {}
+): HTMLElement {
+  const doc = options.document ?? document;
+
+  // Create page container
+  const pageEl = doc.createElement('div');
+  pageEl.className = options.pageClassName ?? PAGE_CLASS_NAMES.page;
+  pageEl.dataset.pageNumber = String(page.number);
+
+  applyPageStyles(pageEl, page.size.w, page.size.h, options);
+
+  // Vertical page bodies are painted upright on the page turned a quarter
+  const bodyPage: Page = page.textDirection
+    ? {
+        ...page,
+        size: getLogicalSize(page.size),
+        margins: getLogicalMargins(page.textDirection, page.margins),
+      }
+    : page;
+
+  // Create content area
+  const contentEl = doc.createElement('div');
+  contentEl.className = PAGE_CLASS_NAMES.content;
+  applyContentAreaStyles(contentEl, bodyPage);
+
+  // Calculate content width for justify alignment
+  const contentWidth = bodyPage.size.w - bodyPage.margins.left - bodyPage.margins.right;
+
+  // PHASE 1-2: Extract floating images and convert them (with floating tables)
+  // to per-image measurement zones
+  const { floatingImages: allFloatingImages, floatingZones } = collectPageFloats(
+    bodyPage,
+    options.blockLookup
+  );
+
   // PHASE 3: Render floating images in a page-level layer
   if (allFloatingImages.length > 0) {
     const floatingLayer = renderFloatingImagesLayer(allFloatingImages, doc);
@@ -969,7 +1012,7 @@ export function renderPage(
     const fragmentContext = { ...context, section: 'body' as const, contentWidth };
 
     // Calculate fragment's Y position relative to content area (for per-line margin calculation)
-    const fragmentContentY = fragment.y - page.margins.top;
+    const fragmentContentY = fragment.y - bodyPage.margins.top;
 
     // If we have block lookup, try to render full content based on fragment type
     if (options.blockLookup && fragment.blockId) {
@@ -1063,7 +1106,7 @@ export function renderPage(
       prevParagraphBorders = undefined;
     }
 
-    applyFragmentStyles(fragmentEl, fragment, { left: page.margins.left, top: page.margins.top });
+    applyFragmentStyles(fragmentEl, fragment, bodyPage.margins);
     contentEl.appendChild(fragmentEl);
   }
 
@@ -1072,7 +1115,7 @@ export function renderPage(
     const colCount = page.columns.count;
     const colGap = page.columns.gap;
     const colWidth = (contentWidth - (colCount - 1) * colGap) / colCount;
-    const contentHeight = page.size.h - page.margins.top - page.margins.bottom;
+    const contentHeight = bodyPage.size.h - bodyPage.margins.top - bodyPage.margins.bottom;
 
     for (let col = 0; col < colCount - 1; col++) {
       const lineX = (col + 1) * colWidth + col * colGap + colGap / 2;
@@ -1095,14 +1138,29 @@ export function renderPage(
     // Position at page bottom minus bottom margin (bottom of content area)
     // The reserved height includes separator + all footnotes
     const reservedHeight = page.footnoteReservedHeight ?? 0;
-    const contentAreaBottom = page.size.h - page.margins.bottom - page.margins.top;
+    const contentAreaBottom = bodyPage.size.h - bodyPage.margins.bottom - bodyPage.margins.top;
     fnAreaEl.style.top = `${contentAreaBottom - reservedHeight}px`;
     fnAreaEl.style.left = '0';
     fnAreaEl.style.right = '0';
     contentEl.appendChild(fnAreaEl);
   }
 
-  pageEl.appendChild(contentEl);
+  if (page.textDirection) {
+    const bodyEl = doc.createElement('div');
+    bodyEl.className = PAGE_CLASS_NAMES.verticalBody;
+    bodyEl.dataset.textDirection = page.textDirection;
+    bodyEl.style.position = 'absolute';
+    bodyEl.style.left = '0';
+    bodyEl.style.top = '0';
+    bodyEl.style.width = `${bodyPage.size.w}px`;
+    bodyEl.style.height = `${bodyPage.size.h}px`;
+    bodyEl.style.transformOrigin = '0 0';
+    bodyEl.style.transform = getVerticalTransform(page.textDirection, bodyPage.size);
+    bodyEl.appendChild(contentEl);
+    pageEl.appendChild(bodyEl);
+  } else {
+    pageEl.appendChild(contentEl);
+  }
 
   // Render header area (always rendered for hover hint / double-click target)
   {
@@ -1230,6 +1288,7 @@ function buildPageRenderArgs(
     totalPages,
     section: 'body',
     resolvedCommentIds: options.resolvedCommentIds,
+    proofingUnderlines: options.proofingUnderlines,
   };
   const pageOptions: RenderPageOptions = { ...options };
   // Per-page header/footer selection when titlePg is enabled
@@ -1300,6 +1359,9 @@ function computePageFingerprint(page: Page): string {
       fp += `,fl:${frag.fromLine},tl:${frag.toLine}`;
     } else if (frag.kind === 'table') {
       fp += `,fr:${frag.fromRow},tr:${frag.toRow}`;
+      for (const slice of frag.rowSlices ?? []) {
+        fp += `,rs:${slice.rowIndex}:${slice.fromLines.join('.')}-${slice.toLines.join('.')}`;
+      }
     }
 
     parts.push(fp);
@@ -19,15 +19,17 @@ import type {
   ImageRun,
   LineBreakRun,
   FieldRun,
+  MathRun,
   TabStop,
 } from '../layout-engine/types';
-import { isFloatingImageRun, type RenderContext } from './renderPage';
+import { isFloatingImageRun, type ProofingUnderline, type RenderContext } from './renderPage';
 import {
   calculateTabWidth,
   type TabContext,
   type TabStop as TabCalcStop,
 } from '../prosemirror/utils/tabCalculator';
 import { resolveFontFamily } from '../utils/fontResolver';
+import { layoutMathRun, renderMathSvg } from '../math';
 
 /**
  * CSS class names for paragraph rendering
@@ -40,6 +42,9 @@ export const PARAGRAPH_CLASS_NAMES = {
   tab: 'layout-run-tab',
   image: 'layout-run-image',
   lineBreak: 'layout-run-linebreak',
+  math: 'layout-run-math',
+  hyphen: 'layout-run-hyphen',
+  proofing: 'layout-run-proofing',
 };
 
 // Text wrapping around floating images is implemented via measurement-time
@@ -83,6 +88,13 @@ function isImageRun(run: Run): run is ImageRun {
   return run.kind === 'image';
 }
 
+/**
+ * Check if run is a math run
+ */
+function isMathRun(run: Run): run is MathRun {
+  return run.kind === 'math';
+}
+
 /**
  * Check if run is a line break run
  */
@@ -172,7 +184,7 @@ function applyRunStyles(
   }
 
   // Tracked insertion styling — light green background with dashed border
-  if (run.isInsertion) {
+  if (run.isInsertion && !run.moveName) {
     element.style.backgroundColor = 'rgba(52, 168, 83, 0.08)';
     element.style.borderBottom = '2px dashed #2e7d32';
     element.style.paddingBottom = '1px';
@@ -183,7 +195,7 @@ function applyRunStyles(
   }
 
   // Tracked deletion styling — light red background with strikethrough
-  if (run.isDeletion) {
+  if (run.isDeletion && !run.moveName) {
     element.style.backgroundColor = 'rgba(211, 47, 47, 0.08)';
     element.style.color = '#c62828';
     if (!decorations.includes('line-through')) decorations.push('line-through');
@@ -194,6 +206,35 @@ function applyRunStyles(
     if (run.changeRevisionId != null) element.dataset.revisionId = String(run.changeRevisionId);
   }
 
+  // Tracked move styling — green, as in Word: double strikethrough where the
+  // text moved from, double underline where it moved to
+  if (run.moveName && (run.isInsertion || run.isDeletion)) {
+    element.style.color = '#2e7d32';
+    element.style.backgroundColor = 'rgba(52, 168, 83, 0.08)';
+    if (run.isDeletion) {
+      if (!decorations.includes('line-through')) decorations.push('line-through');
+      element.style.textDecorationStyle = 'double';
+      element.style.textDecorationColor = '#2e7d32';
+    } else {
+      element.style.borderBottom = '3px double #2e7d32';
+    }
+    element.classList.add(run.isDeletion ? 'docx-deletion' : 'docx-insertion');
+    element.classList.add(run.isDeletion ? 'docx-move-from' : 'docx-move-to');
+    element.dataset.moveName = run.moveName;
+    if (run.changeAuthor) element.dataset.changeAuthor = run.changeAuthor;
+    if (run.changeDate) element.dataset.changeDate = run.changeDate;
+    if (run.changeRevisionId != null) element.dataset.revisionId = String(run.changeRevisionId);
+  }
+
+  // Tracked format change styling — dotted underline, the formatting itself stays visible
+  if (run.isFormatChange) {
+    if (!run.isInsertion) element.style.borderBottom = '1px dotted #7b1fa2';
+    element.classList.add('docx-format-change');
+    if (run.formatChangeRevisionId != null) {
+      element.dataset.formatRevisionId = String(run.formatChangeRevisionId);
+    }
+  }
+
   if (decorations.length > 0) {
     element.style.textDecorationLine = decorations.join(' ');
   }
@@ -260,6 +301,18 @@ function renderTextRun(run: TextRun, doc: Document, resolvedCommentIds?: Set<num
   return span;
 }
 
+/**
+ * Render the hyphen ending a line that breaks inside a word. It takes the
+ * style of the text it follows but maps to no document position.
+ */
+function renderHyphen(run: TextRun, doc: Document): HTMLElement {
+  const span = doc.createElement('span');
+  span.className = `${PARAGRAPH_CLASS_NAMES.run} ${PARAGRAPH_CLASS_NAMES.hyphen}`;
+  applyRunStyles(span, run);
+  span.textContent = '-';
+  return span;
+}
+
 /**
  * Render a tab run with calculated width
  */
@@ -389,6 +442,38 @@ function renderImageRun(run: ImageRun, doc: Document): HTMLElement {
   }
 }
 
+/**
+ * Render an equation as SVG. Inline equations sit on the text baseline;
+ * block equations (oMathPara) are centered on their own line.
+ */
+function renderMathRun(run: MathRun, doc: Document): HTMLElement {
+  const box = layoutMathRun(run);
+
+  const span = doc.createElement('span');
+  span.className = `${PARAGRAPH_CLASS_NAMES.run} ${PARAGRAPH_CLASS_NAMES.math}`;
+  // An inline-block whose only child is a block SVG has its baseline at its
+  // bottom edge — shift it down by the equation's descent
+  span.style.display = 'inline-block';
+  span.style.verticalAlign = `${-box.descent}px`;
+  span.innerHTML = renderMathSvg(box, { color: run.color });
+  const svg = span.firstElementChild as SVGElement | null;
+  if (svg) svg.style.display = 'block';
+  if (run.plainText) {
+    span.setAttribute('role', 'math');
+    span.setAttribute('aria-label', run.plainText);
+  }
+
+  applyPmPositions(span, run.pmStart, run.pmEnd);
+  if (run.display !== 'block') return span;
+
+  const container = doc.createElement('div');
+  container.className = 'layout-block-math';
+  container.style.display = 'block';
+  container.style.textAlign = 'center';
+  container.appendChild(span);
+  return container;
+}
+
 /**
  * Render a line break run
  */
@@ -415,11 +500,12 @@ function renderFieldRun(run: FieldRun, doc: Document, context: RenderContext): H
     case 'NUMPAGES':
       text = String(context.totalPages);
       break;
+    // Dates show the stored result (kept current by field updates) when there is one
     case 'DATE':
-      text = new Date().toLocaleDateString();
+      text = run.fallback || new Date().toLocaleDateString();
       break;
     case 'TIME':
-      text = new Date().toLocaleTimeString();
+      text = run.fallback || new Date().toLocaleTimeString();
       break;
     // OTHER fields use fallback
   }
@@ -461,6 +547,9 @@ function renderRun(run: Run, doc: Document, context?: RenderContext): HTMLElemen
   if (isLineBreakRun(run)) {
     return renderLineBreakRun(run, doc);
   }
+  if (isMathRun(run)) {
+    return renderMathRun(run, doc);
+  }
   if (isFieldRun(run) && context) {
     return renderFieldRun(run, doc, context);
   }
@@ -614,6 +703,56 @@ function createTextMeasurer(
   };
 }
 
+function sliceTextRun(run: TextRun, from: number, to: number): TextRun {
+  const offset = run.pmStart ?? 0;
+  return { ...run, text: run.text.slice(from - offset, to - offset), pmStart: from, pmEnd: to };
+}
+
+/**
+ * Split a text run where proofing underlines start and end, so that every
+ * part is either underlined as a whole or not at all. Underlines must be
+ * sorted by position.
+ */
+export function splitRunAtUnderlines(
+  run: TextRun,
+  underlines: ProofingUnderline[] | undefined
+): { run: TextRun; underline?: ProofingUnderline }[] {
+  const start = run.pmStart;
+  const end = run.pmEnd;
+  if (!underlines?.length || start === undefined || end === undefined) return [{ run }];
+  // Runs whose text does not map one to one onto the document stay whole
+  if (end - start !== run.text.length) return [{ run }];
+
+  const parts: { run: TextRun; underline?: ProofingUnderline }[] = [];
+  let pos = start;
+  for (const underline of underlines) {
+    if (underline.from >= end) break;
+    const from = Math.max(underline.from, pos);
+    const to = Math.min(underline.to, end);
+    if (from >= to) continue;
+    if (from > pos) parts.push({ run: sliceTextRun(run, pos, from) });
+    parts.push({ run: sliceTextRun(run, from, to), underline });
+    pos = to;
+  }
+  if (parts.length === 0) return [{ run }];
+  if (pos < end) parts.push({ run: sliceTextRun(run, pos, end) });
+  return parts;
+}
+
+/**
+ * Draw a wavy proofing underline, keeping other decorations of the run
+ */
+function applyProofingUnderline(element: HTMLElement, underline: ProofingUnderline): void {
+  element.classList.add(PARAGRAPH_CLASS_NAMES.proofing);
+  const lines = new Set(element.style.textDecorationLine.split(' ').filter(Boolean));
+  lines.delete('none');
+  lines.add('underline');
+  element.style.textDecorationLine = [...lines].join(' ');
+  element.style.textDecorationStyle = 'wavy';
+  element.style.textDecorationColor = underline.color;
+  element.style.textDecorationSkipInk = 'none';
+}
+
 /**
  * Render a single line
  *
@@ -740,24 +879,32 @@ export function renderLine(
       // Update X position
       currentX += tabResult.width;
     } else if (isTextRun(run)) {
-      const runEl = renderTextRun(run, doc, options?.context?.resolvedCommentIds);
-
-      // For highlighted runs, extend background to fill the full line height.
-      // Inline elements' background only covers the content area (font ascent+descent),
-      // which differs by font size. Vertical padding on inline elements extends the
-      // background without affecting line box calculations.
-      if (run.highlight) {
-        const fontSizePx = run.fontSize ? (run.fontSize * 96) / 72 : 14.67;
-        const contentHeight = fontSizePx * 1.2; // approximate content area
-        const gap = Math.max(0, line.lineHeight - contentHeight);
-        if (gap > 0) {
-          const pad = gap / 2;
-          runEl.style.paddingTop = `${pad}px`;
-          runEl.style.paddingBottom = `${pad}px`;
+      // Proofing underlines only apply to body text; headers and footers
+      // have document positions of their own
+      const context = options?.context;
+      const underlines = context?.section === 'body' ? context.proofingUnderlines : undefined;
+
+      for (const part of splitRunAtUnderlines(run, underlines)) {
+        const runEl = renderTextRun(part.run, doc, context?.resolvedCommentIds);
+        if (part.underline) applyProofingUnderline(runEl, part.underline);
+
+        // For highlighted runs, extend background to fill the full line height.
+        // Inline elements' background only covers the content area (font ascent+descent),
+        // which differs by font size. Vertical padding on inline elements extends the
+        // background without affecting line box calculations.
+        if (run.highlight) {
+          const fontSizePx = run.fontSize ? (run.fontSize * 96) / 72 : 14.67;
+          const contentHeight = fontSizePx * 1.2; // approximate content area
+          const gap = Math.max(0, line.lineHeight - contentHeight);
+          if (gap > 0) {
+            const pad = gap / 2;
+            runEl.style.paddingTop = `${pad}px`;
+            runEl.style.paddingBottom = `${pad}px`;
+          }
         }
-      }
 
-      lineEl.appendChild(runEl);
+        lineEl.appendChild(runEl);
+      }
 
       // Measure text width for accurate tab position tracking
       const fontSize = run.fontSize || 11;
@@ -786,6 +933,11 @@ export function renderLine(
     } else if (isLineBreakRun(run)) {
       const runEl = renderLineBreakRun(run, doc);
       lineEl.appendChild(runEl);
+    } else if (isMathRun(run)) {
+      lineEl.appendChild(renderMathRun(run, doc));
+      if (run.display !== 'block') {
+        currentX += layoutMathRun(run).width;
+      }
     } else if (isFieldRun(run) && options?.context) {
       // Render field run with context for PAGE/NUMPAGES substitution
       const runEl = renderFieldRun(run, doc, options.context);
@@ -804,6 +956,11 @@ export function renderLine(
     }
   }
 
+  if (line.hyphenated) {
+    const lastTextRun = runsForLine.filter(isTextRun).pop();
+    if (lastTextRun) lineEl.appendChild(renderHyphen(lastTextRun, doc));
+  }
+
   return lineEl;
 }
 
@@ -18,7 +18,15 @@ import type {
   ParagraphMeasure,
   ParagraphFragment,
   ImageRun,
+  TableRowSlice,
 } from '../layout-engine/types';
+import { getVerticalTransform } from '../layout-engine/text-direction';
+import {
+  getCellBlockRanges,
+  getCellLineOffset,
+  getFragmentRowHeight,
+  getRowSlice,
+} from '../layout-engine/table-rows';
 import type { RenderContext } from './renderPage';
 import { isFloatingImageRun, emuToPixels } from './renderPage';
 import { renderParagraphFragment } from './renderParagraph';
@@ -46,7 +54,7 @@ export interface RenderTableFragmentOptions {
 }
 
 /** Info about a floating image extracted from a cell paragraph */
-interface CellFloatingImage {
+export interface CellFloatingImage {
   src: string;
   width: number;
   height: number;
@@ -179,14 +187,58 @@ function extractCellFloatingImages(
   return result;
 }
 
+/**
+ * Extract a cell's floating images and the measurement zones they carve out
+ * of its content area.
+ */
+export function collectCellFloats(
+  cell: TableCell,
+  cellMeasure: TableCellMeasure,
+  contentWidth: number
+): { floatingImages: CellFloatingImage[]; floatingZones: FloatingImageZone[] } {
+  const floatingImages = extractCellFloatingImages(cell, cellMeasure, contentWidth);
+  const floatingZones = floatingImages.map((img) => {
+    const rectRight = img.x + img.width + img.distRight;
+    const rectTop = img.y - img.distTop;
+    const rectBottom = img.y + img.height + img.distBottom;
+
+    let leftMargin = 0;
+    let rightMargin = 0;
+    // Use wrapText to determine which side text flows on (same as rectsToFloatingZones in renderPage.ts)
+    const wt = img.wrapText ?? 'bothSides';
+    if (wt === 'right') {
+      // Text flows on RIGHT only -> image blocks the left side
+      leftMargin = rectRight;
+    } else if (wt === 'left') {
+      // Text flows on LEFT only -> image blocks the right side
+      rightMargin = contentWidth - (img.x - img.distLeft);
+    } else {
+      // bothSides / largest: use image position to determine which side it blocks
+      if (img.side === 'left') {
+        leftMargin = rectRight;
+      } else {
+        rightMargin = contentWidth - (img.x - img.distLeft);
+      }
+    }
+    return { leftMargin, rightMargin, topY: rectTop, bottomY: rectBottom };
+  });
+  return { floatingImages, floatingZones };
+}
+
 /**
  * Render cell content (paragraphs and nested tables)
+ *
+ * When the row is split across pages, only the cell's line units from
+ * fromLine to toLine are rendered. Vertical content is laid out in a box
+ * of the given logical size and rotated into the cell.
  */
 function renderCellContent(
   cell: TableCell,
   cellMeasure: TableCellMeasure,
   context: RenderContext,
-  doc: Document
+  doc: Document,
+  lines?: { fromLine: number; toLine: number },
+  logicalSize?: { w: number; h: number }
 ): HTMLElement {
   const contentEl = doc.createElement('div');
   contentEl.className = TABLE_CLASS_NAMES.cellContent;
@@ -196,41 +248,34 @@ function renderCellContent(
   // clipping issues (especially for nested tables).
   const padLeft = cell.padding?.left ?? 7;
   const padRight = cell.padding?.right ?? 7;
-  const contentWidth = Math.max(0, cellMeasure.width - padLeft - padRight);
+  const contentWidth = logicalSize?.w ?? Math.max(0, cellMeasure.width - padLeft - padRight);
   contentEl.style.width = `${contentWidth}px`;
 
-  // Extract floating images from cell paragraphs
-  const cellFloatingImages = extractCellFloatingImages(cell, cellMeasure, contentWidth);
+  if (cell.textDirection && logicalSize) {
+    contentEl.style.position = 'absolute';
+    contentEl.style.left = `${padLeft}px`;
+    contentEl.style.top = `${cell.padding?.top ?? 1}px`;
+    contentEl.style.height = `${logicalSize.h}px`;
+    contentEl.style.transformOrigin = '0 0';
+    contentEl.style.transform = getVerticalTransform(cell.textDirection, logicalSize);
+    contentEl.dataset.textDirection = cell.textDirection;
+    if (cell.verticalAlign === 'center' || cell.verticalAlign === 'bottom') {
+      contentEl.style.display = 'flex';
+      contentEl.style.flexDirection = 'column';
+      contentEl.style.justifyContent = cell.verticalAlign === 'center' ? 'center' : 'flex-end';
+    }
+  }
 
-  // Build floating zones for measurement and render floating layer
-  let floatingZones: FloatingImageZone[] | undefined;
-  if (cellFloatingImages.length > 0) {
-    floatingZones = cellFloatingImages.map((img) => {
-      const rectRight = img.x + img.width + img.distRight;
-      const rectTop = img.y - img.distTop;
-      const rectBottom = img.y + img.height + img.distBottom;
-
-      let leftMargin = 0;
-      let rightMargin = 0;
-      // Use wrapText to determine which side text flows on (same as rectsToFloatingZones in renderPage.ts)
-      const wt = img.wrapText ?? 'bothSides';
-      if (wt === 'right') {
-        // Text flows on RIGHT only -> image blocks the left side
-        leftMargin = rectRight;
-      } else if (wt === 'left') {
-        // Text flows on LEFT only -> image blocks the right side
-        rightMargin = contentWidth - (img.x - img.distLeft);
-      } else {
-        // bothSides / largest: use image position to determine which side it blocks
-        if (img.side === 'left') {
-          leftMargin = rectRight;
-        } else {
-          rightMargin = contentWidth - (img.x - img.distLeft);
-        }
-      }
-      return { leftMargin, rightMargin, topY: rectTop, bottomY: rectBottom };
-    });
+  const { floatingImages: cellFloatingImages, floatingZones } = collectCellFloats(
+    cell,
+    cellMeasure,
+    contentWidth
+  );
 
+  const blockRanges = lines ? getCellBlockRanges(cellMeasure, lines.fromLine, lines.toLine) : null;
+  const lineOffset = lines ? getCellLineOffset(cell, cellMeasure, lines.fromLine) : 0;
+
+  if (cellFloatingImages.length > 0) {
     // Render floating image layer within the cell
     const floatingLayer = doc.createElement('div');
     floatingLayer.className = 'layout-cell-floating-images-layer';
@@ -248,7 +293,7 @@ function renderCellContent(
       imgContainer.className = 'layout-cell-floating-image';
       imgContainer.style.position = 'absolute';
       imgContainer.style.left = `${img.x}px`;
-      imgContainer.style.top = `${img.y}px`;
+      imgContainer.style.top = `${img.y - lineOffset}px`;
       imgContainer.style.pointerEvents = 'auto';
       if (img.pmStart !== undefined) imgContainer.dataset.pmStart = String(img.pmStart);
       if (img.pmEnd !== undefined) imgContainer.dataset.pmEnd = String(img.pmEnd);
@@ -271,13 +316,20 @@ function renderCellContent(
   for (let i = 0; i < cell.blocks.length; i++) {
     const block = cell.blocks[i];
     const measure = cellMeasure.blocks[i];
+    const range = blockRanges?.[i];
+
+    if (range === null) {
+      // On the other part of a split row
+      if (measure && 'totalHeight' in measure) cumulativeY += measure.totalHeight;
+      continue;
+    }
 
     if (block?.kind === 'paragraph' && measure?.kind === 'paragraph') {
       const paragraphBlock = block as ParagraphBlock;
       let paragraphMeasure = measure as ParagraphMeasure;
 
       // Re-measure with floating zones if floating images exist in this cell
-      if (floatingZones && floatingZones.length > 0) {
+      if (floatingZones.length > 0) {
         paragraphMeasure = measureParagraph(paragraphBlock, contentWidth, {
           floatingZones,
           paragraphYOffset: cumulativeY,
@@ -285,6 +337,9 @@ function renderCellContent(
       }
 
       // Create synthetic fragment for the paragraph
+      const lineCount = paragraphMeasure.lines.length;
+      const fromLine = Math.min(range?.fromLine ?? 0, lineCount);
+      const toLine = Math.min(range?.toLine ?? lineCount, lineCount);
       const syntheticFragment: ParagraphFragment = {
         kind: 'paragraph',
         blockId: paragraphBlock.id,
@@ -292,10 +347,12 @@ function renderCellContent(
         y: 0,
         width: contentWidth,
         height: paragraphMeasure.totalHeight,
-        fromLine: 0,
-        toLine: paragraphMeasure.lines.length,
+        fromLine,
+        toLine,
         pmStart: paragraphBlock.pmStart,
         pmEnd: paragraphBlock.pmEnd,
+        continuesFromPrev: fromLine > 0,
+        continuesOnNext: toLine < lineCount,
       };
 
       const cellContext = { ...context, insideTableCell: true as const };
@@ -443,7 +500,8 @@ function renderTableCell(
     isLastCol: boolean;
   },
   context: RenderContext,
-  doc: Document
+  doc: Document,
+  lines?: { fromLine: number; toLine: number }
 ): HTMLElement {
   const cellEl = doc.createElement('div');
   cellEl.className = TABLE_CLASS_NAMES.cell;
@@ -485,8 +543,20 @@ function renderTableCell(
     cellEl.style.backgroundColor = cell.background;
   }
 
-  // Vertical alignment
-  if (cell.verticalAlign) {
+  // Tracked insertion/deletion of the cell or its row — tint over the shading
+  if (cell.isInsertion || cell.isDeletion) {
+    const tint = cell.isInsertion ? 'rgba(52, 168, 83, 0.08)' : 'rgba(211, 47, 47, 0.08)';
+    cellEl.style.backgroundImage = `linear-gradient(${tint}, ${tint})`;
+    cellEl.style.outline = `1px dashed ${cell.isInsertion ? '#2e7d32' : '#c62828'}`;
+    cellEl.style.outlineOffset = '-2px';
+    cellEl.classList.add(cell.isInsertion ? 'docx-insertion' : 'docx-deletion');
+    if (cell.changeAuthor) cellEl.dataset.changeAuthor = cell.changeAuthor;
+    if (cell.changeDate) cellEl.dataset.changeDate = cell.changeDate;
+    if (cell.changeRevisionId != null) cellEl.dataset.revisionId = String(cell.changeRevisionId);
+  }
+
+  // Vertical alignment (vertical content aligns inside its rotated box)
+  if (cell.verticalAlign && !cell.textDirection) {
     cellEl.style.display = 'flex';
     cellEl.style.flexDirection = 'column';
     switch (cell.verticalAlign) {
@@ -502,8 +572,14 @@ function renderTableCell(
     }
   }
 
-  // Render cell content
-  const contentEl = renderCellContent(cell, cellMeasure, context, doc);
+  // Render cell content; vertical lines run along the row height
+  const logicalSize = cell.textDirection
+    ? {
+        w: Math.max(0, rowHeight - padTop - padBottom),
+        h: Math.max(0, cellMeasure.width - padLeft - padRight),
+      }
+    : undefined;
+  const contentEl = renderCellContent(cell, cellMeasure, context, doc, lines, logicalSize);
   cellEl.appendChild(contentEl);
 
   // Store PM positions for selection
@@ -536,7 +612,8 @@ type SpanningCell = {
 };
 
 /**
- * Render a table row with rowSpan support
+ * Render a table row with rowSpan support. A slice renders only the part of
+ * a row split across pages.
  */
 function renderTableRow(
   row: TableBlock['rows'][number],
@@ -549,7 +626,8 @@ function renderTableRow(
   doc: Document,
   spanningCells?: Map<string, SpanningCell>,
   rowYPositions?: number[],
-  isFirstRowInFragment?: boolean
+  isFirstRowInFragment?: boolean,
+  slice?: TableRowSlice
 ): HTMLElement {
   const rowEl = doc.createElement('div');
   rowEl.className = TABLE_CLASS_NAMES.row;
@@ -559,10 +637,14 @@ function renderTableRow(
   rowEl.style.left = '0';
   rowEl.style.top = `${y}px`;
   rowEl.style.width = '100%';
-  rowEl.style.height = `${rowMeasure.height}px`;
+  const rowHeight = slice?.height ?? rowMeasure.height;
+  rowEl.style.height = `${rowHeight}px`;
 
   // Data attributes
   rowEl.dataset.rowIndex = String(rowIndex);
+  if (slice) {
+    rowEl.dataset.splitRow = 'true';
+  }
 
   // Build set of columns occupied by spanning cells from previous rows
   const occupiedColumns = new Set<number>();
@@ -599,7 +681,7 @@ function renderTableRow(
     const rowSpan = cell.rowSpan ?? 1;
 
     // Calculate cell height - for spanning cells, use total height of spanned rows
-    let cellHeight = rowMeasure.height;
+    let cellHeight = rowHeight;
     if (rowSpan > 1 && rowYPositions) {
       cellHeight = 0;
       for (let r = rowIndex; r < rowIndex + rowSpan && r < rowYPositions.length - 1; r++) {
@@ -623,7 +705,10 @@ function renderTableRow(
       cellHeight,
       { isFirstRow, isLastRow, isFirstCol, isLastCol },
       context,
-      doc
+      doc,
+      slice
+        ? { fromLine: slice.fromLines[cellIndex] ?? 0, toLine: slice.toLines[cellIndex] ?? 0 }
+        : undefined
     );
     cellEl.dataset.cellIndex = String(cellIndex);
     cellEl.dataset.columnIndex = String(columnIndex);
@@ -775,6 +860,7 @@ export function renderTableFragment(
     const rowMeasure = measure.rows[rowIndex];
 
     if (!row || !rowMeasure) continue;
+    const slice = getRowSlice(fragment, rowIndex);
 
     // First content row in a continuation fragment with headers should draw top border
     const isFirstRowInFragment =
@@ -793,17 +879,18 @@ export function renderTableFragment(
       doc,
       spanningCells,
       rowYPositions,
-      isFirstRowInFragment
+      isFirstRowInFragment,
+      slice
     );
 
     tableEl.appendChild(rowEl);
-    y += rowMeasure.height;
+    y += slice?.height ?? rowMeasure.height;
   }
 
   // Add row resize handles at each row boundary (between consecutive rows)
   let handleY = 0;
   for (let rowIdx = fragment.fromRow; rowIdx < fragment.toRow; rowIdx++) {
-    handleY += measure.rows[rowIdx]?.height ?? 0;
+    handleY += getFragmentRowHeight(fragment, measure, rowIdx);
 
     // Don't add a handle after the last row in this fragment (unless it's the table's last row — that's the bottom edge)
     if (rowIdx < fragment.toRow - 1) {
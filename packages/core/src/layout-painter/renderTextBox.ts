@@ -6,6 +6,7 @@
  * - Border/outline
  * - Internal padding (margins)
  * - Paragraph content inside the box (using pre-measured data)
+ * - Vertical text, laid out horizontally and rotated into the box
  */
 
 import {
@@ -14,6 +15,7 @@ import {
   type TextBoxBlock,
   type TextBoxMeasure,
 } from '../layout-engine/types';
+import { getVerticalTransform } from '../layout-engine/text-direction';
 import type { RenderContext } from './renderPage';
 import { renderParagraphFragment } from './renderParagraph';
 
@@ -79,7 +81,26 @@ export function renderTextBoxFragment(
   }
 
   // Render inner paragraph content using pre-measured data
-  const innerWidth = fragment.width - margins.left - margins.right;
+  let innerWidth = fragment.width - margins.left - margins.right;
+  let contentEl: HTMLElement = containerEl;
+  if (block.textDirection) {
+    // Vertical lines run along the box height
+    const logicalSize = {
+      w: fragment.height - margins.top - margins.bottom,
+      h: innerWidth,
+    };
+    innerWidth = logicalSize.w;
+    contentEl = doc.createElement('div');
+    contentEl.style.position = 'absolute';
+    contentEl.style.left = `${margins.left}px`;
+    contentEl.style.top = `${margins.top}px`;
+    contentEl.style.width = `${logicalSize.w}px`;
+    contentEl.style.height = `${logicalSize.h}px`;
+    contentEl.style.transformOrigin = '0 0';
+    contentEl.style.transform = getVerticalTransform(block.textDirection, logicalSize);
+    contentEl.dataset.textDirection = block.textDirection;
+    containerEl.appendChild(contentEl);
+  }
   let yOffset = 0;
 
   for (let i = 0; i < block.content.length; i++) {
@@ -109,7 +130,7 @@ export function renderTextBoxFragment(
     paraEl.style.left = '0';
     paraEl.style.top = '0';
 
-    containerEl.appendChild(paraEl);
+    contentEl.appendChild(paraEl);
     yOffset += paraMeasure.totalHeight;
   }
 
@@ -0,0 +1,87 @@
+/**
+ * Math Rendering
+ *
+ * OMML → math AST → laid-out box → SVG. The paragraph measurer and the
+ * layout painter share `layoutOmml`, which caches results per equation and
+ * font size so an equation is laid out once per size.
+ */
+
+import { parseOmml, type MathNode } from './ommlParser';
+import { layoutMath, type MathBox, type MathTextMeasurer } from './mathLayout';
+
+export { parseOmml, type MathNode, type MathTextStyle } from './ommlParser';
+export {
+  layoutMath,
+  defaultMathTextMeasurer,
+  MATH_FONT_FAMILY,
+  type MathBox,
+  type MathItem,
+  type MathLayoutOptions,
+  type MathTextMeasurer,
+} from './mathLayout';
+export { renderMathSvg, type MathSvgOptions } from './mathSvg';
+export {
+  parseLinearMath,
+  mathToOmml,
+  mathToLinear,
+  linearMathToOmml,
+  ommlToLinearMath,
+  createEquationOmml,
+  getMathPlainText,
+} from './linearMath';
+
+// ============================================================================
+// CACHED LAYOUT
+// ============================================================================
+
+const MAX_CACHE_SIZE = 500;
+const layoutCache = new Map<string, MathBox>();
+
+/**
+ * Parse and lay out an OMML equation at the given font size (pixels).
+ * Falls back to `fallbackText` when the OMML can't be parsed.
+ */
+export function layoutOmml(
+  ommlXml: string,
+  fontSizePx: number,
+  fallbackText = '',
+  measure?: MathTextMeasurer
+): MathBox {
+  const key = `${fontSizePx}|${ommlXml || fallbackText}`;
+  // Custom measurers bypass the cache — their results aren't comparable
+  const cached = measure ? undefined : layoutCache.get(key);
+  if (cached) return cached;
+
+  const node: MathNode = parseOmml(ommlXml) ?? {
+    type: 'text',
+    text: fallbackText || '[equation]',
+  };
+  const box = layoutMath(node, { fontSize: fontSizePx, measure });
+
+  if (!measure) {
+    if (layoutCache.size >= MAX_CACHE_SIZE) {
+      const oldest = layoutCache.keys().next().value;
+      if (oldest !== undefined) layoutCache.delete(oldest);
+    }
+    layoutCache.set(key, box);
+  }
+  return box;
+}
+
+/**
+ * Lay out a layout-engine math run (font size in points, default 11pt).
+ */
+export function layoutMathRun(run: {
+  ommlXml: string;
+  plainText?: string;
+  fontSize?: number;
+}): MathBox {
+  return layoutOmml(run.ommlXml, ((run.fontSize ?? 11) * 96) / 72, run.plainText);
+}
+
+/**
+ * Clear the equation layout cache (e.g. after web fonts finish loading).
+ */
+export function clearMathLayoutCache(): void {
+  layoutCache.clear();
+}
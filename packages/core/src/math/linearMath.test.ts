@@ -0,0 +1,130 @@
+/**
+ * Unit tests for the linear math format (LaTeX-like input ⇄ OMML)
+ */
+
+import { describe, test, expect } from 'bun:test';
+import {
+  parseLinearMath,
+  linearMathToOmml,
+  ommlToLinearMath,
+  createEquationOmml,
+} from './linearMath';
+import { parseOmml } from './ommlParser';
+
+describe('parseLinearMath', () => {
+  test('parses fractions, scripts and radicals', () => {
+    expect(parseLinearMath('\\frac{a}{b} + x^2 + \\sqrt[3]{y}')).toEqual({
+      type: 'row',
+      children: [
+        {
+          type: 'fraction',
+          num: { type: 'text', text: 'a' },
+          den: { type: 'text', text: 'b' },
+          fracType: 'bar',
+        },
+        { type: 'text', text: '+' },
+        { type: 'script', base: { type: 'text', text: 'x' }, sup: { type: 'text', text: '2' } },
+        { type: 'text', text: '+' },
+        { type: 'radical', base: { type: 'text', text: 'y' }, degree: { type: 'text', text: '3' } },
+      ],
+    });
+  });
+
+  test('supports linear-format shorthands', () => {
+    expect(parseLinearMath('(a+b)/c')).toMatchObject({
+      type: 'fraction',
+      num: { type: 'text', text: 'a+b' },
+      den: { type: 'text', text: 'c' },
+    });
+    // Only the operand next to the slash becomes the numerator
+    expect(parseLinearMath('a+b/c')).toMatchObject({
+      type: 'row',
+      children: [{ type: 'text', text: 'a+' }, { type: 'fraction' }],
+    });
+    expect(parseLinearMath('x^(n+1)')).toMatchObject({
+      type: 'script',
+      sup: { type: 'text', text: 'n+1' },
+    });
+  });
+
+  test('n-ary operators take limits and the following operand', () => {
+    expect(parseLinearMath('\\sum_{i=1}^n i^2 + 1')).toMatchObject({
+      type: 'row',
+      children: [
+        {
+          type: 'nary',
+          chr: '∑',
+          limLoc: 'undOvr',
+          sub: { type: 'text', text: 'i=1' },
+          sup: { type: 'text', text: 'n' },
+          base: { type: 'script' },
+        },
+        { type: 'text', text: '+1' },
+      ],
+    });
+  });
+
+  test('parses functions, symbols and matrices', () => {
+    expect(parseLinearMath('\\sin \\theta')).toEqual({
+      type: 'func',
+      name: { type: 'text', text: 'sin', style: 'plain' },
+      base: { type: 'text', text: 'θ' },
+    });
+    const matrix = parseLinearMath('\\begin{bmatrix} 1 & 0 \\\\ 0 & 1 \\end{bmatrix}');
+    expect(matrix).toMatchObject({ type: 'delimiter', open: '[', close: ']' });
+    expect((matrix as { items: Array<{ rows: unknown[][] }> }).items[0].rows).toHaveLength(2);
+  });
+
+  test('keeps unknown commands and unbalanced brackets as text', () => {
+    expect(parseLinearMath('\\foo')).toEqual({ type: 'text', text: '\\foo' });
+    expect(parseLinearMath('[0, 1)')).toEqual({ type: 'text', text: '[0,1)' });
+  });
+});
+
+describe('OMML conversion', () => {
+  test('produces OMML the parser reads back', () => {
+    const omml = linearMathToOmml('x = \\frac{-b \\pm \\sqrt{b^2-4ac}}{2a}');
+    expect(omml.startsWith('<m:oMath>')).toBe(true);
+    expect(parseOmml(omml)).toEqual(parseLinearMath('x = \\frac{-b \\pm \\sqrt{b^2-4ac}}{2a}'));
+  });
+
+  test('wraps display equations in oMathPara', () => {
+    expect(linearMathToOmml('E = mc^2', 'block')).toMatch(/^<m:oMathPara><m:oMath>/);
+  });
+
+  test('escapes XML special characters', () => {
+    const omml = linearMathToOmml('a < b \\& c');
+    expect(omml).toContain('a&lt;b&amp;c');
+  });
+
+  test('round-trips through the linear format', () => {
+    for (const input of [
+      '\\frac{a+b}{2}',
+      '\\int_{0}^{1} f(x)dx',
+      '\\lim_{x\\to 0} \\frac{\\sin x}{x}',
+      '\\left[x \\middle| y\\right\\}',
+      'f(x)=\\begin{cases}1 & x>0 \\\\ 0 & \\text{otherwise}\\end{cases}',
+      '\\hat{x}\\overline{AB}',
+    ]) {
+      const omml = linearMathToOmml(input);
+      expect(parseOmml(linearMathToOmml(ommlToLinearMath(omml)))).toEqual(parseOmml(omml));
+    }
+  });
+});
+
+describe('createEquationOmml', () => {
+  test('builds OMML and plain text from linear input', () => {
+    expect(createEquationOmml({ latex: 'x^2' })).toEqual({
+      ommlXml: linearMathToOmml('x^2'),
+      plainText: 'x2',
+    });
+  });
+
+  test('wraps given OMML for display equations', () => {
+    const oMath = '<m:oMath><m:r><m:t>x</m:t></m:r></m:oMath>';
+    expect(createEquationOmml({ ommlXml: oMath }, 'block').ommlXml).toBe(
+      `<m:oMathPara>${oMath}</m:oMathPara>`
+    );
+    expect(createEquationOmml({}).ommlXml).toBe('');
+  });
+});
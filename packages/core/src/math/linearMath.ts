@@ -0,0 +1,1163 @@
+/**
+ * Linear Math Format
+ *
+ * Converts between a LaTeX-like linear input format and OMML so equations can
+ * be typed instead of built from XML. The input accepts the common LaTeX math
+ * subset (\frac, \sqrt, ^, _, \sum, \int, \left( \right), matrix
+ * environments, accents, greek letters and operators) plus the Word linear
+ * format shorthands `a/b`, `x^(n+1)` and `√(x)`.
+ *
+ * The parser is lenient: unknown commands are kept as literal text and
+ * unbalanced brackets fall back to plain characters, so any input produces
+ * an equation.
+ */
+
+import { parseOmml, type MathNode, type MathTextStyle } from './ommlParser';
+
+// ============================================================================
+// SYMBOL TABLES
+// ============================================================================
+
+/** Commands that produce a single character */
+const SYMBOLS: Record<string, string> = {
+  // Greek
+  alpha: 'α',
+  beta: 'β',
+  gamma: 'γ',
+  delta: 'δ',
+  epsilon: 'ϵ',
+  varepsilon: 'ε',
+  zeta: 'ζ',
+  eta: 'η',
+  theta: 'θ',
+  vartheta: 'ϑ',
+  iota: 'ι',
+  kappa: 'κ',
+  lambda: 'λ',
+  mu: 'μ',
+  nu: 'ν',
+  xi: 'ξ',
+  pi: 'π',
+  varpi: 'ϖ',
+  rho: 'ρ',
+  varrho: 'ϱ',
+  sigma: 'σ',
+  varsigma: 'ς',
+  tau: 'τ',
+  upsilon: 'υ',
+  phi: 'ϕ',
+  varphi: 'φ',
+  chi: 'χ',
+  psi: 'ψ',
+  omega: 'ω',
+  Gamma: 'Γ',
+  Delta: 'Δ',
+  Theta: 'Θ',
+  Lambda: 'Λ',
+  Xi: 'Ξ',
+  Pi: 'Π',
+  Sigma: 'Σ',
+  Upsilon: 'Υ',
+  Phi: 'Φ',
+  Psi: 'Ψ',
+  Omega: 'Ω',
+  // Binary operators and relations
+  pm: '±',
+  mp: '∓',
+  times: '×',
+  div: '÷',
+  cdot: '·',
+  ast: '∗',
+  circ: '∘',
+  bullet: '∙',
+  leq: '≤',
+  le: '≤',
+  geq: '≥',
+  ge: '≥',
+  neq: '≠',
+  ne: '≠',
+  approx: '≈',
+  equiv: '≡',
+  sim: '∼',
+  simeq: '≃',
+  cong: '≅',
+  propto: '∝',
+  ll: '≪',
+  gg: '≫',
+  to: '→',
+  rightarrow: '→',
+  leftarrow: '←',
+  leftrightarrow: '↔',
+  Rightarrow: '⇒',
+  Leftarrow: '⇐',
+  Leftrightarrow: '⇔',
+  implies: '⇒',
+  iff: '⇔',
+  mapsto: '↦',
+  in: '∈',
+  notin: '∉',
+  ni: '∋',
+  subset: '⊂',
+  supset: '⊃',
+  subseteq: '⊆',
+  supseteq: '⊇',
+  cup: '∪',
+  cap: '∩',
+  setminus: '∖',
+  wedge: '∧',
+  land: '∧',
+  vee: '∨',
+  lor: '∨',
+  neg: '¬',
+  lnot: '¬',
+  oplus: '⊕',
+  otimes: '⊗',
+  perp: '⊥',
+  parallel: '∥',
+  mid: '∣',
+  // Miscellaneous
+  infty: '∞',
+  partial: '∂',
+  nabla: '∇',
+  forall: '∀',
+  exists: '∃',
+  emptyset: '∅',
+  varnothing: '∅',
+  angle: '∠',
+  triangle: '△',
+  degree: '°',
+  prime: '′',
+  hbar: 'ℏ',
+  ell: 'ℓ',
+  Re: 'ℜ',
+  Im: 'ℑ',
+  aleph: 'ℵ',
+  cdots: '⋯',
+  ldots: '…',
+  dots: '…',
+  vdots: '⋮',
+  ddots: '⋱',
+  langle: '⟨',
+  rangle: '⟩',
+  lfloor: '⌊',
+  rfloor: '⌋',
+  lceil: '⌈',
+  rceil: '⌉',
+  vert: '|',
+  Vert: '‖',
+  backslash: '\\',
+  slash: '/',
+  // Spacing
+  ',': ' ',
+  ':': ' ',
+  ';': ' ',
+  ' ': ' ',
+  quad: ' ',
+  qquad: '  ',
+  // Escaped characters
+  '{': '{',
+  '}': '}',
+  '|': '‖',
+  '%': '%',
+  '&': '&',
+  '#': '#',
+  _: '_',
+  '^': '^',
+  $: '$',
+};
+
+/** N-ary operators — limits follow as _{...}^{...} */
+const NARY_OPERATORS: Record<string, string> = {
+  sum: '∑',
+  prod: '∏',
+  coprod: '∐',
+  int: '∫',
+  iint: '∬',
+  iiint: '∭',
+  oint: '∮',
+  bigcup: '⋃',
+  bigcap: '⋂',
+  bigvee: '⋁',
+  bigwedge: '⋀',
+  bigoplus: '⨁',
+  bigotimes: '⨂',
+};
+
+/** Upright function names (sin x, log x, ...) */
+const FUNCTIONS = new Set([
+  'sin',
+  'cos',
+  'tan',
+  'cot',
+  'sec',
+  'csc',
+  'arcsin',
+  'arccos',
+  'arctan',
+  'sinh',
+  'cosh',
+  'tanh',
+  'coth',
+  'log',
+  'ln',
+  'lg',
+  'exp',
+  'det',
+  'dim',
+  'ker',
+  'gcd',
+  'deg',
+  'arg',
+  'hom',
+]);
+
+/** Functions whose subscript goes underneath (lim_{x→0}) */
+const LIMIT_FUNCTIONS = new Set(['lim', 'liminf', 'limsup', 'max', 'min', 'sup', 'inf']);
+
+/** Accent commands → OMML combining characters */
+const ACCENTS: Record<string, string> = {
+  hat: '̂',
+  widehat: '̂',
+  tilde: '̃',
+  widetilde: '̃',
+  bar: '̅',
+  dot: '̇',
+  ddot: '̈',
+  vec: '⃗',
+  check: '̌',
+  breve: '̆',
+  acute: '́',
+  grave: '̀',
+};
+
+/** Delimiter names usable after \left, \right and \middle */
+const DELIMITER_COMMANDS: Record<string, string> = {
+  '{': '{',
+  '}': '}',
+  '|': '‖',
+  langle: '⟨',
+  rangle: '⟩',
+  lfloor: '⌊',
+  rfloor: '⌋',
+  lceil: '⌈',
+  rceil: '⌉',
+  vert: '|',
+  Vert: '‖',
+  lvert: '|',
+  rvert: '|',
+  lVert: '‖',
+  rVert: '‖',
+};
+
+/** Matrix environments and the brackets they add */
+const MATRIX_ENVIRONMENTS: Record<string, [string, string] | null> = {
+  matrix: null,
+  smallmatrix: null,
+  pmatrix: ['(', ')'],
+  bmatrix: ['[', ']'],
+  Bmatrix: ['{', '}'],
+  vmatrix: ['|', '|'],
+  Vmatrix: ['‖', '‖'],
+};
+
+/** Bare brackets that group their content as a stretchy delimiter */
+const BARE_BRACKETS: Record<string, string> = { '(': ')', '[': ']' };
+
+/** Operators that end the operand of an n-ary operator (∑ x_i + 1) */
+const NARY_OPERAND_TERMINATORS = new Set([
+  '+',
+  '−',
+  '=',
+  '<',
+  '>',
+  '±',
+  '∓',
+  '≤',
+  '≥',
+  '≠',
+  '≈',
+  '≡',
+  '→',
+  '⇒',
+  '⇔',
+  ',',
+  ';',
+]);
+
+const UNICODE_NARY = new Set(Object.values(NARY_OPERATORS));
+
+const EMPTY_ROW: MathNode = { type: 'row', children: [] };
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+interface Cursor {
+  src: string;
+  pos: number;
+}
+
+type StopCondition = (c: Cursor) => boolean;
+
+/** Delimiters created from bare brackets — unwrapped when used as an argument */
+const bareDelimiters = new WeakSet<MathNode>();
+
+/** Text nodes created from function commands (\sin, \lim, \operatorname) */
+const functionNames = new WeakSet<MathNode>();
+
+function makeRow(children: MathNode[]): MathNode {
+  return children.length === 1 ? children[0] : { type: 'row', children };
+}
+
+function isEmpty(node: MathNode): boolean {
+  return node.type === 'row' && node.children.length === 0;
+}
+
+function skipSpace(c: Cursor): void {
+  while (c.pos < c.src.length && /\s/.test(c.src[c.pos])) c.pos++;
+}
+
+function atEnd(c: Cursor): boolean {
+  return c.pos >= c.src.length;
+}
+
+/** The command name at the cursor (without the backslash), or null */
+function peekCommand(c: Cursor): string | null {
+  if (c.src[c.pos] !== '\\') return null;
+  const letters = /^[a-zA-Z]+/.exec(c.src.slice(c.pos + 1));
+  if (letters) return letters[0];
+  return c.pos + 1 < c.src.length ? c.src[c.pos + 1] : null;
+}
+
+function readCommand(c: Cursor): string {
+  const name = peekCommand(c) ?? '';
+  c.pos += 1 + name.length;
+  return name;
+}
+
+function readChar(c: Cursor): string {
+  const code = c.src.codePointAt(c.pos) ?? 0;
+  const char = String.fromCodePoint(code);
+  c.pos += char.length;
+  return char;
+}
+
+/** Read a raw `{...}` argument (for \text and \begin) */
+function readRawGroup(c: Cursor): string {
+  skipSpace(c);
+  if (c.src[c.pos] !== '{') return '';
+  let depth = 0;
+  const start = c.pos + 1;
+  while (c.pos < c.src.length) {
+    const char = c.src[c.pos++];
+    if (char === '\\') c.pos++;
+    else if (char === '{') depth++;
+    else if (char === '}' && --depth === 0) return c.src.slice(start, c.pos - 1);
+  }
+  return c.src.slice(start);
+}
+
+/** Append a node to a row, merging adjacent text of the same style into one run */
+function appendNode(children: MathNode[], node: MathNode): void {
+  if (node.type === 'row') {
+    for (const child of node.children) appendNode(children, child);
+    return;
+  }
+  const last = children[children.length - 1];
+  if (node.type === 'text' && last?.type === 'text' && last.style === node.style) {
+    children[children.length - 1] = { ...last, text: last.text + node.text };
+    return;
+  }
+  children.push(node);
+}
+
+function text(value: string, style?: MathTextStyle): MathNode {
+  return style ? { type: 'text', text: value, style } : { type: 'text', text: value };
+}
+
+function parseRow(c: Cursor, stop: StopCondition): MathNode[] {
+  const children: MathNode[] = [];
+  for (;;) {
+    skipSpace(c);
+    if (atEnd(c) || stop(c)) break;
+
+    // Linear-format fraction: the operand before '/' becomes the numerator
+    if (c.src[c.pos] === '/' && children.length > 0) {
+      c.pos++;
+      const num = takeNumerator(children);
+      const den = parseArgument(c, stop);
+      children.push({ type: 'fraction', num, den, fracType: 'bar' });
+      continue;
+    }
+
+    appendNode(children, parseTerm(c, stop));
+  }
+  return children;
+}
+
+/** Remove and return the operand preceding a linear-format '/' */
+function takeNumerator(children: MathNode[]): MathNode {
+  const last = children.pop() as MathNode;
+  if (last.type === 'text') {
+    // Only the trailing word or number of a merged run, so a+b/c is a + b/c
+    const match = /[\p{L}\p{N}.]+$/u.exec(last.text);
+    if (match && match.index > 0) {
+      children.push({ ...last, text: last.text.slice(0, match.index) });
+      return { ...last, text: match[0] };
+    }
+    return last;
+  }
+  return unwrapBare(last);
+}
+
+function unwrapBare(node: MathNode): MathNode {
+  if (node.type === 'delimiter' && bareDelimiters.has(node) && node.items.length === 1) {
+    return node.items[0];
+  }
+  return node;
+}
+
+/** An atom followed by any ^, _ or ' scripts */
+function parseTerm(c: Cursor, stop: StopCondition): MathNode {
+  const atom = parseAtom(c, stop);
+  let sub: MathNode | undefined;
+  let sup: MathNode | undefined;
+
+  for (;;) {
+    skipSpace(c);
+    const char = c.src[c.pos];
+    if (char === '^' || char === '_') {
+      c.pos++;
+      const arg = parseArgument(c, stop);
+      if (char === '^') sup = arg;
+      else sub = arg;
+    } else if (char === "'") {
+      c.pos++;
+      const prime: MathNode = text('′');
+      sup = sup ? makeRow([prime, sup]) : prime;
+    } else {
+      break;
+    }
+  }
+
+  if (atom.type === 'nary') {
+    return { ...atom, sub, sup, base: makeRow(parseRow(c, naryOperandStop(stop))) };
+  }
+
+  const isFunction = functionNames.has(atom);
+  const isLimitFunction = isFunction && atom.type === 'text' && LIMIT_FUNCTIONS.has(atom.text);
+  let scripted: MathNode = atom;
+  if (isLimitFunction && sub) {
+    scripted = { type: 'limit', base: atom, limit: sub, position: 'lower' };
+    if (sup) scripted = { type: 'script', base: scripted, sup };
+  } else if (sub || sup) {
+    scripted = { type: 'script', base: atom, ...(sub && { sub }), ...(sup && { sup }) };
+  }
+
+  // Functions take the following term as their argument
+  if (isFunction) {
+    skipSpace(c);
+    if (!atEnd(c) && !stop(c) && !isOperandTerminator(c)) {
+      return { type: 'func', name: scripted, base: parseTerm(c, stop) };
+    }
+  }
+  return scripted;
+}
+
+function isOperandTerminator(c: Cursor): boolean {
+  const char = c.src[c.pos];
+  if (char === '-' || NARY_OPERAND_TERMINATORS.has(char)) return true;
+  const command = peekCommand(c);
+  return command !== null && NARY_OPERAND_TERMINATORS.has(SYMBOLS[command] ?? '');
+}
+
+function naryOperandStop(stop: StopCondition): StopCondition {
+  return (c) => stop(c) || isOperandTerminator(c);
+}
+
+/**
+ * A script, fraction or radical argument: a {group}, a (bracketed) group
+ * with the brackets dropped, or a single character
+ */
+function parseArgument(c: Cursor, stop: StopCondition): MathNode {
+  skipSpace(c);
+  if (atEnd(c) || stop(c)) return EMPTY_ROW;
+  const char = c.src[c.pos];
+  if (char === '{') return parseGroup(c);
+  if (char === '(') return unwrapBare(parseAtom(c, stop));
+  if (/[0-9]/.test(char)) {
+    c.pos++;
+    return text(char);
+  }
+  return parseAtom(c, stop);
+}
+
+function parseGroup(c: Cursor): MathNode {
+  c.pos++; // {
+  const children = parseRow(c, (cur) => cur.src[cur.pos] === '}');
+  if (c.src[c.pos] === '}') c.pos++;
+  return makeRow(children);
+}
+
+function parseAtom(c: Cursor, stop: StopCondition): MathNode {
+  const char = c.src[c.pos];
+
+  if (char === '\\') return parseCommand(c, stop);
+  if (char === '{') return parseGroup(c);
+
+  if (char in BARE_BRACKETS) {
+    const bracketed = parseBracketed(c, char, BARE_BRACKETS[char], stop);
+    if (bracketed) return bracketed;
+    c.pos++;
+    return text(char);
+  }
+
+  if (/[0-9]/.test(char)) {
+    const number = /^[0-9]+(?:\.[0-9]+)?/.exec(c.src.slice(c.pos))![0];
+    c.pos += number.length;
+    return text(number);
+  }
+
+  const value = readChar(c);
+  if (value === '-') return text('−');
+  if (UNICODE_NARY.has(value)) return naryNode(value);
+  if (value === '√' || value === '∛' || value === '∜') {
+    const base = parseArgument(c, stop);
+    if (value === '√') return { type: 'radical', base };
+    return { type: 'radical', base, degree: text(value === '∛' ? '3' : '4') };
+  }
+  // Stray closers and alignment marks are kept as text / dropped
+  if (value === '&') return EMPTY_ROW;
+  if (value === '}') return EMPTY_ROW;
+  return text(value);
+}
+
+/** Parse `open ... close`; returns null (cursor unchanged) when there's no closer */
+function parseBracketed(
+  c: Cursor,
+  open: string,
+  close: string,
+  stop: StopCondition
+): MathNode | null {
+  const start = c.pos;
+  c.pos += open.length;
+  const children = parseRow(c, (cur) => cur.src.startsWith(close, cur.pos) || stop(cur));
+  if (!c.src.startsWith(close, c.pos)) {
+    c.pos = start;
+    return null;
+  }
+  c.pos += close.length;
+  const node: MathNode = {
+    type: 'delimiter',
+    open,
+    close,
+    separator: '|',
+    items: [makeRow(children)],
+  };
+  bareDelimiters.add(node);
+  return node;
+}
+
+function naryNode(chr: string): MathNode {
+  return {
+    type: 'nary',
+    chr,
+    base: EMPTY_ROW,
+    limLoc: chr === '∫' || chr === '∬' || chr === '∭' || chr === '∮' ? 'subSup' : 'undOvr',
+  };
+}
+
+function functionName(name: string): MathNode {
+  const node = text(name, 'plain');
+  functionNames.add(node);
+  return node;
+}
+
+function parseCommand(c: Cursor, stop: StopCondition): MathNode {
+  const name = readCommand(c);
+
+  if (name in NARY_OPERATORS) return naryNode(NARY_OPERATORS[name]);
+  if (FUNCTIONS.has(name) || LIMIT_FUNCTIONS.has(name)) return functionName(name);
+  if (name in ACCENTS) {
+    return { type: 'accent', chr: ACCENTS[name], base: parseArgument(c, stop) };
+  }
+
+  switch (name) {
+    case 'frac':
+    case 'dfrac':
+    case 'tfrac': {
+      const num = parseArgument(c, stop);
+      const den = parseArgument(c, stop);
+      return { type: 'fraction', num, den, fracType: 'bar' };
+    }
+    case 'binom': {
+      const num = parseArgument(c, stop);
+      const den = parseArgument(c, stop);
+      return {
+        type: 'delimiter',
+        open: '(',
+        close: ')',
+        separator: '|',
+        items: [{ type: 'fraction', num, den, fracType: 'noBar' }],
+      };
+    }
+    case 'sqrt': {
+      skipSpace(c);
+      let degree: MathNode | undefined;
+      if (c.src[c.pos] === '[') {
+        c.pos++;
+        degree = makeRow(parseRow(c, (cur) => cur.src[cur.pos] === ']' || stop(cur)));
+        if (c.src[c.pos] === ']') c.pos++;
+      }
+      const base = parseArgument(c, stop);
+      return degree && !isEmpty(degree)
+        ? { type: 'radical', base, degree }
+        : { type: 'radical', base };
+    }
+    case 'overline':
+    case 'underline':
+      return {
+        type: 'bar',
+        position: name === 'overline' ? 'top' : 'bot',
+        base: parseArgument(c, stop),
+      };
+    case 'overbrace':
+    case 'underbrace':
+      return {
+        type: 'groupChr',
+        chr: name === 'overbrace' ? '⏞' : '⏟',
+        position: name === 'overbrace' ? 'top' : 'bot',
+        base: parseArgument(c, stop),
+      };
+    case 'overset':
+    case 'underset': {
+      const limit = parseArgument(c, stop);
+      const base = parseArgument(c, stop);
+      return { type: 'limit', base, limit, position: name === 'overset' ? 'upper' : 'lower' };
+    }
+    case 'boxed':
+      return { type: 'borderBox', base: parseArgument(c, stop) };
+    case 'text':
+    case 'textrm':
+    case 'mathrm':
+    case 'textnormal':
+      return text(readRawGroup(c), 'plain');
+    case 'operatorname':
+      return functionName(readRawGroup(c));
+    case 'mathbf':
+    case 'textbf':
+      return text(readRawGroup(c), 'bold');
+    case 'mathit':
+    case 'textit':
+      return text(readRawGroup(c), 'italic');
+    case 'left':
+      return parseLeftRight(c);
+    case 'begin':
+      return parseEnvironment(c, readRawGroup(c));
+    case '!':
+      return EMPTY_ROW;
+  }
+
+  if (name in SYMBOLS) return text(SYMBOLS[name]);
+  // Unknown command — keep it visible so typos are easy to spot
+  return text(`\\${name}`);
+}
+
+/** Read the delimiter after \left, \right or \middle ('.' means none) */
+function readDelimiter(c: Cursor): string {
+  skipSpace(c);
+  if (c.src[c.pos] === '\\') {
+    const name = readCommand(c);
+    return DELIMITER_COMMANDS[name] ?? '';
+  }
+  const char = readChar(c);
+  return char === '.' ? '' : char;
+}
+
+function parseLeftRight(c: Cursor): MathNode {
+  const open = readDelimiter(c);
+  const items: MathNode[] = [];
+  let separator = '|';
+  let close = '';
+  const atRightOrMiddle: StopCondition = (cur) => {
+    const command = peekCommand(cur);
+    return command === 'right' || command === 'middle';
+  };
+
+  for (;;) {
+    items.push(makeRow(parseRow(c, atRightOrMiddle)));
+    if (atEnd(c)) break;
+    const command = readCommand(c);
+    const delimiter = readDelimiter(c);
+    if (command === 'right') {
+      close = delimiter;
+      break;
+    }
+    separator = delimiter;
+  }
+  return { type: 'delimiter', open, close, separator, items };
+}
+
+function parseEnvironment(c: Cursor, env: string): MathNode {
+  const atCellEnd: StopCondition = (cur) =>
+    cur.src[cur.pos] === '&' || cur.src.startsWith('\\\\', cur.pos) || peekCommand(cur) === 'end';
+
+  const rows: MathNode[][] = [[]];
+  for (;;) {
+    rows[rows.length - 1].push(makeRow(parseRow(c, atCellEnd)));
+    if (atEnd(c)) break;
+    if (c.src[c.pos] === '&') {
+      c.pos++;
+    } else if (c.src.startsWith('\\\\', c.pos)) {
+      c.pos += 2;
+      rows.push([]);
+    } else {
+      readCommand(c); // \end
+      readRawGroup(c);
+      break;
+    }
+  }
+  // A trailing \\ leaves an empty last row
+  const last = rows[rows.length - 1];
+  if (rows.length > 1 && last.length === 1 && isEmpty(last[0])) rows.pop();
+
+  if (env === 'cases') {
+    return {
+      type: 'delimiter',
+      open: '{',
+      close: '',
+      separator: '|',
+      items: [{ type: 'matrix', rows }],
+    };
+  }
+  if (env in MATRIX_ENVIRONMENTS) {
+    const matrix: MathNode = { type: 'matrix', rows };
+    const brackets = MATRIX_ENVIRONMENTS[env];
+    if (!brackets) return matrix;
+    return {
+      type: 'delimiter',
+      open: brackets[0],
+      close: brackets[1],
+      separator: '|',
+      items: [matrix],
+    };
+  }
+  // aligned, align, gathered, ... — stack the rows, cells side by side
+  return { type: 'eqArray', rows: rows.map((cells) => makeRow(cells)) };
+}
+
+/**
+ * Parse LaTeX-like / linear-format math input into a math AST.
+ * Lines separated by `\\` become an equation array.
+ */
+export function parseLinearMath(input: string): MathNode {
+  const c: Cursor = { src: input, pos: 0 };
+  const lines: MathNode[] = [];
+  for (;;) {
+    lines.push(makeRow(parseRow(c, (cur) => cur.src.startsWith('\\\\', cur.pos))));
+    if (atEnd(c)) break;
+    c.pos += 2;
+  }
+  return lines.length === 1 ? lines[0] : { type: 'eqArray', rows: lines };
+}
+
+// ============================================================================
+// OMML SERIALIZATION
+// ============================================================================
+
+const STYLE_VALUES: Record<MathTextStyle, string> = {
+  italic: 'i',
+  plain: 'p',
+  bold: 'b',
+  boldItalic: 'bi',
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function prop(name: string, value: string): string {
+  return `<m:${name} m:val="${escapeXml(value)}"/>`;
+}
+
+function wrap(name: string, node: MathNode): string {
+  return `<m:${name}>${toOmml(node)}</m:${name}>`;
+}
+
+function toOmml(node: MathNode): string {
+  switch (node.type) {
+    case 'row':
+      return node.children.map(toOmml).join('');
+    case 'text': {
+      const rPr = node.style ? `<m:rPr>${prop('sty', STYLE_VALUES[node.style])}</m:rPr>` : '';
+      return (
+        `<m:r>${rPr}<w:rPr><w:rFonts w:ascii="Cambria Math" w:hAnsi="Cambria Math"/></w:rPr>` +
+        `<m:t xml:space="preserve">${escapeXml(node.text)}</m:t></m:r>`
+      );
+    }
+    case 'fraction': {
+      const fPr = node.fracType === 'bar' ? '' : `<m:fPr>${prop('type', node.fracType)}</m:fPr>`;
+      return `<m:f>${fPr}${wrap('num', node.num)}${wrap('den', node.den)}</m:f>`;
+    }
+    case 'radical':
+      return node.degree
+        ? `<m:rad>${wrap('deg', node.degree)}${wrap('e', node.base)}</m:rad>`
+        : `<m:rad><m:radPr>${prop('degHide', '1')}</m:radPr><m:deg/>${wrap('e', node.base)}</m:rad>`;
+    case 'script': {
+      const sub = node.sub ?? EMPTY_ROW;
+      const sup = node.sup ?? EMPTY_ROW;
+      if (node.pre) {
+        return `<m:sPre>${wrap('sub', sub)}${wrap('sup', sup)}${wrap('e', node.base)}</m:sPre>`;
+      }
+      if (node.sub && node.sup) {
+        return `<m:sSubSup>${wrap('e', node.base)}${wrap('sub', sub)}${wrap('sup', sup)}</m:sSubSup>`;
+      }
+      if (node.sub) return `<m:sSub>${wrap('e', node.base)}${wrap('sub', sub)}</m:sSub>`;
+      return `<m:sSup>${wrap('e', node.base)}${wrap('sup', sup)}</m:sSup>`;
+    }
+    case 'nary': {
+      const props =
+        prop('chr', node.chr) +
+        prop('limLoc', node.limLoc) +
+        (node.sub ? '' : prop('subHide', '1')) +
+        (node.sup ? '' : prop('supHide', '1'));
+      return (
+        `<m:nary><m:naryPr>${props}</m:naryPr>` +
+        `${wrap('sub', node.sub ?? EMPTY_ROW)}${wrap('sup', node.sup ?? EMPTY_ROW)}` +
+        `${wrap('e', node.base)}</m:nary>`
+      );
+    }
+    case 'delimiter': {
+      const props =
+        (node.open === '(' ? '' : prop('begChr', node.open)) +
+        (node.separator === '|' ? '' : prop('sepChr', node.separator)) +
+        (node.close === ')' ? '' : prop('endChr', node.close));
+      const dPr = props ? `<m:dPr>${props}</m:dPr>` : '';
+      return `<m:d>${dPr}${node.items.map((item) => wrap('e', item)).join('')}</m:d>`;
+    }
+    case 'matrix': {
+      const columns = Math.max(1, ...node.rows.map((row) => row.length));
+      const mPr =
+        `<m:mPr><m:mcs><m:mc><m:mcPr>${prop('count', String(columns))}` +
+        `${prop('mcJc', 'center')}</m:mcPr></m:mc></m:mcs></m:mPr>`;
+      const rows = node.rows.map((row) => {
+        // Every row needs the full column count
+        const cells = [...row];
+        while (cells.length < columns) cells.push(EMPTY_ROW);
+        return `<m:mr>${cells.map((cell) => wrap('e', cell)).join('')}</m:mr>`;
+      });
+      return `<m:m>${mPr}${rows.join('')}</m:m>`;
+    }
+    case 'eqArray':
+      return `<m:eqArr>${node.rows.map((row) => wrap('e', row)).join('')}</m:eqArr>`;
+    case 'accent':
+      return `<m:acc><m:accPr>${prop('chr', node.chr)}</m:accPr>${wrap('e', node.base)}</m:acc>`;
+    case 'bar':
+      return `<m:bar><m:barPr>${prop('pos', node.position)}</m:barPr>${wrap('e', node.base)}</m:bar>`;
+    case 'groupChr':
+      return (
+        `<m:groupChr><m:groupChrPr>${prop('chr', node.chr)}${prop('pos', node.position)}` +
+        `${prop('vertJc', node.position === 'top' ? 'bot' : 'top')}</m:groupChrPr>` +
+        `${wrap('e', node.base)}</m:groupChr>`
+      );
+    case 'limit': {
+      const name = node.position === 'lower' ? 'limLow' : 'limUpp';
+      return `<m:${name}>${wrap('e', node.base)}${wrap('lim', node.limit)}</m:${name}>`;
+    }
+    case 'func':
+      return `<m:func>${wrap('fName', node.name)}${wrap('e', node.base)}</m:func>`;
+    case 'borderBox':
+      return `<m:borderBox>${wrap('e', node.base)}</m:borderBox>`;
+  }
+}
+
+/**
+ * Serialize a math AST to an `m:oMath` element, or an `m:oMathPara` for a
+ * display (block) equation.
+ */
+export function mathToOmml(node: MathNode, display: 'inline' | 'block' = 'inline'): string {
+  const oMath = `<m:oMath>${toOmml(node)}</m:oMath>`;
+  return display === 'block' ? `<m:oMathPara>${oMath}</m:oMathPara>` : oMath;
+}
+
+/**
+ * Convert LaTeX-like / linear-format input to OMML.
+ */
+export function linearMathToOmml(input: string, display: 'inline' | 'block' = 'inline'): string {
+  return mathToOmml(parseLinearMath(input), display);
+}
+
+/**
+ * Build the OMML and plain text for a new equation from either linear-format
+ * input or existing OMML. A block equation's OMML is wrapped in `m:oMathPara`.
+ * Returns an empty `ommlXml` when neither source is given.
+ */
+export function createEquationOmml(
+  source: { latex?: string; ommlXml?: string },
+  display: 'inline' | 'block' = 'inline'
+): { ommlXml: string; plainText: string } {
+  if (source.ommlXml) {
+    const node = parseOmml(source.ommlXml);
+    const isPara = /^\s*<m:oMathPara[\s>]/.test(source.ommlXml);
+    return {
+      ommlXml:
+        display === 'block' && !isPara
+          ? `<m:oMathPara>${source.ommlXml}</m:oMathPara>`
+          : source.ommlXml,
+      plainText: node ? getMathPlainText(node) : '',
+    };
+  }
+  if (source.latex?.trim()) {
+    const node = parseLinearMath(source.latex);
+    return { ommlXml: mathToOmml(node, display), plainText: getMathPlainText(node) };
+  }
+  return { ommlXml: '', plainText: '' };
+}
+
+/**
+ * The plain text of an equation — its run text in document order, the same
+ * text the DOCX parser stores as `plainText`.
+ */
+export function getMathPlainText(node: MathNode): string {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'row':
+      return node.children.map(getMathPlainText).join('');
+    case 'fraction':
+      return getMathPlainText(node.num) + getMathPlainText(node.den);
+    case 'radical':
+      return (node.degree ? getMathPlainText(node.degree) : '') + getMathPlainText(node.base);
+    case 'script':
+      return [
+        node.pre ? undefined : node.base,
+        node.sub,
+        node.sup,
+        node.pre ? node.base : undefined,
+      ]
+        .map((part) => (part ? getMathPlainText(part) : ''))
+        .join('');
+    case 'nary':
+      return (
+        (node.sub ? getMathPlainText(node.sub) : '') +
+        (node.sup ? getMathPlainText(node.sup) : '') +
+        getMathPlainText(node.base)
+      );
+    case 'delimiter':
+      return node.items.map(getMathPlainText).join('');
+    case 'matrix':
+      return node.rows.map((row) => row.map(getMathPlainText).join('')).join('');
+    case 'eqArray':
+      return node.rows.map(getMathPlainText).join('');
+    case 'limit':
+      return getMathPlainText(node.base) + getMathPlainText(node.limit);
+    case 'func':
+      return getMathPlainText(node.name) + getMathPlainText(node.base);
+    case 'accent':
+    case 'bar':
+    case 'groupChr':
+    case 'borderBox':
+      return getMathPlainText(node.base);
+  }
+}
+
+// ============================================================================
+// LINEAR SERIALIZATION
+// ============================================================================
+
+/** Characters that must be written as commands to survive a round trip */
+const ESCAPED_CHARS: Record<string, string> = {
+  '{': '\\{',
+  '}': '\\}',
+  '\\': '\\backslash ',
+  '/': '\\slash ',
+  '&': '\\&',
+  '%': '\\%',
+  '#': '\\#',
+  _: '\\_',
+  '^': '\\^',
+  '−': '-',
+};
+
+/** Character → command, built from the symbol tables (first name wins) */
+const CHAR_COMMANDS: Record<string, string> = (() => {
+  const map: Record<string, string> = {};
+  for (const [name, char] of Object.entries(SYMBOLS)) {
+    if (/^[a-zA-Z]+$/.test(name) && !(char in map) && char.length === 1) map[char] = `\\${name} `;
+  }
+  for (const [name, char] of Object.entries(NARY_OPERATORS)) map[char] = `\\${name} `;
+  // Plain characters that happen to have a command
+  delete map['|'];
+  delete map['/'];
+  // Spaces would be skipped as whitespace when parsed back
+  map['\u2009'] = '\\,';
+  map['\u2005'] = '\\:';
+  map['\u2004'] = '\\;';
+  map['\u2003'] = '\\quad ';
+  map[' '] = '\\ ';
+  return map;
+})();
+
+const ACCENT_COMMANDS: Record<string, string> = {
+  '̂': 'hat',
+  '̃': 'tilde',
+  '̅': 'bar',
+  '̄': 'bar',
+  '̇': 'dot',
+  '̈': 'ddot',
+  '⃗': 'vec',
+  '̌': 'check',
+  '̆': 'breve',
+  '́': 'acute',
+  '̀': 'grave',
+};
+
+const DELIMITER_LINEAR: Record<string, string> = {
+  '': '.',
+  '{': '\\{',
+  '}': '\\}',
+  '‖': '\\|',
+  '⟨': '\\langle ',
+  '⟩': '\\rangle ',
+};
+
+function textToLinear(node: Extract<MathNode, { type: 'text' }>): string {
+  if (node.style === 'plain') {
+    if (FUNCTIONS.has(node.text) || LIMIT_FUNCTIONS.has(node.text)) return `\\${node.text} `;
+    return `\\text{${node.text}}`;
+  }
+  if (node.style === 'bold') return `\\mathbf{${node.text}}`;
+  let out = '';
+  for (const char of node.text) {
+    out += ESCAPED_CHARS[char] ?? CHAR_COMMANDS[char] ?? char;
+  }
+  return out;
+}
+
+function group(node: MathNode): string {
+  return `{${toLinear(node).trim()}}`;
+}
+
+/** A script base — single characters stay bare, anything else is grouped */
+function scriptBase(node: MathNode): string {
+  if (node.type === 'text' && Array.from(node.text).length === 1 && !node.style) {
+    return toLinear(node);
+  }
+  if (node.type === 'text' && node.style === 'plain' && FUNCTIONS.has(node.text)) {
+    return `\\${node.text}`;
+  }
+  if (node.type === 'delimiter' || node.type === 'func') return toLinear(node);
+  return group(node);
+}
+
+function scriptsToLinear(sub?: MathNode, sup?: MathNode): string {
+  return (sub ? `_${group(sub)}` : '') + (sup ? `^${group(sup)}` : '');
+}
+
+function delimiterToLinear(node: Extract<MathNode, { type: 'delimiter' }>): string {
+  if (node.items.length === 1) {
+    const item = node.items[0];
+    if (item.type === 'matrix') {
+      const env = Object.entries(MATRIX_ENVIRONMENTS).find(
+        ([, brackets]) => brackets && brackets[0] === node.open && brackets[1] === node.close
+      )?.[0];
+      if (env) return matrixToLinear(item, env);
+      if (node.open === '{' && node.close === '') return matrixToLinear(item, 'cases');
+    }
+    if (node.items[0].type === 'fraction' && node.items[0].fracType === 'noBar') {
+      if (node.open === '(' && node.close === ')') {
+        return `\\binom${group(node.items[0].num)}${group(node.items[0].den)}`;
+      }
+    }
+    // Bare brackets parse back to the same stretchy delimiter
+    if (BARE_BRACKETS[node.open] === node.close) {
+      return `${node.open}${toLinear(item).trim()}${node.close}`;
+    }
+  }
+  const open = DELIMITER_LINEAR[node.open] ?? node.open;
+  const close = DELIMITER_LINEAR[node.close] ?? node.close;
+  const separator = ` \\middle${DELIMITER_LINEAR[node.separator] ?? node.separator} `;
+  return `\\left${open}${node.items.map((item) => toLinear(item).trim()).join(separator)}\\right${close}`;
+}
+
+function matrixToLinear(node: Extract<MathNode, { type: 'matrix' }>, env: string): string {
+  const rows = node.rows.map((row) => row.map((cell) => toLinear(cell).trim()).join(' & '));
+  return `\\begin{${env}}${rows.join(' \\\\ ')}\\end{${env}}`;
+}
+
+function toLinear(node: MathNode): string {
+  switch (node.type) {
+    case 'row':
+      return node.children.map(toLinear).join('');
+    case 'text':
+      return textToLinear(node);
+    case 'fraction':
+      return `\\frac${group(node.num)}${group(node.den)}`;
+    case 'radical':
+      return `\\sqrt${node.degree ? `[${toLinear(node.degree).trim()}]` : ''}${group(node.base)}`;
+    case 'script':
+      if (node.pre) return `{}${scriptsToLinear(node.sub, node.sup)}${scriptBase(node.base)}`;
+      return scriptBase(node.base) + scriptsToLinear(node.sub, node.sup);
+    case 'nary': {
+      const command = Object.entries(NARY_OPERATORS).find(([, chr]) => chr === node.chr)?.[0];
+      return `${command ? `\\${command}` : node.chr}${scriptsToLinear(node.sub, node.sup)} ${toLinear(node.base).trim()}`;
+    }
+    case 'delimiter':
+      return delimiterToLinear(node);
+    case 'matrix':
+      return matrixToLinear(node, 'matrix');
+    case 'eqArray':
+      return `\\begin{aligned}${node.rows.map((row) => toLinear(row).trim()).join(' \\\\ ')}\\end{aligned}`;
+    case 'accent':
+      return `\\${ACCENT_COMMANDS[node.chr] ?? 'hat'}${group(node.base)}`;
+    case 'bar':
+      return `\\${node.position === 'top' ? 'overline' : 'underline'}${group(node.base)}`;
+    case 'groupChr':
+      return `\\${node.position === 'top' ? 'overbrace' : 'underbrace'}${group(node.base)}`;
+    case 'limit':
+      if (
+        node.position === 'lower' &&
+        node.base.type === 'text' &&
+        node.base.style === 'plain' &&
+        LIMIT_FUNCTIONS.has(node.base.text)
+      ) {
+        return `\\${node.base.text}_${group(node.limit)} `;
+      }
+      return `\\${node.position === 'lower' ? 'underset' : 'overset'}${group(node.limit)}${group(node.base)}`;
+    case 'func': {
+      const name =
+        node.name.type === 'text' &&
+        node.name.style === 'plain' &&
+        !FUNCTIONS.has(node.name.text) &&
+        !LIMIT_FUNCTIONS.has(node.name.text)
+          ? `\\operatorname{${node.name.text}}`
+          : toLinear(node.name).trim();
+      return `${name} ${toLinear(node.base).trim()}`;
+    }
+    case 'borderBox':
+      return `\\boxed${group(node.base)}`;
+  }
+}
+
+/**
+ * Serialize a math AST to the LaTeX-like linear format.
+ */
+export function mathToLinear(node: MathNode): string {
+  if (node.type === 'eqArray') {
+    return node.rows.map((row) => toLinear(row).trim()).join(' \\\\ ');
+  }
+  return toLinear(node).replace(/ {2,}/g, ' ').trim();
+}
+
+/**
+ * Convert OMML to the linear format for editing. Returns '' when the OMML
+ * can't be parsed.
+ */
+export function ommlToLinearMath(ommlXml: string): string {
+  const node = parseOmml(ommlXml);
+  return node ? mathToLinear(node) : '';
+}
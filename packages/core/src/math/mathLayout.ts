@@ -0,0 +1,783 @@
+/**
+ * Math Layout
+ *
+ * Lays out a math AST (see ommlParser.ts) into a box with width, ascent and
+ * descent plus a flat list of positioned drawing items. The box is what the
+ * paragraph measurer reserves on a line; the items are what the painter
+ * draws (see mathSvg.ts).
+ *
+ * Coordinates are in pixels with the baseline at y = 0 and y growing
+ * downwards (SVG convention), so content above the baseline has negative y.
+ *
+ * Glyph widths come from an injectable measurer — canvas in the browser, a
+ * character-width approximation when no DOM is available.
+ */
+
+import type { MathNode, MathTextStyle } from './ommlParser';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A positioned drawing primitive.
+ */
+export type MathItem =
+  | {
+      kind: 'text';
+      x: number;
+      /** Baseline */
+      y: number;
+      text: string;
+      /** Font size in pixels */
+      fontSize: number;
+      italic: boolean;
+      bold: boolean;
+      /** Vertical stretch around `originY` (stretchy delimiters) */
+      scaleY?: number;
+      /** Horizontal stretch around `originX` (group characters) */
+      scaleX?: number;
+      originX?: number;
+      originY?: number;
+    }
+  | { kind: 'rule'; x: number; y: number; width: number; height: number }
+  | { kind: 'path'; d: string; strokeWidth: number };
+
+/**
+ * A laid-out piece of math.
+ */
+export interface MathBox {
+  width: number;
+  /** Height above the baseline */
+  ascent: number;
+  /** Depth below the baseline */
+  descent: number;
+  items: MathItem[];
+}
+
+/**
+ * Measure the advance width of `text` in the math font.
+ */
+export type MathTextMeasurer = (
+  text: string,
+  fontSizePx: number,
+  italic: boolean,
+  bold: boolean
+) => number;
+
+export interface MathLayoutOptions {
+  /** Base font size in pixels */
+  fontSize: number;
+  /** Glyph measurer (defaults to canvas, or an approximation without DOM) */
+  measure?: MathTextMeasurer;
+}
+
+interface LayoutContext {
+  fontSize: number;
+  measure: MathTextMeasurer;
+  /** Nesting depth of scripts/limits — drives the size reduction */
+  scriptLevel: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** CSS font stack for math glyphs */
+export const MATH_FONT_FAMILY =
+  "'Cambria Math', 'Latin Modern Math', 'STIX Two Math', 'Times New Roman', serif";
+
+/** Approximate glyph ascent/descent as a fraction of the font size */
+const TEXT_ASCENT = 0.75;
+const TEXT_DESCENT = 0.25;
+
+/** Height of the math axis (fraction bars, operator centers) above the baseline, in em */
+const AXIS_HEIGHT = 0.25;
+
+/** Scripts and limits are drawn at this fraction of their parent's size */
+const SCRIPT_SCALE = 0.7;
+const MIN_SCRIPT_FONT_SIZE = 6;
+
+/** Large operators (∑, ∫, ...) relative to the base size */
+const NARY_SCALE = 1.4;
+
+/** Operators that get medium space on both sides */
+const SPACED_OPERATORS = new Set([
+  '+',
+  '−',
+  '-',
+  '=',
+  '<',
+  '>',
+  '±',
+  '∓',
+  '×',
+  '÷',
+  '·',
+  '≤',
+  '≥',
+  '≠',
+  '≈',
+  '≡',
+  '∼',
+  '≅',
+  '∝',
+  '→',
+  '←',
+  '↔',
+  '⇒',
+  '⇐',
+  '⇔',
+  '∈',
+  '∉',
+  '⊂',
+  '⊃',
+  '⊆',
+  '⊇',
+  '∪',
+  '∩',
+]);
+
+/** Combining accents mapped to their spacing forms (combining marks need a base glyph) */
+const SPACING_ACCENTS: Record<string, string> = {
+  '̀': '`',
+  '́': '´',
+  '̂': 'ˆ',
+  '̃': '˜',
+  '̄': '¯',
+  '̅': '¯',
+  '̆': '˘',
+  '̇': '˙',
+  '̈': '¨',
+  '̌': 'ˇ',
+  '⃗': '→',
+  '⃖': '←',
+};
+
+// ============================================================================
+// MEASUREMENT
+// ============================================================================
+
+let measureCanvasContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Default measurer: canvas when a DOM is present, otherwise an estimate of
+ * about half an em per character (wider for operators, narrower for spaces).
+ */
+export const defaultMathTextMeasurer: MathTextMeasurer = (text, fontSizePx, italic, bold) => {
+  if (!measureCanvasContext && typeof document !== 'undefined') {
+    measureCanvasContext = document.createElement('canvas').getContext('2d');
+  }
+  if (measureCanvasContext) {
+    measureCanvasContext.font = `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}${fontSizePx}px ${MATH_FONT_FAMILY}`;
+    return measureCanvasContext.measureText(text).width;
+  }
+  let width = 0;
+  for (const char of text) {
+    if (char === ' ') width += 0.25;
+    else if (char === ' ') width += 0.17;
+    else if (SPACED_OPERATORS.has(char)) width += 0.7;
+    else width += 0.55;
+  }
+  return width * fontSizePx;
+};
+
+// ============================================================================
+// BOX HELPERS
+// ============================================================================
+
+function emptyBox(ctx: LayoutContext): MathBox {
+  return { width: 0, ascent: ctx.fontSize * TEXT_ASCENT, descent: 0, items: [] };
+}
+
+/** Translate a box's items by (dx, dy) */
+function placeItems(box: MathBox, dx: number, dy: number): MathItem[] {
+  if (dx === 0 && dy === 0) return box.items;
+  return box.items.map((item): MathItem => {
+    switch (item.kind) {
+      case 'text':
+        return {
+          ...item,
+          x: item.x + dx,
+          y: item.y + dy,
+          ...(item.originX !== undefined ? { originX: item.originX + dx } : {}),
+          ...(item.originY !== undefined ? { originY: item.originY + dy } : {}),
+        };
+      case 'rule':
+        return { ...item, x: item.x + dx, y: item.y + dy };
+      case 'path':
+        return { ...item, d: translatePath(item.d, dx, dy) };
+    }
+  });
+}
+
+/** Translate an absolute M/L path ("M x y L x y ...") */
+function translatePath(d: string, dx: number, dy: number): string {
+  const parts = d.split(' ');
+  const out: string[] = [];
+  let axis = 0;
+  for (const part of parts) {
+    if (part === 'M' || part === 'L' || part === 'Z') {
+      out.push(part);
+      axis = 0;
+    } else {
+      out.push(round(parseFloat(part) + (axis === 0 ? dx : dy)));
+      axis = 1 - axis;
+    }
+  }
+  return out.join(' ');
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function pathFrom(points: Array<[number, number]>, close = false): string {
+  const commands = points.map(([x, y], i) => `${i === 0 ? 'M' : 'L'} ${round(x)} ${round(y)}`);
+  if (close) commands.push('Z');
+  return commands.join(' ');
+}
+
+function scriptContext(ctx: LayoutContext): LayoutContext {
+  return {
+    ...ctx,
+    fontSize: Math.max(MIN_SCRIPT_FONT_SIZE, ctx.fontSize * SCRIPT_SCALE),
+    scriptLevel: ctx.scriptLevel + 1,
+  };
+}
+
+function ruleThickness(ctx: LayoutContext): number {
+  return Math.max(1, ctx.fontSize * 0.06);
+}
+
+/** Place boxes side by side on a common baseline */
+function hbox(boxes: MathBox[]): MathBox {
+  let x = 0;
+  let ascent = 0;
+  let descent = 0;
+  const items: MathItem[] = [];
+  for (const box of boxes) {
+    items.push(...placeItems(box, x, 0));
+    x += box.width;
+    ascent = Math.max(ascent, box.ascent);
+    descent = Math.max(descent, box.descent);
+  }
+  return { width: x, ascent, descent, items };
+}
+
+/** Stack rows vertically, centered horizontally, with the whole stack centered on the axis */
+function vstackOnAxis(rows: MathBox[], gap: number, ctx: LayoutContext): MathBox {
+  if (rows.length === 0) return emptyBox(ctx);
+  const width = Math.max(...rows.map((row) => row.width));
+  const height =
+    rows.reduce((sum, row) => sum + row.ascent + row.descent, 0) + gap * (rows.length - 1);
+  const top = -(ctx.fontSize * AXIS_HEIGHT) - height / 2;
+
+  const items: MathItem[] = [];
+  let y = top;
+  for (const row of rows) {
+    items.push(...placeItems(row, (width - row.width) / 2, y + row.ascent));
+    y += row.ascent + row.descent + gap;
+  }
+  return { width, ascent: -top, descent: top + height, items };
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+function textItem(
+  text: string,
+  x: number,
+  y: number,
+  ctx: LayoutContext,
+  italic: boolean,
+  bold: boolean
+): MathItem {
+  return { kind: 'text', x, y, text, fontSize: ctx.fontSize, italic, bold };
+}
+
+/**
+ * Lay out a text run. Letters are italic by default (OMML math style);
+ * digits and operators stay upright, and binary/relation operators get
+ * medium space on both sides.
+ */
+function layoutText(text: string, style: MathTextStyle | undefined, ctx: LayoutContext): MathBox {
+  const bold = style === 'bold' || style === 'boldItalic';
+  const forceUpright = style === 'plain' || style === 'bold';
+  const opSpace = ctx.scriptLevel === 0 ? ctx.fontSize * 0.22 : ctx.fontSize * 0.1;
+
+  const items: MathItem[] = [];
+  let x = 0;
+  let segment = '';
+  let segmentItalic = false;
+
+  const flush = () => {
+    if (!segment) return;
+    items.push(textItem(segment, x, 0, ctx, segmentItalic, bold));
+    x += ctx.measure(segment, ctx.fontSize, segmentItalic, bold);
+    segment = '';
+  };
+
+  const chars = Array.from(text);
+  chars.forEach((char, index) => {
+    if (!forceUpright && SPACED_OPERATORS.has(char)) {
+      flush();
+      // A leading sign (e.g. "-x") is unary — no space before it
+      const unary = index === 0 && (char === '-' || char === '−' || char === '+');
+      if (!unary) x += opSpace;
+      items.push(textItem(char === '-' ? '−' : char, x, 0, ctx, false, bold));
+      x += ctx.measure(char === '-' ? '−' : char, ctx.fontSize, false, bold);
+      if (!unary) x += opSpace;
+      return;
+    }
+    const italic = !forceUpright && /\p{L}/u.test(char);
+    if (segment && italic !== segmentItalic) flush();
+    segmentItalic = italic;
+    segment += char;
+  });
+  flush();
+
+  return {
+    width: x,
+    ascent: ctx.fontSize * TEXT_ASCENT,
+    descent: ctx.fontSize * TEXT_DESCENT,
+    items,
+  };
+}
+
+function layoutFraction(
+  node: Extract<MathNode, { type: 'fraction' }>,
+  ctx: LayoutContext
+): MathBox {
+  if (node.fracType === 'lin' || node.fracType === 'skw') {
+    return hbox([
+      layoutNode(node.num, ctx),
+      layoutText('/', 'plain', ctx),
+      layoutNode(node.den, ctx),
+    ]);
+  }
+
+  // Nested fractions shrink like scripts; top-level ones keep the base size
+  const partCtx = ctx.scriptLevel > 0 ? scriptContext(ctx) : ctx;
+  const num = layoutNode(node.num, partCtx);
+  const den = layoutNode(node.den, partCtx);
+  const thickness = ruleThickness(ctx);
+  const gap = ctx.fontSize * 0.12;
+  const pad = ctx.fontSize * 0.1;
+  const axis = ctx.fontSize * AXIS_HEIGHT;
+  const width = Math.max(num.width, den.width) + pad * 2;
+
+  const numBaseline = -axis - thickness / 2 - gap - num.descent;
+  const denBaseline = -axis + thickness / 2 + gap + den.ascent;
+
+  const items: MathItem[] = [
+    ...placeItems(num, (width - num.width) / 2, numBaseline),
+    ...placeItems(den, (width - den.width) / 2, denBaseline),
+  ];
+  if (node.fracType === 'bar') {
+    items.push({ kind: 'rule', x: 0, y: -axis - thickness / 2, width, height: thickness });
+  }
+
+  return {
+    width,
+    ascent: -numBaseline + num.ascent,
+    descent: denBaseline + den.descent,
+    items,
+  };
+}
+
+function layoutRadical(node: Extract<MathNode, { type: 'radical' }>, ctx: LayoutContext): MathBox {
+  const base = layoutNode(node.base, ctx);
+  const thickness = ruleThickness(ctx);
+  const gap = ctx.fontSize * 0.12;
+  const signWidth = ctx.fontSize * 0.6;
+  const top = -(base.ascent + gap + thickness / 2);
+  const bottom = base.descent;
+  const height = bottom - top;
+
+  let offsetX = 0;
+  const items: MathItem[] = [];
+  if (node.degree) {
+    const degree = layoutNode(node.degree, scriptContext(scriptContext(ctx)));
+    offsetX = Math.max(0, degree.width - signWidth * 0.45);
+    const degreeBaseline = top + height * 0.45;
+    items.push(...placeItems(degree, 0, degreeBaseline));
+  }
+
+  const x0 = offsetX;
+  const signEnd = x0 + signWidth;
+  items.push({
+    kind: 'path',
+    d: pathFrom([
+      [x0, top + height * 0.6],
+      [x0 + signWidth * 0.2, top + height * 0.5],
+      [x0 + signWidth * 0.5, bottom],
+      [signEnd, top],
+      [signEnd + base.width + ctx.fontSize * 0.1, top],
+    ]),
+    strokeWidth: thickness,
+  });
+  items.push(...placeItems(base, signEnd + ctx.fontSize * 0.05, 0));
+
+  return {
+    width: signEnd + base.width + ctx.fontSize * 0.15,
+    ascent: -top + thickness,
+    descent: bottom + thickness,
+    items,
+  };
+}
+
+/**
+ * Attach sub/superscripts to a base box. Used by sSub/sSup/sSubSup/sPre and
+ * by n-ary operators with subSup limits.
+ */
+function attachScripts(
+  base: MathBox,
+  sub: MathNode | undefined,
+  sup: MathNode | undefined,
+  ctx: LayoutContext,
+  pre = false
+): MathBox {
+  const sctx = scriptContext(ctx);
+  const subBox = sub ? layoutNode(sub, sctx) : null;
+  const supBox = sup ? layoutNode(sup, sctx) : null;
+
+  let supBaseline = -Math.max(ctx.fontSize * 0.4, base.ascent - (supBox?.ascent ?? 0) * 0.5);
+  let subBaseline = Math.max(ctx.fontSize * 0.2, base.descent - (subBox?.ascent ?? 0) * 0.2);
+
+  if (subBox && supBox) {
+    // Keep a minimum gap between the superscript's bottom and the subscript's top
+    const minGap = ctx.fontSize * 0.1;
+    const overlap = supBaseline + supBox.descent + minGap - (subBaseline - subBox.ascent);
+    if (overlap > 0) {
+      supBaseline -= overlap / 2;
+      subBaseline += overlap / 2;
+    }
+  }
+
+  const scriptWidth = Math.max(subBox?.width ?? 0, supBox?.width ?? 0) + ctx.fontSize * 0.05;
+  const baseX = pre ? scriptWidth : 0;
+  const scriptX = pre ? 0 : base.width + ctx.fontSize * 0.03;
+
+  const items: MathItem[] = [...placeItems(base, baseX, 0)];
+  let ascent = base.ascent;
+  let descent = base.descent;
+  if (supBox) {
+    const x = pre ? scriptWidth - supBox.width - ctx.fontSize * 0.05 : scriptX;
+    items.push(...placeItems(supBox, x, supBaseline));
+    ascent = Math.max(ascent, -supBaseline + supBox.ascent);
+  }
+  if (subBox) {
+    const x = pre ? scriptWidth - subBox.width - ctx.fontSize * 0.05 : scriptX;
+    items.push(...placeItems(subBox, x, subBaseline));
+    descent = Math.max(descent, subBaseline + subBox.descent);
+  }
+
+  return { width: base.width + scriptWidth, ascent, descent, items };
+}
+
+/** Stack `over` above and `under` below a base, all centered */
+function attachLimits(
+  base: MathBox,
+  over: MathBox | null,
+  under: MathBox | null,
+  ctx: LayoutContext
+): MathBox {
+  const gap = ctx.fontSize * 0.08;
+  const width = Math.max(base.width, over?.width ?? 0, under?.width ?? 0);
+  const items: MathItem[] = [...placeItems(base, (width - base.width) / 2, 0)];
+  let ascent = base.ascent;
+  let descent = base.descent;
+
+  if (over) {
+    const baseline = -(base.ascent + gap + over.descent);
+    items.push(...placeItems(over, (width - over.width) / 2, baseline));
+    ascent = -baseline + over.ascent;
+  }
+  if (under) {
+    const baseline = base.descent + gap + under.ascent;
+    items.push(...placeItems(under, (width - under.width) / 2, baseline));
+    descent = baseline + under.descent;
+  }
+  return { width, ascent, descent, items };
+}
+
+/** A single glyph drawn at `scale` times the context size, centered on the math axis */
+function layoutLargeOperator(chr: string, scale: number, ctx: LayoutContext): MathBox {
+  const size = ctx.fontSize * scale;
+  const axis = ctx.fontSize * AXIS_HEIGHT;
+  // Glyph center sits at (ascent - descent) / 2 above its baseline
+  const baseline = ((TEXT_ASCENT - TEXT_DESCENT) / 2) * size - axis;
+  const width = ctx.measure(chr, size, false, false);
+  return {
+    width,
+    ascent: axis + (size * (TEXT_ASCENT + TEXT_DESCENT)) / 2,
+    descent: (size * (TEXT_ASCENT + TEXT_DESCENT)) / 2 - axis,
+    items: [
+      { kind: 'text', x: 0, y: baseline, text: chr, fontSize: size, italic: false, bold: false },
+    ],
+  };
+}
+
+function layoutNary(node: Extract<MathNode, { type: 'nary' }>, ctx: LayoutContext): MathBox {
+  const op = layoutLargeOperator(node.chr, ctx.scriptLevel === 0 ? NARY_SCALE : 1, ctx);
+  let opWithLimits: MathBox;
+  if (node.limLoc === 'undOvr') {
+    const sctx = scriptContext(ctx);
+    opWithLimits = attachLimits(
+      op,
+      node.sup ? layoutNode(node.sup, sctx) : null,
+      node.sub ? layoutNode(node.sub, sctx) : null,
+      ctx
+    );
+  } else {
+    opWithLimits = attachScripts(op, node.sub, node.sup, ctx);
+  }
+  const space: MathBox = { width: ctx.fontSize * 0.15, ascent: 0, descent: 0, items: [] };
+  return hbox([opWithLimits, space, layoutNode(node.base, ctx)]);
+}
+
+/**
+ * A delimiter glyph stretched vertically to cover `half` pixels above and
+ * below the math axis.
+ */
+function layoutStretchyGlyph(chr: string, half: number, ctx: LayoutContext): MathBox {
+  const axis = ctx.fontSize * AXIS_HEIGHT;
+  const naturalHalf = (ctx.fontSize * (TEXT_ASCENT + TEXT_DESCENT)) / 2;
+  const scaleY = Math.max(1, half / naturalHalf);
+  const baseline = ((TEXT_ASCENT - TEXT_DESCENT) / 2) * ctx.fontSize - axis;
+  const width = ctx.measure(chr, ctx.fontSize, false, false);
+  const item: MathItem = {
+    kind: 'text',
+    x: 0,
+    y: baseline,
+    text: chr,
+    fontSize: ctx.fontSize,
+    italic: false,
+    bold: false,
+  };
+  if (scaleY > 1) {
+    item.scaleY = scaleY;
+    item.originY = -axis;
+  }
+  return {
+    width,
+    ascent: axis + naturalHalf * scaleY,
+    descent: naturalHalf * scaleY - axis,
+    items: [item],
+  };
+}
+
+function layoutDelimiter(
+  node: Extract<MathNode, { type: 'delimiter' }>,
+  ctx: LayoutContext
+): MathBox {
+  const parts: MathBox[] = [];
+  node.items.forEach((item, index) => {
+    if (index > 0 && node.separator) parts.push(layoutText(node.separator, 'plain', ctx));
+    parts.push(layoutNode(item, ctx));
+  });
+  const content = parts.length > 0 ? hbox(parts) : emptyBox(ctx);
+
+  const axis = ctx.fontSize * AXIS_HEIGHT;
+  const half = Math.max(content.ascent - axis, content.descent + axis);
+  const boxes: MathBox[] = [];
+  if (node.open) boxes.push(layoutStretchyGlyph(node.open, half, ctx));
+  boxes.push(content);
+  if (node.close) boxes.push(layoutStretchyGlyph(node.close, half, ctx));
+  return hbox(boxes);
+}
+
+function layoutMatrix(node: Extract<MathNode, { type: 'matrix' }>, ctx: LayoutContext): MathBox {
+  const cells = node.rows.map((row) => row.map((cell) => layoutNode(cell, ctx)));
+  const columnCount = Math.max(0, ...cells.map((row) => row.length));
+  const columnWidths: number[] = [];
+  for (let col = 0; col < columnCount; col++) {
+    columnWidths.push(Math.max(0, ...cells.map((row) => row[col]?.width ?? 0)));
+  }
+  const columnGap = ctx.fontSize * 0.8;
+
+  const rows = cells.map((row): MathBox => {
+    const items: MathItem[] = [];
+    let x = 0;
+    let ascent = ctx.fontSize * TEXT_ASCENT;
+    let descent = ctx.fontSize * TEXT_DESCENT;
+    columnWidths.forEach((columnWidth, col) => {
+      const cell = row[col];
+      if (cell) {
+        items.push(...placeItems(cell, x + (columnWidth - cell.width) / 2, 0));
+        ascent = Math.max(ascent, cell.ascent);
+        descent = Math.max(descent, cell.descent);
+      }
+      x += columnWidth + (col < columnCount - 1 ? columnGap : 0);
+    });
+    return { width: x, ascent, descent, items };
+  });
+
+  return vstackOnAxis(rows, ctx.fontSize * 0.25, ctx);
+}
+
+function layoutAccent(node: Extract<MathNode, { type: 'accent' }>, ctx: LayoutContext): MathBox {
+  const base = layoutNode(node.base, ctx);
+  const chr = SPACING_ACCENTS[node.chr] ?? node.chr;
+  const width = ctx.measure(chr, ctx.fontSize, false, false);
+  // Spacing accents have their ink roughly half an em above their baseline
+  const baseline = -(base.ascent - ctx.fontSize * 0.45);
+  const boxWidth = Math.max(base.width, width);
+  return {
+    width: boxWidth,
+    ascent: base.ascent + ctx.fontSize * 0.3,
+    descent: base.descent,
+    items: [
+      ...placeItems(base, (boxWidth - base.width) / 2, 0),
+      textItem(chr, (boxWidth - width) / 2, baseline, ctx, false, false),
+    ],
+  };
+}
+
+function layoutBar(node: Extract<MathNode, { type: 'bar' }>, ctx: LayoutContext): MathBox {
+  const base = layoutNode(node.base, ctx);
+  const thickness = ruleThickness(ctx);
+  const gap = ctx.fontSize * 0.08;
+  if (node.position === 'top') {
+    const y = -(base.ascent + gap + thickness);
+    return {
+      ...base,
+      ascent: -y,
+      items: [...base.items, { kind: 'rule', x: 0, y, width: base.width, height: thickness }],
+    };
+  }
+  const y = base.descent + gap;
+  return {
+    ...base,
+    descent: y + thickness,
+    items: [...base.items, { kind: 'rule', x: 0, y, width: base.width, height: thickness }],
+  };
+}
+
+function layoutGroupChar(
+  node: Extract<MathNode, { type: 'groupChr' }>,
+  ctx: LayoutContext
+): MathBox {
+  const base = layoutNode(node.base, ctx);
+  const glyphWidth = ctx.measure(node.chr, ctx.fontSize, false, false) || 1;
+  const scaleX = Math.max(1, base.width / glyphWidth);
+  const glyph: MathBox = {
+    width: base.width,
+    ascent: ctx.fontSize * 0.4,
+    descent: ctx.fontSize * 0.1,
+    items: [
+      {
+        kind: 'text',
+        x: (base.width - glyphWidth) / 2,
+        y: 0,
+        text: node.chr,
+        fontSize: ctx.fontSize,
+        italic: false,
+        bold: false,
+        scaleX,
+        originX: base.width / 2,
+      },
+    ],
+  };
+  return node.position === 'top'
+    ? attachLimits(base, glyph, null, ctx)
+    : attachLimits(base, null, glyph, ctx);
+}
+
+function layoutBorderBox(
+  node: Extract<MathNode, { type: 'borderBox' }>,
+  ctx: LayoutContext
+): MathBox {
+  const base = layoutNode(node.base, ctx);
+  const pad = ctx.fontSize * 0.1;
+  const thickness = ruleThickness(ctx);
+  const left = 0;
+  const right = base.width + pad * 2;
+  const top = -(base.ascent + pad);
+  const bottom = base.descent + pad;
+  return {
+    width: right,
+    ascent: -top + thickness,
+    descent: bottom + thickness,
+    items: [
+      ...placeItems(base, pad, 0),
+      {
+        kind: 'path',
+        d: pathFrom(
+          [
+            [left, top],
+            [right, top],
+            [right, bottom],
+            [left, bottom],
+          ],
+          true
+        ),
+        strokeWidth: thickness,
+      },
+    ],
+  };
+}
+
+function layoutNode(node: MathNode, ctx: LayoutContext): MathBox {
+  switch (node.type) {
+    case 'row':
+      return node.children.length > 0
+        ? hbox(node.children.map((child) => layoutNode(child, ctx)))
+        : emptyBox(ctx);
+    case 'text':
+      return layoutText(node.text, node.style, ctx);
+    case 'fraction':
+      return layoutFraction(node, ctx);
+    case 'radical':
+      return layoutRadical(node, ctx);
+    case 'script':
+      return attachScripts(layoutNode(node.base, ctx), node.sub, node.sup, ctx, node.pre);
+    case 'nary':
+      return layoutNary(node, ctx);
+    case 'delimiter':
+      return layoutDelimiter(node, ctx);
+    case 'matrix':
+      return layoutMatrix(node, ctx);
+    case 'eqArray':
+      return vstackOnAxis(
+        node.rows.map((row) => layoutNode(row, ctx)),
+        ctx.fontSize * 0.3,
+        ctx
+      );
+    case 'accent':
+      return layoutAccent(node, ctx);
+    case 'bar':
+      return layoutBar(node, ctx);
+    case 'groupChr':
+      return layoutGroupChar(node, ctx);
+    case 'limit': {
+      const limit = layoutNode(node.limit, scriptContext(ctx));
+      const base = layoutNode(node.base, ctx);
+      return node.position === 'lower'
+        ? attachLimits(base, null, limit, ctx)
+        : attachLimits(base, limit, null, ctx);
+    }
+    case 'func':
+      // Thin space between the function name and its argument
+      return hbox([
+        layoutNode(node.name, ctx),
+        layoutText('\u2009', 'plain', ctx),
+        layoutNode(node.base, ctx),
+      ]);
+    case 'borderBox':
+      return layoutBorderBox(node, ctx);
+  }
+}
+
+/**
+ * Lay out a math AST.
+ */
+export function layoutMath(node: MathNode, options: MathLayoutOptions): MathBox {
+  return layoutNode(node, {
+    fontSize: options.fontSize,
+    measure: options.measure ?? defaultMathTextMeasurer,
+    scriptLevel: 0,
+  });
+}
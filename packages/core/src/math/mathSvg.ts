@@ -0,0 +1,77 @@
+/**
+ * Math SVG Renderer
+ *
+ * Serializes a laid-out math box (see mathLayout.ts) to a standalone SVG
+ * string. The SVG's viewBox places the baseline at y = 0, so callers align
+ * it with surrounding text by shifting it down by `box.descent`.
+ */
+
+import { MATH_FONT_FAMILY, type MathBox, type MathItem } from './mathLayout';
+
+export interface MathSvgOptions {
+  /** Fill/stroke color (default: currentColor) */
+  color?: string;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function renderItem(item: MathItem): string {
+  switch (item.kind) {
+    case 'text': {
+      const attrs = [
+        `x="${num(item.x)}"`,
+        `y="${num(item.y)}"`,
+        `font-size="${num(item.fontSize)}"`,
+      ];
+      if (item.italic) attrs.push('font-style="italic"');
+      if (item.bold) attrs.push('font-weight="bold"');
+      if (item.scaleX || item.scaleY) {
+        const ox = item.originX ?? 0;
+        const oy = item.originY ?? 0;
+        attrs.push(
+          `transform="translate(${num(ox)} ${num(oy)}) scale(${num(item.scaleX ?? 1)} ${num(item.scaleY ?? 1)}) translate(${num(-ox)} ${num(-oy)})"`
+        );
+      }
+      return `<text ${attrs.join(' ')}>${escapeXml(item.text)}</text>`;
+    }
+    case 'rule':
+      return `<rect x="${num(item.x)}" y="${num(item.y)}" width="${num(item.width)}" height="${num(item.height)}"/>`;
+    case 'path':
+      return `<path d="${item.d}" fill="none" stroke-width="${num(item.strokeWidth)}" stroke-linejoin="round"/>`;
+  }
+}
+
+/**
+ * Render a math box as an SVG document string.
+ */
+export function renderMathSvg(box: MathBox, options: MathSvgOptions = {}): string {
+  const color = escapeXml(options.color ?? 'currentColor');
+  const width = box.width;
+  const height = box.ascent + box.descent;
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width)}" height="${num(height)}" ` +
+    `viewBox="0 ${num(-box.ascent)} ${num(width)} ${num(height)}" ` +
+    // Italic overhang may extend past the advance width — don't clip it
+    `overflow="visible" fill="${color}" stroke="${color}" ` +
+    `font-family="${escapeXml(MATH_FONT_FAMILY)}">` +
+    `<g stroke="none">${box.items
+      .filter((item) => item.kind !== 'path')
+      .map(renderItem)
+      .join('')}</g>` +
+    box.items
+      .filter((item) => item.kind === 'path')
+      .map(renderItem)
+      .join('') +
+    `</svg>`
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for OMML parsing and math layout
+ *
+ * Layout uses a fixed-width measurer so the assertions don't depend on fonts.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { parseOmml } from './ommlParser';
+import { layoutMath, type MathTextMeasurer } from './mathLayout';
+import { renderMathSvg } from './mathSvg';
+import { layoutOmml } from './index';
+
+const measure: MathTextMeasurer = (text, fontSizePx) => Array.from(text).length * fontSizePx * 0.5;
+
+const FONT_SIZE = 20;
+
+function omml(body: string): string {
+  return `<m:oMath xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math">${body}</m:oMath>`;
+}
+
+function run(text: string): string {
+  return `<m:r><m:t>${text}</m:t></m:r>`;
+}
+
+function layout(xml: string) {
+  const node = parseOmml(xml);
+  if (!node) throw new Error('failed to parse');
+  return layoutMath(node, { fontSize: FONT_SIZE, measure });
+}
+
+describe('parseOmml', () => {
+  test('parses fractions, scripts and radicals', () => {
+    const node = parseOmml(
+      omml(
+        `<m:f><m:num>${run('a')}</m:num><m:den>${run('b')}</m:den></m:f>` +
+          `<m:sSup><m:e>${run('x')}</m:e><m:sup>${run('2')}</m:sup></m:sSup>` +
+          `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${run('y')}</m:e></m:rad>`
+      )
+    );
+    expect(node).toEqual({
+      type: 'row',
+      children: [
+        {
+          type: 'fraction',
+          num: { type: 'text', text: 'a' },
+          den: { type: 'text', text: 'b' },
+          fracType: 'bar',
+        },
+        { type: 'script', base: { type: 'text', text: 'x' }, sup: { type: 'text', text: '2' } },
+        { type: 'radical', base: { type: 'text', text: 'y' } },
+      ],
+    });
+  });
+
+  test('parses n-ary operators with default limit placement', () => {
+    const sum = parseOmml(
+      omml(
+        `<m:nary><m:naryPr><m:chr m:val="∑"/></m:naryPr>` +
+          `<m:sub>${run('i=1')}</m:sub><m:sup>${run('n')}</m:sup><m:e>${run('i')}</m:e></m:nary>`
+      )
+    );
+    expect(sum).toMatchObject({ type: 'nary', chr: '∑', limLoc: 'undOvr' });
+
+    // No m:chr means an integral, whose limits default to scripts
+    const integral = parseOmml(
+      omml(`<m:nary><m:sub>${run('0')}</m:sub><m:sup/><m:e>${run('f')}</m:e></m:nary>`)
+    );
+    expect(integral).toMatchObject({ type: 'nary', chr: '∫', limLoc: 'subSup' });
+    expect((integral as { sup?: unknown }).sup).toBeUndefined();
+  });
+
+  test('parses delimiters and matrices', () => {
+    const node = parseOmml(
+      omml(
+        `<m:d><m:dPr><m:begChr m:val="["/><m:endChr m:val="]"/></m:dPr><m:e>` +
+          `<m:m><m:mr><m:e>${run('1')}</m:e><m:e>${run('0')}</m:e></m:mr>` +
+          `<m:mr><m:e>${run('0')}</m:e><m:e>${run('1')}</m:e></m:mr></m:m>` +
+          `</m:e></m:d>`
+      )
+    );
+    expect(node).toMatchObject({ type: 'delimiter', open: '[', close: ']' });
+    const matrix = (node as { items: unknown[] }).items[0];
+    expect(matrix).toMatchObject({ type: 'matrix' });
+    expect((matrix as { rows: unknown[][] }).rows.map((row) => row.length)).toEqual([2, 2]);
+  });
+
+  test('stacks the equations of an oMathPara', () => {
+    const node = parseOmml(
+      `<m:oMathPara><m:oMath>${run('a')}</m:oMath><m:oMath>${run('b')}</m:oMath></m:oMathPara>`
+    );
+    expect(node).toEqual({
+      type: 'eqArray',
+      rows: [
+        { type: 'text', text: 'a' },
+        { type: 'text', text: 'b' },
+      ],
+    });
+  });
+
+  test('reads math run styles', () => {
+    const node = parseOmml(omml(`<m:r><m:rPr><m:sty m:val="p"/></m:rPr><m:t>sin</m:t></m:r>`));
+    expect(node).toEqual({ type: 'text', text: 'sin', style: 'plain' });
+  });
+});
+
+describe('layoutMath', () => {
+  test('a fraction is taller than a single line of text', () => {
+    const text = layout(omml(run('a')));
+    const fraction = layout(
+      omml(`<m:f><m:num>${run('a')}</m:num><m:den>${run('b')}</m:den></m:f>`)
+    );
+    expect(fraction.ascent).toBeGreaterThan(text.ascent);
+    expect(fraction.descent).toBeGreaterThan(text.descent);
+    expect(fraction.items.some((item) => item.kind === 'rule')).toBe(true);
+  });
+
+  test('superscripts are raised and shrunk', () => {
+    const box = layout(omml(`<m:sSup><m:e>${run('x')}</m:e><m:sup>${run('2')}</m:sup></m:sSup>`));
+    const sup = box.items.find((item) => item.kind === 'text' && item.text === '2');
+    expect(sup).toMatchObject({ kind: 'text' });
+    if (sup?.kind !== 'text') return;
+    expect(sup.y).toBeLessThan(0);
+    expect(sup.fontSize).toBeLessThan(FONT_SIZE);
+  });
+
+  test('delimiters stretch around tall content', () => {
+    const box = layout(
+      omml(`<m:d><m:e><m:f><m:num>${run('a')}</m:num><m:den>${run('b')}</m:den></m:f></m:e></m:d>`)
+    );
+    const paren = box.items.find((item) => item.kind === 'text' && item.text === '(');
+    expect(paren?.kind === 'text' && paren.scaleY).toBeGreaterThan(1);
+  });
+
+  test('binary operators get space on both sides', () => {
+    const tight = layout(omml(run('ab')));
+    const spaced = layout(omml(run('a+b')));
+    expect(spaced.width).toBeGreaterThan(tight.width + measure('+', FONT_SIZE, false, false));
+  });
+});
+
+describe('renderMathSvg', () => {
+  test('places the baseline at y = 0 of the viewBox', () => {
+    const box = layout(omml(run('x')));
+    const svg = renderMathSvg(box, { color: '#ff0000' });
+    expect(svg).toContain(`viewBox="0 -${box.ascent} ${box.width} ${box.ascent + box.descent}"`);
+    expect(svg).toContain('fill="#ff0000"');
+    expect(svg).toContain('font-style="italic"');
+  });
+
+  test('escapes text content', () => {
+    const svg = renderMathSvg(layout(omml(run('a&lt;b'))));
+    expect(svg).toContain('&lt;');
+    expect(svg).not.toContain('<b');
+  });
+});
+
+describe('layoutOmml', () => {
+  test('falls back to plain text without OMML', () => {
+    const box = layoutOmml('', FONT_SIZE, 'x+1', measure);
+    expect(box.width).toBeGreaterThan(0);
+    expect(box.items.some((item) => item.kind === 'text')).toBe(true);
+  });
+});
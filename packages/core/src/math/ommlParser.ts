@@ -0,0 +1,306 @@
+/**
+ * OMML Parser
+ *
+ * Parses Office Math Markup Language (ECMA-376 Part 1, §22.1) into a small
+ * math AST that the math layout can measure and paint. Only the visual
+ * structure is kept — the original OMML stays on the `math` node and is
+ * written back unchanged on save.
+ *
+ * Supported: runs, fractions, radicals, sub/superscripts (incl. pre-scripts),
+ * n-ary operators, delimiters, matrices, equation arrays, accents, bars,
+ * group characters, lower/upper limits, functions and boxes. Unknown
+ * elements fall back to their children so no text is ever lost.
+ */
+
+import {
+  parseXmlDocument,
+  getLocalName,
+  getAttribute,
+  getChildElements,
+  findChildByLocalName,
+  findChildrenByLocalName,
+  type XmlElement,
+} from '../docx/xmlParser';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Text style of a math run (OMML `m:sty`) */
+export type MathTextStyle = 'italic' | 'plain' | 'bold' | 'boldItalic';
+
+export type MathNode =
+  | { type: 'row'; children: MathNode[] }
+  | { type: 'text'; text: string; style?: MathTextStyle }
+  | { type: 'fraction'; num: MathNode; den: MathNode; fracType: 'bar' | 'noBar' | 'lin' | 'skw' }
+  | { type: 'radical'; base: MathNode; degree?: MathNode }
+  | { type: 'script'; base: MathNode; sub?: MathNode; sup?: MathNode; pre?: boolean }
+  | {
+      type: 'nary';
+      chr: string;
+      base: MathNode;
+      sub?: MathNode;
+      sup?: MathNode;
+      /** 'undOvr' stacks limits above/below, 'subSup' attaches them as scripts */
+      limLoc: 'undOvr' | 'subSup';
+    }
+  | { type: 'delimiter'; open: string; close: string; separator: string; items: MathNode[] }
+  | { type: 'matrix'; rows: MathNode[][] }
+  | { type: 'eqArray'; rows: MathNode[] }
+  | { type: 'accent'; chr: string; base: MathNode }
+  | { type: 'bar'; position: 'top' | 'bot'; base: MathNode }
+  | { type: 'groupChr'; chr: string; position: 'top' | 'bot'; base: MathNode }
+  | { type: 'limit'; base: MathNode; limit: MathNode; position: 'lower' | 'upper' }
+  | { type: 'func'; name: MathNode; base: MathNode }
+  | { type: 'borderBox'; base: MathNode };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const EMPTY_ROW: MathNode = { type: 'row', children: [] };
+
+/** Integral-like operators default to sub/sup limits, everything else to under/over */
+const INTEGRAL_CHARS = new Set(['∫', '∬', '∭', '∮', '∯', '∰']);
+
+/**
+ * Read `m:val` of a property child (e.g. `<m:chr m:val="∑"/>` under `m:naryPr`).
+ * Returns undefined when the property is absent, '' when present without a value.
+ */
+function getPropValue(props: XmlElement | null, name: string): string | undefined {
+  const el = findChildByLocalName(props, name);
+  if (!el) return undefined;
+  return getAttribute(el, 'm', 'val') ?? '';
+}
+
+/** OMML on/off property — present without val, or val="1"/"on"/"true" */
+function getPropFlag(props: XmlElement | null, name: string): boolean {
+  const value = getPropValue(props, name);
+  if (value === undefined) return false;
+  return value === '' || value === '1' || value === 'on' || value === 'true';
+}
+
+function getText(el: XmlElement): string {
+  let text = '';
+  for (const child of el.elements ?? []) {
+    if (child.type === 'text' && child.text !== undefined) text += String(child.text);
+  }
+  return text;
+}
+
+function makeRow(children: MathNode[]): MathNode {
+  return children.length === 1 ? children[0] : { type: 'row', children };
+}
+
+/** Parse a named argument element (m:e, m:num, m:sub, ...) as a row */
+function parseArg(parent: XmlElement, name: string): MathNode {
+  const el = findChildByLocalName(parent, name);
+  return el ? parseChildren(el) : EMPTY_ROW;
+}
+
+function parseOptionalArg(parent: XmlElement, name: string): MathNode | undefined {
+  const el = findChildByLocalName(parent, name);
+  if (!el) return undefined;
+  const node = parseChildren(el);
+  return node.type === 'row' && node.children.length === 0 ? undefined : node;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function parseRun(el: XmlElement): MathNode | null {
+  const rPr = findChildByLocalName(el, 'rPr');
+  let style: MathTextStyle | undefined;
+  switch (getPropValue(rPr, 'sty')) {
+    case 'p':
+      style = 'plain';
+      break;
+    case 'b':
+      style = 'bold';
+      break;
+    case 'bi':
+      style = 'boldItalic';
+      break;
+    case 'i':
+      style = 'italic';
+      break;
+  }
+  // m:nor — normal (non-math) text, rendered upright
+  if (!style && getPropFlag(rPr, 'nor')) style = 'plain';
+
+  let text = '';
+  for (const child of getChildElements(el)) {
+    if (getLocalName(child.name ?? '') === 't') text += getText(child);
+  }
+  if (!text) return null;
+  return style ? { type: 'text', text, style } : { type: 'text', text };
+}
+
+function parseElement(el: XmlElement): MathNode | null {
+  const name = getLocalName(el.name ?? '');
+
+  switch (name) {
+    case 'r':
+      return parseRun(el);
+
+    case 'f': {
+      const type = getPropValue(findChildByLocalName(el, 'fPr'), 'type');
+      return {
+        type: 'fraction',
+        num: parseArg(el, 'num'),
+        den: parseArg(el, 'den'),
+        fracType: type === 'noBar' || type === 'lin' || type === 'skw' ? type : 'bar',
+      };
+    }
+
+    case 'rad': {
+      const hideDegree = getPropFlag(findChildByLocalName(el, 'radPr'), 'degHide');
+      const degree = hideDegree ? undefined : parseOptionalArg(el, 'deg');
+      return degree
+        ? { type: 'radical', base: parseArg(el, 'e'), degree }
+        : { type: 'radical', base: parseArg(el, 'e') };
+    }
+
+    case 'sSub':
+      return { type: 'script', base: parseArg(el, 'e'), sub: parseArg(el, 'sub') };
+    case 'sSup':
+      return { type: 'script', base: parseArg(el, 'e'), sup: parseArg(el, 'sup') };
+    case 'sSubSup':
+      return {
+        type: 'script',
+        base: parseArg(el, 'e'),
+        sub: parseArg(el, 'sub'),
+        sup: parseArg(el, 'sup'),
+      };
+    case 'sPre':
+      return {
+        type: 'script',
+        base: parseArg(el, 'e'),
+        sub: parseArg(el, 'sub'),
+        sup: parseArg(el, 'sup'),
+        pre: true,
+      };
+
+    case 'nary': {
+      const props = findChildByLocalName(el, 'naryPr');
+      const chr = getPropValue(props, 'chr') || '∫';
+      const limLoc = getPropValue(props, 'limLoc');
+      return {
+        type: 'nary',
+        chr,
+        base: parseArg(el, 'e'),
+        sub: getPropFlag(props, 'subHide') ? undefined : parseOptionalArg(el, 'sub'),
+        sup: getPropFlag(props, 'supHide') ? undefined : parseOptionalArg(el, 'sup'),
+        limLoc:
+          limLoc === 'undOvr' || limLoc === 'subSup'
+            ? limLoc
+            : INTEGRAL_CHARS.has(chr)
+              ? 'subSup'
+              : 'undOvr',
+      };
+    }
+
+    case 'd': {
+      const props = findChildByLocalName(el, 'dPr');
+      return {
+        type: 'delimiter',
+        open: getPropValue(props, 'begChr') ?? '(',
+        close: getPropValue(props, 'endChr') ?? ')',
+        separator: getPropValue(props, 'sepChr') ?? '|',
+        items: findChildrenByLocalName(el, 'e').map(parseChildren),
+      };
+    }
+
+    case 'm':
+      return {
+        type: 'matrix',
+        rows: findChildrenByLocalName(el, 'mr').map((mr) =>
+          findChildrenByLocalName(mr, 'e').map(parseChildren)
+        ),
+      };
+
+    case 'eqArr':
+      return { type: 'eqArray', rows: findChildrenByLocalName(el, 'e').map(parseChildren) };
+
+    case 'acc':
+      return {
+        type: 'accent',
+        chr: getPropValue(findChildByLocalName(el, 'accPr'), 'chr') || '̂',
+        base: parseArg(el, 'e'),
+      };
+
+    case 'bar':
+      return {
+        type: 'bar',
+        position: getPropValue(findChildByLocalName(el, 'barPr'), 'pos') === 'top' ? 'top' : 'bot',
+        base: parseArg(el, 'e'),
+      };
+
+    case 'groupChr': {
+      const props = findChildByLocalName(el, 'groupChrPr');
+      return {
+        type: 'groupChr',
+        chr: getPropValue(props, 'chr') || '⏟',
+        position: getPropValue(props, 'pos') === 'top' ? 'top' : 'bot',
+        base: parseArg(el, 'e'),
+      };
+    }
+
+    case 'limLow':
+    case 'limUpp':
+      return {
+        type: 'limit',
+        base: parseArg(el, 'e'),
+        limit: parseArg(el, 'lim'),
+        position: name === 'limLow' ? 'lower' : 'upper',
+      };
+
+    case 'func':
+      return { type: 'func', name: parseArg(el, 'fName'), base: parseArg(el, 'e') };
+
+    case 'borderBox':
+      return { type: 'borderBox', base: parseArg(el, 'e') };
+
+    case 'box':
+    case 'phant':
+      return parseArg(el, 'e');
+
+    case 'oMath':
+      return parseChildren(el);
+
+    case 'oMathPara': {
+      const equations = findChildrenByLocalName(el, 'oMath').map(parseChildren);
+      return equations.length === 1 ? equations[0] : { type: 'eqArray', rows: equations };
+    }
+
+    default:
+      // Property elements carry no content
+      if (name.endsWith('Pr')) return null;
+      // Unknown wrappers (w:r inside math, m:argPr...) — keep their content
+      return getChildElements(el).length > 0 ? parseChildren(el) : null;
+  }
+}
+
+function parseChildren(el: XmlElement): MathNode {
+  const children: MathNode[] = [];
+  for (const child of getChildElements(el)) {
+    const node = parseElement(child);
+    if (!node) continue;
+    // Flatten nested rows so text runs stay adjacent
+    if (node.type === 'row') children.push(...node.children);
+    else children.push(node);
+  }
+  return makeRow(children);
+}
+
+/**
+ * Parse an `m:oMath` or `m:oMathPara` XML string into a math AST.
+ * Returns null when the XML can't be parsed.
+ */
+export function parseOmml(ommlXml: string): MathNode | null {
+  if (!ommlXml) return null;
+  const root = parseXmlDocument(ommlXml);
+  if (!root) return null;
+  return parseElement(root) ?? EMPTY_ROW;
+}
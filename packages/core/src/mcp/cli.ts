@@ -2,11 +2,12 @@
  * MCP Server CLI Entry Point
  *
  * Starts the MCP server with stdio transport for use with Claude Desktop
- * and other MCP-compatible clients.
+ * and other MCP-compatible clients, or on HTTP for shared deployments.
  *
  * Usage:
  *   npx @eigenpal/docx-editor --mcp
  *   docx-editor-mcp
+ *   docx-editor-mcp --http --port 3000 --root ./documents
  *
  * Claude Desktop configuration:
  * ```json
@@ -24,18 +25,59 @@
 import { pluginRegistry } from '../core-plugins/registry';
 import { docxtemplaterPlugin } from '../core-plugins/docxtemplater';
 import { startStdioServer, type McpServerConfig } from './server';
+import { startHttpServer } from './http';
+import { setMeasurementBackend } from '../layout-bridge/measuring/measureContainer';
+import {
+  createFontMetricsBackend,
+  readFontFiles,
+} from '../layout-bridge/measuring/fontMetricsBackend';
 
 // ============================================================================
 // PARSE ARGUMENTS
 // ============================================================================
 
-function parseArgs(): { debug: boolean; help: boolean; version: boolean } {
+interface CliArgs {
+  debug: boolean;
+  help: boolean;
+  version: boolean;
+  http: boolean;
+  port?: number;
+  host?: string;
+  root?: string;
+  /** In megabytes */
+  maxDocumentSize?: number;
+  fonts?: string;
+}
+
+function parseArgs(): CliArgs {
   const args = process.argv.slice(2);
 
+  // Value of an option given as "--name value" or "--name=value"
+  const option = (name: string): string | undefined => {
+    const index = args.indexOf(name);
+    if (index !== -1) return args[index + 1];
+    return args.find((arg) => arg.startsWith(`${name}=`))?.slice(name.length + 1);
+  };
+  const numberOption = (name: string): number | undefined => {
+    const value = option(name);
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`Invalid value for ${name}: ${value}`);
+    }
+    return parsed;
+  };
+
   return {
     debug: args.includes('--debug') || args.includes('-d'),
     help: args.includes('--help') || args.includes('-h'),
     version: args.includes('--version') || args.includes('-v'),
+    http: args.includes('--http'),
+    port: numberOption('--port'),
+    host: option('--host'),
+    root: option('--root'),
+    maxDocumentSize: numberOption('--max-document-size'),
+    fonts: option('--fonts'),
   };
 }
 
@@ -50,26 +92,39 @@ USAGE:
   docx-editor-mcp [OPTIONS]
 
 OPTIONS:
-  -d, --debug     Enable debug logging (logs to stderr)
-  -h, --help      Show this help message
-  -v, --version   Show version number
+  -d, --debug                  Enable debug logging (logs to stderr)
+  -h, --help                   Show this help message
+  -v, --version                Show version number
+  --http                       Serve over HTTP instead of stdio
+  --port <port>                HTTP port (default: 3000)
+  --host <host>                HTTP interface (default: 127.0.0.1)
+  --root <dir>                 Let docx_load and docx_save use paths in <dir>
+  --max-document-size <mb>     Reject documents larger than this
+  --fonts <dir>                Measure text for layout with the fonts in <dir>
 
 DESCRIPTION:
   Starts an MCP (Model Context Protocol) server that exposes DOCX document
   editing tools to AI clients like Claude Desktop.
 
+  With --http, the server accepts many clients at once. Streamable HTTP
+  clients connect to /mcp; HTTP+SSE clients connect to /sse. Each client
+  gets its own session, so documents are never shared between clients.
+
 AVAILABLE TOOLS:
   Core Tools:
-    docx_load          Load a DOCX document from base64
-    docx_save          Export document to base64
+    docx_load          Load a DOCX document from base64 or a path
+    docx_save          Export document to base64 or a path
     docx_close         Close a document
     docx_get_info      Get document metadata
     docx_get_text      Get document plain text
+    docx_export_text   Export document as Markdown or HTML
+    docx_get_layout    Get page count and per-page paragraphs and text
     docx_insert_text   Insert text at position
     docx_replace_text  Replace text in range
     docx_delete_text   Delete text in range
     docx_format_text   Apply text formatting
     docx_apply_style   Apply paragraph style
+    docx_insert_equation Insert a math equation
 
   Template Tools (docxtemplater plugin):
     docx_get_variables     List template variables
@@ -95,6 +150,12 @@ EXAMPLES:
 
   # Start server with debug logging
   docx-editor-mcp --debug
+
+  # Share one server, reading and writing files in ./documents
+  docx-editor-mcp --http --port 3000 --root ./documents
+
+  # Count pages with the document fonts installed on the server
+  docx-editor-mcp --fonts /usr/share/fonts
 `;
 
 // ============================================================================
@@ -102,7 +163,7 @@ EXAMPLES:
 // ============================================================================
 
 async function main(): Promise<void> {
-  const { debug, help, version } = parseArgs();
+  const { debug, help, version, http, port, host, root, maxDocumentSize, fonts } = parseArgs();
 
   if (help) {
     console.log(HELP_TEXT);
@@ -123,13 +184,30 @@ async function main(): Promise<void> {
     console.error(`[MCP CLI] Total MCP tools: ${pluginRegistry.getMcpTools().length}`);
   }
 
+  // Without fonts, layout estimates glyph widths
+  if (fonts) {
+    const files = await readFontFiles(fonts);
+    setMeasurementBackend(await createFontMetricsBackend(files));
+    if (debug) {
+      console.error(`[MCP CLI] Measuring text with ${files.length} font files from ${fonts}`);
+    }
+  }
+
   // Start server
   const config: McpServerConfig = {
     name: 'docx-editor',
     version: '0.1.0',
     debug,
+    rootDir: root,
+    maxDocumentSize: maxDocumentSize != null ? maxDocumentSize * 1024 * 1024 : undefined,
   };
 
+  if (http) {
+    const server = await startHttpServer({ ...config, port, host });
+    console.error(`[MCP CLI] Listening on ${server.url}`);
+    return;
+  }
+
   await startStdioServer(config);
 }
 
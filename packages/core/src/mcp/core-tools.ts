@@ -14,6 +14,9 @@ import type {
 import { parseDocx } from '../docx/parser';
 import { repackDocx, createDocx } from '../docx/rezip';
 import { executeCommand } from '../agent/executor';
+import { getDocumentLayout } from '../agent/layout';
+import { serializeDocumentToHtml } from '../docx/serializer/htmlSerializer';
+import { serializeDocumentToMarkdown } from '../docx/serializer/markdownSerializer';
 
 // ============================================================================
 // SCHEMAS
@@ -55,11 +58,12 @@ const rangeSchema: JsonSchema = {
 // ============================================================================
 
 /**
- * Load a DOCX document from base64
+ * Load a DOCX document from base64 or a path
  */
 export const loadDocumentTool: McpToolDefinition = {
   name: 'docx_load',
-  description: `Load a DOCX document from base64-encoded content.
+  description: `Load a DOCX document from base64-encoded content, or from a path
+when the server has a file root.
 Returns a document ID that can be used with other tools.
 The document remains in session memory until closed.`,
 
@@ -70,25 +74,47 @@ The document remains in session memory until closed.`,
         type: 'string',
         description: 'Base64-encoded DOCX file content',
       },
+      path: {
+        type: 'string',
+        description: 'Path of the DOCX file, relative to the server file root',
+      },
       source: {
         type: 'string',
         description: 'Optional source filename or identifier for reference',
       },
     },
-    required: ['content'],
   },
 
   handler: async (input: unknown, context: McpToolContext): Promise<McpToolResult> => {
-    const { content, source } = input as { content: string; source?: string };
+    const { content, path, source } = input as {
+      content?: string;
+      path?: string;
+      source?: string;
+    };
+
+    if ((content == null) === (path == null)) {
+      return errorResult('Provide either content or path');
+    }
+    if (path != null && !context.fileSystem) {
+      return errorResult('Loading by path is not enabled on this server');
+    }
 
     try {
-      // Decode base64 to ArrayBuffer
-      const binaryString = atob(content);
-      const bytes = new Uint8Array(binaryString.length);
-      for (let i = 0; i < binaryString.length; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
+      let bytes: Uint8Array;
+      if (path != null) {
+        const size = await context.fileSystem!.fileSize(path);
+        if (isTooLarge(size, context)) return tooLargeResult(size, context);
+        bytes = await context.fileSystem!.readFile(path);
+      } else {
+        // Check the decoded size before decoding
+        const size = Math.floor((content!.length * 3) / 4);
+        if (isTooLarge(size, context)) return tooLargeResult(size, context);
+        bytes = decodeBase64(content!);
       }
-      const buffer = bytes.buffer;
+      const buffer = bytes.buffer.slice(
+        bytes.byteOffset,
+        bytes.byteOffset + bytes.byteLength
+      ) as ArrayBuffer;
 
       // Parse the document
       const document = await parseDocx(buffer);
@@ -101,7 +127,7 @@ The document remains in session memory until closed.`,
         id: docId,
         document,
         buffer,
-        source,
+        source: source ?? path,
         lastModified: Date.now(),
       });
 
@@ -116,7 +142,7 @@ The document remains in session memory until closed.`,
             type: 'text',
             text: JSON.stringify({
               documentId: docId,
-              source,
+              source: source ?? path,
               paragraphCount,
               message: 'Document loaded successfully',
             }),
@@ -139,23 +165,32 @@ The document remains in session memory until closed.`,
 };
 
 /**
- * Save a document to base64
+ * Save a document to base64 or a path
  */
 export const saveDocumentTool: McpToolDefinition = {
   name: 'docx_save',
   description: `Export the document to base64-encoded DOCX format.
-Returns the document as a base64 string that can be saved to a file.`,
+Returns the document as a base64 string that can be saved to a file.
+When the server has a file root, pass a path to write the file there instead.`,
 
   inputSchema: {
     type: 'object',
     properties: {
       documentId: documentIdSchema,
+      path: {
+        type: 'string',
+        description: 'Path to write the DOCX file to, relative to the server file root',
+      },
     },
     required: ['documentId'],
   },
 
   handler: async (input: unknown, context: McpToolContext): Promise<McpToolResult> => {
-    const { documentId } = input as { documentId: string };
+    const { documentId, path } = input as { documentId: string; path?: string };
+
+    if (path != null && !context.fileSystem) {
+      return errorResult('Saving to a path is not enabled on this server');
+    }
 
     const loaded = context.session.documents.get(documentId);
     if (!loaded) {
@@ -176,6 +211,27 @@ Returns the document as a base64 string that can be saved to a file.`,
         buffer = await createDocx(loaded.document);
       }
 
+      if (isTooLarge(buffer.byteLength, context)) {
+        return tooLargeResult(buffer.byteLength, context);
+      }
+
+      if (path != null) {
+        await context.fileSystem!.writeFile(path, new Uint8Array(buffer));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                documentId,
+                path,
+                size: buffer.byteLength,
+                message: 'Document saved successfully',
+              }),
+            },
+          ],
+        };
+      }
+
       // Encode to base64
       const bytes = new Uint8Array(buffer);
       let binary = '';
@@ -407,6 +463,170 @@ Useful for understanding document content before making edits.`,
   },
 };
 
+/**
+ * Export document content as Markdown or HTML
+ */
+export const exportDocumentTextTool: McpToolDefinition = {
+  name: 'docx_export_text',
+  description: `Export the document as GitHub-flavored Markdown or semantic HTML.
+Keeps headings, lists, tables (with merged cells), links and footnotes.
+Prefer this over docx_get_text when document structure matters.`,
+
+  inputSchema: {
+    type: 'object',
+    properties: {
+      documentId: documentIdSchema,
+      format: {
+        type: 'string',
+        enum: ['markdown', 'html'],
+        description: 'Output format (default: markdown)',
+        default: 'markdown',
+      },
+      includeImages: {
+        type: 'boolean',
+        description: 'Embed images as data URIs (default: false — images are left out)',
+        default: false,
+      },
+      maxLength: {
+        type: 'number',
+        description: 'Maximum characters to return (default: 50000)',
+        default: 50000,
+      },
+    },
+    required: ['documentId'],
+  },
+
+  handler: async (input: unknown, context: McpToolContext): Promise<McpToolResult> => {
+    const {
+      documentId,
+      format = 'markdown',
+      includeImages = false,
+      maxLength = 50000,
+    } = input as {
+      documentId: string;
+      format?: 'markdown' | 'html';
+      includeImages?: boolean;
+      maxLength?: number;
+    };
+
+    const loaded = context.session.documents.get(documentId);
+    if (!loaded) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `Document not found: ${documentId}` }],
+      };
+    }
+
+    const options = { images: includeImages ? ('inline' as const) : ('omit' as const) };
+    const output =
+      format === 'html'
+        ? serializeDocumentToHtml(loaded.document, options).html
+        : serializeDocumentToMarkdown(loaded.document, options).markdown;
+
+    const truncated = output.length > maxLength;
+    const text = truncated ? output.slice(0, maxLength) + '...' : output;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            documentId,
+            format,
+            content: text,
+            truncated,
+            totalLength: output.length,
+          }),
+        },
+      ],
+    };
+  },
+
+  annotations: {
+    category: 'core',
+    readOnly: true,
+    complexity: 'low',
+  },
+};
+
+/**
+ * Lay the document out into pages
+ */
+export const getLayoutTool: McpToolDefinition = {
+  name: 'docx_get_layout',
+  description: `Lay the document out into pages the way the editor paginates it.
+Returns the page count and, for each page, the paragraphs on it and its text.
+Pass paragraphIndex to also get the page that paragraph starts on.`,
+
+  inputSchema: {
+    type: 'object',
+    properties: {
+      documentId: documentIdSchema,
+      paragraphIndex: {
+        type: 'number',
+        description: 'Paragraph to look up the page of (0-indexed)',
+        minimum: 0,
+      },
+      includeText: {
+        type: 'boolean',
+        description: 'Include the text of each page (default: true)',
+        default: true,
+      },
+    },
+    required: ['documentId'],
+  },
+
+  handler: async (input: unknown, context: McpToolContext): Promise<McpToolResult> => {
+    const {
+      documentId,
+      paragraphIndex,
+      includeText = true,
+    } = input as {
+      documentId: string;
+      paragraphIndex?: number;
+      includeText?: boolean;
+    };
+
+    const loaded = context.session.documents.get(documentId);
+    if (!loaded) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `Document not found: ${documentId}` }],
+      };
+    }
+
+    const layout = getDocumentLayout(loaded.document);
+    const pages = layout.pages.map((page) =>
+      includeText ? page : { number: page.number, paragraphIndices: page.paragraphIndices }
+    );
+    const paragraphPage =
+      paragraphIndex != null
+        ? (layout.pages.find((page) => page.paragraphIndices.includes(paragraphIndex))?.number ??
+          null)
+        : undefined;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            documentId,
+            pageCount: layout.pageCount,
+            pages,
+            ...(paragraphPage !== undefined ? { paragraphPage } : {}),
+          }),
+        },
+      ],
+    };
+  },
+
+  annotations: {
+    category: 'core',
+    readOnly: true,
+    complexity: 'medium',
+  },
+};
+
 // ============================================================================
 // TEXT MANIPULATION
 // ============================================================================
@@ -796,6 +1016,91 @@ Use document styles like "Heading1", "Heading2", "Normal", etc.`,
   },
 };
 
+// ============================================================================
+// EQUATIONS
+// ============================================================================
+
+/**
+ * Insert a math equation
+ */
+export const insertEquationTool: McpToolDefinition = {
+  name: 'docx_insert_equation',
+  description: `Insert a math equation at a specific position in the document.
+The equation is written in LaTeX-like syntax, e.g. "\\frac{-b \\pm \\sqrt{b^2-4ac}}{2a}",
+"\\sum_{i=1}^{n} i^2" or "E = mc^2". Block equations get a centered paragraph of their own.`,
+
+  inputSchema: {
+    type: 'object',
+    properties: {
+      documentId: documentIdSchema,
+      position: positionSchema,
+      latex: {
+        type: 'string',
+        description: 'Equation in LaTeX-like syntax',
+      },
+      display: {
+        type: 'string',
+        enum: ['inline', 'block'],
+        description: 'Inline within the text, or block on its own line (default: inline)',
+      },
+    },
+    required: ['documentId', 'position', 'latex'],
+  },
+
+  handler: async (input: unknown, context: McpToolContext): Promise<McpToolResult> => {
+    const { documentId, position, latex, display } = input as {
+      documentId: string;
+      position: { paragraphIndex: number; offset: number };
+      latex: string;
+      display?: 'inline' | 'block';
+    };
+
+    const loaded = context.session.documents.get(documentId);
+    if (!loaded) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `Document not found: ${documentId}` }],
+      };
+    }
+
+    try {
+      const newDoc = executeCommand(loaded.document, {
+        type: 'insertEquation',
+        position,
+        latex,
+        display,
+      });
+
+      loaded.document = newDoc;
+      loaded.lastModified = Date.now();
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              position,
+              display: display ?? 'inline',
+            }),
+          },
+        ],
+      };
+    } catch (error) {
+      return {
+        isError: true,
+        content: [{ type: 'text', text: `Failed to insert equation: ${(error as Error).message}` }],
+      };
+    }
+  },
+
+  annotations: {
+    category: 'core',
+    readOnly: false,
+    complexity: 'low',
+  },
+};
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -833,6 +1138,29 @@ function getHyperlinkText(hyperlink: Hyperlink): string {
   return texts.join('');
 }
 
+function errorResult(text: string): McpToolResult {
+  return { isError: true, content: [{ type: 'text', text }] };
+}
+
+function isTooLarge(size: number, context: McpToolContext): boolean {
+  return context.maxDocumentSize != null && size > context.maxDocumentSize;
+}
+
+function tooLargeResult(size: number, context: McpToolContext): McpToolResult {
+  return errorResult(
+    `Document is too large: ${size} bytes (limit: ${context.maxDocumentSize} bytes)`
+  );
+}
+
+function decodeBase64(content: string): Uint8Array {
+  const binaryString = atob(content);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
 // ============================================================================
 // EXPORT ALL CORE TOOLS
 // ============================================================================
@@ -846,6 +1174,8 @@ export const coreMcpTools: McpToolDefinition[] = [
   // Document information
   getDocumentInfoTool,
   getDocumentTextTool,
+  exportDocumentTextTool,
+  getLayoutTool,
 
   // Text manipulation
   insertTextTool,
@@ -855,4 +1185,7 @@ export const coreMcpTools: McpToolDefinition[] = [
   // Formatting
   formatTextTool,
   applyStyleTool,
+
+  // Equations
+  insertEquationTool,
 ];
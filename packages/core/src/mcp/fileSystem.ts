@@ -0,0 +1,97 @@
+/**
+ * MCP File System
+ *
+ * Node file access for MCP tools, confined to a root directory. Lets
+ * `docx_load` and `docx_save` take paths instead of base64 content, which
+ * keeps large documents out of the protocol messages.
+ *
+ * @example
+ * ```ts
+ * const server = createMcpServer({ fileSystem: createRootedFileSystem('/srv/documents') });
+ * ```
+ */
+
+import type { McpFileSystem } from '../core-plugins/types';
+
+/**
+ * Create a file system rooted at a directory
+ *
+ * Relative paths resolve against the root. Paths that leave it, directly or
+ * through a symbolic link, are rejected.
+ */
+export function createRootedFileSystem(rootDir: string): McpFileSystem {
+  let realRootPromise: Promise<string> | null = null;
+
+  async function modules() {
+    const [fs, path] = await Promise.all([import('fs/promises'), import('path')]);
+    return { fs, path };
+  }
+
+  function isInside(pathModule: typeof import('path'), root: string, target: string): boolean {
+    const rel = pathModule.relative(root, target);
+    // Names may begin with ".." (e.g. "..notes.docx"); only a ".." segment leaves
+    const leaves = rel === '..' || rel.startsWith('..' + pathModule.sep);
+    return !leaves && !pathModule.isAbsolute(rel);
+  }
+
+  async function realRoot(): Promise<string> {
+    if (!realRootPromise) {
+      realRootPromise = modules().then(({ fs, path }) => fs.realpath(path.resolve(rootDir)));
+    }
+    return realRootPromise;
+  }
+
+  // Resolve a path in the root, following the links of its existing part.
+  // Broken links are refused: writing through one would create its target,
+  // wherever that is.
+  async function resolve(requested: string): Promise<string> {
+    const { fs, path } = await modules();
+    const root = await realRoot();
+    const target = path.resolve(root, requested);
+    if (!isInside(path, root, target)) {
+      throw new Error(`Path is outside the server root: ${requested}`);
+    }
+
+    let existing = target;
+    let rest = '';
+    for (;;) {
+      try {
+        existing = await fs.realpath(existing);
+        break;
+      } catch {
+        const link = await fs.lstat(existing).then(
+          (stats) => stats.isSymbolicLink(),
+          () => false
+        );
+        if (link) {
+          throw new Error(`Path goes through a broken symbolic link: ${requested}`);
+        }
+        rest = path.join(path.basename(existing), rest);
+        existing = path.dirname(existing);
+      }
+    }
+    if (!isInside(path, root, existing)) {
+      throw new Error(`Path is outside the server root: ${requested}`);
+    }
+    return path.join(existing, rest);
+  }
+
+  return {
+    async readFile(requested) {
+      const { fs } = await modules();
+      return new Uint8Array(await fs.readFile(await resolve(requested)));
+    },
+
+    async writeFile(requested, data) {
+      const { fs, path } = await modules();
+      const target = await resolve(requested);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, data);
+    },
+
+    async fileSize(requested) {
+      const { fs } = await modules();
+      return (await fs.stat(await resolve(requested))).size;
+    },
+  };
+}
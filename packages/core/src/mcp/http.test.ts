@@ -0,0 +1,234 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { lstat, mkdtemp, readFile, rm, symlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createDocx } from '../docx/rezip';
+import { createEmptyDocument } from '../utils/createDocument';
+import { startHttpServer, type McpHttpServer } from './http';
+
+let root: string;
+let server: McpHttpServer;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'mcp-http-'));
+  const docx = await createDocx(createEmptyDocument({ initialText: 'Hello from disk' }));
+  await writeFile(join(root, 'hello.docx'), new Uint8Array(docx));
+  server = await startHttpServer({ port: 0, rootDir: root, maxDocumentSize: 1024 * 1024 });
+});
+
+afterAll(async () => {
+  await server.close();
+  await rm(root, { recursive: true, force: true });
+});
+
+let nextId = 1;
+
+async function post(body: unknown, sessionId?: string) {
+  return fetch(server.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+async function connect(): Promise<string> {
+  const res = await post({
+    jsonrpc: '2.0',
+    id: nextId++,
+    method: 'initialize',
+    params: { protocolVersion: '2025-03-26' },
+  });
+  expect(res.status).toBe(200);
+  const body = (await res.json()) as { result: { protocolVersion: string } };
+  expect(body.result.protocolVersion).toBe('2025-03-26');
+  return res.headers.get('mcp-session-id')!;
+}
+
+async function callTool(sessionId: string, name: string, args: unknown) {
+  const res = await post(
+    { jsonrpc: '2.0', id: nextId++, method: 'tools/call', params: { name, arguments: args } },
+    sessionId
+  );
+  const body = (await res.json()) as {
+    result: { isError?: boolean; content: { text: string }[] };
+  };
+  const { isError, content } = body.result;
+  return { isError: !!isError, text: content[0].text };
+}
+
+describe('streamable HTTP transport', () => {
+  test('keeps documents separate per session', async () => {
+    const a = await connect();
+    const b = await connect();
+    expect(a).not.toBe(b);
+
+    const loaded = await callTool(a, 'docx_load', { path: 'hello.docx' });
+    expect(loaded.isError).toBe(false);
+    const { documentId } = JSON.parse(loaded.text);
+
+    const fromA = await callTool(a, 'docx_get_text', { documentId });
+    expect(JSON.parse(fromA.text).text).toBe('Hello from disk');
+
+    const fromB = await callTool(b, 'docx_get_text', { documentId });
+    expect(fromB.isError).toBe(true);
+    expect(fromB.text).toContain('Document not found');
+  });
+
+  test('rejects requests without a known session', async () => {
+    const live = await connect();
+    expect(live).toMatch(/^session_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/);
+    const { documentId } = JSON.parse(
+      (await callTool(live, 'docx_load', { path: 'hello.docx' })).text
+    );
+
+    const call = {
+      jsonrpc: '2.0',
+      id: nextId++,
+      method: 'tools/call',
+      params: { name: 'docx_get_text', arguments: { documentId } },
+    };
+    const missing = await post(call);
+    expect(missing.status).toBe(400);
+    expect(missing.headers.get('mcp-session-id')).toBeNull();
+    for (const unknown of [
+      'session_unknown',
+      live.slice(0, -1) + (live.endsWith('0') ? '1' : '0'),
+    ]) {
+      const res = await post(call, unknown);
+      expect(res.status).toBe(404);
+      expect(res.headers.get('mcp-session-id')).toBeNull();
+      expect(await res.text()).not.toContain('Hello from disk');
+    }
+  });
+
+  test('accepts notifications without answering and ends sessions on DELETE', async () => {
+    const session = await connect();
+    const res = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, session);
+    expect(res.status).toBe(202);
+
+    const deleted = await fetch(server.url, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': session },
+    });
+    expect(deleted.status).toBe(200);
+    expect(server.handler.getSession(session)).toBeUndefined();
+  });
+
+  test('saves to paths inside the root only', async () => {
+    const session = await connect();
+    const { documentId } = JSON.parse(
+      (await callTool(session, 'docx_load', { path: 'hello.docx' })).text
+    );
+
+    const saved = await callTool(session, 'docx_save', { documentId, path: 'out/copy.docx' });
+    expect(saved.isError).toBe(false);
+    expect(JSON.parse(saved.text).base64).toBeUndefined();
+    const written = await readFile(join(root, 'out/copy.docx'));
+    expect(written.byteLength).toBe(JSON.parse(saved.text).size);
+
+    const escaped = await callTool(session, 'docx_save', { documentId, path: '../escape.docx' });
+    expect(escaped.isError).toBe(true);
+    expect(escaped.text).toContain('outside the server root');
+
+    // A name starting with ".." is still inside
+    const dotted = await callTool(session, 'docx_save', { documentId, path: '..notes.docx' });
+    expect(dotted.isError).toBe(false);
+    expect((await readFile(join(root, '..notes.docx'))).byteLength).toBe(
+      JSON.parse(dotted.text).size
+    );
+  });
+
+  test('refuses to save through a broken link', async () => {
+    const session = await connect();
+    const { documentId } = JSON.parse(
+      (await callTool(session, 'docx_load', { path: 'hello.docx' })).text
+    );
+    const outside = join(tmpdir(), `mcp-http-outside-${process.pid}.docx`);
+    await symlink(outside, join(root, 'dangling.docx'));
+    await symlink(join(tmpdir(), `mcp-http-outside-${process.pid}`), join(root, 'gone'));
+
+    for (const path of ['dangling.docx', 'gone/copy.docx']) {
+      const saved = await callTool(session, 'docx_save', { documentId, path });
+      expect(saved.isError).toBe(true);
+      expect(saved.text).toContain('broken symbolic link');
+    }
+    await expect(lstat(outside)).rejects.toThrow();
+  });
+
+  test('enforces the document size limit', async () => {
+    const session = await connect();
+    const content = btoa('x'.repeat(2 * 1024 * 1024));
+    const res = await post(
+      {
+        jsonrpc: '2.0',
+        id: nextId++,
+        method: 'tools/call',
+        params: { name: 'docx_load', arguments: { content } },
+      },
+      session
+    );
+    // The body alone is over the limit derived from maxDocumentSize
+    expect(res.status).toBe(413);
+
+    const small = await callTool(session, 'docx_load', { content: btoa('x'.repeat(1100000)) });
+    expect(small.isError).toBe(true);
+    expect(small.text).toContain('too large');
+  });
+});
+
+describe('HTTP+SSE transport', () => {
+  test('answers posted messages on the event stream', async () => {
+    const controller = new AbortController();
+    const stream = await fetch(server.url.replace(/\/mcp$/, '/sse'), {
+      signal: controller.signal,
+    });
+    const reader = stream.body!.getReader();
+    const decoder = new TextDecoder();
+    let received = '';
+    const nextEvent = async (name: string) => {
+      for (;;) {
+        const match = received.match(new RegExp(`event: ${name}\\ndata: (.*)\\n\\n`));
+        if (match) {
+          received = received.slice(match.index! + match[0].length);
+          return match[1];
+        }
+        const { value } = await reader.read();
+        received += decoder.decode(value);
+      }
+    };
+
+    const endpoint = await nextEvent('endpoint');
+    expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+
+    const res = await fetch(new URL(endpoint, server.url), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 7, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(202);
+
+    const message = JSON.parse(await nextEvent('message'));
+    expect(message.id).toBe(7);
+    expect(message.result.tools.some((t: { name: string }) => t.name === 'docx_load')).toBe(true);
+
+    controller.abort();
+  });
+
+  test('rejects messages without a known session', async () => {
+    const messages = new URL('/messages', server.url);
+    const post = (query: string) =>
+      fetch(`${messages}${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 8, method: 'tools/list' }),
+      });
+
+    expect((await post('')).status).toBe(400);
+    expect((await post('?sessionId=')).status).toBe(400);
+    expect((await post(`?sessionId=session_${crypto.randomUUID()}`)).status).toBe(404);
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * MCP HTTP Transports
+ *
+ * Serves the MCP server over HTTP so one process can be shared by many
+ * clients. Two transports are offered on the same port:
+ *
+ * - Streamable HTTP: clients POST JSON-RPC messages to one endpoint and get
+ *   the responses back in the HTTP response.
+ * - HTTP+SSE (protocol 2024-11-05): clients open an event stream, then POST
+ *   messages to the endpoint it announces; responses arrive on the stream.
+ *
+ * Every client gets its own `McpSession`, so documents loaded by one client
+ * are invisible to the others. Idle sessions are closed after a timeout.
+ *
+ * @example
+ * ```ts
+ * import { startHttpServer } from '@eigenpal/docx-editor/mcp';
+ *
+ * const server = await startHttpServer({ port: 3000, rootDir: '/srv/documents' });
+ * console.log(`MCP server at ${server.url}`);
+ * ```
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { McpSession } from '../core-plugins/types';
+import {
+  createMcpServer,
+  handleJsonRpcRequest,
+  type JsonRpcRequest,
+  type McpServer,
+  type McpServerConfig,
+} from './server';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * HTTP transport options
+ */
+export interface McpHttpOptions {
+  /** Streamable HTTP endpoint (default: '/mcp') */
+  path?: string;
+
+  /** Event stream endpoint of the HTTP+SSE transport (default: '/sse') */
+  ssePath?: string;
+
+  /** Endpoint HTTP+SSE clients post messages to (default: '/messages') */
+  messagesPath?: string;
+
+  /** Largest request body in bytes (default: room for `maxDocumentSize` as base64, else 64 MB) */
+  maxBodySize?: number;
+
+  /** Close sessions idle for this long, in ms (default: 30 minutes) */
+  sessionTimeout?: number;
+
+  /** Most sessions open at once (default: 100) */
+  maxSessions?: number;
+
+  /**
+   * Browser origins allowed to connect. Requests from other origins are
+   * rejected to guard against DNS rebinding; requests without an `Origin`
+   * header (non-browser clients) are always allowed.
+   */
+  allowedOrigins?: string[];
+}
+
+/**
+ * Request handler for an existing Node HTTP server
+ */
+export interface McpHttpHandler {
+  (req: IncomingMessage, res: ServerResponse): Promise<void>;
+
+  /** The MCP server answering requests */
+  server: McpServer;
+
+  /** Look up an open session */
+  getSession(id: string): McpSession | undefined;
+
+  /** Number of open sessions */
+  readonly sessionCount: number;
+
+  /** Close all sessions and event streams */
+  close(): void;
+}
+
+/**
+ * HTTP server configuration
+ */
+export interface McpHttpServerConfig extends McpServerConfig, McpHttpOptions {
+  /** Port to listen on; 0 picks a free one (default: 3000) */
+  port?: number;
+
+  /** Interface to listen on (default: '127.0.0.1') */
+  host?: string;
+}
+
+/**
+ * Running HTTP server
+ */
+export interface McpHttpServer {
+  /** Streamable HTTP endpoint URL */
+  url: string;
+
+  /** Port the server listens on */
+  port: number;
+
+  /** The request handler, with access to sessions */
+  handler: McpHttpHandler;
+
+  /** Stop listening and close all sessions */
+  close(): Promise<void>;
+}
+
+interface HttpSession {
+  session: McpSession;
+  lastActive: number;
+  /** Event stream of an HTTP+SSE client */
+  stream?: ServerResponse;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const SESSION_HEADER = 'mcp-session-id';
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public code = -32600
+  ) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: HttpError): void {
+  if (error.status === 413) res.setHeader('Connection', 'close');
+  sendJson(res, error.status, {
+    jsonrpc: '2.0',
+    id: null,
+    error: { code: error.code, message: error.message },
+  });
+}
+
+function readBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    let tooLarge = false;
+    req.on('data', (chunk: Uint8Array) => {
+      if (tooLarge) return;
+      size += chunk.length;
+      if (size > limit) {
+        // Keep draining so the error response can still be sent
+        tooLarge = true;
+        chunks.length = 0;
+        reject(new HttpError(413, `Request body exceeds ${limit} bytes`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (!tooLarge) resolve(Buffer.concat(chunks).toString('utf8'));
+    });
+    req.on('error', reject);
+  });
+}
+
+async function readMessages(
+  req: IncomingMessage,
+  limit: number
+): Promise<{ messages: unknown[]; batch: boolean }> {
+  const body = await readBody(req, limit);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Parse error', -32700);
+  }
+  const batch = Array.isArray(parsed);
+  const messages: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+  if (messages.length === 0 || messages.some((m) => typeof m !== 'object' || m === null)) {
+    throw new HttpError(400, 'Invalid request');
+  }
+  return { messages, batch };
+}
+
+/** Requests carry an id and a method; notifications and responses need no answer */
+function isRequest(message: unknown): message is JsonRpcRequest {
+  const m = message as Partial<JsonRpcRequest>;
+  return typeof m.method === 'string' && m.id !== undefined && m.id !== null;
+}
+
+function isInitialize(message: unknown): boolean {
+  return (message as Partial<JsonRpcRequest>).method === 'initialize';
+}
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+/**
+ * Create an HTTP request handler serving both MCP transports
+ *
+ * Mount it in an existing Node HTTP server, or use `startHttpServer`.
+ */
+export function createHttpHandler(
+  server: McpServer,
+  options: McpHttpOptions & { maxDocumentSize?: number } = {}
+): McpHttpHandler {
+  const {
+    path = '/mcp',
+    ssePath = '/sse',
+    messagesPath = '/messages',
+    sessionTimeout = 30 * 60 * 1000,
+    maxSessions = 100,
+    allowedOrigins = [],
+  } = options;
+  const maxBodySize =
+    options.maxBodySize ??
+    (options.maxDocumentSize != null
+      ? Math.ceil((options.maxDocumentSize * 4) / 3) + 1024 * 1024
+      : 64 * 1024 * 1024);
+
+  const sessions = new Map<string, HttpSession>();
+
+  function openSession(): HttpSession {
+    if (sessions.size >= maxSessions) {
+      throw new HttpError(503, 'Too many open sessions');
+    }
+    const entry: HttpSession = { session: server.createSession(), lastActive: Date.now() };
+    sessions.set(entry.session.id, entry);
+    return entry;
+  }
+
+  function findSession(id: string | undefined | null): HttpSession {
+    if (!id) throw new HttpError(400, 'Missing session ID');
+    const entry = sessions.get(id);
+    if (!entry) throw new HttpError(404, 'Session not found');
+    entry.lastActive = Date.now();
+    return entry;
+  }
+
+  async function answer(messages: unknown[], session: McpSession) {
+    const responses = [];
+    for (const message of messages) {
+      if (isRequest(message)) {
+        responses.push(await handleJsonRpcRequest(server, message, session));
+      }
+    }
+    return responses;
+  }
+
+  // Close idle sessions; HTTP+SSE sessions live as long as their stream
+  const sweepTimer = setInterval(
+    () => {
+      const cutoff = Date.now() - sessionTimeout;
+      for (const [id, entry] of sessions) {
+        if (!entry.stream && entry.lastActive < cutoff) sessions.delete(id);
+      }
+    },
+    Math.min(sessionTimeout, 60 * 1000)
+  );
+  (sweepTimer as { unref?: () => void }).unref?.();
+
+  // Streamable HTTP
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers[SESSION_HEADER] as string | undefined;
+
+    if (req.method === 'DELETE') {
+      findSession(sessionId);
+      sessions.delete(sessionId!);
+      res.writeHead(200).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      // No server-initiated messages, so there is no stream to GET
+      res.writeHead(405, { Allow: 'POST, DELETE' }).end();
+      return;
+    }
+
+    const { messages, batch } = await readMessages(req, maxBodySize);
+    const entry = messages.some(isInitialize) ? openSession() : findSession(sessionId);
+    const responses = await answer(messages, entry.session);
+
+    res.setHeader('Mcp-Session-Id', entry.session.id);
+    if (responses.length === 0) {
+      res.writeHead(202).end();
+    } else {
+      sendJson(res, 200, batch ? responses : responses[0]);
+    }
+  }
+
+  // HTTP+SSE: the stream announces where to post messages
+  function handleSseStream(req: IncomingMessage, res: ServerResponse): void {
+    const entry = openSession();
+    entry.stream = res;
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(`event: endpoint\ndata: ${messagesPath}?sessionId=${entry.session.id}\n\n`);
+    req.on('close', () => sessions.delete(entry.session.id));
+  }
+
+  async function handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): Promise<void> {
+    const entry = findSession(url.searchParams.get('sessionId'));
+    if (!entry.stream) throw new HttpError(400, 'Session has no event stream');
+    const { messages } = await readMessages(req, maxBodySize);
+    res.writeHead(202).end();
+
+    for (const response of await answer(messages, entry.session)) {
+      if (entry.stream.writableEnded) break;
+      entry.stream.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+    }
+  }
+
+  const handler = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    try {
+      const origin = req.headers.origin;
+      if (origin && !allowedOrigins.includes(origin)) {
+        throw new HttpError(403, `Origin not allowed: ${origin}`);
+      }
+
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname === path) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === ssePath && req.method === 'GET') {
+        handleSseStream(req, res);
+      } else if (url.pathname === messagesPath && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404).end();
+      }
+    } catch (error) {
+      if (res.headersSent) {
+        res.end();
+      } else if (error instanceof HttpError) {
+        sendError(res, error);
+      } else {
+        sendError(res, new HttpError(500, (error as Error).message, -32603));
+      }
+    }
+  };
+
+  return Object.assign(handler, {
+    server,
+    getSession: (id: string) => sessions.get(id)?.session,
+    get sessionCount() {
+      return sessions.size;
+    },
+    close() {
+      clearInterval(sweepTimer);
+      for (const entry of sessions.values()) entry.stream?.end();
+      sessions.clear();
+    },
+  });
+}
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+/**
+ * Start the MCP server on HTTP
+ */
+export async function startHttpServer(config: McpHttpServerConfig = {}): Promise<McpHttpServer> {
+  const { port = 3000, host = '127.0.0.1' } = config;
+  const handler = createHttpHandler(createMcpServer(config), config);
+
+  const http = await import('http');
+  const httpServer = http.createServer((req, res) => {
+    void handler(req, res);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => resolve());
+  });
+
+  const address = httpServer.address();
+  const boundPort = typeof address === 'object' && address ? address.port : port;
+  const url = `http://${host.includes(':') ? `[${host}]` : host}:${boundPort}${config.path ?? '/mcp'}`;
+
+  if (config.debug) {
+    console.error(`[MCP] HTTP server listening on ${url}`);
+  }
+
+  return {
+    url,
+    port: boundPort,
+    handler,
+    close() {
+      handler.close();
+      return new Promise((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections?.();
+      });
+    },
+  };
+}
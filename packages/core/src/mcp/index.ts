@@ -5,7 +5,7 @@
  *
  * @example
  * ```ts
- * import { createMcpServer, startStdioServer } from '@eigenpal/docx-editor/mcp';
+ * import { createMcpServer, startHttpServer } from '@eigenpal/docx-editor/mcp';
  *
  * // Create server instance
  * const server = createMcpServer({ debug: true });
@@ -15,6 +15,9 @@
  *
  * // Call a tool programmatically
  * const result = await server.handleToolCall('docx_load', { content: base64 });
+ *
+ * // Or serve many clients over HTTP, each in its own session
+ * await startHttpServer({ port: 3000, rootDir: './documents' });
  * ```
  */
 
@@ -29,8 +32,29 @@ export {
   type McpServer,
   type McpServerConfig,
   type McpToolInfo,
+  type JsonRpcRequest,
+  type JsonRpcResponse,
 } from './server';
 
+// ============================================================================
+// HTTP TRANSPORTS
+// ============================================================================
+
+export {
+  createHttpHandler,
+  startHttpServer,
+  type McpHttpHandler,
+  type McpHttpOptions,
+  type McpHttpServer,
+  type McpHttpServerConfig,
+} from './http';
+
+// ============================================================================
+// FILE SYSTEM
+// ============================================================================
+
+export { createRootedFileSystem } from './fileSystem';
+
 // ============================================================================
 // CORE TOOLS
 // ============================================================================
@@ -42,9 +66,12 @@ export {
   closeDocumentTool,
   getDocumentInfoTool,
   getDocumentTextTool,
+  exportDocumentTextTool,
+  getLayoutTool,
   insertTextTool,
   replaceTextTool,
   deleteTextTool,
   formatTextTool,
   applyStyleTool,
+  insertEquationTool,
 } from './core-tools';
@@ -15,17 +15,22 @@
  * // Start MCP server
  * startStdioServer();
  * ```
+ *
+ * Stdio serves a single client. To share one server between clients, see
+ * `startHttpServer` in `./http`.
  */
 
 import type {
   McpToolDefinition,
   McpToolContext,
   McpSession,
+  McpFileSystem,
   LoadedDocument,
   JsonSchema,
 } from '../core-plugins/types';
 import { pluginRegistry } from '../core-plugins/registry';
 import { coreMcpTools } from './core-tools';
+import { createRootedFileSystem } from './fileSystem';
 
 // ============================================================================
 // TYPES
@@ -49,6 +54,15 @@ export interface McpServerConfig {
 
   /** Custom tools to add */
   additionalTools?: McpToolDefinition[];
+
+  /** Largest DOCX that tools accept or produce, in bytes (default: no limit) */
+  maxDocumentSize?: number;
+
+  /** Directory that `docx_load` and `docx_save` may use paths in */
+  rootDir?: string;
+
+  /** Custom file access for tools (takes precedence over `rootDir`) */
+  fileSystem?: McpFileSystem;
 }
 
 /**
@@ -58,11 +72,14 @@ export interface McpServer {
   /** All registered tools */
   tools: Map<string, McpToolDefinition>;
 
-  /** Active session */
+  /** Default session, used when a call names none */
   session: McpSession;
 
+  /** Create a session with its own documents, one per client */
+  createSession(): McpSession;
+
   /** Handle a tool call */
-  handleToolCall(toolName: string, input: unknown): Promise<unknown>;
+  handleToolCall(toolName: string, input: unknown, session?: McpSession): Promise<unknown>;
 
   /** List available tools */
   listTools(): McpToolInfo[];
@@ -98,16 +115,24 @@ export function createMcpServer(config: McpServerConfig = {}): McpServer {
     includeCoreTools = true,
     debug = false,
     additionalTools = [],
+    maxDocumentSize,
+    rootDir,
   } = config;
 
   const tools = new Map<string, McpToolDefinition>();
+  const fileSystem = config.fileSystem ?? (rootDir ? createRootedFileSystem(rootDir) : undefined);
+
+  function createSession(): McpSession {
+    return {
+      // Unguessable: over HTTP the ID is all that keeps clients apart
+      id: `session_${crypto.randomUUID()}`,
+      documents: new Map<string, LoadedDocument>(),
+      data: new Map<string, unknown>(),
+    };
+  }
 
   // Create session
-  const session: McpSession = {
-    id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    documents: new Map<string, LoadedDocument>(),
-    data: new Map<string, unknown>(),
-  };
+  const session = createSession();
 
   // Register core tools
   if (includeCoreTools) {
@@ -147,7 +172,11 @@ export function createMcpServer(config: McpServerConfig = {}): McpServer {
     : () => {};
 
   // Handle tool call
-  async function handleToolCall(toolName: string, input: unknown): Promise<unknown> {
+  async function handleToolCall(
+    toolName: string,
+    input: unknown,
+    callSession: McpSession = session
+  ): Promise<unknown> {
     const tool = tools.get(toolName);
     if (!tool) {
       throw new Error(`Unknown tool: ${toolName}`);
@@ -157,8 +186,10 @@ export function createMcpServer(config: McpServerConfig = {}): McpServer {
 
     // Create context
     const context: McpToolContext = {
-      session,
+      session: callSession,
       log,
+      fileSystem,
+      maxDocumentSize,
     };
 
     // Execute handler
@@ -194,6 +225,7 @@ export function createMcpServer(config: McpServerConfig = {}): McpServer {
   return {
     tools,
     session,
+    createSession,
     handleToolCall,
     listTools,
     getInfo,
@@ -204,10 +236,15 @@ export function createMcpServer(config: McpServerConfig = {}): McpServer {
 // JSON-RPC PROTOCOL
 // ============================================================================
 
+/**
+ * Protocol versions the server speaks, newest first
+ */
+const SUPPORTED_PROTOCOL_VERSIONS = ['2025-03-26', '2024-11-05'];
+
 /**
  * JSON-RPC request
  */
-interface JsonRpcRequest {
+export interface JsonRpcRequest {
   jsonrpc: '2.0';
   id: string | number;
   method: string;
@@ -217,7 +254,7 @@ interface JsonRpcRequest {
 /**
  * JSON-RPC response
  */
-interface JsonRpcResponse {
+export interface JsonRpcResponse {
   jsonrpc: '2.0';
   id: string | number;
   result?: unknown;
@@ -230,21 +267,28 @@ interface JsonRpcResponse {
 
 /**
  * Handle a JSON-RPC request
+ *
+ * Tool calls run in `session`, or in the server's default session.
  */
 export async function handleJsonRpcRequest(
   server: McpServer,
-  request: JsonRpcRequest
+  request: JsonRpcRequest,
+  session?: McpSession
 ): Promise<JsonRpcResponse> {
   const { id, method, params } = request;
 
   try {
     switch (method) {
       case 'initialize': {
+        const requested = (params as { protocolVersion?: string } | undefined)?.protocolVersion;
         return {
           jsonrpc: '2.0',
           id,
           result: {
-            protocolVersion: '2024-11-05',
+            protocolVersion:
+              requested && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)
+                ? requested
+                : SUPPORTED_PROTOCOL_VERSIONS[0],
             capabilities: {
               tools: {},
             },
@@ -273,7 +317,7 @@ export async function handleJsonRpcRequest(
           name: string;
           arguments: unknown;
         };
-        const result = await server.handleToolCall(name, args);
+        const result = await server.handleToolCall(name, args, session);
         return {
           jsonrpc: '2.0',
           id,
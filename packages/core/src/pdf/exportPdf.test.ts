@@ -0,0 +1,147 @@
+/**
+ * Tests for PDF export
+ */
+
+import { describe, test, expect } from 'bun:test';
+
+import { schema } from '../prosemirror/schema';
+import type { LayoutPipelineResult } from '../layout-bridge/layoutPipeline';
+import { exportLayoutToPdf } from './exportPdf';
+import { PAGE, makePage, makeParagraph } from '../../test/pageFixtures';
+import { formatNumber, serializeValue, pdfName, PdfRef } from './pdfWriter';
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+/**
+ * Two pages: a heading with a bookmark, then a paragraph linking to the
+ * bookmark and to a web page.
+ */
+function makeFixture() {
+  const heading = schema.node(
+    'paragraph',
+    { styleId: 'Heading1', bookmarks: [{ id: 0, name: 'intro' }] },
+    schema.text('Introduction')
+  );
+  const body = schema.node('paragraph', null, schema.text('See intro and site'));
+  const doc = schema.node('doc', null, [heading, body]);
+  const bodyStart = heading.nodeSize;
+
+  const first = makeParagraph(
+    1,
+    [{ kind: 'text', text: 'Introduction', bold: true }],
+    0,
+    bodyStart
+  );
+  const second = makeParagraph(
+    2,
+    [
+      { kind: 'text', text: 'See ' },
+      { kind: 'text', text: 'intro', hyperlink: { href: '#intro' } },
+      { kind: 'text', text: ' and ' },
+      { kind: 'text', text: 'site', hyperlink: { href: 'https://example.com/' } },
+    ],
+    bodyStart,
+    doc.content.size
+  );
+
+  const result: LayoutPipelineResult = {
+    layout: {
+      pageSize: PAGE,
+      pages: [makePage(1, 1, 0, bodyStart), makePage(2, 2, bodyStart, doc.content.size)],
+    },
+    blocks: [first.block, second.block],
+    measures: [first.measure, second.measure],
+    titlePg: false,
+  };
+  return { doc, result };
+}
+
+const exportOptions = {
+  fontSource: () => null,
+  measureText: (text: string) => text.length * 6,
+};
+
+function pdfText(bytes: Uint8Array): string {
+  return new TextDecoder('latin1').decode(bytes);
+}
+
+// =============================================================================
+// WRITER
+// =============================================================================
+
+describe('pdfWriter', () => {
+  test('formats numbers without exponents or negative zero', () => {
+    expect(formatNumber(1)).toBe('1');
+    expect(formatNumber(0.1234)).toBe('0.123');
+    expect(formatNumber(-0.0001)).toBe('0');
+    expect(formatNumber(1e-7)).toBe('0');
+    expect(formatNumber(NaN)).toBe('0');
+  });
+
+  test('serializes dictionaries, names, references and strings', () => {
+    expect(serializeValue({ Type: pdfName('Page'), Parent: new PdfRef(3), Skip: undefined })).toBe(
+      '<</Type /Page /Parent 3 0 R>>'
+    );
+    expect(serializeValue(['a(b)', 1.5, null, true])).toBe('[(a\\(b\\)) 1.5 null true]');
+    expect(serializeValue('é')).toBe('<FEFF00e9>');
+  });
+});
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+describe('exportLayoutToPdf', () => {
+  test('writes a well-formed PDF with one page per layout page', async () => {
+    const { result } = makeFixture();
+    const text = pdfText(await exportLayoutToPdf(result, exportOptions));
+
+    expect(text.startsWith('%PDF-1.7')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('/Type /Pages /Kids [');
+    expect(text).toContain('/Count 2');
+    expect(text).toContain('/MediaBox [0 0 612 792]');
+
+    const startxref = Number(/startxref\n(\d+)/.exec(text)?.[1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+  });
+
+  test('falls back to standard fonts when no font file is available', async () => {
+    const { result } = makeFixture();
+    const text = pdfText(await exportLayoutToPdf(result, exportOptions));
+
+    expect(text).toContain('/BaseFont /Helvetica-Bold');
+    expect(text).toContain('/BaseFont /Helvetica');
+  });
+
+  test('keeps external and internal hyperlinks as link annotations', async () => {
+    const { doc, result } = makeFixture();
+    const text = pdfText(await exportLayoutToPdf(result, { ...exportOptions, doc }));
+
+    expect(text).toContain('/URI (https://example.com/)');
+    expect(text).toContain('/S /GoTo /D (intro)');
+    expect(text).toContain('/Dests <</Names [(intro) [');
+  });
+
+  test('drops internal links to unknown bookmarks', async () => {
+    const { result } = makeFixture();
+    const text = pdfText(await exportLayoutToPdf(result, exportOptions));
+
+    expect(text).toContain('/URI (https://example.com/)');
+    expect(text).not.toContain('/GoTo');
+  });
+
+  test('builds the outline from headings', async () => {
+    const { doc, result } = makeFixture();
+    const text = pdfText(
+      await exportLayoutToPdf(result, { ...exportOptions, doc, title: 'Report' })
+    );
+
+    expect(text).toContain('/Type /Outlines');
+    expect(text).toContain('/Title (Introduction)');
+    expect(text).toContain('/PageMode /UseOutlines');
+    expect(text).toContain('/Title (Report)');
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * PDF Export
+ *
+ * Turns a paginated layout into a PDF file. Pages are drawn from the same
+ * fragments the DOM painter renders, fonts are embedded from the files the
+ * font loader fetched, and the document structure carries over:
+ * - headings become the PDF outline (bookmarks panel)
+ * - Word bookmarks become named destinations
+ * - hyperlinks become link annotations (external URIs or internal jumps)
+ */
+
+import type { Node as PMNode } from 'prosemirror-model';
+import type { Document } from '../types/document';
+import type { Theme } from '../types/document';
+import {
+  buildDocumentLayout,
+  getSectionHeaderFooters,
+  type LayoutPipelineResult,
+} from '../layout-bridge/layoutPipeline';
+import { measureTextWidth } from '../layout-bridge/measuring';
+import { toProseDoc } from '../prosemirror/conversion/toProseDoc';
+import { collectHeadings } from '../utils/headingCollector';
+import { PdfWriter, PdfRef, PdfRaw, pdfName, type PdfDict, type PdfValue } from './pdfWriter';
+import { PdfFontSet, loadedFontSource, type PdfFontSource, type PdfTextMeasurer } from './pdfFonts';
+import { PdfImageSet } from './pdfImages';
+import {
+  collectPdfResources,
+  locateDocumentPosition,
+  renderPdfPages,
+  type PdfLinkArea,
+} from './renderPdf';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PdfExportOptions {
+  /**
+   * ProseMirror document the layout was built from. Needed for the outline
+   * (headings) and bookmark destinations; without it the PDF has neither.
+   */
+  doc?: PMNode | null;
+  /**
+   * Supplies font files to embed. Defaults to the fonts the font loader has
+   * fetched; faces without a file fall back to the standard PDF fonts.
+   */
+  fontSource?: PdfFontSource;
+  /**
+   * Text measurer matching the one the layout used. Defaults to the layout's
+   * measurer.
+   */
+  measureText?: PdfTextMeasurer;
+  /** Theme for resolving page border colors */
+  theme?: Theme | null;
+  /** Document information */
+  title?: string;
+  author?: string;
+  subject?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const PT_PER_PX = 0.75;
+
+/**
+ * The layout's own measurer: canvas, the measurement backend, or an
+ * estimate when neither is available (e.g. plain Node).
+ */
+const defaultMeasureText: PdfTextMeasurer = measureTextWidth;
+
+interface OutlineEntry {
+  title: string;
+  level: number;
+  pageIndex: number;
+  y: number;
+  children: OutlineEntry[];
+}
+
+/**
+ * Nest headings by level: each heading becomes a child of the closest
+ * preceding heading with a lower level.
+ */
+function buildOutlineTree(doc: PMNode, result: LayoutPipelineResult): OutlineEntry[] {
+  const roots: OutlineEntry[] = [];
+  const stack: OutlineEntry[] = [];
+  for (const heading of collectHeadings(doc)) {
+    const title = heading.text.trim();
+    const location = locateDocumentPosition(result, heading.pmPos);
+    if (!title || !location) continue;
+    const entry: OutlineEntry = { title, level: heading.level, ...location, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].level >= entry.level) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].children.push(entry);
+    else roots.push(entry);
+    stack.push(entry);
+  }
+  return roots;
+}
+
+/**
+ * Bookmark name → position, from the `bookmarks` attr on paragraphs.
+ */
+function collectBookmarks(doc: PMNode): Map<string, number> {
+  const bookmarks = new Map<string, number>();
+  doc.descendants((node, pos) => {
+    const entries = node.attrs?.bookmarks as Array<{ name?: string }> | null | undefined;
+    if (Array.isArray(entries)) {
+      for (const bookmark of entries) {
+        if (bookmark.name && !bookmarks.has(bookmark.name)) bookmarks.set(bookmark.name, pos);
+      }
+    }
+    return true;
+  });
+  return bookmarks;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Export a paginated layout as a PDF file.
+ */
+export async function exportLayoutToPdf(
+  result: LayoutPipelineResult,
+  options: PdfExportOptions = {}
+): Promise<Uint8Array> {
+  const writer = new PdfWriter();
+  const measureText = options.measureText ?? defaultMeasureText;
+  const fonts = new PdfFontSet(writer, {
+    fontSource: options.fontSource ?? loadedFontSource,
+    measureText,
+  });
+  const images = new PdfImageSet(writer);
+
+  const resources = collectPdfResources(result);
+  await fonts.load(resources.fonts);
+  await images.load(resources.images);
+
+  const { pages, xObjects } = renderPdfPages(result, {
+    fonts,
+    images,
+    measureText,
+    theme: options.theme,
+  });
+
+  const catalogRef = writer.allocate();
+  const pagesRef = writer.allocate();
+  const resourcesRef = writer.allocate();
+  const pageRefs = pages.map(() => writer.allocate());
+
+  // Destinations: [page /XYZ left top zoom], with top flipped to PDF space
+  const destination = (pageIndex: number, y: number): PdfValue => {
+    const page = pages[pageIndex];
+    const top = (page.height - Math.max(0, y)) * PT_PER_PX;
+    return [pageRefs[pageIndex], pdfName('XYZ'), 0, top, null];
+  };
+
+  const namedDests = new Map<string, PdfValue>();
+  if (options.doc) {
+    for (const [name, pos] of collectBookmarks(options.doc)) {
+      const location = locateDocumentPosition(result, pos);
+      if (location) namedDests.set(name, destination(location.pageIndex, location.y));
+    }
+  }
+
+  const linkAnnotation = (link: PdfLinkArea, page: { height: number }): PdfDict | null => {
+    const rect = [
+      link.x * PT_PER_PX,
+      (page.height - link.y - link.height) * PT_PER_PX,
+      (link.x + link.width) * PT_PER_PX,
+      (page.height - link.y) * PT_PER_PX,
+    ];
+    let action: PdfDict;
+    if (link.href.startsWith('#')) {
+      const name = link.href.slice(1);
+      if (!namedDests.has(name)) return null;
+      action = { S: pdfName('GoTo'), D: name };
+    } else {
+      action = { S: pdfName('URI'), URI: link.href };
+    }
+    return {
+      Type: pdfName('Annot'),
+      Subtype: pdfName('Link'),
+      Rect: rect,
+      Border: [0, 0, 0],
+      A: action,
+    };
+  };
+
+  pages.forEach((page, index) => {
+    // Layout pixels, y down → PDF points, y up
+    const content = `0.75 0 0 -0.75 0 ${page.height * PT_PER_PX} cm\n${page.content}`;
+    const contentRef = writer.addStream({}, content);
+    const annots = page.links
+      .map((link) => linkAnnotation(link, page))
+      .filter((annot): annot is PdfDict => annot !== null)
+      .map((annot) => writer.add(annot));
+    writer.set(pageRefs[index], {
+      Type: pdfName('Page'),
+      Parent: pagesRef,
+      MediaBox: [0, 0, page.width * PT_PER_PX, page.height * PT_PER_PX],
+      Resources: resourcesRef,
+      Contents: contentRef,
+      Annots: annots.length > 0 ? annots : undefined,
+    });
+  });
+
+  writer.set(pagesRef, { Type: pdfName('Pages'), Kids: pageRefs, Count: pageRefs.length });
+
+  // Fonts report only the faces that were drawn, so resources come last
+  fonts.finalize();
+  writer.set(resourcesRef, {
+    ProcSet: [
+      pdfName('PDF'),
+      pdfName('Text'),
+      pdfName('ImageB'),
+      pdfName('ImageC'),
+      pdfName('ImageI'),
+    ],
+    Font: fonts.resources(),
+    XObject: Object.keys(xObjects).length > 0 ? xObjects : undefined,
+  });
+
+  // Outline
+  let outlinesRef: PdfRef | undefined;
+  const outline = options.doc ? buildOutlineTree(options.doc, result) : [];
+  if (outline.length > 0) {
+    outlinesRef = writer.allocate();
+    const writeLevel = (
+      entries: OutlineEntry[],
+      parent: PdfRef
+    ): { first: PdfRef; last: PdfRef; count: number } => {
+      const refs = entries.map(() => writer.allocate());
+      let count = entries.length;
+      entries.forEach((entry, i) => {
+        const dict: PdfDict = {
+          Title: entry.title,
+          Parent: parent,
+          Prev: i > 0 ? refs[i - 1] : undefined,
+          Next: i < refs.length - 1 ? refs[i + 1] : undefined,
+          Dest: destination(entry.pageIndex, entry.y),
+        };
+        if (entry.children.length > 0) {
+          const children = writeLevel(entry.children, refs[i]);
+          dict.First = children.first;
+          dict.Last = children.last;
+          dict.Count = children.count;
+          count += children.count;
+        }
+        writer.set(refs[i], dict);
+      });
+      return { first: refs[0], last: refs[refs.length - 1], count };
+    };
+    const top = writeLevel(outline, outlinesRef);
+    writer.set(outlinesRef, {
+      Type: pdfName('Outlines'),
+      First: top.first,
+      Last: top.last,
+      Count: top.count,
+    });
+  }
+
+  // Named destinations (name tree leaf with keys in sorted order)
+  let namesRef: PdfRef | undefined;
+  if (namedDests.size > 0) {
+    const sorted = [...namedDests.entries()].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const names: PdfValue[] = sorted.flatMap(([name, dest]) => [name, dest]);
+    namesRef = writer.add({ Dests: { Names: names } });
+  }
+
+  writer.set(catalogRef, {
+    Type: pdfName('Catalog'),
+    Pages: pagesRef,
+    Outlines: outlinesRef,
+    Names: namesRef,
+    PageMode: outlinesRef ? pdfName('UseOutlines') : undefined,
+  });
+
+  const infoRef = writer.add({
+    Title: options.title,
+    Author: options.author,
+    Subject: options.subject,
+    Producer: 'docx-js-editor',
+    CreationDate: new PdfRaw(`(D:${formatPdfDate(new Date())})`),
+  });
+
+  return writer.toBytes(catalogRef, infoRef);
+}
+
+/**
+ * Lay out a parsed document and export it as a PDF file. Layout measures
+ * text with a canvas, so this needs a browser or canvas-capable runtime.
+ */
+export async function exportDocumentToPdf(
+  document: Document,
+  options: Omit<PdfExportOptions, 'doc'> = {}
+): Promise<Uint8Array> {
+  const doc = toProseDoc(document, { styles: document.package.styles ?? undefined });
+  const theme = options.theme ?? document.package.theme ?? null;
+  const result = buildDocumentLayout(doc, {
+    document,
+    theme,
+    sectionProperties: document.package.document?.finalSectionProperties ?? null,
+    ...getSectionHeaderFooters(document),
+  });
+  return exportLayoutToPdf(result, { ...options, doc, theme });
+}
+
+function formatPdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+}
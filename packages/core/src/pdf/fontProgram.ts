@@ -0,0 +1,473 @@
+/**
+ * Font Program Reader
+ *
+ * Reads TrueType/OpenType fonts (plain sfnt, WOFF 1.0, or the first face of
+ * a collection) for PDF embedding:
+ * - metrics (units per em, ascent/descent, bounding box, advance widths)
+ * - Unicode → glyph lookup from the cmap
+ * - glyf subsetting that keeps glyph IDs stable, so the PDF can use an
+ *   identity CID → GID mapping
+ *
+ * CFF-flavored OpenType fonts are embedded whole. WOFF2 (Brotli) isn't
+ * supported; callers fall back to a standard font.
+ */
+
+import { inflate } from './pdfWriter';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FontProgram {
+  /** Sanitized PostScript name */
+  postScriptName: string;
+  /** Family name (typographic family when the font has one) */
+  familyName: string;
+  /** Style flags of the face */
+  bold: boolean;
+  italic: boolean;
+  /** CFF outlines (embedded whole as OpenType) rather than TrueType glyf */
+  isCff: boolean;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  bbox: [number, number, number, number];
+  italicAngle: number;
+  isFixedPitch: boolean;
+  isSerif: boolean;
+  weight: number;
+  numGlyphs: number;
+  /** Glyph ID for a code point (0 when missing) */
+  glyphForCodePoint(codePoint: number): number;
+  /** Advance width of a glyph in font units */
+  advanceWidth(glyphId: number): number;
+  /** Font file containing at least the given glyphs */
+  subset(glyphIds: Iterable<number>): Uint8Array;
+}
+
+type Tables = Map<string, Uint8Array>;
+
+// ============================================================================
+// BINARY HELPERS
+// ============================================================================
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function tagAt(dv: DataView, offset: number): string {
+  return String.fromCharCode(
+    dv.getUint8(offset),
+    dv.getUint8(offset + 1),
+    dv.getUint8(offset + 2),
+    dv.getUint8(offset + 3)
+  );
+}
+
+function checksum(bytes: Uint8Array): number {
+  const padded = new Uint8Array((bytes.length + 3) & ~3);
+  padded.set(bytes);
+  const dv = view(padded);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) sum = (sum + dv.getUint32(i)) >>> 0;
+  return sum;
+}
+
+/**
+ * Assemble tables into an sfnt file.
+ */
+function writeSfnt(tables: Tables, version: number): Uint8Array {
+  const tags = [...tables.keys()].sort();
+  const numTables = tags.length;
+  let entrySelector = 0;
+  while (1 << (entrySelector + 1) <= numTables) entrySelector++;
+  const searchRange = (1 << entrySelector) * 16;
+
+  let size = 12 + numTables * 16;
+  for (const tag of tags) size += (tables.get(tag)!.length + 3) & ~3;
+
+  const out = new Uint8Array(size);
+  const dv = view(out);
+  dv.setUint32(0, version);
+  dv.setUint16(4, numTables);
+  dv.setUint16(6, searchRange);
+  dv.setUint16(8, entrySelector);
+  dv.setUint16(10, numTables * 16 - searchRange);
+
+  let offset = 12 + numTables * 16;
+  let headOffset = -1;
+  tags.forEach((tag, index) => {
+    const data = tables.get(tag)!;
+    const record = 12 + index * 16;
+    for (let i = 0; i < 4; i++) dv.setUint8(record + i, tag.charCodeAt(i));
+    dv.setUint32(record + 4, checksum(data));
+    dv.setUint32(record + 8, offset);
+    dv.setUint32(record + 12, data.length);
+    out.set(data, offset);
+    if (tag === 'head') headOffset = offset;
+    offset += (data.length + 3) & ~3;
+  });
+
+  if (headOffset >= 0) {
+    dv.setUint32(headOffset + 8, (0xb1b0afba - checksum(out)) >>> 0);
+  }
+  return out;
+}
+
+// ============================================================================
+// CONTAINER PARSING
+// ============================================================================
+
+function readSfntTables(bytes: Uint8Array, directoryOffset: number): Tables {
+  const dv = view(bytes);
+  const numTables = dv.getUint16(directoryOffset + 4);
+  const tables: Tables = new Map();
+  for (let i = 0; i < numTables; i++) {
+    const record = directoryOffset + 12 + i * 16;
+    const offset = dv.getUint32(record + 8);
+    const length = dv.getUint32(record + 12);
+    if (offset + length > bytes.length) continue;
+    tables.set(tagAt(dv, record), bytes.subarray(offset, offset + length));
+  }
+  return tables;
+}
+
+async function readWoffTables(bytes: Uint8Array): Promise<Tables | null> {
+  const dv = view(bytes);
+  const numTables = dv.getUint16(12);
+  const tables: Tables = new Map();
+  for (let i = 0; i < numTables; i++) {
+    const record = 44 + i * 20;
+    const offset = dv.getUint32(record + 4);
+    const compLength = dv.getUint32(record + 8);
+    const origLength = dv.getUint32(record + 12);
+    const data = bytes.subarray(offset, offset + compLength);
+    if (compLength === origLength) {
+      tables.set(tagAt(dv, record), data);
+    } else {
+      const inflated = await inflate(data);
+      if (!inflated) return null;
+      tables.set(tagAt(dv, record), inflated);
+    }
+  }
+  return tables;
+}
+
+// ============================================================================
+// TABLE PARSING
+// ============================================================================
+
+type CmapLookup = (codePoint: number) => number;
+
+function parseCmapSubtable(data: Uint8Array, offset: number): CmapLookup | null {
+  const dv = view(data);
+  const format = dv.getUint16(offset);
+
+  if (format === 4) {
+    const segCount = dv.getUint16(offset + 6) / 2;
+    const endCodes = offset + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    return (codePoint) => {
+      if (codePoint > 0xffff) return 0;
+      for (let i = 0; i < segCount; i++) {
+        if (dv.getUint16(endCodes + i * 2) < codePoint) continue;
+        const start = dv.getUint16(startCodes + i * 2);
+        if (start > codePoint) return 0;
+        const delta = dv.getInt16(idDeltas + i * 2);
+        const rangeOffset = dv.getUint16(idRangeOffsets + i * 2);
+        if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+        const glyphOffset = idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2;
+        if (glyphOffset + 2 > data.length) return 0;
+        const glyph = dv.getUint16(glyphOffset);
+        return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+      }
+      return 0;
+    };
+  }
+
+  if (format === 12) {
+    const numGroups = dv.getUint32(offset + 12);
+    return (codePoint) => {
+      let low = 0;
+      let high = numGroups - 1;
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        const group = offset + 16 + mid * 12;
+        const start = dv.getUint32(group);
+        const end = dv.getUint32(group + 4);
+        if (codePoint < start) high = mid - 1;
+        else if (codePoint > end) low = mid + 1;
+        else return dv.getUint32(group + 8) + (codePoint - start);
+      }
+      return 0;
+    };
+  }
+
+  if (format === 6) {
+    const firstCode = dv.getUint16(offset + 6);
+    const entryCount = dv.getUint16(offset + 8);
+    return (codePoint) => {
+      const index = codePoint - firstCode;
+      return index >= 0 && index < entryCount ? dv.getUint16(offset + 10 + index * 2) : 0;
+    };
+  }
+
+  return null;
+}
+
+function parseCmap(data: Uint8Array | undefined): CmapLookup {
+  if (!data) return () => 0;
+  const dv = view(data);
+  const numTables = dv.getUint16(2);
+  const subtables = new Map<string, number>();
+  for (let i = 0; i < numTables; i++) {
+    const record = 4 + i * 8;
+    subtables.set(`${dv.getUint16(record)}/${dv.getUint16(record + 2)}`, dv.getUint32(record + 4));
+  }
+
+  // Prefer full-Unicode subtables, then BMP ones
+  for (const key of ['3/10', '0/6', '0/4', '3/1', '0/3', '0/2', '0/1', '0/0']) {
+    const offset = subtables.get(key);
+    if (offset === undefined) continue;
+    const lookup = parseCmapSubtable(data, offset);
+    if (lookup) return lookup;
+  }
+
+  // Symbol fonts map their characters into the U+F000 private range
+  const symbolOffset = subtables.get('3/0');
+  const symbol = symbolOffset !== undefined ? parseCmapSubtable(data, symbolOffset) : null;
+  if (symbol) {
+    return (codePoint) => symbol(codePoint) || (codePoint < 0x100 ? symbol(0xf000 + codePoint) : 0);
+  }
+  return () => 0;
+}
+
+function parseName(data: Uint8Array | undefined, nameId: number): string {
+  if (!data) return '';
+  const dv = view(data);
+  const count = dv.getUint16(2);
+  const stringOffset = dv.getUint16(4);
+  for (let i = 0; i < count; i++) {
+    const record = 6 + i * 12;
+    if (dv.getUint16(record + 6) !== nameId) continue;
+    const platform = dv.getUint16(record);
+    const length = dv.getUint16(record + 8);
+    const offset = stringOffset + dv.getUint16(record + 10);
+    if (offset + length > data.length) continue;
+    let name = '';
+    if (platform === 3 || platform === 0) {
+      for (let j = 0; j < length; j += 2) name += String.fromCharCode(dv.getUint16(offset + j));
+    } else {
+      for (let j = 0; j < length; j++) name += String.fromCharCode(dv.getUint8(offset + j));
+    }
+    if (name) return name;
+  }
+  return '';
+}
+
+function sanitizePostScriptName(name: string): string {
+  return name.replace(/[^A-Za-z0-9-]/g, '').slice(0, 63);
+}
+
+// ============================================================================
+// GLYF SUBSETTING
+// ============================================================================
+
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+/** Tables a subset TrueType font for PDF embedding needs */
+const SUBSET_TABLES = ['head', 'hhea', 'maxp', 'hmtx', 'cvt ', 'fpgm', 'prep', 'OS/2'];
+
+function subsetGlyf(tables: Tables, numGlyphs: number, glyphIds: Iterable<number>): Uint8Array {
+  const head = tables.get('head')!;
+  const loca = tables.get('loca')!;
+  const glyf = tables.get('glyf')!;
+  const shortLoca = view(head).getInt16(50) === 0;
+  const locaView = view(loca);
+  const glyphRange = (gid: number): [number, number] => {
+    if (gid < 0 || gid >= numGlyphs) return [0, 0];
+    return shortLoca
+      ? [locaView.getUint16(gid * 2) * 2, locaView.getUint16(gid * 2 + 2) * 2]
+      : [locaView.getUint32(gid * 4), locaView.getUint32(gid * 4 + 4)];
+  };
+
+  // Collect requested glyphs plus every component of composite glyphs
+  const keep = new Set<number>();
+  const queue = [0, ...glyphIds];
+  const glyfView = view(glyf);
+  while (queue.length > 0) {
+    const gid = queue.pop()!;
+    if (keep.has(gid)) continue;
+    keep.add(gid);
+    const [start, end] = glyphRange(gid);
+    if (end - start < 10 || end > glyf.length) continue;
+    if (glyfView.getInt16(start) >= 0) continue;
+    let offset = start + 10;
+    let flags = MORE_COMPONENTS;
+    while (flags & MORE_COMPONENTS && offset + 4 <= end) {
+      flags = glyfView.getUint16(offset);
+      const component = glyfView.getUint16(offset + 2);
+      if (!keep.has(component)) queue.push(component);
+      offset += 4 + (flags & ARG_1_AND_2_ARE_WORDS ? 4 : 2);
+      if (flags & WE_HAVE_A_SCALE) offset += 2;
+      else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) offset += 4;
+      else if (flags & WE_HAVE_A_TWO_BY_TWO) offset += 8;
+    }
+  }
+
+  // Rebuild glyf/loca with unused glyphs emptied out, keeping glyph IDs
+  let glyfSize = 0;
+  for (const gid of keep) {
+    const [start, end] = glyphRange(gid);
+    glyfSize += (Math.max(0, end - start) + 3) & ~3;
+  }
+  const newGlyf = new Uint8Array(glyfSize);
+  const newLoca = new Uint8Array((numGlyphs + 1) * 4);
+  const newLocaView = view(newLoca);
+  let position = 0;
+  for (let gid = 0; gid < numGlyphs; gid++) {
+    newLocaView.setUint32(gid * 4, position);
+    if (!keep.has(gid)) continue;
+    const [start, end] = glyphRange(gid);
+    if (end <= start || end > glyf.length) continue;
+    newGlyf.set(glyf.subarray(start, end), position);
+    position += (end - start + 3) & ~3;
+  }
+  newLocaView.setUint32(numGlyphs * 4, position);
+
+  const newHead = head.slice();
+  view(newHead).setUint32(8, 0); // checkSumAdjustment, recomputed by writeSfnt
+  view(newHead).setInt16(50, 1); // long loca offsets
+
+  const subset: Tables = new Map();
+  for (const tag of SUBSET_TABLES) {
+    const table = tables.get(tag);
+    if (table) subset.set(tag, table);
+  }
+  subset.set('head', newHead);
+  subset.set('loca', newLoca);
+  subset.set('glyf', newGlyf.subarray(0, position));
+  return writeSfnt(subset, 0x00010000);
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Parse a font file. Returns null for unsupported or malformed files.
+ */
+export async function parseFontProgram(
+  input: ArrayBuffer | Uint8Array
+): Promise<FontProgram | null> {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  if (bytes.length < 12) return null;
+
+  try {
+    const signature = tagAt(view(bytes), 0);
+    let tables: Tables | null;
+    if (signature === 'wOFF') {
+      tables = await readWoffTables(bytes);
+    } else if (signature === 'ttcf') {
+      tables = readSfntTables(bytes, view(bytes).getUint32(12));
+    } else if (
+      signature === 'OTTO' ||
+      signature === 'true' ||
+      view(bytes).getUint32(0) === 0x10000
+    ) {
+      tables = readSfntTables(bytes, 0);
+    } else {
+      return null;
+    }
+    return tables ? buildFontProgram(tables) : null;
+  } catch {
+    return null;
+  }
+}
+
+function buildFontProgram(tables: Tables): FontProgram | null {
+  const head = tables.get('head');
+  const hhea = tables.get('hhea');
+  const maxp = tables.get('maxp');
+  const hmtx = tables.get('hmtx');
+  if (!head || !hhea || !maxp || !hmtx) return null;
+
+  const isCff = tables.has('CFF ') || tables.has('CFF2');
+  if (!isCff && (!tables.has('glyf') || !tables.has('loca'))) return null;
+
+  const headView = view(head);
+  const hheaView = view(hhea);
+  const hmtxView = view(hmtx);
+  const unitsPerEm = headView.getUint16(18) || 1000;
+  const numGlyphs = view(maxp).getUint16(4);
+  const numHMetrics = Math.min(hheaView.getUint16(34), hmtx.length / 4);
+
+  const os2 = tables.get('OS/2');
+  const os2View = os2 ? view(os2) : null;
+  const post = tables.get('post');
+  const postView = post ? view(post) : null;
+
+  const ascent = hheaView.getInt16(4);
+  const descent = hheaView.getInt16(6);
+  const capHeight =
+    os2 && os2View && os2View.getUint16(0) >= 2 && os2.length >= 90
+      ? os2View.getInt16(88)
+      : Math.round(ascent * 0.9);
+  // Serif flag from the IBM family class (classes 1-7 are serif styles)
+  const familyClass = os2View ? os2View.getUint8(30) : 0;
+  // Style from OS/2 fsSelection (italic bit 0, bold bit 5), else head macStyle
+  const fsSelection = os2 && os2View && os2.length >= 64 ? os2View.getUint16(62) : 0;
+  const macStyle = headView.getUint16(44);
+  const name = tables.get('name');
+
+  const cmap = parseCmap(tables.get('cmap'));
+  const glyphCache = new Map<number, number>();
+
+  return {
+    postScriptName: sanitizePostScriptName(parseName(name, 6)) || 'Embedded',
+    familyName: parseName(name, 16) || parseName(name, 1),
+    bold: (fsSelection & 0x20) !== 0 || (macStyle & 1) !== 0,
+    italic: (fsSelection & 1) !== 0 || (macStyle & 2) !== 0,
+    isCff,
+    unitsPerEm,
+    ascent,
+    descent,
+    capHeight,
+    bbox: [
+      headView.getInt16(36),
+      headView.getInt16(38),
+      headView.getInt16(40),
+      headView.getInt16(42),
+    ],
+    italicAngle: postView ? postView.getInt32(4) / 65536 : 0,
+    isFixedPitch: postView ? postView.getUint32(12) !== 0 : false,
+    isSerif: familyClass >= 1 && familyClass <= 7,
+    weight: os2View ? os2View.getUint16(4) : 400,
+    numGlyphs,
+    glyphForCodePoint(codePoint) {
+      let glyph = glyphCache.get(codePoint);
+      if (glyph === undefined) {
+        glyph = cmap(codePoint);
+        if (glyph >= numGlyphs) glyph = 0;
+        glyphCache.set(codePoint, glyph);
+      }
+      return glyph;
+    },
+    advanceWidth(glyphId) {
+      if (numHMetrics === 0) return unitsPerEm / 2;
+      const index = Math.min(glyphId, numHMetrics - 1);
+      return hmtxView.getUint16(index * 4);
+    },
+    subset(glyphIds) {
+      if (isCff) return writeSfnt(tables, 0x4f54544f);
+      return subsetGlyf(tables, numGlyphs, glyphIds);
+    },
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * PDF Export
+ *
+ * Layout → PDF, without the browser print dialog. `exportLayoutToPdf` draws
+ * an existing layout (what the editor shows); `exportDocumentToPdf` lays out
+ * a parsed document first.
+ */
+
+export { exportLayoutToPdf, exportDocumentToPdf, type PdfExportOptions } from './exportPdf';
+export {
+  loadedFontSource,
+  type PdfFontRequest,
+  type PdfFontSource,
+  type PdfTextMeasurer,
+} from './pdfFonts';
@@ -0,0 +1,525 @@
+/**
+ * PDF Fonts
+ *
+ * Resolves the fonts a layout uses to PDF fonts:
+ * - Font files from the font source (by default the fonts registered with
+ *   `loadFontFromBuffer`, looked up by the document's font name and then its
+ *   Google Fonts equivalent) are subset and embedded as Type0/CIDFontType2
+ *   fonts with a ToUnicode map, so text stays searchable and copyable
+ * - Missing bold/italic faces are synthesized from the regular face
+ * - Everything else falls back to a standard PDF font of the same category
+ *   (Helvetica, Times, Courier) whose widths come from the layout measurer,
+ *   so glyphs land where the layout put them
+ *
+ * Fonts load asynchronously up front; drawing afterwards is synchronous.
+ */
+
+import { resolveFontFamily } from '../utils/fontResolver';
+import { getLoadedFontData } from '../utils/fontLoader';
+import type { FontStyle } from '../layout-bridge/measuring';
+import { parseFontProgram, type FontProgram } from './fontProgram';
+import { PdfWriter, PdfRef, pdfName, type PdfDict } from './pdfWriter';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A font face the exporter needs.
+ */
+export interface PdfFontRequest {
+  family: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+type FontData = ArrayBuffer | Uint8Array;
+
+/**
+ * Supplies font files (TTF, OTF, WOFF) for embedding. Return nothing to let
+ * the exporter try the next candidate name or fall back to a standard font.
+ */
+export type PdfFontSource = (
+  request: PdfFontRequest
+) => FontData | null | undefined | Promise<FontData | null | undefined>;
+
+/**
+ * Measures text the way the layout did, in pixels.
+ */
+export type PdfTextMeasurer = (text: string, style: FontStyle) => number;
+
+/**
+ * A font that can draw text into a content stream.
+ */
+export interface PdfFont {
+  /** Name in the page resource dictionary */
+  readonly resourceName: string;
+  /** Draw with a stroked outline to fake a missing bold face */
+  readonly syntheticBold: boolean;
+  /** Draw with a skew to fake a missing italic face */
+  readonly syntheticItalic: boolean;
+  /** Whether the font has a glyph for the code point */
+  hasGlyph(codePoint: number): boolean;
+  /** Encode text as a string operand for Tj/TJ */
+  encode(text: string): string;
+  /** Advance width in thousandths of the font size */
+  widthOf(text: string): number;
+}
+
+/** A run of text drawn with one font */
+export interface PdfTextSegment {
+  font: PdfFont;
+  text: string;
+}
+
+// ============================================================================
+// STANDARD FONTS
+// ============================================================================
+
+const STANDARD_FAMILIES = {
+  sans: ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique'],
+  serif: ['Times-Roman', 'Times-Bold', 'Times-Italic', 'Times-BoldItalic'],
+  mono: ['Courier', 'Courier-Bold', 'Courier-Oblique', 'Courier-BoldOblique'],
+} as const;
+
+/** Unicode → WinAnsiEncoding for the 0x80–0x9F block */
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80,
+  0x201a: 0x82,
+  0x0192: 0x83,
+  0x201e: 0x84,
+  0x2026: 0x85,
+  0x2020: 0x86,
+  0x2021: 0x87,
+  0x02c6: 0x88,
+  0x2030: 0x89,
+  0x0160: 0x8a,
+  0x2039: 0x8b,
+  0x0152: 0x8c,
+  0x017d: 0x8e,
+  0x2018: 0x91,
+  0x2019: 0x92,
+  0x201c: 0x93,
+  0x201d: 0x94,
+  0x2022: 0x95,
+  0x2013: 0x96,
+  0x2014: 0x97,
+  0x02dc: 0x98,
+  0x2122: 0x99,
+  0x0161: 0x9a,
+  0x203a: 0x9b,
+  0x0153: 0x9c,
+  0x017e: 0x9e,
+  0x0178: 0x9f,
+};
+
+const WIN_ANSI_TO_UNICODE = new Map(
+  Object.entries(WIN_ANSI_EXTRAS).map(([unicode, code]) => [code, Number(unicode)])
+);
+
+function toWinAnsi(codePoint: number): number | null {
+  if (codePoint === 0x09) return 0x20;
+  if ((codePoint >= 0x20 && codePoint <= 0x7e) || (codePoint >= 0xa0 && codePoint <= 0xff)) {
+    return codePoint;
+  }
+  return WIN_ANSI_EXTRAS[codePoint] ?? null;
+}
+
+function standardFontName(family: string, bold: boolean, italic: boolean): string {
+  const stack = resolveFontFamily(family).cssFallback;
+  const names = /monospace$/.test(stack)
+    ? STANDARD_FAMILIES.mono
+    : /(^|[\s,])serif$/.test(stack)
+      ? STANDARD_FAMILIES.serif
+      : STANDARD_FAMILIES.sans;
+  return names[(bold ? 1 : 0) + (italic ? 2 : 0)];
+}
+
+function hex2(value: number): string {
+  return value.toString(16).padStart(2, '0').toUpperCase();
+}
+
+function hex4(value: number): string {
+  return value.toString(16).padStart(4, '0').toUpperCase();
+}
+
+/**
+ * A standard-14 font in WinAnsiEncoding. Characters outside the encoding
+ * draw as '?'.
+ */
+class StandardFont implements PdfFont {
+  readonly syntheticBold = false;
+  readonly syntheticItalic = false;
+  used = false;
+  private widths = new Map<number, number>();
+
+  constructor(
+    readonly resourceName: string,
+    readonly ref: PdfRef,
+    private baseFont: string,
+    private style: FontStyle,
+    private measure: PdfTextMeasurer
+  ) {}
+
+  hasGlyph(codePoint: number): boolean {
+    return toWinAnsi(codePoint) !== null;
+  }
+
+  encode(text: string): string {
+    this.used = true;
+    let out = '';
+    for (const char of text) out += hex2(toWinAnsi(char.codePointAt(0)!) ?? 0x3f);
+    return `<${out}>`;
+  }
+
+  widthOf(text: string): number {
+    let width = 0;
+    for (const char of text) width += this.codeWidth(toWinAnsi(char.codePointAt(0)!) ?? 0x3f);
+    return width;
+  }
+
+  private codeWidth(code: number): number {
+    let width = this.widths.get(code);
+    if (width === undefined) {
+      const char = String.fromCodePoint(WIN_ANSI_TO_UNICODE.get(code) ?? code);
+      // Measuring at 750pt (1000px) gives the width in thousandths of an em
+      width = Math.round(this.measure(char, { ...this.style, fontSize: 750 }));
+      this.widths.set(code, width);
+    }
+    return width;
+  }
+
+  write(writer: PdfWriter): void {
+    const widths: number[] = [];
+    for (let code = 32; code <= 255; code++) widths.push(this.codeWidth(code));
+    writer.set(this.ref, {
+      Type: pdfName('Font'),
+      Subtype: pdfName('Type1'),
+      BaseFont: pdfName(this.baseFont),
+      Encoding: pdfName('WinAnsiEncoding'),
+      FirstChar: 32,
+      LastChar: 255,
+      Widths: widths,
+    });
+  }
+}
+
+// ============================================================================
+// EMBEDDED FONTS
+// ============================================================================
+
+/**
+ * A font program embedded as a Type0 font with Identity-H encoding — string
+ * codes are glyph IDs.
+ */
+class EmbeddedFont {
+  used = false;
+  private glyphs = new Map<number, string>();
+
+  constructor(
+    readonly resourceName: string,
+    readonly ref: PdfRef,
+    readonly program: FontProgram
+  ) {}
+
+  hasGlyph(codePoint: number): boolean {
+    return this.program.glyphForCodePoint(codePoint) !== 0;
+  }
+
+  encode(text: string): string {
+    this.used = true;
+    let out = '';
+    for (const char of text) {
+      const gid = this.program.glyphForCodePoint(char.codePointAt(0)!);
+      if (!this.glyphs.has(gid)) this.glyphs.set(gid, char);
+      out += hex4(gid);
+    }
+    return `<${out}>`;
+  }
+
+  widthOf(text: string): number {
+    const { program } = this;
+    let width = 0;
+    for (const char of text) {
+      width += program.advanceWidth(program.glyphForCodePoint(char.codePointAt(0)!));
+    }
+    return (width * 1000) / program.unitsPerEm;
+  }
+
+  write(writer: PdfWriter): void {
+    const { program } = this;
+    const gids = [...this.glyphs.keys()].sort((a, b) => a - b);
+    const scale = 1000 / program.unitsPerEm;
+    const baseFont = `${subsetTag(program.postScriptName, gids)}+${program.postScriptName}`;
+
+    // Widths as runs of consecutive glyph IDs: gid [w1 w2 ...]
+    const widths: Array<number | number[]> = [];
+    for (let i = 0; i < gids.length; i++) {
+      const run = [Math.round(program.advanceWidth(gids[i]) * scale)];
+      while (i + 1 < gids.length && gids[i + 1] === gids[i] + 1) {
+        i++;
+        run.push(Math.round(program.advanceWidth(gids[i]) * scale));
+      }
+      widths.push(gids[i] - run.length + 1, run);
+    }
+
+    const fontFile = program.subset(gids);
+    const fontFileRef = program.isCff
+      ? writer.addStream({ Subtype: pdfName('OpenType') }, fontFile)
+      : writer.addStream({ Length1: fontFile.length }, fontFile);
+
+    let flags = 4; // symbolic: glyphs are addressed by ID, not a standard encoding
+    if (program.isFixedPitch) flags |= 1;
+    if (program.isSerif) flags |= 2;
+    if (program.italicAngle !== 0) flags |= 64;
+
+    const descriptor = writer.add({
+      Type: pdfName('FontDescriptor'),
+      FontName: pdfName(baseFont),
+      Flags: flags,
+      FontBBox: program.bbox.map((value) => Math.round(value * scale)),
+      ItalicAngle: program.italicAngle,
+      Ascent: Math.round(program.ascent * scale),
+      Descent: Math.round(program.descent * scale),
+      CapHeight: Math.round(program.capHeight * scale),
+      StemV: program.weight >= 600 ? 120 : 80,
+      [program.isCff ? 'FontFile3' : 'FontFile2']: fontFileRef,
+    });
+
+    const cidFont: PdfDict = {
+      Type: pdfName('Font'),
+      Subtype: pdfName(program.isCff ? 'CIDFontType0' : 'CIDFontType2'),
+      BaseFont: pdfName(baseFont),
+      CIDSystemInfo: { Registry: 'Adobe', Ordering: 'Identity', Supplement: 0 },
+      FontDescriptor: descriptor,
+      DW: Math.round(program.advanceWidth(0) * scale),
+      W: widths,
+    };
+    if (!program.isCff) cidFont.CIDToGIDMap = pdfName('Identity');
+
+    writer.set(this.ref, {
+      Type: pdfName('Font'),
+      Subtype: pdfName('Type0'),
+      BaseFont: pdfName(baseFont),
+      Encoding: pdfName('Identity-H'),
+      DescendantFonts: [writer.add(cidFont)],
+      ToUnicode: writer.addStream({}, this.toUnicodeCMap(gids)),
+    });
+  }
+
+  private toUnicodeCMap(gids: number[]): string {
+    const lines = [
+      '/CIDInit /ProcSet findresource begin',
+      '12 dict begin',
+      'begincmap',
+      '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+      '/CMapName /Adobe-Identity-UCS def',
+      '/CMapType 2 def',
+      '1 begincodespacerange',
+      '<0000> <FFFF>',
+      'endcodespacerange',
+    ];
+    const entries = gids
+      .filter((gid) => gid !== 0)
+      .map((gid) => {
+        const text = this.glyphs.get(gid)!;
+        let utf16 = '';
+        for (let i = 0; i < text.length; i++) utf16 += hex4(text.charCodeAt(i));
+        return `<${hex4(gid)}> <${utf16}>`;
+      });
+    for (let i = 0; i < entries.length; i += 100) {
+      const chunk = entries.slice(i, i + 100);
+      lines.push(`${chunk.length} beginbfchar`, ...chunk, 'endbfchar');
+    }
+    lines.push('endcmap', 'CMapName currentdict /CMap defineresource pop', 'end', 'end');
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Six-letter subset prefix derived from the font and its glyph set.
+ */
+function subsetTag(name: string, gids: number[]): string {
+  let hash = 2166136261;
+  for (const value of [...Array.from(name, (c) => c.charCodeAt(0)), ...gids]) {
+    hash = Math.imul(hash ^ value, 16777619) >>> 0;
+  }
+  let tag = '';
+  for (let i = 0; i < 6; i++) {
+    tag += String.fromCharCode(65 + (hash % 26));
+    hash = Math.floor(hash / 26) + i * 7919;
+  }
+  return tag;
+}
+
+/**
+ * An embedded face, possibly standing in for a missing bold/italic variant.
+ */
+class EmbeddedFace implements PdfFont {
+  constructor(
+    private font: EmbeddedFont,
+    readonly syntheticBold: boolean,
+    readonly syntheticItalic: boolean
+  ) {}
+
+  get resourceName(): string {
+    return this.font.resourceName;
+  }
+
+  hasGlyph(codePoint: number): boolean {
+    return this.font.hasGlyph(codePoint);
+  }
+
+  encode(text: string): string {
+    return this.font.encode(text);
+  }
+
+  widthOf(text: string): number {
+    return this.font.widthOf(text);
+  }
+}
+
+// ============================================================================
+// FONT SET
+// ============================================================================
+
+function requestKey(request: PdfFontRequest): string {
+  return `${request.family.toLowerCase()}|${request.bold ? 1 : 0}|${request.italic ? 1 : 0}`;
+}
+
+/**
+ * Default font source: font files registered with `loadFontFromBuffer`.
+ */
+export const loadedFontSource: PdfFontSource = (request) =>
+  getLoadedFontData(request.family, { bold: request.bold, italic: request.italic });
+
+/**
+ * The fonts used by one PDF export.
+ */
+export class PdfFontSet {
+  private embedded = new Map<FontData, EmbeddedFont>();
+  private faces = new Map<string, EmbeddedFace | null>();
+  private standard = new Map<string, StandardFont>();
+  private nextId = 1;
+
+  constructor(
+    private writer: PdfWriter,
+    private options: { fontSource?: PdfFontSource; measureText: PdfTextMeasurer }
+  ) {}
+
+  /**
+   * Load font files for the requested faces. Faces without a usable file
+   * draw with a standard font.
+   */
+  async load(requests: Iterable<PdfFontRequest>): Promise<void> {
+    for (const request of requests) {
+      const key = requestKey(request);
+      if (this.faces.has(key)) continue;
+      this.faces.set(key, await this.loadFace(request));
+    }
+  }
+
+  private async loadFace(request: PdfFontRequest): Promise<EmbeddedFace | null> {
+    const exact = await this.loadFont(request);
+    if (exact) return new EmbeddedFace(exact, false, false);
+    if (!request.bold && !request.italic) return null;
+
+    // Fall back to the regular face and fake the style
+    const regular = await this.loadFont({ ...request, bold: false, italic: false });
+    return regular ? new EmbeddedFace(regular, request.bold, request.italic) : null;
+  }
+
+  private async loadFont(request: PdfFontRequest): Promise<EmbeddedFont | null> {
+    const source = this.options.fontSource ?? loadedFontSource;
+    const googleFont = resolveFontFamily(request.family).googleFont;
+    const families = [request.family];
+    if (googleFont && googleFont !== request.family) families.push(googleFont);
+
+    for (const family of families) {
+      let data: FontData | null | undefined;
+      try {
+        data = await source({ ...request, family });
+      } catch {
+        data = null;
+      }
+      if (!data) continue;
+
+      const existing = this.embedded.get(data);
+      if (existing) return existing;
+      const program = await parseFontProgram(data);
+      if (!program) continue;
+      const font = new EmbeddedFont(`F${this.nextId++}`, this.writer.allocate(), program);
+      this.embedded.set(data, font);
+      return font;
+    }
+    return null;
+  }
+
+  /**
+   * The font for a face: its embedded file if one loaded, otherwise a
+   * standard font.
+   */
+  get(family: string, bold: boolean, italic: boolean): PdfFont {
+    return (
+      this.faces.get(requestKey({ family, bold, italic })) ?? this.getStandard(family, bold, italic)
+    );
+  }
+
+  private getStandard(family: string, bold: boolean, italic: boolean): StandardFont {
+    const key = requestKey({ family, bold, italic });
+    let font = this.standard.get(key);
+    if (!font) {
+      font = new StandardFont(
+        `F${this.nextId++}`,
+        this.writer.allocate(),
+        standardFontName(family, bold, italic),
+        { fontFamily: family, bold, italic },
+        this.options.measureText
+      );
+      this.standard.set(key, font);
+    }
+    return font;
+  }
+
+  /**
+   * Split text into runs that each draw with a font that has their glyphs:
+   * the face's own font, then any other embedded font, then a standard font.
+   */
+  segment(text: string, family: string, bold: boolean, italic: boolean): PdfTextSegment[] {
+    const primary = this.get(family, bold, italic);
+    const segments: PdfTextSegment[] = [];
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      let font: PdfFont = primary;
+      // Spaces and controls never need a fallback
+      if (codePoint > 0x20 && !primary.hasGlyph(codePoint)) {
+        font =
+          [...this.faces.values()].find((face) => face?.hasGlyph(codePoint)) ??
+          this.getStandard(family, bold, italic);
+      }
+      const last = segments[segments.length - 1];
+      if (last && last.font === font) last.text += char;
+      else segments.push({ font, text: char });
+    }
+    return segments;
+  }
+
+  /**
+   * Font resource dictionary entries for the fonts drawn so far.
+   */
+  resources(): PdfDict {
+    const resources: PdfDict = {};
+    for (const font of [...this.embedded.values(), ...this.standard.values()]) {
+      if (font.used) resources[font.resourceName] = font.ref;
+    }
+    return resources;
+  }
+
+  /**
+   * Write the used fonts — subsets are final once all pages are drawn.
+   */
+  finalize(): void {
+    for (const font of this.embedded.values()) if (font.used) font.write(this.writer);
+    for (const font of this.standard.values()) if (font.used) font.write(this.writer);
+  }
+}
@@ -0,0 +1,375 @@
+/**
+ * PDF Images
+ *
+ * Turns image sources (data URLs, or anything `fetch` can load) into PDF
+ * image XObjects:
+ * - JPEG is embedded as-is (DCTDecode)
+ * - PNG without transparency passes its compressed data straight through
+ *   with the PNG predictor; PNGs with alpha or tRNS are decoded and split
+ *   into color and soft-mask images
+ * - Other formats (GIF, BMP, SVG, ...) are rasterized to PNG through a
+ *   canvas when running in a browser, and skipped otherwise
+ */
+
+import {
+  PdfWriter,
+  PdfRef,
+  PdfHexString,
+  pdfName,
+  deflate,
+  inflate,
+  type PdfDict,
+} from './pdfWriter';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PdfImage {
+  ref: PdfRef;
+  /** Intrinsic size in pixels */
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64.replace(/\s/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Read the bytes behind an image source.
+ */
+async function readImageSource(src: string): Promise<Uint8Array | null> {
+  const dataUrl = /^data:([^,]*?)(;base64)?,(.*)$/s.exec(src);
+  if (dataUrl) {
+    return dataUrl[2]
+      ? base64ToBytes(dataUrl[3])
+      : new TextEncoder().encode(decodeURIComponent(dataUrl[3]));
+  }
+  if (typeof fetch === 'undefined') return null;
+  try {
+    const response = await fetch(src);
+    return response.ok ? new Uint8Array(await response.arrayBuffer()) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Rasterize an image the browser can display to PNG bytes.
+ */
+async function rasterizeInBrowser(src: string): Promise<Uint8Array | null> {
+  if (typeof document === 'undefined' || typeof Image === 'undefined') return null;
+  try {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error('image failed to load'));
+      img.src = src;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth || img.width;
+    canvas.height = img.naturalHeight || img.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || canvas.width === 0 || canvas.height === 0) return null;
+    ctx.drawImage(img, 0, 0);
+    return base64ToBytes(canvas.toDataURL('image/png').split(',')[1] ?? '');
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// JPEG
+// ============================================================================
+
+function embedJpeg(writer: PdfWriter, bytes: Uint8Array): PdfImage | null {
+  let offset = 2;
+  let adobe = false;
+  while (offset + 4 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xee) adobe = true;
+    // SOF0-SOF15 except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = (bytes[offset + 5] << 8) | bytes[offset + 6];
+      const width = (bytes[offset + 7] << 8) | bytes[offset + 8];
+      const components = bytes[offset + 9];
+      const colorSpace =
+        components === 1 ? 'DeviceGray' : components === 4 ? 'DeviceCMYK' : 'DeviceRGB';
+      const dict: PdfDict = {
+        Type: pdfName('XObject'),
+        Subtype: pdfName('Image'),
+        Width: width,
+        Height: height,
+        ColorSpace: pdfName(colorSpace),
+        BitsPerComponent: 8,
+        Filter: pdfName('DCTDecode'),
+      };
+      // Adobe CMYK JPEGs store inverted values
+      if (components === 4 && adobe) dict.Decode = [1, 0, 1, 0, 1, 0, 1, 0];
+      return { ref: writer.addStream(dict, bytes, { compress: false }), width, height };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+interface PngInfo {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+  palette?: Uint8Array;
+  transparency?: Uint8Array;
+  data: Uint8Array;
+}
+
+function readPng(bytes: Uint8Array): PngInfo | null {
+  const dv = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 8;
+  const info: Partial<PngInfo> = {};
+  const idat: Uint8Array[] = [];
+  while (offset + 8 <= bytes.length) {
+    const length = dv.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      info.width = dv.getUint32(offset + 8);
+      info.height = dv.getUint32(offset + 12);
+      info.bitDepth = data[8];
+      info.colorType = data[9];
+      info.interlaced = data[12] === 1;
+    } else if (type === 'PLTE') {
+      info.palette = data;
+    } else if (type === 'tRNS') {
+      info.transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  if (!info.width || !info.height || info.colorType === undefined || idat.length === 0) return null;
+
+  const total = idat.reduce((sum, chunk) => sum + chunk.length, 0);
+  const data = new Uint8Array(total);
+  let position = 0;
+  for (const chunk of idat) {
+    data.set(chunk, position);
+    position += chunk.length;
+  }
+  return { ...(info as PngInfo), data };
+}
+
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/**
+ * Undo PNG scanline filters, returning the raw samples.
+ */
+function unfilterPng(data: Uint8Array, height: number, bytesPerPixel: number, rowBytes: number) {
+  const out = new Uint8Array(rowBytes * height);
+  let input = 0;
+  for (let y = 0; y < height; y++) {
+    const filter = data[input++];
+    const row = y * rowBytes;
+    const prev = row - rowBytes;
+    for (let x = 0; x < rowBytes; x++) {
+      const raw = data[input++] ?? 0;
+      const left = x >= bytesPerPixel ? out[row + x - bytesPerPixel] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? out[prev + x - bytesPerPixel] : 0;
+      let value = raw;
+      if (filter === 1) value = raw + left;
+      else if (filter === 2) value = raw + up;
+      else if (filter === 3) value = raw + ((left + up) >> 1);
+      else if (filter === 4) {
+        const p = left + up - upLeft;
+        const pa = Math.abs(p - left);
+        const pb = Math.abs(p - up);
+        const pc = Math.abs(p - upLeft);
+        value = raw + (pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft);
+      }
+      out[row + x] = value & 0xff;
+    }
+  }
+  return out;
+}
+
+function paletteColorSpace(palette: Uint8Array | undefined): PdfDict[string] {
+  const colors = palette ?? new Uint8Array(3);
+  let hex = '';
+  for (const byte of colors) hex += byte.toString(16).padStart(2, '0');
+  return [pdfName('Indexed'), pdfName('DeviceRGB'), colors.length / 3 - 1, new PdfHexString(hex)];
+}
+
+async function embedPng(writer: PdfWriter, bytes: Uint8Array): Promise<PdfImage | null> {
+  const png = readPng(bytes);
+  if (!png || png.interlaced) return null;
+  const { width, height, bitDepth, colorType } = png;
+  const channels = PNG_CHANNELS[colorType];
+  if (!channels) return null;
+
+  const colorSpace =
+    colorType === 3
+      ? paletteColorSpace(png.palette)
+      : pdfName(colorType === 0 || colorType === 4 ? 'DeviceGray' : 'DeviceRGB');
+  const hasAlpha = colorType === 4 || colorType === 6 || !!png.transparency;
+
+  if (!hasAlpha) {
+    const ref = writer.addStream(
+      {
+        Type: pdfName('XObject'),
+        Subtype: pdfName('Image'),
+        Width: width,
+        Height: height,
+        ColorSpace: colorSpace,
+        BitsPerComponent: bitDepth,
+        Filter: pdfName('FlateDecode'),
+        DecodeParms: {
+          Predictor: 15,
+          Colors: channels,
+          BitsPerComponent: bitDepth,
+          Columns: width,
+        },
+      },
+      png.data,
+      { compress: false }
+    );
+    return { ref, width, height };
+  }
+
+  // Decode and split color from alpha
+  const inflated = await inflate(png.data);
+  if (!inflated) return null;
+  const bitsPerPixel = channels * bitDepth;
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+  const raw = unfilterPng(inflated, height, Math.max(1, bitsPerPixel >> 3), rowBytes);
+
+  const sample = (row: number, index: number): number => {
+    // Sub-byte depths only occur without an alpha channel (gray or palette)
+    if (bitDepth === 16) return raw[row * rowBytes + index * 2];
+    if (bitDepth === 8) return raw[row * rowBytes + index];
+    const bitOffset = index * bitDepth;
+    const byte = raw[row * rowBytes + (bitOffset >> 3)];
+    return (byte >> (8 - bitDepth - (bitOffset & 7))) & ((1 << bitDepth) - 1);
+  };
+
+  const colorChannels = colorType === 4 || colorType === 6 ? channels - 1 : channels;
+  const color = new Uint8Array(width * height * colorChannels);
+  const alpha = new Uint8Array(width * height);
+  const trns = png.transparency;
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pixel = y * width + x;
+      for (let c = 0; c < colorChannels; c++) {
+        color[pixel * colorChannels + c] = sample(y, x * channels + c);
+      }
+      if (colorType === 4 || colorType === 6) {
+        alpha[pixel] = sample(y, x * channels + channels - 1);
+      } else if (colorType === 3) {
+        const index = sample(y, x);
+        alpha[pixel] = trns && index < trns.length ? trns[index] : 255;
+      } else if (trns) {
+        // tRNS holds one 16-bit sample per channel marking the transparent color
+        let transparent = true;
+        for (let c = 0; c < colorChannels; c++) {
+          const key = (trns[c * 2] << 8) | trns[c * 2 + 1];
+          const value =
+            bitDepth === 16 ? sample(y, x * channels + c) << 8 : sample(y, x * channels + c);
+          if ((bitDepth === 16 ? key & 0xff00 : key) !== value) transparent = false;
+        }
+        alpha[pixel] = transparent ? 0 : 255;
+      } else {
+        alpha[pixel] = 255;
+      }
+    }
+  }
+
+  // Samples are stored as whole bytes now; low-depth gray is rescaled via Decode
+  const decode = colorType === 0 && bitDepth < 8 ? [0, 255 / maxSample] : undefined;
+  const smask = writer.addStream(
+    {
+      Type: pdfName('XObject'),
+      Subtype: pdfName('Image'),
+      Width: width,
+      Height: height,
+      ColorSpace: pdfName('DeviceGray'),
+      BitsPerComponent: 8,
+    },
+    (await deflate(alpha)) ?? alpha,
+    { compress: false }
+  );
+  const compressedColor = await deflate(color);
+  const ref = writer.addStream(
+    {
+      Type: pdfName('XObject'),
+      Subtype: pdfName('Image'),
+      Width: width,
+      Height: height,
+      ColorSpace: colorSpace,
+      BitsPerComponent: 8,
+      Decode: decode,
+      SMask: smask,
+      Filter: compressedColor ? pdfName('FlateDecode') : undefined,
+    },
+    compressedColor ?? color,
+    { compress: false }
+  );
+  return { ref, width, height };
+}
+
+// ============================================================================
+// IMAGE SET
+// ============================================================================
+
+/**
+ * The images used by one PDF export, loaded once per source.
+ */
+export class PdfImageSet {
+  private images = new Map<string, PdfImage | null>();
+
+  constructor(private writer: PdfWriter) {}
+
+  async load(sources: Iterable<string>): Promise<void> {
+    for (const src of sources) {
+      if (!src || this.images.has(src)) continue;
+      this.images.set(src, await this.loadImage(src));
+    }
+  }
+
+  private async loadImage(src: string): Promise<PdfImage | null> {
+    const bytes = await readImageSource(src);
+    if (bytes && bytes[0] === 0xff && bytes[1] === 0xd8) {
+      const jpeg = embedJpeg(this.writer, bytes);
+      if (jpeg) return jpeg;
+    }
+    if (bytes && bytes[0] === 0x89 && bytes[1] === 0x50) {
+      const png = await embedPng(this.writer, bytes);
+      if (png) return png;
+    }
+    const rasterized = await rasterizeInBrowser(src);
+    return rasterized ? embedPng(this.writer, rasterized) : null;
+  }
+
+  /** The embedded image for a source, if it could be loaded */
+  get(src: string): PdfImage | null {
+    return this.images.get(src) ?? null;
+  }
+}
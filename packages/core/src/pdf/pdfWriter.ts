@@ -0,0 +1,275 @@
+/**
+ * PDF Object Writer
+ *
+ * Minimal PDF 1.7 serializer: numbered indirect objects, streams (Flate
+ * compressed when the runtime has CompressionStream), a classic xref table
+ * and trailer. Values are plain JS data:
+ * - numbers, booleans and null serialize as themselves
+ * - strings become text strings (literal, or UTF-16BE hex when non-ASCII)
+ * - `PdfName`, `PdfRef`, `PdfHexString` and `PdfRaw` wrap the other types
+ * - arrays and plain objects become PDF arrays and dictionaries
+ */
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+export class PdfName {
+  constructor(readonly name: string) {}
+}
+
+export class PdfRef {
+  constructor(readonly id: number) {}
+}
+
+/** Byte string written as `<hex>` */
+export class PdfHexString {
+  constructor(readonly hex: string) {}
+}
+
+/** Pre-serialized PDF syntax, written verbatim */
+export class PdfRaw {
+  constructor(readonly text: string) {}
+}
+
+export type PdfValue =
+  | null
+  | boolean
+  | number
+  | string
+  | PdfName
+  | PdfRef
+  | PdfHexString
+  | PdfRaw
+  | PdfValue[]
+  | PdfDict;
+
+export interface PdfDict {
+  [key: string]: PdfValue | undefined;
+}
+
+/** Shorthand for a PDF name */
+export function pdfName(name: string): PdfName {
+  return new PdfName(name);
+}
+
+// ============================================================================
+// SERIALIZATION
+// ============================================================================
+
+/**
+ * Format a number for content streams and objects — at most 3 decimals,
+ * no exponent notation, no negative zero.
+ */
+export function formatNumber(value: number): string {
+  if (!Number.isFinite(value)) return '0';
+  const rounded = Math.round(value * 1000) / 1000;
+  if (rounded === 0) return '0';
+  if (Number.isInteger(rounded)) return String(rounded);
+  return rounded.toFixed(3).replace(/0+$/, '');
+}
+
+function escapeName(name: string): string {
+  return name.replace(/[^!-~]|[#%()/<>[\]{}]/g, (char) => {
+    const code = char.charCodeAt(0) & 0xff;
+    return `#${code.toString(16).padStart(2, '0')}`;
+  });
+}
+
+/**
+ * Encode a text string: printable ASCII as a literal string, anything else
+ * as UTF-16BE with a byte order mark.
+ */
+export function encodeTextString(text: string): string {
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return `(${text.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+  }
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * Serialize a value to PDF syntax.
+ */
+export function serializeValue(value: PdfValue | undefined): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'string') return encodeTextString(value);
+  if (value instanceof PdfName) return `/${escapeName(value.name)}`;
+  if (value instanceof PdfRef) return `${value.id} 0 R`;
+  if (value instanceof PdfHexString) return `<${value.hex}>`;
+  if (value instanceof PdfRaw) return value.text;
+  if (Array.isArray(value)) return `[${value.map(serializeValue).join(' ')}]`;
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  return `<<${entries.map(([key, v]) => `/${escapeName(key)} ${serializeValue(v)}`).join(' ')}>>`;
+}
+
+/**
+ * Encode a string whose characters are all < 256 as bytes.
+ */
+export function latin1Bytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+/**
+ * zlib-compress bytes (the FlateDecode format), or null when the runtime
+ * has no CompressionStream.
+ */
+export async function deflate(data: Uint8Array): Promise<Uint8Array | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+  try {
+    const stream = new Blob([data as BlobPart])
+      .stream()
+      .pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Inflate zlib data, or null when it can't be decompressed here.
+ */
+export async function inflate(data: Uint8Array, format: 'deflate' | 'deflate-raw' = 'deflate') {
+  if (typeof DecompressionStream === 'undefined') return null;
+  try {
+    const stream = new Blob([data as BlobPart])
+      .stream()
+      .pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+interface PdfStreamObject {
+  dict: PdfDict;
+  data: Uint8Array;
+  /** Compress when the dictionary has no filter yet */
+  compress: boolean;
+}
+
+/**
+ * Collects indirect objects and writes them out as a PDF file.
+ */
+export class PdfWriter {
+  private objects: Array<PdfValue | PdfStreamObject | undefined> = [];
+
+  /** Reserve an object number to fill in later */
+  allocate(): PdfRef {
+    this.objects.push(undefined);
+    return new PdfRef(this.objects.length);
+  }
+
+  /** Set the value of an allocated object */
+  set(ref: PdfRef, value: PdfValue): void {
+    this.objects[ref.id - 1] = value;
+  }
+
+  /** Add an object and return its reference */
+  add(value: PdfValue): PdfRef {
+    const ref = this.allocate();
+    this.set(ref, value);
+    return ref;
+  }
+
+  /** Set an allocated object to a stream */
+  setStream(
+    ref: PdfRef,
+    dict: PdfDict,
+    data: Uint8Array | string,
+    options: { compress?: boolean } = {}
+  ): void {
+    this.objects[ref.id - 1] = {
+      dict,
+      data: typeof data === 'string' ? latin1Bytes(data) : data,
+      compress: options.compress ?? !dict.Filter,
+    };
+  }
+
+  /** Add a stream object and return its reference */
+  addStream(dict: PdfDict, data: Uint8Array | string, options?: { compress?: boolean }): PdfRef {
+    const ref = this.allocate();
+    this.setStream(ref, dict, data, options);
+    return ref;
+  }
+
+  /**
+   * Serialize all objects into a PDF file.
+   */
+  async toBytes(root: PdfRef, info?: PdfRef): Promise<Uint8Array> {
+    const chunks: Uint8Array[] = [];
+    let length = 0;
+    const push = (chunk: Uint8Array | string) => {
+      const bytes = typeof chunk === 'string' ? latin1Bytes(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    // The binary comment marks the file as 8-bit for transfer tools
+    push('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n');
+
+    const offsets: number[] = [];
+    for (let i = 0; i < this.objects.length; i++) {
+      const object = this.objects[i];
+      offsets.push(length);
+      push(`${i + 1} 0 obj\n`);
+      if (isStreamObject(object)) {
+        let data = object.data;
+        const dict: PdfDict = { ...object.dict };
+        if (object.compress) {
+          const compressed = await deflate(data);
+          if (compressed && compressed.length < data.length) {
+            data = compressed;
+            dict.Filter = pdfName('FlateDecode');
+          }
+        }
+        dict.Length = data.length;
+        push(`${serializeValue(dict)}\nstream\n`);
+        push(data);
+        push('\nendstream');
+      } else {
+        push(serializeValue(object ?? null));
+      }
+      push('\nendobj\n');
+    }
+
+    const xrefOffset = length;
+    let xref = `xref\n0 ${this.objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      xref += `${String(offset).padStart(10, '0')} 00000 n \n`;
+    }
+    push(xref);
+    push(
+      `trailer\n${serializeValue({ Size: this.objects.length + 1, Root: root, Info: info })}\n` +
+        `startxref\n${xrefOffset}\n%%EOF\n`
+    );
+
+    const out = new Uint8Array(length);
+    let position = 0;
+    for (const chunk of chunks) {
+      out.set(chunk, position);
+      position += chunk.length;
+    }
+    return out;
+  }
+}
+
+function isStreamObject(value: PdfValue | PdfStreamObject | undefined): value is PdfStreamObject {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'data' in value &&
+    (value as { data: unknown }).data instanceof Uint8Array
+  );
+}
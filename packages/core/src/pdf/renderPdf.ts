@@ -0,0 +1,1983 @@
+/**
+ * PDF Page Renderer
+ *
+ * Draws laid-out pages into PDF content streams. Follows the same rules as
+ * the DOM painter (layout-painter) — line placement, indents, list markers,
+ * tabs, justification, table borders, header/footer and footnote areas — so
+ * the PDF matches what the editor shows.
+ *
+ * Coordinates stay in layout pixels with a top-left origin: every page
+ * starts with a transform that maps them to PDF points.
+ *
+ * The renderer draws through the `PageSurface` interface, so other output
+ * formats (SVG page images) reuse it with their own surface.
+ */
+
+import type {
+  FlowBlock,
+  Fragment,
+  ImageBlock,
+  ImageRun,
+  MathRun,
+  Measure,
+  MeasuredLine,
+  Page,
+  ParagraphBlock,
+  ParagraphBorders,
+  ParagraphMeasure,
+  BorderStyle,
+  Run,
+  TabRun,
+  TableBlock,
+  TableCell,
+  TableCellMeasure,
+  TableMeasure,
+  TableRowSlice,
+  TextBoxBlock,
+  TextBoxMeasure,
+  TextRun,
+  FieldRun,
+} from '../layout-engine/types';
+import { DEFAULT_TEXTBOX_MARGINS } from '../layout-engine/types';
+import {
+  getLogicalMargins,
+  getLogicalSize,
+  getVerticalMatrix,
+} from '../layout-engine/text-direction';
+import {
+  getCellBlockRanges,
+  getCellLineHeights,
+  getCellLineOffset,
+  getRowSlice,
+} from '../layout-engine/table-rows';
+import type { LayoutPipelineResult } from '../layout-bridge/layoutPipeline';
+import { measureParagraph, type FloatingImageZone } from '../layout-bridge/measuring';
+import type { BlockLookup } from '../layout-painter';
+import {
+  collectPageFloats,
+  isFloatingImageRun,
+  resolveHeaderFooterFloatLeft,
+  resolveHeaderFooterFloatTop,
+  type FootnoteRenderItem,
+  type HeaderFooterContent,
+  type HeaderFooterLayoutInfo,
+} from '../layout-painter/renderPage';
+import { sliceRunsForLine } from '../layout-painter/renderParagraph';
+import { collectCellFloats } from '../layout-painter/renderTable';
+import { calculateTabWidth, type TabContext } from '../prosemirror/utils/tabCalculator';
+import { layoutMathRun, type MathBox } from '../math';
+import { resolveColor } from '../utils/colorResolver';
+import type { BorderSpec, SectionProperties, Theme } from '../types/document';
+import { formatNumber as n, type PdfDict } from './pdfWriter';
+import type { PdfFontRequest, PdfFontSet, PdfTextMeasurer } from './pdfFonts';
+import type { PdfImageSet } from './pdfImages';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A clickable area on a page, in layout pixels.
+ */
+export interface PdfLinkArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** External URL, or `#bookmark` for a jump inside the document */
+  href: string;
+}
+
+/**
+ * A drawn page: its content stream and link areas.
+ */
+export interface PdfPageContent {
+  width: number;
+  height: number;
+  content: string;
+  links: PdfLinkArea[];
+}
+
+export interface PageRenderOptions {
+  measureText: PdfTextMeasurer;
+  /** Theme for resolving page border colors */
+  theme?: Theme | null;
+  /**
+   * Draw tracked-change markup (colors, underlines, strikethroughs). When
+   * false, insertions look like plain text and deletions aren't drawn.
+   * Default: true.
+   */
+  trackedChanges?: boolean;
+  /** Highlight commented text as the editor does. Default: false. */
+  comments?: boolean;
+  /** Comments not to highlight */
+  resolvedCommentIds?: Set<number>;
+}
+
+export interface RenderPdfPagesOptions extends PageRenderOptions {
+  fonts: PdfFontSet;
+  images: PdfImageSet;
+}
+
+/** Color with components from 0 to 1 */
+export type Rgb = [number, number, number];
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const DEFAULT_FONT_FAMILY = 'Calibri';
+const DEFAULT_FONT_SIZE = 11;
+const PX_PER_PT = 96 / 72;
+const HYPERLINK_COLOR = '#0563c1';
+const INSERTION_COLOR = '#2e7d32';
+const DELETION_COLOR = '#c62828';
+const INSERTION_BACKGROUND = 'rgba(52, 168, 83, 0.08)';
+const DELETION_BACKGROUND = 'rgba(211, 47, 47, 0.08)';
+const COMMENT_BACKGROUND = 'rgba(255, 212, 0, 0.15)';
+const COMMENT_BORDER = 'rgba(255, 212, 0, 0.4)';
+/** Font for equation glyphs (MATH_FONT_FAMILY is a CSS stack) */
+const MATH_FONT = 'Cambria Math';
+/** Shear of a synthetic italic (about 12 degrees) */
+const SYNTHETIC_ITALIC_SKEW = 0.21;
+
+const LEADER_CHARS: Record<string, string> = {
+  dot: '.',
+  hyphen: '-',
+  underscore: '_',
+  middleDot: '·',
+  heavy: '_',
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000',
+  white: '#ffffff',
+  red: '#ff0000',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  cyan: '#00ffff',
+  magenta: '#ff00ff',
+  gray: '#808080',
+  grey: '#808080',
+  silver: '#c0c0c0',
+  maroon: '#800000',
+  navy: '#000080',
+  olive: '#808000',
+  purple: '#800080',
+  teal: '#008080',
+  orange: '#ffa500',
+  lime: '#00ff00',
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parse a CSS color. Translucent colors are blended onto white paper.
+ */
+function parseColor(color: string | undefined | null): Rgb | null {
+  if (!color) return null;
+  const value = color.trim().toLowerCase();
+  if (value === 'transparent' || value === 'none' || value === 'auto') return null;
+
+  const named = NAMED_COLORS[value];
+  const hex = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/.exec(named ?? value);
+  if (hex) {
+    const digits =
+      hex[1].length === 3
+        ? hex[1]
+            .split('')
+            .map((d) => d + d)
+            .join('')
+        : hex[1];
+    return [0, 2, 4].map((i) => parseInt(digits.slice(i, i + 2), 16) / 255) as Rgb;
+  }
+
+  const rgb = /^rgba?\(([^)]+)\)$/.exec(value);
+  if (rgb) {
+    const parts = rgb[1]
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .map(parseFloat);
+    const alpha = parts[3] ?? 1;
+    return [0, 1, 2].map((i) => 1 - ((255 - (parts[i] ?? 0)) / 255) * alpha) as Rgb;
+  }
+  return null;
+}
+
+function fillColorOp(rgb: Rgb): string {
+  return `${n(rgb[0])} ${n(rgb[1])} ${n(rgb[2])} rg`;
+}
+
+function strokeColorOp(rgb: Rgb): string {
+  return `${n(rgb[0])} ${n(rgb[1])} ${n(rgb[2])} RG`;
+}
+
+function fontSizePt(run: { fontSize?: number }): number {
+  return run.fontSize ?? DEFAULT_FONT_SIZE;
+}
+
+function isVisibleBorder(border: { style?: string; width?: number } | undefined): boolean {
+  return !!border && border.style !== 'none' && border.style !== 'nil' && (border.width ?? 0) > 0;
+}
+
+/**
+ * Parse the CSS transforms the bridge emits for images (rotate, scale,
+ * scaleX/Y) into a PDF matrix.
+ */
+function parseTransform(transform: string | undefined): number[] | null {
+  if (!transform) return null;
+  let matrix = [1, 0, 0, 1, 0, 0];
+  const multiply = (m: number[]) => {
+    const [a, b, c, d] = matrix;
+    matrix = [
+      a * m[0] + c * m[1],
+      b * m[0] + d * m[1],
+      a * m[2] + c * m[3],
+      b * m[2] + d * m[3],
+      0,
+      0,
+    ];
+  };
+  for (const [, fn, args] of transform.matchAll(/(\w+)\(([^)]*)\)/g)) {
+    const values = args.split(/[\s,]+/).filter(Boolean);
+    const num = (index: number, fallback: number) => {
+      const parsed = parseFloat(values[index] ?? '');
+      return Number.isFinite(parsed) ? parsed : fallback;
+    };
+    if (fn === 'rotate') {
+      const raw = values[0] ?? '0';
+      const angle = raw.endsWith('rad') ? parseFloat(raw) : (parseFloat(raw) * Math.PI) / 180;
+      multiply([Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle)]);
+    } else if (fn === 'scaleX') {
+      multiply([num(0, 1), 0, 0, 1]);
+    } else if (fn === 'scaleY') {
+      multiply([1, 0, 0, num(0, 1)]);
+    } else if (fn === 'scale') {
+      multiply([num(0, 1), 0, 0, num(1, num(0, 1))]);
+    }
+  }
+  return matrix;
+}
+
+/**
+ * Text shown for a field run on a given page.
+ */
+function resolveFieldText(run: FieldRun, pageNumber: number, totalPages: number): string {
+  switch (run.fieldType) {
+    case 'PAGE':
+      return String(pageNumber);
+    case 'NUMPAGES':
+      return String(totalPages);
+    case 'DATE':
+      return new Date().toLocaleDateString();
+    case 'TIME':
+      return new Date().toLocaleTimeString();
+    default:
+      return run.fallback ?? '';
+  }
+}
+
+/**
+ * Check if two ParagraphBorders form a group (ECMA-376 §17.3.1.24).
+ */
+function bordersFormGroup(a?: ParagraphBorders, b?: ParagraphBorders): boolean {
+  if (!a || !b) return false;
+  const same = (x?: BorderStyle, y?: BorderStyle) =>
+    (!x && !y) || (!!x && !!y && x.style === y.style && x.width === y.width && x.color === y.color);
+  return (
+    same(a.top, b.top) &&
+    same(a.bottom, b.bottom) &&
+    same(a.left, b.left) &&
+    same(a.right, b.right) &&
+    same(a.between, b.between)
+  );
+}
+
+function buildBlockLookup(blocks: FlowBlock[], measures: Measure[]): BlockLookup {
+  const lookup: BlockLookup = new Map();
+  for (let i = 0; i < blocks.length; i++) {
+    if (measures[i]) lookup.set(String(blocks[i].id), { block: blocks[i], measure: measures[i] });
+  }
+  return lookup;
+}
+
+// ============================================================================
+// RESOURCE COLLECTION
+// ============================================================================
+
+/**
+ * Collect the font faces and images a layout draws, so they can be loaded
+ * before any page is rendered.
+ */
+export function collectPdfResources(result: LayoutPipelineResult): {
+  fonts: PdfFontRequest[];
+  images: string[];
+} {
+  const fonts = new Map<string, PdfFontRequest>();
+  const images = new Set<string>();
+  const addFont = (family: string | undefined, bold = false, italic = false) => {
+    const request = { family: family || DEFAULT_FONT_FAMILY, bold, italic };
+    fonts.set(`${request.family}|${bold}|${italic}`, request);
+  };
+
+  const visitRuns = (block: ParagraphBlock) => {
+    const attrs = block.attrs;
+    if (attrs?.listMarker) {
+      const firstText = block.runs.find((run): run is TextRun => run.kind === 'text');
+      addFont(attrs.listMarkerFontFamily ?? firstText?.fontFamily ?? attrs.defaultFontFamily);
+    }
+    for (const run of block.runs) {
+      if (run.kind === 'text' || run.kind === 'tab' || run.kind === 'field') {
+        addFont(run.fontFamily, !!run.bold, !!run.italic);
+      } else if (run.kind === 'image') {
+        images.add(run.src);
+      } else if (run.kind === 'math') {
+        addFont(MATH_FONT);
+        addFont(MATH_FONT, false, true);
+        addFont(MATH_FONT, true, false);
+        addFont(MATH_FONT, true, true);
+      }
+    }
+  };
+
+  const visitBlocks = (blocks: FlowBlock[]) => {
+    for (const block of blocks) {
+      if (block.kind === 'paragraph') visitRuns(block);
+      else if (block.kind === 'image') images.add(block.src);
+      else if (block.kind === 'textBox') visitBlocks(block.content);
+      else if (block.kind === 'table') {
+        for (const row of block.rows) for (const cell of row.cells) visitBlocks(cell.blocks);
+      }
+    }
+  };
+
+  visitBlocks(result.blocks);
+  for (const content of [
+    result.headerContent,
+    result.footerContent,
+    result.firstPageHeaderContent,
+    result.firstPageFooterContent,
+  ]) {
+    if (content) visitBlocks(content.blocks);
+  }
+  if (result.footnotesByPage && result.footnotesByPage.size > 0) addFont(DEFAULT_FONT_FAMILY);
+
+  return { fonts: [...fonts.values()], images: [...images] };
+}
+
+// ============================================================================
+// DRAWING SURFACE
+// ============================================================================
+
+export interface TextStyle {
+  family: string;
+  bold: boolean;
+  italic: boolean;
+  /** Font size in pixels */
+  size: number;
+  color: Rgb;
+  letterSpacing?: number;
+}
+
+/** Path segment in layout pixels: move, line, or close */
+export type PathCommand = ['M' | 'L', number, number] | ['Z'];
+
+/**
+ * What the page renderer draws on. Coordinates are layout pixels with a
+ * top-left origin.
+ */
+export interface PageSurface {
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb | null): void;
+  /** Stroke a line in a CSS border style (solid, dashed, dotted, double) */
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    width: number,
+    color: Rgb | null,
+    style?: string
+  ): void;
+  /** Stroke a path with round joins */
+  strokePath(commands: PathCommand[], width: number, color: Rgb): void;
+  save(): void;
+  restore(): void;
+  /** Concatenate an affine matrix [a, b, c, d, e, f] to the current transform */
+  transform(matrix: number[]): void;
+  clip(x: number, y: number, width: number, height: number): void;
+  /**
+   * Draw text with its left end at `x` on the baseline. When `width` is
+   * given, the text is scaled horizontally to occupy exactly that width
+   * (the width the layout measured).
+   */
+  text(text: string, x: number, baseline: number, style: TextStyle, width?: number): void;
+  /**
+   * Draw an image into a box, optionally keeping its aspect ratio (CSS
+   * object-fit: contain) and applying a CSS transform around its center.
+   */
+  image(
+    src: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options?: { transform?: string; contain?: boolean }
+  ): void;
+  /** Mark a clickable area, in page coordinates */
+  link(x: number, y: number, width: number, height: number, href: string): void;
+}
+
+// ============================================================================
+// CONTENT STREAM
+// ============================================================================
+
+/**
+ * Builds one page's content stream.
+ */
+class PdfPageCanvas implements PageSurface {
+  readonly ops: string[] = [];
+  readonly links: PdfLinkArea[] = [];
+
+  constructor(
+    private fonts: PdfFontSet,
+    private images: PdfImageSet,
+    private imageName: (src: string) => string | null
+  ) {}
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb | null): void {
+    if (!color || width <= 0 || height <= 0) return;
+    this.ops.push(`${fillColorOp(color)} ${n(x)} ${n(y)} ${n(width)} ${n(height)} re f`);
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    width: number,
+    color: Rgb | null,
+    style = 'solid'
+  ): void {
+    if (!color || width <= 0) return;
+    if (style === 'double' && width >= 3) {
+      // Two lines of a third of the width each, at the outer edges
+      const offset = width / 3;
+      const vertical = x1 === x2;
+      const dx = vertical ? offset : 0;
+      const dy = vertical ? 0 : offset;
+      this.line(x1 - dx, y1 - dy, x2 - dx, y2 - dy, width / 3, color);
+      this.line(x1 + dx, y1 + dy, x2 + dx, y2 + dy, width / 3, color);
+      return;
+    }
+    let dash = '[] 0 d';
+    if (style === 'dashed' || style === 'dashSmallGap')
+      dash = `[${n(width * 3)} ${n(width * 2)}] 0 d`;
+    else if (style === 'dotted') dash = `[${n(width)} ${n(width)}] 0 d`;
+    this.ops.push(
+      `${strokeColorOp(color)} ${n(width)} w ${dash} ${n(x1)} ${n(y1)} m ${n(x2)} ${n(y2)} l S`
+    );
+  }
+
+  strokePath(commands: PathCommand[], width: number, color: Rgb): void {
+    const path = commands
+      .map((command) =>
+        command[0] === 'Z'
+          ? 'h'
+          : `${n(command[1])} ${n(command[2])} ${command[0] === 'M' ? 'm' : 'l'}`
+      )
+      .join(' ');
+    this.ops.push(`${strokeColorOp(color)} ${n(width)} w [] 0 d 1 j ${path} S`);
+  }
+
+  save(): void {
+    this.ops.push('q');
+  }
+
+  restore(): void {
+    this.ops.push('Q');
+  }
+
+  transform(matrix: number[]): void {
+    this.ops.push(`${matrix.map(n).join(' ')} cm`);
+  }
+
+  clip(x: number, y: number, width: number, height: number): void {
+    this.ops.push(`${n(x)} ${n(y)} ${n(width)} ${n(height)} re W n`);
+  }
+
+  text(text: string, x: number, baseline: number, style: TextStyle, width?: number): void {
+    if (!text) return;
+    const segments = this.fonts.segment(text, style.family, style.bold, style.italic);
+    const natural =
+      segments.reduce((sum, segment) => sum + segment.font.widthOf(segment.text), 0) *
+      (style.size / 1000);
+
+    let scale = 100;
+    if (style.letterSpacing) {
+      // Letter spacing is added after every character; keep glyphs unscaled
+    } else if (width !== undefined && natural > 0) {
+      scale = Math.min(200, Math.max(50, (width / natural) * 100));
+    }
+
+    const ops = ['BT', fillColorOp(style.color)];
+    if (scale !== 100) ops.push(`${n(scale)} Tz`);
+    if (style.letterSpacing) ops.push(`${n(style.letterSpacing)} Tc`);
+    let stroked = false;
+    let segmentX = x;
+    for (const segment of segments) {
+      // Each segment gets its own text matrix, since fallback fonts may
+      // differ in synthetic italic
+      const skew = segment.font.syntheticItalic ? SYNTHETIC_ITALIC_SKEW : 0;
+      ops.push(`1 0 ${n(skew)} -1 ${n(segmentX)} ${n(baseline)} Tm`);
+      if (segment.font.syntheticBold !== stroked) {
+        stroked = segment.font.syntheticBold;
+        ops.push(stroked ? `${strokeColorOp(style.color)} ${n(style.size / 30)} w 2 Tr` : '0 Tr');
+      }
+      ops.push(`/${segment.font.resourceName} ${n(style.size)} Tf`);
+      ops.push(`${segment.font.encode(segment.text)} Tj`);
+      segmentX +=
+        (segment.font.widthOf(segment.text) * style.size * scale) / 100000 +
+        (style.letterSpacing ?? 0) * [...segment.text].length;
+    }
+    ops.push('ET');
+    this.ops.push(ops.join(' '));
+  }
+
+  image(
+    src: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: { transform?: string; contain?: boolean } = {}
+  ): void {
+    const name = this.imageName(src);
+    const image = this.images.get(src);
+    if (!name || !image || width <= 0 || height <= 0) return;
+
+    let drawX = x;
+    let drawY = y;
+    let drawW = width;
+    let drawH = height;
+    if (options.contain && image.width > 0 && image.height > 0) {
+      const scale = Math.min(width / image.width, height / image.height);
+      drawW = image.width * scale;
+      drawH = image.height * scale;
+      drawX = x + (width - drawW) / 2;
+      drawY = y + (height - drawH) / 2;
+    }
+
+    const ops = ['q'];
+    const matrix = parseTransform(options.transform);
+    if (matrix) {
+      const cx = drawX + drawW / 2;
+      const cy = drawY + drawH / 2;
+      ops.push(`1 0 0 1 ${n(cx)} ${n(cy)} cm`);
+      ops.push(`${matrix.map(n).join(' ')} cm`);
+      ops.push(`1 0 0 1 ${n(-cx)} ${n(-cy)} cm`);
+    }
+    // Image space is a unit square with y up — flip it into our y-down space
+    ops.push(`${n(drawW)} 0 0 ${n(-drawH)} ${n(drawX)} ${n(drawY + drawH)} cm /${name} Do Q`);
+    this.ops.push(ops.join(' '));
+  }
+
+  link(x: number, y: number, width: number, height: number, href: string): void {
+    if (!href || width <= 0 || height <= 0) return;
+    // Merge with the previous area when it continues the same link on the same line
+    const last = this.links[this.links.length - 1];
+    if (
+      last &&
+      last.href === href &&
+      Math.abs(last.y - y) < 0.5 &&
+      Math.abs(last.height - height) < 0.5 &&
+      Math.abs(last.x + last.width - x) < 1
+    ) {
+      last.width = x + width - last.x;
+      return;
+    }
+    this.links.push({ x, y, width, height, href });
+  }
+}
+
+// ============================================================================
+// PAGE RENDERER
+// ============================================================================
+
+interface ParagraphBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fromLine: number;
+  toLine: number;
+  continuesFromPrev?: boolean;
+}
+
+interface ParagraphDrawOptions {
+  prevBorders?: ParagraphBorders;
+  nextBorders?: ParagraphBorders;
+  /** Skip images with an anchor position (drawn separately in headers/footers) */
+  skipPositionedImages?: boolean;
+  renderedInlineImageKeys?: Set<string>;
+}
+
+interface PageState {
+  canvas: PageSurface;
+  pageNumber: number;
+  totalPages: number;
+}
+
+type LinePiece =
+  | {
+      kind: 'text';
+      run: TextRun;
+      text: string;
+      width: number;
+      style: TextStyle;
+      /** Baseline shift for superscript (negative) and subscript (positive) */
+      shift: number;
+    }
+  | { kind: 'tab'; run: TabRun; width: number; leader?: string }
+  | { kind: 'image'; run: ImageRun; width: number }
+  | { kind: 'math'; run: MathRun; box: MathBox; width: number };
+
+/**
+ * Draws pages of one layout onto drawing surfaces.
+ */
+class PageRenderer {
+  constructor(
+    private result: LayoutPipelineResult,
+    private options: PageRenderOptions
+  ) {}
+
+  private measure(text: string, style: TextStyle): number {
+    return this.options.measureText(text, {
+      fontFamily: style.family,
+      fontSize: style.size / PX_PER_PT,
+      bold: style.bold,
+      italic: style.italic,
+      letterSpacing: style.letterSpacing,
+    });
+  }
+
+  renderPage(canvas: PageSurface, page: Page, lookup: BlockLookup, totalPages: number): void {
+    const state: PageState = { canvas, pageNumber: page.number, totalPages };
+    const { result } = this;
+    const contentWidth = page.size.w - page.margins.left - page.margins.right;
+
+    this.drawPageBorders(canvas, page);
+
+    // Vertical pages draw their body in the logical (unrotated) page
+    const bodyPage: Page = page.textDirection
+      ? {
+          ...page,
+          size: getLogicalSize(page.size),
+          margins: getLogicalMargins(page.textDirection, page.margins),
+        }
+      : page;
+    const bodyWidth = bodyPage.size.w - bodyPage.margins.left - bodyPage.margins.right;
+    const enterBody = () => {
+      canvas.save();
+      if (page.textDirection) {
+        canvas.transform(getVerticalMatrix(page.textDirection, bodyPage.size));
+      }
+    };
+    enterBody();
+
+    // Images behind the text go first
+    for (const fragment of page.fragments) {
+      const entry = lookup.get(String(fragment.blockId));
+      if (
+        fragment.kind === 'image' &&
+        entry?.block.kind === 'image' &&
+        entry.block.anchor?.behindDoc
+      ) {
+        this.drawImageFragment(canvas, fragment, entry.block);
+      }
+    }
+
+    const { floatingImages, floatingZones } = collectPageFloats(bodyPage, lookup);
+    const paragraphBorders = (fragment: Fragment | undefined): ParagraphBorders | undefined => {
+      if (fragment?.kind !== 'paragraph') return undefined;
+      const entry = lookup.get(String(fragment.blockId));
+      return entry?.block.kind === 'paragraph' ? entry.block.attrs?.borders : undefined;
+    };
+
+    let prevBorders: ParagraphBorders | undefined;
+    const renderedInlineImageKeysByBlock = new Map<string, Set<string>>();
+    for (let i = 0; i < page.fragments.length; i++) {
+      const fragment = page.fragments[i];
+      const entry = lookup.get(String(fragment.blockId));
+      if (!entry) continue;
+      const { block, measure } = entry;
+
+      if (
+        fragment.kind === 'paragraph' &&
+        block.kind === 'paragraph' &&
+        measure.kind === 'paragraph'
+      ) {
+        let paragraphMeasure = measure;
+        if (floatingZones.length > 0) {
+          paragraphMeasure = this.remeasure(
+            block,
+            measure,
+            bodyWidth,
+            floatingZones,
+            fragment.y - bodyPage.margins.top
+          );
+        }
+        const blockKey = String(fragment.blockId);
+        let renderedInlineImageKeys = renderedInlineImageKeysByBlock.get(blockKey);
+        if (!renderedInlineImageKeys) {
+          renderedInlineImageKeys = new Set();
+          renderedInlineImageKeysByBlock.set(blockKey, renderedInlineImageKeys);
+        }
+        this.drawParagraph(state, block, paragraphMeasure, fragment, {
+          prevBorders,
+          nextBorders: paragraphBorders(page.fragments[i + 1]),
+          renderedInlineImageKeys,
+        });
+        prevBorders = block.attrs?.borders;
+        continue;
+      }
+
+      prevBorders = undefined;
+      if (fragment.kind === 'table' && block.kind === 'table' && measure.kind === 'table') {
+        this.drawTableFragment(state, fragment, block, measure);
+      } else if (fragment.kind === 'image' && block.kind === 'image' && !block.anchor?.behindDoc) {
+        this.drawImageFragment(canvas, fragment, block);
+      } else if (
+        fragment.kind === 'textBox' &&
+        block.kind === 'textBox' &&
+        measure.kind === 'textBox'
+      ) {
+        this.drawTextBox(state, fragment, block, measure);
+      }
+    }
+
+    // Column separators (w:sep)
+    if (page.columns && page.columns.separator && page.columns.count > 1) {
+      const { count, gap } = page.columns;
+      const colWidth = (bodyWidth - (count - 1) * gap) / count;
+      const black: Rgb = [0, 0, 0];
+      const { margins, size } = bodyPage;
+      for (let col = 0; col < count - 1; col++) {
+        const x = margins.left + (col + 1) * colWidth + col * gap + gap / 2;
+        canvas.line(x, margins.top, x, size.h - margins.bottom, 0.5, black);
+      }
+    }
+
+    const footnotes = result.footnotesByPage?.get(page.number);
+    if (footnotes && footnotes.length > 0) {
+      this.drawFootnoteArea(canvas, bodyPage, footnotes, bodyWidth);
+    }
+    canvas.restore();
+
+    const firstPage = result.titlePg && page.number === 1;
+    const header = firstPage ? result.firstPageHeaderContent : result.headerContent;
+    const footer = firstPage ? result.firstPageFooterContent : result.footerContent;
+    const layoutInfo = (flowTop: number): HeaderFooterLayoutInfo => ({
+      flowTop,
+      flowLeft: page.margins.left,
+      contentWidth,
+      pageWidth: page.size.w,
+      pageHeight: page.size.h,
+      margins: page.margins,
+    });
+    if (header && header.blocks.length > 0) {
+      const headerDistance = result.headerDistance ?? page.margins.header ?? 48;
+      this.drawHeaderFooter(
+        state,
+        header,
+        page.margins.left,
+        headerDistance,
+        contentWidth,
+        layoutInfo(headerDistance)
+      );
+    }
+    if (footer && footer.blocks.length > 0) {
+      const footerDistance = result.footerDistance ?? page.margins.footer ?? 48;
+      const visualTop = footer.visualTop ?? 0;
+      const visualBottom = footer.visualBottom ?? footer.height;
+      const footerTop = page.size.h - footerDistance - Math.max(visualBottom - visualTop, 24);
+      this.drawHeaderFooter(
+        state,
+        footer,
+        page.margins.left,
+        footerTop - visualTop,
+        contentWidth,
+        layoutInfo(page.size.h - footerDistance - footer.height)
+      );
+    }
+
+    // Floating images sit above the text, as in the painter's floating layer
+    enterBody();
+    for (const image of floatingImages) {
+      canvas.image(
+        image.src,
+        bodyPage.margins.left + image.x,
+        bodyPage.margins.top + image.y,
+        image.width,
+        image.height,
+        { transform: image.transform }
+      );
+    }
+    canvas.restore();
+  }
+
+  /**
+   * Re-measure a paragraph around floating objects. Measuring needs a
+   * canvas; without one the stored measure is used as-is.
+   */
+  private remeasure(
+    block: ParagraphBlock,
+    measure: ParagraphMeasure,
+    width: number,
+    floatingZones: FloatingImageZone[],
+    paragraphYOffset: number
+  ): ParagraphMeasure {
+    try {
+      return measureParagraph(block, width, { floatingZones, paragraphYOffset });
+    } catch {
+      return measure;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Page decorations
+  // --------------------------------------------------------------------------
+
+  private drawPageBorders(canvas: PageSurface, page: Page): void {
+    const borders = this.result.pageBorders as SectionProperties['pageBorders'];
+    if (!borders) return;
+    const fromText = borders.offsetFrom === 'text';
+    const sides = ['top', 'bottom', 'left', 'right'] as const;
+    const geometry = (side: (typeof sides)[number], border: BorderSpec) => {
+      const width = Math.max(1, border.size ? (border.size / 8) * PX_PER_PT : 1);
+      const space = (border.space ?? 0) * PX_PER_PT;
+      const inset = fromText ? 0 : space + width / 2;
+      const top = fromText ? page.margins.top - space - width / 2 : inset;
+      const bottom = fromText
+        ? page.size.h - page.margins.bottom + space + width / 2
+        : page.size.h - inset;
+      const left = fromText ? page.margins.left - space - width / 2 : inset;
+      const right = fromText
+        ? page.size.w - page.margins.right + space + width / 2
+        : page.size.w - inset;
+      return { width, top, bottom, left, right, side };
+    };
+    for (const side of sides) {
+      const border = borders[side];
+      if (!border || border.style === 'none' || border.style === 'nil') continue;
+      const g = geometry(side, border);
+      const color = parseColor(resolveColor(border.color, this.options.theme));
+      const style =
+        border.style === 'dotted'
+          ? 'dotted'
+          : border.style === 'dashed'
+            ? 'dashed'
+            : border.style === 'double'
+              ? 'double'
+              : 'solid';
+      if (side === 'top') canvas.line(g.left, g.top, g.right, g.top, g.width, color, style);
+      if (side === 'bottom')
+        canvas.line(g.left, g.bottom, g.right, g.bottom, g.width, color, style);
+      if (side === 'left') canvas.line(g.left, g.top, g.left, g.bottom, g.width, color, style);
+      if (side === 'right') canvas.line(g.right, g.top, g.right, g.bottom, g.width, color, style);
+    }
+  }
+
+  private drawFootnoteArea(
+    canvas: PageSurface,
+    page: Page,
+    footnotes: FootnoteRenderItem[],
+    contentWidth: number
+  ): void {
+    const reserved = page.footnoteReservedHeight ?? 0;
+    let y = page.size.h - page.margins.bottom - reserved;
+    const x = page.margins.left;
+    const black: Rgb = [0, 0, 0];
+
+    // Separator line (33% width) with 6px above and below
+    canvas.fillRect(x, y + 6, contentWidth * 0.33, 0.5, black);
+    y += 12.5;
+
+    const textStyle: TextStyle = {
+      family: DEFAULT_FONT_FAMILY,
+      bold: false,
+      italic: false,
+      size: 10,
+      color: black,
+    };
+    const numberStyle: TextStyle = { ...textStyle, size: 7 };
+    const lineHeight = 13;
+    for (const footnote of footnotes) {
+      const numberWidth = this.measure(footnote.displayNumber, numberStyle) + 2;
+      const lines = this.wrapText(` ${footnote.text}`, textStyle, contentWidth, numberWidth);
+      lines.forEach((line, index) => {
+        const baseline = y + (lineHeight - 10) / 2 + 8;
+        if (index === 0) canvas.text(footnote.displayNumber, x, baseline - 10 / 3, numberStyle);
+        canvas.text(line, x + (index === 0 ? numberWidth : 0), baseline, textStyle);
+        y += lineHeight;
+      });
+      y += 4;
+    }
+  }
+
+  /** Greedy word wrap for plain text (footnote entries) */
+  private wrapText(text: string, style: TextStyle, width: number, firstIndent: number): string[] {
+    const words = text.split(/(?<= )/);
+    const lines: string[] = [];
+    let current = '';
+    for (const word of words) {
+      const available = width - (lines.length === 0 ? firstIndent : 0);
+      if (current && this.measure((current + word).trimEnd(), style) > available) {
+        lines.push(current);
+        current = word;
+      } else {
+        current += word;
+      }
+    }
+    lines.push(current);
+    return lines;
+  }
+
+  private drawHeaderFooter(
+    state: PageState,
+    content: HeaderFooterContent,
+    originX: number,
+    originY: number,
+    contentWidth: number,
+    layout: HeaderFooterLayoutInfo
+  ): void {
+    let cursorY = 0;
+    for (let i = 0; i < content.blocks.length; i++) {
+      const block = content.blocks[i];
+      const measure = content.measures[i];
+      if (block?.kind !== 'paragraph' || measure?.kind !== 'paragraph') continue;
+
+      this.drawParagraph(
+        state,
+        block,
+        measure,
+        {
+          x: originX,
+          y: originY + cursorY,
+          width: contentWidth,
+          height: measure.totalHeight,
+          fromLine: 0,
+          toLine: measure.lines.length,
+        },
+        { skipPositionedImages: true }
+      );
+
+      for (const run of block.runs) {
+        if (run.kind !== 'image' || !run.position) continue;
+        const float = {
+          width: run.width,
+          height: run.height,
+          paragraphY: cursorY,
+          position: run.position,
+        };
+        state.canvas.image(
+          run.src,
+          originX + resolveHeaderFooterFloatLeft(float, layout),
+          originY + resolveHeaderFooterFloatTop(float, layout),
+          run.width,
+          run.height,
+          { transform: run.transform }
+        );
+      }
+      cursorY += measure.totalHeight;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Paragraphs
+  // --------------------------------------------------------------------------
+
+  private textStyle(run: TextRun | TabRun | FieldRun, color?: string): TextStyle {
+    let colorValue = color ?? run.color;
+    const markup = this.options.trackedChanges !== false;
+    if (markup && run.moveName && (run.isInsertion || run.isDeletion)) colorValue = INSERTION_COLOR;
+    else if (markup && run.isDeletion) colorValue = DELETION_COLOR;
+    else if (run.kind === 'text' && run.hyperlink && !color)
+      colorValue = run.color || HYPERLINK_COLOR;
+    const scale = run.superscript || run.subscript ? 0.75 : 1;
+    return {
+      family: run.fontFamily || DEFAULT_FONT_FAMILY,
+      bold: !!run.bold,
+      italic: !!run.italic,
+      size: fontSizePt(run) * PX_PER_PT * scale,
+      color: parseColor(colorValue) ?? [0, 0, 0],
+      letterSpacing: run.letterSpacing || undefined,
+    };
+  }
+
+  private drawParagraph(
+    state: PageState,
+    block: ParagraphBlock,
+    measure: ParagraphMeasure,
+    box: ParagraphBox,
+    options: ParagraphDrawOptions = {}
+  ): void {
+    const { canvas } = state;
+    const attrs = block.attrs ?? {};
+    const indent = attrs.indent;
+    const isBidi = !!attrs.bidi;
+
+    // Borders and shading (border-box: borders and padding sit inside the box)
+    if (attrs.shading) {
+      canvas.fillRect(box.x, box.y, box.width, box.height, parseColor(attrs.shading));
+    }
+    let insetTop = 0;
+    let insetLeft = 0;
+    let insetRight = 0;
+    const borders = attrs.borders;
+    if (borders) {
+      const groupedWithPrev = bordersFormGroup(options.prevBorders, borders);
+      const groupedWithNext = bordersFormGroup(borders, options.nextBorders);
+      const top =
+        groupedWithPrev && borders.between
+          ? borders.between
+          : !groupedWithPrev
+            ? borders.top
+            : undefined;
+      const bottom = !groupedWithNext ? borders.bottom : undefined;
+      const draw = (border: BorderStyle | undefined, side: 'top' | 'bottom' | 'left' | 'right') => {
+        if (!isVisibleBorder(border)) return 0;
+        const width = border!.width!;
+        const color = parseColor(border!.color) ?? [0, 0, 0];
+        const style = border!.style === 'double' ? 'double' : border!.style;
+        const right = box.x + box.width;
+        const bottomY = box.y + box.height;
+        if (side === 'top')
+          canvas.line(box.x, box.y + width / 2, right, box.y + width / 2, width, color, style);
+        if (side === 'bottom')
+          canvas.line(box.x, bottomY - width / 2, right, bottomY - width / 2, width, color, style);
+        if (side === 'left')
+          canvas.line(box.x + width / 2, box.y, box.x + width / 2, bottomY, width, color, style);
+        if (side === 'right')
+          canvas.line(right - width / 2, box.y, right - width / 2, bottomY, width, color, style);
+        return width;
+      };
+      insetTop = draw(top, 'top');
+      draw(bottom, 'bottom');
+      insetLeft = draw(borders.left, 'left');
+      insetRight = draw(borders.right, 'right');
+      if (isVisibleBorder(borders.bar)) {
+        const width = borders.bar!.width!;
+        const x = box.x - 8 + width / 2;
+        canvas.line(
+          x,
+          box.y,
+          x,
+          box.y + box.height,
+          width,
+          parseColor(borders.bar!.color) ?? [0, 0, 0]
+        );
+      }
+
+      if (borders.top || borders.bottom || borders.left || borders.right || borders.between) {
+        const topBorder = borders.top || borders.between;
+        insetLeft += borders.left ? (borders.left.space ?? 4) : 0;
+        insetRight += borders.right ? (borders.right.space ?? 4) : 0;
+        insetTop += topBorder ? (topBorder.space ?? 2) : 0;
+      }
+    }
+
+    let indentLeft = 0;
+    let indentRight = 0;
+    if (indent) {
+      const left = isBidi ? indent.right : indent.left;
+      const right = isBidi ? indent.left : indent.right;
+      if (left && left > 0) indentLeft = left;
+      if (right && right > 0) indentRight = right;
+    }
+    const hanging = indent?.hanging && indent.hanging > 0 ? indent.hanging : 0;
+    const firstLine = !hanging && indent?.firstLine && indent.firstLine > 0 ? indent.firstLine : 0;
+    const firstLineIndentPx = hanging ? -hanging : firstLine;
+
+    const alignment = attrs.alignment ?? (isBidi ? 'right' : 'left');
+    const lastRun = block.runs[block.runs.length - 1];
+    const paragraphEndsWithLineBreak = lastRun?.kind === 'lineBreak';
+    const contentX = box.x + insetLeft;
+    const contentRight = box.x + box.width - insetRight;
+
+    let lineTop = box.y + insetTop;
+    const lines = measure.lines.slice(box.fromLine, box.toLine);
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const lineIndex = box.fromLine + i;
+      const isFirstLine = lineIndex === 0 && !box.continuesFromPrev;
+      const isLastLine = lineIndex === measure.lines.length - 1;
+      const leftOffset = line.leftOffset ?? 0;
+      const rightOffset = line.rightOffset ?? 0;
+
+      // Line padding and first-line text indent, as the painter applies them
+      let padLeft = 0;
+      let textIndent = 0;
+      if (isFirstLine) {
+        if (indentLeft > 0 && hanging) {
+          padLeft = indentLeft;
+          textIndent = -hanging;
+        } else if (indentLeft > 0 && firstLine) {
+          padLeft = indentLeft;
+          textIndent = firstLine;
+        } else if (indentLeft > 0) {
+          padLeft = indentLeft;
+        } else if (firstLine) {
+          textIndent = firstLine;
+        }
+      } else if (indentLeft > 0) {
+        padLeft = indentLeft;
+      } else if (hanging) {
+        padLeft = hanging;
+      }
+
+      // List marker on the first line: the marker box fills the hanging indent
+      let marker: { text: string; style: TextStyle; boxWidth: number } | null = null;
+      if (isFirstLine && attrs.listMarker && !attrs.listMarkerHidden) {
+        padLeft = Math.max(0, indentLeft - hanging);
+        textIndent = 0;
+        const firstTextRun = block.runs
+          .slice(line.fromRun, line.toRun + 1)
+          .find((run): run is TextRun => run.kind === 'text');
+        const family =
+          attrs.listMarkerFontFamily ?? firstTextRun?.fontFamily ?? attrs.defaultFontFamily;
+        const size = attrs.listMarkerFontSize ?? firstTextRun?.fontSize ?? attrs.defaultFontSize;
+        const style: TextStyle = {
+          family: family || DEFAULT_FONT_FAMILY,
+          bold: false,
+          italic: false,
+          size: (size ?? DEFAULT_FONT_SIZE) * PX_PER_PT,
+          color: [0, 0, 0],
+        };
+        const markerWidth = this.measure(attrs.listMarker, style);
+        marker = {
+          text: attrs.listMarker,
+          style,
+          boxWidth: Math.max(indent?.hanging ?? 24, markerWidth),
+        };
+      }
+
+      const boxLeft = contentX + leftOffset + padLeft;
+      const textStart = boxLeft + textIndent;
+      const right = contentRight - rightOffset - indentRight;
+      const baseline = lineTop + (line.lineHeight - (line.ascent + line.descent)) / 2 + line.ascent;
+
+      const runs = sliceRunsForLine(block, line);
+      const startX = leftOffset + (isFirstLine ? indentLeft + firstLineIndentPx : indentLeft);
+      const pieces = this.buildLinePieces(state, runs, block, startX, indentLeft, options);
+      if (line.hyphenated) {
+        // The hyphen of a word broken across lines, in the style of its text
+        const last = pieces.filter((piece) => piece.kind === 'text').pop();
+        if (last?.kind === 'text') {
+          pieces.push({ ...last, text: '-', width: this.measure('-', last.style) });
+        }
+      }
+
+      // Block images and display equations sit on their own, centered
+      for (const run of runs) {
+        if (run.kind === 'image' && this.isBlockImage(run, options)) {
+          const key = inlineImageKey(run);
+          if (options.renderedInlineImageKeys?.has(key)) continue;
+          options.renderedInlineImageKeys?.add(key);
+          const x = boxLeft + (right - boxLeft - run.width) / 2;
+          canvas.image(run.src, x, lineTop + (run.distTop ?? 6), run.width, run.height, {
+            transform: run.transform,
+          });
+        } else if (run.kind === 'math' && run.display === 'block') {
+          const mathBox = layoutMathRun(run);
+          const x = boxLeft + (right - boxLeft - mathBox.width) / 2;
+          const mathBaseline =
+            lineTop + (line.lineHeight - (mathBox.ascent + mathBox.descent)) / 2 + mathBox.ascent;
+          this.drawMath(canvas, mathBox, x, mathBaseline, run.color);
+        }
+      }
+
+      const naturalWidth =
+        (marker?.boxWidth ?? 0) + pieces.reduce((sum, piece) => sum + piece.width, 0);
+      let x = textStart;
+      let spaceExtra = 0;
+      if (alignment === 'center') {
+        x = textStart + (right - textStart - naturalWidth) / 2;
+      } else if (alignment === 'right') {
+        x = right - naturalWidth;
+      } else if (alignment === 'justify') {
+        if (!isLastLine || paragraphEndsWithLineBreak) {
+          const spaces = countJustifiableSpaces(pieces);
+          const extra = right - textStart - naturalWidth;
+          if (spaces > 0 && extra > 0) spaceExtra = extra / spaces;
+        } else if (isBidi) {
+          x = right - naturalWidth;
+        }
+      }
+
+      if (marker) {
+        canvas.text(marker.text, x, baseline, marker.style);
+        x += marker.boxWidth;
+      }
+
+      const trailing = trailingSpaceStart(pieces);
+      for (let p = 0; p < pieces.length; p++) {
+        const piece = pieces[p];
+        const justify = spaceExtra > 0 && p <= trailing.piece;
+        const width =
+          piece.kind === 'text' && justify
+            ? piece.width +
+              spaceExtra *
+                countSpaces(piece.text, p === trailing.piece ? trailing.index : undefined)
+            : piece.width;
+        this.drawPiece(
+          state,
+          piece,
+          x,
+          lineTop,
+          line,
+          baseline,
+          justify ? spaceExtra : 0,
+          p === trailing.piece ? trailing.index : undefined
+        );
+        x += width;
+      }
+
+      lineTop += line.lineHeight;
+    }
+  }
+
+  private isBlockImage(run: ImageRun, options: ParagraphDrawOptions): boolean {
+    if (options.skipPositionedImages && run.position) return false;
+    if (isFloatingImageRun(run)) return false;
+    return run.displayMode === 'block' || run.wrapType === 'topAndBottom';
+  }
+
+  /**
+   * Resolve the inline pieces of a line and their widths, computing tab
+   * widths the way the painter does.
+   */
+  private buildLinePieces(
+    state: PageState,
+    runs: Run[],
+    block: ParagraphBlock,
+    startX: number,
+    indentLeft: number,
+    options: ParagraphDrawOptions
+  ): LinePiece[] {
+    const pieces: LinePiece[] = [];
+    const tabContext: TabContext = {
+      explicitStops: block.attrs?.tabs?.map((stop) => ({
+        val: stop.val,
+        pos: stop.pos,
+        leader: stop.leader,
+      })),
+      leftIndent: indentLeft ? Math.round(indentLeft * 15) : 0,
+    };
+    const measureDefault = (text: string, size = DEFAULT_FONT_SIZE, family = DEFAULT_FONT_FAMILY) =>
+      this.options.measureText(text, { fontFamily: family, fontSize: size });
+
+    let currentX = startX;
+    for (let i = 0; i < runs.length; i++) {
+      const run = runs[i];
+      if (run.kind === 'text' || run.kind === 'field') {
+        const text =
+          run.kind === 'text'
+            ? run.text
+            : resolveFieldText(run, state.pageNumber, state.totalPages);
+        if (!text) continue;
+        const style = this.textStyle(run);
+        const size = fontSizePt(run) * PX_PER_PT;
+        const shift = run.superscript ? -size / 3 : run.subscript ? size / 5 : 0;
+        const textRun: TextRun = run.kind === 'text' ? run : { ...run, kind: 'text', text };
+        pieces.push({
+          kind: 'text',
+          run: textRun,
+          text,
+          width: this.measure(text, style),
+          style,
+          shift,
+        });
+        currentX += measureDefault(
+          text,
+          run.fontSize || DEFAULT_FONT_SIZE,
+          run.fontFamily || DEFAULT_FONT_FAMILY
+        );
+      } else if (run.kind === 'tab') {
+        const followingText = textAfterTab(runs, i, state);
+        const tab = calculateTabWidth(currentX, tabContext, followingText, (text) =>
+          measureDefault(text)
+        );
+        pieces.push({ kind: 'tab', run, width: tab.width, leader: tab.leader });
+        currentX += tab.width;
+      } else if (run.kind === 'image') {
+        if (isFloatingImageRun(run) || (options.skipPositionedImages && run.position)) continue;
+        if (run.displayMode === 'block' || run.wrapType === 'topAndBottom') continue;
+        const key = inlineImageKey(run);
+        if (options.renderedInlineImageKeys?.has(key)) continue;
+        options.renderedInlineImageKeys?.add(key);
+        pieces.push({ kind: 'image', run, width: run.width });
+        currentX += run.width;
+      } else if (run.kind === 'math' && run.display !== 'block') {
+        const box = layoutMathRun(run);
+        pieces.push({ kind: 'math', run, box, width: box.width });
+        currentX += box.width;
+      }
+    }
+    return pieces;
+  }
+
+  private drawPiece(
+    state: PageState,
+    piece: LinePiece,
+    x: number,
+    lineTop: number,
+    line: MeasuredLine,
+    baseline: number,
+    spaceExtra: number,
+    trailingIndex: number | undefined
+  ): void {
+    const { canvas } = state;
+    if (piece.kind === 'image') {
+      const { run } = piece;
+      // vertical-align: middle — centered on the baseline plus half an x-height
+      const middle = baseline - (DEFAULT_FONT_SIZE * PX_PER_PT) / 4;
+      const top = Math.max(
+        lineTop,
+        Math.min(middle - run.height / 2, lineTop + line.lineHeight - run.height)
+      );
+      canvas.image(run.src, x, top, run.width, run.height, { transform: run.transform });
+      return;
+    }
+    if (piece.kind === 'math') {
+      this.drawMath(canvas, piece.box, x, baseline, piece.run.color);
+      return;
+    }
+    if (piece.kind === 'tab') {
+      const leaderChar = piece.leader ? LEADER_CHARS[piece.leader] : undefined;
+      if (leaderChar) {
+        const style = this.textStyle(piece.run);
+        const charWidth = this.measure(leaderChar, style);
+        const count = charWidth > 0 ? Math.floor((piece.width - 2) / charWidth) : 0;
+        if (count > 0) {
+          const text = leaderChar.repeat(count);
+          canvas.text(
+            text,
+            x + piece.width - count * charWidth - 1,
+            baseline,
+            style,
+            count * charWidth
+          );
+        }
+      }
+      return;
+    }
+
+    const { style, text } = piece;
+    let { run } = piece;
+    if (this.options.trackedChanges === false) {
+      // Without markup the document reads as if the changes were accepted
+      if (run.isDeletion) return;
+      run = { ...run, isInsertion: false, moveName: undefined };
+    }
+    const textBaseline = baseline + piece.shift;
+    const width = piece.width + spaceExtra * countSpaces(text, trailingIndex);
+    const commented =
+      this.options.comments &&
+      run.commentIds?.some((id) => !this.options.resolvedCommentIds?.has(id));
+
+    // Backgrounds fill the whole line height
+    const background =
+      run.isInsertion || (run.isDeletion && run.moveName)
+        ? INSERTION_BACKGROUND
+        : run.isDeletion
+          ? DELETION_BACKGROUND
+          : commented
+            ? COMMENT_BACKGROUND
+            : run.highlight;
+    canvas.fillRect(x, lineTop, width, line.lineHeight, parseColor(background));
+    if (commented && !run.isInsertion && !run.isDeletion) {
+      canvas.fillRect(x, lineTop + line.lineHeight - 1, width, 1, parseColor(COMMENT_BORDER));
+    }
+
+    if (spaceExtra > 0) {
+      // Justified: place each word, widening the spaces between them
+      let wordX = x;
+      for (const token of text.split(/( +)/)) {
+        if (!token) continue;
+        const tokenWidth = this.measure(token, style);
+        if (token.startsWith(' ')) {
+          wordX += tokenWidth + spaceExtra * countSpaces(token);
+        } else {
+          canvas.text(token, wordX, textBaseline, style, tokenWidth);
+          wordX += tokenWidth;
+        }
+      }
+    } else {
+      canvas.text(text, x, textBaseline, style, piece.width);
+    }
+
+    // Decorations
+    const size = style.size;
+    const thickness = Math.max(0.5, size / 18);
+    const underline = run.underline || run.hyperlink;
+    if (underline) {
+      const decoration = typeof run.underline === 'object' ? run.underline : undefined;
+      const color = parseColor(decoration?.color) ?? style.color;
+      const y = textBaseline + size * 0.12;
+      const lineStyle =
+        decoration?.style === 'dotted' || decoration?.style === 'dashed'
+          ? decoration.style
+          : 'solid';
+      canvas.line(x, y, x + width, y, thickness, color, lineStyle);
+      if (decoration?.style === 'double') {
+        canvas.line(x, y + thickness * 2, x + width, y + thickness * 2, thickness, color);
+      }
+    }
+    if (run.isDeletion && run.moveName) {
+      // Moved away: green double strikethrough
+      const y = textBaseline - size * 0.28;
+      const color = parseColor(INSERTION_COLOR);
+      canvas.line(x, y - thickness, x + width, y - thickness, thickness, color);
+      canvas.line(x, y + thickness, x + width, y + thickness, thickness, color);
+    } else if (run.strike || run.isDeletion) {
+      const y = textBaseline - size * 0.28;
+      canvas.line(
+        x,
+        y,
+        x + width,
+        y,
+        thickness,
+        run.isDeletion ? parseColor(DELETION_COLOR) : style.color
+      );
+    }
+    if (run.isInsertion && run.moveName) {
+      // Moved here: green double underline
+      const y = textBaseline + size * 0.25 + 1;
+      const color = parseColor(INSERTION_COLOR);
+      canvas.line(x, y, x + width, y, thickness, color);
+      canvas.line(x, y + thickness * 2, x + width, y + thickness * 2, thickness, color);
+    } else if (run.isInsertion) {
+      const y = textBaseline + size * 0.25 + 1;
+      canvas.line(x, y, x + width, y, 2, parseColor(INSERTION_COLOR), 'dashed');
+    }
+    if (run.hyperlink?.href) {
+      canvas.link(x, lineTop, width, line.lineHeight, run.hyperlink.href);
+    }
+  }
+
+  private drawMath(
+    canvas: PageSurface,
+    box: MathBox,
+    x: number,
+    baseline: number,
+    color?: string
+  ): void {
+    const rgb = parseColor(color) ?? [0, 0, 0];
+    for (const item of box.items) {
+      if (item.kind === 'text') {
+        const style: TextStyle = {
+          family: MATH_FONT,
+          bold: item.bold,
+          italic: item.italic,
+          size: item.fontSize,
+          color: rgb,
+        };
+        if (item.scaleX || item.scaleY) {
+          const sx = item.scaleX ?? 1;
+          const sy = item.scaleY ?? 1;
+          const ox = x + (item.originX ?? 0);
+          const oy = baseline + (item.originY ?? 0);
+          canvas.save();
+          canvas.transform([sx, 0, 0, sy, ox * (1 - sx), oy * (1 - sy)]);
+          canvas.text(item.text, x + item.x, baseline + item.y, style);
+          canvas.restore();
+        } else {
+          canvas.text(item.text, x + item.x, baseline + item.y, style);
+        }
+      } else if (item.kind === 'rule') {
+        canvas.fillRect(x + item.x, baseline + item.y, item.width, item.height, rgb);
+      } else {
+        const commands: PathCommand[] = [];
+        for (const [, op, px, py] of item.d.matchAll(
+          /([MLZ])(?:\s*(-?[\d.]+)[\s,]+(-?[\d.]+))?/g
+        )) {
+          if (op === 'Z') commands.push(['Z']);
+          else commands.push([op as 'M' | 'L', x + parseFloat(px), baseline + parseFloat(py)]);
+        }
+        canvas.strokePath(commands, item.strokeWidth, rgb);
+      }
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Tables, images, text boxes
+  // --------------------------------------------------------------------------
+
+  private drawTableFragment(
+    state: PageState,
+    fragment: Extract<Fragment, { kind: 'table' }>,
+    block: TableBlock,
+    measure: TableMeasure
+  ): void {
+    const rows: Array<{ index: number; firstInFragment: boolean; slice?: TableRowSlice }> = [];
+    const headerRowCount = fragment.headerRowCount ?? 0;
+    const repeatHeaders = headerRowCount > 0 && fragment.continuesFromPrev;
+    if (repeatHeaders) {
+      for (let i = 0; i < headerRowCount; i++) rows.push({ index: i, firstInFragment: i === 0 });
+    }
+    for (let i = fragment.fromRow; i < fragment.toRow; i++) {
+      rows.push({
+        index: i,
+        firstInFragment: !repeatHeaders && !!fragment.continuesFromPrev && i === fragment.fromRow,
+        slice: getRowSlice(fragment, i),
+      });
+    }
+    state.canvas.save();
+    state.canvas.clip(fragment.x, fragment.y, fragment.width, fragment.height);
+    this.drawTableRows(state, block, measure, fragment.x, fragment.y, rows);
+    state.canvas.restore();
+  }
+
+  private drawTableRows(
+    state: PageState,
+    block: TableBlock,
+    measure: TableMeasure,
+    x: number,
+    y: number,
+    rows: Array<{ index: number; firstInFragment: boolean; slice?: TableRowSlice }>
+  ): number {
+    const rowYPositions: number[] = [];
+    let yPos = 0;
+    for (const row of measure.rows) {
+      rowYPositions.push(yPos);
+      yPos += row.height;
+    }
+    rowYPositions.push(yPos);
+
+    const spans: Array<{
+      startRow: number;
+      rowSpan: number;
+      columnIndex: number;
+      colSpan: number;
+    }> = [];
+    let rowY = y;
+    for (const { index: rowIndex, firstInFragment, slice } of rows) {
+      const row = block.rows[rowIndex];
+      const rowMeasure = measure.rows[rowIndex];
+      if (!row || !rowMeasure) continue;
+
+      const occupied = new Set<number>();
+      for (const span of spans) {
+        if (span.startRow < rowIndex && span.startRow + span.rowSpan > rowIndex) {
+          for (let c = 0; c < span.colSpan; c++) occupied.add(span.columnIndex + c);
+        }
+      }
+
+      let cellX = x;
+      let columnIndex = 0;
+      const skipOccupied = () => {
+        while (occupied.has(columnIndex)) {
+          cellX += measure.columnWidths[columnIndex] ?? 0;
+          columnIndex++;
+        }
+      };
+      skipOccupied();
+      for (let cellIndex = 0; cellIndex < row.cells.length; cellIndex++) {
+        const cell = row.cells[cellIndex];
+        const cellMeasure = rowMeasure.cells[cellIndex];
+        if (!cell || !cellMeasure) continue;
+        const colSpan = cell.colSpan ?? 1;
+        const rowSpan = cell.rowSpan ?? 1;
+
+        let cellHeight = slice?.height ?? rowMeasure.height;
+        if (rowSpan > 1) {
+          cellHeight = 0;
+          for (let r = rowIndex; r < rowIndex + rowSpan && r < rowYPositions.length - 1; r++) {
+            cellHeight += rowYPositions[r + 1] - rowYPositions[r];
+          }
+          if (cellHeight === 0) cellHeight = rowMeasure.height * rowSpan;
+        }
+
+        this.drawTableCell(
+          state,
+          cell,
+          cellMeasure,
+          cellX,
+          rowY,
+          cellHeight,
+          { isFirstRow: rowIndex === 0 || firstInFragment, isFirstCol: columnIndex === 0 },
+          slice
+            ? { fromLine: slice.fromLines[cellIndex] ?? 0, toLine: slice.toLines[cellIndex] ?? 0 }
+            : undefined
+        );
+
+        if (rowSpan > 1) spans.push({ startRow: rowIndex, rowSpan, columnIndex, colSpan });
+        for (let c = 0; c < colSpan && columnIndex + c < measure.columnWidths.length; c++) {
+          cellX += measure.columnWidths[columnIndex + c] ?? 0;
+        }
+        columnIndex += colSpan;
+        skipOccupied();
+      }
+      rowY += slice?.height ?? rowMeasure.height;
+    }
+    return rowY - y;
+  }
+
+  private drawTableCell(
+    state: PageState,
+    cell: TableCell,
+    cellMeasure: TableCellMeasure,
+    x: number,
+    y: number,
+    height: number,
+    flags: { isFirstRow: boolean; isFirstCol: boolean },
+    lines?: { fromLine: number; toLine: number }
+  ): void {
+    const { canvas } = state;
+    const width = cellMeasure.width;
+    canvas.fillRect(x, y, width, height, parseColor(cell.background));
+
+    // Collapsed borders: the first row draws the top edge, the first column
+    // the left edge, every cell its right and bottom edges
+    const edge = { top: 0, right: 0, bottom: 0, left: 0 };
+    const drawBorder = (side: keyof typeof edge) => {
+      const border = cell.borders?.[side];
+      if (!border || border.style === 'none' || border.style === 'nil' || border.width === 0)
+        return;
+      const w = border.width ?? 1;
+      const color = parseColor(border.color ?? '#000000');
+      const style = border.style ?? 'solid';
+      if (side === 'top') canvas.line(x, y + w / 2, x + width, y + w / 2, w, color, style);
+      if (side === 'bottom')
+        canvas.line(x, y + height - w / 2, x + width, y + height - w / 2, w, color, style);
+      if (side === 'left') canvas.line(x + w / 2, y, x + w / 2, y + height, w, color, style);
+      if (side === 'right')
+        canvas.line(x + width - w / 2, y, x + width - w / 2, y + height, w, color, style);
+      edge[side] = w;
+    };
+    if (cell.borders) {
+      if (flags.isFirstRow) drawBorder('top');
+      drawBorder('right');
+      drawBorder('bottom');
+      if (flags.isFirstCol) drawBorder('left');
+    }
+
+    const padTop = cell.padding?.top ?? 1;
+    const padRight = cell.padding?.right ?? 7;
+    const padBottom = cell.padding?.bottom ?? 1;
+    const padLeft = cell.padding?.left ?? 7;
+    let contentWidth = Math.max(0, width - padLeft - padRight);
+    let contentX = x + edge.left + padLeft;
+    let contentY = y + edge.top + padTop;
+    let innerHeight = height - edge.top - edge.bottom - padTop - padBottom;
+
+    // Vertical cells draw their content in a logical box rotated into the cell
+    const direction = cell.textDirection;
+    const logicalSize = { w: innerHeight, h: contentWidth };
+    if (direction) {
+      contentWidth = logicalSize.w;
+      innerHeight = logicalSize.h;
+    }
+
+    // Split rows show only part of the cell's line units
+    const blockRanges = lines
+      ? getCellBlockRanges(cellMeasure, lines.fromLine, lines.toLine)
+      : null;
+    const lineOffset = lines ? getCellLineOffset(cell, cellMeasure, lines.fromLine) : 0;
+
+    let alignOffset = 0;
+    if (cell.verticalAlign === 'center' || cell.verticalAlign === 'bottom') {
+      let contentHeight = 0;
+      if (lines) {
+        const lineHeights = getCellLineHeights(cell, cellMeasure);
+        for (let i = lines.fromLine; i < lines.toLine; i++) contentHeight += lineHeights[i] ?? 0;
+      } else {
+        for (const measure of cellMeasure.blocks) {
+          if (measure?.kind === 'paragraph') contentHeight += measure.totalHeight;
+          else if (measure?.kind === 'table') contentHeight += measure.totalHeight;
+        }
+      }
+      const free = innerHeight - contentHeight;
+      alignOffset = cell.verticalAlign === 'center' ? free / 2 : free;
+    }
+
+    canvas.save();
+    canvas.clip(x, y, width, height);
+    if (direction) {
+      canvas.transform([1, 0, 0, 1, contentX, contentY]);
+      canvas.transform(getVerticalMatrix(direction, logicalSize));
+      contentX = 0;
+      contentY = 0;
+    }
+    contentY += alignOffset;
+    const { floatingImages, floatingZones } = collectCellFloats(cell, cellMeasure, contentWidth);
+    let cursorY = 0;
+    for (let i = 0; i < cell.blocks.length; i++) {
+      const block = cell.blocks[i];
+      const measure = cellMeasure.blocks[i];
+      const range = blockRanges?.[i];
+      if (range === null) {
+        if (measure && 'totalHeight' in measure) cursorY += measure.totalHeight;
+        continue;
+      }
+      if (block?.kind === 'paragraph' && measure?.kind === 'paragraph') {
+        const paragraphMeasure =
+          floatingZones.length > 0
+            ? this.remeasure(block, measure, contentWidth, floatingZones, cursorY)
+            : measure;
+        const lineCount = paragraphMeasure.lines.length;
+        const fromLine = Math.min(range?.fromLine ?? 0, lineCount);
+        const toLine = Math.min(range?.toLine ?? lineCount, lineCount);
+        // A paragraph continued from the previous page starts at its first shown line
+        let skipped = fromLine > 0 ? (block.attrs?.spacing?.before ?? 0) : 0;
+        for (let l = 0; l < fromLine; l++) skipped += paragraphMeasure.lines[l].lineHeight;
+        this.drawParagraph(state, block, paragraphMeasure, {
+          x: contentX,
+          y: contentY + cursorY - lineOffset + skipped,
+          width: contentWidth,
+          height: paragraphMeasure.totalHeight,
+          fromLine,
+          toLine,
+        });
+        cursorY += paragraphMeasure.totalHeight;
+      } else if (block?.kind === 'table' && measure?.kind === 'table') {
+        let tableX = contentX;
+        if (block.justification === 'center') tableX += (contentWidth - measure.totalWidth) / 2;
+        else if (block.justification === 'right') tableX += contentWidth - measure.totalWidth;
+        else if (block.indent) tableX += block.indent;
+        const rows = block.rows.map((_, index) => ({ index, firstInFragment: false }));
+        this.drawTableRows(state, block, measure, tableX, contentY + cursorY - lineOffset, rows);
+        cursorY += measure.totalHeight;
+      }
+    }
+    for (const image of floatingImages) {
+      canvas.image(
+        image.src,
+        contentX + image.x,
+        contentY + image.y - lineOffset,
+        image.width,
+        image.height,
+        {
+          transform: image.transform,
+        }
+      );
+    }
+    canvas.restore();
+  }
+
+  private drawImageFragment(
+    canvas: PageSurface,
+    fragment: Extract<Fragment, { kind: 'image' }>,
+    block: ImageBlock
+  ): void {
+    canvas.image(block.src, fragment.x, fragment.y, fragment.width, fragment.height, {
+      transform: block.transform,
+      contain: true,
+    });
+    if (block.hlinkHref) {
+      canvas.link(fragment.x, fragment.y, fragment.width, fragment.height, block.hlinkHref);
+    }
+  }
+
+  private drawTextBox(
+    state: PageState,
+    fragment: Extract<Fragment, { kind: 'textBox' }>,
+    block: TextBoxBlock,
+    measure: TextBoxMeasure
+  ): void {
+    const { canvas } = state;
+    const { x, y, width, height } = fragment;
+    canvas.fillRect(x, y, width, height, parseColor(block.fillColor));
+
+    let outline = 0;
+    if (block.outlineWidth && block.outlineWidth > 0) {
+      outline = block.outlineWidth;
+      const color = parseColor(block.outlineColor || '#000000');
+      const style = block.outlineStyle || 'solid';
+      const half = outline / 2;
+      canvas.line(x, y + half, x + width, y + half, outline, color, style);
+      canvas.line(x, y + height - half, x + width, y + height - half, outline, color, style);
+      canvas.line(x + half, y, x + half, y + height, outline, color, style);
+      canvas.line(x + width - half, y, x + width - half, y + height, outline, color, style);
+    }
+
+    const margins = block.margins ?? DEFAULT_TEXTBOX_MARGINS;
+    let innerWidth = width - margins.left - margins.right;
+    let innerX = x + outline + margins.left;
+    let innerY = y + outline + margins.top;
+    canvas.save();
+    canvas.clip(x, y, width, height);
+    if (block.textDirection) {
+      // Vertical text is drawn in a logical box rotated into the inner area
+      const logicalSize = { w: height - margins.top - margins.bottom, h: innerWidth };
+      canvas.transform([1, 0, 0, 1, innerX, innerY]);
+      canvas.transform(getVerticalMatrix(block.textDirection, logicalSize));
+      innerWidth = logicalSize.w;
+      innerX = 0;
+      innerY = 0;
+    }
+    let offsetY = 0;
+    for (let i = 0; i < block.content.length; i++) {
+      const paragraph = block.content[i];
+      const paragraphMeasure = measure.innerMeasures[i];
+      if (!paragraphMeasure) continue;
+      this.drawParagraph(state, paragraph, paragraphMeasure, {
+        x: innerX,
+        y: innerY + offsetY,
+        width: innerWidth,
+        height: paragraphMeasure.totalHeight,
+        fromLine: 0,
+        toLine: paragraphMeasure.lines.length,
+      });
+      offsetY += paragraphMeasure.totalHeight;
+    }
+    canvas.restore();
+  }
+}
+
+// ============================================================================
+// LINE HELPERS
+// ============================================================================
+
+function inlineImageKey(run: ImageRun): string {
+  return [
+    run.pmStart ?? 'no-start',
+    run.pmEnd ?? 'no-end',
+    run.src,
+    run.width,
+    run.height,
+    run.displayMode ?? 'inline',
+    run.wrapType ?? 'none',
+  ].join('|');
+}
+
+/**
+ * Text following a tab up to the next tab or line break (for center, end
+ * and decimal tab stops).
+ */
+function textAfterTab(runs: Run[], tabIndex: number, state: PageState): string {
+  let text = '';
+  for (let i = tabIndex + 1; i < runs.length; i++) {
+    const run = runs[i];
+    if (run.kind === 'text') text += run.text;
+    else if (run.kind === 'field')
+      text += resolveFieldText(run, state.pageNumber, state.totalPages);
+    else if (run.kind === 'tab' || run.kind === 'lineBreak') break;
+  }
+  return text;
+}
+
+/**
+ * Where the line's trailing spaces start — they don't stretch when justifying.
+ */
+function trailingSpaceStart(pieces: LinePiece[]): { piece: number; index: number } {
+  for (let p = pieces.length - 1; p >= 0; p--) {
+    const piece = pieces[p];
+    if (piece.kind !== 'text') return { piece: p + 1, index: 0 };
+    const trimmed = piece.text.replace(/ +$/, '');
+    if (trimmed.length > 0) return { piece: p, index: trimmed.length };
+  }
+  return { piece: 0, index: 0 };
+}
+
+function countSpaces(text: string, end?: number): number {
+  let count = 0;
+  const limit = end ?? text.length;
+  for (let i = 0; i < limit; i++) if (text[i] === ' ') count++;
+  return count;
+}
+
+function countJustifiableSpaces(pieces: LinePiece[]): number {
+  const trailing = trailingSpaceStart(pieces);
+  let count = 0;
+  for (let p = 0; p < pieces.length && p <= trailing.piece; p++) {
+    const piece = pieces[p];
+    if (piece.kind === 'text') {
+      count += countSpaces(piece.text, p === trailing.piece ? trailing.index : undefined);
+    }
+  }
+  return count;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Draw pages of a layout, each onto a surface from `createSurface`.
+ * `pageIndices` selects the pages (zero-based; default: all).
+ */
+export function drawLayoutPages<S extends PageSurface>(
+  result: LayoutPipelineResult,
+  options: PageRenderOptions,
+  createSurface: (page: Page) => S,
+  pageIndices?: number[]
+): S[] {
+  const renderer = new PageRenderer(result, options);
+  const lookup = buildBlockLookup(result.blocks, result.measures);
+  const { pages } = result.layout;
+  const indices = pageIndices ?? pages.map((_, index) => index);
+  return indices.map((index) => {
+    const page = pages[index];
+    const surface = createSurface(page);
+    renderer.renderPage(surface, page, lookup, pages.length);
+    return surface;
+  });
+}
+
+/**
+ * Draw every page of a layout. Fonts and images must already be loaded
+ * into the sets (see `collectPdfResources`).
+ */
+export function renderPdfPages(
+  result: LayoutPipelineResult,
+  options: RenderPdfPagesOptions
+): { pages: PdfPageContent[]; xObjects: PdfDict } {
+  const imageNames = new Map<string, string>();
+  const xObjects: PdfDict = {};
+  const imageName = (src: string): string | null => {
+    const existing = imageNames.get(src);
+    if (existing) return existing;
+    const image = options.images.get(src);
+    if (!image) return null;
+    const name = `Im${imageNames.size + 1}`;
+    imageNames.set(src, name);
+    xObjects[name] = image.ref;
+    return name;
+  };
+
+  const pages = drawLayoutPages(
+    result,
+    options,
+    () => new PdfPageCanvas(options.fonts, options.images, imageName)
+  ).map((canvas, index) => {
+    const { size } = result.layout.pages[index];
+    return { width: size.w, height: size.h, content: canvas.ops.join('\n'), links: canvas.links };
+  });
+  return { pages, xObjects };
+}
+
+/**
+ * Find where a document position is drawn: the page index and the top of
+ * the first fragment containing it.
+ */
+export function locateDocumentPosition(
+  result: LayoutPipelineResult,
+  pmPos: number
+): { pageIndex: number; y: number } | null {
+  const lookup = buildBlockLookup(result.blocks, result.measures);
+  const pages = result.layout.pages;
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+    for (const fragment of pages[pageIndex].fragments) {
+      const block = lookup.get(String(fragment.blockId))?.block;
+      const start = fragment.pmStart ?? (block && 'pmStart' in block ? block.pmStart : undefined);
+      const end = fragment.pmEnd ?? (block && 'pmEnd' in block ? block.pmEnd : undefined);
+      if (start === undefined || end === undefined) continue;
+      if (pmPos >= start && pmPos < end) return { pageIndex, y: fragment.y };
+    }
+  }
+  return null;
+}
@@ -9,6 +9,7 @@
 import type { Plugin as ProseMirrorPlugin } from 'prosemirror-state';
 import type { EditorView } from 'prosemirror-view';
 import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import type { ProofingProvider } from '../prosemirror/plugins/proofing';
 
 /**
  * Coordinates returned by position lookup in the rendered DOM.
@@ -143,6 +144,12 @@ export interface EditorPluginCore<TState = any> {
    */
   proseMirrorPlugins?: ProseMirrorPlugin[];
 
+  /**
+   * Grammar or style checker. It receives changed paragraphs and its matches
+   * are shown as colored underlines with quick fixes.
+   */
+  proofingProvider?: ProofingProvider;
+
   /**
    * Configuration for the panel (position, size, etc.)
    */
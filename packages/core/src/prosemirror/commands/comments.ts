@@ -6,6 +6,16 @@
 
 import type { Command } from 'prosemirror-state';
 import type { EditorState } from 'prosemirror-state';
+import type { Node as PMNode } from 'prosemirror-model';
+import type { ParagraphFormatChange } from '../schema/nodes';
+import { SUGGESTION_META } from '../plugins/suggestionMode';
+import { isFormattingMark, marksFromJSON } from '../utils/formatChanges';
+import {
+  findTableChanges,
+  getTableStructuralChange,
+  isTableInsertion,
+  removeTableNodes,
+} from '../utils/tableChanges';
 
 /**
  * Add a comment mark to the current selection.
@@ -57,12 +67,21 @@ export function removeCommentMark(commentId: number): Command {
  * Resolve a tracked change: accept or reject.
  * - Accept: keep insertions (remove mark), delete deletions (remove text)
  * - Reject: keep deletions (remove mark), delete insertions (remove text)
+ * - Format changes: accept keeps the new formatting, reject restores the previous one.
+ *   Paragraph format changes resolve when the paragraph starts inside the range.
+ * - Table rows and cells resolve like text when they start inside the range,
+ *   together with the other rows or cells of their change (e.g. a column); a
+ *   removed row or cell takes its content with it.
+ * - Moves resolve as one unit: resolving either half also resolves the text
+ *   elsewhere that carries the same `moveName`.
  */
 function resolveChange(from: number, to: number, mode: 'accept' | 'reject'): Command {
   return (state, dispatch) => {
-    const insertionType = state.schema.marks.insertion;
-    const deletionType = state.schema.marks.deletion;
-    if (!insertionType && !deletionType) return false;
+    const { schema } = state;
+    const insertionType = schema.marks.insertion;
+    const deletionType = schema.marks.deletion;
+    const formatChangeType = schema.marks.formatChange;
+    if (!insertionType && !deletionType && !formatChangeType) return false;
 
     // "keep" mark type: remove the mark but keep the text
     // "remove" mark type: remove both the mark and the text
@@ -71,26 +90,76 @@ function resolveChange(from: number, to: number, mode: 'accept' | 'reject'): Com
 
     if (dispatch) {
       const tr = state.tr;
+      tr.setMeta(SUGGESTION_META, true);
       const deleteRanges: Array<{ from: number; to: number }> = [];
+      const removedTableNodes: number[] = [];
+      const moveNames = new Set<string>();
+      const resolveTrackedText = (node: PMNode, rangeFrom: number, rangeTo: number) => {
+        if (removeType && node.marks.some((m) => m.type === removeType)) {
+          deleteRanges.push({ from: rangeFrom, to: rangeTo });
+        }
+        if (keepType && node.marks.some((m) => m.type === keepType)) {
+          tr.removeMark(rangeFrom, rangeTo, keepType);
+        }
+      };
+      for (const { pos, change } of findTableChanges(state.doc, from, to)) {
+        if (isTableInsertion(change) === (mode === 'reject')) {
+          removedTableNodes.push(pos);
+        } else {
+          tr.setNodeAttribute(pos, 'structuralChange', null);
+        }
+      }
 
       state.doc.nodesBetween(from, to, (node, pos) => {
+        if (removedTableNodes.includes(pos)) return false;
+
+        const formatChange = node.attrs.formatChange as ParagraphFormatChange | null | undefined;
+        if (formatChange && node.isTextblock && pos >= from && pos < to) {
+          const restored = mode === 'reject' ? formatChange.previous : {};
+          tr.setNodeMarkup(pos, undefined, { ...node.attrs, ...restored, formatChange: null });
+        }
+
         if (!node.isText) return;
         const nodeEnd = pos + node.nodeSize;
         const rangeFrom = Math.max(from, pos);
         const rangeTo = Math.min(to, nodeEnd);
 
-        if (removeType && node.marks.some((m) => m.type === removeType)) {
-          deleteRanges.push({ from: rangeFrom, to: rangeTo });
+        resolveTrackedText(node, rangeFrom, rangeTo);
+        for (const mark of node.marks) {
+          if (mark.attrs.moveName && (mark.type === insertionType || mark.type === deletionType)) {
+            moveNames.add(mark.attrs.moveName as string);
+          }
         }
 
-        if (keepType && node.marks.some((m) => m.type === keepType)) {
-          tr.removeMark(rangeFrom, rangeTo, keepType);
+        const formatMark = formatChangeType && formatChangeType.isInSet(node.marks);
+        if (formatMark) {
+          if (mode === 'reject') {
+            for (const mark of node.marks.filter(isFormattingMark)) {
+              tr.removeMark(rangeFrom, rangeTo, mark);
+            }
+            for (const mark of marksFromJSON(schema, formatMark.attrs.previousMarks)) {
+              tr.addMark(rangeFrom, rangeTo, mark);
+            }
+          }
+          tr.removeMark(rangeFrom, rangeTo, formatChangeType);
         }
       });
 
-      for (const range of deleteRanges.reverse()) {
+      // The other half of each move, outside the range
+      if (moveNames.size > 0) {
+        state.doc.descendants((node, pos) => {
+          if (!node.isText || !isMoveText(node, moveNames)) return;
+          const nodeEnd = pos + node.nodeSize;
+          if (pos < from) resolveTrackedText(node, pos, Math.min(nodeEnd, from));
+          if (nodeEnd > to) resolveTrackedText(node, Math.max(pos, to), nodeEnd);
+        });
+      }
+
+      deleteRanges.sort((a, b) => b.from - a.from);
+      for (const range of deleteRanges) {
         tr.delete(range.from, range.to);
       }
+      removeTableNodes(tr, state.doc, removedTableNodes);
 
       if (tr.steps.length > 0) {
         dispatch(tr);
@@ -100,6 +169,17 @@ function resolveChange(from: number, to: number, mode: 'accept' | 'reject'): Com
   };
 }
 
+/**
+ * Whether text is part of one of the given moves
+ */
+function isMoveText(node: PMNode, moveNames: Set<string>): boolean {
+  return node.marks.some(
+    (m) =>
+      (m.type.name === 'insertion' || m.type.name === 'deletion') &&
+      moveNames.has(m.attrs.moveName as string)
+  );
+}
+
 /**
  * Accept a tracked change at the given range.
  * - Insertion: remove mark, keep text
@@ -139,33 +219,48 @@ export function rejectAllChanges(): Command {
 interface ChangeRange {
   from: number;
   to: number;
-  type: 'insertion' | 'deletion';
+  type: 'insertion' | 'deletion' | 'format';
+}
+
+function getChangeType(state: EditorState, node: PMNode): ChangeRange['type'] | null {
+  if (!node.isText) {
+    if (node.attrs.formatChange) return 'format';
+    const structuralChange = getTableStructuralChange(node);
+    if (structuralChange) return isTableInsertion(structuralChange) ? 'insertion' : 'deletion';
+    return null;
+  }
+  const { insertion, deletion, formatChange } = state.schema.marks;
+  for (const mark of node.marks) {
+    if (mark.type === insertion) return 'insertion';
+    if (mark.type === deletion) return 'deletion';
+    if (mark.type === formatChange) return 'format';
+  }
+  return null;
 }
 
 /**
  * Find the next tracked change after the given position.
  */
 export function findNextChange(state: EditorState, startPos: number): ChangeRange | null {
-  const insertionType = state.schema.marks.insertion;
-  const deletionType = state.schema.marks.deletion;
-  if (!insertionType && !deletionType) return null;
-
   let result: ChangeRange | null = null;
 
   state.doc.descendants((node, pos) => {
     if (result) return false;
-    if (!node.isText) return;
-    if (pos + node.nodeSize <= startPos) return;
-
-    for (const mark of node.marks) {
-      if (mark.type === insertionType || mark.type === deletionType) {
-        result = {
-          from: Math.max(pos, startPos),
-          to: pos + node.nodeSize,
-          type: mark.type === insertionType ? 'insertion' : 'deletion',
-        };
+    if (!node.isText) {
+      // Paragraph format changes and table structure changes span the node's opening token
+      const type = pos >= startPos ? getChangeType(state, node) : null;
+      if (type) {
+        result = { from: pos, to: pos + 1, type };
         return false;
       }
+      return;
+    }
+    if (pos + node.nodeSize <= startPos) return;
+
+    const type = getChangeType(state, node);
+    if (type) {
+      result = { from: Math.max(pos, startPos), to: pos + node.nodeSize, type };
+      return false;
     }
   });
 
@@ -181,25 +276,15 @@ export function findNextChange(state: EditorState, startPos: number): ChangeRang
  * Find the previous tracked change before the given position.
  */
 export function findPreviousChange(state: EditorState, startPos: number): ChangeRange | null {
-  const insertionType = state.schema.marks.insertion;
-  const deletionType = state.schema.marks.deletion;
-  if (!insertionType && !deletionType) return null;
-
   let result: ChangeRange | null = null;
 
   state.doc.descendants((node, pos) => {
-    if (!node.isText) return;
     if (pos >= startPos) return false;
-
-    for (const mark of node.marks) {
-      if (mark.type === insertionType || mark.type === deletionType) {
-        result = {
-          from: pos,
-          to: pos + node.nodeSize,
-          type: mark.type === insertionType ? 'insertion' : 'deletion',
-        };
-      }
-    }
+    const type = getChangeType(state, node);
+    if (!type) return;
+    result = node.isText
+      ? { from: pos, to: pos + node.nodeSize, type }
+      : { from: pos, to: pos + 1, type };
   });
 
   // Wrap around (only once — guard prevents infinite recursion)
@@ -0,0 +1,75 @@
+/**
+ * Data Binding Commands
+ */
+
+import type { Command } from 'prosemirror-state';
+import type { Node as PMNode } from 'prosemirror-model';
+import type { Document } from '../../types/document';
+import { applyBoundData } from '../../docx/dataBinding';
+import { fromProseDoc } from '../conversion/fromProseDoc';
+import { toProseDoc } from '../conversion/toProseDoc';
+
+export interface RefreshBoundControlsOptions {
+  /** Document holding the custom XML parts the controls are bound to */
+  document?: Document | null;
+}
+
+/**
+ * Show the data of the document's custom XML parts in the bound content
+ * controls of the body.
+ *
+ * Pass a document with new part content to repopulate a form. Headers and
+ * footers aren't part of the ProseMirror document — update those with
+ * `applyBoundData` on the Document model.
+ */
+export function refreshBoundControls(options: RefreshBoundControlsOptions = {}): Command {
+  return (state, dispatch) => {
+    const sdtType = state.schema.nodes.sdt;
+    if (!sdtType) return false;
+
+    const controls: { node: PMNode; pos: number }[] = [];
+    state.doc.descendants((node, pos) => {
+      if (node.type === sdtType) controls.push({ node, pos });
+    });
+    if (!controls.some(({ node }) => node.attrs.dataBinding)) return false;
+    if (!dispatch) return true;
+
+    // Bind on a snapshot of the body; other parts of the base stay untouched
+    const snapshot = fromProseDoc(state.doc, options.document ?? undefined);
+    snapshot.package = {
+      ...snapshot.package,
+      headers: undefined,
+      footers: undefined,
+      footnotes: undefined,
+      endnotes: undefined,
+    };
+    if (applyBoundData(snapshot) === 0) return true;
+
+    // Pair the rebuilt controls with the current ones, both in document order
+    const rebuilt: PMNode[] = [];
+    toProseDoc(snapshot, { styles: snapshot.package.styles }).descendants((node) => {
+      if (node.type.name === sdtType.name) rebuilt.push(node);
+    });
+    if (rebuilt.length !== controls.length) return false;
+
+    const tr = state.tr;
+    controls.forEach(({ node, pos }, i) => {
+      const next = rebuilt[i];
+      if (!node.attrs.dataBinding || !changed(node, next)) return;
+      const from = tr.mapping.map(pos);
+      tr.replaceWith(from, from + node.nodeSize, sdtType.create(next.attrs, next.content));
+    });
+
+    if (tr.docChanged) dispatch(tr);
+    return true;
+  };
+}
+
+function changed(node: PMNode, next: PMNode): boolean {
+  return (
+    node.textContent !== next.textContent ||
+    node.attrs.checked !== next.attrs.checked ||
+    node.attrs.dateFormat !== next.attrs.dateFormat ||
+    node.attrs.showingPlaceholder !== next.attrs.showingPlaceholder
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Equation Commands
+ */
+
+import type { Command } from 'prosemirror-state';
+import { NodeSelection, TextSelection } from 'prosemirror-state';
+import { createEquationOmml } from '../../math/linearMath';
+
+export interface InsertEquationOptions {
+  /** Equation in the LaTeX-like linear format (e.g. `\frac{a}{b}`) */
+  latex?: string;
+  /** Equation as OMML — takes precedence over `latex` */
+  ommlXml?: string;
+  /** Inline or block (own paragraph); default inline */
+  display?: 'inline' | 'block';
+}
+
+/**
+ * Insert a math equation at the cursor, or replace the selected equation.
+ *
+ * Inline equations replace the selection like typed text. Block equations go
+ * into the current paragraph when it's empty, otherwise into a new paragraph
+ * (splitting the current one when the cursor is mid-text).
+ */
+export function insertEquation(options: InsertEquationOptions): Command {
+  return (state, dispatch) => {
+    const mathType = state.schema.nodes.math;
+    const paragraphType = state.schema.nodes.paragraph;
+    if (!mathType || !paragraphType) return false;
+
+    const display = options.display ?? 'inline';
+    const { ommlXml, plainText } = createEquationOmml(options, display);
+    if (!ommlXml) return false;
+
+    if (!dispatch) return true;
+
+    const mathNode = mathType.create({ display, ommlXml, plainText });
+    const tr = state.tr;
+    const { selection } = state;
+
+    // Editing an existing equation — swap it in place
+    if (selection instanceof NodeSelection && selection.node.type === mathType) {
+      tr.replaceWith(selection.from, selection.to, mathNode);
+      tr.setSelection(NodeSelection.create(tr.doc, selection.from));
+      dispatch(tr.scrollIntoView());
+      return true;
+    }
+
+    if (display === 'inline') {
+      tr.replaceSelectionWith(mathNode);
+      dispatch(tr.scrollIntoView());
+      return true;
+    }
+
+    if (!selection.empty) tr.deleteSelection();
+    const $from = tr.selection.$from;
+    let cursorPos: number;
+
+    if (!$from.parent.isTextblock) {
+      const pos = $from.pos;
+      tr.insert(pos, paragraphType.create(null, mathNode));
+      cursorPos = pos + 1 + mathNode.nodeSize;
+    } else if ($from.parent.content.size === 0) {
+      // Empty paragraph: the equation becomes its content
+      tr.insert($from.pos, mathNode);
+      cursorPos = $from.pos + mathNode.nodeSize;
+    } else if ($from.parentOffset === 0) {
+      const before = $from.before();
+      tr.insert(before, paragraphType.create(null, mathNode));
+      cursorPos = before + 1 + mathNode.nodeSize;
+    } else if ($from.parentOffset === $from.parent.content.size) {
+      const after = $from.after();
+      tr.insert(after, paragraphType.create(null, mathNode));
+      cursorPos = after + 1 + mathNode.nodeSize;
+    } else {
+      // Mid-text: split the paragraph and put the equation between the halves
+      tr.split($from.pos);
+      const mappedPos = tr.mapping.map($from.pos);
+      // mappedPos is the start of the second half's content; its paragraph opens one before
+      const insertAt = mappedPos - 1;
+      tr.insert(insertAt, paragraphType.create(null, mathNode));
+      cursorPos = insertAt + 1 + mathNode.nodeSize;
+    }
+
+    tr.setSelection(TextSelection.create(tr.doc, cursorPos));
+    dispatch(tr.scrollIntoView());
+    return true;
+  };
+}
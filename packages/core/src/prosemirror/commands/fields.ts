@@ -0,0 +1,92 @@
+/**
+ * Field Commands
+ */
+
+import type { Command } from 'prosemirror-state';
+import type { Node as PMNode } from 'prosemirror-model';
+import type { Document } from '../../types/document';
+import { updateFields, type UpdateFieldsOptions } from '../../docx/fields';
+import { fromProseDoc } from '../conversion/fromProseDoc';
+
+export interface UpdateAllFieldsOptions extends Omit<UpdateFieldsOptions, 'parts' | 'resolvePage'> {
+  /** Document the editor was loaded from — supplies styles and properties */
+  document?: Document | null;
+  /** Page number (1-based) of a document position, from the current layout */
+  getPageAt?: (pos: number) => number | undefined;
+}
+
+/**
+ * Recompute every field in the body ("Update all fields").
+ *
+ * Results are written into the field nodes' display text; locked fields keep
+ * theirs. PAGEREF fields need `getPageAt` to find bookmark pages. Headers and
+ * footers aren't part of the ProseMirror document — update those with
+ * `updateFields` on the Document model.
+ */
+export function updateAllFields(options: UpdateAllFieldsOptions = {}): Command {
+  return (state, dispatch) => {
+    const fieldType = state.schema.nodes.field;
+    if (!fieldType) return false;
+
+    const fieldNodes: { node: PMNode; pos: number }[] = [];
+    state.doc.descendants((node, pos) => {
+      if (node.type === fieldType) fieldNodes.push({ node, pos });
+    });
+    if (fieldNodes.length === 0) return false;
+    if (!dispatch) return true;
+
+    // Evaluate on a snapshot of the body; other parts of the base stay untouched
+    const { document, getPageAt, ...evaluationOptions } = options;
+    const snapshot = fromProseDoc(state.doc, document ?? undefined);
+    snapshot.package = {
+      ...snapshot.package,
+      headers: undefined,
+      footers: undefined,
+      footnotes: undefined,
+      endnotes: undefined,
+    };
+
+    const updates = updateFields(snapshot, {
+      ...evaluationOptions,
+      resolvePage: getPageAt
+        ? (name) => {
+            const pos = findBookmarkPosition(state.doc, name);
+            return pos === undefined ? undefined : getPageAt(pos);
+          }
+        : undefined,
+    }).filter((update) => update.part === 'body');
+
+    // Pair the model's fields with the field nodes, both in document order
+    const tr = state.tr;
+    let next = 0;
+    for (const { node, pos } of fieldNodes) {
+      const index = updates.findIndex(
+        (update, i) => i >= next && update.field.instruction === node.attrs.instruction
+      );
+      if (index < 0) continue;
+      next = index + 1;
+
+      const { result } = updates[index];
+      if (result === undefined || node.attrs.fldLock) continue;
+      if (result === node.attrs.displayText && !node.attrs.dirty) continue;
+      tr.setNodeMarkup(pos, undefined, { ...node.attrs, displayText: result, dirty: false });
+    }
+
+    if (tr.docChanged) dispatch(tr);
+    return true;
+  };
+}
+
+function findBookmarkPosition(doc: PMNode, name: string): number | undefined {
+  let found: number | undefined;
+  doc.descendants((node, pos) => {
+    if (found !== undefined) return false;
+    const bookmarks = node.attrs.bookmarks as Array<{ name: string }> | undefined;
+    if (node.type.name === 'paragraph' && bookmarks?.some((b) => b.name === name)) {
+      found = pos;
+      return false;
+    }
+    return true;
+  });
+  return found;
+}
@@ -114,8 +114,21 @@ export type { TableContextInfo, BorderPreset } from './table';
 // Page break
 export { insertPageBreak } from './pageBreak';
 
+// Equations
+export { insertEquation } from './equation';
+export type { InsertEquationOptions } from './equation';
+
 // Table of Contents
-export { generateTOC } from './paragraph';
+export { generateTOC, insertTableOfContents, updateTableOfContents } from './tableOfContents';
+export type { TableOfContentsOptions } from './tableOfContents';
+
+// Fields
+export { updateAllFields } from './fields';
+export type { UpdateAllFieldsOptions } from './fields';
+
+// Data binding
+export { refreshBoundControls } from './dataBinding';
+export type { RefreshBoundControlsOptions } from './dataBinding';
 
 // Comments and Track Changes
 export {
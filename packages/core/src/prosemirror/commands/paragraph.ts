@@ -110,6 +110,3 @@ export function removeTabStop(position: number): Command {
 // Text direction
 export const setRtl: Command = cmds.setRtl();
 export const setLtr: Command = cmds.setLtr();
-
-// Table of Contents
-export const generateTOC: Command = cmds.generateTOC();
@@ -0,0 +1,145 @@
+/**
+ * Tests for table of contents commands
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import type { Node as PMNode } from 'prosemirror-model';
+import type { Paragraph } from '../../types/document';
+import { createEmptyDocument } from '../../utils/createDocument';
+import { toProseDoc } from '../conversion/toProseDoc';
+import { fromProseDoc } from '../conversion/fromProseDoc';
+import { insertTableOfContents, updateTableOfContents } from './tableOfContents';
+
+function paragraph(text: string, styleId?: string): Paragraph {
+  return {
+    type: 'paragraph',
+    ...(styleId ? { formatting: { styleId } } : {}),
+    content: text ? [{ type: 'run', content: [{ type: 'text', text }] }] : [],
+  };
+}
+
+function createState(paragraphs: Paragraph[]): EditorState {
+  const document = createEmptyDocument();
+  document.package.document.content = paragraphs;
+  const state = EditorState.create({ doc: toProseDoc(document) });
+  // Cursor in the first (empty) paragraph
+  return state.apply(state.tr.setSelection(TextSelection.create(state.doc, 1)));
+}
+
+function run(state: EditorState, command: ReturnType<typeof insertTableOfContents>): EditorState {
+  let next = state;
+  command(state, (tr) => {
+    next = state.apply(tr);
+  });
+  return next;
+}
+
+function describeBlock(node: PMNode): string {
+  const parts: string[] = [];
+  node.forEach((child) => {
+    if (child.isText) parts.push(child.text ?? '');
+    else if (child.type.name === 'tab') parts.push('\t');
+    else if (child.type.name === 'field') parts.push(`[${child.attrs.displayText}]`);
+  });
+  return parts.join('');
+}
+
+function tocBlocks(state: EditorState): string[] {
+  const blocks: string[] = [];
+  state.doc.forEach((node) => {
+    if (node.attrs.tableOfContents) blocks.push(describeBlock(node));
+  });
+  return blocks;
+}
+
+const PAGES: Record<string, number> = { Introduction: 1, Scope: 2, Results: 4 };
+
+function getPageAt(state: EditorState) {
+  return (pos: number) => PAGES[describeBlock(state.doc.nodeAt(pos)!)];
+}
+
+describe('insertTableOfContents', () => {
+  const start = createState([
+    paragraph(''),
+    paragraph('Introduction', 'Heading1'),
+    paragraph('Scope', 'Heading2'),
+    paragraph('Detail', 'Heading3'),
+    paragraph('Results', 'Heading1'),
+  ]);
+
+  test('lists headings with page numbers and bookmarks them', () => {
+    const state = run(
+      start,
+      insertTableOfContents({ toLevel: 2, title: 'Contents', getPageAt: getPageAt(start) })
+    );
+
+    expect(tocBlocks(state)).toEqual([
+      'Contents',
+      'Introduction\t[1]',
+      'Scope\t[2]',
+      'Results\t[4]',
+    ]);
+
+    const entry = state.doc.child(1);
+    expect(entry.attrs.styleId).toBe('TOC1');
+    expect(entry.attrs.tabs).toEqual([{ position: 9360, alignment: 'right', leader: 'dot' }]);
+    expect(entry.attrs.tableOfContents).toEqual({
+      instruction: 'TOC \\o "1-2" \\h \\z \\u',
+      docPart: true,
+    });
+
+    const heading = state.doc.child(4);
+    const bookmark = heading.attrs.bookmarks[0].name as string;
+    expect(bookmark).toMatch(/^_Toc\d{9}$/);
+    expect(entry.child(0).marks[0].attrs.href).toBe(`#${bookmark}`);
+    expect(entry.child(2).attrs.instruction).toBe(`PAGEREF ${bookmark} \\h`);
+  });
+
+  test('updates in place after headings change', () => {
+    let state = run(start, insertTableOfContents({ getPageAt: getPageAt(start) }));
+    const bookmarks = tocBookmarks(state);
+
+    // Rename a heading and drop another
+    const results = findBlock(state, 'Results');
+    state = state.apply(state.tr.insertText('Final results', results + 1, results + 8));
+    const scope = findBlock(state, 'Scope');
+    state = state.apply(state.tr.delete(scope, scope + state.doc.nodeAt(scope)!.nodeSize));
+
+    state = run(state, updateTableOfContents({ getPageAt: () => 7 }));
+    expect(tocBlocks(state)).toEqual(['Introduction\t[7]', 'Detail\t[7]', 'Final results\t[7]']);
+    // Headings keep the bookmarks the TOC first gave them
+    expect(tocBookmarks(state)).toEqual([bookmarks[0], bookmarks[2], bookmarks[3]]);
+  });
+
+  test('survives the trip to the document model', () => {
+    const state = run(start, insertTableOfContents({ pageNumbers: false, tabLeader: 'hyphen' }));
+    const document = fromProseDoc(state.doc);
+    const toc = (document.package.document.content as Paragraph[]).filter((p) => p.tableOfContents);
+
+    expect(toc).toHaveLength(4);
+    expect(toc[0].tableOfContents?.instruction).toBe('TOC \\o "1-3" \\h \\n "1-3" \\z \\u');
+    expect(toc[0].content[0]).toMatchObject({ type: 'hyperlink' });
+  });
+
+  test('says so when there are no headings', () => {
+    const state = run(createState([paragraph('')]), insertTableOfContents());
+    expect(tocBlocks(state)).toEqual(['No table of contents entries found.']);
+  });
+});
+
+function findBlock(state: EditorState, text: string): number {
+  let found = -1;
+  state.doc.forEach((node, offset) => {
+    if (found < 0 && !node.attrs.tableOfContents && describeBlock(node) === text) found = offset;
+  });
+  return found;
+}
+
+function tocBookmarks(state: EditorState): string[] {
+  const names: string[] = [];
+  state.doc.forEach((node) => {
+    for (const bookmark of node.attrs.bookmarks ?? []) names.push(bookmark.name);
+  });
+  return names;
+}
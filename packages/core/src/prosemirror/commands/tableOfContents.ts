@@ -0,0 +1,330 @@
+/**
+ * Table of Contents Commands
+ *
+ * A table of contents is a run of top-level paragraphs carrying the
+ * `tableOfContents` attr: an optional title followed by one entry per heading.
+ * Entries are the heading text (linked to a `_Toc` bookmark on the heading),
+ * a right tab with a leader and a PAGEREF field holding the page number.
+ * The paragraphs are written back to DOCX as one TOC field.
+ */
+
+import type { Command, EditorState, Transaction } from 'prosemirror-state';
+import { Fragment, type Node as PMNode } from 'prosemirror-model';
+import type { TabLeader, TabStop, TableOfContentsInfo } from '../../types/document';
+import {
+  DEFAULT_TOC_OPTIONS,
+  buildTocInstruction,
+  parseTocInstruction,
+  type TocFieldOptions,
+} from '../../docx/fields/toc';
+import { collectHeadings, type HeadingInfo } from '../../utils/headingCollector';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TableOfContentsOptions extends Partial<TocFieldOptions> {
+  /** Leader between entry text and page number (default: dot) */
+  tabLeader?: TabLeader;
+  /** Title paragraph above the entries; none when empty */
+  title?: string;
+  /** Position of the page number tab stop in twips (default: 6.5in) */
+  rightTabPosition?: number;
+  /** Page number (1-based) of a document position, from the current layout */
+  getPageAt?: (pos: number) => number | undefined;
+}
+
+/** Shown in place of entries when the document has no headings in range */
+const NO_ENTRIES_TEXT = 'No table of contents entries found.';
+
+const DEFAULT_RIGHT_TAB = 9360;
+
+interface TocRange {
+  from: number;
+  to: number;
+  info: TableOfContentsInfo;
+  titles: PMNode[];
+  entries: PMNode[];
+}
+
+interface EntrySettings extends TocFieldOptions {
+  tabLeader: TabLeader;
+  rightTabPosition: number;
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Insert a table of contents before or after the block holding the cursor,
+ * or rebuild the one the cursor is in with the given options.
+ */
+export function insertTableOfContents(options: TableOfContentsOptions = {}): Command {
+  return (state, dispatch) => {
+    if (!state.schema.nodes.field) return false;
+    if (!dispatch) return true;
+
+    const settings: EntrySettings = {
+      ...DEFAULT_TOC_OPTIONS,
+      tabLeader: 'dot',
+      rightTabPosition: DEFAULT_RIGHT_TAB,
+      ...definedOptions(options),
+    };
+    const info: TableOfContentsInfo = { instruction: buildTocInstruction(settings), docPart: true };
+    const tr = state.tr;
+
+    const cursor = state.selection.from;
+    const existing = findTableOfContents(state.doc).find(
+      (range) => cursor >= range.from && cursor <= range.to
+    );
+    if (existing) {
+      const titles = existing.titles.map((node) =>
+        node.type.create({ ...node.attrs, tableOfContents: { ...info, title: true } }, node.content)
+      );
+      const entries = buildEntries(state, tr, info, settings, options.getPageAt);
+      tr.replaceWith(existing.from, existing.to, Fragment.from([...titles, ...entries]));
+      dispatch(tr.scrollIntoView());
+      return true;
+    }
+
+    const { schema } = state;
+    const nodes: PMNode[] = [];
+    if (options.title) {
+      nodes.push(
+        schema.node(
+          'paragraph',
+          { styleId: 'TOCHeading', tableOfContents: { ...info, title: true } },
+          [schema.text(options.title, [schema.marks.bold.create()])]
+        )
+      );
+    }
+    nodes.push(...buildEntries(state, tr, info, settings, options.getPageAt));
+
+    // Insert at a top-level block boundary; an empty paragraph is replaced
+    const $from = state.selection.$from;
+    const block = $from.node(1);
+    if (block && block.type.name === 'paragraph' && block.content.size === 0) {
+      tr.replaceWith($from.before(1), $from.after(1), Fragment.from(nodes));
+    } else if (block && $from.depth === 1 && $from.parentOffset === 0) {
+      tr.insert($from.before(1), Fragment.from(nodes));
+    } else {
+      tr.insert($from.depth > 0 ? $from.after(1) : cursor, Fragment.from(nodes));
+    }
+    dispatch(tr.scrollIntoView());
+    return true;
+  };
+}
+
+/**
+ * Rebuild every table of contents from the current headings, keeping each
+ * one's levels, title and tab settings. Locked TOCs are left alone.
+ */
+export function updateTableOfContents(
+  options: Pick<TableOfContentsOptions, 'getPageAt'> = {}
+): Command {
+  return (state, dispatch) => {
+    const ranges = findTableOfContents(state.doc).filter((range) => !range.info.fldLock);
+    if (ranges.length === 0) return false;
+    if (!dispatch) return true;
+
+    const tr = state.tr;
+    // Last to first, so earlier ranges keep their positions
+    for (const range of ranges.reverse()) {
+      const info: TableOfContentsInfo = {
+        instruction: range.info.instruction,
+        ...(range.info.docPart ? { docPart: true } : {}),
+      };
+      const pageTab = findPageTab(range.entries);
+      const settings: EntrySettings = {
+        ...parseTocInstruction(info.instruction),
+        tabLeader: pageTab?.leader ?? 'dot',
+        rightTabPosition: pageTab?.position ?? DEFAULT_RIGHT_TAB,
+      };
+      const entries = buildEntries(state, tr, info, settings, options.getPageAt);
+      const from = tr.mapping.map(range.from);
+      const to = tr.mapping.map(range.to);
+      tr.replaceWith(from, to, Fragment.from([...range.titles, ...entries]));
+    }
+
+    if (tr.docChanged) dispatch(tr);
+    return true;
+  };
+}
+
+/**
+ * Insert a table of contents of heading levels 1-3 (kept for the toolbar and
+ * existing callers)
+ */
+export const generateTOC: Command = insertTableOfContents();
+
+// ============================================================================
+// TOC RANGES
+// ============================================================================
+
+/**
+ * Find the tables of contents among the document's top-level paragraphs
+ */
+function findTableOfContents(doc: PMNode): TocRange[] {
+  const ranges: TocRange[] = [];
+  let current: TocRange | null = null;
+
+  doc.forEach((node, offset) => {
+    const info = node.attrs.tableOfContents as TableOfContentsInfo | null | undefined;
+    const continues =
+      current &&
+      info &&
+      info.instruction === current.info.instruction &&
+      !(info.title && current.entries.length > 0);
+
+    if (!info) {
+      current = null;
+      return;
+    }
+    if (!continues) {
+      current = { from: offset, to: offset, info, titles: [], entries: [] };
+      ranges.push(current);
+    }
+    const range = current as TocRange;
+    if (info.title) range.titles.push(node);
+    else range.entries.push(node);
+    range.to = offset + node.nodeSize;
+  });
+
+  return ranges;
+}
+
+function findPageTab(entries: PMNode[]): TabStop | undefined {
+  for (const entry of entries) {
+    const tabs = entry.attrs.tabs as TabStop[] | null;
+    const tab = tabs?.find((t) => t.alignment === 'right');
+    if (tab) return tab;
+  }
+  return undefined;
+}
+
+// ============================================================================
+// ENTRIES
+// ============================================================================
+
+/**
+ * Build the entry paragraphs for the headings in range, giving headings a
+ * `_Toc` bookmark in `tr` where they don't have one yet
+ */
+function buildEntries(
+  state: EditorState,
+  tr: Transaction,
+  info: TableOfContentsInfo,
+  settings: EntrySettings,
+  getPageAt?: (pos: number) => number | undefined
+): PMNode[] {
+  const { schema } = state;
+  const headings = collectHeadings(state.doc).filter(
+    (heading) =>
+      heading.level + 1 >= settings.fromLevel &&
+      heading.level + 1 <= settings.toLevel &&
+      !state.doc.nodeAt(heading.pmPos)?.attrs.tableOfContents
+  );
+
+  if (headings.length === 0) {
+    return [schema.node('paragraph', { tableOfContents: info }, [schema.text(NO_ENTRIES_TEXT)])];
+  }
+
+  const bookmarks = new BookmarkAllocator(tr.doc);
+  return headings.map((heading) => {
+    const name = bookmarks.ensure(tr, heading);
+    const page = getPageAt?.(heading.pmPos);
+    const indent = heading.level * 720;
+
+    const content: PMNode[] = [
+      schema.text(
+        heading.text,
+        settings.hyperlinks ? [schema.marks.hyperlink.create({ href: `#${name}` })] : []
+      ),
+    ];
+    if (settings.pageNumbers) {
+      content.push(
+        schema.nodes.tab.create(),
+        schema.nodes.field.create({
+          fieldType: 'PAGEREF',
+          instruction: `PAGEREF ${name} \\h`,
+          displayText: page === undefined ? '' : String(page),
+          fieldKind: 'complex',
+        })
+      );
+    }
+
+    return schema.node(
+      'paragraph',
+      {
+        styleId: `TOC${heading.level + 1}`,
+        indentLeft: indent > 0 ? indent : null,
+        tabs: settings.pageNumbers
+          ? [
+              {
+                position: settings.rightTabPosition,
+                alignment: 'right',
+                leader: settings.tabLeader,
+              },
+            ]
+          : null,
+        tableOfContents: info,
+      },
+      content
+    );
+  });
+}
+
+/**
+ * Hands out `_Toc` bookmarks, reusing the one a heading already has
+ */
+class BookmarkAllocator {
+  private names = new Set<string>();
+  private nextId = 0;
+
+  constructor(doc: PMNode) {
+    doc.descendants((node) => {
+      const bookmarks = node.attrs.bookmarks as Array<{ id: number; name: string }> | null;
+      for (const bookmark of bookmarks ?? []) {
+        this.names.add(bookmark.name);
+        this.nextId = Math.max(this.nextId, bookmark.id + 1);
+      }
+      return node.isBlock;
+    });
+  }
+
+  ensure(tr: Transaction, heading: HeadingInfo): string {
+    const pos = tr.mapping.map(heading.pmPos);
+    const node = tr.doc.nodeAt(pos);
+    const bookmarks = (node?.attrs.bookmarks as Array<{ id: number; name: string }> | null) ?? [];
+    const existing = bookmarks.find((b) => b.name.startsWith('_Toc'));
+    if (existing) return existing.name;
+
+    let name: string;
+    do {
+      name = `_Toc${Math.floor(100000000 + Math.random() * 900000000)}`;
+    } while (this.names.has(name));
+    this.names.add(name);
+
+    tr.setNodeMarkup(pos, undefined, {
+      ...node!.attrs,
+      bookmarks: [...bookmarks, { id: this.nextId++, name }],
+    });
+    return name;
+  }
+}
+
+function definedOptions(options: TableOfContentsOptions): Partial<EntrySettings> {
+  const defined: Partial<EntrySettings> = {};
+  for (const key of [
+    'fromLevel',
+    'toLevel',
+    'hyperlinks',
+    'pageNumbers',
+    'tabLeader',
+    'rightTabPosition',
+  ] as const) {
+    if (options[key] !== undefined) (defined as Record<string, unknown>)[key] = options[key];
+  }
+  return defined;
+}
@@ -10,7 +10,7 @@
  * - Handle marks -> TextFormatting conversion
  */
 
-import type { Node as PMNode, Mark } from 'prosemirror-model';
+import { Mark, type Node as PMNode } from 'prosemirror-model';
 import { pixelsToEmu } from '../../docx/imageParser';
 import type {
   Document,
@@ -42,8 +42,12 @@ import type {
   InlineSdt,
   SdtProperties,
   TrackedChangeInfo,
+  RunPropertyChange,
   MathEquation,
+  PermissionStart,
 } from '../../types/document';
+import { mergePermissionRanges } from '../../docx/permissionRanges';
+import { addMoveRanges } from '../../docx/moveRanges';
 import type {
   ParagraphAttrs,
   ImageAttrs,
@@ -52,12 +56,15 @@ import type {
   TableCellAttrs,
 } from '../schema/nodes';
 import type { TextColorAttrs, UnderlineAttrs, FontFamilyAttrs } from '../schema/marks';
+import { marksFromJSON, type MarkJSON } from '../utils/formatChanges';
 
 /**
  * Convert a ProseMirror document to our Document type
  */
 export function fromProseDoc(pmDoc: PMNode, baseDocument?: Document): Document {
   const blocks = extractBlocks(pmDoc);
+  mergePermissionRanges(blocks);
+  addMoveRanges(blocks);
 
   // Preserve section properties (margins, headers, footers) from base document
   const documentBody: DocumentBody = {
@@ -144,6 +151,20 @@ function convertPMParagraph(node: PMNode, documentCounts?: TrackedChangeCounts):
     content = [...starts, ...content, ...ends];
   }
 
+  // A paragraph-wide editable region sits inside the bookmarks
+  if (attrs.permission) {
+    const { id } = attrs.permission;
+    const start: PermissionStart = { type: 'permStart', ...attrs.permission };
+    const bookmarkCount = bookmarks?.length ?? 0;
+    content = [
+      ...content.slice(0, bookmarkCount),
+      start,
+      ...content.slice(bookmarkCount, content.length - bookmarkCount),
+      { type: 'permEnd', id },
+      ...content.slice(content.length - bookmarkCount),
+    ];
+  }
+
   const paragraph: Paragraph = {
     type: 'paragraph',
     paraId: attrs.paraId || undefined,
@@ -162,6 +183,22 @@ function convertPMParagraph(node: PMNode, documentCounts?: TrackedChangeCounts):
     };
   }
 
+  if (attrs.tableOfContents) {
+    paragraph.tableOfContents = attrs.tableOfContents;
+  }
+
+  // Tracked paragraph property change (w:pPrChange)
+  if (attrs.formatChange) {
+    const { revisionId, author, date, previous } = attrs.formatChange;
+    paragraph.propertyChanges = [
+      {
+        type: 'paragraphPropertyChange',
+        info: { id: revisionId, author: author || 'Unknown', date: date || undefined },
+        previousFormatting: paragraphAttrsToFormatting({ ...attrs, ...previous }) ?? {},
+      },
+    ];
+  }
+
   return paragraph;
 }
 
@@ -189,7 +226,7 @@ function insertCommentRanges(content: ParagraphContent[], paragraph: PMNode): Pa
   // and wrap with commentRangeStart/End
   const result: ParagraphContent[] = [];
   const openedComments = new Set<number>();
-  let nodeIndex = 0;
+  let contentIndex = 0;
 
   paragraph.forEach((node) => {
     const nodeCommentIds = new Set<number>();
@@ -216,14 +253,18 @@ function insertCommentRanges(content: ParagraphContent[], paragraph: PMNode): Pa
       }
     }
 
-    // Push the actual content item
-    if (nodeIndex < content.length) {
-      result.push(content[nodeIndex]);
+    // Push the actual content item, with any editable region markers before it
+    while (contentIndex < content.length && isPermissionMarker(content[contentIndex])) {
+      result.push(content[contentIndex++]);
+    }
+    if (contentIndex < content.length) {
+      result.push(content[contentIndex++]);
     }
-
-    nodeIndex++;
   });
 
+  // Markers after the last item (a closing permEnd)
+  result.push(...content.slice(contentIndex));
+
   // Close any remaining open comments
   for (const cid of openedComments) {
     result.push({ type: 'commentRangeEnd', id: cid });
@@ -232,6 +273,10 @@ function insertCommentRanges(content: ParagraphContent[], paragraph: PMNode): Pa
   return result;
 }
 
+function isPermissionMarker(item: ParagraphContent): boolean {
+  return item.type === 'permStart' || item.type === 'permEnd';
+}
+
 function paragraphAttrsToFormatting(attrs: ParagraphAttrs): ParagraphFormatting | undefined {
   // If we have the original inline formatting from the DOCX, use it as a base
   // for lossless round-trip. This preserves properties like contextualSpacing,
@@ -331,8 +376,31 @@ function extractParagraphContent(
   let currentRun: Run | null = null;
   let currentMarksKey: string | null = null;
   let currentHyperlink: Hyperlink | null = null;
+  // Editable regions (permission marks) open at the current position
+  let openPermissions: Mark[] = [];
 
   paragraph.forEach((node) => {
+    // Editable region boundaries end the current run/hyperlink
+    const nodePermissions = node.marks.filter((m) => m.type.name === 'permission');
+    if (!Mark.sameSet(openPermissions, nodePermissions)) {
+      if (currentRun) {
+        content.push(currentRun);
+        currentRun = null;
+        currentMarksKey = null;
+      }
+      if (currentHyperlink) {
+        content.push(currentHyperlink);
+        currentHyperlink = null;
+      }
+      for (const mark of openPermissions) {
+        if (!mark.isInSet(nodePermissions)) content.push(createPermissionEnd(mark));
+      }
+      for (const mark of nodePermissions) {
+        if (!mark.isInSet(openPermissions)) content.push(createPermissionStart(mark));
+      }
+      openPermissions = nodePermissions;
+    }
+
     // Check for footnote/endnote reference mark
     const noteRefMark = node.marks.find((m) => m.type.name === 'footnoteRef');
     if (noteRefMark) {
@@ -379,10 +447,12 @@ function extractParagraphContent(
         (m) => m.type.name !== 'insertion' && m.type.name !== 'deletion'
       );
       const formatting = marksToTextFormatting(otherMarks);
+      const propertyChanges = getRunPropertyChanges(otherMarks);
       const run: Run = {
         type: 'run',
         content: node.isText && node.text ? [{ type: 'text', text: node.text }] : [],
         ...(Object.keys(formatting).length > 0 ? { formatting } : {}),
+        ...(propertyChanges ? { propertyChanges } : {}),
       };
 
       const info: TrackedChangeInfo = {
@@ -393,17 +463,19 @@ function extractParagraphContent(
       const revisionId = info.id;
       const hasInsertionForId = (trackedChangeCounts.insertionById.get(revisionId) ?? 0) > 0;
       const hasDeletionForId = (trackedChangeCounts.deletionById.get(revisionId) ?? 0) > 0;
-      const isMovePair = hasInsertionForId && hasDeletionForId;
+      const moveName = changeMark.attrs.moveName as string | null;
+      const isMovePair = !!moveName || (hasInsertionForId && hasDeletionForId);
+      const move = moveName ? { moveName } : {};
 
       if (insertionMark) {
         if (isMovePair) {
-          content.push({ type: 'moveTo', info, content: [run] });
+          content.push({ type: 'moveTo', info, ...move, content: [run] });
         } else {
           content.push({ type: 'insertion', info, content: [run] });
         }
       } else {
         if (isMovePair) {
-          content.push({ type: 'moveFrom', info, content: [run] });
+          content.push({ type: 'moveFrom', info, ...move, content: [run] });
         } else {
           content.push({ type: 'deletion', info, content: [run] });
         }
@@ -528,10 +600,27 @@ function extractParagraphContent(
   if (currentHyperlink) {
     content.push(currentHyperlink);
   }
+  for (const mark of openPermissions) {
+    content.push(createPermissionEnd(mark));
+  }
 
   return content;
 }
 
+/**
+ * Create a permStart from a permission mark
+ */
+function createPermissionStart(mark: Mark): PermissionStart {
+  const start: PermissionStart = { type: 'permStart', id: mark.attrs.id as string };
+  if (mark.attrs.ed) start.ed = mark.attrs.ed as string;
+  if (mark.attrs.edGrp) start.edGrp = mark.attrs.edGrp as string;
+  return start;
+}
+
+function createPermissionEnd(mark: Mark): ParagraphContent {
+  return { type: 'permEnd', id: mark.attrs.id as string };
+}
+
 type TrackedChangeCounts = {
   insertionById: Map<number, number>;
   deletionById: Map<number, number>;
@@ -630,14 +719,37 @@ function createRunFromText(text: string, marks: readonly Mark[]): Run {
     type: 'text',
     text,
   };
+  const propertyChanges = getRunPropertyChanges(marks);
 
   return {
     type: 'run',
     formatting: Object.keys(formatting).length > 0 ? formatting : undefined,
     content: [textContent],
+    ...(propertyChanges ? { propertyChanges } : {}),
   };
 }
 
+/**
+ * Tracked run property change (w:rPrChange) from a formatChange mark
+ */
+function getRunPropertyChanges(marks: readonly Mark[]): RunPropertyChange[] | undefined {
+  const mark = marks.find((m) => m.type.name === 'formatChange');
+  if (!mark) return undefined;
+
+  const previousMarks = marksFromJSON(mark.type.schema, mark.attrs.previousMarks as MarkJSON[]);
+  return [
+    {
+      type: 'runPropertyChange',
+      info: {
+        id: mark.attrs.revisionId as number,
+        author: (mark.attrs.author as string) || 'Unknown',
+        date: (mark.attrs.date as string) || undefined,
+      },
+      previousFormatting: marksToTextFormatting(previousMarks),
+    },
+  ];
+}
+
 /**
  * Append text to an existing run
  */
@@ -772,6 +884,7 @@ function createInlineSdtFromNode(node: PMNode): InlineSdt {
     dateFormat: (attrs.dateFormat as string) ?? undefined,
     listItems: attrs.listItems ? JSON.parse(attrs.listItems as string) : undefined,
     checked: attrs.checked != null ? (attrs.checked as boolean) : undefined,
+    dataBinding: attrs.dataBinding ? JSON.parse(attrs.dataBinding as string) : undefined,
   };
 
   // Extract content from the sdt node's children
@@ -1100,6 +1213,19 @@ function marksToTextFormatting(marks: readonly Mark[]): TextFormatting {
         formatting.outline = true;
         break;
 
+      case 'proofing': {
+        const { lang, langEastAsia, langBidi, noProof } = mark.attrs;
+        if (lang || langEastAsia || langBidi) {
+          formatting.lang = {
+            ...(lang ? { val: lang } : {}),
+            ...(langEastAsia ? { eastAsia: langEastAsia } : {}),
+            ...(langBidi ? { bidi: langBidi } : {}),
+          };
+        }
+        if (noProof) formatting.noProof = true;
+        break;
+      }
+
       // hyperlink is handled separately
     }
   }
@@ -1313,6 +1439,7 @@ function convertPMTableRow(node: PMNode, documentCounts?: TrackedChangeCounts):
     type: 'tableRow',
     formatting: tableRowAttrsToFormatting(attrs),
     cells,
+    ...(attrs.structuralChange ? { structuralChange: attrs.structuralChange } : {}),
   };
 }
 
@@ -1321,7 +1448,7 @@ function convertPMTableRow(node: PMNode, documentCounts?: TrackedChangeCounts):
  */
 function tableRowAttrsToFormatting(attrs: TableRowAttrs): TableRowFormatting | undefined {
   // If we have the original formatting from the DOCX, use it as a base
-  // for lossless round-trip. This preserves properties like cantSplit,
+  // for lossless round-trip. This preserves properties like
   // justification, hidden, conditionalFormat that aren't tracked as PM attrs.
   if (attrs._originalFormatting) {
     const orig = attrs._originalFormatting;
@@ -1337,12 +1464,15 @@ function tableRowAttrsToFormatting(attrs: TableRowAttrs): TableRowFormatting | u
     if (attrs.isHeader !== (orig.header || undefined)) {
       result.header = attrs.isHeader || undefined;
     }
+    if (attrs.cantSplit !== (orig.cantSplit || undefined)) {
+      result.cantSplit = attrs.cantSplit || undefined;
+    }
 
     return result;
   }
 
   // Fallback: reconstruct formatting from individual attrs
-  const hasFormatting = attrs.height || attrs.isHeader;
+  const hasFormatting = attrs.height || attrs.isHeader || attrs.cantSplit;
 
   if (!hasFormatting) {
     return undefined;
@@ -1357,6 +1487,7 @@ function tableRowAttrsToFormatting(attrs: TableRowAttrs): TableRowFormatting | u
       : undefined,
     heightRule: (attrs.heightRule as 'auto' | 'atLeast' | 'exact') || undefined,
     header: attrs.isHeader || undefined,
+    cantSplit: attrs.cantSplit || undefined,
   };
 }
 
@@ -1380,6 +1511,7 @@ function convertPMTableCell(node: PMNode, documentCounts?: TrackedChangeCounts):
     type: 'tableCell',
     formatting: tableCellAttrsToFormatting(attrs),
     content,
+    ...(attrs.structuralChange ? { structuralChange: attrs.structuralChange } : {}),
   };
 }
 
@@ -1521,6 +1653,7 @@ function convertPMTextBox(node: PMNode): Paragraph {
         right:
           attrs.marginRight != null ? Math.round(attrs.marginRight * (914400 / 96)) : undefined,
       },
+      vert: attrs.vert || undefined,
     },
   };
 
@@ -1573,5 +1706,8 @@ export function updateDocumentContent(originalDocument: Document, pmDoc: PMNode)
  * Used for converting edited header/footer PM content back to the document model.
  */
 export function proseDocToBlocks(pmDoc: PMNode): (Paragraph | Table)[] {
-  return extractBlocks(pmDoc);
+  const blocks = extractBlocks(pmDoc);
+  mergePermissionRanges(blocks);
+  addMoveRanges(blocks);
+  return blocks;
 }
@@ -15,6 +15,7 @@
 import type { Node as PMNode } from 'prosemirror-model';
 import { schema } from '../schema';
 import type { ParagraphAttrs } from '../schema/nodes';
+import { getFormattingMarks, getParagraphFormatting } from '../utils/formatChanges';
 import type {
   Document,
   Paragraph,
@@ -40,8 +41,10 @@ import type {
   MoveFrom,
   MoveTo,
   MathEquation,
+  PermissionStart,
 } from '../../types/document';
 import { emuToPixels } from '../../docx/imageParser';
+import { paragraphPermission } from '../../docx/permissionRanges';
 import { createStyleResolver, type StyleResolver } from '../styles';
 import type { TableAttrs, TableRowAttrs, TableCellAttrs } from '../schema/nodes';
 
@@ -121,8 +124,18 @@ function convertParagraph(
   // Merge in extra formatting (e.g., table style conditional rPr)
   const mergedStyleRunFormatting = mergeTextFormatting(styleRunFormatting, extraRunFormatting);
 
+  // Editable regions: one over the whole paragraph becomes the `permission`
+  // attr, narrower ones a permission mark on the content they cover
+  const wholePermission = paragraphPermission(paragraph);
+  const permissions = new Map<string, PermissionStart>();
+
   for (const content of paragraph.content) {
-    if (content.type === 'commentRangeStart') {
+    const nodeCount = inlineNodes.length;
+    if (content.type === 'permStart') {
+      if (content.id !== wholePermission?.id) permissions.set(content.id, content);
+    } else if (content.type === 'permEnd') {
+      permissions.delete(content.id);
+    } else if (content.type === 'commentRangeStart') {
       commentIds.add(content.id);
     } else if (content.type === 'commentRangeEnd') {
       commentIds.delete(content.id);
@@ -194,15 +207,47 @@ function convertParagraph(
       if (!bookmarksArr) bookmarksArr = [];
       bookmarksArr.push({ id: content.id, name: content.name });
     }
+    if (permissions.size > 0) {
+      applyPermissionMarks(inlineNodes, nodeCount, permissions);
+    }
   }
 
   if (bookmarksArr) {
     attrs.bookmarks = bookmarksArr;
   }
 
+  if (paragraph.tableOfContents) {
+    attrs.tableOfContents = paragraph.tableOfContents;
+  }
+
+  if (wholePermission) {
+    const { type: _type, ...permission } = wholePermission;
+    attrs.permission = permission;
+  }
+
   return schema.node('paragraph', attrs, inlineNodes);
 }
 
+/**
+ * Mark the nodes from index `from` on as part of the open editable regions
+ */
+function applyPermissionMarks(
+  nodes: PMNode[],
+  from: number,
+  permissions: Map<string, PermissionStart>
+): void {
+  const marks = [...permissions.values()].map((permission) =>
+    schema.marks.permission.create({
+      id: permission.id,
+      ed: permission.ed ?? null,
+      edGrp: permission.edGrp ?? null,
+    })
+  );
+  for (let i = from; i < nodes.length; i++) {
+    nodes[i] = nodes[i].mark(marks.reduce((set, mark) => mark.addToSet(set), nodes[i].marks));
+  }
+}
+
 /**
  * Apply comment marks to PM nodes within a comment range.
  * Only the first active comment ID is used (comments don't overlap visually).
@@ -239,10 +284,13 @@ function convertTrackedChange(
     }
   }
 
+  // Moves without a named range are paired by revision ID
+  const isMove = change.type === 'moveFrom' || change.type === 'moveTo';
   const mark = schema.marks[markType].create({
     revisionId: change.info.id,
     author: change.info.author,
     date: change.info.date ?? null,
+    moveName: isMove ? change.moveName || `move${change.info.id}` : null,
   });
 
   return nodes.map((node) => {
@@ -307,6 +355,8 @@ function paragraphFormattingToAttrs(
     attrs.pageBreakBefore = formatting?.pageBreakBefore ?? stylePpr?.pageBreakBefore;
     attrs.keepNext = formatting?.keepNext ?? stylePpr?.keepNext;
     attrs.keepLines = formatting?.keepLines ?? stylePpr?.keepLines;
+    attrs.widowControl = formatting?.widowControl ?? stylePpr?.widowControl;
+    attrs.suppressAutoHyphens = formatting?.suppressAutoHyphens ?? stylePpr?.suppressAutoHyphens;
     attrs.contextualSpacing = formatting?.contextualSpacing ?? stylePpr?.contextualSpacing;
 
     // Outline level (for TOC)
@@ -343,6 +393,8 @@ function paragraphFormattingToAttrs(
     attrs.pageBreakBefore = formatting?.pageBreakBefore;
     attrs.keepNext = formatting?.keepNext;
     attrs.keepLines = formatting?.keepLines;
+    attrs.widowControl = formatting?.widowControl;
+    attrs.suppressAutoHyphens = formatting?.suppressAutoHyphens;
 
     // Outline level
     attrs.outlineLevel = formatting?.outlineLevel;
@@ -363,6 +415,22 @@ function paragraphFormattingToAttrs(
     }
   }
 
+  // Tracked paragraph property change (w:pPrChange): remember the attrs the
+  // previous formatting resolves to, so rejecting can restore them
+  const change = paragraph.propertyChanges?.[0];
+  if (change) {
+    const previousAttrs = paragraphFormattingToAttrs(
+      { ...paragraph, formatting: change.previousFormatting, propertyChanges: undefined },
+      styleResolver
+    );
+    attrs.formatChange = {
+      revisionId: change.info.id,
+      author: change.info.author,
+      date: change.info.date ?? null,
+      previous: getParagraphFormatting(previousAttrs),
+    };
+  }
+
   return attrs;
 }
 
@@ -659,6 +727,8 @@ function convertTableRow(
     // Only w:tblHeader (row.formatting.header) should trigger this — NOT tblLook/firstRow
     // which is purely a conditional formatting flag (ECMA-376 §17.7.6.1).
     isHeader: !!row.formatting?.header,
+    cantSplit: !!row.formatting?.cantSplit,
+    structuralChange: row.structuralChange,
     _originalFormatting: row.formatting || undefined,
   };
 
@@ -922,6 +992,7 @@ function convertTableCell(
             right: conditionalStyle.tcPr.margins.right?.value,
           }
         : defaultCellMargins,
+    structuralChange: cell.structuralChange,
     _originalFormatting: formatting || undefined,
   };
 
@@ -1037,6 +1108,7 @@ function convertInlineSdt(
       dateFormat: props.dateFormat ?? null,
       listItems: props.listItems ? JSON.stringify(props.listItems) : null,
       checked: props.checked ?? null,
+      dataBinding: props.dataBinding ? JSON.stringify(props.dataBinding) : null,
     },
     inlineNodes.length > 0 ? inlineNodes : undefined
   );
@@ -1071,6 +1143,23 @@ function convertRun(
   );
   const marks = textFormattingToMarks(mergedFormatting);
 
+  // Tracked run property change (w:rPrChange)
+  const change = run.propertyChanges?.[0];
+  if (change) {
+    const previousFormatting = mergeTextFormatting(
+      mergeTextFormatting(styleFormatting, runStyleFormatting),
+      change.previousFormatting
+    );
+    marks.push(
+      schema.mark('formatChange', {
+        revisionId: change.info.id,
+        author: change.info.author,
+        date: change.info.date ?? null,
+        previousMarks: getFormattingMarks(textFormattingToMarks(previousFormatting)),
+      })
+    );
+  }
+
   for (const content of run.content) {
     const contentNodes = convertRunContent(content, marks);
     nodes.push(...contentNodes);
@@ -1115,6 +1204,8 @@ function mergeTextFormatting(
   if (source.vertAlign !== undefined) result.vertAlign = source.vertAlign;
   if (source.allCaps !== undefined) result.allCaps = source.allCaps;
   if (source.smallCaps !== undefined) result.smallCaps = source.smallCaps;
+  if (source.lang !== undefined) result.lang = { ...result.lang, ...source.lang };
+  if (source.noProof !== undefined) result.noProof = source.noProof;
 
   return result;
 }
@@ -1546,6 +1637,18 @@ function textFormattingToMarks(
     marks.push(schema.mark('textOutline'));
   }
 
+  // Language and proofing exclusion (w:lang, w:noProof)
+  if (formatting.lang || formatting.noProof) {
+    marks.push(
+      schema.mark('proofing', {
+        lang: formatting.lang?.val ?? null,
+        langEastAsia: formatting.lang?.eastAsia ?? null,
+        langBidi: formatting.lang?.bidi ?? null,
+        noProof: formatting.noProof || null,
+      })
+    );
+  }
+
   return marks;
 }
 
@@ -1681,6 +1784,7 @@ function extractTextBoxesFromParagraph(paragraph: Paragraph): TextBox[] {
               outline: shape.outline,
               content: shape.textBody.content,
               margins: shape.textBody.margins,
+              vert: shape.textBody.vert,
             });
           }
         }
@@ -1746,6 +1850,7 @@ function convertTextBox(textBox: TextBox, styleResolver: StyleResolver | null):
       marginBottom,
       marginLeft,
       marginRight,
+      vert: textBox.vert,
     },
     contentNodes
   );
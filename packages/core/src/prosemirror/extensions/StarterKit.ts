@@ -34,7 +34,13 @@ import { SmallCapsExtension } from './marks/SmallCapsExtension';
 import { FootnoteRefExtension } from './marks/FootnoteRefExtension';
 import { CharacterSpacingExtension } from './marks/CharacterSpacingExtension';
 import { CommentExtension } from './marks/CommentExtension';
-import { InsertionExtension, DeletionExtension } from './marks/TrackedChangeExtensions';
+import { PermissionExtension } from './marks/PermissionExtension';
+import { ProofingExtension } from './marks/ProofingExtension';
+import {
+  InsertionExtension,
+  DeletionExtension,
+  FormatChangeExtension,
+} from './marks/TrackedChangeExtensions';
 import {
   EmbossExtension,
   ImprintExtension,
@@ -125,9 +131,12 @@ export function createStarterKit(options: StarterKitOptions = {}): AnyExtension[
   add('textShadow', TextShadowExtension());
   add('emphasisMark', EmphasisMarkExtension());
   add('textOutline', TextOutlineExtension());
+  add('proofing', ProofingExtension());
   add('comment', CommentExtension());
+  add('permission', PermissionExtension());
   add('insertion', InsertionExtension());
   add('deletion', DeletionExtension());
+  add('formatChange', FormatChangeExtension());
 
   // Nodes
   add('hardBreak', HardBreakExtension());
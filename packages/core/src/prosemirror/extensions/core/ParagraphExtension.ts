@@ -6,7 +6,7 @@
  * - Commands from paragraph.ts (alignment, spacing, indent, style)
  */
 
-import { Fragment, type NodeSpec, type Schema } from 'prosemirror-model';
+import type { NodeSpec, Schema } from 'prosemirror-model';
 import type { Command, EditorState } from 'prosemirror-state';
 import type {
   ParagraphAlignment,
@@ -19,7 +19,6 @@ import type {
   TabLeader,
 } from '../../../types/document';
 import { paragraphToStyle } from '../../../utils/formatToStyle';
-import { collectHeadings } from '../../../utils/headingCollector';
 import { createNodeExtension } from '../create';
 import type { ExtensionContext, ExtensionRuntime } from '../types';
 import type { ParagraphAttrs } from '../../schema/nodes';
@@ -273,12 +272,17 @@ const paragraphNodeSpec: NodeSpec = {
     pageBreakBefore: { default: null },
     keepNext: { default: null },
     keepLines: { default: null },
+    widowControl: { default: null },
+    suppressAutoHyphens: { default: null },
     contextualSpacing: { default: null },
     defaultTextFormatting: { default: null },
     sectionBreakType: { default: null },
     bidi: { default: null },
     outlineLevel: { default: null },
     bookmarks: { default: null },
+    tableOfContents: { default: null },
+    permission: { default: null },
+    formatChange: { default: null },
     _originalFormatting: { default: null },
     _sectionProperties: { default: null },
   },
@@ -595,6 +599,8 @@ function makeApplyStyle(schema: Schema) {
             newAttrs.contextualSpacing = ppr?.contextualSpacing ?? null;
             newAttrs.keepNext = ppr?.keepNext ?? null;
             newAttrs.keepLines = ppr?.keepLines ?? null;
+            newAttrs.widowControl = ppr?.widowControl ?? null;
+            newAttrs.suppressAutoHyphens = ppr?.suppressAutoHyphens ?? null;
             newAttrs.pageBreakBefore = ppr?.pageBreakBefore ?? null;
             newAttrs.outlineLevel = ppr?.outlineLevel ?? null;
           }
@@ -707,81 +713,6 @@ export const ParagraphExtension = createNodeExtension({
         insertSectionBreak: (breakType: 'nextPage' | 'continuous' | 'oddPage' | 'evenPage') =>
           setParagraphAttr('sectionBreakType', breakType),
         removeSectionBreak: () => setParagraphAttr('sectionBreakType', null),
-        generateTOC: () => {
-          return (
-            state: EditorState,
-            dispatch?: (tr: import('prosemirror-state').Transaction) => void
-          ) => {
-            const headings = collectHeadings(state.doc);
-            if (headings.length === 0) return false;
-            if (!dispatch) return true;
-
-            const { schema: s } = state;
-            const tr = state.tr;
-
-            // Generate unique bookmark names for each heading and set them on heading paragraphs
-            const bookmarkEntries: Array<{ name: string; level: number; text: string }> = [];
-            for (const h of headings) {
-              const bookmarkName = `_Toc${Math.floor(100000000 + Math.random() * 900000000)}`;
-              bookmarkEntries.push({ name: bookmarkName, level: h.level, text: h.text });
-
-              // Map position through prior transaction steps, then resolve against current tr.doc
-              const mappedPos = tr.mapping.map(h.pmPos);
-              const $pos = tr.doc.resolve(mappedPos);
-              const paragraphNode = $pos.nodeAfter;
-              if (paragraphNode && paragraphNode.type.name === 'paragraph') {
-                // Filter out any existing _Toc bookmarks to avoid duplicates on regeneration
-                const existingBookmarks =
-                  (paragraphNode.attrs.bookmarks as Array<{ id: number; name: string }>) || [];
-                const filteredBookmarks = existingBookmarks.filter(
-                  (b) => !b.name.startsWith('_Toc')
-                );
-                const newBookmarks = [
-                  ...filteredBookmarks,
-                  { id: Math.floor(Math.random() * 2147483647), name: bookmarkName },
-                ];
-                tr.setNodeMarkup(mappedPos, undefined, {
-                  ...paragraphNode.attrs,
-                  bookmarks: newBookmarks,
-                });
-              }
-            }
-
-            // Build TOC paragraphs
-            const tocNodes: import('prosemirror-model').Node[] = [];
-
-            // TOC title
-            tocNodes.push(
-              s.node('paragraph', { styleId: 'TOCHeading', alignment: 'center' }, [
-                s.text('Table of Contents', [s.marks.bold.create()]),
-              ])
-            );
-
-            // TOC entries with hyperlinks
-            for (const entry of bookmarkEntries) {
-              const indent = entry.level * 720; // 0.5 inch per level in twips
-              const tocStyleId = `TOC${entry.level + 1}`; // TOC1, TOC2, etc.
-              const linkMark = s.marks.hyperlink.create({ href: `#${entry.name}` });
-
-              tocNodes.push(
-                s.node(
-                  'paragraph',
-                  {
-                    styleId: tocStyleId,
-                    indentLeft: indent > 0 ? indent : null,
-                  },
-                  [s.text(entry.text, [linkMark])]
-                )
-              );
-            }
-
-            // Insert TOC at cursor position — use a Fragment for correct ordering
-            const insertPos = tr.mapping.map(state.selection.from);
-            tr.insert(insertPos, Fragment.from(tocNodes));
-            dispatch(tr.scrollIntoView());
-            return true;
-          };
-        },
         toggleBidi: () => {
           return (
             state: EditorState,
@@ -0,0 +1,52 @@
+/**
+ * Permission Mark Extension — part of a paragraph that stays editable in a
+ * protected document
+ *
+ * Applied to content between permStart and permEnd when the range covers
+ * only part of a paragraph; whole paragraphs carry the `permission` attr.
+ * Inclusive, so text typed at the end of the region joins it.
+ */
+
+import { createMarkExtension } from '../create';
+
+export const PermissionExtension = createMarkExtension({
+  name: 'permission',
+  schemaMarkName: 'permission',
+  markSpec: {
+    attrs: {
+      /** Permission ID (matches permStart/permEnd) */
+      id: { default: '' },
+      /** Single user allowed to edit (w:ed) */
+      ed: { default: null },
+      /** Group allowed to edit (w:edGrp) */
+      edGrp: { default: null },
+    },
+    inclusive: true,
+    excludes: '',
+    parseDOM: [
+      {
+        tag: 'span.docx-permission',
+        getAttrs(dom) {
+          const el = dom as HTMLElement;
+          return {
+            id: el.dataset.permissionId || '',
+            ed: el.dataset.ed || null,
+            edGrp: el.dataset.edGrp || null,
+          };
+        },
+      },
+    ],
+    toDOM(mark) {
+      return [
+        'span',
+        {
+          class: 'docx-permission',
+          'data-permission-id': String(mark.attrs.id),
+          ...(mark.attrs.ed ? { 'data-ed': mark.attrs.ed } : {}),
+          ...(mark.attrs.edGrp ? { 'data-ed-grp': mark.attrs.edGrp } : {}),
+        },
+        0,
+      ];
+    },
+  },
+});
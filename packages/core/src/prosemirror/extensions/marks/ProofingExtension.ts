@@ -0,0 +1,54 @@
+/**
+ * Proofing Mark Extension
+ *
+ * Handles: run language (w:lang) and proofing exclusion (w:noProof).
+ * The spell checker reads the language of each word from this mark.
+ */
+
+import { createMarkExtension } from '../create';
+
+export const ProofingExtension = createMarkExtension({
+  name: 'proofing',
+  schemaMarkName: 'proofing',
+  markSpec: {
+    attrs: {
+      lang: { default: null },
+      langEastAsia: { default: null },
+      langBidi: { default: null },
+      noProof: { default: null },
+    },
+    parseDOM: [
+      {
+        tag: 'span.docx-proofing',
+        getAttrs: (dom) => {
+          const el = dom as HTMLElement;
+          return {
+            lang: el.getAttribute('lang') || null,
+            langEastAsia: el.dataset.langEastAsia || null,
+            langBidi: el.dataset.langBidi || null,
+            noProof: el.dataset.noProof === 'true' ? true : null,
+          };
+        },
+      },
+    ],
+    toDOM(mark) {
+      const attrs = mark.attrs as {
+        lang: string | null;
+        langEastAsia: string | null;
+        langBidi: string | null;
+        noProof: boolean | null;
+      };
+
+      const domAttrs: Record<string, string> = { class: 'docx-proofing' };
+      if (attrs.lang) domAttrs.lang = attrs.lang;
+      if (attrs.langEastAsia) domAttrs['data-lang-east-asia'] = attrs.langEastAsia;
+      if (attrs.langBidi) domAttrs['data-lang-bidi'] = attrs.langBidi;
+      if (attrs.noProof) {
+        domAttrs['data-no-proof'] = 'true';
+        domAttrs.spellcheck = 'false';
+      }
+
+      return ['span', domAttrs, 0];
+    },
+  },
+});
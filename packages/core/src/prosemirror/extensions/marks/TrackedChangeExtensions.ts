@@ -1,8 +1,12 @@
 /**
- * Tracked Change Mark Extensions — insertion and deletion marks
+ * Tracked Change Mark Extensions — insertion, deletion and format change marks
  *
  * Renders insertions with green underline and deletions with red strikethrough,
- * matching the standard MS Word display for tracked changes.
+ * matching the standard MS Word display for tracked changes. Format changes
+ * keep the new formatting visible and remember the previous one.
+ *
+ * Moved text is a deletion at the source (w:moveFrom) and an insertion at the
+ * destination (w:moveTo) whose `moveName` attributes match.
  */
 
 import { createMarkExtension } from '../create';
@@ -19,6 +23,7 @@ export const InsertionExtension = createMarkExtension({
       revisionId: { default: 0 },
       author: { default: '' },
       date: { default: null },
+      moveName: { default: null },
     },
     inclusive: false,
     parseDOM: [
@@ -30,6 +35,7 @@ export const InsertionExtension = createMarkExtension({
             revisionId: parseInt(el.dataset.revisionId || '0', 10),
             author: el.dataset.author || '',
             date: el.dataset.date || null,
+            moveName: el.dataset.moveName || null,
           };
         },
       },
@@ -42,6 +48,7 @@ export const InsertionExtension = createMarkExtension({
           'data-revision-id': String(mark.attrs.revisionId),
           'data-author': mark.attrs.author,
           ...(mark.attrs.date ? { 'data-date': mark.attrs.date } : {}),
+          ...(mark.attrs.moveName ? { 'data-move-name': mark.attrs.moveName } : {}),
           style: 'color: #2e7d32;',
         },
         0,
@@ -62,6 +69,7 @@ export const DeletionExtension = createMarkExtension({
       revisionId: { default: 0 },
       author: { default: '' },
       date: { default: null },
+      moveName: { default: null },
     },
     inclusive: false,
     parseDOM: [
@@ -73,6 +81,7 @@ export const DeletionExtension = createMarkExtension({
             revisionId: parseInt(el.dataset.revisionId || '0', 10),
             author: el.dataset.author || '',
             date: el.dataset.date || null,
+            moveName: el.dataset.moveName || null,
           };
         },
       },
@@ -85,6 +94,7 @@ export const DeletionExtension = createMarkExtension({
           'data-revision-id': String(mark.attrs.revisionId),
           'data-author': mark.attrs.author,
           ...(mark.attrs.date ? { 'data-date': mark.attrs.date } : {}),
+          ...(mark.attrs.moveName ? { 'data-move-name': mark.attrs.moveName } : {}),
           style: 'color: #c62828;',
         },
         0,
@@ -92,3 +102,46 @@ export const DeletionExtension = createMarkExtension({
     },
   },
 });
+
+/**
+ * Format change mark — text whose formatting changed in tracked changes (w:rPrChange)
+ * `previousMarks` holds the formatting marks (as JSON) from before the change.
+ */
+export const FormatChangeExtension = createMarkExtension({
+  name: 'formatChange',
+  schemaMarkName: 'formatChange',
+  markSpec: {
+    attrs: {
+      revisionId: { default: 0 },
+      author: { default: '' },
+      date: { default: null },
+      previousMarks: { default: [] },
+    },
+    inclusive: false,
+    parseDOM: [
+      {
+        tag: 'span.docx-format-change',
+        getAttrs(dom) {
+          const el = dom as HTMLElement;
+          return {
+            revisionId: parseInt(el.dataset.revisionId || '0', 10),
+            author: el.dataset.author || '',
+            date: el.dataset.date || null,
+          };
+        },
+      },
+    ],
+    toDOM(mark) {
+      return [
+        'span',
+        {
+          class: 'docx-format-change',
+          'data-revision-id': String(mark.attrs.revisionId),
+          'data-author': mark.attrs.author,
+          ...(mark.attrs.date ? { 'data-date': mark.attrs.date } : {}),
+        },
+        0,
+      ];
+    },
+  },
+});
@@ -2,8 +2,9 @@
  * Math Extension — inline/block math equation node (OMML)
  *
  * Represents Office Math Markup Language equations as atomic nodes.
- * Stores the raw OMML XML for round-trip fidelity and shows a plain
- * text fallback in the editor.
+ * Stores the raw OMML XML for round-trip fidelity. The visible pages lay
+ * the equation out from its OMML (see src/math); the hidden editor DOM only
+ * shows the plain text fallback.
  */
 
 import { createNodeExtension } from '../create';
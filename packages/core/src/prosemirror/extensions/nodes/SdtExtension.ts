@@ -3,6 +3,8 @@
  *
  * Represents OOXML inline SDTs as an inline node wrapping text content.
  * Supports: richText, plainText, date, dropdown, comboBox, checkbox.
+ * Controls mapped to a custom XML part keep their w:dataBinding so edits
+ * can be written back to the part on save.
  */
 
 import { createNodeExtension } from '../create';
@@ -33,6 +35,8 @@ export const SdtExtension = createNodeExtension({
       listItems: { default: null },
       /** Checkbox checked state */
       checked: { default: null },
+      /** XML mapping (w:dataBinding) as JSON string */
+      dataBinding: { default: null },
     },
     parseDOM: [
       {
@@ -50,6 +54,7 @@ export const SdtExtension = createNodeExtension({
             listItems: el.dataset.listItems || null,
             checked:
               el.dataset.checked === 'true' ? true : el.dataset.checked === 'false' ? false : null,
+            dataBinding: el.dataset.binding || null,
           };
         },
       },
@@ -69,6 +74,10 @@ export const SdtExtension = createNodeExtension({
       if (attrs.dateFormat) dataAttrs['data-date-format'] = String(attrs.dateFormat);
       if (attrs.listItems) dataAttrs['data-list-items'] = String(attrs.listItems);
       if (attrs.checked != null) dataAttrs['data-checked'] = String(attrs.checked);
+      if (attrs.dataBinding) {
+        dataAttrs.class += ' docx-sdt-bound';
+        dataAttrs['data-binding'] = String(attrs.dataBinding);
+      }
 
       // Checkbox renders with a checkbox-like indicator
       if (attrs.sdtType === 'checkbox') {
@@ -26,6 +26,7 @@ import { createNodeExtension, createExtension } from '../create';
 import type { ExtensionContext, ExtensionRuntime, AnyExtension } from '../types';
 import type { TableAttrs, TableRowAttrs, TableCellAttrs } from '../../schema/nodes';
 import type { ColorValue, BorderSpec } from '../../../types/colors';
+import { deleteTableNodesAsSuggestion, isSuggestionModeActive } from '../../plugins/suggestionMode';
 
 // ============================================================================
 // CSS PASTE HELPERS — Extract formatting from inline styles (Google Docs, etc.)
@@ -246,6 +247,8 @@ const tableRowSpec: NodeSpec = {
     height: { default: null },
     heightRule: { default: null },
     isHeader: { default: false },
+    cantSplit: { default: false },
+    structuralChange: { default: null },
     _originalFormatting: { default: null },
   },
   parseDOM: [{ tag: 'tr' }],
@@ -397,6 +400,7 @@ const tableCellSpec: NodeSpec = {
     margins: { default: null },
     textDirection: { default: null },
     noWrap: { default: false },
+    structuralChange: { default: null },
     _originalFormatting: { default: null },
   },
   parseDOM: [
@@ -455,6 +459,7 @@ const tableHeaderSpec: NodeSpec = {
     margins: { default: null },
     textDirection: { default: null },
     noWrap: { default: false },
+    structuralChange: { default: null },
     _originalFormatting: { default: null },
   },
   parseDOM: [
@@ -1021,12 +1026,16 @@ export const TablePluginExtension = createExtension({
       )
         return false;
 
+      let rowStart = context.tablePos + 1;
+      for (let i = 0; i < context.rowIndex; i++) {
+        rowStart += context.table.child(i).nodeSize;
+      }
+      if (isSuggestionModeActive(state)) {
+        return deleteTableNodesAsSuggestion([rowStart])(state, dispatch);
+      }
+
       if (dispatch) {
         const tr = state.tr;
-        let rowStart = context.tablePos + 1;
-        for (let i = 0; i < context.rowIndex; i++) {
-          rowStart += context.table.child(i).nodeSize;
-        }
         const rowEnd = rowStart + context.table.child(context.rowIndex).nodeSize;
         tr.delete(rowStart, rowEnd);
         dispatch(tr.scrollIntoView());
@@ -1224,34 +1233,39 @@ export const TablePluginExtension = createExtension({
       )
         return false;
 
-      if (dispatch) {
-        let tr = state.tr;
-        const newColumnCount = (context.columnCount || 2) - 1;
-        const newColWidthPercent = Math.floor(100 / newColumnCount);
+      const deleteOps: { start: number; end: number }[] = [];
+      let rowPos = context.tablePos + 1;
 
-        const deleteOps: { start: number; end: number }[] = [];
-        let rowPos = context.tablePos + 1;
+      context.table.forEach((row) => {
+        if (row.type.name === 'tableRow') {
+          let cellPos = rowPos + 1;
+          let colIdx = 0;
 
-        context.table.forEach((row) => {
-          if (row.type.name === 'tableRow') {
-            let cellPos = rowPos + 1;
-            let colIdx = 0;
+          row.forEach((cell) => {
+            const cellStart = cellPos;
+            const cellEnd = cellPos + cell.nodeSize;
+            const cellColspan = cell.attrs.colspan || 1;
 
-            row.forEach((cell) => {
-              const cellStart = cellPos;
-              const cellEnd = cellPos + cell.nodeSize;
-              const cellColspan = cell.attrs.colspan || 1;
+            if (colIdx <= context.columnIndex! && context.columnIndex! < colIdx + cellColspan) {
+              deleteOps.push({ start: cellStart, end: cellEnd });
+            }
 
-              if (colIdx <= context.columnIndex! && context.columnIndex! < colIdx + cellColspan) {
-                deleteOps.push({ start: cellStart, end: cellEnd });
-              }
+            cellPos = cellEnd;
+            colIdx += cellColspan;
+          });
+        }
+        rowPos += row.nodeSize;
+      });
 
-              cellPos = cellEnd;
-              colIdx += cellColspan;
-            });
-          }
-          rowPos += row.nodeSize;
-        });
+      if (isSuggestionModeActive(state)) {
+        const positions = deleteOps.map((op) => op.start);
+        return deleteTableNodesAsSuggestion(positions)(state, dispatch);
+      }
+
+      if (dispatch) {
+        let tr = state.tr;
+        const newColumnCount = (context.columnCount || 2) - 1;
+        const newColWidthPercent = Math.floor(100 / newColumnCount);
 
         deleteOps.reverse().forEach(({ start, end }) => {
           tr = tr.delete(start, end);
@@ -6,6 +6,7 @@
  * Supports inline and floating positioning.
  */
 
+import type { TextBodyVertical } from '../../../types/content';
 import { createNodeExtension } from '../create';
 
 export interface TextBoxAttrs {
@@ -33,6 +34,8 @@ export interface TextBoxAttrs {
   marginRight?: number;
   /** Vertical text alignment */
   verticalAlign?: string;
+  /** Text flow (a:bodyPr/@vert), e.g. 'vert' or 'vert270' */
+  vert?: TextBodyVertical;
   /** Display mode */
   displayMode?: 'inline' | 'float' | 'block';
   /** CSS float direction */
@@ -62,6 +65,7 @@ export const TextBoxExtension = createNodeExtension({
       marginLeft: { default: 7 },
       marginRight: { default: 7 },
       verticalAlign: { default: null },
+      vert: { default: null },
       displayMode: { default: 'inline' },
       cssFloat: { default: null },
       wrapType: { default: 'inline' },
@@ -84,6 +88,7 @@ export const TextBoxExtension = createNodeExtension({
             marginLeft: el.dataset.marginLeft ? Number(el.dataset.marginLeft) : undefined,
             marginRight: el.dataset.marginRight ? Number(el.dataset.marginRight) : undefined,
             verticalAlign: el.dataset.verticalAlign || undefined,
+            vert: (el.dataset.vert as TextBoxAttrs['vert']) || undefined,
             displayMode: (el.dataset.displayMode as TextBoxAttrs['displayMode']) || undefined,
             cssFloat: (el.dataset.cssFloat as TextBoxAttrs['cssFloat']) || undefined,
             wrapType: el.dataset.wrapType || undefined,
@@ -110,6 +115,7 @@ export const TextBoxExtension = createNodeExtension({
       if (attrs.marginLeft != null) domAttrs['data-margin-left'] = String(attrs.marginLeft);
       if (attrs.marginRight != null) domAttrs['data-margin-right'] = String(attrs.marginRight);
       if (attrs.verticalAlign) domAttrs['data-vertical-align'] = attrs.verticalAlign;
+      if (attrs.vert) domAttrs['data-vert'] = attrs.vert;
       if (attrs.displayMode) domAttrs['data-display-mode'] = attrs.displayMode;
       if (attrs.cssFloat) domAttrs['data-css-float'] = attrs.cssFloat;
       if (attrs.wrapType) domAttrs['data-wrap-type'] = attrs.wrapType;
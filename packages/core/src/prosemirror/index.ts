@@ -41,6 +41,7 @@ export { TextSelection } from 'prosemirror-state';
 export {
   createSelectionTrackerPlugin,
   extractSelectionContext,
+  getAISelectionContext,
   getSelectionContext,
   selectionTrackerKey,
 } from './plugins';
@@ -138,7 +139,22 @@ export {
   setTableBorderWidth,
   // Page break
   insertPageBreak,
+  // Equations
+  insertEquation,
   // Table of Contents
   generateTOC,
+  insertTableOfContents,
+  updateTableOfContents,
+  // Fields
+  updateAllFields,
+  // Data binding
+  refreshBoundControls,
+} from './commands';
+export type {
+  TableContextInfo,
+  BorderPreset,
+  InsertEquationOptions,
+  TableOfContentsOptions,
+  UpdateAllFieldsOptions,
+  RefreshBoundControlsOptions,
 } from './commands';
-export type { TableContextInfo, BorderPreset } from './commands';
@@ -0,0 +1,274 @@
+/**
+ * Collaboration Providers
+ *
+ * Reference implementations of `CollabProvider`:
+ *
+ * - `CollabAuthority` — in-memory central authority holding the step history.
+ *   Accepts a submission only when it is based on the current version.
+ * - `createInMemoryCollabProvider` — connects an editor to an authority in the
+ *   same JS context (tests, multiple editors on one page).
+ * - `createBroadcastChannelCollabProvider` — connects editors in different
+ *   tabs of the same origin. One tab hosts the authority.
+ *
+ * A production setup typically replaces these with a WebSocket provider that
+ * talks to a server-side authority with the same contract.
+ */
+
+import type {
+  CollabConfirmedSteps,
+  CollabPresence,
+  CollabProvider,
+  CollabStepsMessage,
+} from './collaboration';
+
+type Listener<T> = (value: T) => void;
+
+function addListener<T>(set: Set<Listener<T>>, listener: Listener<T>): () => void {
+  set.add(listener);
+  return () => {
+    set.delete(listener);
+  };
+}
+
+// ============================================================================
+// AUTHORITY
+// ============================================================================
+
+/**
+ * In-memory collaboration authority.
+ *
+ * Keeps the ordered list of confirmed steps. Clients submit steps based on a
+ * version; stale submissions are rejected and the client resubmits after
+ * rebasing on the steps it receives.
+ */
+export class CollabAuthority {
+  private steps: unknown[] = [];
+  private stepClientIds: string[] = [];
+  private stepListeners = new Set<Listener<CollabConfirmedSteps>>();
+  private presenceListeners = new Set<Listener<CollabPresence>>();
+  private leaveListeners = new Set<Listener<string>>();
+
+  constructor(private readonly initialVersion = 0) {}
+
+  /** Current document version (number of confirmed steps). */
+  get version(): number {
+    return this.initialVersion + this.steps.length;
+  }
+
+  /**
+   * Submit steps. Returns false when the submission is based on an old
+   * version (the client must first apply the missing steps).
+   */
+  receiveSteps(message: CollabStepsMessage): boolean {
+    if (message.version !== this.version) return false;
+    if (message.steps.length === 0) return true;
+
+    const confirmed: CollabConfirmedSteps = {
+      version: this.version,
+      steps: message.steps,
+      clientIds: message.steps.map(() => message.clientId),
+    };
+    this.steps.push(...message.steps);
+    this.stepClientIds.push(...confirmed.clientIds);
+
+    for (const listener of Array.from(this.stepListeners)) listener(confirmed);
+    return true;
+  }
+
+  /** Get all confirmed steps since `version` (for late joiners / reconnects). */
+  getStepsSince(version: number): CollabConfirmedSteps {
+    const start = Math.max(0, version - this.initialVersion);
+    return {
+      version: this.initialVersion + start,
+      steps: this.steps.slice(start),
+      clientIds: this.stepClientIds.slice(start),
+    };
+  }
+
+  /** Relay a presence update to all subscribers. */
+  receivePresence(presence: CollabPresence): void {
+    for (const listener of Array.from(this.presenceListeners)) listener(presence);
+  }
+
+  /** Relay a client leaving to all subscribers. */
+  receiveLeave(clientId: string): void {
+    for (const listener of Array.from(this.leaveListeners)) listener(clientId);
+  }
+
+  onSteps(listener: Listener<CollabConfirmedSteps>): () => void {
+    return addListener(this.stepListeners, listener);
+  }
+
+  onPresence(listener: Listener<CollabPresence>): () => void {
+    return addListener(this.presenceListeners, listener);
+  }
+
+  onLeave(listener: Listener<string>): () => void {
+    return addListener(this.leaveListeners, listener);
+  }
+}
+
+// ============================================================================
+// IN-MEMORY PROVIDER
+// ============================================================================
+
+/**
+ * Provider that talks to an authority in the same JS context.
+ *
+ * Messages are delivered asynchronously (microtask) to mimic a network and
+ * to avoid dispatching a transaction from inside another dispatch.
+ */
+export function createInMemoryCollabProvider(authority: CollabAuthority): CollabProvider {
+  const defer = (fn: () => void) => queueMicrotask(fn);
+
+  return {
+    sendSteps(message) {
+      defer(() => authority.receiveSteps(message));
+    },
+    onSteps(listener) {
+      return authority.onSteps((message) => defer(() => listener(message)));
+    },
+    getStepsSince(version) {
+      return new Promise((resolve) => defer(() => resolve(authority.getStepsSince(version))));
+    },
+    sendPresence(presence) {
+      defer(() => authority.receivePresence(presence));
+    },
+    onPresence(listener) {
+      return authority.onPresence((presence) => defer(() => listener(presence)));
+    },
+    sendLeave(clientId) {
+      defer(() => authority.receiveLeave(clientId));
+    },
+    onLeave(listener) {
+      return authority.onLeave((clientId) => defer(() => listener(clientId)));
+    },
+  };
+}
+
+// ============================================================================
+// BROADCAST CHANNEL PROVIDER
+// ============================================================================
+
+type ChannelMessage =
+  | { type: 'submit'; message: CollabStepsMessage }
+  | { type: 'steps'; message: CollabConfirmedSteps }
+  | { type: 'history'; requestId: string; version: number }
+  | { type: 'historySteps'; requestId: string; message: CollabConfirmedSteps }
+  | { type: 'presence'; presence: CollabPresence }
+  | { type: 'leave'; clientId: string };
+
+/**
+ * Options for the BroadcastChannel provider.
+ */
+export interface BroadcastChannelCollabOptions {
+  /** Channel name shared by all tabs of the session */
+  channelName: string;
+  /** Whether this tab hosts the authority (exactly one tab per session) */
+  host?: boolean;
+  /** Starting version of the host's authority (default: 0) */
+  version?: number;
+}
+
+/**
+ * Provider for editors in different tabs of the same origin.
+ *
+ * The host tab runs a `CollabAuthority` and relays confirmed steps over the
+ * channel; other tabs submit their steps to the host. Call `close()` when the
+ * editor is torn down.
+ */
+export function createBroadcastChannelCollabProvider(
+  options: BroadcastChannelCollabOptions
+): CollabProvider & { close(): void } {
+  const channel = new BroadcastChannel(options.channelName);
+  const authority = options.host ? new CollabAuthority(options.version ?? 0) : null;
+  const stepListeners = new Set<Listener<CollabConfirmedSteps>>();
+  const presenceListeners = new Set<Listener<CollabPresence>>();
+  const leaveListeners = new Set<Listener<string>>();
+  // History requests waiting for the host's answer, by request ID
+  const historyRequests = new Map<string, Listener<CollabConfirmedSteps>>();
+  const tabId = Math.random().toString(36).slice(2);
+  let nextRequestId = 0;
+
+  const post = (message: ChannelMessage) => channel.postMessage(message);
+
+  // The host's own editor and the other tabs both hear confirmed steps
+  const unsubscribeAuthority = authority?.onSteps((message) => {
+    post({ type: 'steps', message });
+    for (const listener of Array.from(stepListeners)) listener(message);
+  });
+
+  channel.onmessage = (event: MessageEvent<ChannelMessage>) => {
+    const data = event.data;
+    switch (data.type) {
+      case 'submit':
+        authority?.receiveSteps(data.message);
+        break;
+      case 'steps':
+        if (!authority) {
+          for (const listener of Array.from(stepListeners)) listener(data.message);
+        }
+        break;
+      case 'history':
+        if (authority) {
+          post({
+            type: 'historySteps',
+            requestId: data.requestId,
+            message: authority.getStepsSince(data.version),
+          });
+        }
+        break;
+      case 'historySteps': {
+        const resolve = historyRequests.get(data.requestId);
+        historyRequests.delete(data.requestId);
+        resolve?.(data.message);
+        break;
+      }
+      case 'presence':
+        for (const listener of Array.from(presenceListeners)) listener(data.presence);
+        break;
+      case 'leave':
+        for (const listener of Array.from(leaveListeners)) listener(data.clientId);
+        break;
+    }
+  };
+
+  return {
+    sendSteps(message) {
+      if (authority) {
+        queueMicrotask(() => authority.receiveSteps(message));
+      } else {
+        post({ type: 'submit', message });
+      }
+    },
+    onSteps(listener) {
+      return addListener(stepListeners, listener);
+    },
+    getStepsSince(version) {
+      if (authority) return Promise.resolve(authority.getStepsSince(version));
+      // Answered by the host tab; stays pending until one is open
+      return new Promise((resolve) => {
+        const requestId = `${tabId}-${nextRequestId++}`;
+        historyRequests.set(requestId, resolve);
+        post({ type: 'history', requestId, version });
+      });
+    },
+    sendPresence(presence) {
+      post({ type: 'presence', presence });
+    },
+    onPresence(listener) {
+      return addListener(presenceListeners, listener);
+    },
+    sendLeave(clientId) {
+      post({ type: 'leave', clientId });
+    },
+    onLeave(listener) {
+      return addListener(leaveListeners, listener);
+    },
+    close() {
+      unsubscribeAuthority?.();
+      historyRequests.clear();
+      channel.close();
+    },
+  };
+}
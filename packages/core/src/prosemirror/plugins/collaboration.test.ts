@@ -0,0 +1,257 @@
+/**
+ * Unit tests for the Collaboration Plugin
+ *
+ * Drives two editor states through an in-memory authority without a view:
+ * local steps are pulled with getSendableMessage and confirmed steps are
+ * applied with createRemoteStepsTransaction, exactly as the plugin view does.
+ * Catching up is tested through the plugin view itself, on a minimal stand-in
+ * for EditorView.
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { Schema } from 'prosemirror-model';
+import { EditorState, TextSelection, type Transaction } from 'prosemirror-state';
+import type { EditorView } from 'prosemirror-view';
+import {
+  createCollaborationPlugins,
+  createRemoteStepsTransaction,
+  createPresenceTransaction,
+  getLocalPresence,
+  getRemotePresences,
+  getSendableMessage,
+  type CollabProvider,
+  type CollabUser,
+} from './collaboration';
+import { CollabAuthority, createInMemoryCollabProvider } from './collabProviders';
+import { createSuggestionModePlugin } from './suggestionMode';
+
+const schema = new Schema({
+  nodes: {
+    doc: { content: 'block+' },
+    paragraph: { group: 'block', content: 'inline*', toDOM: () => ['p', 0] },
+    text: { group: 'inline' },
+  },
+  marks: {
+    insertion: {
+      attrs: {
+        revisionId: { default: 0 },
+        author: { default: '' },
+        date: { default: '' },
+      },
+      toDOM: () => ['ins', 0],
+    },
+    deletion: {
+      attrs: {
+        revisionId: { default: 0 },
+        author: { default: '' },
+        date: { default: '' },
+      },
+      toDOM: () => ['del', 0],
+    },
+  },
+});
+
+// State-only tests never run the plugin view, so the provider is unused
+const noopProvider: CollabProvider = {
+  sendSteps: () => {},
+  onSteps: () => () => {},
+  getStepsSince: (version) => Promise.resolve({ version, steps: [], clientIds: [] }),
+  sendPresence: () => {},
+  onPresence: () => () => {},
+};
+
+const alice: CollabUser = { id: 'alice', name: 'Alice', color: '#e91e63' };
+const bob: CollabUser = { id: 'bob', name: 'Bob', color: '#3f51b5' };
+
+function createClient(
+  user: CollabUser,
+  text: string,
+  suggesting = false,
+  provider = noopProvider
+): EditorState {
+  const doc = schema.node('doc', null, [schema.node('paragraph', null, [schema.text(text)])]);
+  return EditorState.create({
+    doc,
+    plugins: [
+      createSuggestionModePlugin(suggesting, user.name),
+      ...createCollaborationPlugins({ provider, user }),
+    ],
+  });
+}
+
+/** Run the plugin views over a state, the way an EditorView would. */
+function mount(state: EditorState): { state: EditorState; dispatch(tr: Transaction): void } {
+  const view = {
+    state,
+    dispatch(tr: Transaction) {
+      view.state = view.state.apply(tr);
+      for (const pluginView of pluginViews)
+        pluginView.update?.(view as unknown as EditorView, state);
+    },
+  };
+  const pluginViews = state.plugins.flatMap((plugin) =>
+    plugin.spec.view ? [plugin.spec.view(view as unknown as EditorView)] : []
+  );
+  return view;
+}
+
+/** Let the in-memory provider deliver everything in flight. */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+/** Submit a client's pending steps to the authority. */
+function submit(authority: CollabAuthority, state: EditorState): boolean {
+  const message = getSendableMessage(state);
+  return message ? authority.receiveSteps(message) : false;
+}
+
+/** Apply every confirmed step the client hasn't seen yet. */
+function pull(authority: CollabAuthority, state: EditorState, fromVersion: number): EditorState {
+  const tr = createRemoteStepsTransaction(state, authority.getStepsSince(fromVersion));
+  return tr ? state.apply(tr) : state;
+}
+
+function insertAt(state: EditorState, pos: number, text: string): EditorState {
+  const tr = state.tr.insertText(text, pos);
+  const result = state.applyTransaction(tr);
+  return result.state;
+}
+
+function getMarkedText(
+  state: EditorState,
+  markName: string
+): Array<{ text: string; author: string }> {
+  const result: Array<{ text: string; author: string }> = [];
+  state.doc.descendants((node) => {
+    if (!node.isText) return;
+    const mark = node.marks.find((m) => m.type.name === markName);
+    if (mark) result.push({ text: node.text!, author: mark.attrs.author as string });
+  });
+  return result;
+}
+
+describe('collaboration plugin', () => {
+  test('concurrent edits converge through the authority', () => {
+    const authority = new CollabAuthority();
+    let a = createClient(alice, 'Hello world');
+    let b = createClient(bob, 'Hello world');
+
+    a = insertAt(a, 1, 'A: ');
+    b = insertAt(b, 12, '!');
+
+    // Alice wins the race; Bob's submission is stale and rejected
+    expect(submit(authority, a)).toBe(true);
+    expect(submit(authority, b)).toBe(false);
+
+    // Bob rebases on Alice's steps and resubmits
+    b = pull(authority, b, 0);
+    expect(submit(authority, b)).toBe(true);
+
+    a = pull(authority, a, 0);
+    b = pull(authority, b, 0);
+
+    expect(a.doc.textContent).toBe('A: Hello world!');
+    expect(b.doc.textContent).toBe('A: Hello world!');
+    expect(getSendableMessage(a)).toBeNull();
+    expect(getSendableMessage(b)).toBeNull();
+  });
+
+  test('remote suggestions keep their author in a suggesting client', () => {
+    const authority = new CollabAuthority();
+    let a = createClient(alice, 'Hello', true);
+    let b = createClient(bob, 'Hello', true);
+
+    a = insertAt(a, 6, ' there');
+    expect(getMarkedText(a, 'insertion')).toEqual([{ text: ' there', author: 'Alice' }]);
+
+    submit(authority, a);
+    b = pull(authority, b, 0);
+
+    expect(b.doc.textContent).toBe('Hello there');
+    expect(getMarkedText(b, 'insertion')).toEqual([{ text: ' there', author: 'Alice' }]);
+    // Bob has nothing of his own to send back
+    expect(getSendableMessage(b)).toBeNull();
+  });
+
+  test('remote presence is mapped through later edits', () => {
+    let a = createClient(alice, 'Hello world');
+    let b = createClient(bob, 'Hello world');
+
+    // Bob selects "world"
+    b = b.apply(b.tr.setSelection(TextSelection.create(b.doc, 7, 12)));
+    const presenceTr = createPresenceTransaction(a, getLocalPresence(b, bob));
+    expect(presenceTr).not.toBeNull();
+    a = a.apply(presenceTr!);
+
+    expect(getRemotePresences(a)).toEqual([{ user: bob, anchor: 7, head: 12 }]);
+
+    // Alice types before Bob's selection — it shifts right
+    a = insertAt(a, 1, 'Oh, ');
+    expect(getRemotePresences(a)).toEqual([{ user: bob, anchor: 11, head: 16 }]);
+  });
+
+  test('presence from an older version is ignored', () => {
+    const authority = new CollabAuthority();
+    let a = createClient(alice, 'Hello');
+    const b = createClient(bob, 'Hello');
+
+    a = insertAt(a, 1, 'X');
+    submit(authority, a);
+    a = pull(authority, a, 0);
+
+    expect(createPresenceTransaction(a, getLocalPresence(b, bob))).toBeNull();
+  });
+
+  test('presence from a newer version waits for the steps', () => {
+    const authority = new CollabAuthority();
+    let a = createClient(alice, 'Hello');
+    let b = createClient(bob, 'Hello');
+
+    a = insertAt(a, 1, 'X');
+    submit(authority, a);
+    a = pull(authority, a, 0);
+    a = a.apply(a.tr.setSelection(TextSelection.create(a.doc, 2, 4)));
+
+    b = b.apply(createPresenceTransaction(b, getLocalPresence(a, alice))!);
+    expect(getRemotePresences(b)).toEqual([]);
+
+    b = pull(authority, b, 0);
+    expect(getRemotePresences(b)).toEqual([{ user: alice, anchor: 2, head: 4 }]);
+  });
+
+  test('clients that join late or miss steps catch up', async () => {
+    const authority = new CollabAuthority();
+    const a = mount(createClient(alice, 'Hello', false, createInMemoryCollabProvider(authority)));
+    a.dispatch(a.state.tr.insertText('A', 1));
+    await settle();
+    a.dispatch(a.state.tr.insertText('B', 2));
+    await settle();
+    expect(authority.version).toBe(2);
+
+    // Bob starts from the original document and has never seen a step
+    const provider = createInMemoryCollabProvider(authority);
+    let dropNext = false;
+    const b = mount(
+      createClient(bob, 'Hello', false, {
+        ...provider,
+        onSteps: (listener) =>
+          provider.onSteps((message) => {
+            if (dropNext) dropNext = false;
+            else listener(message);
+          }),
+      })
+    );
+    await settle();
+    expect(b.state.doc.textContent).toBe('ABHello');
+
+    // A lost message is noticed on the next one
+    dropNext = true;
+    a.dispatch(a.state.tr.insertText('C', 3));
+    await settle();
+    a.dispatch(a.state.tr.insertText('D', 4));
+    await settle();
+    expect(b.state.doc.textContent).toBe('ABCDHello');
+    expect(a.state.doc.textContent).toBe('ABCDHello');
+  });
+});
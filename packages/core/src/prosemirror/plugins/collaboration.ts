@@ -0,0 +1,420 @@
+/**
+ * Collaboration Plugin
+ *
+ * Real-time collaborative editing on top of prosemirror-collab. Local steps
+ * are sent to a central authority through a pluggable `CollabProvider`;
+ * confirmed steps coming back from the authority are rebased onto the local
+ * state. Presence (remote cursors and selections) travels over the same
+ * provider and is kept in plugin state, mapped through every transaction so
+ * the visible layer can paint it at the right place.
+ *
+ * - Steps are serialized with `Step.toJSON()` — any transport that can carry
+ *   JSON works (WebSocket, BroadcastChannel, in-memory for tests)
+ * - Tracked change marks travel inside the steps, so suggestions made by a
+ *   remote user keep their own author attribution
+ * - Remote transactions are tagged so suggestion mode does not re-mark them
+ *   as insertions by the local author
+ * - A client that finds a gap in the confirmed steps (it joined late or
+ *   missed messages) fetches the missing ones with `getStepsSince`
+ */
+
+import { Plugin, PluginKey, type EditorState, type Transaction } from 'prosemirror-state';
+import { Step } from 'prosemirror-transform';
+import { collab, getVersion, receiveTransaction, sendableSteps } from 'prosemirror-collab';
+import type { EditorView } from 'prosemirror-view';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A participant in a collaborative session.
+ */
+export interface CollabUser {
+  /** Unique client ID (also used as the prosemirror-collab clientID) */
+  id: string;
+  /** Display name shown next to the remote cursor */
+  name: string;
+  /** Cursor/selection color (CSS color) */
+  color: string;
+}
+
+/**
+ * Steps submitted by a client, based on the given document version.
+ */
+export interface CollabStepsMessage {
+  /** Version the steps were created against */
+  version: number;
+  /** Serialized steps (`Step.toJSON()`) */
+  steps: unknown[];
+  /** Submitting client ID */
+  clientId: string;
+}
+
+/**
+ * Steps confirmed by the authority, starting at the given version.
+ */
+export interface CollabConfirmedSteps {
+  /** Version before the first step was applied */
+  version: number;
+  /** Serialized steps (`Step.toJSON()`) */
+  steps: unknown[];
+  /** Client ID for each step (parallel to `steps`) */
+  clientIds: string[];
+}
+
+/**
+ * Cursor/selection of a participant, in PM positions at `version`.
+ */
+export interface CollabPresence {
+  user: CollabUser;
+  anchor: number;
+  head: number;
+  /** Document version the positions refer to */
+  version: number;
+}
+
+/**
+ * Transport between an editor and the collaboration authority.
+ *
+ * Implementations only move messages around — conflict resolution is done by
+ * the authority (which accepts steps only when their version is current) and
+ * by prosemirror-collab on the client.
+ */
+export interface CollabProvider {
+  /** Submit local steps. Rejected submissions are simply ignored by the authority. */
+  sendSteps(message: CollabStepsMessage): void;
+  /** Subscribe to confirmed steps (including this client's own). Returns an unsubscribe function. */
+  onSteps(listener: (message: CollabConfirmedSteps) => void): () => void;
+  /** Fetch all confirmed steps since `version`, to fill a gap in the received ones. */
+  getStepsSince(version: number): Promise<CollabConfirmedSteps>;
+  /** Broadcast this client's cursor/selection. */
+  sendPresence(presence: CollabPresence): void;
+  /** Subscribe to remote presence updates. Returns an unsubscribe function. */
+  onPresence(listener: (presence: CollabPresence) => void): () => void;
+  /** Notify other clients that this client left. */
+  sendLeave?(clientId: string): void;
+  /** Subscribe to clients leaving. Returns an unsubscribe function. */
+  onLeave?(listener: (clientId: string) => void): () => void;
+}
+
+/**
+ * Options for the collaboration plugins.
+ */
+export interface CollaborationOptions {
+  /** Transport to the authority */
+  provider: CollabProvider;
+  /** The local participant */
+  user: CollabUser;
+  /** Version of the document the editor starts from (default: 0) */
+  version?: number;
+}
+
+/**
+ * A remote participant's presence, mapped to the current document.
+ */
+export interface RemotePresence {
+  user: CollabUser;
+  anchor: number;
+  head: number;
+}
+
+interface CollabPresenceState {
+  clientId: string;
+  remotes: Map<string, RemotePresence>;
+  /** Presence from versions this client has not reached yet, by client ID */
+  pending: Map<string, CollabPresence>;
+}
+
+type PresenceMeta =
+  | { type: 'update'; presence: RemotePresence }
+  | { type: 'pending'; presence: CollabPresence }
+  | { type: 'remove'; id: string };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const collabPresenceKey = new PluginKey<CollabPresenceState>('collabPresence');
+
+/** Transaction meta set on transactions that apply steps from other clients */
+const COLLAB_REMOTE_META = 'collabRemote';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Whether a transaction applies steps received from the authority.
+ */
+export function isRemoteTransaction(tr: Transaction): boolean {
+  return tr.getMeta(COLLAB_REMOTE_META) === true;
+}
+
+/**
+ * Build the transaction that applies confirmed steps from the authority.
+ * Returns null when the message does not continue the local version
+ * (a gap or a duplicate). On a gap the caller should fetch the missing
+ * steps with `CollabProvider.getStepsSince`.
+ */
+export function createRemoteStepsTransaction(
+  state: EditorState,
+  message: CollabConfirmedSteps
+): Transaction | null {
+  const version = getVersion(state);
+  if (message.version > version) return null;
+
+  // Skip steps already applied (e.g. a message replayed after reconnect)
+  const skip = version - message.version;
+  if (skip >= message.steps.length) return null;
+
+  const steps = message.steps.slice(skip).map((json) => Step.fromJSON(state.schema, json));
+  const clientIds = message.clientIds.slice(skip);
+
+  const tr = receiveTransaction(state, steps, clientIds, { mapSelectionBackward: true });
+  const ownOnly = clientIds.every((id) => id === getClientId(state));
+  // Confirmations of our own steps don't change the document — only tag real remote edits
+  if (!ownOnly) tr.setMeta(COLLAB_REMOTE_META, true);
+  return tr;
+}
+
+/** Whether a message starts past the local version, so steps are missing */
+function hasStepsGap(state: EditorState, message: CollabConfirmedSteps): boolean {
+  return message.version > getVersion(state);
+}
+
+/**
+ * Collect the unconfirmed local steps as a message for the authority.
+ */
+export function getSendableMessage(state: EditorState): CollabStepsMessage | null {
+  const sendable = sendableSteps(state);
+  if (!sendable) return null;
+  return {
+    version: sendable.version,
+    steps: sendable.steps.map((step) => step.toJSON()),
+    clientId: String(sendable.clientID),
+  };
+}
+
+/**
+ * Build the presence message describing the local selection.
+ */
+export function getLocalPresence(state: EditorState, user: CollabUser): CollabPresence {
+  return {
+    user,
+    anchor: state.selection.anchor,
+    head: state.selection.head,
+    version: getVersion(state),
+  };
+}
+
+/**
+ * Get remote participants' presence, mapped to the current document.
+ */
+export function getRemotePresences(state: EditorState): RemotePresence[] {
+  const pluginState = collabPresenceKey.getState(state);
+  return pluginState ? Array.from(pluginState.remotes.values()) : [];
+}
+
+/**
+ * Get the collaboration client ID configured for this state, if any.
+ */
+export function getClientId(state: EditorState): string | null {
+  return collabPresenceKey.getState(state)?.clientId ?? null;
+}
+
+function clampPosition(state: EditorState, pos: number): number {
+  return Math.max(0, Math.min(pos, state.doc.content.size));
+}
+
+function toRemotePresence(state: EditorState, presence: CollabPresence): RemotePresence {
+  return {
+    user: presence.user,
+    anchor: clampPosition(state, presence.anchor),
+    head: clampPosition(state, presence.head),
+  };
+}
+
+/**
+ * Transaction that records a remote presence update.
+ * Presence that refers to an older version than ours is dropped — the
+ * sender will broadcast again once it catches up. Presence from a newer
+ * version is held until the steps up to that version arrive.
+ */
+export function createPresenceTransaction(
+  state: EditorState,
+  presence: CollabPresence
+): Transaction | null {
+  const version = getVersion(state);
+  if (presence.version < version) return null;
+  const meta: PresenceMeta =
+    presence.version === version
+      ? { type: 'update', presence: toRemotePresence(state, presence) }
+      : { type: 'pending', presence };
+  return state.tr.setMeta(collabPresenceKey, meta).setMeta('addToHistory', false);
+}
+
+/**
+ * Transaction that removes a participant's presence.
+ */
+export function createLeaveTransaction(state: EditorState, clientId: string): Transaction {
+  const meta: PresenceMeta = { type: 'remove', id: clientId };
+  return state.tr.setMeta(collabPresenceKey, meta).setMeta('addToHistory', false);
+}
+
+// ============================================================================
+// PLUGINS
+// ============================================================================
+
+/**
+ * Presence plugin — stores remote cursors and drives the provider connection
+ * through its plugin view (subscribe on mount, push local changes on update).
+ */
+function createPresencePlugin(options: CollaborationOptions): Plugin<CollabPresenceState> {
+  const { provider, user } = options;
+
+  return new Plugin<CollabPresenceState>({
+    key: collabPresenceKey,
+
+    state: {
+      init(): CollabPresenceState {
+        return { clientId: user.id, remotes: new Map(), pending: new Map() };
+      },
+      apply(tr, value, _oldState, newState): CollabPresenceState {
+        const meta = tr.getMeta(collabPresenceKey) as PresenceMeta | undefined;
+        if (!tr.docChanged && !meta) return value;
+
+        const remotes = new Map<string, RemotePresence>();
+        for (const [id, remote] of value.remotes) {
+          remotes.set(
+            id,
+            tr.docChanged
+              ? {
+                  user: remote.user,
+                  anchor: tr.mapping.map(remote.anchor),
+                  head: tr.mapping.map(remote.head),
+                }
+              : remote
+          );
+        }
+
+        const pending = new Map(value.pending);
+        if (meta?.type === 'update' && meta.presence.user.id !== user.id) {
+          remotes.set(meta.presence.user.id, meta.presence);
+          pending.delete(meta.presence.user.id);
+        } else if (meta?.type === 'pending' && meta.presence.user.id !== user.id) {
+          pending.set(meta.presence.user.id, meta.presence);
+        } else if (meta?.type === 'remove') {
+          remotes.delete(meta.id);
+          pending.delete(meta.id);
+        }
+
+        // Held presence becomes current once this client reaches its version
+        if (tr.docChanged) {
+          const version = getVersion(newState);
+          for (const [id, presence] of pending) {
+            if (presence.version > version) continue;
+            if (presence.version === version) remotes.set(id, toRemotePresence(newState, presence));
+            pending.delete(id);
+          }
+        }
+        return { clientId: value.clientId, remotes, pending };
+      },
+    },
+
+    view(view: EditorView) {
+      let lastSentVersion = -1;
+      let lastSentAnchor = -1;
+      let lastSentHead = -1;
+      let requestedVersion = -1;
+      let destroyed = false;
+
+      // Fetch the steps this client missed; one request per local version
+      const catchUp = () => {
+        const version = getVersion(view.state);
+        if (version === requestedVersion) return;
+        requestedVersion = version;
+        provider.getStepsSince(version).then(
+          (message) => {
+            if (destroyed) return;
+            const tr = createRemoteStepsTransaction(view.state, message);
+            if (tr) view.dispatch(tr);
+          },
+          () => {
+            // Ask again on the next gap
+            if (requestedVersion === version) requestedVersion = -1;
+          }
+        );
+      };
+
+      const pushLocal = (state: EditorState) => {
+        const message = getSendableMessage(state);
+        if (message) provider.sendSteps(message);
+
+        const presence = getLocalPresence(state, user);
+        if (
+          presence.version !== lastSentVersion ||
+          presence.anchor !== lastSentAnchor ||
+          presence.head !== lastSentHead
+        ) {
+          lastSentVersion = presence.version;
+          lastSentAnchor = presence.anchor;
+          lastSentHead = presence.head;
+          provider.sendPresence(presence);
+        }
+      };
+
+      const unsubscribers = [
+        provider.onSteps((message) => {
+          if (hasStepsGap(view.state, message)) {
+            catchUp();
+            return;
+          }
+          const tr = createRemoteStepsTransaction(view.state, message);
+          if (tr) view.dispatch(tr);
+        }),
+        provider.onPresence((presence) => {
+          if (presence.user.id === user.id) return;
+          const tr = createPresenceTransaction(view.state, presence);
+          if (tr) view.dispatch(tr);
+          if (presence.version > getVersion(view.state)) catchUp();
+        }),
+      ];
+      if (provider.onLeave) {
+        unsubscribers.push(
+          provider.onLeave((clientId) =>
+            view.dispatch(createLeaveTransaction(view.state, clientId))
+          )
+        );
+      }
+
+      pushLocal(view.state);
+      // Late joiners start from an older version than the session
+      catchUp();
+
+      return {
+        update(updatedView: EditorView) {
+          pushLocal(updatedView.state);
+        },
+        destroy() {
+          destroyed = true;
+          for (const unsubscribe of unsubscribers) unsubscribe();
+          provider.sendLeave?.(user.id);
+        },
+      };
+    },
+  });
+}
+
+/**
+ * Create the plugins needed for collaborative editing.
+ *
+ * Pass the result as external plugins to the editor. All clients must start
+ * from the same document at the same `version`.
+ */
+export function createCollaborationPlugins(options: CollaborationOptions): Plugin[] {
+  return [
+    collab({ version: options.version ?? 0, clientID: options.user.id }),
+    createPresencePlugin(options),
+  ];
+}
@@ -0,0 +1,141 @@
+/**
+ * Tests for the document protection plugin
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { EditorState } from 'prosemirror-state';
+import type { DocumentProtection, Paragraph } from '../../types/document';
+import { createEmptyDocument } from '../../utils/createDocument';
+import { toProseDoc } from '../conversion/toProseDoc';
+import { fromProseDoc } from '../conversion/fromProseDoc';
+import {
+  createDocumentProtectionPlugin,
+  isEditableAt,
+  setDocumentProtection,
+} from './documentProtection';
+
+function run(text: string) {
+  return { type: 'run' as const, content: [{ type: 'text' as const, text }] };
+}
+
+// "Locked [open] locked" / "Everyone may edit" / "Only Ana may edit"
+const PARAGRAPHS: Paragraph[] = [
+  {
+    type: 'paragraph',
+    content: [
+      run('Locked '),
+      { type: 'permStart', id: '1', edGrp: 'everyone' },
+      run('open'),
+      { type: 'permEnd', id: '1' },
+      run(' locked'),
+    ],
+  },
+  {
+    type: 'paragraph',
+    content: [
+      { type: 'permStart', id: '2', edGrp: 'everyone' },
+      run('Everyone may edit'),
+      { type: 'permEnd', id: '2' },
+    ],
+  },
+  {
+    type: 'paragraph',
+    content: [
+      { type: 'permStart', id: '3', ed: 'ana@example.com' },
+      run('Only Ana may edit'),
+      { type: 'permEnd', id: '3' },
+    ],
+  },
+];
+
+function createState(edit: DocumentProtection['edit'], author = 'Ben'): EditorState {
+  const document = createEmptyDocument();
+  document.package.document.content = structuredClone(PARAGRAPHS);
+  return EditorState.create({
+    doc: toProseDoc(document),
+    plugins: [createDocumentProtectionPlugin({ protection: { edit, enforcement: true }, author })],
+  });
+}
+
+/** Position just after the first occurrence of `text` */
+function after(state: EditorState, text: string): number {
+  let found = -1;
+  state.doc.descendants((node, pos) => {
+    if (found < 0 && node.isText && node.text!.includes(text)) {
+      found = pos + node.text!.indexOf(text) + text.length;
+    }
+  });
+  return found;
+}
+
+function insert(state: EditorState, pos: number, text: string): EditorState {
+  return state.apply(state.tr.insertText(text, pos));
+}
+
+describe('document protection', () => {
+  test('read-only documents only change inside editable regions', () => {
+    const state = createState('readOnly');
+
+    expect(insert(state, after(state, 'Lock'), 'X').doc.eq(state.doc)).toBe(true);
+    expect(insert(state, after(state, 'op'), 'X').doc.textContent).toContain('opXen');
+    expect(insert(state, after(state, 'Everyone'), '!').doc.textContent).toContain('Everyone!');
+
+    // Deleting across the region's edge is refused
+    const from = after(state, 'Locked');
+    const to = after(state, 'op');
+    expect(state.apply(state.tr.delete(from, to)).doc.eq(state.doc)).toBe(true);
+  });
+
+  test('regions for a named user only open for that user', () => {
+    const ben = createState('readOnly');
+    const ana = createState('readOnly', 'Ana@example.com');
+    const pos = after(ben, 'Only');
+
+    expect(isEditableAt(ben, pos)).toBe(false);
+    expect(isEditableAt(ana, pos)).toBe(true);
+    expect(insert(ana, pos, '!').doc.textContent).toContain('Only!');
+  });
+
+  test('text typed at a region edge and new paragraphs join the region', () => {
+    let state = createState('readOnly');
+    state = insert(state, after(state, 'open'), 'ed');
+    const document = fromProseDoc(state.doc);
+    const first = document.package.document.content[0] as Paragraph;
+    expect(first.content.map((c) => c.type)).toEqual(['run', 'permStart', 'run', 'permEnd', 'run']);
+
+    // Enter at the end of an editable paragraph starts a plain paragraph
+    const end = after(state, 'Everyone may edit');
+    state = state.apply(state.tr.split(end, 1, [{ type: state.schema.nodes.paragraph }]));
+    const added = state.doc.child(2);
+    expect(added.content.size).toBe(0);
+    expect(added.attrs.permission).toEqual({ id: '2', edGrp: 'everyone' });
+  });
+
+  test('comments protection allows comments anywhere', () => {
+    const state = createState('comments');
+    const mark = state.schema.marks.comment.create({ commentId: 4 });
+    const tr = state.tr.addMark(1, 5, mark);
+    expect(state.apply(tr).doc.eq(state.doc)).toBe(false);
+    expect(insert(state, 2, 'X').doc.eq(state.doc)).toBe(true);
+  });
+
+  test('tracked changes protection keeps suggestions from being accepted', () => {
+    const state = createState('trackedChanges');
+    const insertion = state.schema.marks.insertion.create({ revisionId: 1, author: 'Ana' });
+    const suggested = state.apply(state.tr.addMark(1, 5, insertion));
+    expect(suggested.doc.eq(state.doc)).toBe(false);
+
+    const accepted = suggested.apply(suggested.tr.removeMark(1, 5, insertion));
+    expect(accepted.doc.eq(suggested.doc)).toBe(true);
+    const rejected = suggested.apply(suggested.tr.delete(1, 5));
+    expect(rejected.doc.eq(suggested.doc)).toBe(true);
+  });
+
+  test('lifting protection allows every edit', () => {
+    let state = createState('readOnly');
+    setDocumentProtection({ protection: null }, state, (tr) => {
+      state = state.apply(tr);
+    });
+    expect(insert(state, 2, 'X').doc.textContent.startsWith('LXocked')).toBe(true);
+  });
+});
@@ -0,0 +1,386 @@
+/**
+ * Document Protection Plugin
+ *
+ * Enforces w:documentProtection from settings.xml. Under readOnly, comments
+ * and forms protection, transactions that change the document outside the
+ * editable regions the current user may edit are dropped:
+ *
+ * - readOnly: only editable regions (permStart/permEnd) may change
+ * - comments: editable regions, plus adding and removing comments anywhere
+ * - forms: editable regions, plus the content of content controls
+ * - trackedChanges: everything may change, but tracked changes can't be
+ *   accepted or rejected (the editor also forces suggestion mode)
+ *
+ * Editable regions are the `permission` paragraph attr (whole paragraphs)
+ * and the `permission` mark (part of a paragraph).
+ */
+
+import { Plugin, PluginKey, type EditorState, type Transaction } from 'prosemirror-state';
+import type { Mark, Node as PMNode } from 'prosemirror-model';
+import {
+  AddMarkStep,
+  AddNodeMarkStep,
+  AttrStep,
+  RemoveMarkStep,
+  RemoveNodeMarkStep,
+  type Step,
+} from 'prosemirror-transform';
+import type { DocumentProtection, EditPermission } from '../../types/document';
+import { isRemoteTransaction } from './collaboration';
+
+export const documentProtectionKey = new PluginKey<DocumentProtectionState>('documentProtection');
+const PROTECTION_META = 'documentProtectionApplied';
+
+export interface DocumentProtectionState {
+  /** Protection from the document settings; null when unprotected */
+  protection: DocumentProtection | null;
+  /** Current user, matched against w:ed */
+  author: string;
+  /** Groups the current user belongs to, matched against w:edGrp */
+  groups: string[];
+}
+
+interface PermittedRange {
+  from: number;
+  to: number;
+  permission: EditPermission;
+  /** Region is a whole paragraph (attr) rather than a mark */
+  paragraph: boolean;
+}
+
+// ============================================================================
+// PERMISSIONS
+// ============================================================================
+
+/**
+ * Whether protection restricts editing at all
+ */
+export function isProtectionEnforced(
+  protection: DocumentProtection | null | undefined
+): protection is DocumentProtection {
+  return !!protection && protection.enforcement && protection.edit !== 'none';
+}
+
+/**
+ * Whether a user may edit a region: its group is everyone or one of the
+ * user's groups, or it names the user
+ */
+export function canEditRegion(
+  permission: EditPermission,
+  author: string,
+  groups: readonly string[] = []
+): boolean {
+  const edGrp = permission.edGrp?.toLowerCase();
+  if (edGrp === 'everyone') return true;
+  if (edGrp && groups.some((group) => group.toLowerCase() === edGrp)) return true;
+  return !!permission.ed && permission.ed.toLowerCase() === author.toLowerCase();
+}
+
+function permittedMark(marks: readonly Mark[], state: DocumentProtectionState): Mark | undefined {
+  return marks.find(
+    (mark) =>
+      mark.type.name === 'permission' &&
+      canEditRegion(mark.attrs as EditPermission, state.author, state.groups)
+  );
+}
+
+function permittedParagraph(
+  node: PMNode,
+  state: DocumentProtectionState
+): EditPermission | undefined {
+  const permission = node.attrs.permission as EditPermission | null | undefined;
+  return permission && canEditRegion(permission, state.author, state.groups)
+    ? permission
+    : undefined;
+}
+
+/**
+ * The editable region the user may edit at a position, if any
+ */
+function permissionAt(
+  doc: PMNode,
+  pos: number,
+  state: DocumentProtectionState
+): Omit<PermittedRange, 'from' | 'to'> | null {
+  const $pos = doc.resolve(pos);
+  for (let depth = $pos.depth; depth > 0; depth--) {
+    const node = $pos.node(depth);
+    const paragraphPermission = node.isTextblock ? permittedParagraph(node, state) : undefined;
+    if (paragraphPermission) return { permission: paragraphPermission, paragraph: true };
+    const mark = node.isInline ? permittedMark(node.marks, state) : undefined;
+    if (mark) return { permission: mark.attrs as EditPermission, paragraph: false };
+  }
+  for (const node of [$pos.nodeBefore, $pos.nodeAfter]) {
+    const mark = node?.isInline ? permittedMark(node.marks, state) : undefined;
+    if (mark) return { permission: mark.attrs as EditPermission, paragraph: false };
+  }
+  return null;
+}
+
+/**
+ * Whether every part of a range lies in a region the user may edit.
+ * Paragraph boundaries inside the range need the paragraph itself to be
+ * editable.
+ */
+function isRangePermitted(
+  doc: PMNode,
+  from: number,
+  to: number,
+  state: DocumentProtectionState
+): boolean {
+  if (from === to) return permissionAt(doc, from, state) !== null;
+
+  let permitted = true;
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!permitted) return false;
+    if (node.isTextblock) {
+      if (permittedParagraph(node, state)) return false;
+      const crossesBoundary = from <= pos || to >= pos + node.nodeSize;
+      if (crossesBoundary) permitted = false;
+      return permitted;
+    }
+    if (node.isInline) {
+      if (!permittedMark(node.marks, state)) permitted = false;
+      return false;
+    }
+    if (node.isLeaf) permitted = false;
+    return permitted;
+  });
+  return permitted;
+}
+
+/**
+ * Whether a range lies inside one content control (forms protection)
+ */
+function isInsideContentControl(doc: PMNode, from: number, to: number): boolean {
+  const $from = doc.resolve(from);
+  const $to = doc.resolve(to);
+  const depth = $from.sharedDepth(to);
+  for (let d = depth; d > 0; d--) {
+    if ($from.node(d).type.name === 'sdt' && $to.node(d) === $from.node(d)) return true;
+  }
+  return false;
+}
+
+// ============================================================================
+// STEP CHECKS
+// ============================================================================
+
+/**
+ * Ranges of the document (before the step) a step changes
+ */
+function stepRanges(step: Step): { from: number; to: number }[] {
+  if (step instanceof AddMarkStep || step instanceof RemoveMarkStep) {
+    return [{ from: step.from, to: step.to }];
+  }
+  if (
+    step instanceof AttrStep ||
+    step instanceof AddNodeMarkStep ||
+    step instanceof RemoveNodeMarkStep
+  ) {
+    return [{ from: step.pos, to: step.pos + 1 }];
+  }
+  const ranges: { from: number; to: number }[] = [];
+  step.getMap().forEach((oldFrom, oldTo) => ranges.push({ from: oldFrom, to: oldTo }));
+  return ranges;
+}
+
+function stepMarkName(step: Step): string | null {
+  if (step instanceof AddMarkStep || step instanceof RemoveMarkStep) return step.mark.type.name;
+  return null;
+}
+
+/**
+ * Whether a step may be applied to `doc` under the protection
+ */
+function isStepAllowed(step: Step, doc: PMNode, state: DocumentProtectionState): boolean {
+  const protection = state.protection!;
+
+  if (protection.edit === 'trackedChanges') {
+    return !changesTrackedChanges(step, doc, state.author);
+  }
+
+  if (protection.edit === 'comments' && stepMarkName(step) === 'comment') return true;
+
+  return stepRanges(step).every(
+    ({ from, to }) =>
+      isRangePermitted(doc, from, to, state) ||
+      (protection.edit === 'forms' && isInsideContentControl(doc, from, to))
+  );
+}
+
+/**
+ * Whether a step accepts or rejects a tracked change: removes an insertion
+ * or deletion mark, removes deleted text, or removes another author's
+ * inserted text
+ */
+function changesTrackedChanges(step: Step, doc: PMNode, author: string): boolean {
+  if (step instanceof RemoveMarkStep) {
+    const name = step.mark.type.name;
+    return name === 'insertion' || name === 'deletion';
+  }
+  if (stepMarkName(step)) return false;
+
+  let changes = false;
+  for (const { from, to } of stepRanges(step)) {
+    if (from === to) continue;
+    doc.nodesBetween(from, to, (node) => {
+      if (changes || !node.isInline) return !changes;
+      changes = node.marks.some(
+        (mark) =>
+          mark.type.name === 'deletion' ||
+          (mark.type.name === 'insertion' && mark.attrs.author !== author)
+      );
+      return false;
+    });
+  }
+  return changes;
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+/**
+ * Create the document protection plugin. Place it before the suggestion
+ * mode plugin so suggestions outside editable regions are dropped too.
+ */
+export function createDocumentProtectionPlugin(
+  options: Partial<DocumentProtectionState> = {}
+): Plugin {
+  return new Plugin({
+    key: documentProtectionKey,
+
+    state: {
+      init(): DocumentProtectionState {
+        return {
+          protection: options.protection ?? null,
+          author: options.author ?? 'User',
+          groups: options.groups ?? [],
+        };
+      },
+      apply(tr, state): DocumentProtectionState {
+        const meta = tr.getMeta(documentProtectionKey) as
+          | Partial<DocumentProtectionState>
+          | undefined;
+        return meta ? { ...state, ...meta } : state;
+      },
+    },
+
+    filterTransaction(tr, state) {
+      if (!tr.docChanged || isRemoteTransaction(tr) || tr.getMeta(PROTECTION_META)) return true;
+      const pluginState = documentProtectionKey.getState(state);
+      if (!pluginState || !isProtectionEnforced(pluginState.protection)) return true;
+
+      return tr.steps.every((step, i) => isStepAllowed(step, tr.docs[i], pluginState));
+    },
+
+    // Content added in an editable region joins it: inserted text takes the
+    // region's mark, new empty paragraphs (Enter) take a paragraph region
+    appendTransaction(transactions, _oldState, newState) {
+      const pluginState = documentProtectionKey.getState(newState);
+      if (!pluginState || !isProtectionEnforced(pluginState.protection)) return null;
+      if (pluginState.protection.edit === 'trackedChanges') return null;
+
+      const ranges = collectPermittedRanges(transactions, pluginState);
+      if (ranges.length === 0) return null;
+
+      const tr = newState.tr;
+      tr.setMeta(PROTECTION_META, true);
+      tr.setMeta('addToHistory', false);
+      for (const range of ranges) extendRegion(tr, newState.doc, range, pluginState);
+      return tr.steps.length > 0 ? tr : null;
+    },
+  });
+}
+
+/**
+ * Collect the ranges that permitted steps inserted, mapped to the final
+ * document
+ */
+function collectPermittedRanges(
+  transactions: readonly Transaction[],
+  state: DocumentProtectionState
+): PermittedRange[] {
+  let ranges: PermittedRange[] = [];
+  for (const tr of transactions) {
+    if (!tr.docChanged || isRemoteTransaction(tr) || tr.getMeta(PROTECTION_META)) continue;
+    tr.steps.forEach((step, i) => {
+      const map = step.getMap();
+      ranges = ranges.map((range) => ({
+        ...range,
+        from: map.map(range.from, -1),
+        to: map.map(range.to, 1),
+      }));
+      const region = stepRanges(step)
+        .map(({ from }) => permissionAt(tr.docs[i], from, state))
+        .find(Boolean);
+      if (!region) return;
+      map.forEach((_oldFrom, _oldTo, newFrom, newTo) => {
+        if (newTo > newFrom) ranges.push({ ...region, from: newFrom, to: newTo });
+      });
+    });
+  }
+  return ranges;
+}
+
+function extendRegion(
+  tr: Transaction,
+  doc: PMNode,
+  range: PermittedRange,
+  state: DocumentProtectionState
+): void {
+  const markType = doc.type.schema.marks.permission;
+  if (!markType) return;
+  const { permission } = range;
+
+  doc.nodesBetween(range.from, range.to, (node, pos) => {
+    if (node.isTextblock) {
+      if (permittedParagraph(node, state)) return false;
+      if (node.content.size === 0 && range.paragraph) {
+        tr.setNodeMarkup(pos, undefined, { ...node.attrs, permission });
+        return false;
+      }
+      return true;
+    }
+    if (node.isInline && !range.paragraph && !permittedMark(node.marks, state)) {
+      const from = Math.max(pos, range.from);
+      const to = Math.min(pos + node.nodeSize, range.to);
+      if (from < to) {
+        tr.addMark(from, to, markType.create({ ed: null, edGrp: null, ...permission }));
+      }
+      return false;
+    }
+    return true;
+  });
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Update the protection, user or groups the plugin enforces
+ */
+export function setDocumentProtection(
+  update: Partial<DocumentProtectionState>,
+  state: EditorState,
+  dispatch?: (tr: Transaction) => void
+): boolean {
+  if (!documentProtectionKey.getState(state)) return false;
+  if (dispatch) {
+    dispatch(state.tr.setMeta(documentProtectionKey, update).setMeta('addToHistory', false));
+  }
+  return true;
+}
+
+/**
+ * Whether the current user may edit at a position under the current
+ * protection
+ */
+export function isEditableAt(state: EditorState, pos: number): boolean {
+  const pluginState = documentProtectionKey.getState(state);
+  if (!pluginState || !isProtectionEnforced(pluginState.protection)) return true;
+  if (pluginState.protection.edit === 'trackedChanges') return true;
+  return permissionAt(state.doc, pos, pluginState) !== null;
+}
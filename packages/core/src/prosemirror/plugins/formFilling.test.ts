@@ -0,0 +1,188 @@
+/**
+ * Tests for the form filling plugin
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { EditorState, TextSelection } from 'prosemirror-state';
+import type { InlineSdt, Paragraph, SdtProperties } from '../../types/document';
+import { createEmptyDocument } from '../../utils/createDocument';
+import { toProseDoc } from '../conversion/toProseDoc';
+import {
+  createFormFillingPlugin,
+  findFormControls,
+  getFormValues,
+  moveToFormControl,
+  setFormControlValue,
+  setFormFilling,
+  setFormValues,
+} from './formFilling';
+
+function control(properties: SdtProperties, text: string): InlineSdt {
+  return {
+    type: 'inlineSdt',
+    properties,
+    content: [{ type: 'run', content: [{ type: 'text', text }] }],
+  };
+}
+
+// "Name: [Type a name] Term: [One year] Signed: [☐] Ref: [R-7] Date: [2026-01-05]"
+const PARAGRAPH: Paragraph = {
+  type: 'paragraph',
+  content: [
+    { type: 'run', content: [{ type: 'text', text: 'Name: ' }] },
+    control(
+      {
+        sdtType: 'plainText',
+        tag: 'name',
+        placeholder: 'Type a name',
+        showingPlaceholder: true,
+      },
+      'Type a name'
+    ),
+    { type: 'run', content: [{ type: 'text', text: ' Term: ' }] },
+    control(
+      {
+        sdtType: 'dropdown',
+        alias: 'Term',
+        listItems: [
+          { displayText: 'One year', value: 'P1Y' },
+          { displayText: 'Two years', value: 'P2Y' },
+        ],
+      },
+      'One year'
+    ),
+    { type: 'run', content: [{ type: 'text', text: ' Signed: ' }] },
+    control({ sdtType: 'checkbox', tag: 'signed', checked: false }, '☐'),
+    { type: 'run', content: [{ type: 'text', text: ' Ref: ' }] },
+    control({ sdtType: 'plainText', tag: 'ref', lock: 'contentLocked' }, 'R-7'),
+    { type: 'run', content: [{ type: 'text', text: ' Date: ' }] },
+    control({ sdtType: 'date', tag: 'date', dateFormat: '2026-01-05T00:00:00Z' }, '2026-01-05'),
+  ],
+};
+
+function createState(active = true): EditorState {
+  const document = createEmptyDocument();
+  document.package.document.content = [structuredClone(PARAGRAPH)];
+  return EditorState.create({
+    doc: toProseDoc(document),
+    plugins: [createFormFillingPlugin(active)],
+  });
+}
+
+function run(state: EditorState, command: ReturnType<typeof moveToFormControl>): EditorState {
+  let next = state;
+  command(state, (tr) => {
+    next = state.apply(tr);
+  });
+  return next;
+}
+
+function select(state: EditorState, pos: number): EditorState {
+  return state.apply(state.tr.setSelection(TextSelection.create(state.doc, pos)));
+}
+
+describe('form filling', () => {
+  test('only unlocked controls can be edited', () => {
+    const state = createState();
+    const [name, term, , ref] = findFormControls(state.doc);
+
+    expect(state.apply(state.tr.insertText('X', 2)).doc.eq(state.doc)).toBe(true);
+    expect(state.apply(state.tr.insertText('X', ref.pos + 2)).doc.eq(state.doc)).toBe(true);
+    // Dropdowns are picked, not typed
+    expect(state.apply(state.tr.insertText('X', term.pos + 2)).doc.eq(state.doc)).toBe(true);
+    expect(state.apply(state.tr.insertText('X', name.pos + 2)).doc.eq(state.doc)).toBe(false);
+
+    // Outside form filling mode everything is editable
+    const editing = createState(false);
+    expect(editing.apply(editing.tr.insertText('X', 2)).doc.eq(editing.doc)).toBe(false);
+  });
+
+  test('Tab moves between editable controls and wraps around', () => {
+    let state = createState();
+    const date = findFormControls(state.doc)[4];
+
+    const visited: number[] = [];
+    for (let i = 0; i < 5; i++) {
+      state = run(state, moveToFormControl(1));
+      visited.push(
+        findFormControls(state.doc).findIndex((c) => c.pos + 1 === state.selection.from)
+      );
+    }
+    // The locked reference is skipped
+    expect(visited).toEqual([0, 1, 2, 4, 0]);
+
+    // Shift+Tab wraps back to the end and selects the control's content
+    state = run(state, moveToFormControl(-1));
+    expect(state.selection.from).toBe(date.pos + 1);
+    expect(state.selection.to).toBe(date.pos + date.node.nodeSize - 1);
+  });
+
+  test('placeholder text clears on entering a control and returns when left empty', () => {
+    let state = createState();
+    const name = findFormControls(state.doc)[0];
+
+    state = select(state, name.pos + 2);
+    let node = state.doc.nodeAt(name.pos)!;
+    expect(node.content.size).toBe(0);
+    expect(node.attrs.showingPlaceholder).toBe(false);
+    expect(state.selection.from).toBe(name.pos + 1);
+    expect(getFormValues(state.doc).name).toBe('');
+
+    state = select(state, 2);
+    node = state.doc.nodeAt(name.pos)!;
+    expect(node.textContent).toBe('Type a name');
+    expect(node.attrs.showingPlaceholder).toBe(true);
+
+    // Typed text stays
+    state = select(state, name.pos + 2);
+    state = state.apply(state.tr.insertText('Ana', name.pos + 1));
+    state = select(state, 2);
+    expect(state.doc.nodeAt(name.pos)!.textContent).toBe('Ana');
+    expect(getFormValues(state.doc).name).toBe('Ana');
+  });
+
+  test('values are read and written by tag or alias', () => {
+    let state = createState();
+    expect(getFormValues(state.doc)).toEqual({
+      name: '',
+      Term: 'P1Y',
+      signed: false,
+      ref: 'R-7',
+      date: '2026-01-05T00:00:00Z',
+    });
+
+    state = run(
+      state,
+      setFormValues({
+        name: 'Globex',
+        Term: 'P2Y',
+        signed: true,
+        ref: 'R-8',
+        date: '2026-02-01',
+        missing: 'x',
+      })
+    );
+    expect(getFormValues(state.doc)).toEqual({
+      name: 'Globex',
+      Term: 'P2Y',
+      signed: true,
+      // Locked controls keep their content
+      ref: 'R-7',
+      date: '2026-02-01T00:00:00Z',
+    });
+    expect(state.doc.textContent).toContain('Term: Two years Signed: ☒');
+    expect(state.doc.textContent).toContain('Date: 2026-02-01');
+  });
+
+  test('checkboxes are set through commands and the mode can be switched off', () => {
+    let state = createState();
+    const signed = findFormControls(state.doc)[2];
+
+    state = run(state, setFormControlValue(signed.pos, true));
+    expect(state.doc.nodeAt(signed.pos)!.attrs.checked).toBe(true);
+    expect(state.doc.nodeAt(signed.pos)!.textContent).toBe('☒');
+
+    state = run(state, (s, dispatch) => setFormFilling(false, s, dispatch));
+    expect(state.apply(state.tr.insertText('X', 2)).doc.eq(state.doc)).toBe(false);
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Form Filling Plugin
+ *
+ * Turns a document with content controls into a form. While active:
+ *
+ * - only the content of unlocked content controls may change; dropdowns and
+ *   checkboxes change through `setFormControlValue` (pickers, Space) only
+ * - Tab / Shift+Tab move to the next / previous control and select its content
+ * - placeholder text is cleared when the cursor enters a control, and comes
+ *   back if the control is left empty
+ *
+ * Controls are keyed by their tag, or their alias when they have no tag, for
+ * reading and writing values in one go (`getFormValues` / `setFormValues`).
+ */
+
+import {
+  Plugin,
+  PluginKey,
+  TextSelection,
+  type Command,
+  type EditorState,
+  type Transaction,
+} from 'prosemirror-state';
+import { Fragment, type Mark, type Node as PMNode } from 'prosemirror-model';
+import { AttrStep, type Step } from 'prosemirror-transform';
+import type { SdtType } from '../../types/document';
+import { isRemoteTransaction } from './collaboration';
+
+export const formFillingKey = new PluginKey<FormFillingState>('formFilling');
+const FORM_META = 'formFillingApplied';
+
+export interface FormFillingState {
+  /** Whether the editor is in form filling mode */
+  active: boolean;
+  /** Control whose placeholder was cleared on entering it, with the placeholder */
+  cleared: { pos: number; content: Fragment } | null;
+}
+
+/**
+ * A content control in the document
+ */
+export interface FormControl {
+  /** Position of the sdt node */
+  pos: number;
+  node: PMNode;
+  /** Tag, or alias when there is no tag */
+  key: string | null;
+  sdtType: SdtType;
+  /** Whether the content may be changed */
+  editable: boolean;
+}
+
+/** Value of a control: checkboxes are booleans, other controls text */
+export type FormValue = string | boolean;
+
+/** Controls whose value is picked rather than typed */
+const PICKED_TYPES: SdtType[] = ['checkbox', 'dropdown'];
+/** Controls that hold no fillable text */
+const STRUCTURAL_TYPES: SdtType[] = ['group', 'buildingBlockGallery', 'picture'];
+
+// ============================================================================
+// CONTROLS
+// ============================================================================
+
+/**
+ * Whether a content control's content may be filled in
+ */
+export function isFormControlEditable(node: PMNode): boolean {
+  const lock = node.attrs.lock as string | null;
+  return (
+    lock !== 'contentLocked' &&
+    lock !== 'sdtContentLocked' &&
+    !STRUCTURAL_TYPES.includes(node.attrs.sdtType as SdtType)
+  );
+}
+
+function toFormControl(node: PMNode, pos: number): FormControl {
+  return {
+    pos,
+    node,
+    key: (node.attrs.tag as string | null) || (node.attrs.alias as string | null) || null,
+    sdtType: node.attrs.sdtType as SdtType,
+    editable: isFormControlEditable(node),
+  };
+}
+
+/**
+ * All content controls in document order
+ */
+export function findFormControls(doc: PMNode): FormControl[] {
+  const controls: FormControl[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name !== 'sdt') return true;
+    controls.push(toFormControl(node, pos));
+    return false;
+  });
+  return controls;
+}
+
+/**
+ * The content control containing a position (default: the selection head)
+ */
+export function formControlAt(state: EditorState, pos = state.selection.head): FormControl | null {
+  const $pos = state.doc.resolve(pos);
+  for (let depth = $pos.depth; depth > 0; depth--) {
+    const node = $pos.node(depth);
+    if (node.type.name === 'sdt') return toFormControl(node, $pos.before(depth));
+  }
+  return null;
+}
+
+/**
+ * Whether a range lies inside the content of one control
+ */
+function controlContaining(doc: PMNode, from: number, to: number): FormControl | null {
+  const $from = doc.resolve(from);
+  for (let depth = $from.sharedDepth(to); depth > 0; depth--) {
+    const node = $from.node(depth);
+    if (node.type.name === 'sdt') return toFormControl(node, $from.before(depth));
+  }
+  return null;
+}
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+/**
+ * Value a control holds
+ */
+export function getFormControlValue(node: PMNode): FormValue {
+  const attrs = node.attrs;
+  const text = attrs.showingPlaceholder ? '' : node.textContent;
+  switch (attrs.sdtType as SdtType) {
+    case 'checkbox':
+      return !!attrs.checked;
+    case 'dropdown':
+    case 'comboBox':
+      return getFormControlItems(node).find((item) => item.displayText === text)?.value ?? text;
+    case 'date':
+      // The full date when the shown text is still the picked date
+      return attrs.dateFormat && text ? (attrs.dateFormat as string) : text;
+    default:
+      return text;
+  }
+}
+
+/**
+ * Values of all keyed controls. With several controls sharing a key the
+ * first one wins.
+ */
+export function getFormValues(doc: PMNode): Record<string, FormValue> {
+  const values: Record<string, FormValue> = {};
+  for (const control of findFormControls(doc)) {
+    if (control.key === null || control.key in values) continue;
+    values[control.key] = getFormControlValue(control.node);
+  }
+  return values;
+}
+
+/**
+ * Items of a dropdown or combo box control
+ */
+export function getFormControlItems(node: PMNode): { displayText: string; value: string }[] {
+  if (!node.attrs.listItems) return [];
+  try {
+    return JSON.parse(node.attrs.listItems as string);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Write a value into a control: checkboxes toggle their glyph, dropdowns
+ * show the matching item's text, dates take `yyyy-MM-dd` or a full date
+ */
+function writeControlValue(tr: Transaction, control: FormControl, value: FormValue): void {
+  const node = tr.doc.nodeAt(control.pos);
+  if (!node) return;
+  const attrs: Record<string, unknown> = { ...node.attrs, showingPlaceholder: false };
+  let text: string;
+
+  switch (control.sdtType) {
+    case 'checkbox':
+      attrs.checked = value === true || value === 'true' || value === '1';
+      text = attrs.checked ? '☒' : '☐';
+      break;
+    case 'dropdown':
+    case 'comboBox': {
+      const item = getFormControlItems(node).find(
+        (i) => i.value === value || i.displayText === value
+      );
+      text = item ? item.displayText : String(value);
+      break;
+    }
+    case 'date': {
+      text = String(value);
+      const date = /^(\d{4}-\d{2}-\d{2})(T.*)?$/.exec(text);
+      if (date) {
+        attrs.dateFormat = date[2] ? text : `${text}T00:00:00Z`;
+        text = date[1];
+      }
+      break;
+    }
+    default:
+      text = String(value);
+  }
+
+  for (const [name, attr] of Object.entries(attrs)) {
+    if (node.attrs[name] !== attr) tr.setNodeAttribute(control.pos, name, attr);
+  }
+  if (node.textContent !== text) {
+    // Keep the formatting of the first run
+    let marks: readonly Mark[] | undefined;
+    node.descendants((child) => {
+      if (!marks && child.isText) marks = child.marks;
+      return !marks;
+    });
+    const content = text ? node.type.schema.text(text, marks) : Fragment.empty;
+    tr.replaceWith(control.pos + 1, control.pos + node.nodeSize - 1, content);
+  }
+}
+
+/**
+ * Set the value of the control at a position
+ */
+export function setFormControlValue(pos: number, value: FormValue): Command {
+  return (state, dispatch) => {
+    const node = state.doc.nodeAt(pos);
+    if (!node || node.type.name !== 'sdt' || !isFormControlEditable(node)) return false;
+    if (dispatch) {
+      const tr = state.tr.setMeta(FORM_META, true);
+      writeControlValue(tr, toFormControl(node, pos), value);
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
+/**
+ * Fill in several controls by key. Keys without a control are ignored;
+ * locked controls keep their content.
+ */
+export function setFormValues(values: Record<string, FormValue>): Command {
+  return (state, dispatch) => {
+    const controls = findFormControls(state.doc).filter(
+      (control) => control.editable && control.key !== null && control.key in values
+    );
+    if (controls.length === 0) return false;
+    if (dispatch) {
+      const tr = state.tr.setMeta(FORM_META, true);
+      for (const control of controls) {
+        const pos = tr.mapping.map(control.pos);
+        writeControlValue(tr, { ...control, pos }, values[control.key!]);
+      }
+      if (tr.docChanged) dispatch(tr);
+    }
+    return true;
+  };
+}
+
+// ============================================================================
+// NAVIGATION
+// ============================================================================
+
+/**
+ * Move to the next (1) or previous (-1) editable control, wrapping around,
+ * and select its content
+ */
+export function moveToFormControl(direction: 1 | -1): Command {
+  return (state, dispatch) => {
+    const controls = findFormControls(state.doc).filter((control) => control.editable);
+    if (controls.length === 0) return false;
+
+    const current = formControlAt(state);
+    const head = current ? current.pos : state.selection.head;
+    const target =
+      direction === 1
+        ? (controls.find((c) => c.pos > head) ?? controls[0])
+        : ([...controls].reverse().find((c) => c.pos < head) ?? controls[controls.length - 1]);
+
+    if (dispatch) {
+      const from = target.pos + 1;
+      const to = target.pos + target.node.nodeSize - 1;
+      dispatch(state.tr.setSelection(TextSelection.create(state.doc, from, to)).scrollIntoView());
+    }
+    return true;
+  };
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+function isStepAllowed(step: Step, doc: PMNode, fromPlugin: boolean): boolean {
+  if (step instanceof AttrStep) {
+    const node = doc.nodeAt(step.pos);
+    return !!node && node.type.name === 'sdt' && isFormControlEditable(node) && fromPlugin;
+  }
+  let allowed = true;
+  step.getMap().forEach((from, to) => {
+    const control = allowed ? controlContaining(doc, from, to) : null;
+    if (!control?.editable || (PICKED_TYPES.includes(control.sdtType) && !fromPlugin)) {
+      allowed = false;
+    }
+  });
+  return allowed;
+}
+
+/**
+ * Create the form filling plugin. Place it before keymaps so Tab reaches it.
+ */
+export function createFormFillingPlugin(initialActive = false): Plugin {
+  return new Plugin({
+    key: formFillingKey,
+
+    state: {
+      init(): FormFillingState {
+        return { active: initialActive, cleared: null };
+      },
+      apply(tr, value): FormFillingState {
+        let next = value;
+        if (next.cleared && tr.docChanged) {
+          next = { ...next, cleared: { ...next.cleared, pos: tr.mapping.map(next.cleared.pos) } };
+        }
+        const meta = tr.getMeta(formFillingKey) as Partial<FormFillingState> | undefined;
+        return meta ? { ...next, ...meta } : next;
+      },
+    },
+
+    filterTransaction(tr, state) {
+      if (!tr.docChanged || isRemoteTransaction(tr)) return true;
+      if (!formFillingKey.getState(state)?.active) return true;
+      const fromPlugin = !!tr.getMeta(FORM_META);
+      return tr.steps.every((step, i) => isStepAllowed(step, tr.docs[i], fromPlugin));
+    },
+
+    // Clear a placeholder when the cursor enters its control; put it back
+    // when the control is left empty
+    appendTransaction(transactions, oldState, newState) {
+      const pluginState = formFillingKey.getState(newState);
+      if (!pluginState) return null;
+      if (!transactions.some((tr) => tr.selectionSet || tr.docChanged)) return null;
+
+      const tr = newState.tr.setMeta(FORM_META, true).setMeta('addToHistory', false);
+      const { cleared } = pluginState;
+      const current = pluginState.active ? formControlAt(newState) : null;
+
+      if (cleared && current?.pos !== cleared.pos) {
+        const node = newState.doc.nodeAt(cleared.pos);
+        if (node?.type.name === 'sdt' && node.content.size === 0) {
+          tr.insert(cleared.pos + 1, cleared.content);
+          tr.setNodeAttribute(cleared.pos, 'showingPlaceholder', true);
+        }
+        tr.setMeta(formFillingKey, { cleared: null });
+      }
+
+      if (
+        current?.editable &&
+        current.node.attrs.showingPlaceholder &&
+        !PICKED_TYPES.includes(current.sdtType) &&
+        formControlAt(oldState)?.pos !== current.pos
+      ) {
+        const pos = tr.mapping.map(current.pos);
+        const node = tr.doc.nodeAt(pos)!;
+        tr.delete(pos + 1, pos + node.nodeSize - 1);
+        tr.setNodeAttribute(pos, 'showingPlaceholder', false);
+        tr.setSelection(TextSelection.create(tr.doc, pos + 1));
+        tr.setMeta(formFillingKey, { cleared: { pos, content: node.content } });
+      }
+
+      return tr.docChanged || tr.getMeta(formFillingKey) ? tr : null;
+    },
+
+    props: {
+      handleKeyDown(view, event) {
+        if (!formFillingKey.getState(view.state)?.active) return false;
+        if (event.key === 'Tab' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+          event.preventDefault();
+          return moveToFormControl(event.shiftKey ? -1 : 1)(view.state, view.dispatch);
+        }
+        if (event.key === ' ' && !event.ctrlKey && !event.metaKey) {
+          const control = formControlAt(view.state);
+          if (control?.sdtType === 'checkbox' && control.editable) {
+            event.preventDefault();
+            return setFormControlValue(control.pos, !control.node.attrs.checked)(
+              view.state,
+              view.dispatch
+            );
+          }
+        }
+        return false;
+      },
+    },
+  });
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Turn form filling mode on or off
+ */
+export function setFormFilling(
+  active: boolean,
+  state: EditorState,
+  dispatch?: (tr: Transaction) => void
+): boolean {
+  if (!formFillingKey.getState(state)) return false;
+  if (dispatch) {
+    dispatch(state.tr.setMeta(formFillingKey, { active }).setMeta('addToHistory', false));
+  }
+  return true;
+}
+
+/**
+ * Whether form filling mode is on
+ */
+export function isFormFillingActive(state: EditorState): boolean {
+  return formFillingKey.getState(state)?.active ?? false;
+}
@@ -1,15 +1,47 @@
 /**
  * ProseMirror Plugins
  *
- * Selection tracker plugin for the DOCX editor.
+ * Selection tracker and collaboration plugins for the DOCX editor.
  * Keymap plugins are now provided by the extension system.
  */
 
 export {
   createSelectionTrackerPlugin,
   extractSelectionContext,
+  getAISelectionContext,
   getSelectionContext,
   selectionTrackerKey,
 } from './selectionTracker';
 
 export type { SelectionContext, SelectionChangeCallback } from './selectionTracker';
+
+export {
+  createCollaborationPlugins,
+  collabPresenceKey,
+  isRemoteTransaction,
+  createRemoteStepsTransaction,
+  createPresenceTransaction,
+  createLeaveTransaction,
+  getSendableMessage,
+  getLocalPresence,
+  getRemotePresences,
+  getClientId,
+} from './collaboration';
+
+export type {
+  CollabUser,
+  CollabProvider,
+  CollabStepsMessage,
+  CollabConfirmedSteps,
+  CollabPresence,
+  CollaborationOptions,
+  RemotePresence,
+} from './collaboration';
+
+export {
+  CollabAuthority,
+  createInMemoryCollabProvider,
+  createBroadcastChannelCollabProvider,
+} from './collabProviders';
+
+export type { BroadcastChannelCollabOptions } from './collabProviders';
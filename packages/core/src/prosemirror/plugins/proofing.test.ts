@@ -0,0 +1,156 @@
+/**
+ * Tests for the proofing plugin
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { EditorState, type Command, type Transaction } from 'prosemirror-state';
+import type { Paragraph, Run } from '../../types/document';
+import type { TextFormatting } from '../../types/formatting';
+import { createEmptyDocument } from '../../utils/createDocument';
+import { toProseDoc } from '../conversion/toProseDoc';
+import {
+  applyProofingReplacement,
+  createProofingPlugin,
+  dismissProofingIssue,
+  getProofingIssueAt,
+  getProofingIssues,
+  runProofing,
+  type ProofingProvider,
+} from './proofing';
+import { createRuleBasedProofingProvider } from './proofingRules';
+
+function run(text: string, formatting?: TextFormatting): Run {
+  return { type: 'run', formatting, content: [{ type: 'text', text }] };
+}
+
+function paragraph(...content: Run[]): Paragraph {
+  return { type: 'paragraph', content };
+}
+
+/** Holds the current state the way an editor view does */
+function createView(paragraphs: Paragraph[], providers: ProofingProvider[]) {
+  const document = createEmptyDocument();
+  document.package.document.content = paragraphs;
+  return {
+    state: EditorState.create({
+      doc: toProseDoc(document),
+      plugins: [createProofingPlugin(providers)],
+    }),
+    dispatch(tr: Transaction) {
+      this.state = this.state.apply(tr);
+    },
+    run(command: Command) {
+      return command(this.state, (tr) => this.dispatch(tr));
+    },
+  };
+}
+
+function issueTexts(state: EditorState): string[] {
+  return getProofingIssues(state).map((issue) => issue.text);
+}
+
+const rules = createRuleBasedProofingProvider({
+  bannedTerms: [{ term: 'best efforts', replacements: ['reasonable efforts'] }],
+});
+
+describe('proofing', () => {
+  test('locates provider matches in the document', async () => {
+    const view = createView(
+      [paragraph(run('Use best '), run('efforts', { bold: true }), run(' to pay the the fee.'))],
+      [rules]
+    );
+    await runProofing(view);
+
+    const issues = getProofingIssues(view.state);
+    expect(issueTexts(view.state)).toEqual(['best efforts', ' the']);
+    expect(issues[0]).toMatchObject({ category: 'terminology', ruleId: 'banned-term' });
+    expect(view.state.doc.textBetween(issues[0].from, issues[0].to)).toBe('best efforts');
+    expect(getProofingIssueAt(view.state, issues[1].from + 1)?.ruleId).toBe('repeated-word');
+  });
+
+  test('only changed paragraphs are sent again', async () => {
+    const batches: string[][] = [];
+    const provider: ProofingProvider = {
+      id: 'spy',
+      check(paragraphs) {
+        batches.push(paragraphs.map((p) => p.text));
+        return rules.check(paragraphs);
+      },
+    };
+    const view = createView(
+      [paragraph(run('The the end.')), paragraph(run('It was paid.'))],
+      [provider]
+    );
+    await runProofing(view);
+    expect(batches).toEqual([['The the end.', 'It was paid.']]);
+    const [, passive] = getProofingIssues(view.state);
+
+    view.dispatch(view.state.tr.insertText('!', 4, 8));
+    expect(issueTexts(view.state)).toEqual(['was paid']);
+    expect(getProofingIssues(view.state)[0].from).toBe(passive.from - 3);
+
+    await runProofing(view);
+    expect(batches[1]).toEqual(['The! end.']);
+    expect(issueTexts(view.state)).toEqual(['was paid']);
+  });
+
+  test('answers for paragraphs edited in the meantime are dropped', async () => {
+    let answer = () => {};
+    const provider: ProofingProvider = {
+      id: 'slow',
+      check: (paragraphs) =>
+        new Promise((resolve) => {
+          answer = () => resolve(rules.check(paragraphs));
+        }),
+    };
+    const view = createView([paragraph(run('The the end.'))], [provider]);
+    const done = runProofing(view);
+
+    view.dispatch(view.state.tr.insertText('x', 12));
+    answer();
+    await done;
+    expect(getProofingIssues(view.state)).toEqual([]);
+
+    // The edited paragraph is sent again
+    const again = runProofing(view);
+    answer();
+    await again;
+    expect(issueTexts(view.state)).toEqual([' the']);
+  });
+
+  test('replacements fix issues and dismissed issues stay hidden', async () => {
+    const view = createView([paragraph(run('Use best efforts and best efforts.'))], [rules]);
+    await runProofing(view);
+    const [first] = getProofingIssues(view.state);
+
+    expect(view.run(applyProofingReplacement(first, 'reasonable efforts'))).toBe(true);
+    expect(view.state.doc.textContent).toBe('Use reasonable efforts and best efforts.');
+    // The issue range no longer holds the flagged text
+    expect(view.run(applyProofingReplacement(first, 'x'))).toBe(false);
+
+    await runProofing(view);
+    const [second] = getProofingIssues(view.state);
+    view.run(dismissProofingIssue(second));
+    expect(getProofingIssues(view.state)).toEqual([]);
+
+    view.dispatch(view.state.tr.insertText(' Again', view.state.doc.content.size - 1));
+    await runProofing(view);
+    expect(getProofingIssues(view.state)).toEqual([]);
+  });
+
+  test('matches in noProof runs are dropped and failing providers are skipped', async () => {
+    const failing: ProofingProvider = {
+      id: 'failing',
+      check: () => Promise.reject(new Error('offline')),
+    };
+    const warn = console.warn;
+    console.warn = () => {};
+    const view = createView(
+      [paragraph(run('was paid', { noProof: true }), run(' and the the end'))],
+      [failing, rules]
+    );
+    await runProofing(view);
+    console.warn = warn;
+    expect(issueTexts(view.state)).toEqual([' the']);
+  });
+});
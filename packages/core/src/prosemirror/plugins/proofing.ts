@@ -0,0 +1,431 @@
+/**
+ * Proofing Plugin
+ *
+ * Runs grammar and style checkers ("proofing providers") over the document:
+ *
+ * - providers receive the text of changed paragraphs only, in batches, and
+ *   answer with matches relative to that text
+ * - a provider may answer asynchronously; answers for paragraphs edited in
+ *   the meantime are dropped, and the paragraphs are sent again
+ * - matches overlapping w:noProof runs are dropped
+ *
+ * Matches become issues with document positions (`getProofingIssues`) which
+ * the layout painter draws as colored underlines. Issues can be fixed with
+ * one of their suggested replacements or dismissed for the session.
+ */
+
+import {
+  Plugin,
+  PluginKey,
+  type Command,
+  type EditorState,
+  type Transaction,
+} from 'prosemirror-state';
+import type { Node as PMNode } from 'prosemirror-model';
+import { getChangedTextblockRanges, getTextblockText } from '../utils/textblockText';
+
+export const proofingKey = new PluginKey<ProofingState>('proofing');
+
+export type ProofingCategory = 'grammar' | 'style' | 'terminology';
+
+/**
+ * A paragraph sent to proofing providers
+ */
+export interface ProofingParagraph {
+  /** Identifies the paragraph in the matches */
+  id: string;
+  /** Paragraph text; inline objects appear as U+FFFC */
+  text: string;
+  /** Language of the paragraph (w:lang of its first run) */
+  lang: string | null;
+}
+
+/**
+ * A problem a provider found in a paragraph
+ */
+export interface ProofingMatch {
+  paragraphId: string;
+  /** Start of the match in the paragraph text */
+  offset: number;
+  length: number;
+  message: string;
+  /** Suggested replacements for the matched text, best first */
+  replacements?: string[];
+  ruleId?: string;
+  /** Defaults to 'grammar' */
+  category?: ProofingCategory;
+}
+
+/**
+ * A grammar or style checker
+ */
+export interface ProofingProvider {
+  id: string;
+  /** Shown in the proofing summary */
+  name?: string;
+  /** Check a batch of changed paragraphs */
+  check(paragraphs: ProofingParagraph[]): ProofingMatch[] | Promise<ProofingMatch[]>;
+}
+
+/**
+ * A proofing match located in the document
+ */
+export interface ProofingIssue {
+  id: string;
+  providerId: string;
+  from: number;
+  to: number;
+  /** Text the issue covers */
+  text: string;
+  message: string;
+  replacements: string[];
+  ruleId: string | null;
+  category: ProofingCategory;
+}
+
+export interface ProofingOptions {
+  /** Wait after the last change before calling providers, in ms (default 300) */
+  delay?: number;
+}
+
+interface PendingParagraph {
+  pos: number;
+  /** Providers that have not answered yet */
+  waiting: Set<string>;
+}
+
+export interface ProofingState {
+  issues: ProofingIssue[];
+  /** Positions of paragraphs that need checking */
+  dirty: number[];
+  /** Paragraphs sent to providers, by paragraph id */
+  pending: Map<string, PendingParagraph>;
+  /** Keys of dismissed issues */
+  dismissed: Set<string>;
+  providers: ProofingProvider[];
+}
+
+type ProofingMeta =
+  | { type: 'request'; paragraphs: { id: string; pos: number }[] }
+  | { type: 'results'; providerId: string; paragraphIds: string[]; matches: ProofingMatch[] }
+  | { type: 'dismiss'; issue: ProofingIssue };
+
+const DEFAULT_DELAY = 300;
+
+let nextRequestId = 0;
+let nextIssueId = 0;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getDismissKey(issue: ProofingIssue): string {
+  return [issue.providerId, issue.ruleId ?? '', issue.message, issue.text].join('|');
+}
+
+function collectTextblocks(doc: PMNode, from: number, to: number, into: number[]): void {
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isTextblock) return true;
+    into.push(pos);
+    return false;
+  });
+}
+
+/**
+ * Turn provider matches for one paragraph into issues
+ */
+function locateMatches(
+  providerId: string,
+  node: PMNode,
+  pos: number,
+  matches: ProofingMatch[],
+  dismissed: Set<string>
+): ProofingIssue[] {
+  const { text, chars } = getTextblockText(node, pos);
+  const issues: ProofingIssue[] = [];
+  for (const match of matches) {
+    const start = Math.max(0, match.offset);
+    const end = Math.min(text.length, match.offset + match.length);
+    if (end <= start) continue;
+    const matchChars = chars.slice(start, end);
+    if (matchChars.some((info) => info.noProof)) continue;
+    const issue: ProofingIssue = {
+      id: `proofing-${++nextIssueId}`,
+      providerId,
+      from: matchChars[0].pos,
+      to: matchChars[matchChars.length - 1].pos + 1,
+      text: text.slice(start, end),
+      message: match.message,
+      replacements: match.replacements ?? [],
+      ruleId: match.ruleId ?? null,
+      category: match.category ?? 'grammar',
+    };
+    if (!dismissed.has(getDismissKey(issue))) issues.push(issue);
+  }
+  return issues;
+}
+
+/**
+ * Current text of an issue range, as providers see it
+ */
+function getIssueText(doc: PMNode, issue: ProofingIssue): string | null {
+  if (issue.to > doc.content.size) return null;
+  const $from = doc.resolve(issue.from);
+  if (!$from.parent.isTextblock || $from.end() < issue.to) return null;
+  const { text, chars } = getTextblockText($from.parent, $from.before());
+  let result = '';
+  chars.forEach((info, i) => {
+    if (info.pos >= issue.from && info.pos < issue.to) result += text[i];
+  });
+  return result;
+}
+
+function applyMeta(meta: ProofingMeta, value: ProofingState, doc: PMNode): ProofingState {
+  if (meta.type === 'dismiss') {
+    const key = getDismissKey(meta.issue);
+    const dismissed = new Set(value.dismissed).add(key);
+    return {
+      ...value,
+      dismissed,
+      issues: value.issues.filter((issue) => getDismissKey(issue) !== key),
+    };
+  }
+
+  const pending = new Map(value.pending);
+  if (meta.type === 'request') {
+    const waiting = value.providers.map((provider) => provider.id);
+    for (const { id, pos } of meta.paragraphs) pending.set(id, { pos, waiting: new Set(waiting) });
+    return { ...value, dirty: [], pending };
+  }
+
+  const matchesById = new Map<string, ProofingMatch[]>();
+  for (const match of meta.matches) {
+    const list = matchesById.get(match.paragraphId) ?? [];
+    list.push(match);
+    matchesById.set(match.paragraphId, list);
+  }
+  const issues = [...value.issues];
+  for (const id of meta.paragraphIds) {
+    const entry = pending.get(id);
+    // The paragraph was edited after the request
+    if (!entry || !entry.waiting.has(meta.providerId)) continue;
+    const waiting = new Set(entry.waiting);
+    waiting.delete(meta.providerId);
+    if (waiting.size) pending.set(id, { ...entry, waiting });
+    else pending.delete(id);
+    const node = doc.nodeAt(entry.pos);
+    const matches = matchesById.get(id);
+    if (!node?.isTextblock || !matches) continue;
+    issues.push(...locateMatches(meta.providerId, node, entry.pos, matches, value.dismissed));
+  }
+  return { ...value, pending, issues: issues.sort((a, b) => a.from - b.from) };
+}
+
+function mapState(value: ProofingState, tr: Transaction, doc: PMNode): ProofingState {
+  const ranges = getChangedTextblockRanges(doc, tr.mapping);
+  const inChangedRange = (pos: number) =>
+    ranges.some((range) => range.from <= pos && pos <= range.to);
+
+  const issues: ProofingIssue[] = [];
+  for (const issue of value.issues) {
+    const from = tr.mapping.mapResult(issue.from, 1);
+    const to = tr.mapping.mapResult(issue.to, -1);
+    if (from.deleted || to.deleted || inChangedRange(from.pos)) continue;
+    issues.push({ ...issue, from: from.pos, to: to.pos });
+  }
+
+  const pending = new Map<string, PendingParagraph>();
+  for (const [id, entry] of value.pending) {
+    const result = tr.mapping.mapResult(entry.pos, 1);
+    // Ranges end where the next paragraph starts, which is left alone
+    if (result.deleted || ranges.some((r) => r.from <= result.pos && result.pos < r.to)) continue;
+    pending.set(id, { ...entry, pos: result.pos });
+  }
+
+  const dirty: number[] = [];
+  for (const pos of value.dirty) {
+    const result = tr.mapping.mapResult(pos, 1);
+    if (!result.deleted) dirty.push(result.pos);
+  }
+  for (const range of ranges) collectTextblocks(doc, range.from, range.to, dirty);
+
+  return { ...value, issues, pending, dirty: [...new Set(dirty)].sort((a, b) => a - b) };
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Proofing issues, sorted by position
+ */
+export function getProofingIssues(state: EditorState): ProofingIssue[] {
+  return proofingKey.getState(state)?.issues ?? [];
+}
+
+/**
+ * The proofing issue at a position (default: the selection head)
+ */
+export function getProofingIssueAt(
+  state: EditorState,
+  pos = state.selection.head
+): ProofingIssue | null {
+  return getProofingIssues(state).find((issue) => issue.from <= pos && pos <= issue.to) ?? null;
+}
+
+/**
+ * Underline color for an issue category
+ */
+export function getProofingIssueColor(category: ProofingCategory): string {
+  switch (category) {
+    case 'style':
+      return '#8e24aa';
+    case 'terminology':
+      return '#ef6c00';
+    default:
+      return '#1e88e5';
+  }
+}
+
+/**
+ * Replace the text of an issue, keeping its formatting
+ */
+export function applyProofingReplacement(issue: ProofingIssue, replacement: string): Command {
+  return (state, dispatch) => {
+    if (getIssueText(state.doc, issue) !== issue.text) return false;
+    if (dispatch) {
+      const tr = replacement
+        ? state.tr.insertText(replacement, issue.from, issue.to)
+        : state.tr.delete(issue.from, issue.to);
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
+/**
+ * Stop flagging an issue for the rest of the session
+ */
+export function dismissProofingIssue(issue: ProofingIssue): Command {
+  return (state, dispatch) => {
+    if (!proofingKey.getState(state)) return false;
+    if (dispatch) {
+      const meta: ProofingMeta = { type: 'dismiss', issue };
+      dispatch(state.tr.setMeta(proofingKey, meta));
+    }
+    return true;
+  };
+}
+
+/**
+ * Send the paragraphs changed since the last run to the providers. Results
+ * are dispatched as they arrive; the promise settles once every provider has
+ * answered.
+ */
+export async function runProofing(view: {
+  readonly state: EditorState;
+  dispatch: (tr: Transaction) => void;
+}): Promise<void> {
+  const value = proofingKey.getState(view.state);
+  if (!value || !value.dirty.length) return;
+
+  const doc = view.state.doc;
+  const requests: { id: string; pos: number }[] = [];
+  const paragraphs: ProofingParagraph[] = [];
+  for (const pos of value.dirty) {
+    const node = doc.nodeAt(pos);
+    if (!node?.isTextblock) continue;
+    const { text, chars } = getTextblockText(node, pos);
+    if (!text.trim()) continue;
+    const id = `p${++nextRequestId}`;
+    requests.push({ id, pos });
+    paragraphs.push({ id, text, lang: chars.find((info) => info.lang)?.lang ?? null });
+  }
+  const request: ProofingMeta = { type: 'request', paragraphs: requests };
+  view.dispatch(view.state.tr.setMeta(proofingKey, request).setMeta('addToHistory', false));
+  if (!paragraphs.length) return;
+
+  const paragraphIds = requests.map((entry) => entry.id);
+  await Promise.all(
+    value.providers.map(async (provider) => {
+      let matches: ProofingMatch[] = [];
+      try {
+        matches = await provider.check(paragraphs);
+      } catch (error) {
+        console.warn(`Proofing provider "${provider.id}" failed:`, error);
+      }
+      const results: ProofingMeta = {
+        type: 'results',
+        providerId: provider.id,
+        paragraphIds,
+        matches,
+      };
+      view.dispatch(view.state.tr.setMeta(proofingKey, results).setMeta('addToHistory', false));
+    })
+  );
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+/**
+ * Create the proofing plugin. Providers are called a short while after the
+ * last change, with every paragraph changed since the previous call.
+ */
+export function createProofingPlugin(
+  providers: ProofingProvider[],
+  options: ProofingOptions = {}
+): Plugin {
+  const delay = options.delay ?? DEFAULT_DELAY;
+
+  return new Plugin({
+    key: proofingKey,
+
+    state: {
+      init(_config, state): ProofingState {
+        const dirty: number[] = [];
+        collectTextblocks(state.doc, 0, state.doc.content.size, dirty);
+        return { issues: [], dirty, pending: new Map(), dismissed: new Set(), providers };
+      },
+      apply(tr, value, _oldState, newState): ProofingState {
+        let next = value;
+        if (tr.docChanged) next = mapState(next, tr, newState.doc);
+        const meta = tr.getMeta(proofingKey) as ProofingMeta | undefined;
+        if (meta) next = applyMeta(meta, next, newState.doc);
+        return next;
+      },
+    },
+
+    view(view) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let destroyed = false;
+      // Answers arriving after the view is gone are dropped
+      const target = {
+        get state() {
+          return view.state;
+        },
+        dispatch: (tr: Transaction) => {
+          if (!destroyed) view.dispatch(tr);
+        },
+      };
+      const run = () => {
+        if (timer !== undefined) clearTimeout(timer);
+        timer = setTimeout(() => {
+          timer = undefined;
+          if (!destroyed) void runProofing(target);
+        }, delay);
+      };
+      if (proofingKey.getState(view.state)?.dirty.length) run();
+      return {
+        update(updatedView, prevState) {
+          if (updatedView.state.doc !== prevState.doc) run();
+        },
+        destroy() {
+          destroyed = true;
+          if (timer !== undefined) clearTimeout(timer);
+        },
+      };
+    },
+  });
+}
@@ -0,0 +1,76 @@
+/**
+ * Tests for the rule-based proofing provider
+ */
+
+import { describe, expect, test } from 'bun:test';
+import type { ProofingParagraph } from './proofing';
+import {
+  bannedTermsRule,
+  createRuleBasedProofingProvider,
+  passiveVoiceRule,
+  repeatedWordRule,
+} from './proofingRules';
+
+const PARAGRAPH: ProofingParagraph = { id: 'p1', text: '', lang: null };
+
+function found(rule: typeof repeatedWordRule, text: string): string[] {
+  return rule
+    .check(text, { ...PARAGRAPH, text })
+    .map((match) => text.slice(match.offset, match.offset + match.length));
+}
+
+describe('proofing rules', () => {
+  test('repeated words, ignoring case and intended repeats', () => {
+    expect(found(repeatedWordRule, 'The the fee is is due. He had had enough.')).toEqual([
+      ' the',
+      ' is',
+    ]);
+    expect(found(repeatedWordRule, 'theme them, them')).toEqual([]);
+  });
+
+  test('passive voice with regular and irregular participles', () => {
+    expect(
+      found(passiveVoiceRule, 'The fee was paid. Notices are promptly delivered. We pay.')
+    ).toEqual(['was paid', 'are promptly delivered']);
+  });
+
+  test('banned terms match whole words across spacing and case', () => {
+    const rule = bannedTermsRule([
+      { term: 'best efforts', message: 'Not enforceable.', replacements: ['reasonable efforts'] },
+      { term: 'shall' },
+    ]);
+    const text = 'Use Best  efforts. It shall apply; marshall is fine.';
+    expect(found(rule, text)).toEqual(['Best  efforts', 'shall']);
+    expect(rule.check(text, PARAGRAPH)[0]).toMatchObject({
+      message: 'Not enforceable.',
+      replacements: ['reasonable efforts'],
+    });
+  });
+
+  test('the provider tags matches with paragraph, rule and category', () => {
+    const provider = createRuleBasedProofingProvider({ bannedTerms: [{ term: 'forthwith' }] });
+    const matches = provider.check([
+      { id: 'a', text: 'Pay forthwith.', lang: 'en-US' },
+      { id: 'b', text: 'It was sent.', lang: 'en-US' },
+    ]);
+    expect(matches).toEqual([
+      {
+        paragraphId: 'a',
+        offset: 4,
+        length: 9,
+        message: 'Avoid "forthwith".',
+        replacements: undefined,
+        ruleId: 'banned-term',
+        category: 'terminology',
+      },
+      {
+        paragraphId: 'b',
+        offset: 3,
+        length: 8,
+        message: 'Passive voice. Consider naming who performs the action.',
+        ruleId: 'passive-voice',
+        category: 'style',
+      },
+    ]);
+  });
+});
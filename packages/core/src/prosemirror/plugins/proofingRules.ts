@@ -0,0 +1,212 @@
+/**
+ * Rule-Based Proofing Provider
+ *
+ * A local proofing provider built from simple text rules. It serves as the
+ * reference implementation of `ProofingProvider` and covers common checks
+ * for English contracts:
+ *
+ * - repeated words ("the the")
+ * - passive voice ("was signed by")
+ * - banned terms, with preferred wording as replacements
+ *
+ * Rules see one paragraph at a time and answer with offsets into its text.
+ */
+
+import type {
+  ProofingCategory,
+  ProofingMatch,
+  ProofingParagraph,
+  ProofingProvider,
+} from './proofing';
+
+/**
+ * A match found by a rule, relative to the paragraph text
+ */
+export interface ProofingRuleMatch {
+  offset: number;
+  length: number;
+  message: string;
+  replacements?: string[];
+}
+
+/**
+ * A check run on every changed paragraph
+ */
+export interface ProofingRule {
+  id: string;
+  category: ProofingCategory;
+  check(text: string, paragraph: ProofingParagraph): ProofingRuleMatch[];
+}
+
+/**
+ * A term that should not appear in the document
+ */
+export interface BannedTerm {
+  /** Word or phrase, matched case-insensitively as whole words */
+  term: string;
+  /** Explanation shown with the issue */
+  message?: string;
+  /** Preferred wording */
+  replacements?: string[];
+}
+
+export interface RuleBasedProofingOptions {
+  id?: string;
+  name?: string;
+  /** Rules to run (default: repeated words and passive voice) */
+  rules?: ProofingRule[];
+  /** Adds a banned terms rule */
+  bannedTerms?: BannedTerm[];
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Flags a word written twice in a row
+ */
+export const repeatedWordRule: ProofingRule = {
+  id: 'repeated-word',
+  category: 'grammar',
+  check(text) {
+    const matches: ProofingRuleMatch[] = [];
+    // Look ahead so every word is compared with the next one
+    for (const match of text.matchAll(/(?<!\p{L})(\p{L}+)(?=(\s+)(\p{L}+)(?!\p{L}))/gu)) {
+      const [, first, space, second] = match;
+      if (first.toLowerCase() !== second.toLowerCase()) continue;
+      // "had had" and "that that" are often intended
+      if (/^(had|that)$/i.test(first)) continue;
+      matches.push({
+        offset: match.index! + first.length,
+        length: space.length + second.length,
+        message: `The word "${second}" is repeated.`,
+        replacements: [''],
+      });
+    }
+    return matches;
+  },
+};
+
+const IRREGULAR_PARTICIPLES = [
+  'born',
+  'bought',
+  'brought',
+  'built',
+  'chosen',
+  'done',
+  'drawn',
+  'driven',
+  'given',
+  'held',
+  'kept',
+  'known',
+  'laid',
+  'made',
+  'paid',
+  'put',
+  'read',
+  'said',
+  'seen',
+  'sent',
+  'set',
+  'shown',
+  'sold',
+  'spent',
+  'taken',
+  'told',
+  'thought',
+  'understood',
+  'won',
+  'written',
+];
+
+const PASSIVE_PATTERN = new RegExp(
+  `\\b(?:am|is|are|was|were|be|been|being)\\s+(?:\\w+ly\\s+)?(?:\\w+ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`,
+  'gi'
+);
+
+/**
+ * Flags passive constructions such as "will be paid" or "was signed"
+ */
+export const passiveVoiceRule: ProofingRule = {
+  id: 'passive-voice',
+  category: 'style',
+  check(text) {
+    return [...text.matchAll(PASSIVE_PATTERN)].map((match) => ({
+      offset: match.index!,
+      length: match[0].length,
+      message: 'Passive voice. Consider naming who performs the action.',
+    }));
+  },
+};
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Flags terms that should not be used, e.g. wording legal has ruled out
+ */
+export function bannedTermsRule(terms: BannedTerm[]): ProofingRule {
+  const patterns = terms.map((entry) => ({
+    entry,
+    pattern: new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(entry.term).replace(/\s+/g, '\\s+')}(?![\\p{L}\\p{N}])`,
+      'giu'
+    ),
+  }));
+  return {
+    id: 'banned-term',
+    category: 'terminology',
+    check(text) {
+      const matches: ProofingRuleMatch[] = [];
+      for (const { entry, pattern } of patterns) {
+        for (const match of text.matchAll(pattern)) {
+          matches.push({
+            offset: match.index!,
+            length: match[0].length,
+            message: entry.message ?? `Avoid "${entry.term}".`,
+            replacements: entry.replacements,
+          });
+        }
+      }
+      return matches;
+    },
+  };
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Create a proofing provider that runs rules locally
+ */
+export function createRuleBasedProofingProvider(
+  options: RuleBasedProofingOptions = {}
+): ProofingProvider {
+  const rules = [...(options.rules ?? [repeatedWordRule, passiveVoiceRule])];
+  if (options.bannedTerms?.length) rules.push(bannedTermsRule(options.bannedTerms));
+
+  return {
+    id: options.id ?? 'rules',
+    name: options.name ?? 'Style rules',
+    check(paragraphs) {
+      const matches: ProofingMatch[] = [];
+      for (const paragraph of paragraphs) {
+        for (const rule of rules) {
+          for (const match of rule.check(paragraph.text, paragraph)) {
+            matches.push({
+              ...match,
+              paragraphId: paragraph.id,
+              ruleId: rule.id,
+              category: rule.category,
+            });
+          }
+        }
+      }
+      return matches;
+    },
+  };
+}
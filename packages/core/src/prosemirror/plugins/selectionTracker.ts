@@ -11,6 +11,7 @@
 import { Plugin, PluginKey, type EditorState } from 'prosemirror-state';
 import type { EditorView } from 'prosemirror-view';
 import type { TextFormatting, ParagraphFormatting } from '../../types/document';
+import type { SelectionContext as AISelectionContext } from '../../types/agentApi';
 
 /**
  * Selection context for toolbar state
@@ -301,3 +302,52 @@ function contextsEqual(a: SelectionContext, b: SelectionContext): boolean {
 export function getSelectionContext(state: EditorState): SelectionContext | null {
   return selectionTrackerKey.getState(state) || null;
 }
+
+/**
+ * Build the context of an AI request from the current selection.
+ * Returns null when nothing is selected.
+ *
+ * @param contextChars - Characters of surrounding paragraph text to include
+ */
+export function getAISelectionContext(
+  state: EditorState,
+  contextChars = 200
+): AISelectionContext | null {
+  const context = getSelectionContext(state) ?? extractSelectionContext(state);
+  if (!context.hasSelection) return null;
+
+  const { $from, $to, from, to } = state.selection;
+  const paragraphText = $from.parent.textContent;
+  let inTable = false;
+  let inHyperlink = false;
+  for (let depth = $from.depth; depth > 0; depth--) {
+    const name = $from.node(depth).type.name;
+    if (name === 'tableCell' || name === 'tableHeader') inTable = true;
+  }
+  state.doc.nodesBetween(from, to, (node) => {
+    if (node.marks.some((mark) => mark.type.name === 'hyperlink')) inHyperlink = true;
+  });
+
+  return {
+    selectedText: state.doc.textBetween(from, to, '\n'),
+    range: {
+      start: { paragraphIndex: context.startParagraphIndex, offset: $from.parentOffset },
+      end: { paragraphIndex: context.endParagraphIndex, offset: $to.parentOffset },
+    },
+    formatting: context.textFormatting,
+    paragraphFormatting: context.paragraphFormatting,
+    textBefore: paragraphText.slice(
+      Math.max(0, $from.parentOffset - contextChars),
+      $from.parentOffset
+    ),
+    textAfter: $to.parent.textContent.slice($to.parentOffset, $to.parentOffset + contextChars),
+    paragraph: {
+      index: context.startParagraphIndex,
+      fullText: paragraphText,
+      style: context.paragraphFormatting.styleId,
+      wordCount: paragraphText.split(/\s+/).filter(Boolean).length,
+    },
+    inTable,
+    inHyperlink,
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Tests for the spell check plugin
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { EditorState, type Command } from 'prosemirror-state';
+import type { Paragraph, Run } from '../../types/document';
+import type { TextFormatting } from '../../types/formatting';
+import { createEmptyDocument } from '../../utils/createDocument';
+import { registerSpellingDictionary, unregisterSpellingDictionary } from '../../utils/hunspell';
+import { toProseDoc } from '../conversion/toProseDoc';
+import {
+  addWordToDictionary,
+  createSpellCheckPlugin,
+  getSpellingErrorAt,
+  getSpellingErrors,
+  getSpellingSuggestions,
+  ignoreSpellingAll,
+  replaceSpellingError,
+  type SpellCheckOptions,
+} from './spellCheck';
+
+const DIC = ['hello', 'world', 'see', 'the', 'house', 'and', 'also'].join('\n');
+
+function run(text: string, formatting?: TextFormatting): Run {
+  return { type: 'run', formatting, content: [{ type: 'text', text }] };
+}
+
+function paragraph(...content: Run[]): Paragraph {
+  return { type: 'paragraph', content };
+}
+
+function createState(paragraphs: Paragraph[], options?: SpellCheckOptions): EditorState {
+  const document = createEmptyDocument();
+  document.package.document.content = paragraphs;
+  return EditorState.create({
+    doc: toProseDoc(document),
+    plugins: [createSpellCheckPlugin(options)],
+  });
+}
+
+function apply(state: EditorState, command: Command): EditorState {
+  let next = state;
+  command(state, (tr) => {
+    next = state.apply(tr);
+  });
+  return next;
+}
+
+function words(state: EditorState): string[] {
+  return getSpellingErrors(state).map((error) => error.word);
+}
+
+describe('spell check', () => {
+  beforeAll(() => {
+    registerSpellingDictionary({ lang: 'en-US', aff: 'TRY esianrtolcdugmphbyfvkwzxjq', dic: DIC });
+  });
+  afterAll(() => {
+    unregisterSpellingDictionary('en-US');
+  });
+
+  test('flags misspelled words with their positions', () => {
+    const state = createState([paragraph(run('Helo world, see teh house'))]);
+    const errors = getSpellingErrors(state);
+    expect(errors.map((error) => error.word)).toEqual(['Helo', 'teh']);
+    expect(state.doc.textBetween(errors[1].from, errors[1].to)).toBe('teh');
+    expect(getSpellingSuggestions(errors[0])).toContain('Hello');
+  });
+
+  test('skips noProof runs, other languages, links, capitals and numbers', () => {
+    const state = createState([
+      paragraph(
+        run('Helo '),
+        run('Wrld ', { noProof: true }),
+        run('Haus ', { lang: { val: 'de-DE' } }),
+        run('see www.exampel.com and mail@exampel.com also NASA and B2B')
+      ),
+    ]);
+    expect(words(state)).toEqual(['Helo']);
+  });
+
+  test('words split across runs are checked as one', () => {
+    const state = createState([paragraph(run('hel'), run('lo wor', { bold: true }), run('d'))]);
+    expect(words(state)).toEqual(['word']);
+  });
+
+  test('edits recheck the changed paragraph and move the other errors', () => {
+    let state = createState([paragraph(run('Helo world')), paragraph(run('teh house'))]);
+    const [helo, teh] = getSpellingErrors(state);
+
+    state = state.apply(state.tr.insertText('l', helo.from + 2));
+    expect(words(state)).toEqual(['teh']);
+    expect(getSpellingErrors(state)[0].from).toBe(teh.from + 1);
+
+    state = state.apply(state.tr.insertText('x', state.doc.content.size - 1));
+    expect(words(state)).toEqual(['teh', 'housex']);
+  });
+
+  test('replacing a word fixes the error', () => {
+    let state = createState([paragraph(run('see teh house'))]);
+    const error = getSpellingErrorAt(state, getSpellingErrors(state)[0].from + 1)!;
+    expect(error.word).toBe('teh');
+
+    state = apply(state, replaceSpellingError(error, 'the'));
+    expect(state.doc.textContent).toBe('see the house');
+    expect(getSpellingErrors(state)).toEqual([]);
+  });
+
+  test('ignored and added words are no longer flagged', () => {
+    const added: string[][] = [];
+    let state = createState([paragraph(run('Helo teh, helo'))], {
+      customDictionary: { words: ['zorb'], onChange: (list) => added.push(list) },
+    });
+    expect(words(state)).toEqual(['Helo', 'teh', 'helo']);
+
+    state = apply(state, ignoreSpellingAll('teh'));
+    expect(words(state)).toEqual(['Helo', 'helo']);
+
+    state = apply(state, addWordToDictionary('helo'));
+    expect(words(state)).toEqual([]);
+    expect(added).toEqual([['zorb', 'helo']]);
+
+    // Custom words are known from the start
+    expect(words(createState([paragraph(run('zorb'))]))).toEqual(['zorb']);
+    const custom = createState([paragraph(run('zorb'))], { customDictionary: { words: ['zorb'] } });
+    expect(words(custom)).toEqual([]);
+  });
+});
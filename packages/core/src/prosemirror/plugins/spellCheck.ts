@@ -0,0 +1,323 @@
+/**
+ * Spell Check Plugin
+ *
+ * Checks the words of every paragraph against the Hunspell dictionaries
+ * registered with `registerSpellingDictionary`:
+ *
+ * - each word is checked in the language of its run (w:lang), falling back
+ *   to the default dictionary; languages without a dictionary are skipped
+ * - runs with w:noProof, deleted text, URLs and e-mail addresses are skipped
+ * - only the paragraphs a transaction changes are checked again
+ *
+ * "Ignore all" lasts for the editing session. Words added to the dictionary
+ * are reported through `customDictionary.onChange` so hosts can persist them
+ * and pass them back in next time.
+ *
+ * The layout painter draws the errors (`getSpellingErrors`) as squiggles.
+ */
+
+import { Plugin, PluginKey, type Command, type EditorState } from 'prosemirror-state';
+import type { Node as PMNode } from 'prosemirror-model';
+import { getSpellChecker, onSpellingDictionaryChange } from '../../utils/hunspell';
+import { getChangedTextblockRanges, getTextblockText } from '../utils/textblockText';
+
+export const spellCheckKey = new PluginKey<SpellCheckState>('spellCheck');
+
+/**
+ * A misspelled word in the document
+ */
+export interface SpellingError {
+  from: number;
+  to: number;
+  word: string;
+  /** Language the word was checked in; null for the default dictionary */
+  lang: string | null;
+}
+
+/**
+ * Words the user added to the dictionary
+ */
+export interface CustomDictionary {
+  /** Words added in earlier sessions */
+  words?: string[];
+  /** Called with all custom words whenever a word is added */
+  onChange?: (words: string[]) => void;
+}
+
+export interface SpellCheckOptions {
+  customDictionary?: CustomDictionary;
+  /** Skip words in capitals, e.g. acronyms (default true) */
+  ignoreUppercase?: boolean;
+  /** Skip words containing digits (default true) */
+  ignoreWordsWithNumbers?: boolean;
+}
+
+export interface SpellCheckState {
+  errors: SpellingError[];
+  /** Words ignored for this session */
+  ignored: Set<string>;
+  /** Words added to the custom dictionary */
+  userWords: Set<string>;
+  options: SpellCheckOptions;
+}
+
+type SpellCheckMeta = { type: 'recheck' } | { type: 'ignore' | 'add'; word: string };
+
+// ============================================================================
+// TOKENIZING
+// ============================================================================
+
+/**
+ * A word to check
+ */
+export interface SpellingToken {
+  from: number;
+  to: number;
+  word: string;
+  lang: string | null;
+}
+
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*/gu;
+const LINK_PATTERN = /@|:\/\/|^www\./i;
+const RTL_PATTERN = /[\p{Script=Arabic}\p{Script=Hebrew}]/u;
+/** Scripts written without spaces between words are not checked */
+const UNSPACED_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+/**
+ * Split the text of a paragraph into the words to check.
+ *
+ * @param node - A textblock node
+ * @param pos - Position of the node in the document
+ */
+export function tokenizeTextblock(
+  node: PMNode,
+  pos: number,
+  options: SpellCheckOptions = {}
+): SpellingToken[] {
+  const { text, chars } = getTextblockText(node, pos);
+  const tokens: SpellingToken[] = [];
+  const ignoreUppercase = options.ignoreUppercase ?? true;
+  const ignoreWordsWithNumbers = options.ignoreWordsWithNumbers ?? true;
+
+  for (const chunk of text.matchAll(/[^\s\uFFFC]+/gu)) {
+    if (LINK_PATTERN.test(chunk[0])) continue;
+    for (const match of chunk[0].matchAll(WORD_PATTERN)) {
+      const word = match[0];
+      const start = chunk.index! + match.index!;
+      const end = start + word.length;
+      const wordChars = chars.slice(start, end);
+      if (wordChars.some((info) => info.noProof)) continue;
+      if (ignoreWordsWithNumbers && /\p{N}/u.test(word)) continue;
+      if (ignoreUppercase && word.length > 1 && word === word.toUpperCase()) continue;
+      if (UNSPACED_PATTERN.test(word)) continue;
+      const first = wordChars[0];
+      tokens.push({
+        from: first.pos,
+        to: wordChars[wordChars.length - 1].pos + 1,
+        word,
+        lang: (RTL_PATTERN.test(word) ? first.langBidi : null) ?? first.lang,
+      });
+    }
+  }
+  return tokens;
+}
+
+// ============================================================================
+// CHECKING
+// ============================================================================
+
+function isKnownWord(state: SpellCheckState, word: string): boolean {
+  return (
+    state.ignored.has(word) || state.userWords.has(word) || state.userWords.has(word.toLowerCase())
+  );
+}
+
+function checkTextblock(node: PMNode, pos: number, state: SpellCheckState): SpellingError[] {
+  const errors: SpellingError[] = [];
+  for (const token of tokenizeTextblock(node, pos, state.options)) {
+    const checker = getSpellChecker(token.lang);
+    if (!checker || isKnownWord(state, token.word)) continue;
+    if (!checker.check(token.word)) errors.push(token);
+  }
+  return errors;
+}
+
+function checkRange(
+  doc: PMNode,
+  from: number,
+  to: number,
+  state: SpellCheckState
+): SpellingError[] {
+  const errors: SpellingError[] = [];
+  doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isTextblock) return true;
+    errors.push(...checkTextblock(node, pos, state));
+    return false;
+  });
+  return errors;
+}
+
+function sortErrors(errors: SpellingError[]): SpellingError[] {
+  return errors.sort((a, b) => a.from - b.from);
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+/**
+ * Misspelled words, sorted by position
+ */
+export function getSpellingErrors(state: EditorState): SpellingError[] {
+  return spellCheckKey.getState(state)?.errors ?? [];
+}
+
+/**
+ * The misspelled word at a position (default: the selection head)
+ */
+export function getSpellingErrorAt(
+  state: EditorState,
+  pos = state.selection.head
+): SpellingError | null {
+  return getSpellingErrors(state).find((error) => error.from <= pos && pos <= error.to) ?? null;
+}
+
+/**
+ * Corrections for a misspelled word, best first
+ */
+export function getSpellingSuggestions(error: SpellingError, limit?: number): string[] {
+  return getSpellChecker(error.lang)?.suggest(error.word, limit) ?? [];
+}
+
+/**
+ * Replace a misspelled word, keeping its formatting
+ */
+export function replaceSpellingError(error: SpellingError, replacement: string): Command {
+  return (state, dispatch) => {
+    if (state.doc.textBetween(error.from, error.to) !== error.word) return false;
+    if (dispatch) {
+      dispatch(state.tr.insertText(replacement, error.from, error.to).scrollIntoView());
+    }
+    return true;
+  };
+}
+
+/**
+ * Stop flagging a word for the rest of the session
+ */
+export function ignoreSpellingAll(word: string): Command {
+  return (state, dispatch) => {
+    if (!spellCheckKey.getState(state)) return false;
+    if (dispatch) {
+      const meta: SpellCheckMeta = { type: 'ignore', word };
+      dispatch(state.tr.setMeta(spellCheckKey, meta));
+    }
+    return true;
+  };
+}
+
+/**
+ * Add a word to the custom dictionary and report the new word list
+ */
+export function addWordToDictionary(word: string): Command {
+  return (state, dispatch) => {
+    const pluginState = spellCheckKey.getState(state);
+    if (!pluginState) return false;
+    if (dispatch) {
+      const meta: SpellCheckMeta = { type: 'add', word };
+      dispatch(state.tr.setMeta(spellCheckKey, meta));
+      pluginState.options.customDictionary?.onChange?.([...pluginState.userWords, word]);
+    }
+    return true;
+  };
+}
+
+/**
+ * Check the whole document again, e.g. after loading a dictionary
+ */
+export function recheckSpelling(): Command {
+  return (state, dispatch) => {
+    if (!spellCheckKey.getState(state)) return false;
+    if (dispatch) {
+      const meta: SpellCheckMeta = { type: 'recheck' };
+      dispatch(state.tr.setMeta(spellCheckKey, meta));
+    }
+    return true;
+  };
+}
+
+// ============================================================================
+// PLUGIN
+// ============================================================================
+
+/**
+ * Create the spell check plugin. The document is checked again whenever a
+ * spelling dictionary is registered or removed.
+ */
+export function createSpellCheckPlugin(options: SpellCheckOptions = {}): Plugin {
+  return new Plugin({
+    key: spellCheckKey,
+
+    state: {
+      init(_config, state): SpellCheckState {
+        const value: SpellCheckState = {
+          errors: [],
+          ignored: new Set(),
+          userWords: new Set(options.customDictionary?.words ?? []),
+          options,
+        };
+        value.errors = checkRange(state.doc, 0, state.doc.content.size, value);
+        return value;
+      },
+      apply(tr, value, _oldState, newState): SpellCheckState {
+        const meta = tr.getMeta(spellCheckKey) as SpellCheckMeta | undefined;
+        let next = value;
+
+        if (meta?.type === 'ignore' || meta?.type === 'add') {
+          const words = new Set(meta.type === 'ignore' ? next.ignored : next.userWords);
+          words.add(meta.word);
+          next = {
+            ...next,
+            [meta.type === 'ignore' ? 'ignored' : 'userWords']: words,
+          };
+          next.errors = next.errors.filter((error) => !isKnownWord(next, error.word));
+        }
+
+        if (meta?.type === 'recheck') {
+          const doc = newState.doc;
+          return { ...next, errors: checkRange(doc, 0, doc.content.size, next) };
+        }
+
+        if (!tr.docChanged) return next;
+
+        const ranges = getChangedTextblockRanges(newState.doc, tr.mapping);
+        const inChangedRange = (pos: number) =>
+          ranges.some((range) => range.from <= pos && pos <= range.to);
+        const errors: SpellingError[] = [];
+        for (const error of next.errors) {
+          const from = tr.mapping.mapResult(error.from, 1);
+          const to = tr.mapping.mapResult(error.to, -1);
+          if (from.deleted || to.deleted || inChangedRange(from.pos)) continue;
+          errors.push({ ...error, from: from.pos, to: to.pos });
+        }
+        // Ranges may share a paragraph, so keep each error once
+        const found = new Set<number>();
+        for (const range of ranges) {
+          for (const error of checkRange(newState.doc, range.from, range.to, next)) {
+            if (found.has(error.from)) continue;
+            found.add(error.from);
+            errors.push(error);
+          }
+        }
+        return { ...next, errors: sortErrors(errors) };
+      },
+    },
+
+    view(view) {
+      const unsubscribe = onSpellingDictionaryChange(() => {
+        recheckSpelling()(view.state, view.dispatch);
+      });
+      return { destroy: unsubscribe };
+    },
+  });
+}
@@ -5,7 +5,22 @@
 import { describe, test, expect } from 'bun:test';
 import { Schema } from 'prosemirror-model';
 import { EditorState, TextSelection, type Transaction } from 'prosemirror-state';
-import { createSuggestionModePlugin, suggestionModeKey, setSuggestionMode } from './suggestionMode';
+import { schema as docxSchema } from '../schema';
+import { acceptChange, rejectChange } from '../commands/comments';
+import { fromProseDoc } from '../conversion/fromProseDoc';
+import { toProseDoc } from '../conversion/toProseDoc';
+import { addRowBelow, deleteColumn, deleteRow } from '../commands/table';
+import { serializeTable } from '../../docx/serializer/tableSerializer';
+import { serializeParagraph } from '../../docx/serializer/paragraphSerializer';
+import { resolveMoveNames } from '../../docx/moveRanges';
+import type { Paragraph, Run, Table } from '../../types/document';
+import {
+  createSuggestionModePlugin,
+  replaceAsSuggestion,
+  suggestionModeKey,
+  setSuggestionMode,
+  SUGGESTION_META,
+} from './suggestionMode';
 
 // Minimal schema with insertion/deletion marks
 const schema = new Schema({
@@ -174,7 +189,7 @@ describe('SuggestionMode Plugin', () => {
       const insertionType = state.schema.marks.insertion;
       const deletionType = state.schema.marks.deletion;
       const tr = state.tr;
-      tr.setMeta('suggestionModeApplied', true);
+      tr.setMeta(SUGGESTION_META, true);
 
       // Mark range as deleted (inline version of markRangeAsDeleted)
       const from = state.selection.from;
@@ -243,4 +258,428 @@ describe('SuggestionMode Plugin', () => {
       expect(new Set(deletions.map((segment) => segment.revisionId)).size).toBe(1);
     });
   });
+
+  describe('replaceAsSuggestion', () => {
+    test('marks the range deleted and inserts the text as the given author', () => {
+      const state = createState('Hello World');
+      let next = state;
+      const handled = replaceAsSuggestion(
+        7,
+        12,
+        'there',
+        'AI'
+      )(state, (tr) => {
+        next = state.apply(tr);
+      });
+
+      expect(handled).toBe(true);
+      expect(getText(next)).toBe('Hello Worldthere');
+      expect(getMarkedSegments(next, 'deletion').map((segment) => segment.text)).toEqual(['World']);
+      const [insertion] = getMarkedSegments(next, 'insertion');
+      expect(insertion.text).toBe('there');
+      expect(next.doc.nodeAt(insertion.from)?.marks[0].attrs.author).toBe('AI');
+      expect(next.selection.from).toBe(insertion.to);
+    });
+
+    test('line breaks start new paragraphs', () => {
+      const state = createState('Hello');
+      let next = state;
+      replaceAsSuggestion(
+        1,
+        6,
+        'One\nTwo',
+        'AI'
+      )(state, (tr) => {
+        next = state.apply(tr);
+      });
+
+      expect(next.doc.childCount).toBe(2);
+      expect(next.doc.child(0).textContent).toBe('HelloOne');
+      expect(next.doc.child(1).textContent).toBe('Two');
+      expect(getMarkedSegments(next, 'insertion').map((segment) => segment.text)).toEqual([
+        'One',
+        'Two',
+      ]);
+    });
+  });
+
+  describe('format changes', () => {
+    function createDocxState(text: string): EditorState {
+      const doc = docxSchema.node('doc', null, [
+        docxSchema.node('paragraph', null, [docxSchema.text(text)]),
+      ]);
+      return EditorState.create({ doc, plugins: [createSuggestionModePlugin(true, 'TestUser')] });
+    }
+
+    function formatChangeAt(state: EditorState, pos: number) {
+      return state.doc.nodeAt(pos)?.marks.find((m) => m.type.name === 'formatChange');
+    }
+
+    function run(state: EditorState, command: typeof acceptChange, from: number, to: number) {
+      let next = state;
+      command(from, to)(state, (tr) => {
+        next = state.apply(tr);
+      });
+      return next;
+    }
+
+    test('bolding text records the previous formatting', () => {
+      const state = createDocxState('Hello World');
+      const bold = docxSchema.marks.bold.create();
+      const next = state.applyTransaction(state.tr.addMark(1, 6, bold)).state;
+
+      const change = formatChangeAt(next, 1);
+      expect(change?.attrs.author).toBe('TestUser');
+      expect(change?.attrs.previousMarks).toEqual([]);
+      expect(next.doc.nodeAt(1)?.textContent).toBe('Hello');
+      expect(formatChangeAt(next, 7)).toBeUndefined();
+    });
+
+    test('undoing the formatting by hand drops the change', () => {
+      const state = createDocxState('Hello World');
+      const bold = docxSchema.marks.bold.create();
+      const bolded = state.applyTransaction(state.tr.addMark(1, 6, bold)).state;
+      const italic = bolded.applyTransaction(
+        bolded.tr.addMark(1, 6, docxSchema.marks.italic.create())
+      ).state;
+      expect(formatChangeAt(italic, 1)?.attrs.previousMarks).toEqual([]);
+
+      const restored = italic.applyTransaction(
+        italic.tr.removeMark(1, 6, docxSchema.marks.bold).removeMark(1, 6, docxSchema.marks.italic)
+      ).state;
+      expect(formatChangeAt(restored, 1)).toBeUndefined();
+    });
+
+    test('rejecting restores the previous formatting and accepting keeps the new one', () => {
+      const state = createDocxState('Hello World');
+      const bolded = state.applyTransaction(
+        state.tr.addMark(1, 6, docxSchema.marks.bold.create())
+      ).state;
+
+      const rejected = run(bolded, rejectChange, 1, 6);
+      expect(rejected.doc.nodeAt(1)?.marks).toEqual([]);
+      expect(rejected.doc.textContent).toBe('Hello World');
+
+      const accepted = run(bolded, acceptChange, 1, 6);
+      expect(accepted.doc.nodeAt(1)?.marks.map((m) => m.type.name)).toEqual(['bold']);
+    });
+
+    test('formatting a suggested insertion is not tracked separately', () => {
+      const state = createDocxState('Hello');
+      const inserted = state.apply(
+        state.tr
+          .insertText(' there', 6)
+          .addMark(6, 12, docxSchema.marks.insertion.create({ author: 'TestUser' }))
+          .setMeta(SUGGESTION_META, true)
+      );
+      const next = inserted.applyTransaction(
+        inserted.tr.addMark(6, 12, docxSchema.marks.bold.create())
+      ).state;
+      expect(formatChangeAt(next, 7)).toBeUndefined();
+    });
+
+    test('paragraph formatting is recorded on the paragraph and can be rejected', () => {
+      const state = createDocxState('Hello');
+      const paragraph = state.doc.child(0);
+      const next = state.applyTransaction(
+        state.tr.setNodeMarkup(0, undefined, {
+          ...paragraph.attrs,
+          alignment: 'center',
+          styleId: 'Heading1',
+        })
+      ).state;
+
+      const formatChange = next.doc.child(0).attrs.formatChange;
+      expect(formatChange.author).toBe('TestUser');
+      expect(formatChange.previous.alignment).toBeNull();
+      expect(formatChange.previous.styleId).toBeNull();
+
+      const rejected = run(next, rejectChange, 0, 1);
+      expect(rejected.doc.child(0).attrs.alignment).toBeNull();
+      expect(rejected.doc.child(0).attrs.styleId).toBeNull();
+      expect(rejected.doc.child(0).attrs.formatChange).toBeNull();
+
+      const accepted = run(next, acceptChange, 0, next.doc.content.size);
+      expect(accepted.doc.child(0).attrs.alignment).toBe('center');
+      expect(accepted.doc.child(0).attrs.formatChange).toBeNull();
+    });
+
+    test('round-trips through w:rPrChange and w:pPrChange', () => {
+      const state = createDocxState('Hello World');
+      let next = state.applyTransaction(
+        state.tr.addMark(1, 6, docxSchema.marks.bold.create())
+      ).state;
+      next = next.applyTransaction(
+        next.tr.setNodeMarkup(0, undefined, { ...next.doc.child(0).attrs, alignment: 'right' })
+      ).state;
+
+      const document = fromProseDoc(next.doc);
+      const paragraph = document.package.document.content[0] as Paragraph;
+      const [bolded, plain] = paragraph.content as Run[];
+      expect(bolded.formatting?.bold).toBe(true);
+      expect(bolded.propertyChanges?.[0].previousFormatting).toEqual({});
+      expect(bolded.propertyChanges?.[0].info.author).toBe('TestUser');
+      expect(plain.propertyChanges).toBeUndefined();
+      expect(paragraph.formatting?.alignment).toBe('right');
+      expect(paragraph.propertyChanges?.[0].previousFormatting?.alignment).toBeUndefined();
+
+      const reopened = toProseDoc(document);
+      const change = reopened.nodeAt(1)?.marks.find((m) => m.type.name === 'formatChange');
+      expect(change?.attrs.previousMarks).toEqual([]);
+      expect(reopened.child(0).attrs.formatChange.previous.alignment).toBeNull();
+    });
+  });
+
+  describe('table structure changes', () => {
+    // 2x2 table; the cursor is in the first cell
+    function createTableState(): EditorState {
+      const cell = (text: string) =>
+        docxSchema.node('tableCell', null, [
+          docxSchema.node('paragraph', null, [docxSchema.text(text)]),
+        ]);
+      const row = (a: string, b: string) => docxSchema.node('tableRow', null, [cell(a), cell(b)]);
+      const doc = docxSchema.node('doc', null, [
+        docxSchema.node('table', null, [row('A1', 'B1'), row('A2', 'B2')]),
+      ]);
+      const state = EditorState.create({
+        doc,
+        plugins: [createSuggestionModePlugin(true, 'TestUser')],
+      });
+      return state.apply(state.tr.setSelection(TextSelection.create(doc, 5)));
+    }
+
+    function apply(
+      state: EditorState,
+      command: (state: EditorState, dispatch?: (tr: Transaction) => void) => boolean
+    ) {
+      let next = state;
+      expect(command(state, (tr) => (next = state.applyTransaction(tr).state))).toBe(true);
+      return next;
+    }
+
+    function rows(state: EditorState) {
+      const table = state.doc.child(0);
+      return Array.from({ length: table.childCount }, (_, i) => table.child(i));
+    }
+
+    test('an inserted row is recorded and can be rejected or accepted', () => {
+      const inserted = apply(createTableState(), addRowBelow);
+      const [, newRow] = rows(inserted);
+      expect(newRow.attrs.structuralChange.type).toBe('tableRowInsertion');
+      expect(newRow.attrs.structuralChange.info.author).toBe('TestUser');
+      expect(rows(inserted)[0].attrs.structuralChange).toBeNull();
+
+      const rowPos = 1 + rows(inserted)[0].nodeSize;
+      const rejected = apply(inserted, rejectChange(rowPos, rowPos + 1));
+      expect(rows(rejected).map((row) => row.textContent)).toEqual(['A1B1', 'A2B2']);
+
+      const accepted = apply(inserted, acceptChange(rowPos, rowPos + 1));
+      expect(rows(accepted)).toHaveLength(3);
+      expect(rows(accepted)[1].attrs.structuralChange).toBeNull();
+    });
+
+    test('a deleted row stays until the deletion is accepted', () => {
+      const deleted = apply(createTableState(), deleteRow);
+      expect(rows(deleted)).toHaveLength(2);
+      expect(rows(deleted)[0].attrs.structuralChange.type).toBe('tableRowDeletion');
+
+      // Deleting it again changes nothing
+      expect(apply(deleted, deleteRow).doc.eq(deleted.doc)).toBe(true);
+
+      const rejected = apply(deleted, rejectChange(1, 2));
+      expect(rows(rejected)[0].attrs.structuralChange).toBeNull();
+
+      const accepted = apply(deleted, acceptChange(1, 2));
+      expect(rows(accepted).map((row) => row.textContent)).toEqual(['A2B2']);
+    });
+
+    test('deleting your own inserted row retracts it', () => {
+      const inserted = apply(createTableState(), addRowBelow);
+      const inNewRow = 1 + rows(inserted)[0].nodeSize + 3;
+      const moved = inserted.apply(
+        inserted.tr.setSelection(TextSelection.create(inserted.doc, inNewRow))
+      );
+      const retracted = apply(moved, deleteRow);
+      expect(rows(retracted).map((row) => row.textContent)).toEqual(['A1B1', 'A2B2']);
+      expect(rows(retracted).every((row) => row.attrs.structuralChange === null)).toBe(true);
+    });
+
+    test('a deleted column resolves as one change', () => {
+      const deleted = apply(createTableState(), deleteColumn);
+      const firstCells = rows(deleted).map((row) => row.child(0).attrs.structuralChange);
+      expect(firstCells.map((change) => change.type)).toEqual([
+        'tableCellDeletion',
+        'tableCellDeletion',
+      ]);
+      expect(firstCells[0].info.id).toBe(firstCells[1].info.id);
+      expect(rows(deleted)[0].child(1).attrs.structuralChange).toBeNull();
+
+      // Accepting at the first cell removes the whole column
+      const accepted = apply(deleted, acceptChange(2, 3));
+      expect(rows(accepted).map((row) => row.textContent)).toEqual(['B1', 'B2']);
+      expect(accepted.doc.child(0).attrs.columnWidths).toHaveLength(1);
+
+      const rejected = apply(deleted, rejectChange(2, 3));
+      expect(rows(rejected).map((row) => row.textContent)).toEqual(['A1B1', 'A2B2']);
+      expect(rows(rejected)[1].child(0).attrs.structuralChange).toBeNull();
+    });
+
+    test('serializes as w:ins on w:trPr and w:cellDel', () => {
+      let state = apply(createTableState(), addRowBelow);
+      state = apply(state, deleteColumn);
+
+      const document = fromProseDoc(state.doc);
+      const table = document.package.document.content[0] as Table;
+      expect(table.rows[1].structuralChange?.type).toBe('tableRowInsertion');
+      expect(table.rows[0].cells[0].structuralChange?.type).toBe('tableCellDeletion');
+
+      const xml = serializeTable(table);
+      expect(xml).toMatch(/<w:trPr><w:trHeight [^>]*\/><w:ins w:id="\d+" w:author="TestUser"/);
+      expect(xml).toMatch(/<w:tcPr><w:cellDel w:id="\d+" w:author="TestUser"/);
+
+      const reopened = toProseDoc(document);
+      expect(reopened.child(0).child(1).attrs.structuralChange.type).toBe('tableRowInsertion');
+    });
+  });
+
+  describe('moves', () => {
+    // "Beta" is at 8-12 in the second paragraph; "Gamma" ends at 19
+    function createMoveState(): EditorState {
+      const doc = docxSchema.node(
+        'doc',
+        null,
+        ['Alpha', 'Beta', 'Gamma'].map((text) =>
+          docxSchema.node('paragraph', null, [docxSchema.text(text)])
+        )
+      );
+      return EditorState.create({ doc, plugins: [createSuggestionModePlugin(true, 'TestUser')] });
+    }
+
+    function changeMark(state: EditorState, pos: number, type: 'insertion' | 'deletion') {
+      return state.doc.nodeAt(pos)?.marks.find((m) => m.type.name === type);
+    }
+
+    function apply(state: EditorState, command: typeof acceptChange, from: number, to: number) {
+      let next = state;
+      command(from, to)(state, (tr) => (next = state.applyTransaction(tr).state));
+      return next;
+    }
+
+    // Drop "Beta" at the end of "Gamma", which ends at 15 once "Beta" is gone
+    function dragBeta(state: EditorState): EditorState {
+      const tr = state.tr.delete(8, 12).insert(15, docxSchema.text('Beta'));
+      return state.applyTransaction(tr.setMeta('uiEvent', 'drop')).state;
+    }
+
+    test('dragging text records a move from its source to its destination', () => {
+      const moved = dragBeta(createMoveState());
+      expect(moved.doc.textContent).toBe('AlphaBetaGammaBeta');
+
+      const from = changeMark(moved, 8, 'deletion');
+      const to = changeMark(moved, 19, 'insertion');
+      expect(from?.attrs.moveName).toBeTruthy();
+      expect(to?.attrs.moveName).toBe(from?.attrs.moveName);
+      expect(to?.attrs.revisionId).not.toBe(from?.attrs.revisionId);
+      expect(from?.attrs.author).toBe('TestUser');
+    });
+
+    test('a move is accepted or rejected as one unit from either half', () => {
+      const moved = dragBeta(createMoveState());
+      const paragraphs = (state: EditorState) =>
+        Array.from({ length: state.doc.childCount }, (_, i) => state.doc.child(i).textContent);
+
+      const accepted = apply(moved, acceptChange, 8, 12);
+      expect(paragraphs(accepted)).toEqual(['Alpha', '', 'GammaBeta']);
+      expect(changeMark(accepted, 15, 'insertion')).toBeUndefined();
+
+      const rejected = apply(moved, rejectChange, 19, 23);
+      expect(paragraphs(rejected)).toEqual(['Alpha', 'Beta', 'Gamma']);
+      expect(changeMark(rejected, 8, 'deletion')).toBeUndefined();
+    });
+
+    test('cutting keeps the text as a deletion and pasting it turns it into a move', () => {
+      const state = createMoveState();
+      const cut = state.applyTransaction(state.tr.delete(8, 12).setMeta('uiEvent', 'cut')).state;
+      expect(cut.doc.textContent).toBe('AlphaBetaGamma');
+      expect(changeMark(cut, 8, 'deletion')?.attrs.moveName).toBeNull();
+
+      const pasted = cut.applyTransaction(
+        cut.tr.insert(19, docxSchema.text('Beta')).setMeta('uiEvent', 'paste')
+      ).state;
+      const moveName = changeMark(pasted, 8, 'deletion')?.attrs.moveName;
+      expect(moveName).toBeTruthy();
+      expect(changeMark(pasted, 19, 'insertion')?.attrs.moveName).toBe(moveName);
+    });
+
+    test('pasting the same text over it is a replacement, not a move', () => {
+      const state = createMoveState();
+      const pasted = state.applyTransaction(
+        state.tr.replaceWith(8, 12, docxSchema.text('Beta')).setMeta('uiEvent', 'paste')
+      ).state;
+
+      expect(pasted.doc.textContent).toBe('AlphaBetaBetaGamma');
+      expect(changeMark(pasted, 8, 'deletion')?.attrs.moveName).toBeNull();
+      expect(changeMark(pasted, 12, 'insertion')?.attrs.moveName).toBeFalsy();
+    });
+
+    test('a cut pairs only with the next paste', () => {
+      const state = createMoveState();
+      const cut = state.applyTransaction(state.tr.delete(8, 12).setMeta('uiEvent', 'cut')).state;
+      const edited = cut.applyTransaction(cut.tr.insert(2, docxSchema.text('x'))).state;
+      expect(suggestionModeKey.getState(edited)?.lastCut).toBeNull();
+
+      const pasted = edited.applyTransaction(
+        edited.tr.insert(20, docxSchema.text('Beta')).setMeta('uiEvent', 'paste')
+      ).state;
+      expect(changeMark(pasted, 9, 'deletion')?.attrs.moveName).toBeNull();
+      expect(changeMark(pasted, 20, 'insertion')?.attrs.moveName).toBeFalsy();
+
+      // An unrelated paste uses up the cut too
+      const recut = state.applyTransaction(state.tr.delete(8, 12).setMeta('uiEvent', 'cut')).state;
+      const other = recut.applyTransaction(
+        recut.tr.insert(19, docxSchema.text('Other')).setMeta('uiEvent', 'paste')
+      ).state;
+      expect(suggestionModeKey.getState(other)?.lastCut).toBeNull();
+    });
+
+    test('pasting a cut back where it was is not a move', () => {
+      const state = createMoveState();
+      const cut = state.applyTransaction(state.tr.delete(8, 12).setMeta('uiEvent', 'cut')).state;
+      const pasted = cut.applyTransaction(
+        cut.tr.insert(12, docxSchema.text('Beta')).setMeta('uiEvent', 'paste')
+      ).state;
+
+      expect(pasted.doc.textContent).toBe('AlphaBetaBetaGamma');
+      expect(changeMark(pasted, 8, 'deletion')?.attrs.moveName).toBeNull();
+      expect(changeMark(pasted, 12, 'insertion')?.attrs.moveName).toBeFalsy();
+    });
+
+    test('round-trips through named move ranges', () => {
+      const moved = dragBeta(createMoveState());
+      const moveName = changeMark(moved, 8, 'deletion')?.attrs.moveName;
+
+      const document = fromProseDoc(moved.doc);
+      const [, source, destination] = document.package.document.content as Paragraph[];
+      expect(source.content.map((item) => item.type)).toEqual([
+        'moveFromRangeStart',
+        'moveFrom',
+        'moveFromRangeEnd',
+      ]);
+      expect(serializeParagraph(source)).toContain(
+        `<w:moveFromRangeStart w:id="${(source.content[0] as { id: number }).id}" w:name="${moveName}" w:author="TestUser"`
+      );
+      expect(serializeParagraph(destination)).toContain(`w:name="${moveName}"`);
+
+      // Names come back from the range markers
+      for (const paragraph of [source, destination]) {
+        for (const item of paragraph.content) {
+          if (item.type === 'moveFrom' || item.type === 'moveTo') delete item.moveName;
+        }
+      }
+      resolveMoveNames(document.package.document.content);
+      const reopened = toProseDoc(document);
+      expect(reopened.nodeAt(8)?.marks[0].attrs.moveName).toBe(moveName);
+      expect(reopened.nodeAt(19)?.marks[0].attrs.moveName).toBe(moveName);
+    });
+  });
 });
@@ -9,30 +9,70 @@
  * - Deleted text is NOT removed — it's marked as deletion (red strikethrough)
  * - Text already marked as insertion by the current author is deleted normally
  *   (retracting your own suggestion)
+ * - Formatting text or paragraphs records the previous formatting (formatChange
+ *   mark / attribute) so the change can be rejected; undoing the formatting by
+ *   hand drops the record again
+ * - Inserted table rows and cells are recorded as structural changes; the
+ *   table commands mark deleted rows and columns instead of removing them
+ * - Dragging text, or cutting it and pasting it back, records a move: the
+ *   source stays as a deletion and the destination becomes an insertion, both
+ *   carrying the same `moveName` so they resolve together
  */
 
 import {
   Plugin,
   PluginKey,
   TextSelection,
+  type Command,
   type EditorState,
   type Transaction,
 } from 'prosemirror-state';
 import type { EditorView } from 'prosemirror-view';
-import type { Node as PMNode, MarkType } from 'prosemirror-model';
+import type { Node as PMNode, Mark, MarkType, Slice } from 'prosemirror-model';
+import {
+  AddMarkStep,
+  AttrStep,
+  Mapping,
+  RemoveMarkStep,
+  ReplaceAroundStep,
+} from 'prosemirror-transform';
+import type { ParagraphAttrs, ParagraphFormatChange } from '../schema/nodes';
+import type { TableStructuralChangeInfo, TrackedChangeInfo } from '../../types/content';
+import {
+  getFormattingMarks,
+  getParagraphFormatting,
+  isFormattingMark,
+  sameFormattingMarks,
+  sameParagraphFormatting,
+  type MarkJSON,
+} from '../utils/formatChanges';
+import {
+  getTableStructuralChange,
+  isTableInsertion,
+  isTableStructureNode,
+  removeTableNodes,
+} from '../utils/tableChanges';
+import { isRemoteTransaction } from './collaboration';
 
 export const suggestionModeKey = new PluginKey<SuggestionModeState>('suggestionMode');
-const SUGGESTION_META = 'suggestionModeApplied';
+/** Meta flag for transactions that are already tracked changes or resolve them */
+export const SUGGESTION_META = 'suggestionModeApplied';
 
 interface SuggestionModeState {
   active: boolean;
   author: string;
+  /**
+   * The last cut, kept as a deletion, which a paste of the same text turns
+   * into a move. Only the next paste can use it; any other edit drops it.
+   */
+  lastCut?: { revisionId: number; text: string } | null;
 }
 
 interface MarkAttrs {
   revisionId: number;
   author: string;
   date: string;
+  moveName?: string | null;
 }
 
 let nextRevisionId = Date.now();
@@ -60,7 +100,7 @@ function findAdjacentRevision(
     for (const node of [$pos.nodeBefore, $pos.nodeAfter]) {
       if (node?.isText) {
         const mark = node.marks.find(
-          (m) => m.type.name === markTypeName && m.attrs.author === author
+          (m) => m.type.name === markTypeName && m.attrs.author === author && !m.attrs.moveName
         );
         if (mark) return mark.attrs as MarkAttrs;
       }
@@ -99,7 +139,8 @@ function markRangeAsDeleted(
   to: number,
   insertionType: MarkType,
   deletionType: MarkType,
-  pluginState: SuggestionModeState
+  pluginState: SuggestionModeState,
+  attrs?: MarkAttrs
 ): void {
   const ranges: { from: number; to: number; isOwnInsert: boolean }[] = [];
 
@@ -117,7 +158,8 @@ function markRangeAsDeleted(
   if (ranges.length === 0) return;
 
   const delAttrs =
-    findAdjacentRevisionForRange(doc, from, to, 'deletion', pluginState.author) ||
+    attrs ??
+    findAdjacentRevisionForRange(doc, from, to, 'deletion', pluginState.author) ??
     makeMarkAttrs(pluginState);
 
   for (let i = ranges.length - 1; i >= 0; i--) {
@@ -253,6 +295,375 @@ function handleSuggestionDelete(
   return true;
 }
 
+/**
+ * Positions in the final document of the text ranges and paragraphs whose
+ * formatting the user transactions changed
+ */
+function collectFormatTargets(transactions: readonly Transaction[]): {
+  mapping: Mapping;
+  textRanges: { from: number; to: number }[];
+  paragraphs: number[];
+} {
+  const mapping = new Mapping();
+  const pending: { step: number; from: number; to: number; paragraph: boolean }[] = [];
+
+  for (const tr of transactions) {
+    const tracked = !tr.getMeta(SUGGESTION_META) && !isRemoteTransaction(tr);
+    tr.steps.forEach((step, index) => {
+      if (tracked) {
+        const at = mapping.maps.length;
+        if (
+          (step instanceof AddMarkStep || step instanceof RemoveMarkStep) &&
+          isFormattingMark(step.mark)
+        ) {
+          pending.push({ step: at, from: step.from, to: step.to, paragraph: false });
+        } else if (step instanceof AttrStep) {
+          pending.push({ step: at, from: step.pos, to: step.pos, paragraph: true });
+        } else if (
+          step instanceof ReplaceAroundStep &&
+          step.insert === 1 &&
+          step.gapFrom === step.from + 1 &&
+          step.gapTo === step.to - 1
+        ) {
+          // setNodeMarkup: the node is replaced around its unchanged content
+          pending.push({ step: at, from: step.from, to: step.from, paragraph: true });
+        }
+      }
+      mapping.appendMap(tr.mapping.maps[index]);
+    });
+  }
+
+  const textRanges: { from: number; to: number }[] = [];
+  const paragraphs: number[] = [];
+  for (const target of pending) {
+    const after = mapping.slice(target.step + 1);
+    if (target.paragraph) {
+      const pos = after.mapResult(target.from, 1);
+      if (!pos.deleted) paragraphs.push(pos.pos);
+    } else {
+      const from = after.map(target.from, 1);
+      const to = after.map(target.to, -1);
+      if (to > from) textRanges.push({ from, to });
+    }
+  }
+  return { mapping, textRanges, paragraphs };
+}
+
+/**
+ * Record formatting changes of the user transactions as tracked format
+ * changes. The first change to a range records its previous formatting;
+ * later changes keep that record, and it is dropped once the formatting is
+ * back to what it was.
+ */
+function trackFormatChanges(
+  tr: Transaction,
+  transactions: readonly Transaction[],
+  oldState: EditorState,
+  newState: EditorState,
+  pluginState: SuggestionModeState
+): void {
+  const { schema } = newState;
+  const formatChangeType = schema.marks.formatChange;
+  if (!formatChangeType) return;
+
+  const { mapping, textRanges, paragraphs } = collectFormatTargets(transactions);
+  if (textRanges.length === 0 && paragraphs.length === 0) return;
+
+  const inverse = mapping.invert();
+  const trackedTypes = [schema.marks.insertion, schema.marks.deletion].filter(Boolean);
+  let attrs: MarkAttrs | null = null;
+  const revisionAttrs = () => (attrs ??= makeMarkAttrs(pluginState));
+
+  for (const range of textRanges) {
+    newState.doc.nodesBetween(range.from, range.to, (node, pos) => {
+      if (!node.isText) return;
+      // Formatting inserted or deleted text is part of that change
+      if (node.marks.some((m) => trackedTypes.includes(m.type))) return;
+
+      const start = Math.max(pos, range.from);
+      const end = Math.min(pos + node.nodeSize, range.to);
+      const oldStart = inverse.mapResult(start, 1);
+      const oldEnd = inverse.mapResult(end, -1);
+      if (oldStart.deletedAfter || oldEnd.deletedBefore) return;
+
+      // Mark steps keep positions, so old text lines up with the new text
+      oldState.doc.nodesBetween(oldStart.pos, oldEnd.pos, (oldNode, oldPos) => {
+        if (!oldNode.isText) return;
+        const from = start + Math.max(oldPos, oldStart.pos) - oldStart.pos;
+        const to = start + Math.min(oldPos + oldNode.nodeSize, oldEnd.pos) - oldStart.pos;
+        if (to <= from) return;
+
+        const existing = formatChangeType.isInSet(node.marks);
+        const previousMarks: MarkJSON[] = existing
+          ? existing.attrs.previousMarks
+          : getFormattingMarks(oldNode.marks);
+
+        if (sameFormattingMarks(schema, previousMarks, node.marks)) {
+          if (existing) tr.removeMark(from, to, formatChangeType);
+        } else if (!existing) {
+          tr.addMark(from, to, formatChangeType.create({ ...revisionAttrs(), previousMarks }));
+        }
+      });
+    });
+  }
+
+  for (const pos of paragraphs) {
+    const node = newState.doc.nodeAt(pos);
+    const oldNode = oldState.doc.nodeAt(inverse.map(pos, 1));
+    if (!node || !oldNode || node.type.name !== 'paragraph' || oldNode.type !== node.type) {
+      continue;
+    }
+
+    const nodeAttrs = node.attrs as ParagraphAttrs;
+    const existing = nodeAttrs.formatChange;
+    const previous = existing
+      ? existing.previous
+      : getParagraphFormatting(oldNode.attrs as ParagraphAttrs);
+
+    if (sameParagraphFormatting(previous, nodeAttrs)) {
+      if (existing) tr.setNodeAttribute(pos, 'formatChange', null);
+    } else if (!existing) {
+      const formatChange: ParagraphFormatChange = { ...revisionAttrs(), previous };
+      tr.setNodeAttribute(pos, 'formatChange', formatChange);
+    }
+  }
+}
+
+function toChangeInfo(attrs: MarkAttrs): TrackedChangeInfo {
+  return { id: attrs.revisionId, author: attrs.author, date: attrs.date };
+}
+
+/**
+ * Ranges in the final document that the user transactions inserted
+ */
+function collectInsertedRanges(
+  transactions: readonly Transaction[]
+): { from: number; to: number }[] {
+  const mapping = new Mapping();
+  const pending: { step: number; from: number; to: number }[] = [];
+
+  for (const tr of transactions) {
+    const tracked = !tr.getMeta(SUGGESTION_META) && !isRemoteTransaction(tr);
+    tr.mapping.maps.forEach((map) => {
+      const at = mapping.maps.length;
+      if (tracked) {
+        map.forEach((_oldFrom, _oldTo, newFrom, newTo) => {
+          if (newTo > newFrom) pending.push({ step: at, from: newFrom, to: newTo });
+        });
+      }
+      mapping.appendMap(map);
+    });
+  }
+
+  const ranges: { from: number; to: number }[] = [];
+  for (const range of pending) {
+    const after = mapping.slice(range.step + 1);
+    const from = after.map(range.from, 1);
+    const to = after.map(range.to, -1);
+    if (to > from) ranges.push({ from, to });
+  }
+  return ranges;
+}
+
+/**
+ * Record table rows and cells the user transactions inserted as structural
+ * changes. Cells of an inserted row belong to the row's change.
+ */
+function trackTableInsertions(
+  tr: Transaction,
+  transactions: readonly Transaction[],
+  newState: EditorState,
+  pluginState: SuggestionModeState
+): void {
+  let info: TrackedChangeInfo | null = null;
+
+  for (const range of collectInsertedRanges(transactions)) {
+    newState.doc.nodesBetween(range.from, range.to, (node, pos) => {
+      if (!isTableStructureNode(node)) return;
+      if (pos < range.from || pos + node.nodeSize > range.to) return;
+      if (!node.attrs.structuralChange) {
+        const change: TableStructuralChangeInfo = {
+          type: node.type.name === 'tableRow' ? 'tableRowInsertion' : 'tableCellInsertion',
+          info: (info ??= toChangeInfo(makeMarkAttrs(pluginState))),
+        };
+        tr.setNodeAttribute(pos, 'structuralChange', change);
+      }
+      return false;
+    });
+  }
+}
+
+/**
+ * Content the user transactions deleted, with the position in the final
+ * document where it was
+ */
+function collectDeletedSlices(
+  transactions: readonly Transaction[]
+): { pos: number; slice: Slice; uiEvent: string | undefined }[] {
+  const mapping = new Mapping();
+  const pending: { step: number; pos: number; slice: Slice; uiEvent: string | undefined }[] = [];
+
+  for (const tr of transactions) {
+    const tracked = !tr.getMeta(SUGGESTION_META) && !isRemoteTransaction(tr);
+    const uiEvent = tr.getMeta('uiEvent') as string | undefined;
+    tr.mapping.maps.forEach((map, index) => {
+      const at = mapping.maps.length;
+      if (tracked) {
+        map.forEach((oldFrom, oldTo, newFrom) => {
+          if (oldTo <= oldFrom) return;
+          const slice = tr.docs[index].slice(oldFrom, oldTo);
+          pending.push({ step: at, pos: newFrom, slice, uiEvent });
+        });
+      }
+      mapping.appendMap(map);
+    });
+  }
+
+  return pending.map(({ step, pos, slice, uiEvent }) => ({
+    pos: mapping.slice(step + 1).map(pos, -1),
+    slice,
+    uiEvent,
+  }));
+}
+
+/**
+ * Give the text a transaction inserted (marked with `insertAttrs`) a move name
+ */
+function markMoveTo(
+  tr: Transaction,
+  ranges: { from: number; to: number }[],
+  insertionType: MarkType,
+  insertAttrs: MarkAttrs,
+  moveName: string
+): void {
+  for (const range of ranges) {
+    const from = tr.mapping.map(range.from, 1);
+    const to = tr.mapping.map(range.to, -1);
+    if (to <= from) continue;
+    tr.doc.nodesBetween(from, to, (node, pos) => {
+      if (!node.isText) return;
+      const mark = insertionType.isInSet(node.marks);
+      if (mark?.attrs.revisionId !== insertAttrs.revisionId) return;
+      tr.addMark(
+        Math.max(pos, from),
+        Math.min(pos + node.nodeSize, to),
+        insertionType.create({ ...insertAttrs, moveName })
+      );
+    });
+  }
+}
+
+function hasMoveFrom(doc: PMNode, deletionType: MarkType, moveName: string): boolean {
+  let found = false;
+  doc.descendants((node) => {
+    if (found) return false;
+    if (node.isText && deletionType.isInSet(node.marks)?.attrs.moveName === moveName) found = true;
+  });
+  return found;
+}
+
+/**
+ * Whether a range touches or contains a position
+ */
+function touches(range: { from: number; to: number }, from: number, to = from): boolean {
+  return range.from <= to && range.to >= from;
+}
+
+/**
+ * Record moves: text deleted and inserted again elsewhere in the same
+ * transactions (dragging), or a paste of the last cut text. A cut or drag
+ * keeps the deleted text as a deletion; when the text shows up again, the
+ * deletion and the new insertion (marked with `insertAttrs`) get a shared
+ * move name. Text replaced by the same text in place is a deletion and an
+ * insertion, not a move.
+ */
+function trackMoves(
+  tr: Transaction,
+  transactions: readonly Transaction[],
+  newState: EditorState,
+  pluginState: SuggestionModeState,
+  insertAttrs: MarkAttrs
+): void {
+  const { insertion: insertionType, deletion: deletionType } = newState.schema.marks;
+  if (!insertionType || !deletionType) return;
+
+  const textOf = (slice: Slice) => slice.content.textBetween(0, slice.content.size, '\n');
+  const deleted = collectDeletedSlices(transactions).filter(({ slice }) => textOf(slice).trim());
+  const inserted = collectInsertedRanges(transactions);
+  const insertedText = inserted
+    .map((range) => newState.doc.textBetween(range.from, range.to, '\n'))
+    .join('\n')
+    .trim();
+  const deletedText = deleted
+    .map(({ slice }) => textOf(slice))
+    .join('\n')
+    .trim();
+
+  const replaced = deleted.length > 0 && deletedText === insertedText;
+  const moved =
+    replaced && deleted.every(({ pos }) => !inserted.some((range) => touches(range, pos)));
+  const restored = deleted.filter(
+    ({ uiEvent }) => replaced || uiEvent === 'cut' || uiEvent === 'drop'
+  );
+
+  if (restored.length > 0) {
+    const delAttrs = makeMarkAttrs(pluginState);
+    const moveName = moved ? `move${delAttrs.revisionId}` : null;
+    for (const { pos, slice } of [...restored].sort((a, b) => b.pos - a.pos)) {
+      const at = tr.mapping.map(pos, -1);
+      const steps = tr.steps.length;
+      tr.replace(at, at, slice);
+      if (tr.steps.length === steps) continue;
+      let end = at;
+      tr.steps[steps].getMap().forEach((_oldFrom, _oldTo, _newFrom, newTo) => (end = newTo));
+      markRangeAsDeleted(tr, tr.doc, at, end, insertionType, deletionType, pluginState, {
+        ...delAttrs,
+        moveName,
+      });
+    }
+
+    if (moveName && hasMoveFrom(tr.doc, deletionType, moveName)) {
+      markMoveTo(tr, inserted, insertionType, insertAttrs, moveName);
+    } else if (!moved && restored.some(({ uiEvent }) => uiEvent === 'cut')) {
+      tr.setMeta(suggestionModeKey, {
+        lastCut: { revisionId: delAttrs.revisionId, text: deletedText },
+      });
+    }
+    return;
+  }
+
+  // Paste of the last cut: the cut text becomes the source of a move
+  const { lastCut } = pluginState;
+  const isPaste = transactions.some((t) => t.getMeta('uiEvent') === 'paste');
+  if (!isPaste || !lastCut) return;
+  tr.setMeta(suggestionModeKey, { lastCut: null });
+  if (!insertedText || insertedText !== lastCut.text) return;
+
+  const sources: { from: number; to: number; attrs: Mark['attrs'] }[] = [];
+  tr.doc.descendants((node, pos) => {
+    if (!node.isText) return;
+    const mark = deletionType.isInSet(node.marks);
+    if (mark?.attrs.revisionId !== lastCut.revisionId || mark.attrs.moveName) return;
+    sources.push({ from: pos, to: pos + node.nodeSize, attrs: mark.attrs });
+  });
+  // Pasted back where it was cut: nothing moved
+  const pastedAt = inserted.map((range) => ({
+    from: tr.mapping.map(range.from, 1),
+    to: tr.mapping.map(range.to, -1),
+  }));
+  if (sources.some((source) => pastedAt.some((range) => touches(range, source.from, source.to)))) {
+    return;
+  }
+
+  const moveName = `move${lastCut.revisionId}`;
+  for (const source of sources) {
+    tr.addMark(source.from, source.to, deletionType.create({ ...source.attrs, moveName }));
+  }
+  if (hasMoveFrom(tr.doc, deletionType, moveName)) {
+    markMoveTo(tr, inserted, insertionType, insertAttrs, moveName);
+  }
+}
+
 /**
  * Create the suggestion mode plugin.
  * When active, text edits become tracked changes.
@@ -270,6 +681,15 @@ export function createSuggestionModePlugin(initialActive = false, author = 'User
         if (meta) {
           return { ...state, ...meta };
         }
+        // A cut pairs only with the paste right after it
+        if (
+          state.lastCut &&
+          tr.docChanged &&
+          !tr.getMeta('appendedTransaction') &&
+          tr.getMeta('uiEvent') !== 'paste'
+        ) {
+          return { ...state, lastCut: null };
+        }
         return state;
       },
     },
@@ -315,22 +735,28 @@ export function createSuggestionModePlugin(initialActive = false, author = 'User
       },
     },
 
-    // Catch-all: mark any unhandled new content (e.g. paste) as insertion
-    appendTransaction(transactions, _oldState, newState) {
+    // Catch-all: mark any unhandled new content (e.g. paste) as insertion,
+    // record moves and formatting changes. Steps from collaborators already carry
+    // their own tracked change marks.
+    appendTransaction(transactions, oldState, newState) {
       const pluginState = suggestionModeKey.getState(newState);
       if (!pluginState?.active) return null;
 
-      const userTr = transactions.find((tr) => tr.docChanged && !tr.getMeta(SUGGESTION_META));
+      const userTr = transactions.find(
+        (tr) => tr.docChanged && !tr.getMeta(SUGGESTION_META) && !isRemoteTransaction(tr)
+      );
       if (!userTr) return null;
 
+      const tr = newState.tr;
+      tr.setMeta(SUGGESTION_META, true);
+      trackFormatChanges(tr, transactions, oldState, newState, pluginState);
+      trackTableInsertions(tr, transactions, newState, pluginState);
+
       const insertionType = newState.schema.marks.insertion;
-      if (!insertionType) return null;
+      if (!insertionType) return tr.steps.length > 0 ? tr : null;
 
       const markAttrs = makeMarkAttrs(pluginState);
 
-      const tr = newState.tr;
-      tr.setMeta(SUGGESTION_META, true);
-
       const deletionType = newState.schema.marks.deletion;
       userTr.steps.forEach((step) => {
         const stepMap = step.getMap();
@@ -352,8 +778,9 @@ export function createSuggestionModePlugin(initialActive = false, author = 'User
           }
         });
       });
+      trackMoves(tr, transactions, newState, pluginState, markAttrs);
 
-      return tr.steps.length > 0 ? tr : null;
+      return tr.steps.length > 0 || tr.getMeta(suggestionModeKey) ? tr : null;
     },
   });
 }
@@ -401,3 +828,92 @@ export function setSuggestionMode(
 export function isSuggestionModeActive(state: EditorState): boolean {
   return suggestionModeKey.getState(state)?.active ?? false;
 }
+
+/**
+ * Replace a range with text as a tracked change by the given author, e.g. to
+ * apply an AI suggestion for review. Works whether or not suggestion mode is
+ * active. Line breaks in the text start new paragraphs.
+ */
+export function replaceAsSuggestion(
+  from: number,
+  to: number,
+  text: string,
+  author: string
+): Command {
+  return (state, dispatch) => {
+    const insertionType = state.schema.marks.insertion;
+    const deletionType = state.schema.marks.deletion;
+    if (!insertionType || !deletionType) return false;
+    if (!dispatch) return true;
+
+    const authorState: SuggestionModeState = { active: true, author };
+    const tr = state.tr;
+    tr.setMeta(SUGGESTION_META, true);
+    if (from !== to) {
+      markRangeAsDeleted(tr, state.doc, from, to, insertionType, deletionType, authorState);
+    }
+
+    const insertAttrs = makeMarkAttrs(authorState);
+    let pos = tr.mapping.map(to);
+    text.split(/\r?\n/).forEach((line, index) => {
+      if (index > 0) {
+        tr.split(pos);
+        pos += 2;
+      }
+      if (!line) return;
+      tr.insertText(line, pos, pos);
+      tr.removeMark(pos, pos + line.length, deletionType);
+      tr.addMark(pos, pos + line.length, insertionType.create(insertAttrs));
+      pos += line.length;
+    });
+    tr.setSelection(TextSelection.near(tr.doc.resolve(pos)));
+    dispatch(tr.scrollIntoView());
+    return true;
+  };
+}
+
+/**
+ * Delete table rows or cells, given by their positions, as a tracked change.
+ * Rows and cells the author inserted in suggestion mode are removed outright
+ * (retracting the suggestion); the others are marked as deleted and stay in
+ * the table until the change is accepted.
+ */
+export function deleteTableNodesAsSuggestion(positions: number[]): Command {
+  return (state, dispatch) => {
+    const pluginState = suggestionModeKey.getState(state);
+    if (!pluginState?.active) return false;
+    if (!dispatch) return true;
+
+    const tr = state.tr;
+    tr.setMeta(SUGGESTION_META, true);
+    const isOwnInsertion = (node: PMNode) => {
+      const change = getTableStructuralChange(node);
+      return !!change && isTableInsertion(change) && change.info.author === pluginState.author;
+    };
+
+    const retracted: number[] = [];
+    let info: TrackedChangeInfo | null = null;
+    for (const pos of positions) {
+      const node = state.doc.nodeAt(pos);
+      if (!node || !isTableStructureNode(node)) continue;
+
+      if (isOwnInsertion(node)) {
+        retracted.push(pos);
+        continue;
+      }
+
+      const existing = getTableStructuralChange(node);
+      if (existing && !isTableInsertion(existing)) continue;
+
+      const change: TableStructuralChangeInfo = {
+        type: node.type.name === 'tableRow' ? 'tableRowDeletion' : 'tableCellDeletion',
+        info: (info ??= toChangeInfo(makeMarkAttrs(pluginState))),
+      };
+      tr.setNodeAttribute(pos, 'structuralChange', change);
+    }
+    removeTableNodes(tr, state.doc, retracted);
+
+    dispatch(tr.scrollIntoView());
+    return true;
+  };
+}
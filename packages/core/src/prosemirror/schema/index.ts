@@ -12,6 +12,7 @@ import { ExtensionManager } from '../extensions/ExtensionManager';
 // Re-export type interfaces (used by toProseDoc, fromProseDoc, and other modules)
 export type {
   ParagraphAttrs,
+  ParagraphFormatChange,
   ImageAttrs,
   ImagePositionAttrs,
   TableAttrs,
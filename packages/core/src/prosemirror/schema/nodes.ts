@@ -13,11 +13,14 @@ import type {
   BorderSpec,
   ShadingProperties,
   TabStop,
+  TableOfContentsInfo,
+  EditPermission,
   TextFormatting,
   NumberFormat,
   TableFormatting,
   TableRowFormatting,
   TableCellFormatting,
+  TableStructuralChangeInfo,
   SectionProperties,
 } from '../../types/document';
 import type { FloatingTableProperties, TableLook } from '../../types';
@@ -86,6 +89,10 @@ export interface ParagraphAttrs {
   pageBreakBefore?: boolean;
   keepNext?: boolean;
   keepLines?: boolean;
+  /** Widow/orphan control (w:widowControl) — on unless false */
+  widowControl?: boolean;
+  /** Exclude the paragraph from automatic hyphenation (w:suppressAutoHyphens) */
+  suppressAutoHyphens?: boolean;
   /** Contextual spacing — suppress space between same-style paragraphs */
   contextualSpacing?: boolean;
 
@@ -105,6 +112,15 @@ export interface ParagraphAttrs {
   // Bookmarks on this paragraph (for TOC anchors, cross-references)
   bookmarks?: Array<{ id: number; name: string }>;
 
+  // Part of a table of contents field (see Paragraph.tableOfContents)
+  tableOfContents?: TableOfContentsInfo;
+
+  // Whole paragraph is an editable region of a protected document
+  permission?: EditPermission;
+
+  // Tracked paragraph formatting change (w:pPrChange)
+  formatChange?: ParagraphFormatChange;
+
   /** Original inline paragraph formatting from DOCX (pre-style-resolution).
    *  Used by fromProseDoc for lossless round-trip serialization. */
   _originalFormatting?: ParagraphFormatting;
@@ -114,6 +130,17 @@ export interface ParagraphAttrs {
   _sectionProperties?: SectionProperties;
 }
 
+/**
+ * Tracked change of paragraph properties (w:pPrChange)
+ */
+export interface ParagraphFormatChange {
+  revisionId: number;
+  author: string;
+  date?: string | null;
+  /** Formatting attributes before the change */
+  previous: Partial<ParagraphAttrs>;
+}
+
 /**
  * Image position for floating images (horizontal and vertical positioning)
  */
@@ -206,6 +233,10 @@ export interface TableRowAttrs {
   heightRule?: string;
   /** Is header row */
   isHeader?: boolean;
+  /** Keep the row on one page (w:cantSplit) */
+  cantSplit?: boolean;
+  /** Tracked row insertion or deletion (w:trPr/w:ins, w:trPr/w:del) */
+  structuralChange?: TableStructuralChangeInfo | null;
   /** Original row formatting from DOCX for lossless round-trip serialization */
   _originalFormatting?: TableRowFormatting;
 }
@@ -236,6 +267,8 @@ export interface TableCellAttrs {
   borders?: { top?: BorderSpec; bottom?: BorderSpec; left?: BorderSpec; right?: BorderSpec };
   /** Cell margins/padding in twips per side */
   margins?: { top?: number; bottom?: number; left?: number; right?: number };
+  /** Tracked cell insertion or deletion (w:cellIns, w:cellDel) */
+  structuralChange?: TableStructuralChangeInfo | null;
   /** Original cell formatting from DOCX for lossless round-trip serialization */
   _originalFormatting?: TableCellFormatting;
 }
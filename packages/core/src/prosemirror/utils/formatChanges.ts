@@ -0,0 +1,244 @@
+/**
+ * Format Changes - Helpers for tracked formatting changes
+ *
+ * Tracked formatting changes (w:rPrChange / w:pPrChange) remember the
+ * formatting from before the change. In the editor, text keeps the previous
+ * formatting marks as JSON on a `formatChange` mark, and paragraphs keep
+ * their previous formatting attributes in the `formatChange` attribute.
+ *
+ * Only formatting takes part: tracked changes, comments, hyperlinks and other
+ * annotations are not formatting and are never recorded or restored.
+ */
+
+import { Mark, type Node as PMNode, type Schema } from 'prosemirror-model';
+import type { ParagraphAttrs } from '../schema/nodes';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Mark as stored in a format change */
+export interface MarkJSON {
+  type: string;
+  attrs?: Record<string, unknown>;
+}
+
+/**
+ * Formatting property a change touched, for display ("Formatted: Bold")
+ */
+export type FormatChangeProperty =
+  | 'bold'
+  | 'italic'
+  | 'underline'
+  | 'strike'
+  | 'color'
+  | 'highlight'
+  | 'fontSize'
+  | 'font'
+  | 'superscript'
+  | 'subscript'
+  | 'caps'
+  | 'characterSpacing'
+  | 'effects'
+  | 'style'
+  | 'alignment'
+  | 'indent'
+  | 'spacing'
+  | 'list'
+  | 'borders'
+  | 'shading'
+  | 'tabs'
+  | 'pagination'
+  | 'direction'
+  | 'outlineLevel'
+  | 'other';
+
+// ============================================================================
+// TEXT FORMATTING
+// ============================================================================
+
+/** Marks that annotate text rather than format it */
+const NON_FORMATTING_MARKS = new Set([
+  'insertion',
+  'deletion',
+  'formatChange',
+  'comment',
+  'permission',
+  'proofing',
+  'hyperlink',
+  'footnoteRef',
+]);
+
+const TEXT_PROPERTIES: Record<string, FormatChangeProperty> = {
+  bold: 'bold',
+  italic: 'italic',
+  underline: 'underline',
+  strike: 'strike',
+  textColor: 'color',
+  highlight: 'highlight',
+  fontSize: 'fontSize',
+  fontFamily: 'font',
+  superscript: 'superscript',
+  subscript: 'subscript',
+  allCaps: 'caps',
+  smallCaps: 'caps',
+  characterSpacing: 'characterSpacing',
+  emboss: 'effects',
+  imprint: 'effects',
+  textShadow: 'effects',
+  emphasisMark: 'effects',
+  textOutline: 'effects',
+};
+
+/**
+ * Whether a mark is formatting that format changes track
+ */
+export function isFormattingMark(mark: Mark): boolean {
+  return !NON_FORMATTING_MARKS.has(mark.type.name);
+}
+
+/**
+ * The formatting marks of a node, as JSON
+ */
+export function getFormattingMarks(marks: readonly Mark[]): MarkJSON[] {
+  return marks.filter(isFormattingMark).map((mark) => mark.toJSON() as MarkJSON);
+}
+
+/**
+ * Build marks from stored JSON, skipping types the schema doesn't know
+ */
+export function marksFromJSON(schema: Schema, json: readonly MarkJSON[]): Mark[] {
+  const marks: Mark[] = [];
+  for (const item of json) {
+    if (!schema.marks[item.type]) continue;
+    marks.push(schema.markFromJSON(item));
+  }
+  return Mark.setFrom(marks) as Mark[];
+}
+
+/**
+ * Whether stored formatting marks equal a node's current formatting
+ */
+export function sameFormattingMarks(
+  schema: Schema,
+  previous: readonly MarkJSON[],
+  current: readonly Mark[]
+): boolean {
+  return Mark.sameSet(marksFromJSON(schema, previous), current.filter(isFormattingMark));
+}
+
+/**
+ * The properties a text format change touched
+ */
+export function describeTextFormatChange(
+  previous: readonly MarkJSON[],
+  current: readonly MarkJSON[]
+): FormatChangeProperty[] {
+  const byType = (marks: readonly MarkJSON[]) =>
+    new Map(marks.map((mark) => [mark.type, JSON.stringify(mark.attrs ?? {})]));
+  const before = byType(previous);
+  const after = byType(current);
+
+  const properties = new Set<FormatChangeProperty>();
+  for (const type of new Set([...before.keys(), ...after.keys()])) {
+    if (before.get(type) !== after.get(type)) {
+      properties.add(TEXT_PROPERTIES[type] ?? 'other');
+    }
+  }
+  return [...properties];
+}
+
+// ============================================================================
+// PARAGRAPH FORMATTING
+// ============================================================================
+
+/** Paragraph attributes that are formatting, with the property they belong to */
+const PARAGRAPH_PROPERTIES: Partial<Record<keyof ParagraphAttrs, FormatChangeProperty>> = {
+  styleId: 'style',
+  alignment: 'alignment',
+  spaceBefore: 'spacing',
+  spaceAfter: 'spacing',
+  lineSpacing: 'spacing',
+  lineSpacingRule: 'spacing',
+  contextualSpacing: 'spacing',
+  indentLeft: 'indent',
+  indentRight: 'indent',
+  indentFirstLine: 'indent',
+  hangingIndent: 'indent',
+  numPr: 'list',
+  borders: 'borders',
+  shading: 'shading',
+  tabs: 'tabs',
+  pageBreakBefore: 'pagination',
+  keepNext: 'pagination',
+  keepLines: 'pagination',
+  widowControl: 'pagination',
+  suppressAutoHyphens: 'pagination',
+  bidi: 'direction',
+  outlineLevel: 'outlineLevel',
+};
+
+const PARAGRAPH_FORMAT_ATTRS = Object.keys(PARAGRAPH_PROPERTIES) as (keyof ParagraphAttrs)[];
+
+/** Attributes derived from the formatting, restored along with it on reject */
+const PARAGRAPH_DERIVED_ATTRS: (keyof ParagraphAttrs)[] = [
+  'listNumFmt',
+  'listIsBullet',
+  'listMarker',
+  'listMarkerHidden',
+  'listMarkerFontFamily',
+  'listMarkerFontSize',
+  'defaultTextFormatting',
+  '_originalFormatting',
+];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * The formatting attributes of a paragraph, as recorded by a format change
+ */
+export function getParagraphFormatting(attrs: ParagraphAttrs): Partial<ParagraphAttrs> {
+  const formatting: Record<string, unknown> = {};
+  for (const key of [...PARAGRAPH_FORMAT_ATTRS, ...PARAGRAPH_DERIVED_ATTRS]) {
+    formatting[key] = attrs[key] ?? null;
+  }
+  return formatting as Partial<ParagraphAttrs>;
+}
+
+/**
+ * Whether recorded paragraph formatting equals a paragraph's current formatting
+ */
+export function sameParagraphFormatting(
+  previous: Partial<ParagraphAttrs>,
+  current: ParagraphAttrs
+): boolean {
+  return PARAGRAPH_FORMAT_ATTRS.every((key) => sameValue(previous[key], current[key]));
+}
+
+/**
+ * The properties a paragraph format change touched
+ */
+export function describeParagraphFormatChange(
+  previous: Partial<ParagraphAttrs>,
+  current: ParagraphAttrs
+): FormatChangeProperty[] {
+  const properties = new Set<FormatChangeProperty>();
+  for (const key of PARAGRAPH_FORMAT_ATTRS) {
+    if (!sameValue(previous[key], current[key])) {
+      properties.add(PARAGRAPH_PROPERTIES[key]!);
+    }
+  }
+  return [...properties];
+}
+
+/**
+ * The properties a format change touched, for a `formatChange` mark
+ */
+export function describeFormatChangeMark(mark: Mark, node: PMNode): FormatChangeProperty[] {
+  return describeTextFormatChange(
+    (mark.attrs.previousMarks ?? []) as MarkJSON[],
+    getFormattingMarks(node.marks)
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * Table Changes - Helpers for tracked table structure changes
+ *
+ * Tracked row and cell insertions and deletions (w:trPr/w:ins, w:trPr/w:del,
+ * w:cellIns, w:cellDel) live in the `structuralChange` attribute of table rows
+ * and cells. A tracked deletion keeps the row or cell in the document until
+ * it is accepted; a rejected insertion removes it.
+ */
+
+import type { Node as PMNode } from 'prosemirror-model';
+import type { Transaction } from 'prosemirror-state';
+import type { TableStructuralChangeInfo } from '../../types/content';
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Whether a node is a table row or cell, the nodes that carry structural changes
+ */
+export function isTableStructureNode(node: PMNode): boolean {
+  const name = node.type.name;
+  return name === 'tableRow' || name === 'tableCell' || name === 'tableHeader';
+}
+
+/**
+ * The tracked insertion or deletion of a table row or cell, if any
+ */
+export function getTableStructuralChange(node: PMNode): TableStructuralChangeInfo | null {
+  if (!isTableStructureNode(node)) return null;
+  const change = node.attrs.structuralChange as TableStructuralChangeInfo | null;
+  return change && change.type !== 'tableCellMerge' ? change : null;
+}
+
+/**
+ * Whether a structural change inserts a row or cell
+ */
+export function isTableInsertion(change: TableStructuralChangeInfo): boolean {
+  return change.type === 'tableRowInsertion' || change.type === 'tableCellInsertion';
+}
+
+/**
+ * Whether a structural change deletes a row or cell
+ */
+export function isTableDeletion(change: TableStructuralChangeInfo): boolean {
+  return change.type === 'tableRowDeletion' || change.type === 'tableCellDeletion';
+}
+
+function getTablePos(doc: PMNode, pos: number, node: PMNode): number {
+  const $pos = doc.resolve(pos);
+  return node.type.name === 'tableRow' ? $pos.before() : $pos.before($pos.depth - 1);
+}
+
+/**
+ * The rows and cells whose structural change starts inside a range.
+ *
+ * A change covers every row or cell of its table that shares it, so the cells
+ * of an inserted column are found together even when only the first one is
+ * inside the range.
+ */
+export function findTableChanges(
+  doc: PMNode,
+  from: number,
+  to: number
+): { pos: number; change: TableStructuralChangeInfo }[] {
+  const key = (pos: number, node: PMNode, change: TableStructuralChangeInfo) =>
+    `${getTablePos(doc, pos, node)}:${change.type}:${change.info.id}`;
+
+  const keys = new Set<string>();
+  doc.nodesBetween(from, to, (node, pos) => {
+    const change = getTableStructuralChange(node);
+    if (change && pos >= from && pos < to) keys.add(key(pos, node, change));
+  });
+  if (keys.size === 0) return [];
+
+  const found: { pos: number; change: TableStructuralChangeInfo }[] = [];
+  doc.descendants((node, pos) => {
+    const change = getTableStructuralChange(node);
+    if (change && keys.has(key(pos, node, change))) found.push({ pos, change });
+  });
+  return found;
+}
+
+// ============================================================================
+// REMOVAL
+// ============================================================================
+
+/**
+ * Remove table rows and cells, given by their positions in `doc`.
+ *
+ * `doc` is the document the transaction started from; positions are mapped
+ * through the steps already in the transaction. A row that loses all its cells
+ * is removed, as is a table that loses all its rows. Tables that lose cells
+ * get equal column widths again, as after deleting a column.
+ */
+export function removeTableNodes(tr: Transaction, doc: PMNode, positions: number[]): void {
+  // Nodes inside another removed node go along with it
+  const removed = new Set(
+    positions.filter(
+      (pos) =>
+        !positions.some((other) => other < pos && pos < other + (doc.nodeAt(other)?.nodeSize ?? 0))
+    )
+  );
+
+  // Promote rows without remaining cells, then tables without remaining rows
+  for (const depthName of ['tableRow', 'table']) {
+    const parents = new Map<number, PMNode>();
+    for (const pos of removed) {
+      const $pos = doc.resolve(pos);
+      if ($pos.parent.type.name === depthName) parents.set($pos.before(), $pos.parent);
+    }
+    for (const [parentPos, parent] of parents) {
+      const children: number[] = [];
+      parent.forEach((_child, offset) => children.push(parentPos + 1 + offset));
+      if (children.every((pos) => removed.has(pos))) {
+        children.forEach((pos) => removed.delete(pos));
+        removed.add(parentPos);
+      }
+    }
+  }
+
+  // Tables that keep their rows but lose cells
+  const resizedTables = new Set<number>();
+  for (const pos of removed) {
+    const $pos = doc.resolve(pos);
+    if ($pos.parent.type.name === 'tableRow') resizedTables.add($pos.before($pos.depth - 1));
+  }
+
+  for (const pos of [...removed].sort((a, b) => b - a)) {
+    const node = doc.nodeAt(pos);
+    if (!node) continue;
+    tr.delete(tr.mapping.map(pos), tr.mapping.map(pos + node.nodeSize));
+  }
+
+  for (const tablePos of resizedTables) {
+    const mapped = tr.mapping.map(tablePos, 1);
+    const table = tr.doc.nodeAt(mapped);
+    if (table?.type.name === 'table') equalizeColumnWidths(tr, mapped, table);
+  }
+}
+
+/**
+ * Give the columns of a table equal widths, matching its first row
+ */
+function equalizeColumnWidths(tr: Transaction, tablePos: number, table: PMNode): void {
+  const firstRow = table.firstChild;
+  if (!firstRow) return;
+
+  const colCount = firstRow.childCount;
+  const colWidthPercent = Math.floor(100 / Math.max(1, colCount));
+  let cellPos = tablePos + 2;
+  firstRow.forEach((cell) => {
+    tr.setNodeMarkup(cellPos, undefined, {
+      ...cell.attrs,
+      width: colWidthPercent,
+      widthType: 'pct',
+    });
+    cellPos += cell.nodeSize;
+  });
+
+  const tableWidthTwips = (table.attrs.width as number) || 9360;
+  tr.setNodeMarkup(tablePos, undefined, {
+    ...table.attrs,
+    columnWidths: Array(colCount).fill(Math.floor(tableWidthTwips / Math.max(1, colCount))),
+  });
+}
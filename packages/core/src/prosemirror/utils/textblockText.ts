@@ -0,0 +1,91 @@
+/**
+ * Textblock Text - Plain text of a paragraph for proofing
+ *
+ * Spell checking and proofing providers work on the text of a paragraph as
+ * the reader sees it: deleted text (tracked deletions) is left out, and inline
+ * objects such as tabs, breaks and images appear as U+FFFC. Every character
+ * keeps its document position and the proofing properties of its run.
+ */
+
+import type { Node as PMNode } from 'prosemirror-model';
+import type { Mapping } from 'prosemirror-transform';
+
+/** Stands in for inline objects in proofing text */
+export const OBJECT_REPLACEMENT_CHAR = '\uFFFC';
+
+/**
+ * A character of proofing text
+ */
+export interface TextblockChar {
+  /** Position in the document */
+  pos: number;
+  /** Language of the run (w:lang) */
+  lang: string | null;
+  /** Language of right-to-left text in the run (w:lang/@w:bidi) */
+  langBidi: string | null;
+  /** Whether the run is excluded from proofing (w:noProof) */
+  noProof: boolean;
+}
+
+export interface TextblockText {
+  text: string;
+  /** One entry per character of `text` */
+  chars: TextblockChar[];
+}
+
+/**
+ * Proofing text of a textblock node
+ *
+ * @param node - A textblock node
+ * @param pos - Position of the node in the document
+ */
+export function getTextblockText(node: PMNode, pos: number): TextblockText {
+  let text = '';
+  const chars: TextblockChar[] = [];
+  node.descendants((child, offset) => {
+    const childPos = pos + 1 + offset;
+    if (child.isText) {
+      if (child.marks.some((mark) => mark.type.name === 'deletion')) return false;
+      const proofing = child.marks.find((mark) => mark.type.name === 'proofing');
+      const info = {
+        lang: (proofing?.attrs.lang as string | null) ?? null,
+        langBidi: (proofing?.attrs.langBidi as string | null) ?? null,
+        noProof: !!proofing?.attrs.noProof,
+      };
+      const value = child.text ?? '';
+      for (let i = 0; i < value.length; i++) chars.push({ pos: childPos + i, ...info });
+      text += value;
+    } else if (child.isLeaf) {
+      chars.push({ pos: childPos, lang: null, langBidi: null, noProof: true });
+      text += OBJECT_REPLACEMENT_CHAR;
+    }
+    return true;
+  });
+  return { text, chars };
+}
+
+/**
+ * Ranges of the new document touched by a transaction, widened to whole
+ * textblocks
+ */
+export function getChangedTextblockRanges(
+  doc: PMNode,
+  mapping: Mapping
+): { from: number; to: number }[] {
+  const ranges: { from: number; to: number }[] = [];
+  mapping.maps.forEach((map, index) => {
+    map.forEach((_oldStart, _oldEnd, newStart, newEnd) => {
+      const rest = mapping.slice(index + 1);
+      let from = Math.max(0, rest.map(newStart, -1) - 1);
+      let to = Math.min(doc.content.size, rest.map(newEnd, 1) + 1);
+      doc.nodesBetween(from, to, (node, pos) => {
+        if (!node.isTextblock) return true;
+        from = Math.min(from, pos);
+        to = Math.max(to, pos + node.nodeSize);
+        return false;
+      });
+      ranges.push({ from, to });
+    });
+  });
+  return ranges;
+}
@@ -0,0 +1,164 @@
+/**
+ * Tests for SVG page images
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+
+import type { LayoutPipelineResult } from '../layout-bridge/layoutPipeline';
+import type { ParagraphBlock } from '../layout-engine/types';
+import type { Document } from '../types/document';
+import { createEmptyDocument } from '../utils/createDocument';
+import { setMeasurementBackend } from '../layout-bridge/measuring/measureContainer';
+import { PAGE, makePage, makeParagraph } from '../../test/pageFixtures';
+import { renderDocumentToSvg, renderLayoutToSvg, renderPageImageToPng } from './exportSvg';
+
+// =============================================================================
+// TEST HELPERS
+// =============================================================================
+
+/**
+ * One paragraph per page
+ */
+function makeLayout(paragraphs: ParagraphBlock['runs'][]): LayoutPipelineResult {
+  const made = paragraphs.map((runs, i) => makeParagraph(i + 1, runs));
+  return {
+    layout: { pageSize: PAGE, pages: made.map((_, i) => makePage(i + 1, i + 1)) },
+    blocks: made.map((paragraph) => paragraph.block),
+    measures: made.map((paragraph) => paragraph.measure),
+    titlePg: false,
+  };
+}
+
+const measureText = (text: string) => text.length * 6;
+
+// =============================================================================
+// TESTS
+// =============================================================================
+
+describe('renderLayoutToSvg', () => {
+  const layout = makeLayout([
+    [{ kind: 'text', text: 'First <page> & more', bold: true }],
+    [
+      { kind: 'text', text: 'See ' },
+      { kind: 'text', text: 'site', hyperlink: { href: 'https://example.com/?a=1&b=2' } },
+    ],
+    [{ kind: 'text', text: 'Third page' }],
+  ]);
+
+  test('draws every page as a standalone SVG', () => {
+    const images = renderLayoutToSvg(layout, { measureText });
+
+    expect(images.map((image) => image.pageNumber)).toEqual([1, 2, 3]);
+    const [first, second] = images;
+    expect(first.width).toBe(PAGE.w);
+    expect(first.svg).toStartWith('<svg xmlns="http://www.w3.org/2000/svg"');
+    expect(first.svg).toContain('First &lt;page&gt; &amp; more');
+    expect(first.svg).toContain('font-weight="bold"');
+    expect(second.svg).toContain('<a href="https://example.com/?a=1&amp;b=2">');
+    expect(second.svg).toContain('fill="#0563c1"');
+  });
+
+  test('leaves out links that are not web, mail or anchor links', () => {
+    const [page] = renderLayoutToSvg(
+      makeLayout([[{ kind: 'text', text: 'run', hyperlink: { href: 'javascript:alert(1)' } }]]),
+      { measureText }
+    );
+    expect(page.svg).toContain('run');
+    expect(page.svg).not.toContain('<a ');
+    expect(page.svg).not.toContain('javascript');
+  });
+
+  test('selects pages and scales the image', () => {
+    expect(
+      renderLayoutToSvg(layout, { measureText, pages: [3, 1, 7] }).map((i) => i.pageNumber)
+    ).toEqual([1, 3]);
+    expect(
+      renderLayoutToSvg(layout, { measureText, pages: { from: 2 } }).map((i) => i.pageNumber)
+    ).toEqual([2, 3]);
+
+    const [thumbnail] = renderLayoutToSvg(layout, { measureText, pages: { to: 1 }, scale: 0.25 });
+    expect(thumbnail.width).toBe(204);
+    expect(thumbnail.height).toBe(264);
+    expect(thumbnail.svg).toContain('width="204" height="264" viewBox="0 0 816 1056"');
+
+    expect(() => renderLayoutToSvg(layout, { scale: 0 })).toThrow();
+  });
+
+  test('draws tracked changes and comments on request', () => {
+    const marked = makeLayout([
+      [
+        { kind: 'text', text: 'kept ', commentIds: [1] },
+        { kind: 'text', text: 'added ', isInsertion: true },
+        { kind: 'text', text: 'removed', isDeletion: true },
+      ],
+    ]);
+
+    const [withMarkup] = renderLayoutToSvg(marked, { measureText });
+    expect(withMarkup.svg).toContain('removed');
+    expect(withMarkup.svg).toContain('stroke="#c62828"');
+    expect(withMarkup.svg).toContain('stroke-dasharray');
+    // Comment highlights are off by default
+    expect(withMarkup.svg).not.toContain('fill="#fff9d9"');
+
+    const [clean] = renderLayoutToSvg(marked, { measureText, trackedChanges: false });
+    expect(clean.svg).toContain('added');
+    expect(clean.svg).not.toContain('removed');
+    expect(clean.svg).not.toContain('#c62828');
+    expect(clean.svg).not.toContain('stroke-dasharray');
+
+    const [commented] = renderLayoutToSvg(marked, { measureText, comments: true });
+    expect(commented.svg).toContain('fill="#fff9d9"');
+    const [resolved] = renderLayoutToSvg(marked, {
+      measureText,
+      comments: true,
+      resolvedCommentIds: new Set([1]),
+    });
+    expect(resolved.svg).not.toContain('fill="#fff9d9"');
+  });
+});
+
+describe('renderDocumentToSvg', () => {
+  beforeEach(() =>
+    setMeasurementBackend({
+      measureTextWidth: (text) => [...text].length * 8,
+      getFontMetrics: () => ({ ascent: 12, descent: 4 }),
+    })
+  );
+  afterEach(() => setMeasurementBackend(null));
+
+  function documentWithDeletion(): Document {
+    const document = createEmptyDocument();
+    document.package.document.content = [
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'run', content: [{ type: 'text', text: 'Final text' }] },
+          {
+            type: 'deletion',
+            info: { id: 1, author: 'Reviewer' },
+            content: [{ type: 'run', content: [{ type: 'text', text: ' struck out' }] }],
+          },
+        ],
+      },
+    ];
+    return document;
+  }
+
+  test('lays out and draws the document headlessly', () => {
+    const [page] = renderDocumentToSvg(documentWithDeletion());
+    expect(page.pageNumber).toBe(1);
+    expect(page.svg).toContain('Final text');
+    expect(page.svg).toContain('struck out');
+  });
+
+  test('lays out without tracked changes when markup is off', () => {
+    const [page] = renderDocumentToSvg(documentWithDeletion(), { trackedChanges: false });
+    expect(page.svg).toContain('Final text');
+    expect(page.svg).not.toContain('struck out');
+  });
+
+  test('PNG output needs a browser canvas', async () => {
+    const [page] = renderDocumentToSvg(documentWithDeletion());
+    await expect(renderPageImageToPng(page)).rejects.toThrow('browser canvas');
+  });
+});
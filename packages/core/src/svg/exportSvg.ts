@@ -0,0 +1,207 @@
+/**
+ * Page Images
+ *
+ * Draws laid-out pages as SVG, for thumbnails and page previews. Pages go
+ * through the same renderer as PDF export, so they match the PDF and the
+ * editor. SVG rendering needs no DOM and works headlessly; PNG conversion
+ * rasterizes the SVG with a browser canvas.
+ *
+ * @example
+ * ```ts
+ * const [first] = renderDocumentToSvg(document, { pages: [1], scale: 0.25 });
+ * const thumbnail = await renderPageImageToPng(first);
+ * ```
+ */
+
+import { EditorState } from 'prosemirror-state';
+import type { Document, Theme } from '../types/document';
+import {
+  buildDocumentLayout,
+  getSectionHeaderFooters,
+  type LayoutPipelineResult,
+} from '../layout-bridge/layoutPipeline';
+import { measureTextWidth } from '../layout-bridge/measuring';
+import { toProseDoc } from '../prosemirror/conversion/toProseDoc';
+import { acceptAllChanges } from '../prosemirror/commands/comments';
+import type { PdfTextMeasurer } from '../pdf/pdfFonts';
+import { drawLayoutPages } from '../pdf/renderPdf';
+import { SvgPageCanvas } from './svgCanvas';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PageImageOptions {
+  /**
+   * Pages to draw, by 1-based number: a list, or a range with inclusive
+   * ends. Numbers past the last page are ignored. Default: every page.
+   */
+  pages?: number[] | { from?: number; to?: number };
+  /** Output size relative to the page at 96 DPI. Default: 1. */
+  scale?: number;
+  /**
+   * Show tracked changes with markup, as the editor does. When false the
+   * pages show the document with every change accepted. Default: true.
+   */
+  trackedChanges?: boolean;
+  /** Highlight commented text. Default: false. */
+  comments?: boolean;
+  /** Comments not to highlight (a document's resolved comments by default) */
+  resolvedCommentIds?: Set<number>;
+  /** Theme for resolving page border colors */
+  theme?: Theme | null;
+  /**
+   * Text measurer matching the one the layout used. Defaults to the layout's
+   * measurer.
+   */
+  measureText?: PdfTextMeasurer;
+}
+
+/**
+ * A drawn page
+ */
+export interface PageImage {
+  /** 1-based page number */
+  pageNumber: number;
+  /** Image size in pixels (the page size times the scale) */
+  width: number;
+  height: number;
+  svg: string;
+}
+
+// ============================================================================
+// SVG
+// ============================================================================
+
+/**
+ * Draw pages of a paginated layout as SVG.
+ *
+ * With `trackedChanges: false` deleted text is left out, but the layout
+ * still makes room for it; `renderDocumentToSvg` lays the document out
+ * without the changes instead.
+ */
+export function renderLayoutToSvg(
+  result: LayoutPipelineResult,
+  options: PageImageOptions = {}
+): PageImage[] {
+  const scale = options.scale ?? 1;
+  if (!(scale > 0)) throw new Error(`Page image scale must be positive (got ${scale})`);
+
+  const indices = selectPages(result.layout.pages.length, options.pages);
+  const canvases = drawLayoutPages(
+    result,
+    {
+      measureText: options.measureText ?? measureTextWidth,
+      theme: options.theme,
+      trackedChanges: options.trackedChanges,
+      comments: options.comments,
+      resolvedCommentIds: options.resolvedCommentIds,
+    },
+    (page) => new SvgPageCanvas(`page${page.number}-`),
+    indices
+  );
+
+  return canvases.map((canvas, i) => {
+    const page = result.layout.pages[indices[i]];
+    return {
+      pageNumber: page.number,
+      width: page.size.w * scale,
+      height: page.size.h * scale,
+      svg: canvas.toSvg(page.size.w, page.size.h, scale),
+    };
+  });
+}
+
+/**
+ * Lay out a parsed document and draw its pages as SVG. Text is measured
+ * the way the layout measures it: canvas in the browser, the backend set by
+ * `setMeasurementBackend`, or an estimate when neither is available.
+ */
+export function renderDocumentToSvg(
+  document: Document,
+  options: PageImageOptions = {}
+): PageImage[] {
+  let doc = toProseDoc(document, { styles: document.package.styles ?? undefined });
+  if (options.trackedChanges === false) {
+    acceptAllChanges()(EditorState.create({ doc }), (tr) => {
+      doc = tr.doc;
+    });
+  }
+
+  const theme = options.theme ?? document.package.theme ?? null;
+  const result = buildDocumentLayout(doc, {
+    document,
+    theme,
+    sectionProperties: document.package.document?.finalSectionProperties ?? null,
+    ...getSectionHeaderFooters(document),
+  });
+
+  const resolvedCommentIds =
+    options.resolvedCommentIds ??
+    new Set(
+      (document.package.document.comments ?? [])
+        .filter((comment) => comment.done)
+        .map((comment) => comment.id)
+    );
+  return renderLayoutToSvg(result, { ...options, theme, resolvedCommentIds });
+}
+
+// ============================================================================
+// PNG
+// ============================================================================
+
+/**
+ * Rasterize a page image to PNG. Needs a browser (or another runtime with
+ * `Image` and a canvas); in Node, convert the SVG with an image library.
+ */
+export async function renderPageImageToPng(image: PageImage): Promise<Blob> {
+  if (typeof Image === 'undefined' || typeof URL?.createObjectURL !== 'function') {
+    throw new Error('PNG rendering needs a browser canvas; use the SVG output instead');
+  }
+
+  const url = URL.createObjectURL(new Blob([image.svg], { type: 'image/svg+xml' }));
+  try {
+    const element = new Image();
+    await new Promise<void>((resolve, reject) => {
+      element.onload = () => resolve();
+      element.onerror = () => reject(new Error(`Could not load page ${image.pageNumber} SVG`));
+      element.src = url;
+    });
+
+    const width = Math.max(1, Math.round(image.width));
+    const height = Math.max(1, Math.round(image.height));
+    if (typeof OffscreenCanvas !== 'undefined') {
+      const canvas = new OffscreenCanvas(width, height);
+      canvas.getContext('2d')!.drawImage(element, 0, 0, width, height);
+      return canvas.convertToBlob({ type: 'image/png' });
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')!.drawImage(element, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))))
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Zero-based indices of the selected pages, in page order
+ */
+function selectPages(pageCount: number, pages: PageImageOptions['pages']): number[] {
+  const all = Array.from({ length: pageCount }, (_, index) => index);
+  if (!pages) return all;
+  if (Array.isArray(pages)) {
+    const numbers = new Set(pages);
+    return all.filter((index) => numbers.has(index + 1));
+  }
+  const from = pages.from ?? 1;
+  const to = pages.to ?? pageCount;
+  return all.filter((index) => index + 1 >= from && index + 1 <= to);
+}
@@ -0,0 +1,15 @@
+/**
+ * Page Images
+ *
+ * Layout → SVG pages (and PNG in the browser), for thumbnails and previews.
+ * `renderLayoutToSvg` draws an existing layout (what the editor shows);
+ * `renderDocumentToSvg` lays out a parsed document first.
+ */
+
+export {
+  renderLayoutToSvg,
+  renderDocumentToSvg,
+  renderPageImageToPng,
+  type PageImage,
+  type PageImageOptions,
+} from './exportSvg';
@@ -0,0 +1,214 @@
+/**
+ * SVG Page Surface
+ *
+ * Draws a page as SVG markup, for the page renderer shared with PDF export.
+ * Text stays text (fonts resolve through the same CSS stacks the editor
+ * uses) and images are referenced by their source URL, so the output needs
+ * no font or image loading up front.
+ */
+
+import type { PageSurface, PathCommand, Rgb, TextStyle } from '../pdf/renderPdf';
+import { resolveFontFamily } from '../utils/fontResolver';
+import { sanitizeHref } from '../utils/safeUrl';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function color(rgb: Rgb): string {
+  return `#${rgb
+    .map((component) =>
+      Math.round(Math.min(1, Math.max(0, component)) * 255)
+        .toString(16)
+        .padStart(2, '0')
+    )
+    .join('')}`;
+}
+
+/** Strip characters XML 1.0 doesn't allow */
+function xmlText(text: string): string {
+  return escapeXml(text.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, ''));
+}
+
+// ============================================================================
+// SURFACE
+// ============================================================================
+
+/**
+ * Builds one page's SVG elements. Each `save` opens a group level; the
+ * transforms and clips applied after it nest inside and close on `restore`.
+ */
+export class SvgPageCanvas implements PageSurface {
+  readonly elements: string[] = [];
+  private readonly links: string[] = [];
+  private readonly defs: string[] = [];
+  /** Groups opened since each `save` (the first entry is the page level) */
+  private openGroups: number[] = [0];
+
+  /**
+   * @param idPrefix - Prefix for clip path ids, unique per page when
+   *   several pages share an HTML document
+   */
+  constructor(private idPrefix = '') {}
+
+  fillRect(x: number, y: number, width: number, height: number, rgb: Rgb | null): void {
+    if (!rgb || width <= 0 || height <= 0) return;
+    this.elements.push(
+      `<rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" fill="${color(rgb)}"/>`
+    );
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    width: number,
+    rgb: Rgb | null,
+    style = 'solid'
+  ): void {
+    if (!rgb || width <= 0) return;
+    if (style === 'double' && width >= 3) {
+      // Two lines of a third of the width each, at the outer edges
+      const offset = width / 3;
+      const vertical = x1 === x2;
+      const dx = vertical ? offset : 0;
+      const dy = vertical ? 0 : offset;
+      this.line(x1 - dx, y1 - dy, x2 - dx, y2 - dy, width / 3, rgb);
+      this.line(x1 + dx, y1 + dy, x2 + dx, y2 + dy, width / 3, rgb);
+      return;
+    }
+    let dash = '';
+    if (style === 'dashed' || style === 'dashSmallGap') {
+      dash = ` stroke-dasharray="${num(width * 3)} ${num(width * 2)}"`;
+    } else if (style === 'dotted') {
+      dash = ` stroke-dasharray="${num(width)} ${num(width)}"`;
+    }
+    this.elements.push(
+      `<line x1="${num(x1)}" y1="${num(y1)}" x2="${num(x2)}" y2="${num(y2)}" stroke="${color(rgb)}" stroke-width="${num(width)}"${dash}/>`
+    );
+  }
+
+  strokePath(commands: PathCommand[], width: number, rgb: Rgb): void {
+    const d = commands
+      .map((command) =>
+        command[0] === 'Z' ? 'Z' : `${command[0]}${num(command[1])} ${num(command[2])}`
+      )
+      .join(' ');
+    this.elements.push(
+      `<path d="${d}" fill="none" stroke="${color(rgb)}" stroke-width="${num(width)}" stroke-linejoin="round"/>`
+    );
+  }
+
+  save(): void {
+    this.openGroups.push(0);
+  }
+
+  restore(): void {
+    if (this.openGroups.length === 1) return;
+    this.elements.push('</g>'.repeat(this.openGroups.pop()!));
+  }
+
+  transform(matrix: number[]): void {
+    this.openGroup(`transform="matrix(${matrix.map(num).join(' ')})"`);
+  }
+
+  clip(x: number, y: number, width: number, height: number): void {
+    const id = `${this.idPrefix}clip${this.defs.length + 1}`;
+    this.defs.push(
+      `<clipPath id="${id}"><rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}"/></clipPath>`
+    );
+    this.openGroup(`clip-path="url(#${id})"`);
+  }
+
+  text(text: string, x: number, baseline: number, style: TextStyle, width?: number): void {
+    if (!text) return;
+    const attrs = [
+      `x="${num(x)}"`,
+      `y="${num(baseline)}"`,
+      `font-family="${escapeXml(resolveFontFamily(style.family).cssFallback)}"`,
+      `font-size="${num(style.size)}"`,
+      `fill="${color(style.color)}"`,
+    ];
+    if (style.bold) attrs.push('font-weight="bold"');
+    if (style.italic) attrs.push('font-style="italic"');
+    if (style.letterSpacing) {
+      attrs.push(`letter-spacing="${num(style.letterSpacing)}"`);
+    } else if (width !== undefined && width > 0 && text.trim()) {
+      // Fit the width the layout measured, like the PDF's horizontal scaling
+      attrs.push(`textLength="${num(width)}" lengthAdjust="spacingAndGlyphs"`);
+    }
+    this.elements.push(`<text ${attrs.join(' ')} xml:space="preserve">${xmlText(text)}</text>`);
+  }
+
+  image(
+    src: string,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    options: { transform?: string; contain?: boolean } = {}
+  ): void {
+    if (!src || width <= 0 || height <= 0) return;
+    const attrs = [
+      `href="${escapeXml(src)}"`,
+      `x="${num(x)}"`,
+      `y="${num(y)}"`,
+      `width="${num(width)}"`,
+      `height="${num(height)}"`,
+      `preserveAspectRatio="${options.contain ? 'xMidYMid meet' : 'none'}"`,
+    ];
+    if (options.transform) {
+      const cx = num(x + width / 2);
+      const cy = num(y + height / 2);
+      attrs.push(
+        `transform="translate(${cx} ${cy}) ${escapeXml(options.transform)} translate(-${cx} -${cy})"`
+      );
+    }
+    this.elements.push(`<image ${attrs.join(' ')}/>`);
+  }
+
+  link(x: number, y: number, width: number, height: number, href: string): void {
+    const target = sanitizeHref(href);
+    if (!target || width <= 0 || height <= 0) return;
+    this.links.push(
+      `<a href="${escapeXml(target)}"><rect x="${num(x)}" y="${num(y)}" width="${num(width)}" height="${num(height)}" fill="transparent"/></a>`
+    );
+  }
+
+  /**
+   * Serialize the page. `width` and `height` are the page size in layout
+   * pixels; `scale` sizes the image without changing its coordinates.
+   */
+  toSvg(width: number, height: number, scale = 1): string {
+    const closing = '</g>'.repeat(this.openGroups.reduce((sum, count) => sum + count, 0));
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${num(width * scale)}" height="${num(height * scale)}" viewBox="0 0 ${num(width)} ${num(height)}">`,
+      this.defs.length > 0 ? `<defs>${this.defs.join('')}</defs>` : '',
+      `<rect width="${num(width)}" height="${num(height)}" fill="#ffffff"/>`,
+      ...this.elements,
+      closing,
+      ...this.links,
+      '</svg>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  private openGroup(attributes: string): void {
+    this.elements.push(`<g ${attributes}>`);
+    this.openGroups[this.openGroups.length - 1]++;
+  }
+}
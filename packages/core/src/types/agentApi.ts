@@ -212,6 +212,24 @@ export interface InsertImageCommand extends BaseCommand {
   alt?: string;
 }
 
+/**
+ * Insert a math equation
+ *
+ * Provide either `latex` (LaTeX-like / linear format, e.g. `\frac{a}{b}`)
+ * or raw `ommlXml`.
+ */
+export interface InsertEquationCommand extends BaseCommand {
+  type: 'insertEquation';
+  /** Position to insert at */
+  position: Position;
+  /** Equation source in the LaTeX-like linear format */
+  latex?: string;
+  /** Equation as OMML (m:oMath or m:oMathPara) — takes precedence over latex */
+  ommlXml?: string;
+  /** Inline (within the text) or block (own centered paragraph); default inline */
+  display?: 'inline' | 'block';
+}
+
 /**
  * Insert a hyperlink at a range
  */
@@ -297,6 +315,7 @@ export type AgentCommand =
   | ApplyStyleCommand
   | InsertTableCommand
   | InsertImageCommand
+  | InsertEquationCommand
   | InsertHyperlinkCommand
   | RemoveHyperlinkCommand
   | InsertParagraphBreakCommand
@@ -396,6 +415,28 @@ export interface SectionInfo {
   hasFooter?: boolean;
 }
 
+/**
+ * A page of the laid-out document
+ */
+export interface PageLayoutInfo {
+  /** Page number (1-indexed) */
+  number: number;
+  /** Paragraphs with lines on this page (indices as in Position) */
+  paragraphIndices: number[];
+  /** Body text on the page: a line per paragraph or table row */
+  text: string;
+}
+
+/**
+ * Document laid out into pages
+ */
+export interface DocumentLayoutInfo {
+  /** Number of pages */
+  pageCount: number;
+  /** Pages in order */
+  pages: PageLayoutInfo[];
+}
+
 // ============================================================================
 // SELECTION CONTEXT
 // ============================================================================
@@ -594,10 +635,26 @@ export type CommandHandler<T extends AgentCommand = AgentCommand> = (
   command: T
 ) => Promise<boolean>;
 
+/**
+ * Options passed to an AI request handler
+ */
+export interface AIRequestOptions {
+  /** Report text as the model streams it; chunks are appended in order */
+  onChunk?: (chunk: string) => void;
+  /** Aborted when the user dismisses the request */
+  signal?: AbortSignal;
+}
+
 /**
  * AI request handler function type
+ *
+ * Handlers may stream through `options.onChunk` and resolve with the final
+ * response; when `newText` is missing the streamed text is used.
  */
-export type AIRequestHandler = (request: AIActionRequest) => Promise<AgentResponse>;
+export type AIRequestHandler = (
+  request: AIActionRequest,
+  options?: AIRequestOptions
+) => Promise<AgentResponse>;
 
 /**
  * Create a command with generated ID
@@ -16,6 +16,7 @@ import type {
   TableFormatting,
   TableRowFormatting,
   TableCellFormatting,
+  TextDirection,
 } from './formatting';
 import type { NumberFormat, ListRendering } from './lists';
 
@@ -674,12 +675,26 @@ export interface ShapeOutline {
   };
 }
 
+/**
+ * Text flow of a shape's text body (a:bodyPr/@vert)
+ */
+export type TextBodyVertical =
+  | 'horz'
+  | 'vert'
+  | 'vert270'
+  | 'wordArtVert'
+  | 'eaVert'
+  | 'mongolianVert'
+  | 'wordArtVertRtl';
+
 /**
  * Text body inside a shape
  */
 export interface ShapeTextBody {
   /** Text direction */
   vertical?: boolean;
+  /** Text flow as written in a:bodyPr/@vert */
+  vert?: TextBodyVertical;
   /** Rotation */
   rotation?: number;
   /** Anchor/vertical alignment */
@@ -754,6 +769,8 @@ export interface TextBox {
     left?: number;
     right?: number;
   };
+  /** Text flow (a:bodyPr/@vert) */
+  vert?: TextBodyVertical;
 }
 
 // ============================================================================
@@ -845,6 +862,32 @@ export interface CommentRangeEnd {
   id: number;
 }
 
+/**
+ * Start of a region that stays editable in a protected document (w:permStart)
+ */
+export interface PermissionStart {
+  type: 'permStart';
+  /** Permission ID (matches permEnd) */
+  id: string;
+  /** Single user allowed to edit the region (w:ed) */
+  ed?: string;
+  /** Group allowed to edit the region (w:edGrp), e.g. everyone or editors */
+  edGrp?: string;
+}
+
+/**
+ * End of an editable region (w:permEnd)
+ */
+export interface PermissionEnd {
+  type: 'permEnd';
+  id: string;
+}
+
+/**
+ * Who may edit a region (a permStart without its type tag)
+ */
+export type EditPermission = Omit<PermissionStart, 'type'>;
+
 // ============================================================================
 // MATH EQUATIONS
 // ============================================================================
@@ -915,6 +958,8 @@ export interface MoveFrom {
   type: 'moveFrom';
   /** Tracked change metadata */
   info: TrackedChangeInfo;
+  /** Name of the move range around it, shared with the MoveTo it moved to */
+  moveName?: string;
   /** Moved content */
   content: (Run | Hyperlink)[];
 }
@@ -926,6 +971,8 @@ export interface MoveTo {
   type: 'moveTo';
   /** Tracked change metadata */
   info: TrackedChangeInfo;
+  /** Name of the move range around it, shared with the MoveFrom it moved from */
+  moveName?: string;
   /** Moved content */
   content: (Run | Hyperlink)[];
 }
@@ -938,6 +985,8 @@ export interface MoveFromRangeStart {
   type: 'moveFromRangeStart';
   id: number;
   name: string;
+  author?: string;
+  date?: string;
 }
 
 /**
@@ -956,6 +1005,8 @@ export interface MoveToRangeStart {
   type: 'moveToRangeStart';
   id: number;
   name: string;
+  author?: string;
+  date?: string;
 }
 
 /**
@@ -1069,6 +1120,18 @@ export type SdtType =
   | 'group'
   | 'unknown';
 
+/**
+ * XML mapping of a content control (w:dataBinding)
+ */
+export interface SdtDataBinding {
+  /** XPath of the bound node in the custom XML part */
+  xpath: string;
+  /** Namespace prefixes used by the XPath (xmlns:ns0='...' pairs) */
+  prefixMappings?: string;
+  /** ID of the custom XML part (ds:itemID of its itemProps) */
+  storeItemId?: string;
+}
+
 /**
  * SDT properties (w:sdtPr)
  */
@@ -1091,6 +1154,8 @@ export interface SdtProperties {
   listItems?: { displayText: string; value: string }[];
   /** Checkbox checked state */
   checked?: boolean;
+  /** Binding to a node of a custom XML part */
+  dataBinding?: SdtDataBinding;
 }
 
 /**
@@ -1132,6 +1197,8 @@ export type ParagraphContent =
   | InlineSdt
   | CommentRangeStart
   | CommentRangeEnd
+  | PermissionStart
+  | PermissionEnd
   | Insertion
   | Deletion
   | MoveFrom
@@ -1161,6 +1228,29 @@ export interface Paragraph {
   listRendering?: ListRendering;
   /** Section properties (if this paragraph ends a section) */
   sectionProperties?: SectionProperties;
+  /** Table of contents this paragraph belongs to */
+  tableOfContents?: TableOfContentsInfo;
+}
+
+/**
+ * Membership of a paragraph in a table of contents.
+ *
+ * A TOC is a field whose result spans paragraphs, usually wrapped in a
+ * w:sdt docPart "Table of Contents". Consecutive paragraphs with this set
+ * form one TOC; the field begins in the first non-title paragraph and ends
+ * in the last.
+ */
+export interface TableOfContentsInfo {
+  /** TOC field instruction, e.g. `TOC \o "1-3" \h \z \u` */
+  instruction: string;
+  /** Wrapped in a w:sdt docPart "Table of Contents" */
+  docPart?: boolean;
+  /** Title paragraph inside the docPart, before the field begins */
+  title?: boolean;
+  /** Field is locked against updates */
+  fldLock?: boolean;
+  /** Field needs updating */
+  dirty?: boolean;
 }
 
 // ============================================================================
@@ -1342,6 +1432,8 @@ export interface SectionProperties {
   verticalAlign?: VerticalAlign;
   /** Right-to-left section */
   bidi?: boolean;
+  /** Text flow of the section body (w:textDirection) */
+  textDirection?: TextDirection;
 
   // Headers and footers
   /** Header references */
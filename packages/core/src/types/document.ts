@@ -37,6 +37,7 @@ export type {
   TableRowFormatting,
   ConditionalFormatStyle,
   TableCellFormatting,
+  TextDirection,
 } from './formatting';
 
 // Lists & Numbering
@@ -82,6 +83,7 @@ export type {
   ShapeFill,
   ShapeOutline,
   ShapeTextBody,
+  TextBodyVertical,
   Shape,
   TextBox,
   TableCell,
@@ -90,6 +92,9 @@ export type {
   Comment,
   CommentRangeStart,
   CommentRangeEnd,
+  PermissionStart,
+  PermissionEnd,
+  EditPermission,
   MathEquation,
   TrackedChangeInfo,
   TrackedRunChange,
@@ -110,10 +115,12 @@ export type {
   TableStructuralChangeInfo,
   SdtType,
   SdtProperties,
+  SdtDataBinding,
   InlineSdt,
   BlockSdt,
   ParagraphContent,
   Paragraph,
+  TableOfContentsInfo,
   HeaderFooterType,
   HeaderReference,
   FooterReference,
@@ -163,6 +170,50 @@ import type { StyleDefinitions, Theme, FontTable, RelationshipMap, MediaFile } f
 import type { NumberingDefinitions } from './lists';
 import type { Footnote, Endnote, HeaderFooter } from './content';
 
+/**
+ * Editing restriction (w:documentProtection in settings.xml)
+ *
+ * - readOnly: no changes except in permitted regions (w:permStart/w:permEnd)
+ * - comments: only comments, plus permitted regions
+ * - trackedChanges: every change is tracked
+ * - forms: only form fields and content controls
+ */
+export interface DocumentProtection {
+  edit: 'none' | 'readOnly' | 'comments' | 'trackedChanges' | 'forms';
+  /** Restriction is enforced (w:enforcement) — Word ignores it otherwise */
+  enforcement: boolean;
+  /** Formatting is limited to allowed styles (w:formatting) */
+  formatting?: boolean;
+  /** Password verifier attributes (w:hashValue, w:saltValue, ...), kept verbatim */
+  passwordHash?: Record<string, string>;
+}
+
+/**
+ * Document settings read from word/settings.xml
+ */
+export interface DocumentSettings {
+  /** Editing restriction */
+  protection?: DocumentProtection;
+  /** Hyphenate words automatically when breaking lines (w:autoHyphenation) */
+  autoHyphenation?: boolean;
+  /** Don't hyphenate words in all capitals (w:doNotHyphenateCaps) */
+  doNotHyphenateCaps?: boolean;
+  /** Space at the line end a word must leave before it's hyphenated, in twips (w:hyphenationZone) */
+  hyphenationZone?: number;
+}
+
+/**
+ * Custom XML data part (customXml/itemN.xml) that content controls bind to
+ */
+export interface CustomXmlPart {
+  /** Part path in the package */
+  path: string;
+  /** Store item ID from the part's itemProps (ds:itemID) */
+  itemId?: string;
+  /** Part content */
+  xml: string;
+}
+
 /**
  * Complete DOCX package structure
  */
@@ -189,6 +240,10 @@ export interface DocxPackage {
   relationships?: RelationshipMap;
   /** Media files */
   media?: Map<string, MediaFile>;
+  /** Document settings (settings.xml) */
+  settings?: DocumentSettings;
+  /** Custom XML data parts */
+  customXmlParts?: CustomXmlPart[];
   /** Document properties */
   properties?: {
     title?: string;
@@ -200,6 +255,8 @@ export interface DocxPackage {
     revision?: number;
     created?: Date;
     modified?: Date;
+    /** Custom properties (docProps/custom.xml) by name */
+    custom?: Record<string, string>;
   };
 }
 
@@ -171,6 +171,19 @@ export interface TextFormatting {
   /** Complex script formatting (w:cs) */
   cs?: boolean;
 
+  // Proofing
+  /** Languages of the text (w:lang) as BCP 47 tags */
+  lang?: {
+    /** Latin text (w:val) */
+    val?: string;
+    /** East Asian text (w:eastAsia) */
+    eastAsia?: string;
+    /** Complex script text (w:bidi) */
+    bidi?: string;
+  };
+  /** Exclude from spelling and grammar checking (w:noProof) */
+  noProof?: boolean;
+
   // Style reference
   /** Character style ID (w:rStyle) */
   styleId?: string;
@@ -487,6 +500,11 @@ export interface ConditionalFormatStyle {
 /**
  * Table cell formatting properties (w:tcPr)
  */
+/**
+ * Text flow direction (w:textDirection) of table cells and sections
+ */
+export type TextDirection = 'lr' | 'lrV' | 'rl' | 'rlV' | 'tb' | 'tbV' | 'tbRl' | 'tbRlV' | 'btLr';
+
 export interface TableCellFormatting {
   /** Cell width */
   width?: TableMeasurement;
@@ -499,7 +517,7 @@ export interface TableCellFormatting {
   /** Vertical alignment */
   verticalAlign?: 'top' | 'center' | 'bottom';
   /** Text direction */
-  textDirection?: 'lr' | 'lrV' | 'rl' | 'rlV' | 'tb' | 'tbV' | 'tbRl' | 'tbRlV' | 'btLr';
+  textDirection?: TextDirection;
   /** Grid span (horizontal merge) */
   gridSpan?: number;
   /** Vertical merge */
@@ -36,6 +36,7 @@ export type {
   TableRowFormatting,
   ConditionalFormatStyle,
   TableCellFormatting,
+  TextDirection,
 
   // Run Content
   TextContent,
@@ -76,6 +77,7 @@ export type {
   ShapeFill,
   ShapeOutline,
   ShapeTextBody,
+  TextBodyVertical,
   Shape,
   TextBox,
 
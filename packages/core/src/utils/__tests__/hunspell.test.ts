@@ -0,0 +1,116 @@
+/**
+ * Tests for Hunspell dictionaries and the spelling dictionary registry
+ */
+
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  createSpellChecker,
+  getSpellChecker,
+  onSpellingDictionaryChange,
+  registerSpellingDictionary,
+  unregisterSpellingDictionary,
+} from '../hunspell';
+
+const AFF = `
+SET UTF-8
+TRY esianrtolcdugmphbyfvkwzxjq
+FORBIDDENWORD !
+NOSUGGEST ?
+
+REP 1
+REP f ph
+
+PFX U Y 1
+PFX U 0 un .
+
+SFX S Y 2
+SFX S 0 s [^y]
+SFX S y ies [^aeiou]y
+
+SFX D Y 1
+SFX D 0 ed [^ey]
+`;
+
+const DIC = `9
+hello
+world
+photo
+kind/US
+city/S
+walk/DS
+Paris
+colour/!
+damn/?
+`;
+
+const checker = createSpellChecker({ lang: 'en-US', aff: AFF, dic: DIC });
+
+describe('createSpellChecker', () => {
+  test('accepts dictionary words and their affixed forms', () => {
+    expect(checker.check('hello')).toBe(true);
+    expect(checker.check('cities')).toBe(true);
+    expect(checker.check('walked')).toBe(true);
+    expect(checker.check('walks')).toBe(true);
+    expect(checker.check('unkind')).toBe(true);
+    // Prefix and suffix combined through the cross product
+    expect(checker.check('unkinds')).toBe(true);
+  });
+
+  test('rejects unknown words and forms the conditions rule out', () => {
+    expect(checker.check('helo')).toBe(false);
+    expect(checker.check('citys')).toBe(false);
+    expect(checker.check('unwalk')).toBe(false);
+  });
+
+  test('capitals are accepted for lower-case words but not the other way around', () => {
+    expect(checker.check('Hello')).toBe(true);
+    expect(checker.check('HELLO')).toBe(true);
+    expect(checker.check('Paris')).toBe(true);
+    expect(checker.check('PARIS')).toBe(true);
+    expect(checker.check('paris')).toBe(false);
+  });
+
+  test('forbidden words are misspelled', () => {
+    expect(checker.check('colour')).toBe(false);
+  });
+
+  test('suggests corrections in the case of the word', () => {
+    expect(checker.suggest('helo')).toContain('hello');
+    expect(checker.suggest('Helo')).toContain('Hello');
+    expect(checker.suggest('wrold')).toContain('world');
+    expect(checker.suggest('foto')[0]).toBe('photo');
+    expect(checker.suggest('paris')[0]).toBe('Paris');
+    expect(checker.suggest('helloworld')).toContain('hello world');
+  });
+
+  test('words marked NOSUGGEST are accepted but never suggested', () => {
+    expect(checker.check('damn')).toBe(true);
+    expect(checker.suggest('dman')).not.toContain('damn');
+  });
+});
+
+describe('spelling dictionaries', () => {
+  afterEach(() => {
+    unregisterSpellingDictionary('en-US');
+    unregisterSpellingDictionary('de');
+  });
+
+  test('the first registered language is the default', () => {
+    expect(getSpellChecker()).toBeNull();
+    registerSpellingDictionary({ lang: 'en-US', aff: AFF, dic: DIC });
+    registerSpellingDictionary({ lang: 'de', aff: '', dic: '' });
+    expect(getSpellChecker()?.lang).toBe('en-US');
+    expect(getSpellChecker('en-GB')?.lang).toBe('en-US');
+    expect(getSpellChecker('fr')).toBeNull();
+  });
+
+  test('listeners hear about registered and removed dictionaries', () => {
+    let changes = 0;
+    const unsubscribe = onSpellingDictionaryChange(() => changes++);
+    registerSpellingDictionary({ lang: 'de', aff: '', dic: '' });
+    unregisterSpellingDictionary('de');
+    unsubscribe();
+    registerSpellingDictionary({ lang: 'de', aff: '', dic: '' });
+    expect(changes).toBe(2);
+  });
+});
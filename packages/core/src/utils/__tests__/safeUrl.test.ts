@@ -0,0 +1,30 @@
+import { describe, test, expect } from 'bun:test';
+import { sanitizeHref } from '../safeUrl';
+
+describe('sanitizeHref', () => {
+  test('keeps web, mail and anchor links', () => {
+    expect(sanitizeHref('https://example.com/a?b=1')).toBe('https://example.com/a?b=1');
+    expect(sanitizeHref('  HTTP://example.com ')).toBe('HTTP://example.com');
+    expect(sanitizeHref('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+    expect(sanitizeHref('#_Toc123')).toBe('#_Toc123');
+  });
+
+  test('drops script, data and other schemes', () => {
+    for (const href of [
+      'javascript:alert(1)',
+      ' JavaScript:alert(1)',
+      'java\tscript:alert(1)',
+      '\u0001javascript:alert(1)',
+      'vbscript:msgbox(1)',
+      'data:text/html,<script>alert(1)</script>',
+      'file:///etc/passwd',
+      'relative/page.html',
+      '#',
+      '',
+      null,
+      undefined,
+    ]) {
+      expect(sanitizeHref(href)).toBeNull();
+    }
+  });
+});
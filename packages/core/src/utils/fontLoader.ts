@@ -20,6 +20,13 @@ const loadCallbacks = new Set<(fonts: string[]) => void>();
 // Track overall loading state
 let isLoadingAny = false;
 
+// Font files loaded from buffers, kept for exporters that embed fonts (PDF)
+const fontData = new Map<string, ArrayBuffer>();
+
+function fontDataKey(fontFamily: string, bold: boolean, italic: boolean): string {
+  return `${fontFamily.trim().toLowerCase()}|${bold ? 'bold' : 'normal'}|${italic ? 'italic' : 'normal'}`;
+}
+
 /**
  * Generate Google Fonts CSS URL for a font family
  *
@@ -321,6 +328,10 @@ export async function loadFontFromBuffer(
 ): Promise<boolean> {
   const normalizedFamily = fontFamily.trim();
 
+  const weight = options?.weight;
+  const bold = weight === 'bold' || (typeof weight === 'number' && weight >= 600);
+  fontData.set(fontDataKey(normalizedFamily, bold, options?.style === 'italic'), buffer);
+
   // Already loaded?
   if (loadedFonts.has(normalizedFamily)) {
     return true;
@@ -358,6 +369,20 @@ export async function loadFontFromBuffer(
   }
 }
 
+/**
+ * Get the font file loaded for a family with `loadFontFromBuffer`
+ *
+ * @param fontFamily - The font family name
+ * @param options - The face to look up (default: regular)
+ * @returns The font file, or null if none was loaded for that face
+ */
+export function getLoadedFontData(
+  fontFamily: string,
+  options?: { bold?: boolean; italic?: boolean }
+): ArrayBuffer | null {
+  return fontData.get(fontDataKey(fontFamily, !!options?.bold, !!options?.italic)) ?? null;
+}
+
 /**
  * Mapping from common Office/system fonts to Google Fonts equivalents
  *
@@ -0,0 +1,473 @@
+/**
+ * Hunspell - Spell checking with Hunspell dictionaries
+ *
+ * Reads the .aff / .dic dictionary pair used by LibreOffice, Firefox and most
+ * other open-source spell checkers. No dictionary is bundled; hosts load the
+ * files for the languages they need and register them, e.g.
+ *
+ *   registerSpellingDictionary({ lang: 'en-US', aff, dic });
+ *
+ * Supported: FLAG (single, long, num, UTF-8), TRY, REP, PFX/SFX with
+ * conditions and cross products, FORBIDDENWORD, NEEDAFFIX, NOSUGGEST and
+ * KEEPCASE. Compounding and twofold affixes are not supported; words built
+ * that way are reported as misspelled.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Hunspell dictionary for one language
+ */
+export interface SpellingDictionary {
+  /** BCP 47 language tag, e.g. "en-US" */
+  lang: string;
+  /** Contents of the .aff file */
+  aff: string;
+  /** Contents of the .dic file */
+  dic: string;
+}
+
+/**
+ * Spell checker compiled from a dictionary
+ */
+export interface SpellChecker {
+  /** Language the dictionary was registered for */
+  lang: string;
+  /** Whether a word is spelled correctly */
+  check(word: string): boolean;
+  /** Corrections for a misspelled word, best first */
+  suggest(word: string, limit?: number): string[];
+}
+
+interface AffixRule {
+  flag: string;
+  /** Characters removed from the stem before adding the affix */
+  strip: string;
+  /** Characters the affix adds */
+  add: string;
+  /** Condition the stem must meet, anchored to its start (PFX) or end (SFX) */
+  condition: RegExp | null;
+  /** Whether the rule combines with affixes of the other kind */
+  crossProduct: boolean;
+}
+
+type FlagMode = 'short' | 'long' | 'num' | 'utf8';
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const DEFAULT_SUGGESTION_LIMIT = 8;
+
+function parseFlags(value: string, mode: FlagMode): string[] {
+  switch (mode) {
+    case 'long':
+      return value.match(/../g) ?? [];
+    case 'num':
+      return value.split(',').filter(Boolean);
+    case 'utf8':
+      return Array.from(value);
+    default:
+      return value.split('');
+  }
+}
+
+/**
+ * Turn an affix condition ("[^aeiou]y", ".", "ed") into an anchored RegExp.
+ */
+function compileCondition(condition: string, kind: 'PFX' | 'SFX'): RegExp | null {
+  if (!condition || condition === '.') return null;
+  let source = '';
+  for (let i = 0; i < condition.length; i++) {
+    const char = condition[i];
+    if (char === '[') {
+      const end = condition.indexOf(']', i);
+      if (end < 0) return null;
+      const body = condition.slice(i + 1, end);
+      const negated = body.startsWith('^');
+      const chars = (negated ? body.slice(1) : body).replace(/[\\\]^-]/g, '\\$&');
+      source += `[${negated ? '^' : ''}${chars}]`;
+      i = end;
+    } else if (char === '.') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(kind === 'PFX' ? `^${source}` : `${source}$`, 'u');
+}
+
+function stripComment(line: string): string {
+  return line.startsWith('#') ? '' : line.trim();
+}
+
+/** Rules indexed by the text they add, so lookups only try matching rules */
+type AffixIndex = Map<string, AffixRule[]>;
+
+function indexRule(index: AffixIndex, rule: AffixRule): void {
+  const rules = index.get(rule.add);
+  if (rules) {
+    rules.push(rule);
+  } else {
+    index.set(rule.add, [rule]);
+  }
+}
+
+// =============================================================================
+// ENGINE
+// =============================================================================
+
+type CaseType = 'lower' | 'capitalized' | 'upper' | 'mixed';
+
+function getCaseType(word: string): CaseType {
+  const lower = word.toLowerCase();
+  const upper = word.toUpperCase();
+  if (word === lower) return 'lower';
+  if (word === upper) return 'upper';
+  if (word.slice(1) === lower.slice(1)) return 'capitalized';
+  return 'mixed';
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+function applyCase(word: string, caseType: CaseType): string {
+  if (caseType === 'upper') return word.toUpperCase();
+  if (caseType === 'capitalized') return word.charAt(0).toUpperCase() + word.slice(1);
+  return word;
+}
+
+/**
+ * Compile a Hunspell dictionary into a spell checker
+ */
+export function createSpellChecker(dictionary: SpellingDictionary): SpellChecker {
+  let flagMode: FlagMode = 'short';
+  let tryChars = '';
+  let forbiddenFlag: string | null = null;
+  let needAffixFlag: string | null = null;
+  let noSuggestFlag: string | null = null;
+  let keepCaseFlag: string | null = null;
+  const replacements: [string, string][] = [];
+  const prefixes: AffixIndex = new Map();
+  const suffixes: AffixIndex = new Map();
+  const crossProduct = new Map<string, boolean>();
+
+  for (const rawLine of dictionary.aff.split(/\r?\n/)) {
+    const line = stripComment(rawLine);
+    if (!line) continue;
+    const parts = line.split(/\s+/);
+    switch (parts[0]) {
+      case 'FLAG':
+        if (parts[1] === 'long') flagMode = 'long';
+        else if (parts[1] === 'num') flagMode = 'num';
+        else if (parts[1] === 'UTF-8') flagMode = 'utf8';
+        break;
+      case 'TRY':
+        tryChars = parts[1] ?? '';
+        break;
+      case 'FORBIDDENWORD':
+        forbiddenFlag = parts[1] ?? null;
+        break;
+      case 'NEEDAFFIX':
+      case 'PSEUDOROOT':
+        needAffixFlag = parts[1] ?? null;
+        break;
+      case 'NOSUGGEST':
+        noSuggestFlag = parts[1] ?? null;
+        break;
+      case 'KEEPCASE':
+        keepCaseFlag = parts[1] ?? null;
+        break;
+      case 'REP':
+        // The first REP line only holds the number of entries
+        if (parts.length >= 3) replacements.push([parts[1], parts[2].replace(/_/g, ' ')]);
+        break;
+      case 'PFX':
+      case 'SFX': {
+        const kind = parts[0];
+        const flag = parts[1];
+        // Header: "SFX flag Y|N count"
+        if (parts.length === 4 && /^[YN]$/.test(parts[2]) && /^\d+$/.test(parts[3])) {
+          crossProduct.set(kind + flag, parts[2] === 'Y');
+          break;
+        }
+        if (parts.length < 4) break;
+        const [add] = parts[3].split('/');
+        indexRule(kind === 'PFX' ? prefixes : suffixes, {
+          flag,
+          strip: parts[2] === '0' ? '' : parts[2],
+          add: add === '0' ? '' : add,
+          condition: compileCondition(parts[4] ?? '.', kind),
+          crossProduct: crossProduct.get(kind + flag) ?? false,
+        });
+        break;
+      }
+    }
+  }
+
+  // Words mapped to the flag sets of their entries (homonyms have several)
+  const words = new Map<string, Set<string>[]>();
+  const dicLines = dictionary.dic.split(/\r?\n/);
+  for (let i = 0; i < dicLines.length; i++) {
+    const line = dicLines[i].trim();
+    // The first line holds the approximate number of words
+    if (!line || (i === 0 && /^\d+$/.test(line))) continue;
+    const entry = line.split(/\s/)[0];
+    const slash = entry.search(/(?<!\\)\//);
+    const word = (slash < 0 ? entry : entry.slice(0, slash)).replace(/\\\//g, '/');
+    const flags = new Set(slash < 0 ? [] : parseFlags(entry.slice(slash + 1), flagMode));
+    const homonyms = words.get(word);
+    if (homonyms) {
+      homonyms.push(flags);
+    } else {
+      words.set(word, [flags]);
+    }
+  }
+
+  function isForbidden(word: string): boolean {
+    return !!forbiddenFlag && !!words.get(word)?.some((flags) => flags.has(forbiddenFlag!));
+  }
+
+  /**
+   * Flags of a dictionary entry the word derives from, requiring the given
+   * affix flags on it. Returns null when there is none.
+   */
+  function findStem(stem: string, required: string[]): Set<string> | null {
+    const entries = words.get(stem);
+    if (!entries) return null;
+    for (const flags of entries) {
+      if (forbiddenFlag && flags.has(forbiddenFlag)) continue;
+      if (required.length === 0 && needAffixFlag && flags.has(needAffixFlag)) continue;
+      if (required.every((flag) => flags.has(flag))) return flags;
+    }
+    return null;
+  }
+
+  function matchingRules(index: AffixIndex, word: string, kind: 'PFX' | 'SFX'): AffixRule[] {
+    const rules: AffixRule[] = [];
+    for (let length = 0; length < word.length; length++) {
+      const affix = kind === 'PFX' ? word.slice(0, length) : word.slice(word.length - length);
+      const matches = index.get(affix);
+      if (matches) rules.push(...matches);
+    }
+    return rules;
+  }
+
+  function stripSuffix(word: string, rule: AffixRule): string | null {
+    const stem = word.slice(0, word.length - rule.add.length) + rule.strip;
+    return !rule.condition || rule.condition.test(stem) ? stem : null;
+  }
+
+  function stripPrefix(word: string, rule: AffixRule): string | null {
+    const stem = rule.strip + word.slice(rule.add.length);
+    return !rule.condition || rule.condition.test(stem) ? stem : null;
+  }
+
+  /**
+   * Flags of the root entry a word with exactly this case derives from
+   */
+  function lookup(word: string): Set<string> | null {
+    const root = findStem(word, []);
+    if (root) return root;
+
+    for (const suffix of matchingRules(suffixes, word, 'SFX')) {
+      const stem = stripSuffix(word, suffix);
+      if (stem === null) continue;
+      const flags = findStem(stem, [suffix.flag]);
+      if (flags) return flags;
+    }
+
+    for (const prefix of matchingRules(prefixes, word, 'PFX')) {
+      const stem = stripPrefix(word, prefix);
+      if (stem === null) continue;
+      const flags = findStem(stem, [prefix.flag]);
+      if (flags) return flags;
+      if (!prefix.crossProduct) continue;
+      for (const suffix of matchingRules(suffixes, stem, 'SFX')) {
+        if (!suffix.crossProduct) continue;
+        const base = stripSuffix(stem, suffix);
+        if (base === null) continue;
+        const crossFlags = findStem(base, [prefix.flag, suffix.flag]);
+        if (crossFlags) return crossFlags;
+      }
+    }
+
+    return null;
+  }
+
+  const cache = new Map<string, Set<string> | null>();
+
+  /**
+   * Root entry of a word, trying the lower-case forms Word accepts for
+   * capitalized and upper-case text.
+   */
+  function findRoot(word: string): Set<string> | null {
+    const cached = cache.get(word);
+    if (cached !== undefined) return cached;
+
+    let root: Set<string> | null = null;
+    if (!isForbidden(word)) {
+      root = lookup(word);
+      const caseType = getCaseType(word);
+      const keepsCase = (flags: Set<string> | null) =>
+        flags && keepCaseFlag && flags.has(keepCaseFlag) ? null : flags;
+      if (!root && caseType === 'capitalized') {
+        root = keepsCase(lookup(word.toLowerCase()));
+      } else if (!root && caseType === 'upper') {
+        root = keepsCase(lookup(capitalize(word))) ?? keepsCase(lookup(word.toLowerCase()));
+      }
+    }
+
+    if (cache.size > 10000) cache.clear();
+    cache.set(word, root);
+    return root;
+  }
+
+  function check(word: string): boolean {
+    return findRoot(word.replace(/’/g, "'")) !== null;
+  }
+
+  function suggest(word: string, limit = DEFAULT_SUGGESTION_LIMIT): string[] {
+    const normalized = word.replace(/’/g, "'");
+    const caseType = getCaseType(normalized);
+    const source = caseType === 'mixed' ? normalized : normalized.toLowerCase();
+    const results: string[] = [];
+    const seen = new Set<string>([normalized]);
+
+    const consider = (candidate: string): boolean => {
+      if (seen.has(candidate)) return results.length >= limit;
+      seen.add(candidate);
+      const parts = candidate.split(' ');
+      const roots = parts.map((part) => findRoot(part));
+      if (roots.every((root) => root && !(noSuggestFlag && root.has(noSuggestFlag)))) {
+        results.push(caseType === 'mixed' ? candidate : applyCase(candidate, caseType));
+      }
+      return results.length >= limit;
+    };
+
+    // Wrong case, e.g. "paris" for "Paris"
+    if (caseType === 'lower' && consider(capitalize(source))) return results;
+
+    // Common misspellings listed in the dictionary
+    for (const [from, to] of replacements) {
+      const anchoredStart = from.startsWith('^');
+      const anchoredEnd = from.endsWith('$');
+      const pattern = from.slice(anchoredStart ? 1 : 0, anchoredEnd ? -1 : undefined);
+      if (!pattern) continue;
+      let index = source.indexOf(pattern);
+      while (index >= 0) {
+        const fits =
+          (!anchoredStart || index === 0) &&
+          (!anchoredEnd || index + pattern.length === source.length);
+        if (fits) {
+          const candidate = source.slice(0, index) + to + source.slice(index + pattern.length);
+          if (consider(candidate)) return results;
+        }
+        index = source.indexOf(pattern, index + 1);
+      }
+    }
+
+    // Swapped neighbours
+    for (let i = 0; i < source.length - 1; i++) {
+      const candidate = source.slice(0, i) + source[i + 1] + source[i] + source.slice(i + 2);
+      if (consider(candidate)) return results;
+    }
+
+    // One wrong, extra or missing character, using the TRY characters in
+    // their order of frequency
+    const chars = tryChars || 'esianrtolcdugmphbyfvkwzxjq';
+    for (const char of chars) {
+      for (let i = 0; i < source.length; i++) {
+        if (source[i] !== char) {
+          if (consider(source.slice(0, i) + char + source.slice(i + 1))) return results;
+        }
+      }
+    }
+    for (let i = 0; i < source.length; i++) {
+      if (consider(source.slice(0, i) + source.slice(i + 1))) return results;
+    }
+    for (const char of chars) {
+      for (let i = 0; i <= source.length; i++) {
+        if (consider(source.slice(0, i) + char + source.slice(i))) return results;
+      }
+    }
+
+    // Two words run together
+    for (let i = 1; i < source.length; i++) {
+      if (consider(`${source.slice(0, i)} ${source.slice(i)}`)) return results;
+    }
+
+    return results;
+  }
+
+  return { lang: dictionary.lang, check, suggest };
+}
+
+// =============================================================================
+// DICTIONARY REGISTRY
+// =============================================================================
+
+const checkers = new Map<string, SpellChecker>();
+let defaultLang: string | null = null;
+const listeners = new Set<() => void>();
+
+function notifyDictionaryChange(): void {
+  for (const listener of listeners) listener();
+}
+
+/**
+ * Register the spelling dictionary for a language. The first registered
+ * language is the default for text without a language.
+ */
+export function registerSpellingDictionary(
+  dictionary: SpellingDictionary,
+  options: { default?: boolean } = {}
+): void {
+  const lang = dictionary.lang.toLowerCase();
+  checkers.set(lang, createSpellChecker(dictionary));
+  if (options.default || defaultLang === null) defaultLang = lang;
+  notifyDictionaryChange();
+}
+
+/**
+ * Remove the spelling dictionary of a language
+ */
+export function unregisterSpellingDictionary(lang: string): void {
+  const key = lang.toLowerCase();
+  if (!checkers.delete(key)) return;
+  if (defaultLang === key) {
+    defaultLang = checkers.keys().next().value ?? null;
+  }
+  notifyDictionaryChange();
+}
+
+/**
+ * Spell checker for a language, matching "en-US" to "en" and the other way
+ * around. Without a language the default dictionary is used.
+ */
+export function getSpellChecker(lang?: string | null): SpellChecker | null {
+  if (!lang) return defaultLang ? (checkers.get(defaultLang) ?? null) : null;
+
+  const key = lang.toLowerCase();
+  const exact = checkers.get(key);
+  if (exact) return exact;
+  const primary = key.split('-')[0];
+  for (const [registered, checker] of checkers) {
+    if (registered === primary || registered.split('-')[0] === primary) return checker;
+  }
+  return null;
+}
+
+/**
+ * Call a listener whenever a dictionary is registered or removed. Returns a
+ * function that removes the listener.
+ */
+export function onSpellingDictionaryChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Link Target Checks
+ *
+ * Link targets come from the documents themselves, so they are untrusted: a
+ * `javascript:` hyperlink becomes script once the document is shown as HTML
+ * or SVG. Only web, mail and in-document links are kept.
+ */
+
+/** C0 controls and DEL, which browsers skip when reading a URL scheme */
+const CONTROL_CHARS = /[\u0000-\u001f\u007f]/g;
+const ALLOWED_SCHEMES = new Set(['http', 'https', 'mailto']);
+
+/**
+ * Clean up a link target and check it is an http, https, mailto or
+ * `#anchor` link. Returns null for anything else.
+ */
+export function sanitizeHref(href: string | null | undefined): string | null {
+  if (!href) return null;
+  const cleaned = href.replace(CONTROL_CHARS, '').trim();
+  if (cleaned.startsWith('#')) return cleaned.length > 1 ? cleaned : null;
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(cleaned);
+  return scheme && ALLOWED_SCHEMES.has(scheme[1].toLowerCase()) ? cleaned : null;
+}
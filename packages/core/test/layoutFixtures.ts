@@ -0,0 +1,43 @@
+/**
+ * Shared fixtures for layout engine tests
+ *
+ * Letter pages and paragraphs of fixed-height lines, so expected positions
+ * are plain multiples of the line height. Kept outside src so they are not
+ * part of the package.
+ */
+
+import type { ParagraphAttrs, ParagraphBlock, ParagraphMeasure } from '../src/layout-engine/types';
+
+export const LINE = 24;
+export const PAGE = { w: 816, h: 1056 };
+
+export function paragraphMeasure(lineCount: number): ParagraphMeasure {
+  const lines = Array.from({ length: lineCount }, (_, i) => ({
+    fromRun: 0,
+    fromChar: i,
+    toRun: 0,
+    toChar: i + 1,
+    width: 100,
+    ascent: 19,
+    descent: 5,
+    lineHeight: LINE,
+  }));
+  return { kind: 'paragraph', lines, totalHeight: lineCount * LINE };
+}
+
+/** A paragraph with one character per line */
+export function paragraph(
+  id: string,
+  lineCount: number,
+  pmStart = 0,
+  attrs: ParagraphAttrs = {}
+): ParagraphBlock {
+  return {
+    kind: 'paragraph',
+    id,
+    runs: [{ kind: 'text', text: 'x'.repeat(lineCount) }],
+    attrs,
+    pmStart,
+    pmEnd: pmStart + lineCount + 2,
+  };
+}
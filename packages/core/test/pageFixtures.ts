@@ -0,0 +1,69 @@
+/**
+ * Shared fixtures for page renderer tests (PDF and SVG export)
+ *
+ * Letter pages with one-inch margins, each holding a single one-line
+ * paragraph. Kept outside src so they are not part of the package.
+ */
+
+import type { ParagraphBlock, ParagraphMeasure, Page } from '../src/layout-engine/types';
+
+export const PAGE = { w: 816, h: 1056 };
+export const MARGINS = { top: 96, right: 96, bottom: 96, left: 96 };
+
+/** A paragraph laid out on one 20px line */
+export function makeParagraph(
+  id: number,
+  runs: ParagraphBlock['runs'],
+  pmStart?: number,
+  pmEnd?: number
+): { block: ParagraphBlock; measure: ParagraphMeasure } {
+  const lastRun = runs[runs.length - 1];
+  return {
+    block: {
+      kind: 'paragraph',
+      id,
+      runs,
+      ...(pmStart !== undefined ? { pmStart } : {}),
+      ...(pmEnd !== undefined ? { pmEnd } : {}),
+    },
+    measure: {
+      kind: 'paragraph',
+      lines: [
+        {
+          fromRun: 0,
+          fromChar: 0,
+          toRun: runs.length - 1,
+          toChar: lastRun.kind === 'text' ? lastRun.text.length : 0,
+          width: 200,
+          ascent: 12,
+          descent: 4,
+          lineHeight: 20,
+        },
+      ],
+      totalHeight: 20,
+    },
+  };
+}
+
+/** A page showing a `makeParagraph` paragraph at the top margin */
+export function makePage(number: number, blockId: number, pmStart?: number, pmEnd?: number): Page {
+  return {
+    number,
+    size: PAGE,
+    margins: MARGINS,
+    fragments: [
+      {
+        kind: 'paragraph',
+        blockId,
+        x: MARGINS.left,
+        y: MARGINS.top,
+        width: PAGE.w - MARGINS.left - MARGINS.right,
+        height: 20,
+        fromLine: 0,
+        toLine: 1,
+        ...(pmStart !== undefined ? { pmStart } : {}),
+        ...(pmEnd !== undefined ? { pmEnd } : {}),
+      },
+    ],
+  };
+}
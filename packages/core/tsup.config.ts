@@ -18,6 +18,7 @@ export default defineConfig([
     treeshake: true,
     minify: true,
     external: [
+      'prosemirror-collab',
       'prosemirror-commands',
       'prosemirror-dropcursor',
       'prosemirror-history',
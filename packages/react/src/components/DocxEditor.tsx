@@ -23,6 +23,7 @@ import {
 import type { CSSProperties, ReactNode } from 'react';
 import type {
   Document,
+  DocumentProtection,
   Theme,
   HeaderFooter,
   SectionProperties,
@@ -65,6 +66,8 @@ import {
 import { useHyperlinkDialog, type HyperlinkData } from './dialogs/HyperlinkDialog';
 import type { ImagePositionData } from './dialogs/ImagePositionDialog';
 import type { ImagePropertiesData } from './dialogs/ImagePropertiesDialog';
+import type { EquationData } from './dialogs/EquationDialog';
+import type { TableOfContentsSettings } from './dialogs/TableOfContentsDialog';
 import {
   InlineHeaderFooterEditor,
   type InlineHeaderFooterEditorRef,
@@ -90,6 +93,12 @@ const FootnotePropertiesDialog = lazy(() =>
 const PageSetupDialog = lazy(() =>
   import('./dialogs/PageSetupDialog').then((m) => ({ default: m.PageSetupDialog }))
 );
+const EquationDialog = lazy(() =>
+  import('./dialogs/EquationDialog').then((m) => ({ default: m.EquationDialog }))
+);
+const TableOfContentsDialog = lazy(() =>
+  import('./dialogs/TableOfContentsDialog').then((m) => ({ default: m.TableOfContentsDialog }))
+);
 import { MaterialSymbol } from './ui/Icons';
 import { Tooltip } from './ui/Tooltip';
 import {
@@ -98,13 +107,21 @@ import {
   type TextContextMenuItem,
 } from './TextContextMenu';
 import { HyperlinkPopup, type HyperlinkPopupData } from './ui/HyperlinkPopup';
+import { FormControlPicker, type FormControlPickerData } from './ui/FormControlPicker';
+import { ProofingIssuePopup, type ProofingIssuePopupData } from './ui/ProofingIssuePopup';
+import { ContextMenu } from './ContextMenu';
+import { ResponsePreview } from './ResponsePreview';
 import { Toaster, toast } from 'sonner';
 import { getBuiltinTableStyle, type TableStylePreset } from './ui/TableStyleGallery';
 import { DocumentAgent } from '@eigenpal/docx-core/agent/DocumentAgent';
 import { DefaultLoadingIndicator, DefaultPlaceholder, ParseError } from './DocxEditorHelpers';
 import { parseDocx } from '@eigenpal/docx-core/docx/parser';
+import { updateFields } from '@eigenpal/docx-core/docx/fields';
+import { replaceCustomXmlPart } from '@eigenpal/docx-core/docx/dataBinding';
 import { type DocxInput } from '@eigenpal/docx-core/utils/docxInput';
 import { onFontsLoaded, loadDocumentFonts } from '@eigenpal/docx-core/utils/fontLoader';
+import { getSectionHeaderFooters } from '@eigenpal/docx-core/layout-bridge/layoutPipeline';
+import { exportLayoutToPdf, type PdfExportOptions } from '@eigenpal/docx-core/pdf';
 import { resolveColor } from '@eigenpal/docx-core/utils/colorResolver';
 import { executeCommand } from '@eigenpal/docx-core/agent/executor';
 import { useTableSelection } from '../hooks/useTableSelection';
@@ -115,8 +132,54 @@ import { createStarterKit } from '@eigenpal/docx-core/prosemirror/extensions/Sta
 import { ExtensionManager } from '@eigenpal/docx-core/prosemirror/extensions/ExtensionManager';
 import {
   createSuggestionModePlugin,
+  replaceAsSuggestion,
   setSuggestionMode,
 } from '@eigenpal/docx-core/prosemirror/plugins/suggestionMode';
+import {
+  createDocumentProtectionPlugin,
+  isProtectionEnforced,
+  setDocumentProtection,
+} from '@eigenpal/docx-core/prosemirror/plugins/documentProtection';
+import {
+  createFormFillingPlugin,
+  formControlAt,
+  getFormControlItems,
+  getFormControlValue,
+  getFormValues,
+  isFormFillingActive,
+  setFormControlValue,
+  setFormFilling,
+  setFormValues,
+  type FormValue,
+} from '@eigenpal/docx-core/prosemirror/plugins/formFilling';
+import {
+  createCollaborationPlugins,
+  type CollaborationOptions,
+} from '@eigenpal/docx-core/prosemirror/plugins/collaboration';
+import {
+  addWordToDictionary,
+  createSpellCheckPlugin,
+  getSpellingErrorAt,
+  getSpellingSuggestions,
+  ignoreSpellingAll,
+  replaceSpellingError,
+  type SpellCheckOptions,
+  type SpellingError,
+} from '@eigenpal/docx-core/prosemirror/plugins/spellCheck';
+import {
+  applyProofingReplacement,
+  dismissProofingIssue,
+  getProofingIssueAt,
+  type ProofingIssue,
+} from '@eigenpal/docx-core/prosemirror/plugins/proofing';
+import { getAISelectionContext } from '@eigenpal/docx-core/prosemirror/plugins/selectionTracker';
+import type {
+  AIAction,
+  AIActionRequest,
+  AIRequestHandler,
+  AgentResponse,
+  SelectionContext as AISelectionContext,
+} from '@eigenpal/docx-core/types/agentApi';
 
 // Conversion (for HF inline editor save)
 import { proseDocToBlocks } from '@eigenpal/docx-core/prosemirror/conversion/fromProseDoc';
@@ -163,8 +226,15 @@ import {
   setLtr,
   // Page break command
   insertPageBreak,
-  // Table of Contents command
-  generateTOC,
+  // Table of Contents commands
+  insertTableOfContents,
+  updateTableOfContents,
+  // Equation command
+  insertEquation,
+  // Field command
+  updateAllFields,
+  // Data binding command
+  refreshBoundControls,
   // Table commands
   isInTable,
   getTableContext,
@@ -202,6 +272,15 @@ import {
   type TableContextInfo,
 } from '@eigenpal/docx-core/prosemirror';
 import { acceptChange, rejectChange } from '@eigenpal/docx-core/prosemirror/commands/comments';
+import {
+  describeFormatChangeMark,
+  describeParagraphFormatChange,
+} from '@eigenpal/docx-core/prosemirror/utils/formatChanges';
+import {
+  getTableStructuralChange,
+  isTableInsertion,
+} from '@eigenpal/docx-core/prosemirror/utils/tableChanges';
+import type { ParagraphAttrs, ParagraphFormatChange } from '@eigenpal/docx-core/prosemirror/schema';
 import { collectHeadings } from '@eigenpal/docx-core/utils/headingCollector';
 import {
   getChangedParagraphIds,
@@ -232,6 +311,11 @@ export interface DocxEditorProps {
   onSave?: (buffer: ArrayBuffer) => void;
   /** Author name used for comments and track changes */
   author?: string;
+  /**
+   * Groups the author belongs to (e.g. editors). With document protection on,
+   * regions whose w:edGrp names one of them stay editable.
+   */
+  authorGroups?: string[];
   /** Callback when document changes */
   onChange?: (document: Document) => void;
   /** Callback when selection changes */
@@ -242,6 +326,25 @@ export interface DocxEditorProps {
   onFontsLoaded?: () => void;
   /** External ProseMirror plugins (from PluginHost) */
   externalPlugins?: import('prosemirror-state').Plugin[];
+  /**
+   * Real-time collaboration. Transactions are synced through `provider` and
+   * collaborators' cursors are painted on the pages. All participants must
+   * load the same document. Read once on mount.
+   */
+  collaboration?: CollaborationOptions;
+  /**
+   * Spell checking against the dictionaries registered with
+   * `registerSpellingDictionary`. Pass options for a custom dictionary whose
+   * `onChange` persists the words users add. Read once on mount.
+   */
+  spellCheck?: boolean | SpellCheckOptions;
+  /**
+   * Model behind the AI action menu. When set, selections get an AI button
+   * whose answers are inserted as tracked changes, ready to accept or reject.
+   */
+  onAIRequest?: AIRequestHandler;
+  /** Author of the tracked changes made by AI actions (default: 'AI') */
+  aiAuthor?: string;
   /** Callback when editor view is ready (for PluginHost) */
   onEditorViewReady?: (view: import('prosemirror-view').EditorView) => void;
   /** Theme for styling */
@@ -288,7 +391,7 @@ export interface DocxEditorProps {
   onCut?: () => void;
   /** Callback when content is pasted */
   onPaste?: () => void;
-  /** Editor mode: 'editing' (direct edits), 'suggesting' (track changes), or 'viewing' (read-only). Default: 'editing' */
+  /** Editor mode: 'editing' (direct edits), 'suggesting' (track changes), 'filling' (content controls only), or 'viewing' (read-only). Default: 'editing' */
   mode?: EditorMode;
   /** Callback when the editing mode changes */
   onModeChange?: (mode: EditorMode) => void;
@@ -356,10 +459,25 @@ export interface DocxEditorRef {
   openPrintPreview: () => void;
   /** Print the document directly */
   print: () => void;
+  /** Export the laid-out pages as a PDF file (null when no layout is ready) */
+  exportPdf: (options?: Omit<PdfExportOptions, 'doc'>) => Promise<Uint8Array | null>;
   /** Load a pre-parsed document programmatically */
   loadDocument: (doc: Document) => void;
   /** Load a DOCX buffer programmatically (ArrayBuffer, Uint8Array, Blob, or File) */
   loadDocumentBuffer: (buffer: DocxInput) => Promise<void>;
+  /** Get the document's editing restriction (null when unprotected) */
+  getProtection: () => DocumentProtection | null;
+  /** Turn the editing restriction on, change or lift it; saved to settings.xml */
+  setProtection: (protection: DocumentProtection | null) => void;
+  /**
+   * Replace the data of a custom XML part and repopulate the content controls
+   * bound to it. Throws when the XML is malformed or no part matches.
+   */
+  setBoundData: (xml: string, storeItemId?: string) => void;
+  /** Values of the content controls, keyed by tag (or alias) */
+  getFormValues: () => Record<string, FormValue>;
+  /** Fill in content controls by tag (or alias); locked controls are skipped */
+  setFormValues: (values: Record<string, FormValue>) => void;
 }
 
 /**
@@ -397,7 +515,7 @@ interface EditorState {
 // EDITING MODE DROPDOWN (Google Docs-style)
 // ============================================================================
 
-export type EditorMode = 'editing' | 'suggesting' | 'viewing';
+export type EditorMode = 'editing' | 'suggesting' | 'filling' | 'viewing';
 
 const EDITING_MODES: readonly { value: EditorMode; label: string; icon: string; desc: string }[] = [
   {
@@ -412,6 +530,12 @@ const EDITING_MODES: readonly { value: EditorMode; label: string; icon: string;
     icon: 'rate_review',
     desc: 'Edits become suggestions',
   },
+  {
+    value: 'filling',
+    label: 'Filling in forms',
+    icon: 'edit_document',
+    desc: 'Only form fields can be changed',
+  },
   {
     value: 'viewing',
     label: 'Viewing',
@@ -751,6 +875,79 @@ function findSelectionYPosition(
   return null;
 }
 
+/**
+ * Picker for the dropdown or date control at the cursor in form filling mode
+ */
+function findFormPickerData(
+  state: import('prosemirror-state').EditorState,
+  scrollContainer: HTMLElement | null
+): FormControlPickerData | null {
+  if (!isFormFillingActive(state)) return null;
+  const control = formControlAt(state);
+  if (!control?.editable) return null;
+  const { sdtType } = control;
+  if (sdtType !== 'dropdown' && sdtType !== 'comboBox' && sdtType !== 'date') return null;
+
+  const pagesEl = scrollContainer?.querySelector('.paged-editor__pages');
+  if (!pagesEl) return null;
+  const pmPos = control.pos + 1;
+  for (const node of pagesEl.querySelectorAll('[data-pm-start]')) {
+    const el = node as HTMLElement;
+    if (pmPos >= Number(el.dataset.pmStart) && pmPos <= Number(el.dataset.pmEnd)) {
+      return {
+        pos: control.pos,
+        sdtType,
+        value: String(getFormControlValue(control.node)),
+        items: getFormControlItems(control.node),
+        anchorRect: el.getBoundingClientRect(),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Body selection an AI action runs on
+ */
+interface AISelectionTarget {
+  context: AISelectionContext;
+  /** Range the answer replaces */
+  range: { from: number; to: number };
+  /** Viewport position of the menu and preview */
+  position: { x: number; y: number };
+}
+
+interface AIPreviewState extends AISelectionTarget {
+  request: AIActionRequest;
+  /** Text streamed so far */
+  streamedText: string;
+  /** Final answer (null while the model is writing) */
+  response: AgentResponse | null;
+  error?: string;
+}
+
+/**
+ * Quick fixes for the proofing issue at a collapsed cursor
+ */
+function findProofingPopupData(
+  state: import('prosemirror-state').EditorState,
+  scrollContainer: HTMLElement | null
+): ProofingIssuePopupData | null {
+  if (!state.selection.empty) return null;
+  const issue = getProofingIssueAt(state);
+  if (!issue) return null;
+
+  const pagesEl = scrollContainer?.querySelector('.paged-editor__pages');
+  if (!pagesEl) return null;
+  for (const node of pagesEl.querySelectorAll('[data-pm-start]')) {
+    const el = node as HTMLElement;
+    if (issue.from >= Number(el.dataset.pmStart) && issue.from < Number(el.dataset.pmEnd)) {
+      return { issue, anchorRect: el.getBoundingClientRect() };
+    }
+  }
+  return null;
+}
+
 function createComment(text: string, authorName: string, parentId?: number): Comment {
   return {
     id: nextCommentId++,
@@ -776,6 +973,7 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     document: initialDocument,
     onSave,
     author = 'User',
+    authorGroups,
     onChange,
     onSelectionChange,
     onError,
@@ -809,6 +1007,10 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     onCommentDelete,
     onCommentReply,
     externalPlugins,
+    collaboration,
+    spellCheck,
+    onAIRequest,
+    aiAuthor = 'AI',
     onEditorViewReady,
     onRenderedDomContextReady,
     pluginOverlays,
@@ -870,8 +1072,26 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     to: number;
   } | null>(null);
   const [addCommentYPosition, setAddCommentYPosition] = useState<number | null>(null);
+  // History hook for undo/redo - start with null document
+  const history = useDocumentHistory<Document | null>(initialDocument || null, {
+    maxEntries: 100,
+    groupingInterval: 500,
+    enableKeyboardShortcuts: true,
+  });
+
   const [editingModeInternal, setEditingModeInternal] = useState<EditorMode>(modeProp ?? 'editing');
-  const editingMode = modeProp ?? editingModeInternal;
+  // Document protection: a document protected for tracked changes only takes suggestions
+  const protection = history.state?.package.settings?.protection ?? null;
+  const protectionEnforced = isProtectionEnforced(protection);
+  const requestedMode = modeProp ?? editingModeInternal;
+  const editingMode: EditorMode =
+    protectionEnforced && protection.edit === 'trackedChanges' && requestedMode === 'editing'
+      ? 'suggesting'
+      : requestedMode;
+  // Headers and footers have no editable regions (or form fields) of their own
+  const headerFooterLocked =
+    (protectionEnforced && protection.edit !== 'trackedChanges') || editingMode === 'filling';
+  const authorGroupsKey = (authorGroups ?? []).join('\n');
   const setEditingMode = (mode: EditorMode) => {
     if (!modeProp) setEditingModeInternal(mode);
     onModeChange?.(mode);
@@ -890,7 +1110,15 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     position: { x: number; y: number };
     hasSelection: boolean;
     cursorInTable: boolean;
-  }>({ isOpen: false, position: { x: 0, y: 0 }, hasSelection: false, cursorInTable: false });
+    /** Misspelled word under the cursor */
+    spellingError: SpellingError | null;
+  }>({
+    isOpen: false,
+    position: { x: 0, y: 0 },
+    hasSelection: false,
+    cursorInTable: false,
+    spellingError: null,
+  });
 
   // Debounce timers (avoid full doc walk on every keystroke)
   const extractTrackedChangesTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -909,13 +1137,57 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     const { doc, schema } = view.state;
     const insertionType = schema.marks.insertion;
     const deletionType = schema.marks.deletion;
-    if (!insertionType && !deletionType) return;
+    const formatChangeType = schema.marks.formatChange;
+    if (!insertionType && !deletionType && !formatChangeType) return;
 
     const raw: TrackedChangeEntry[] = [];
     doc.descendants((node, pos) => {
-      if (!node.isText) return;
+      if (!node.isText) {
+        const formatChange = node.attrs.formatChange as ParagraphFormatChange | null | undefined;
+        if (formatChange) {
+          raw.push({
+            type: 'format',
+            text: node.textContent,
+            author: formatChange.author || '',
+            date: formatChange.date ?? undefined,
+            from: pos,
+            to: pos + 1,
+            revisionId: formatChange.revisionId,
+            formatProperties: describeParagraphFormatChange(
+              formatChange.previous,
+              node.attrs as ParagraphAttrs
+            ),
+            isParagraphFormat: true,
+          });
+        }
+        const structuralChange = getTableStructuralChange(node);
+        if (structuralChange) {
+          raw.push({
+            type: isTableInsertion(structuralChange) ? 'insertion' : 'deletion',
+            text: node.textContent,
+            author: structuralChange.info.author || '',
+            date: structuralChange.info.date,
+            from: pos,
+            to: pos + 1,
+            revisionId: structuralChange.info.id,
+            tableChange: node.type.name === 'tableRow' ? 'row' : 'column',
+          });
+        }
+        return;
+      }
       for (const mark of node.marks) {
-        if (mark.type === insertionType || mark.type === deletionType) {
+        if (mark.type === formatChangeType) {
+          raw.push({
+            type: 'format',
+            text: node.text || '',
+            author: (mark.attrs.author as string) || '',
+            date: mark.attrs.date as string | undefined,
+            from: pos,
+            to: pos + node.nodeSize,
+            revisionId: mark.attrs.revisionId as number,
+            formatProperties: describeFormatChangeMark(mark, node),
+          });
+        } else if (mark.type === insertionType || mark.type === deletionType) {
           raw.push({
             type: mark.type === insertionType ? 'insertion' : 'deletion',
             text: node.text || '',
@@ -924,6 +1196,7 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
             from: pos,
             to: pos + node.nodeSize,
             revisionId: mark.attrs.revisionId as number,
+            ...(mark.attrs.moveName ? { moveName: mark.attrs.moveName as string } : {}),
           });
         }
       }
@@ -932,15 +1205,35 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     // Merge adjacent entries with the same revisionId and type into one
     const merged: TrackedChangeEntry[] = [];
     for (const entry of raw) {
+      // The cells of a column change are one change, anchored at the first cell
+      const column =
+        entry.tableChange === 'column' &&
+        merged.find(
+          (m) =>
+            m.tableChange === 'column' && m.revisionId === entry.revisionId && m.type === entry.type
+        );
+      if (column) {
+        column.text = [column.text, entry.text].filter(Boolean).join(' ');
+        continue;
+      }
       const last = merged[merged.length - 1];
       if (
         last &&
         last.revisionId === entry.revisionId &&
         last.type === entry.type &&
-        last.to === entry.from
+        last.to === entry.from &&
+        !last.isParagraphFormat &&
+        !entry.isParagraphFormat &&
+        !last.tableChange &&
+        !entry.tableChange
       ) {
         last.text += entry.text;
         last.to = entry.to;
+        if (entry.formatProperties) {
+          last.formatProperties = [
+            ...new Set([...(last.formatProperties ?? []), ...entry.formatProperties]),
+          ];
+        }
       } else {
         merged.push({ ...entry });
       }
@@ -954,8 +1247,12 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
       const next = merged[i + 1];
       if (
         curr.type === 'deletion' &&
+        !curr.tableChange &&
+        !curr.moveName &&
         next &&
         next.type === 'insertion' &&
+        !next.tableChange &&
+        !next.moveName &&
         curr.author === next.author &&
         curr.date === next.date &&
         curr.to === next.from
@@ -976,13 +1273,42 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
         final.push(curr);
       }
     }
-    setTrackedChanges(final);
+
+    // The halves of a move are one change, described by the text that moved
+    const moves = new Map<string, TrackedChangeEntry>();
+    const movedFrom = new Set<string>();
+    const changes: TrackedChangeEntry[] = [];
+    for (const entry of final) {
+      const name = entry.moveName;
+      if (!name) {
+        changes.push(entry);
+        continue;
+      }
+      let move = moves.get(name);
+      if (!move) {
+        move = { ...entry, type: 'move', text: '' };
+        moves.set(name, move);
+        changes.push(move);
+      }
+      if (entry.type === 'deletion') {
+        if (!movedFrom.has(name)) {
+          movedFrom.add(name);
+          move.revisionId = entry.revisionId;
+          move.text = '';
+        }
+        move.text = [move.text, entry.text].filter(Boolean).join(' ');
+      } else {
+        move.insertionRevisionId ??= entry.revisionId;
+        if (!movedFrom.has(name)) move.text = [move.text, entry.text].filter(Boolean).join(' ');
+      }
+    }
+    setTrackedChanges(changes);
 
     // Detect comments whose range overlaps with tracked changes and thread them.
     // When a comment mark covers the same text as a tracked change mark,
     // the comment is a reply to the tracked change.
     const commentType = schema.marks.comment;
-    if (commentType && final.length > 0) {
+    if (commentType && changes.length > 0) {
       // Build a map: commentId → overlapping revisionId
       const commentToRevision = new Map<number, number>();
       doc.descendants((node) => {
@@ -1075,13 +1401,6 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     }
   }, [showOutlineProp]);
 
-  // History hook for undo/redo - start with null document
-  const history = useDocumentHistory<Document | null>(initialDocument || null, {
-    maxEntries: 100,
-    groupingInterval: 500,
-    enableKeyboardShortcuts: true,
-  });
-
   // Extract comments from document model on initial load
   const commentsLoadedRef = useRef(false);
   useEffect(() => {
@@ -1124,9 +1443,44 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     () => createSuggestionModePlugin(editingMode === 'suggesting', author),
     [] // eslint-disable-line react-hooks/exhaustive-deps
   );
+  // Collaboration plugins — created once; the provider connects when the view mounts
+  const collaborationPlugins = useMemo(
+    () => (collaboration ? createCollaborationPlugins(collaboration) : []),
+    [] // eslint-disable-line react-hooks/exhaustive-deps
+  );
+  // Document protection plugin — before suggestion mode, so suggestions
+  // outside editable regions are dropped too
+  const protectionPlugin = useMemo(
+    () => createDocumentProtectionPlugin({ protection, author, groups: authorGroups }),
+    [] // eslint-disable-line react-hooks/exhaustive-deps
+  );
+  // Form filling plugin — first, so Tab reaches it before the list and table keymaps
+  const formFillingPlugin = useMemo(
+    () => createFormFillingPlugin(editingMode === 'filling'),
+    [] // eslint-disable-line react-hooks/exhaustive-deps
+  );
+  // Spell check plugin — only when enabled
+  const spellCheckPlugins = useMemo(
+    () => (spellCheck ? [createSpellCheckPlugin(spellCheck === true ? {} : spellCheck)] : []),
+    [] // eslint-disable-line react-hooks/exhaustive-deps
+  );
   const allExternalPlugins = useMemo(
-    () => [suggestionPlugin, ...(externalPlugins ?? [])],
-    [suggestionPlugin, externalPlugins]
+    () => [
+      formFillingPlugin,
+      protectionPlugin,
+      suggestionPlugin,
+      ...collaborationPlugins,
+      ...spellCheckPlugins,
+      ...(externalPlugins ?? []),
+    ],
+    [
+      formFillingPlugin,
+      protectionPlugin,
+      suggestionPlugin,
+      collaborationPlugins,
+      spellCheckPlugins,
+      externalPlugins,
+    ]
   );
 
   // Refs
@@ -1245,8 +1599,26 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
   const [showPageSetup, setShowPageSetup] = useState(false);
   const handleOpenPageSetup = useCallback(() => setShowPageSetup(true), []);
 
+  // Table of contents dialog state
+  const [showTocDialog, setShowTocDialog] = useState(false);
+
+  // Equation dialog state (editingEquation is set when editing a selected equation)
+  const [showEquationDialog, setShowEquationDialog] = useState(false);
+  const [editingEquation, setEditingEquation] = useState<{
+    ommlXml: string;
+    display: 'inline' | 'block';
+  } | null>(null);
+
   // Hyperlink popup state (Google Docs-style floating popup on link click)
   const [hyperlinkPopupData, setHyperlinkPopupData] = useState<HyperlinkPopupData | null>(null);
+  // Native picker for the dropdown or date control at the cursor (form filling mode)
+  const [formPickerData, setFormPickerData] = useState<FormControlPickerData | null>(null);
+  // Quick fixes for the proofing issue at the cursor
+  const [proofingPopupData, setProofingPopupData] = useState<ProofingIssuePopupData | null>(null);
+  // AI action menu for the selection, and the answer being previewed
+  const [aiMenu, setAIMenu] = useState<AISelectionTarget | null>(null);
+  const [aiPreview, setAIPreview] = useState<AIPreviewState | null>(null);
+  const aiAbortRef = useRef<AbortController | null>(null);
 
   // Monotonically increasing generation counter to discard stale async loads
   const loadGenerationRef = useRef(0);
@@ -1263,6 +1635,9 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     setCommentSelectionRange(null);
     setAddCommentYPosition(null);
     setFloatingCommentBtn(null);
+    aiAbortRef.current?.abort();
+    setAIMenu(null);
+    setAIPreview(null);
     setHfEditPosition(null);
     setAnchorPositions(EMPTY_ANCHOR_POSITIONS);
     findReplace.setMatches([], 0);
@@ -1371,6 +1746,24 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     }
   }, [editingMode, author]);
 
+  // Sync editing mode to the form filling plugin
+  useEffect(() => {
+    const view = pagedEditorRef.current?.getView();
+    if (view) {
+      setFormFilling(editingMode === 'filling', view.state, view.dispatch);
+    }
+    if (editingMode !== 'filling') setFormPickerData(null);
+  }, [editingMode]);
+
+  // Sync document protection and the author's groups to the protection plugin
+  useEffect(() => {
+    const view = pagedEditorRef.current?.getView();
+    if (view) {
+      const groups = authorGroupsKey ? authorGroupsKey.split('\n') : [];
+      setDocumentProtection({ protection, author, groups }, view.state, view.dispatch);
+    }
+  }, [protection, author, authorGroupsKey]);
+
   const pushDocument = useCallback(
     (document: Document) => {
       history.push(document);
@@ -1560,6 +1953,14 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
         setFloatingCommentBtn(null);
       }
 
+      // Offer a native picker for dropdown and date controls
+      setFormPickerData(view ? findFormPickerData(view.state, scrollContainerRef.current) : null);
+
+      // Offer quick fixes for grammar and style issues
+      setProofingPopupData(
+        view && !readOnly ? findProofingPopupData(view.state, scrollContainerRef.current) : null
+      );
+
       // Notify parent
       onSelectionChange?.(selectionState);
     },
@@ -1679,13 +2080,101 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     focusActiveEditor();
   }, [getActiveEditorView, focusActiveEditor]);
 
+  // Page number of a body position in the latest layout pass
+  const getPageAt = useCallback((pos: number) => {
+    const layout = pagedEditorRef.current?.getLayoutResult()?.layout;
+    return layout?.pages.find((page) =>
+      page.fragments.some(
+        (f) => f.pmStart !== undefined && f.pmEnd !== undefined && pos >= f.pmStart && pos < f.pmEnd
+      )
+    )?.number;
+  }, []);
+
+  // Open the table of contents dialog
+  const handleInsertTOC = useCallback(() => setShowTocDialog(true), []);
+
   // Insert a table of contents at cursor
-  const handleInsertTOC = useCallback(() => {
-    const view = getActiveEditorView();
+  const handleApplyTOC = useCallback(
+    (settings: TableOfContentsSettings) => {
+      const view = pagedEditorRef.current?.getView();
+      if (!view) return;
+
+      // Page numbers sit at the right margin
+      const sectPr = historyStateRef.current?.package.document.finalSectionProperties;
+      const rightTabPosition = sectPr?.pageWidth
+        ? sectPr.pageWidth - (sectPr.marginLeft ?? 0) - (sectPr.marginRight ?? 0)
+        : undefined;
+      insertTableOfContents({ ...settings, rightTabPosition, getPageAt })(
+        view.state,
+        view.dispatch
+      );
+
+      // The entries push the headings down; number them from a fresh layout
+      pagedEditorRef.current?.relayout();
+      updateTableOfContents({ getPageAt })(view.state, view.dispatch);
+      focusActiveEditor();
+    },
+    [getPageAt, focusActiveEditor]
+  );
+
+  // Update all fields: the body through its editor, then headers and footers
+  const handleUpdateFields = useCallback(() => {
+    const view = pagedEditorRef.current?.getView();
     if (!view) return;
-    generateTOC(view.state, view.dispatch);
+
+    // Rebuilt entries can move headings to other pages, so lay out again first
+    if (updateTableOfContents({ getPageAt })(view.state, view.dispatch)) {
+      pagedEditorRef.current?.relayout();
+    }
+    updateAllFields({ document: historyStateRef.current, getPageAt })(view.state, view.dispatch);
+
+    const current = pagedEditorRef.current?.getDocument();
+    if (current?.package.headers || current?.package.footers) {
+      const cloneParts = (map?: Map<string, HeaderFooter>) =>
+        map && new Map([...map].map(([rId, part]) => [rId, structuredClone(part)]));
+      const updatedDoc: Document = {
+        ...current,
+        package: {
+          ...current.package,
+          headers: cloneParts(current.package.headers),
+          footers: cloneParts(current.package.footers),
+        },
+      };
+      const updates = updateFields(updatedDoc, { parts: ['header', 'footer'] });
+      if (updates.some((update) => update.result !== undefined)) pushDocument(updatedDoc);
+    }
     focusActiveEditor();
-  }, [getActiveEditorView, focusActiveEditor]);
+  }, [getPageAt, pushDocument, focusActiveEditor]);
+
+  // Open the equation dialog — edits the equation when one is selected
+  const handleOpenEquation = useCallback(() => {
+    const view = getActiveEditorView();
+    const selectedNode = (
+      view?.state.selection as
+        | { node?: { type: { name: string }; attrs: Record<string, unknown> } }
+        | undefined
+    )?.node;
+    setEditingEquation(
+      selectedNode?.type.name === 'math'
+        ? {
+            ommlXml: (selectedNode.attrs.ommlXml as string) ?? '',
+            display: selectedNode.attrs.display === 'block' ? 'block' : 'inline',
+          }
+        : null
+    );
+    setShowEquationDialog(true);
+  }, [getActiveEditorView]);
+
+  // Insert the equation at cursor (or replace the selected one)
+  const handleInsertEquation = useCallback(
+    (data: EquationData) => {
+      const view = getActiveEditorView();
+      if (!view) return;
+      insertEquation({ latex: data.latex, display: data.display })(view.state, view.dispatch);
+      focusActiveEditor();
+    },
+    [getActiveEditorView, focusActiveEditor]
+  );
 
   // Toggle document outline sidebar
   const handleToggleOutline = useCallback(() => {
@@ -2156,6 +2645,7 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
       position: { x: e.clientX, y: e.clientY },
       hasSelection: hasSel,
       cursorInTable: inTable,
+      spellingError: view && !hasSel ? getSpellingErrorAt(view.state) : null,
     });
   }, []);
 
@@ -2377,6 +2867,141 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     hyperlinkDialog.close();
   }, [hyperlinkDialog, doRemoveHyperlink]);
 
+  // Write a value picked in the form control picker
+  const handleFormPickerChange = useCallback(
+    (pos: number, value: string) => {
+      const view = getActiveEditorView();
+      if (!view) return;
+      setFormControlValue(pos, value)(view.state, view.dispatch);
+      focusActiveEditor();
+    },
+    [getActiveEditorView, focusActiveEditor]
+  );
+
+  const handleFormPickerClose = useCallback(() => setFormPickerData(null), []);
+
+  // Proofing issues are only tracked in the body
+  const handleProofingReplace = useCallback(
+    (issue: ProofingIssue, replacement: string) => {
+      const bodyView = pagedEditorRef.current?.getView();
+      if (bodyView) applyProofingReplacement(issue, replacement)(bodyView.state, bodyView.dispatch);
+      setProofingPopupData(null);
+      focusActiveEditor();
+    },
+    [focusActiveEditor]
+  );
+
+  const handleProofingDismiss = useCallback(
+    (issue: ProofingIssue) => {
+      const bodyView = pagedEditorRef.current?.getView();
+      if (bodyView) dismissProofingIssue(issue)(bodyView.state, bodyView.dispatch);
+      setProofingPopupData(null);
+      focusActiveEditor();
+    },
+    [focusActiveEditor]
+  );
+
+  const handleProofingPopupClose = useCallback(() => setProofingPopupData(null), []);
+
+  // AI actions run on the body selection
+  const handleAIButtonMouseDown = useCallback((e: React.MouseEvent<HTMLButtonElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const view = pagedEditorRef.current?.getView();
+    const context = view ? getAISelectionContext(view.state) : null;
+    if (!view || !context) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const { from, to } = view.state.selection;
+    setAIMenu({ context, range: { from, to }, position: { x: rect.right + 8, y: rect.top } });
+  }, []);
+
+  const handleAIMenuClose = useCallback(() => setAIMenu(null), []);
+
+  // Stream the answer into the preview; answers to superseded requests are dropped
+  const runAIRequest = useCallback(
+    (target: AISelectionTarget, request: AIActionRequest) => {
+      if (!onAIRequest) return;
+      aiAbortRef.current?.abort();
+      const controller = new AbortController();
+      aiAbortRef.current = controller;
+      const isCurrent = () => aiAbortRef.current === controller;
+
+      setAIPreview({ ...target, request, streamedText: '', response: null });
+      const onChunk = (chunk: string) => {
+        if (!isCurrent()) return;
+        setAIPreview((prev) => prev && { ...prev, streamedText: prev.streamedText + chunk });
+      };
+
+      onAIRequest(request, { onChunk, signal: controller.signal })
+        .then((response) => {
+          if (!isCurrent()) return;
+          setAIPreview(
+            (prev) =>
+              prev &&
+              (response.success
+                ? {
+                    ...prev,
+                    response: { ...response, newText: response.newText ?? prev.streamedText },
+                  }
+                : { ...prev, error: response.error ?? 'The AI request failed' })
+          );
+        })
+        .catch((err) => {
+          if (!isCurrent() || controller.signal.aborted) return;
+          setAIPreview(
+            (prev) => prev && { ...prev, error: err instanceof Error ? err.message : String(err) }
+          );
+        });
+    },
+    [onAIRequest]
+  );
+
+  const handleAIAction = useCallback(
+    (action: AIAction, customPrompt?: string) => {
+      if (!aiMenu) return;
+      setAIMenu(null);
+      runAIRequest(aiMenu, { action, context: aiMenu.context, customPrompt });
+    },
+    [aiMenu, runAIRequest]
+  );
+
+  // Accepted answers become tracked changes, reviewed like any other suggestion
+  const handleAIAccept = useCallback(
+    (newText: string) => {
+      const preview = aiPreview;
+      setAIPreview(null);
+      const view = pagedEditorRef.current?.getView();
+      if (!preview || !view) return;
+      const { from, to } = preview.range;
+      const { doc } = view.state;
+      if (
+        to > doc.content.size ||
+        doc.textBetween(from, to, '\n') !== preview.context.selectedText
+      ) {
+        toast('The selection changed, so the AI answer was not applied');
+        return;
+      }
+      if (newText === preview.context.selectedText) return;
+      replaceAsSuggestion(from, to, newText, aiAuthor)(view.state, view.dispatch);
+      setShowCommentsSidebar(true);
+      focusActiveEditor();
+    },
+    [aiPreview, aiAuthor, focusActiveEditor]
+  );
+
+  const handleAIReject = useCallback(() => {
+    aiAbortRef.current?.abort();
+    aiAbortRef.current = null;
+    setAIPreview(null);
+  }, []);
+
+  const handleAIRetry = useCallback(() => {
+    if (aiPreview) runAIRequest(aiPreview, aiPreview.request);
+  }, [aiPreview, runAIRequest]);
+
+  // Stop a running request when the editor goes away
+  useEffect(() => () => aiAbortRef.current?.abort(), []);
+
   // Handle hyperlink popup (Google Docs-style)
   const handleHyperlinkClick = useCallback(
     (data: HyperlinkPopupData) => setHyperlinkPopupData(data),
@@ -2556,6 +3181,7 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
       position: data,
       hasSelection: data.hasSelection,
       cursorInTable: inTable,
+      spellingError: view && !data.hasSelection ? getSpellingErrorAt(view.state) : null,
     });
   }, []);
 
@@ -2565,13 +3191,30 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
       position: { x: 0, y: 0 },
       hasSelection: false,
       cursorInTable: false,
+      spellingError: null,
     });
   }, []);
 
   const contextMenuItems = useMemo((): TextContextMenuItem[] => {
     const isMac = typeof navigator !== 'undefined' && /Mac/.test(navigator.platform);
     const mod = isMac ? '⌘' : 'Ctrl';
-    const items: TextContextMenuItem[] = [
+    const items: TextContextMenuItem[] = [];
+    // Corrections for the misspelled word under the cursor come first
+    const spellingError = contextMenu.spellingError;
+    if (spellingError) {
+      const suggestions = getSpellingSuggestions(spellingError, 5);
+      for (const suggestion of suggestions) {
+        items.push({ action: 'replaceSpelling', label: suggestion, value: suggestion });
+      }
+      if (suggestions.length === 0) {
+        items.push({ action: 'replaceSpelling', label: 'No spelling suggestions', disabled: true });
+      }
+      items.push(
+        { action: 'ignoreSpelling', label: 'Ignore All' },
+        { action: 'addToDictionary', label: 'Add to Dictionary', dividerAfter: true }
+      );
+    }
+    items.push(
       { action: 'cut', label: 'Cut', shortcut: `${mod}+X` },
       { action: 'copy', label: 'Copy', shortcut: `${mod}+C` },
       { action: 'paste', label: 'Paste', shortcut: `${mod}+V` },
@@ -2586,8 +3229,8 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
         label: 'Delete',
         shortcut: 'Del',
         dividerAfter: !contextMenu.hasSelection && !contextMenu.cursorInTable,
-      },
-    ];
+      }
+    );
     if (contextMenu.hasSelection) {
       items.push({
         action: 'addComment',
@@ -2607,10 +3250,10 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
     }
     items.push({ action: 'selectAll', label: 'Select All', shortcut: `${mod}+A` });
     return items;
-  }, [contextMenu.hasSelection, contextMenu.cursorInTable]);
+  }, [contextMenu.hasSelection, contextMenu.cursorInTable, contextMenu.spellingError]);
 
   const handleContextMenuAction = useCallback(
-    async (action: TextContextAction) => {
+    async (action: TextContextAction, item?: TextContextMenuItem) => {
       const view = getActiveEditorView();
       if (!view) return;
 
@@ -2722,10 +3365,35 @@ export const DocxEditor = forwardRef<DocxEditorRef, DocxEditorProps>(function Do
           setFloatingCommentBtn(null);
           break;
         }
+        // Spelling — errors are only tracked in the body
+        case 'replaceSpelling': {
+          const bodyView = pagedEditorRef.current?.getView();
+          if (bodyView && contextMenu.spellingError && item?.value) {
+            replaceSpellingError(contextMenu.spellingError, item.value)(
+              bodyView.state,
+              bodyView.dispatch
+            );
+          }
+          break;
+        }
+        case 'ignoreSpelling': {
+          const bodyView = pagedEditorRef.current?.getView();
+          if (bodyView && contextMenu.spellingError) {
+            ignoreSpellingAll(contextMenu.spellingError.word)(bodyView.state, bodyView.dispatch);
+          }
+          break;
+        }
+        case 'addToDictionary': {
+          const bodyView = pagedEditorRef.current?.getView();
+          if (bodyView && contextMenu.spellingError) {
+            addWordToDictionary(contextMenu.spellingError.word)(bodyView.state, bodyView.dispatch);
+          }
+          break;
+        }
       }
       // TextContextMenu calls onClose after onAction, so no need to close here
     },
-    [getActiveEditorView, focusActiveEditor]
+    [getActiveEditorView, focusActiveEditor, contextMenu.spellingError]
   );
 
   // Handle margin changes from rulers
@@ -3027,6 +3695,24 @@ body { background: white; }
     onPrint?.();
   }, [onPrint]);
 
+  const handleExportPdf = useCallback(
+    async (options?: Omit<PdfExportOptions, 'doc'>): Promise<Uint8Array | null> => {
+      const layoutResult = pagedEditorRef.current?.getLayoutResult();
+      if (!layoutResult) return null;
+      try {
+        return await exportLayoutToPdf(layoutResult, {
+          theme: history.state?.package.theme || theme,
+          ...options,
+          doc: pagedEditorRef.current?.getView()?.state.doc ?? null,
+        });
+      } catch (error) {
+        onError?.(error instanceof Error ? error : new Error('Failed to export PDF'));
+        return null;
+      }
+    },
+    [history.state, theme, onError]
+  );
+
   // ============================================================================
   // FIND/REPLACE HANDLERS
   // ============================================================================
@@ -3183,6 +3869,45 @@ body { background: white; }
     [history.state, handleDocumentChange, findReplace]
   );
 
+  // Turn document protection on/off; the plugin picks it up from the document
+  const handleSetProtection = useCallback(
+    (next: DocumentProtection | null) => {
+      const doc = history.state;
+      if (!doc) return;
+      const settings = { ...doc.package.settings };
+      if (next) settings.protection = next;
+      else delete settings.protection;
+      pushDocument({ ...doc, package: { ...doc.package, settings } });
+    },
+    [history.state, pushDocument]
+  );
+
+  // Replace bound data: the custom XML part first, then the controls showing it
+  const handleSetBoundData = useCallback(
+    (xml: string, storeItemId?: string) => {
+      const doc = history.state;
+      if (!doc) return;
+      const updated: Document = {
+        ...doc,
+        package: {
+          ...doc.package,
+          customXmlParts: doc.package.customXmlParts?.map((part) => ({ ...part })),
+        },
+      };
+      replaceCustomXmlPart(updated, xml, storeItemId);
+
+      const view = pagedEditorRef.current?.getView();
+      if (view) refreshBoundControls({ document: updated })(view.state, view.dispatch);
+      // The editor's change is based on the previous parts
+      const current = pagedEditorRef.current?.getDocument() ?? doc;
+      pushDocument({
+        ...current,
+        package: { ...current.package, customXmlParts: updated.package.customXmlParts },
+      });
+    },
+    [history.state, pushDocument]
+  );
+
   // Expose ref methods
   useImperativeHandle(
     ref,
@@ -3203,86 +3928,46 @@ body { background: white; }
       },
       openPrintPreview: handleDirectPrint,
       print: handleDirectPrint,
+      exportPdf: handleExportPdf,
       loadDocument: loadParsedDocument,
       loadDocumentBuffer: loadBuffer,
+      getProtection: () => history.state?.package.settings?.protection ?? null,
+      setProtection: handleSetProtection,
+      setBoundData: handleSetBoundData,
+      getFormValues: () => {
+        const view = pagedEditorRef.current?.getView();
+        return view ? getFormValues(view.state.doc) : {};
+      },
+      setFormValues: (values: Record<string, FormValue>) => {
+        const view = pagedEditorRef.current?.getView();
+        if (view) setFormValues(values)(view.state, view.dispatch);
+      },
     }),
     [
+      handleSetProtection,
+      handleSetBoundData,
       history.state,
       state.zoom,
       scrollPageInfo,
       handleSave,
       handleDirectPrint,
+      handleExportPdf,
       loadParsedDocument,
       loadBuffer,
     ]
   );
 
   // Get header and footer content from document
-  const { headerContent, footerContent, firstPageHeaderContent, firstPageFooterContent } = useMemo<{
-    headerContent: HeaderFooter | null;
-    footerContent: HeaderFooter | null;
-    firstPageHeaderContent: HeaderFooter | null;
-    firstPageFooterContent: HeaderFooter | null;
-  }>(() => {
-    if (!history.state?.package) {
-      return {
-        headerContent: null,
-        footerContent: null,
-        firstPageHeaderContent: null,
-        firstPageFooterContent: null,
-      };
-    }
-
-    const pkg = history.state.package;
-    const sectionProps = pkg.document?.finalSectionProperties;
-    const headers = pkg.headers;
-    const footers = pkg.footers;
-
-    let header: HeaderFooter | null = null;
-    let footer: HeaderFooter | null = null;
-    let firstHeader: HeaderFooter | null = null;
-    let firstFooter: HeaderFooter | null = null;
-
-    if (headers && sectionProps?.headerReferences) {
-      const defaultRef = sectionProps.headerReferences.find((r) => r.type === 'default');
-      if (defaultRef?.rId) {
-        header = headers.get(defaultRef.rId) ?? null;
-      }
-      const firstRef = sectionProps.headerReferences.find((r) => r.type === 'first');
-      if (firstRef?.rId) {
-        firstHeader = headers.get(firstRef.rId) ?? null;
-      }
-    }
-
-    if (footers && sectionProps?.footerReferences) {
-      const defaultRef = sectionProps.footerReferences.find((r) => r.type === 'default');
-      if (defaultRef?.rId) {
-        footer = footers.get(defaultRef.rId) ?? null;
-      }
-      const firstRef = sectionProps.footerReferences.find((r) => r.type === 'first');
-      if (firstRef?.rId) {
-        firstFooter = footers.get(firstRef.rId) ?? null;
-      }
-    }
-
-    // When titlePg is not set but only 'first' headers exist, use them as default
-    if (!sectionProps?.titlePg) {
-      if (!header && firstHeader) header = firstHeader;
-      if (!footer && firstFooter) footer = firstFooter;
-    }
-
-    return {
-      headerContent: header,
-      footerContent: footer,
-      firstPageHeaderContent: firstHeader,
-      firstPageFooterContent: firstFooter,
-    };
-  }, [history.state]);
+  const { headerContent, footerContent, firstPageHeaderContent, firstPageFooterContent } = useMemo(
+    () => getSectionHeaderFooters(history.state),
+    [history.state]
+  );
 
   // Handle header/footer double-click — open editing overlay
   // If no header/footer exists, create an empty one so the user can add content
   const handleHeaderFooterDoubleClick = useCallback(
     (position: 'header' | 'footer', pageNumber?: number) => {
+      if (headerFooterLocked) return;
       const sectProps = history.state?.package?.document?.finalSectionProperties;
       const isFirstPage = sectProps?.titlePg === true && (pageNumber ?? 1) === 1;
       const hf = isFirstPage
@@ -3340,6 +4025,7 @@ body { background: white; }
       setHfEditPosition(position);
     },
     [
+      headerFooterLocked,
       headerContent,
       footerContent,
       firstPageHeaderContent,
@@ -3605,12 +4291,15 @@ body { background: white; }
     return items;
   }, [showCommentsSidebar, commentSidebarItems, pluginSidebarItems]);
 
-  // Build a map from insertion revisionIds to sidebar item IDs for replacement tracked changes.
-  // This allows clicking the insertion part of a replacement to activate the same sidebar card.
+  // Build a map from insertion revisionIds to sidebar item IDs for replacements and moves.
+  // This allows clicking the insertion part of a replacement or move to activate the same sidebar card.
   const revisionIdAliases = useMemo(() => {
     const map = new Map<string, string>();
     trackedChanges.forEach((change, idx) => {
-      if (change.type === 'replacement' && change.insertionRevisionId != null) {
+      if (
+        (change.type === 'replacement' || change.type === 'move') &&
+        change.insertionRevisionId != null
+      ) {
         map.set(String(change.insertionRevisionId), `tc-${change.revisionId}-${idx}`);
       }
     });
@@ -3759,6 +4448,8 @@ body { background: white; }
                       onInsertImage={handleInsertImageClick}
                       onInsertPageBreak={handleInsertPageBreak}
                       onInsertTOC={handleInsertTOC}
+                      onUpdateFields={handleUpdateFields}
+                      onInsertEquation={handleOpenEquation}
                       imageContext={state.pmImageContext}
                       onImageWrapType={handleImageWrapType}
                       onImageTransform={handleImageTransform}
@@ -3872,6 +4563,7 @@ body { background: white; }
                             <style>{`
                             .paged-editor__pages .docx-insertion[data-revision-id="${insRevId ?? revId}"] { background-color: rgba(52, 168, 83, 0.2) !important; border-bottom: 2px solid #2e7d32 !important; }
                             .paged-editor__pages .docx-deletion[data-revision-id="${revId}"] { background-color: rgba(211, 47, 47, 0.2) !important; text-decoration-thickness: 2px !important; }
+                            .paged-editor__pages .docx-format-change[data-format-revision-id="${revId}"] { background-color: rgba(123, 31, 162, 0.12) !important; border-bottom: 1px solid #7b1fa2 !important; }
                           `}</style>
                           );
                         })()}
@@ -3886,6 +4578,7 @@ body { background: white; }
                         firstPageHeaderContent={firstPageHeaderContent}
                         firstPageFooterContent={firstPageFooterContent}
                         onHeaderFooterDoubleClick={handleHeaderFooterDoubleClick}
+                        onEquationDoubleClick={readOnly ? undefined : handleOpenEquation}
                         hfEditMode={hfEditPosition}
                         onBodyClick={handleBodyClick}
                         zoom={state.zoom}
@@ -4057,6 +4750,40 @@ body { background: white; }
                         </Tooltip>
                       )}
 
+                      {/* Floating AI button — below the comment button, opens the AI action menu */}
+                      {floatingCommentBtn != null &&
+                        !isAddingComment &&
+                        !readOnly &&
+                        onAIRequest != null && (
+                          <Tooltip content="AI actions" side="bottom" delayMs={300}>
+                            <button
+                              type="button"
+                              className="docx-ai-action-button"
+                              onMouseDown={handleAIButtonMouseDown}
+                              style={{
+                                position: 'absolute',
+                                top: floatingCommentBtn.top + 34,
+                                left: floatingCommentBtn.left,
+                                transform: 'translate(-50%, -50%)',
+                                zIndex: 50,
+                                width: 28,
+                                height: 28,
+                                borderRadius: 6,
+                                border: '1px solid rgba(26, 115, 232, 0.3)',
+                                backgroundColor: '#fff',
+                                color: '#1a73e8',
+                                cursor: 'pointer',
+                                display: 'flex',
+                                alignItems: 'center',
+                                justifyContent: 'center',
+                                boxShadow: '0 1px 3px rgba(60,64,67,0.2)',
+                              }}
+                            >
+                              <MaterialSymbol name="auto_awesome" size={16} />
+                            </button>
+                          </Tooltip>
+                        )}
+
                       {/* Right-click context menu */}
                       <TextContextMenu
                         isOpen={contextMenu.isOpen}
@@ -4188,6 +4915,55 @@ body { background: white; }
               readOnly={readOnly}
             />
 
+            {/* Native picker for form fields (form filling mode) */}
+            <FormControlPicker
+              data={formPickerData}
+              onChange={handleFormPickerChange}
+              onClose={handleFormPickerClose}
+            />
+
+            {/* Quick fixes for grammar and style issues */}
+            <ProofingIssuePopup
+              data={proofingPopupData}
+              onReplace={handleProofingReplace}
+              onDismiss={handleProofingDismiss}
+              onClose={handleProofingPopupClose}
+            />
+
+            {/* AI actions on the selection, with the streamed answer */}
+            {onAIRequest && (
+              <ContextMenu
+                isOpen={aiMenu != null}
+                position={aiMenu?.position ?? { x: 0, y: 0 }}
+                selectedText={aiMenu?.context.selectedText ?? ''}
+                selectionContext={aiMenu?.context}
+                onAction={handleAIAction}
+                onClose={handleAIMenuClose}
+              />
+            )}
+            {aiPreview && (
+              <ResponsePreview
+                originalText={aiPreview.context.selectedText}
+                response={
+                  aiPreview.response ??
+                  (aiPreview.streamedText
+                    ? { success: true, newText: aiPreview.streamedText }
+                    : null)
+                }
+                action={aiPreview.request.action}
+                isLoading={!aiPreview.response && !aiPreview.error && !aiPreview.streamedText}
+                isStreaming={!aiPreview.response && !!aiPreview.streamedText}
+                error={aiPreview.error}
+                onAccept={handleAIAccept}
+                onReject={handleAIReject}
+                onRetry={handleAIRetry}
+                position={{
+                  x: Math.max(10, Math.min(aiPreview.position.x, window.innerWidth - 410)),
+                  y: aiPreview.position.y,
+                }}
+              />
+            )}
+
             {/* Right-click context menu */}
             <TextContextMenu
               isOpen={contextMenu.isOpen}
@@ -4276,6 +5052,21 @@ body { background: white; }
                   currentProps={history.state?.package.document?.finalSectionProperties}
                 />
               )}
+              {showEquationDialog && (
+                <EquationDialog
+                  isOpen={showEquationDialog}
+                  onClose={() => setShowEquationDialog(false)}
+                  onInsert={handleInsertEquation}
+                  currentEquation={editingEquation}
+                />
+              )}
+              {showTocDialog && (
+                <TableOfContentsDialog
+                  isOpen={showTocDialog}
+                  onClose={() => setShowTocDialog(false)}
+                  onApply={handleApplyTOC}
+                />
+              )}
               {footnotePropsOpen && (
                 <FootnotePropertiesDialog
                   isOpen={footnotePropsOpen}
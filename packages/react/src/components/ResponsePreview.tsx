@@ -26,6 +26,8 @@ export interface ResponsePreviewProps {
   action: AIAction;
   /** Whether the response is loading */
   isLoading: boolean;
+  /** Whether the response is still streaming in (accepting is disabled) */
+  isStreaming?: boolean;
   /** Error message if request failed */
   error?: string;
   /** Callback when user accepts the change */
@@ -258,6 +260,7 @@ export const ResponsePreview: React.FC<ResponsePreviewProps> = ({
   response,
   action,
   isLoading,
+  isStreaming = false,
   error,
   onAccept,
   onReject,
@@ -303,13 +306,13 @@ export const ResponsePreview: React.FC<ResponsePreviewProps> = ({
         }
       } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
         e.preventDefault();
-        handleAccept();
+        if (!isStreaming) handleAccept();
       }
     };
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [isEditing, newText, onReject]);
+  }, [isEditing, isStreaming, newText, onReject]);
 
   const handleAccept = useCallback(() => {
     const textToAccept = isEditing ? editedText : newText;
@@ -572,7 +575,12 @@ export const ResponsePreview: React.FC<ResponsePreviewProps> = ({
         }}
       >
         <div>
-          {allowEdit && !isEditing && (
+          {isStreaming && (
+            <span style={{ fontSize: '12px', color: 'var(--doc-text-muted)' }}>
+              {t('responsePreview.streaming')}
+            </span>
+          )}
+          {allowEdit && !isEditing && !isStreaming && (
             <button
               type="button"
               onClick={handleStartEdit}
@@ -634,6 +642,7 @@ export const ResponsePreview: React.FC<ResponsePreviewProps> = ({
           <button
             type="button"
             onClick={handleAccept}
+            disabled={isStreaming}
             style={{
               display: 'flex',
               alignItems: 'center',
@@ -642,7 +651,8 @@ export const ResponsePreview: React.FC<ResponsePreviewProps> = ({
               border: 'none',
               borderRadius: '4px',
               background: 'var(--doc-primary)',
-              cursor: 'pointer',
+              opacity: isStreaming ? 0.5 : 1,
+              cursor: isStreaming ? 'default' : 'pointer',
               fontSize: '13px',
               color: 'white',
             }}
@@ -30,7 +30,10 @@ export type TextContextAction =
   | 'addColumnLeft'
   | 'addColumnRight'
   | 'deleteColumn'
-  | 'addComment';
+  | 'addComment'
+  | 'replaceSpelling'
+  | 'ignoreSpelling'
+  | 'addToDictionary';
 
 /**
  * Menu item configuration
@@ -46,6 +49,8 @@ export interface TextContextMenuItem {
   disabled?: boolean;
   /** Whether to show divider after this item */
   dividerAfter?: boolean;
+  /** Value passed back with the action, e.g. a spelling suggestion */
+  value?: string;
 }
 
 /**
@@ -62,8 +67,8 @@ export interface TextContextMenuProps {
   isEditable: boolean;
   /** Whether clipboard has content (enables paste) */
   hasClipboardContent?: boolean;
-  /** Callback when an action is selected */
-  onAction: (action: TextContextAction) => void;
+  /** Callback when an action is selected, with the item it came from */
+  onAction: (action: TextContextAction, item?: TextContextMenuItem) => void;
   /** Callback when menu is closed */
   onClose: () => void;
   /** Custom menu items (overrides default) */
@@ -516,7 +521,7 @@ export const TextContextMenu: React.FC<TextContextMenuProps> = ({
           e.preventDefault();
           const item = navigableItems[highlightedIndex];
           if (item && !item.disabled) {
-            onAction(item.action);
+            onAction(item.action, item);
             onClose();
           }
           break;
@@ -570,7 +575,7 @@ export const TextContextMenu: React.FC<TextContextMenuProps> = ({
 
   const handleItemClick = (item: TextContextMenuItem) => {
     if (item.disabled) return;
-    onAction(item.action);
+    onAction(item.action, item);
     onClose();
   };
 
@@ -765,6 +770,9 @@ export function getTextActionLabel(action: TextContextAction): string {
     addColumnRight: 'Insert column right',
     deleteColumn: 'Delete column',
     addComment: 'Comment',
+    replaceSpelling: 'Replace',
+    ignoreSpelling: 'Ignore All',
+    addToDictionary: 'Add to Dictionary',
   };
   return labels[action];
 }
@@ -788,6 +796,9 @@ export function getTextActionShortcut(action: TextContextAction): string {
     addColumnRight: '',
     deleteColumn: '',
     addComment: '',
+    replaceSpelling: '',
+    ignoreSpelling: '',
+    addToDictionary: '',
   };
   return shortcuts[action];
 }
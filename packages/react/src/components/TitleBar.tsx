@@ -120,6 +120,8 @@ export function MenuBar() {
     showTableInsert = true,
     onInsertPageBreak,
     onInsertTOC,
+    onInsertEquation,
+    onUpdateFields,
     onRefocusEditor,
   } = ctx;
 
@@ -232,6 +234,22 @@ export function MenuBar() {
             onClick: onInsertTOC,
             disabled: !onInsertTOC,
           },
+          {
+            icon: 'functions',
+            label: t('toolbar.equation'),
+            onClick: onInsertEquation,
+            disabled: !onInsertEquation,
+          },
+          ...(onUpdateFields
+            ? [
+                { type: 'separator' as const } as MenuEntry,
+                {
+                  icon: 'sync',
+                  label: t('toolbar.updateFields'),
+                  onClick: onUpdateFields,
+                } as MenuEntry,
+              ]
+            : []),
         ]}
       />
     </div>
@@ -169,6 +169,10 @@ export interface ToolbarProps {
   onInsertPageBreak?: () => void;
   /** Callback when user wants to insert a table of contents */
   onInsertTOC?: () => void;
+  /** Callback when user wants to insert (or edit the selected) equation */
+  onInsertEquation?: () => void;
+  /** Callback when user wants to recompute every field (cross-references, SEQ, dates, ...) */
+  onUpdateFields?: () => void;
   /** Callback when user wants to insert a shape */
   onInsertShape?: (data: {
     shapeType: string;
@@ -342,6 +346,8 @@ export function Toolbar({
   showTableInsert = true,
   onInsertPageBreak,
   onInsertTOC,
+  onInsertEquation,
+  onUpdateFields,
   onRefocusEditor,
   ...restProps
 }: ToolbarProps) {
@@ -498,6 +504,22 @@ export function Toolbar({
             onClick: onInsertTOC,
             disabled: !onInsertTOC,
           },
+          {
+            icon: 'functions',
+            label: t('toolbar.equation'),
+            onClick: onInsertEquation,
+            disabled: !onInsertEquation,
+          },
+          ...(onUpdateFields
+            ? [
+                { type: 'separator' as const } as MenuEntry,
+                {
+                  icon: 'sync',
+                  label: t('toolbar.updateFields'),
+                  onClick: onUpdateFields,
+                } as MenuEntry,
+              ]
+            : []),
         ]}
       />
 
@@ -512,6 +534,7 @@ export function Toolbar({
         onInsertImage={onInsertImage}
         onInsertPageBreak={onInsertPageBreak}
         onInsertTOC={onInsertTOC}
+        onInsertEquation={onInsertEquation}
         onPrint={onPrint}
         showPrintButton={showPrintButton}
         onPageSetup={onPageSetup}
@@ -0,0 +1,347 @@
+/**
+ * Equation Dialog
+ *
+ * Modal for inserting and editing math equations:
+ * - LaTeX-like / linear-format input (\frac{a}{b}, x^2, \sqrt{x}, a/b, ...)
+ * - Inline or display (own line) placement
+ * - Live preview rendered with the same layout as the pages
+ */
+
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { CSSProperties } from 'react';
+import { useTranslation } from '../../i18n';
+import {
+  parseLinearMath,
+  ommlToLinearMath,
+  layoutMath,
+  renderMathSvg,
+} from '@eigenpal/docx-core/math';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface EquationData {
+  /** Equation in the LaTeX-like linear format */
+  latex: string;
+  display: 'inline' | 'block';
+}
+
+export interface EquationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onInsert: (data: EquationData) => void;
+  /** The equation being edited; omit to insert a new one */
+  currentEquation?: { ommlXml: string; display: 'inline' | 'block' } | null;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/** Snippets inserted at the cursor; `|` marks where the cursor lands */
+const TEMPLATES = [
+  { key: 'fraction', label: 'a/b', snippet: '\\frac{|}{}' },
+  { key: 'superscript', label: 'xⁿ', snippet: '^{|}' },
+  { key: 'subscript', label: 'xₙ', snippet: '_{|}' },
+  { key: 'radical', label: '√x', snippet: '\\sqrt{|}' },
+  { key: 'sum', label: '∑', snippet: '\\sum_{|}^{} ' },
+  { key: 'integral', label: '∫', snippet: '\\int_{|}^{} ' },
+  { key: 'brackets', label: '( )', snippet: '\\left(|\\right)' },
+  { key: 'matrix', label: '[⋮]', snippet: '\\begin{pmatrix}| & \\\\ & \\end{pmatrix}' },
+] as const;
+
+const PREVIEW_FONT_SIZE = 24;
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const overlayStyle: CSSProperties = {
+  position: 'fixed',
+  top: 0,
+  left: 0,
+  right: 0,
+  bottom: 0,
+  backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: 10000,
+};
+
+const dialogStyle: CSSProperties = {
+  backgroundColor: 'white',
+  borderRadius: 8,
+  boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+  minWidth: 420,
+  maxWidth: 560,
+  width: '100%',
+  margin: 20,
+};
+
+const headerStyle: CSSProperties = {
+  padding: '16px 20px 12px',
+  borderBottom: '1px solid var(--doc-border)',
+  fontSize: 16,
+  fontWeight: 600,
+};
+
+const bodyStyle: CSSProperties = {
+  padding: '16px 20px',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 16,
+};
+
+const sectionStyle: CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 8,
+};
+
+const sectionLabelStyle: CSSProperties = {
+  fontSize: 13,
+  fontWeight: 600,
+  color: 'var(--doc-text)',
+};
+
+const templateRowStyle: CSSProperties = {
+  display: 'flex',
+  flexWrap: 'wrap',
+  gap: 4,
+};
+
+const templateButtonStyle: CSSProperties = {
+  minWidth: 40,
+  padding: '4px 8px',
+  fontSize: 14,
+  fontFamily: '"Cambria Math", "Latin Modern Math", serif',
+  border: '1px solid var(--doc-border)',
+  borderRadius: 4,
+  backgroundColor: 'white',
+  cursor: 'pointer',
+};
+
+const textareaStyle: CSSProperties = {
+  padding: '6px 8px',
+  border: '1px solid var(--doc-border)',
+  borderRadius: 4,
+  fontSize: 13,
+  fontFamily: 'monospace',
+  minHeight: 64,
+  resize: 'vertical' as const,
+};
+
+const hintStyle: CSSProperties = {
+  fontSize: 11,
+  color: 'var(--doc-text-muted)',
+};
+
+const radioRowStyle: CSSProperties = {
+  display: 'flex',
+  gap: 16,
+  fontSize: 12,
+};
+
+const previewStyle: CSSProperties = {
+  minHeight: 72,
+  padding: 12,
+  border: '1px solid var(--doc-border)',
+  borderRadius: 4,
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  overflowX: 'auto',
+  color: 'var(--doc-text)',
+};
+
+const footerStyle: CSSProperties = {
+  padding: '12px 20px 16px',
+  borderTop: '1px solid var(--doc-border)',
+  display: 'flex',
+  justifyContent: 'flex-end',
+  gap: 8,
+};
+
+const btnStyle: CSSProperties = {
+  padding: '6px 16px',
+  fontSize: 13,
+  border: '1px solid var(--doc-border)',
+  borderRadius: 4,
+  cursor: 'pointer',
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function EquationDialog({
+  isOpen,
+  onClose,
+  onInsert,
+  currentEquation,
+}: EquationDialogProps): React.ReactElement | null {
+  const { t } = useTranslation();
+  const [latex, setLatex] = useState('');
+  const [display, setDisplay] = useState<'inline' | 'block'>('inline');
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  const initialLatex = useMemo(
+    () => (currentEquation ? ommlToLinearMath(currentEquation.ommlXml) : ''),
+    [currentEquation]
+  );
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLatex(initialLatex);
+    setDisplay(currentEquation?.display ?? 'inline');
+    requestAnimationFrame(() => inputRef.current?.focus());
+  }, [isOpen, initialLatex, currentEquation]);
+
+  // Render the preview with the page renderer's math layout
+  useEffect(() => {
+    const el = previewRef.current;
+    if (!el) return;
+    el.innerHTML = latex.trim()
+      ? renderMathSvg(layoutMath(parseLinearMath(latex), { fontSize: PREVIEW_FONT_SIZE }))
+      : '';
+  }, [latex, isOpen]);
+
+  const insertTemplate = useCallback(
+    (snippet: string) => {
+      const input = inputRef.current;
+      const start = input?.selectionStart ?? latex.length;
+      const end = input?.selectionEnd ?? latex.length;
+      const cursor = snippet.indexOf('|');
+      const text = snippet.replace('|', '');
+      setLatex(latex.slice(0, start) + text + latex.slice(end));
+      requestAnimationFrame(() => {
+        input?.focus();
+        input?.setSelectionRange(start + cursor, start + cursor);
+      });
+    },
+    [latex]
+  );
+
+  const isUnchanged =
+    !!currentEquation && latex === initialLatex && display === currentEquation.display;
+  const canApply = latex.trim().length > 0;
+
+  const handleApply = useCallback(() => {
+    if (!canApply) return;
+    // Leave an untouched equation's original OMML alone
+    if (!isUnchanged) onInsert({ latex, display });
+    onClose();
+  }, [canApply, isUnchanged, latex, display, onInsert, onClose]);
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      // Plain Enter inserts a newline in the input; Ctrl/Cmd+Enter applies
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleApply();
+    },
+    [onClose, handleApply]
+  );
+
+  if (!isOpen) return null;
+
+  const title = currentEquation ? t('dialogs.equation.editTitle') : t('dialogs.equation.title');
+
+  return (
+    <div style={overlayStyle} onClick={onClose} onKeyDown={handleKeyDown}>
+      <div
+        style={dialogStyle}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label={title}
+      >
+        <div style={headerStyle}>{title}</div>
+
+        <div style={bodyStyle}>
+          {/* Structure templates */}
+          <div style={templateRowStyle}>
+            {TEMPLATES.map((template) => (
+              <button
+                key={template.key}
+                type="button"
+                style={templateButtonStyle}
+                title={t(`dialogs.equation.templates.${template.key}`)}
+                aria-label={t(`dialogs.equation.templates.${template.key}`)}
+                onClick={() => insertTemplate(template.snippet)}
+              >
+                {template.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Input */}
+          <div style={sectionStyle}>
+            <label style={sectionLabelStyle} htmlFor="docx-equation-input">
+              {t('dialogs.equation.input')}
+            </label>
+            <textarea
+              id="docx-equation-input"
+              ref={inputRef}
+              style={textareaStyle}
+              value={latex}
+              onChange={(e) => setLatex(e.target.value)}
+              placeholder={t('dialogs.equation.inputPlaceholder')}
+              spellCheck={false}
+            />
+            <div style={hintStyle}>{t('dialogs.equation.hint')}</div>
+          </div>
+
+          {/* Display mode */}
+          <div style={radioRowStyle} role="radiogroup" aria-label={t('dialogs.equation.display')}>
+            <label>
+              <input
+                type="radio"
+                name="docx-equation-display"
+                checked={display === 'inline'}
+                onChange={() => setDisplay('inline')}
+              />{' '}
+              {t('dialogs.equation.inline')}
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="docx-equation-display"
+                checked={display === 'block'}
+                onChange={() => setDisplay('block')}
+              />{' '}
+              {t('dialogs.equation.block')}
+            </label>
+          </div>
+
+          {/* Preview */}
+          <div style={sectionStyle}>
+            <div style={sectionLabelStyle}>{t('dialogs.equation.preview')}</div>
+            <div ref={previewRef} style={previewStyle} aria-live="polite" />
+          </div>
+        </div>
+
+        <div style={footerStyle}>
+          <button type="button" style={btnStyle} onClick={onClose}>
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            style={{
+              ...btnStyle,
+              backgroundColor: 'var(--doc-primary)',
+              color: 'white',
+              borderColor: 'var(--doc-primary)',
+              opacity: canApply ? 1 : 0.5,
+            }}
+            onClick={handleApply}
+            disabled={!canApply}
+          >
+            {currentEquation ? t('common.update') : t('common.insert')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
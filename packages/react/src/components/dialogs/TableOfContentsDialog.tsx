@@ -0,0 +1,212 @@
+/**
+ * Table of Contents Dialog
+ *
+ * Chooses the heading levels, page numbers, tab leader, links and title of
+ * a table of contents before it is inserted.
+ */
+
+import React, { useState, useCallback } from 'react';
+import type { CSSProperties } from 'react';
+import type { TabLeader } from '@eigenpal/docx-core/types/document';
+import { useTranslation } from '../../i18n';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TableOfContentsSettings {
+  fromLevel: number;
+  toLevel: number;
+  pageNumbers: boolean;
+  tabLeader: TabLeader;
+  hyperlinks: boolean;
+  /** Empty for no title paragraph */
+  title: string;
+}
+
+export interface TableOfContentsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApply: (settings: TableOfContentsSettings) => void;
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const overlayStyle: CSSProperties = {
+  position: 'fixed',
+  top: 0,
+  left: 0,
+  right: 0,
+  bottom: 0,
+  backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  zIndex: 10000,
+};
+
+const dialogStyle: CSSProperties = {
+  backgroundColor: 'white',
+  borderRadius: 8,
+  boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+  padding: 24,
+  minWidth: 360,
+  maxWidth: 440,
+};
+
+const labelStyle: CSSProperties = {
+  display: 'block',
+  fontSize: 12,
+  color: '#666',
+  marginBottom: 4,
+};
+
+const fieldStyle: CSSProperties = {
+  width: '100%',
+  padding: '4px 8px',
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  fontSize: 13,
+  marginBottom: 12,
+  boxSizing: 'border-box',
+};
+
+const checkboxRowStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  fontSize: 13,
+  marginBottom: 12,
+};
+
+const buttonRowStyle: CSSProperties = {
+  display: 'flex',
+  justifyContent: 'flex-end',
+  gap: 8,
+  marginTop: 16,
+};
+
+const buttonStyle: CSSProperties = {
+  padding: '6px 16px',
+  border: '1px solid #ccc',
+  borderRadius: 4,
+  cursor: 'pointer',
+  fontSize: 13,
+  backgroundColor: 'white',
+};
+
+const primaryButtonStyle: CSSProperties = {
+  ...buttonStyle,
+  backgroundColor: '#2563eb',
+  color: 'white',
+  border: '1px solid #2563eb',
+};
+
+// ============================================================================
+// LEADER OPTIONS
+// ============================================================================
+
+const leaderSamples: { value: TabLeader; sample?: string }[] = [
+  { value: 'none' },
+  { value: 'dot', sample: '..........' },
+  { value: 'hyphen', sample: '----------' },
+  { value: 'underscore', sample: '__________' },
+];
+
+const LEVELS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function TableOfContentsDialog({
+  isOpen,
+  onClose,
+  onApply,
+}: TableOfContentsDialogProps): React.ReactElement | null {
+  const { t } = useTranslation();
+  const [toLevel, setToLevel] = useState(3);
+  const [pageNumbers, setPageNumbers] = useState(true);
+  const [tabLeader, setTabLeader] = useState<TabLeader>('dot');
+  const [hyperlinks, setHyperlinks] = useState(true);
+  const [title, setTitle] = useState(() => t('dialogs.tableOfContents.defaultCaption'));
+
+  const handleApply = useCallback(() => {
+    onApply({ fromLevel: 1, toLevel, pageNumbers, tabLeader, hyperlinks, title: title.trim() });
+    onClose();
+  }, [toLevel, pageNumbers, tabLeader, hyperlinks, title, onApply, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div style={overlayStyle} onClick={onClose}>
+      <div style={dialogStyle} onClick={(e) => e.stopPropagation()}>
+        <h3 style={{ margin: '0 0 16px', fontSize: 16 }}>{t('dialogs.tableOfContents.title')}</h3>
+
+        <label style={labelStyle}>{t('dialogs.tableOfContents.caption')}</label>
+        <input
+          type="text"
+          style={fieldStyle}
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+
+        <label style={labelStyle}>{t('dialogs.tableOfContents.showLevels')}</label>
+        <select
+          style={fieldStyle}
+          value={toLevel}
+          onChange={(e) => setToLevel(parseInt(e.target.value, 10))}
+        >
+          {LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {level}
+            </option>
+          ))}
+        </select>
+
+        <label style={checkboxRowStyle}>
+          <input
+            type="checkbox"
+            checked={pageNumbers}
+            onChange={(e) => setPageNumbers(e.target.checked)}
+          />
+          {t('dialogs.tableOfContents.pageNumbers')}
+        </label>
+
+        <label style={labelStyle}>{t('dialogs.tableOfContents.tabLeader')}</label>
+        <select
+          style={fieldStyle}
+          value={tabLeader}
+          disabled={!pageNumbers}
+          onChange={(e) => setTabLeader(e.target.value as TabLeader)}
+        >
+          {leaderSamples.map((o) => (
+            <option key={o.value} value={o.value}>
+              {o.sample ?? t('dialogs.tableOfContents.leaders.none')}
+            </option>
+          ))}
+        </select>
+
+        <label style={checkboxRowStyle}>
+          <input
+            type="checkbox"
+            checked={hyperlinks}
+            onChange={(e) => setHyperlinks(e.target.checked)}
+          />
+          {t('dialogs.tableOfContents.hyperlinks')}
+        </label>
+
+        <div style={buttonRowStyle}>
+          <button style={buttonStyle} onClick={onClose}>
+            {t('common.cancel')}
+          </button>
+          <button style={primaryButtonStyle} onClick={handleApply}>
+            {t('common.apply')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
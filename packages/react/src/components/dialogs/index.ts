@@ -63,6 +63,16 @@ export {
 // Page Setup dialog for page size, orientation, and margins
 export { PageSetupDialog, type PageSetupDialogProps } from './PageSetupDialog';
 
+// Equation dialog for inserting and editing math
+export { EquationDialog, type EquationDialogProps, type EquationData } from './EquationDialog';
+
+// Table of Contents dialog for choosing levels, leaders and links
+export {
+  TableOfContentsDialog,
+  type TableOfContentsDialogProps,
+  type TableOfContentsSettings,
+} from './TableOfContentsDialog';
+
 // Keyboard Shortcuts dialog for showing all shortcuts
 export {
   KeyboardShortcutsDialog,
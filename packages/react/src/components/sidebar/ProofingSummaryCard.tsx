@@ -0,0 +1,107 @@
+import type {
+  ProofingCategory,
+  ProofingIssue,
+} from '@eigenpal/docx-core/prosemirror/plugins/proofing';
+import { getProofingIssueColor } from '@eigenpal/docx-core/prosemirror/plugins/proofing';
+import { MaterialSymbol } from '../ui/Icons';
+import type { SidebarItemRenderProps } from '../../plugin-api/types';
+import { truncateText } from './cardUtils';
+import { CARD_STYLE_COLLAPSED, CARD_STYLE_EXPANDED } from './cardStyles';
+import { useTranslation } from '../../i18n';
+
+const CATEGORIES: ProofingCategory[] = ['grammar', 'style', 'terminology'];
+
+/** Issues listed when expanded; the rest are summarized */
+const MAX_LISTED_ISSUES = 20;
+
+export interface ProofingSummaryCardProps extends SidebarItemRenderProps {
+  issues: ProofingIssue[];
+  onSelectIssue?: (issue: ProofingIssue) => void;
+}
+
+export function ProofingSummaryCard({
+  issues,
+  isExpanded,
+  onToggleExpand,
+  measureRef,
+  onSelectIssue,
+}: ProofingSummaryCardProps) {
+  const { t } = useTranslation();
+  const listed = issues.slice(0, MAX_LISTED_ISSUES);
+
+  return (
+    <div
+      ref={measureRef}
+      className="docx-proofing-summary-card"
+      onClick={() => onToggleExpand()}
+      onMouseDown={(e) => e.stopPropagation()}
+      style={isExpanded ? CARD_STYLE_EXPANDED : CARD_STYLE_COLLAPSED}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <MaterialSymbol name="spellcheck" size={20} />
+        <div style={{ flex: 1, fontSize: 13, fontWeight: 600, color: '#202124' }}>
+          {t('proofing.issues', { count: issues.length })}
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 10, marginTop: 6 }}>
+        {CATEGORIES.map((category) => {
+          const count = issues.filter((issue) => issue.category === category).length;
+          if (!count) return null;
+          return (
+            <span
+              key={category}
+              style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 12 }}
+            >
+              <span
+                style={{
+                  width: 8,
+                  height: 8,
+                  borderRadius: '50%',
+                  backgroundColor: getProofingIssueColor(category),
+                }}
+              />
+              {t(`proofing.categories.${category}`)} {count}
+            </span>
+          );
+        })}
+      </div>
+
+      {isExpanded && (
+        <div style={{ marginTop: 8, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {listed.map((issue) => (
+            <button
+              key={issue.id}
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                onSelectIssue?.(issue);
+              }}
+              style={{
+                textAlign: 'left',
+                background: 'none',
+                border: 'none',
+                borderLeft: `3px solid ${getProofingIssueColor(issue.category)}`,
+                padding: '4px 8px',
+                cursor: 'pointer',
+                fontSize: 12,
+                lineHeight: '16px',
+                color: '#202124',
+              }}
+            >
+              <div style={{ fontWeight: 500 }}>
+                &quot;{truncateText(issue.text.trim(), 40)}&quot;
+              </div>
+              <div style={{ color: '#5f6368' }}>{issue.message}</div>
+            </button>
+          ))}
+          {issues.length > listed.length && (
+            <div style={{ fontSize: 12, color: '#5f6368', padding: '4px 8px' }}>
+              {t('proofing.more', { count: issues.length - listed.length })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
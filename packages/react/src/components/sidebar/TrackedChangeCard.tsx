@@ -72,7 +72,46 @@ export function TrackedChangeCard({
       </div>
 
       <div style={{ fontSize: 13, lineHeight: '20px', color: '#202124', marginTop: 6 }}>
-        {change.type === 'replacement' ? (
+        {change.type === 'format' ? (
+          <>
+            {t('trackedChanges.formatted')}{' '}
+            <span style={{ fontWeight: 500 }}>
+              {(change.formatProperties?.length ? change.formatProperties : ['other' as const])
+                .map((property) => t(`trackedChanges.formats.${property}`))
+                .join(', ')}
+            </span>
+            {change.text.trim() && (
+              <div style={{ color: '#5f6368' }}>&quot;{truncateText(change.text.trim())}&quot;</div>
+            )}
+          </>
+        ) : change.tableChange ? (
+          <>
+            <span
+              style={{
+                color: change.type === 'insertion' ? '#137333' : '#c5221f',
+                fontWeight: 500,
+              }}
+            >
+              {change.tableChange === 'row'
+                ? change.type === 'insertion'
+                  ? t('trackedChanges.insertedRow')
+                  : t('trackedChanges.deletedRow')
+                : change.type === 'insertion'
+                  ? t('trackedChanges.insertedColumn')
+                  : t('trackedChanges.deletedColumn')}
+            </span>
+            {change.text.trim() && (
+              <div style={{ color: '#5f6368' }}>&quot;{truncateText(change.text.trim())}&quot;</div>
+            )}
+          </>
+        ) : change.type === 'move' ? (
+          <>
+            {t('trackedChanges.moved')}{' '}
+            <span style={{ color: '#137333', fontWeight: 500 }}>
+              &quot;{truncateText(change.text)}&quot;
+            </span>
+          </>
+        ) : change.type === 'replacement' ? (
           <>
             {t('trackedChanges.replaced')}{' '}
             <span style={{ color: '#c5221f', fontWeight: 500 }}>
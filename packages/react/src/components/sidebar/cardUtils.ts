@@ -1,5 +1,6 @@
 import type { CSSProperties } from 'react';
 import type { Paragraph } from '@eigenpal/docx-core/types/content';
+import type { FormatChangeProperty } from '@eigenpal/docx-core/prosemirror/utils/formatChanges';
 
 /** Extract plain text from a Comment's paragraph content. */
 export function getCommentText(paragraphs?: Paragraph[]): string {
@@ -116,7 +117,7 @@ export function truncateText(text: string, maxLength = 50): string {
 }
 
 export interface TrackedChangeEntry {
-  type: 'insertion' | 'deletion' | 'replacement';
+  type: 'insertion' | 'deletion' | 'replacement' | 'format' | 'move';
   text: string;
   /** For replacements: the deleted text that was replaced */
   deletedText?: string;
@@ -125,6 +126,14 @@ export interface TrackedChangeEntry {
   from: number;
   to: number;
   revisionId: number;
-  /** For replacements: the insertion part's revisionId (different from the deletion's) */
+  /** For replacements and moves: the insertion part's revisionId (different from the deletion's) */
   insertionRevisionId?: number;
+  /** For moves, and the halves of a move before they are paired: the move's name */
+  moveName?: string;
+  /** For format changes: the formatting properties that changed */
+  formatProperties?: FormatChangeProperty[];
+  /** For format changes: the change is to the paragraph, `from` is its position */
+  isParagraphFormat?: boolean;
+  /** For table structure changes: what was inserted or deleted, `from` is the row or first cell */
+  tableChange?: 'row' | 'column';
 }
@@ -0,0 +1,140 @@
+/**
+ * FormControlPicker Component
+ *
+ * Floating native picker shown in form filling mode when the cursor is in a
+ * dropdown, combo box or date content control. Picking a value writes it
+ * into the control.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import type { CSSProperties } from 'react';
+import { useTranslation } from '../../i18n';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FormControlPickerData {
+  /** Position of the content control */
+  pos: number;
+  /** Kind of picker to show */
+  sdtType: 'dropdown' | 'comboBox' | 'date';
+  /** Current value: an item value, or a date */
+  value: string;
+  /** Items of a dropdown or combo box */
+  items: { displayText: string; value: string }[];
+  /** Bounding rect of the control's first run (for positioning) */
+  anchorRect: DOMRect;
+}
+
+export interface FormControlPickerProps {
+  /** Picker data (null = hidden) */
+  data: FormControlPickerData | null;
+  /** Called with the picked value */
+  onChange: (pos: number, value: string) => void;
+  /** Called when the picker should close */
+  onClose: () => void;
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const PICKER_STYLE: CSSProperties = {
+  position: 'fixed',
+  zIndex: 10000,
+  background: 'white',
+  borderRadius: '8px',
+  boxShadow: '0 1px 3px rgba(0,0,0,0.12), 0 4px 12px rgba(0,0,0,0.08)',
+  border: '1px solid #dadce0',
+  padding: '6px',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+  fontSize: '14px',
+};
+
+const INPUT_STYLE: CSSProperties = {
+  padding: '4px 6px',
+  border: '1px solid #dadce0',
+  borderRadius: '4px',
+  fontSize: '14px',
+  minWidth: '160px',
+  outline: 'none',
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function FormControlPicker({
+  data,
+  onChange,
+  onClose,
+}: FormControlPickerProps): React.ReactElement | null {
+  const { t } = useTranslation();
+  const pickerRef = useRef<HTMLDivElement>(null);
+  const pos = data?.pos;
+
+  // Open the native picker on entering a control. Browsers refuse without a
+  // recent user gesture, in which case the field is still one click away.
+  useEffect(() => {
+    if (pos === undefined) return;
+    try {
+      pickerRef.current?.querySelector<HTMLInputElement>('input, select')?.showPicker?.();
+    } catch {
+      // Not allowed here
+    }
+  }, [pos]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (pos === undefined) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [pos, onClose]);
+
+  if (!data) return null;
+
+  const style = { ...PICKER_STYLE, top: data.anchorRect.bottom + 4, left: data.anchorRect.left };
+
+  return (
+    <div
+      ref={pickerRef}
+      className="ep-form-control-picker"
+      style={style}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {data.sdtType === 'date' ? (
+        <input
+          type="date"
+          style={INPUT_STYLE}
+          aria-label={t('formControlPicker.pickDate')}
+          value={data.value.slice(0, 10)}
+          onChange={(e) => {
+            if (e.target.value) onChange(data.pos, e.target.value);
+          }}
+        />
+      ) : (
+        <select
+          style={INPUT_STYLE}
+          aria-label={t('formControlPicker.chooseItem')}
+          value={data.items.some((item) => item.value === data.value) ? data.value : ''}
+          onChange={(e) => onChange(data.pos, e.target.value)}
+        >
+          <option value="" disabled>
+            {t('formControlPicker.chooseItem')}
+          </option>
+          {data.items.map((item) => (
+            <option key={item.value} value={item.value}>
+              {item.displayText}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
+
+export default FormControlPicker;
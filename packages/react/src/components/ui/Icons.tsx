@@ -679,6 +679,22 @@ export function IconPageBreak(props: IconProps) {
   );
 }
 
+export function IconFunctions(props: IconProps) {
+  return (
+    <SvgIcon {...props}>
+      <path d="M240-160v-80l260-240-260-240v-80h480v120H431l215 200-215 200h289v120H240Z" />
+    </SvgIcon>
+  );
+}
+
+export function IconSync(props: IconProps) {
+  return (
+    <SvgIcon {...props}>
+      <path d="M160-160v-80h110l-16-14q-52-46-73-105t-21-119q0-111 66.5-197.5T400-790v84q-72 26-116 88.5T240-478q0 45 17 87.5t53 78.5l10 10v-98h80v240H160Zm400-10v-84q72-26 116-88.5T720-482q0-45-17-87.5T650-648l-10-10v98h-80v-240h240v80H690l16 14q49 49 71.5 106.5T800-482q0 111-66.5 197.5T560-170Z" />
+    </SvgIcon>
+  );
+}
+
 export function IconArrowBack(props: IconProps) {
   return (
     <SvgIcon {...props}>
@@ -746,6 +762,22 @@ export function IconAddComment(props: IconProps) {
   );
 }
 
+export function IconSpellcheck(props: IconProps) {
+  return (
+    <SvgIcon {...props}>
+      <path d="M564-80 394-250l56-56 114 114 226-226 56 56L564-80ZM120-320l194-520h94l194 520h-92l-46-132H254l-46 132h-88Zm162-208h156l-76-216h-4l-76 216Z" />
+    </SvgIcon>
+  );
+}
+
+export function IconAutoAwesome(props: IconProps) {
+  return (
+    <SvgIcon {...props}>
+      <path d="m744-576-42-92-92-42 92-42 42-92 42 92 92 42-92 42-42 92Zm0 528-42-92-92-42 92-42 42-92 42 92 92 42-92 42-42 92ZM336-192l-84-180-180-84 180-84 84-180 84 180 180 84-180 84-84 180Zm0-165 36-75 75-36-75-36-36-75-36 75-75 36 75 36 36 75Zm0-111Z" />
+    </SvgIcon>
+  );
+}
+
 export function IconComment(props: IconProps) {
   return (
     <SvgIcon {...props}>
@@ -883,6 +915,10 @@ const iconMap: Record<string, React.ComponentType<IconProps>> = {
   more_vert: IconMoreVert,
   // Page break
   page_break: IconPageBreak,
+  // Equation
+  functions: IconFunctions,
+  // Fields
+  sync: IconSync,
   // Navigation
   arrow_back: IconArrowBack,
   // Comments sidebar
@@ -893,6 +929,10 @@ const iconMap: Record<string, React.ComponentType<IconProps>> = {
   check: IconCheck,
   close: IconClose,
   add_comment: IconAddComment,
+  // Proofing
+  spellcheck: IconSpellcheck,
+  // AI actions
+  auto_awesome: IconAutoAwesome,
   comment: IconComment,
   edit_note: IconEditNote,
   rate_review: IconRateReview,
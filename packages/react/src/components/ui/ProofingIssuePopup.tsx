@@ -0,0 +1,142 @@
+/**
+ * ProofingIssuePopup Component
+ *
+ * Quick-fix popup shown when the cursor is on a grammar or style issue.
+ * Shows the issue message with its suggested replacements, and lets the user
+ * dismiss the issue.
+ */
+
+import React, { useEffect } from 'react';
+import type { CSSProperties } from 'react';
+import {
+  getProofingIssueColor,
+  type ProofingIssue,
+} from '@eigenpal/docx-core/prosemirror/plugins/proofing';
+import { useTranslation } from '../../i18n';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProofingIssuePopupData {
+  issue: ProofingIssue;
+  /** Bounding rect of the start of the issue (for positioning) */
+  anchorRect: DOMRect;
+}
+
+export interface ProofingIssuePopupProps {
+  /** Popup data (null = hidden) */
+  data: ProofingIssuePopupData | null;
+  /** Called with the picked replacement */
+  onReplace: (issue: ProofingIssue, replacement: string) => void;
+  /** Called when the issue should no longer be flagged */
+  onDismiss: (issue: ProofingIssue) => void;
+  /** Called when the popup should close */
+  onClose: () => void;
+}
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const POPUP_STYLE: CSSProperties = {
+  position: 'fixed',
+  zIndex: 10000,
+  background: 'white',
+  borderRadius: '8px',
+  boxShadow: '0 1px 3px rgba(0,0,0,0.12), 0 4px 12px rgba(0,0,0,0.08)',
+  border: '1px solid #dadce0',
+  padding: '8px 10px',
+  maxWidth: '320px',
+  fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+  fontSize: '13px',
+  color: '#202124',
+};
+
+const REPLACEMENT_STYLE: CSSProperties = {
+  padding: '3px 8px',
+  border: '1px solid #dadce0',
+  borderRadius: '4px',
+  background: '#f8f9fa',
+  fontSize: '13px',
+  fontWeight: 500,
+  cursor: 'pointer',
+};
+
+const DISMISS_STYLE: CSSProperties = {
+  padding: '3px 0',
+  border: 'none',
+  background: 'none',
+  color: '#5f6368',
+  fontSize: '12px',
+  cursor: 'pointer',
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export function ProofingIssuePopup({
+  data,
+  onReplace,
+  onDismiss,
+  onClose,
+}: ProofingIssuePopupProps): React.ReactElement | null {
+  const { t } = useTranslation();
+  const issueId = data?.issue.id;
+
+  // Close on Escape
+  useEffect(() => {
+    if (issueId === undefined) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [issueId, onClose]);
+
+  if (!data) return null;
+
+  const { issue } = data;
+  const style = {
+    ...POPUP_STYLE,
+    top: data.anchorRect.bottom + 4,
+    left: data.anchorRect.left,
+    borderTop: `3px solid ${getProofingIssueColor(issue.category)}`,
+  };
+
+  return (
+    <div
+      className="ep-proofing-popup"
+      role="dialog"
+      style={style}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div style={{ fontSize: 11, color: '#5f6368', marginBottom: 2 }}>
+        {t(`proofing.categories.${issue.category}`)}
+      </div>
+      <div style={{ lineHeight: '18px' }}>{issue.message}</div>
+      {issue.replacements.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 8 }}>
+          {issue.replacements.map((replacement) => (
+            <button
+              key={replacement}
+              type="button"
+              style={REPLACEMENT_STYLE}
+              onClick={() => onReplace(issue, replacement)}
+            >
+              {replacement || t('proofing.remove')}
+            </button>
+          ))}
+        </div>
+      )}
+      <div style={{ marginTop: 6 }}>
+        <button type="button" style={DISMISS_STYLE} onClick={() => onDismiss(issue)}>
+          {t('proofing.ignore')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ProofingIssuePopup;
@@ -114,7 +114,7 @@ export function useCommentSidebarItems({
       const replies = repliesByParent.get(change.revisionId) ?? [];
       items.push({
         id: `tc-${change.revisionId}-${idx}`,
-        anchorPos: change.from,
+        anchorPos: change.isParagraphFormat || change.tableChange ? change.from + 1 : change.from,
         anchorKey: `revision-${change.revisionId}`,
         priority: 1,
         estimatedHeight: 80,
@@ -67,6 +67,37 @@ export {
   serializeDocumentBody,
   serializeSectionProperties,
 } from '@eigenpal/docx-core/docx/serializer/documentSerializer';
+export {
+  serializeDocumentToHtml,
+  type HtmlExportOptions,
+  type HtmlExportResult,
+} from '@eigenpal/docx-core/docx/serializer/htmlSerializer';
+export {
+  serializeDocumentToMarkdown,
+  type MarkdownExportOptions,
+  type MarkdownExportResult,
+} from '@eigenpal/docx-core/docx/serializer/markdownSerializer';
+export {
+  importHtml,
+  importMarkdown,
+  type DocumentImportOptions,
+  type ImageResolver,
+} from '@eigenpal/docx-core/docx/importer';
+export {
+  compareDocuments,
+  compareDocx,
+  type CompareOptions,
+} from '@eigenpal/docx-core/docx/compare';
+export {
+  updateFields,
+  type UpdateFieldsOptions,
+  type FieldUpdate,
+} from '@eigenpal/docx-core/docx/fields';
+export {
+  applyBoundData,
+  writeBoundData,
+  replaceCustomXmlPart,
+} from '@eigenpal/docx-core/docx/dataBinding';
 export {
   processTemplate,
   processTemplateDetailed,
@@ -95,6 +126,7 @@ export {
   loadFont,
   loadFonts,
   loadFontFromBuffer,
+  getLoadedFontData,
   isFontLoaded,
   isLoading as isFontsLoading,
   getLoadedFonts,
@@ -103,6 +135,20 @@ export {
   preloadCommonFonts,
 } from '@eigenpal/docx-core/utils/fontLoader';
 
+// ============================================================================
+// PDF EXPORT
+// ============================================================================
+
+export {
+  exportLayoutToPdf,
+  exportDocumentToPdf,
+  loadedFontSource,
+  type PdfExportOptions,
+  type PdfFontRequest,
+  type PdfFontSource,
+  type PdfTextMeasurer,
+} from '@eigenpal/docx-core/pdf';
+
 // ============================================================================
 // UI COMPONENTS
 // ============================================================================
@@ -392,6 +438,16 @@ export {
   getAllCategories,
   formatShortcutKeys,
 } from './components/dialogs/KeyboardShortcutsDialog';
+export {
+  EquationDialog,
+  type EquationDialogProps,
+  type EquationData,
+} from './components/dialogs/EquationDialog';
+export {
+  TableOfContentsDialog,
+  type TableOfContentsDialogProps,
+  type TableOfContentsSettings,
+} from './components/dialogs/TableOfContentsDialog';
 
 // ============================================================================
 // I18N
@@ -455,6 +511,8 @@ export type {
 export type {
   AIAction,
   AIActionRequest,
+  AIRequestHandler,
+  AIRequestOptions,
   AgentResponse,
   AgentContext,
   SelectionContext,
@@ -469,10 +527,16 @@ export type {
   FormatTextCommand,
   InsertTableCommand,
   InsertImageCommand,
+  InsertEquationCommand,
   InsertHyperlinkCommand,
   SetVariableCommand,
   ApplyStyleCommand,
 } from '@eigenpal/docx-core/types/agentApi';
+export {
+  createMockAIHandler,
+  type MockAIHandler,
+  type MockAIHandlerOptions,
+} from '@eigenpal/docx-core/agent/mockAIHandler';
 
 // ============================================================================
 // HOOKS
@@ -725,6 +789,116 @@ export {
   type TagType,
 } from './plugins/template';
 
+// ============================================================================
+// COLLABORATION
+// ============================================================================
+
+export {
+  createCollaborationPlugins,
+  getRemotePresences,
+  type CollabUser,
+  type CollabProvider,
+  type CollabStepsMessage,
+  type CollabConfirmedSteps,
+  type CollabPresence,
+  type CollaborationOptions,
+  type RemotePresence,
+} from '@eigenpal/docx-core/prosemirror/plugins/collaboration';
+export {
+  CollabAuthority,
+  createInMemoryCollabProvider,
+  createBroadcastChannelCollabProvider,
+  type BroadcastChannelCollabOptions,
+} from '@eigenpal/docx-core/prosemirror/plugins/collabProviders';
+
+// ============================================================================
+// DOCUMENT PROTECTION
+// ============================================================================
+
+export {
+  createDocumentProtectionPlugin,
+  setDocumentProtection,
+  isProtectionEnforced,
+  canEditRegion,
+  isEditableAt,
+  type DocumentProtectionState,
+} from '@eigenpal/docx-core/prosemirror/plugins/documentProtection';
+export type {
+  DocumentProtection,
+  DocumentSettings,
+  EditPermission,
+} from '@eigenpal/docx-core/types/document';
+export { type RemoteSelection } from './paged-editor/SelectionOverlay';
+
+// ============================================================================
+// FORM FILLING
+// ============================================================================
+
+export {
+  createFormFillingPlugin,
+  setFormFilling,
+  isFormFillingActive,
+  findFormControls,
+  formControlAt,
+  getFormValues,
+  setFormControlValue,
+  setFormValues,
+  moveToFormControl,
+  type FormControl,
+  type FormValue,
+} from '@eigenpal/docx-core/prosemirror/plugins/formFilling';
+
+// ============================================================================
+// SPELL CHECKING
+// ============================================================================
+
+export {
+  registerSpellingDictionary,
+  unregisterSpellingDictionary,
+  getSpellChecker,
+  type SpellingDictionary,
+  type SpellChecker,
+} from '@eigenpal/docx-core/utils/hunspell';
+export {
+  createSpellCheckPlugin,
+  getSpellingErrors,
+  getSpellingErrorAt,
+  getSpellingSuggestions,
+  replaceSpellingError,
+  ignoreSpellingAll,
+  addWordToDictionary,
+  recheckSpelling,
+  type SpellCheckOptions,
+  type SpellingError,
+  type CustomDictionary,
+} from '@eigenpal/docx-core/prosemirror/plugins/spellCheck';
+
+// ============================================================================
+// PROOFING
+// ============================================================================
+
+export {
+  getProofingIssues,
+  getProofingIssueAt,
+  applyProofingReplacement,
+  dismissProofingIssue,
+  type ProofingProvider,
+  type ProofingParagraph,
+  type ProofingMatch,
+  type ProofingIssue,
+  type ProofingCategory,
+} from '@eigenpal/docx-core/prosemirror/plugins/proofing';
+export {
+  createRuleBasedProofingProvider,
+  repeatedWordRule,
+  passiveVoiceRule,
+  bannedTermsRule,
+  type ProofingRule,
+  type ProofingRuleMatch,
+  type BannedTerm,
+  type RuleBasedProofingOptions,
+} from '@eigenpal/docx-core/prosemirror/plugins/proofingRules';
+
 // ============================================================================
 // CORE PLUGIN SYSTEM
 // ============================================================================
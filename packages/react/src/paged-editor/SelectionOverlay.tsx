@@ -4,6 +4,7 @@
  * Renders the selection overlay for the paged editor, including:
  * - Caret cursor (blinking vertical line for collapsed selection)
  * - Selection highlights (blue rectangles for range selection)
+ * - Remote collaborators' carets and selections (colored, with a name label)
  *
  * The overlay is positioned absolutely over the pages container and
  * renders selection rectangles in container-relative coordinates.
@@ -19,6 +20,22 @@ import type {
 // TYPES
 // =============================================================================
 
+/**
+ * A collaborator's caret/selection, already in overlay coordinates.
+ */
+export interface RemoteSelection {
+  /** Collaborator client ID */
+  id: string;
+  /** Name shown in the caret label */
+  name: string;
+  /** Caret and selection color */
+  color: string;
+  /** Caret position (at the selection head) */
+  caret: CaretPosition | null;
+  /** Selection rectangles (empty for a collapsed selection) */
+  rects: SelectionRect[];
+}
+
 export interface SelectionOverlayProps {
   /** Selection rectangles for range selection. */
   selectionRects: SelectionRect[];
@@ -38,6 +55,8 @@ export interface SelectionOverlayProps {
   caretWidth?: number;
   /** Blink interval in milliseconds (0 to disable). */
   blinkInterval?: number;
+  /** Carets and selections of remote collaborators. */
+  remoteSelections?: RemoteSelection[];
 }
 
 // =============================================================================
@@ -48,6 +67,8 @@ const DEFAULT_CARET_COLOR = '#000';
 const DEFAULT_SELECTION_COLOR = 'rgba(66, 133, 244, 0.3)'; // Google Docs style blue
 const DEFAULT_CARET_WIDTH = 2;
 const DEFAULT_BLINK_INTERVAL = 530; // Standard cursor blink rate
+const REMOTE_SELECTION_OPACITY = 0.25;
+const EMPTY_REMOTE_SELECTIONS: RemoteSelection[] = [];
 
 // =============================================================================
 // STYLES
@@ -73,8 +94,9 @@ const caretStyles = (
   position: 'absolute',
   left: caret.x,
   top: caret.y,
-  width: width,
-  height: caret.height,
+  // Carets in vertical text run across the line
+  width: caret.vertical ? caret.height : width,
+  height: caret.vertical ? width : caret.height,
   backgroundColor: color,
   opacity: visible ? 1 : 0,
   transition: 'opacity 0.05s ease-out',
@@ -91,6 +113,21 @@ const selectionRectStyles = (rect: SelectionRect, color: string): React.CSSPrope
   pointerEvents: 'none',
 });
 
+const remoteLabelStyles = (color: string): React.CSSProperties => ({
+  position: 'absolute',
+  left: 0,
+  bottom: '100%',
+  padding: '1px 4px',
+  borderRadius: '3px 3px 3px 0',
+  backgroundColor: color,
+  color: '#fff',
+  fontSize: 11,
+  lineHeight: '14px',
+  fontFamily: 'sans-serif',
+  whiteSpace: 'nowrap',
+  pointerEvents: 'none',
+});
+
 // =============================================================================
 // COMPONENT
 // =============================================================================
@@ -176,6 +213,33 @@ const SelectionRectangle: React.FC<{
   );
 };
 
+/**
+ * Remote collaborator caret and selection (no blinking, always visible).
+ */
+const RemoteSelectionMarker: React.FC<{ selection: RemoteSelection }> = ({ selection }) => {
+  const { id, name, color, caret, rects } = selection;
+  return (
+    <>
+      {rects.map((rect, index) => (
+        <div
+          key={`remote-${id}-${rect.pageIndex}-${index}`}
+          style={{ ...selectionRectStyles(rect, color), opacity: REMOTE_SELECTION_OPACITY }}
+          data-testid="remote-selection-rect"
+        />
+      ))}
+      {caret && (
+        <div
+          style={caretStyles(caret, color, DEFAULT_CARET_WIDTH, true)}
+          data-testid="remote-caret"
+          data-client-id={id}
+        >
+          <span style={remoteLabelStyles(color)}>{name}</span>
+        </div>
+      )}
+    </>
+  );
+};
+
 /**
  * Selection overlay component.
  *
@@ -191,8 +255,9 @@ export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({
   selectionColor = DEFAULT_SELECTION_COLOR,
   caretWidth = DEFAULT_CARET_WIDTH,
   blinkInterval = DEFAULT_BLINK_INTERVAL,
+  remoteSelections = EMPTY_REMOTE_SELECTIONS,
 }) => {
-  if (readOnly) {
+  if (readOnly && remoteSelections.length === 0) {
     return null;
   }
   // Determine if we have a range selection or collapsed selection
@@ -201,8 +266,14 @@ export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({
 
   return (
     <div style={overlayStyles} data-testid="selection-overlay">
+      {/* Render collaborators below the local selection */}
+      {remoteSelections.map((remote) => (
+        <RemoteSelectionMarker key={remote.id} selection={remote} />
+      ))}
+
       {/* Render selection rectangles for range selection */}
-      {hasRangeSelection &&
+      {!readOnly &&
+        hasRangeSelection &&
         selectionRects.map((rect, index) => (
           <SelectionRectangle
             key={`sel-${rect.pageIndex}-${rect.x}-${rect.y}-${index}`}
@@ -213,7 +284,7 @@ export const SelectionOverlay: React.FC<SelectionOverlayProps> = ({
         ))}
 
       {/* Render caret for collapsed selection */}
-      {hasCollapsedSelection && caretPosition && (
+      {!readOnly && hasCollapsedSelection && caretPosition && (
         <Caret
           position={caretPosition}
           color={caretColor}
@@ -4,16 +4,24 @@
  * Implements visual-line-aware ArrowUp/ArrowDown navigation with sticky X.
  * Extracted from PagedEditor.tsx for better separation of concerns.
  *
+ * In vertical text the arrow keys turn with the text: ArrowLeft/ArrowRight
+ * move between lines and ArrowUp/ArrowDown move along a line. The sticky X
+ * is then measured along the line (see getInlineCoordinate).
+ *
  * This hook provides:
- * - getCaretClientX: Get the screen X of the caret at a PM position
+ * - getCaretClientX: Get the screen position of the caret along its line
  * - findLineElementAtPosition: Find the .layout-line element for a PM position
- * - findPositionOnLineAtClientX: Find a PM position on a line at a given screen X
- * - handlePMKeyDown: Key handler for ArrowUp/ArrowDown with sticky X
+ * - findPositionOnLineAtClientX: Find a PM position on a line at a position along it
+ * - handlePMKeyDown: Key handler for line navigation with sticky X
  */
 
 import { useCallback, useRef } from 'react';
-import { TextSelection } from 'prosemirror-state';
+import { Selection, TextSelection } from 'prosemirror-state';
 import type { EditorView } from 'prosemirror-view';
+import {
+  getInlineExtent,
+  getTextDirection,
+} from '@eigenpal/docx-core/layout-bridge/clickToPositionDom';
 
 /** Only match lines inside page body content, skipping header/footer lines. */
 const CONTENT_LINE_SELECTOR = '.layout-page-content .layout-line';
@@ -22,6 +30,43 @@ export interface VisualLineNavigationOptions {
   pagesContainerRef: React.RefObject<HTMLDivElement | null>;
 }
 
+type TextDirection = ReturnType<typeof getTextDirection>;
+
+/**
+ * Lines to move for an arrow key: -1 or 1, or 0 when the key moves along
+ * the line in this text direction.
+ */
+function getLineStep(direction: TextDirection, key: string): number {
+  if (direction === 'tbRl') return key === 'ArrowLeft' ? 1 : key === 'ArrowRight' ? -1 : 0;
+  if (direction === 'btLr') return key === 'ArrowRight' ? 1 : key === 'ArrowLeft' ? -1 : 0;
+  return key === 'ArrowDown' ? 1 : key === 'ArrowUp' ? -1 : 0;
+}
+
+/**
+ * Characters to move for ArrowUp/ArrowDown in vertical text, or 0.
+ */
+function getCharacterStep(direction: TextDirection, key: string): number {
+  if (direction === 'tbRl') return key === 'ArrowDown' ? 1 : key === 'ArrowUp' ? -1 : 0;
+  if (direction === 'btLr') return key === 'ArrowUp' ? 1 : key === 'ArrowDown' ? -1 : 0;
+  return 0;
+}
+
+/**
+ * Move the selection head by one position, as ArrowLeft/ArrowRight do in
+ * horizontal text.
+ */
+function moveByCharacter(view: EditorView, step: number, extend: boolean): boolean {
+  const { state, dispatch } = view;
+  const { selection } = state;
+  const target = Math.max(0, Math.min(selection.head + step, state.doc.content.size));
+  const $target = state.doc.resolve(target);
+  const sel = extend
+    ? TextSelection.between(selection.$anchor, $target, step)
+    : Selection.near($target, step);
+  dispatch(state.tr.setSelection(sel).scrollIntoView());
+  return true;
+}
+
 /**
  * Find the nearest ancestor that actually scrolls (overflow auto/scroll
  * and scrollHeight > clientHeight).
@@ -64,7 +109,8 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
   const lastVisualLineIndexRef = useRef<number>(-1);
 
   /**
-   * Get the client X coordinate of the caret at a PM position.
+   * Get the screen position of the caret at a PM position along its line:
+   * the client X in horizontal text (see getInlineCoordinate).
    */
   const getCaretClientX = useCallback(
     (pmPos: number): number | null => {
@@ -78,7 +124,7 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
 
         if (spanEl.classList.contains('layout-run-tab')) {
           if (pmPos >= pmStart && pmPos < pmEnd) {
-            return spanEl.getBoundingClientRect().left;
+            return getInlineExtent(getTextDirection(spanEl), spanEl.getBoundingClientRect()).start;
           }
           continue;
         }
@@ -91,7 +137,7 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
           const range = ownerDoc.createRange();
           range.setStart(textNode, charIndex);
           range.setEnd(textNode, charIndex);
-          return range.getBoundingClientRect().left;
+          return getInlineExtent(getTextDirection(spanEl), range.getBoundingClientRect()).start;
         }
       }
 
@@ -103,7 +149,8 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
         const pmStart = Number(paragraph.dataset.pmStart);
         const pmEnd = Number(paragraph.dataset.pmEnd);
         if (pmPos >= pmStart && pmPos <= pmEnd) {
-          return emptyRun.getBoundingClientRect().left;
+          return getInlineExtent(getTextDirection(emptyRun), emptyRun.getBoundingClientRect())
+            .start;
         }
       }
 
@@ -157,10 +204,12 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
   );
 
   /**
-   * Find the PM position on a visual line closest to a client X coordinate.
+   * Find the PM position on a visual line closest to a position along it
+   * (the client X in horizontal text).
    */
   const findPositionOnLineAtClientX = useCallback(
     (lineEl: HTMLElement, clientX: number): number | null => {
+      const direction = getTextDirection(lineEl);
       const spans = lineEl.querySelectorAll('span[data-pm-start][data-pm-end]');
 
       if (spans.length === 0) {
@@ -175,19 +224,19 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
       // Check each span for the target X
       for (const span of Array.from(spans)) {
         const spanEl = span as HTMLElement;
-        const rect = spanEl.getBoundingClientRect();
+        const rect = getInlineExtent(direction, spanEl.getBoundingClientRect());
         const pmStart = Number(spanEl.dataset.pmStart);
         const pmEnd = Number(spanEl.dataset.pmEnd);
 
         if (spanEl.classList.contains('layout-run-tab')) {
-          if (clientX >= rect.left && clientX <= rect.right) {
-            const mid = (rect.left + rect.right) / 2;
+          if (clientX >= rect.start && clientX <= rect.end) {
+            const mid = (rect.start + rect.end) / 2;
             return clientX < mid ? pmStart : pmEnd;
           }
           continue;
         }
 
-        if (clientX >= rect.left && clientX <= rect.right) {
+        if (clientX >= rect.start && clientX <= rect.end) {
           const textNode = spanEl.firstChild;
           if (!textNode || textNode.nodeType !== Node.TEXT_NODE) return pmStart;
 
@@ -203,7 +252,7 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
             const r = ownerDoc.createRange();
             r.setStart(text, mid);
             r.setEnd(text, mid);
-            if (clientX < r.getBoundingClientRect().left) {
+            if (clientX < getInlineExtent(direction, r.getBoundingClientRect()).start) {
               hi = mid;
             } else {
               lo = mid + 1;
@@ -215,10 +264,10 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
             const r = ownerDoc.createRange();
             r.setStart(text, lo - 1);
             r.setEnd(text, lo - 1);
-            const leftX = r.getBoundingClientRect().left;
+            const leftX = getInlineExtent(direction, r.getBoundingClientRect()).start;
             r.setStart(text, Math.min(lo, text.length));
             r.setEnd(text, Math.min(lo, text.length));
-            const rightX = r.getBoundingClientRect().left;
+            const rightX = getInlineExtent(direction, r.getBoundingClientRect()).start;
             if (Math.abs(clientX - leftX) < Math.abs(clientX - rightX)) {
               return pmStart + (lo - 1);
             }
@@ -232,8 +281,8 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
       let closestDist = Infinity;
       for (const span of Array.from(spans)) {
         const spanEl = span as HTMLElement;
-        const rect = spanEl.getBoundingClientRect();
-        const dist = clientX < rect.left ? rect.left - clientX : clientX - rect.right;
+        const rect = getInlineExtent(direction, spanEl.getBoundingClientRect());
+        const dist = clientX < rect.start ? rect.start - clientX : clientX - rect.end;
         if (dist < closestDist) {
           closestDist = dist;
           closestSpan = spanEl;
@@ -241,8 +290,8 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
       }
 
       if (!closestSpan) return null;
-      const rect = closestSpan.getBoundingClientRect();
-      return clientX < rect.left
+      const rect = getInlineExtent(direction, closestSpan.getBoundingClientRect());
+      return clientX < rect.start
         ? Number(closestSpan.dataset.pmStart)
         : Number(closestSpan.dataset.pmEnd);
     },
@@ -251,19 +300,32 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
 
   /**
    * Handle key events on the ProseMirror EditorView BEFORE PM processes them.
-   * Implements visual-line-aware ArrowUp/ArrowDown with sticky X.
+   * Implements visual-line-aware line navigation with sticky X.
    */
   const handlePMKeyDown = useCallback(
     (view: EditorView, event: KeyboardEvent): boolean => {
-      // Clear sticky state on non-vertical navigation
-      if (event.key !== 'ArrowUp' && event.key !== 'ArrowDown') {
+      const isArrow = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(event.key);
+      const { from, anchor } = view.state.selection;
+
+      // Arrow keys turn with vertical text
+      const currentLine = isArrow ? findLineElementAtPosition(from) : null;
+      const direction = currentLine ? getTextDirection(currentLine) : null;
+      const lineStep = isArrow ? getLineStep(direction, event.key) : 0;
+
+      // Clear sticky state on navigation along the line
+      if (lineStep === 0) {
         if (
-          ['ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(event.key) ||
+          isArrow ||
+          ['Home', 'End'].includes(event.key) ||
           (event.key.length === 1 && !event.ctrlKey && !event.metaKey)
         ) {
           stickyXRef.current = null;
           lastVisualLineIndexRef.current = -1;
         }
+        const characterStep = getCharacterStep(direction, event.key);
+        if (characterStep !== 0 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+          return moveByCharacter(view, characterStep, event.shiftKey);
+        }
         return false; // Let PM handle
       }
 
@@ -281,8 +343,6 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
       );
       if (allLines.length === 0) return false;
 
-      const { from, anchor } = view.state.selection;
-
       // Set sticky X from current caret position if not already set
       if (stickyXRef.current === null) {
         const clientX = getCaretClientX(from);
@@ -295,14 +355,13 @@ export function useVisualLineNavigation({ pagesContainerRef }: VisualLineNavigat
       if (lastVisualLineIndexRef.current >= 0 && lastVisualLineIndexRef.current < allLines.length) {
         currentIndex = lastVisualLineIndexRef.current;
       } else {
-        const currentLine = findLineElementAtPosition(from);
         if (!currentLine) return false;
         currentIndex = allLines.indexOf(currentLine);
         if (currentIndex === -1) return false;
       }
 
       // Find target line
-      const targetIndex = event.key === 'ArrowUp' ? currentIndex - 1 : currentIndex + 1;
+      const targetIndex = currentIndex + lineStep;
       if (targetIndex < 0 || targetIndex >= allLines.length) {
         lastVisualLineIndexRef.current = -1;
         return false;
@@ -20,6 +20,13 @@ import { TextSelection } from 'prosemirror-state';
 import type { EditorView } from 'prosemirror-view';
 import type { Plugin as ProseMirrorPlugin } from 'prosemirror-state';
 import { PluginLifecycleManager, injectStyles as coreInjectStyles } from '@eigenpal/docx-core';
+import {
+  createProofingPlugin,
+  getProofingIssues,
+  type ProofingIssue,
+  type ProofingProvider,
+} from '@eigenpal/docx-core/prosemirror/plugins/proofing';
+import { ProofingSummaryCard } from '../components/sidebar/ProofingSummaryCard';
 import type {
   ReactEditorPlugin,
   ReactSidebarItem,
@@ -221,6 +228,9 @@ export const PluginHost = forwardRef<PluginHostRef, PluginHostProps>(function Pl
     import('./types').RenderedDomContext | null
   >(null);
 
+  // Issues found by plugin proofing providers
+  const [proofingIssues, setProofingIssues] = useState<ProofingIssue[]>([]);
+
   // PluginLifecycleManager handles: initialization, state tracking,
   // style injection, dispatch wrapping, DOM event listeners, and destroy.
   const lifecycleManager = useMemo(() => new PluginLifecycleManager(), []);
@@ -284,6 +294,7 @@ export const PluginHost = forwardRef<PluginHostRef, PluginHostProps>(function Pl
 
     const updatePluginStates = () => {
       lifecycleManager.updateStates(editorView);
+      setProofingIssues(getProofingIssues(editorView.state));
     };
 
     // Debounced update via requestAnimationFrame
@@ -397,10 +408,18 @@ export const PluginHost = forwardRef<PluginHostRef, PluginHostProps>(function Pl
   // Collect all ProseMirror plugins from plugins
   const externalProseMirrorPlugins = useMemo(() => {
     const pmPlugins: ProseMirrorPlugin[] = [];
+    const proofingProviders: ProofingProvider[] = [];
     for (const plugin of plugins) {
       if (plugin.proseMirrorPlugins) {
         pmPlugins.push(...plugin.proseMirrorPlugins);
       }
+      if (plugin.proofingProvider) {
+        proofingProviders.push(plugin.proofingProvider);
+      }
+    }
+    // One proofing plugin runs all providers
+    if (proofingProviders.length > 0) {
+      pmPlugins.push(createProofingPlugin(proofingProviders));
     }
     return pmPlugins;
   }, [plugins]);
@@ -570,8 +589,31 @@ export const PluginHost = forwardRef<PluginHostRef, PluginHostProps>(function Pl
       const pluginItems = plugin.getSidebarItems(pluginState, context);
       items.push(...pluginItems);
     }
+    // Summary of proofing issues, next to the first one
+    if (proofingIssues.length > 0) {
+      items.push({
+        id: 'proofing-summary',
+        anchorPos: proofingIssues[0].from,
+        priority: 10,
+        estimatedHeight: 60,
+        render: (props) => (
+          <ProofingSummaryCard
+            {...props}
+            issues={proofingIssues}
+            onSelectIssue={(issue) => selectRange(issue.from, issue.to)}
+          />
+        ),
+      });
+    }
     return items;
-  }, [plugins, lifecycleSnapshot.version, editorView, renderedDomContext]);
+  }, [
+    plugins,
+    lifecycleSnapshot.version,
+    editorView,
+    renderedDomContext,
+    proofingIssues,
+    selectRange,
+  ]);
 
   // Callback to receive rendered DOM context from editor
   // Uses ref to avoid infinite loops when child has unstable callbacks
@@ -20,6 +20,7 @@ export default defineConfig({
   external: [
     'react',
     'react-dom',
+    'prosemirror-collab',
     'prosemirror-commands',
     'prosemirror-dropcursor',
     'prosemirror-history',